@@ -2,14 +2,24 @@ import { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { ReauthenticationDialog } from '@/components/auth/ReauthenticationDialog';
+import { ImpersonationBanner } from '@/components/admin/ImpersonationBanner';
 import { LoginPage } from '@/pages/LoginPage';
 import { SignupPage } from '@/pages/SignupPage';
 import { ForgotPasswordPage } from '@/pages/ForgotPasswordPage';
 import { ResetPasswordPage } from '@/pages/ResetPasswordPage';
 import { VerifyEmailPage } from '@/pages/VerifyEmailPage';
+import { EmailChangePage } from '@/pages/EmailChangePage';
+import { OidcCallbackPage } from '@/pages/OidcCallbackPage';
+import { MagicLinkPage } from '@/pages/MagicLinkPage';
+import { SamlCallbackPage } from '@/pages/SamlCallbackPage';
+import { OAuthAuthorizePage } from '@/pages/OAuthAuthorizePage';
+import { AcceptInvitationPage } from '@/pages/AcceptInvitationPage';
 import { DashboardPage } from '@/pages/DashboardPage';
 import { SettingsPage } from '@/pages/SettingsPage';
+import { AdminPage } from '@/pages/AdminPage';
 import { UnauthorizedPage } from '@/pages/UnauthorizedPage';
+import { postSignInPath } from '@/lib/oauth';
 
 function App() {
   const { refreshUser, isAuthenticated } = useAuthStore();
@@ -22,17 +32,26 @@ function App() {
   return (
     <Router>
       <div className="min-h-screen bg-gray-50">
+        <ImpersonationBanner />
+        <ReauthenticationDialog />
         <Routes>
           {/* Public routes */}
           <Route path="/login" element={
-            isAuthenticated ? <Navigate to="/dashboard" replace /> : <LoginPage />
+            isAuthenticated ? <Navigate to={postSignInPath()} replace /> : <LoginPage />
           } />
           <Route path="/signup" element={
-            isAuthenticated ? <Navigate to="/dashboard" replace /> : <SignupPage />
+            isAuthenticated ? <Navigate to={postSignInPath()} replace /> : <SignupPage />
           } />
           <Route path="/forgot-password" element={<ForgotPasswordPage />} />
           <Route path="/reset-password" element={<ResetPasswordPage />} />
           <Route path="/verify-email" element={<VerifyEmailPage />} />
+          <Route path="/email-change/confirm" element={<EmailChangePage action="confirm" />} />
+          <Route path="/email-change/cancel" element={<EmailChangePage action="cancel" />} />
+          <Route path="/auth/callback" element={<OidcCallbackPage />} />
+          <Route path="/magic-link" element={<MagicLinkPage />} />
+          <Route path="/sso/callback" element={<SamlCallbackPage />} />
+          <Route path="/oauth/authorize" element={<OAuthAuthorizePage />} />
+          <Route path="/invitations" element={<AcceptInvitationPage />} />
           <Route path="/unauthorized" element={<UnauthorizedPage />} />
 
           {/* Protected routes */}
@@ -54,8 +73,8 @@ function App() {
 
           {/* Admin routes */}
           <Route path="/admin" element={
-            <ProtectedRoute requiredRole="ADMIN">
-              <div>Admin Dashboard (to be implemented)</div>
+            <ProtectedRoute requiredPermissions={['users:read']}>
+              <AdminPage />
             </ProtectedRoute>
           } />
 
@@ -0,0 +1,155 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { vi } from 'vitest';
+import { AdminPage } from '@/pages/AdminPage';
+import { useAuth } from '@/hooks/useAuth';
+import { adminApi } from '@/api/client';
+
+// Mock the auth hook
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: vi.fn(),
+}));
+
+// Mock the admin API
+vi.mock('@/api/client', () => ({
+  adminApi: {
+    listUsers: vi.fn(),
+    getUser: vi.fn(),
+    getUserSessions: vi.fn(),
+    getUserAudit: vi.fn(),
+    lockUser: vi.fn(),
+  },
+}));
+
+const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
+const mockAdminApi = adminApi as unknown as Record<keyof typeof adminApi, ReturnType<typeof vi.fn>>;
+
+const listedUser = {
+  id: 'user123',
+  email: 'jane@example.com',
+  name: 'Jane Doe',
+  roles: ['USER'],
+  isActive: true,
+  isLocked: false,
+  lockedUntil: null,
+  passwordResetRequired: false,
+  emailVerified: null,
+  mfaEnabled: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('AdminPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue({
+      user: {
+        id: 'admin123',
+        email: 'admin@example.com',
+        name: 'Admin',
+        roles: ['ADMIN', 'USER'],
+        permissions: ['audit:read', 'users:read', 'users:write'],
+      },
+      logout: vi.fn(),
+    });
+    mockAdminApi.listUsers.mockResolvedValue({
+      success: true,
+      data: { items: [listedUser], total: 1, page: 1, pageSize: 20 },
+    });
+    mockAdminApi.getUser.mockResolvedValue({
+      success: true,
+      data: {
+        user: {
+          ...listedUser,
+          permissions: [],
+          failedLoginAttempts: 0,
+          activeSessionCount: 0,
+          passkeyCount: 0,
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    });
+    mockAdminApi.getUserSessions.mockResolvedValue({ success: true, data: { sessions: [] } });
+    mockAdminApi.getUserAudit.mockResolvedValue({
+      success: true,
+      data: {
+        events: [
+          {
+            id: 'event1',
+            event: 'user_login',
+            userId: 'user123',
+            ip: '203.0.113.7',
+            userAgent: null,
+            details: null,
+            createdAt: '2024-01-02T00:00:00.000Z',
+          },
+        ],
+      },
+    });
+  });
+
+  const renderAdminPage = () => {
+    return render(
+      <BrowserRouter>
+        <AdminPage />
+      </BrowserRouter>
+    );
+  };
+
+  it('lists users and searches by email or name', async () => {
+    renderAdminPage();
+
+    expect(await screen.findByText('jane@example.com')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/search/i), { target: { value: ' jane ' } });
+    fireEvent.click(screen.getByRole('button', { name: /^search$/i }));
+
+    await waitFor(() => {
+      expect(mockAdminApi.listUsers).toHaveBeenLastCalledWith({ page: 1, pageSize: 20, search: 'jane' });
+    });
+  });
+
+  it('shows user details and locks the account', async () => {
+    mockAdminApi.lockUser.mockResolvedValue({ success: true, message: 'Account locked' });
+    renderAdminPage();
+
+    fireEvent.click(await screen.findByText('jane@example.com'));
+
+    expect(await screen.findByText('user login')).toBeInTheDocument();
+    expect(screen.getByText('203.0.113.7')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /^lock$/i }));
+
+    await waitFor(() => {
+      expect(mockAdminApi.lockUser).toHaveBeenCalledWith('user123');
+      expect(screen.getByText('Account locked')).toBeInTheDocument();
+    });
+  });
+
+  it('impersonates the user with a reason when allowed', async () => {
+    const startImpersonation = vi.fn().mockResolvedValue(undefined);
+    mockUseAuth.mockReturnValue({
+      user: {
+        id: 'admin123',
+        email: 'admin@example.com',
+        name: 'Admin',
+        roles: ['ADMIN', 'USER'],
+        permissions: ['users:impersonate', 'users:read'],
+      },
+      logout: vi.fn(),
+      startImpersonation,
+    });
+    renderAdminPage();
+
+    fireEvent.click(await screen.findByText('jane@example.com'));
+
+    const impersonateButton = await screen.findByRole('button', { name: /impersonate/i });
+    expect(impersonateButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText(/reason for impersonating/i), { target: { value: ' Ticket 42 ' } });
+    fireEvent.click(impersonateButton);
+
+    await waitFor(() => {
+      expect(startImpersonation).toHaveBeenCalledWith('user123', 'Ticket 42');
+    });
+  });
+});
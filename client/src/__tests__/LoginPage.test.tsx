@@ -3,16 +3,47 @@ import { BrowserRouter } from 'react-router-dom';
 import { vi } from 'vitest';
 import { LoginPage } from '@/pages/LoginPage';
 import { useAuth } from '@/hooks/useAuth';
+import { useOidcProviders } from '@/hooks/useOidcProviders';
+import { authApi } from '@/api/client';
+import { followSamlRequest } from '@/lib/saml';
+
+// Report WebAuthn support so the passkey button renders under jsdom
+vi.mock('@simplewebauthn/browser', () => ({
+  browserSupportsWebAuthn: () => true,
+}));
 
 // Mock the auth hook
 vi.mock('@/hooks/useAuth', () => ({
   useAuth: vi.fn(),
 }));
 
+// Mock the configured social login providers
+vi.mock('@/hooks/useOidcProviders', () => ({
+  useOidcProviders: vi.fn(),
+}));
+
+// Mock the API client used for magic links and single sign-on
+vi.mock('@/api/client', () => ({
+  authApi: {
+    requestMagicLink: vi.fn(),
+    startSamlLogin: vi.fn(),
+  },
+}));
+
+// Leaving for the identity provider is not possible under jsdom
+vi.mock('@/lib/saml', () => ({
+  followSamlRequest: vi.fn(),
+}));
+
 const mockUseAuth = useAuth as jest.MockedFunction<typeof useAuth>;
+const mockUseOidcProviders = useOidcProviders as jest.MockedFunction<typeof useOidcProviders>;
 
 describe('LoginPage', () => {
   beforeEach(() => {
+    vi.mocked(authApi.requestMagicLink).mockReset();
+    vi.mocked(authApi.startSamlLogin).mockReset();
+    vi.mocked(followSamlRequest).mockReset();
+    mockUseOidcProviders.mockReturnValue([]);
     mockUseAuth.mockReturnValue({
       login: vi.fn(),
       isLoading: false,
@@ -78,6 +109,141 @@ describe('LoginPage', () => {
     expect(submitButton).toBeDisabled();
   });
 
+  it('shows the second factor step when MFA is required', async () => {
+    const verifyMfa = vi.fn();
+    mockUseAuth.mockReturnValue({
+      login: vi.fn(),
+      mfaRequired: true,
+      verifyMfa,
+      cancelMfa: vi.fn(),
+      isLoading: false,
+      error: null,
+      clearError: vi.fn(),
+    });
+
+    renderLoginPage();
+
+    expect(screen.getByText(/two-factor authentication/i)).toBeInTheDocument();
+    expect(screen.queryByLabelText(/password/i)).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/authentication code/i), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: /verify/i }));
+
+    await waitFor(() => {
+      expect(verifyMfa).toHaveBeenCalledWith('123456', 'totp');
+    });
+  });
+
+  it('asks for the emailed code when the sign-in needs confirming', async () => {
+    const verifyLogin = vi.fn();
+    mockUseAuth.mockReturnValue({
+      login: vi.fn(),
+      verificationRequired: true,
+      verifyLogin,
+      cancelVerification: vi.fn(),
+      isLoading: false,
+      error: null,
+      clearError: vi.fn(),
+    });
+
+    renderLoginPage();
+
+    expect(screen.getByText(/confirm it's you/i)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText(/verification code/i), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: /verify/i }));
+
+    await waitFor(() => {
+      expect(verifyLogin).toHaveBeenCalledWith('123456');
+    });
+  });
+
+  it('starts a passkey sign-in', () => {
+    const loginWithPasskey = vi.fn();
+    mockUseAuth.mockReturnValue({
+      login: vi.fn(),
+      loginWithPasskey,
+      isLoading: false,
+      error: null,
+      clearError: vi.fn(),
+    });
+
+    renderLoginPage();
+
+    fireEvent.click(screen.getByRole('button', { name: /use a passkey/i }));
+
+    expect(loginWithPasskey).toHaveBeenCalled();
+  });
+
+  it('offers the configured sign-in providers', () => {
+    mockUseOidcProviders.mockReturnValue([
+      { id: 'google', name: 'Google' },
+      { id: 'github', name: 'GitHub' },
+    ]);
+
+    renderLoginPage();
+
+    expect(screen.getByRole('button', { name: /continue with google/i })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /continue with github/i })).toBeInTheDocument();
+  });
+
+  it('emails a sign-in link for the entered address', async () => {
+    vi.mocked(authApi.requestMagicLink).mockResolvedValue({ success: true });
+
+    renderLoginPage();
+
+    fireEvent.change(screen.getByLabelText(/email/i), { target: { value: 'test@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: /email me a link/i }));
+
+    await waitFor(() => {
+      expect(authApi.requestMagicLink).toHaveBeenCalledWith('test@example.com');
+      expect(screen.getByText(/we've sent it a sign-in link/i)).toBeInTheDocument();
+    });
+  });
+
+  it('needs an email address before sending a sign-in link', async () => {
+    renderLoginPage();
+
+    fireEvent.click(screen.getByRole('button', { name: /email me a link/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/email is required/i)).toBeInTheDocument();
+    });
+    expect(screen.queryByText(/password is required/i)).not.toBeInTheDocument();
+    expect(authApi.requestMagicLink).not.toHaveBeenCalled();
+  });
+
+  it('sends the entered address to its identity provider for single sign-on', async () => {
+    const request = { binding: 'HTTP-Redirect' as const, url: 'https://idp.example.com/sso?SAMLRequest=abc' };
+    vi.mocked(authApi.startSamlLogin).mockResolvedValue({ success: true, data: request });
+
+    renderLoginPage();
+
+    fireEvent.change(screen.getByLabelText(/email/i), { target: { value: 'test@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: /use single sign-on/i }));
+
+    await waitFor(() => {
+      expect(authApi.startSamlLogin).toHaveBeenCalledWith('test@example.com');
+      expect(followSamlRequest).toHaveBeenCalledWith(request);
+    });
+  });
+
+  it('explains when single sign-on is not set up for the address', async () => {
+    vi.mocked(authApi.startSamlLogin).mockRejectedValue({
+      response: { data: { error: { message: 'Single sign-on is not set up for this email address' } } },
+    });
+
+    renderLoginPage();
+
+    fireEvent.change(screen.getByLabelText(/email/i), { target: { value: 'test@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: /use single sign-on/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/single sign-on is not set up/i)).toBeInTheDocument();
+    });
+    expect(followSamlRequest).not.toHaveBeenCalled();
+  });
+
   it('has links to forgot password and signup', () => {
     renderLoginPage();
     
@@ -1,5 +1,52 @@
 import axios, { AxiosError, AxiosResponse } from 'axios';
-import type { ApiResponse, LoginResponse, SignupResponse, RefreshResponse, User } from '@/lib/types';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/browser';
+import type {
+  AdminSession,
+  AdminUserDetail,
+  AdminUserStatus,
+  AdminUserSummary,
+  ApiResponse,
+  AuditEvent,
+  CreatedPersonalAccessToken,
+  DataExport,
+  ImpersonationStart,
+  LoginResponse,
+  LinkedIdentity,
+  LoginVerificationResponse,
+  MfaChallengeResponse,
+  MfaStatus,
+  OAuthAuthorizationPrompt,
+  OAuthAuthorizationRedirect,
+  OAuthConsent,
+  OidcAuthorization,
+  OidcProvider,
+  Organization,
+  OrganizationInvitation,
+  OrganizationInvitationPreview,
+  OrganizationMember,
+  OrganizationRole,
+  PaginatedResult,
+  Passkey,
+  PasswordPolicy,
+  PersonalAccessToken,
+  SecurityActivityEntry,
+  Session,
+  SignupResponse,
+  RefreshResponse,
+  ReauthenticationInput,
+  PendingEmailChange,
+  SamlAuthnRequestStart,
+  SamlConnection,
+  SamlConnectionInput,
+  TotpSetupResponse,
+  User,
+  WebAuthnOptions,
+} from '@/lib/types';
 
 // Create axios instance with base configuration
 const apiClient = axios.create({
@@ -25,6 +72,77 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Refresh tokens are single-use, so concurrent 401s must share one refresh request
+let refreshRequest: Promise<AxiosResponse<ApiResponse<RefreshResponse>>> | null = null;
+
+function refreshAccessToken() {
+  if (!refreshRequest) {
+    refreshRequest = axios
+      .post<ApiResponse<RefreshResponse>>(
+        `${apiClient.defaults.baseURL}/auth/refresh`,
+        {},
+        { withCredentials: true }
+      )
+      .finally(() => {
+        refreshRequest = null;
+      });
+  }
+  return refreshRequest;
+}
+
+// Sensitive actions need a recent sign-in. The app registers a prompt that asks for the password
+// or a code, or resolves null when the user gives up.
+export type ReauthenticationPrompt = (error: string | null) => Promise<ReauthenticationInput | null>;
+
+let reauthenticationPrompt: ReauthenticationPrompt | null = null;
+
+export function setReauthenticationPrompt(prompt: ReauthenticationPrompt | null) {
+  reauthenticationPrompt = prompt;
+}
+
+// Concurrent requests share one prompt; wrong answers are asked again with the server's message
+let reauthenticationRequest: Promise<string | null> | null = null;
+
+function reauthenticate(prompt: ReauthenticationPrompt) {
+  if (!reauthenticationRequest) {
+    reauthenticationRequest = (async () => {
+      let error: string | null = null;
+
+      for (;;) {
+        const input = await prompt(error);
+        if (!input) {
+          return null;
+        }
+
+        try {
+          const response = await apiClient.post<ApiResponse<RefreshResponse>>('/auth/reauthenticate', input);
+          if (response.data.success && response.data.data) {
+            return response.data.data.accessToken;
+          }
+          error = response.data.error?.message || 'Could not confirm your identity';
+        } catch (err) {
+          const reauthError = err as AxiosError<ApiResponse>;
+          if (reauthError.response?.status !== 400) {
+            throw err;
+          }
+          error = reauthError.response.data?.error?.message || 'Could not confirm your identity';
+        }
+      }
+    })().finally(() => {
+      reauthenticationRequest = null;
+    });
+  }
+  return reauthenticationRequest;
+}
+
+// While impersonating, the refresh cookie still belongs to the administrator, so an expired
+// access token must end the impersonation rather than silently continue as the administrator
+let impersonationExpiredHandler: (() => void) | null = null;
+
+export function setImpersonationExpiredHandler(handler: (() => void) | null) {
+  impersonationExpiredHandler = handler;
+}
+
 // Response interceptor to handle token refresh
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => {
@@ -32,6 +150,29 @@ apiClient.interceptors.response.use(
   },
   async (error: AxiosError<ApiResponse>) => {
     const originalRequest = error.config;
+
+    // Confirm the user's identity, then repeat the request with the fresher token
+    if (
+      error.response?.status === 403 &&
+      error.response.data?.error?.code === 'REAUTHENTICATION_REQUIRED' &&
+      originalRequest &&
+      !(originalRequest as any)._reauthenticated &&
+      reauthenticationPrompt
+    ) {
+      (originalRequest as any)._reauthenticated = true;
+
+      const accessToken = await reauthenticate(reauthenticationPrompt);
+      if (accessToken) {
+        (window as any).__authToken = accessToken;
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return apiClient(originalRequest);
+      }
+    }
+
+    if (error.response?.status === 401 && impersonationExpiredHandler) {
+      impersonationExpiredHandler();
+      return Promise.reject(error);
+    }
     
     // If error is 401 and we haven't already tried to refresh
     if (error.response?.status === 401 && originalRequest && !(originalRequest as any)._retry) {
@@ -39,11 +180,7 @@ apiClient.interceptors.response.use(
       
       try {
         // Attempt to refresh the token
-        const refreshResponse = await axios.post<ApiResponse<RefreshResponse>>(
-          `${apiClient.defaults.baseURL}/auth/refresh`,
-          {},
-          { withCredentials: true }
-        );
+        const refreshResponse = await refreshAccessToken();
         
         if (refreshResponse.data.success && refreshResponse.data.data) {
           // Store new access token in memory (not localStorage for security)
@@ -85,7 +222,100 @@ export const authApi = {
 
   // Login user
   login: async (data: { email: string; password: string }) => {
-    const response = await apiClient.post<ApiResponse<LoginResponse>>('/auth/login', data);
+    const response = await apiClient.post<ApiResponse<LoginResponse | MfaChallengeResponse | LoginVerificationResponse>>(
+      '/auth/login',
+      data
+    );
+    return response.data;
+  },
+
+  // Complete a login held back by the risk checks with the emailed code
+  verifyLogin: async (data: { verificationToken: string; code: string }) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse>>('/auth/login/verify', data);
+    return response.data;
+  },
+
+  // Complete login with a second factor
+  loginMfa: async (data: { mfaToken: string; code?: string; recoveryCode?: string }) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse>>('/auth/login/mfa', data);
+    return response.data;
+  },
+
+  // Start passkey login
+  passkeyLoginOptions: async () => {
+    const response = await apiClient.post<ApiResponse<WebAuthnOptions<PublicKeyCredentialRequestOptionsJSON>>>(
+      '/auth/webauthn/login/options'
+    );
+    return response.data;
+  },
+
+  // Finish passkey login
+  passkeyLoginVerify: async (data: { challengeId: string; response: AuthenticationResponseJSON }) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse>>('/auth/webauthn/login/verify', data);
+    return response.data;
+  },
+
+  // Providers offered for social login
+  getOidcProviders: async () => {
+    const response = await apiClient.get<ApiResponse<{ providers: OidcProvider[] }>>('/auth/oidc/providers');
+    return response.data;
+  },
+
+  // Start signing in with a provider
+  startOidcLogin: async (provider: string) => {
+    const response = await apiClient.post<ApiResponse<OidcAuthorization>>(`/auth/oidc/${provider}/authorize`);
+    return response.data;
+  },
+
+  // Finish signing in with the code the provider redirected back with
+  oidcLogin: async (provider: string, data: { code: string; state: string }) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse | MfaChallengeResponse | LoginVerificationResponse>>(
+      `/auth/oidc/${provider}/callback`,
+      data
+    );
+    return response.data;
+  },
+
+  // Email a passwordless sign-in link; the server ties it to this browser with a cookie
+  requestMagicLink: async (email: string) => {
+    const response = await apiClient.post<ApiResponse>('/auth/magic-link', { email });
+    return response.data;
+  },
+
+  // Sign in with the token from an emailed link
+  magicLinkLogin: async (token: string) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse | MfaChallengeResponse>>(
+      '/auth/magic-link/verify',
+      { token }
+    );
+    return response.data;
+  },
+
+  // Start single sign-on through the identity provider for the email's domain; the server
+  // ties the sign-in to this browser with a cookie
+  startSamlLogin: async (email: string) => {
+    const response = await apiClient.post<ApiResponse<SamlAuthnRequestStart>>('/auth/saml/start', { email });
+    return response.data;
+  },
+
+  // Finish single sign-on with the code the server redirected back with
+  samlLogin: async (code: string) => {
+    const response = await apiClient.post<ApiResponse<LoginResponse | MfaChallengeResponse | LoginVerificationResponse>>(
+      '/auth/saml/callback',
+      { code }
+    );
+    return response.data;
+  },
+
+  // Start linking the signed-in account to its organization's single sign-on
+  startSamlLink: async () => {
+    const response = await apiClient.post<ApiResponse<SamlAuthnRequestStart>>('/auth/saml/link/start');
+    return response.data;
+  },
+
+  // Finish linking with the code the server redirected back with
+  linkSaml: async (code: string) => {
+    const response = await apiClient.post<ApiResponse<{ organizationId: string }>>('/auth/saml/link', { code });
     return response.data;
   },
 
@@ -95,12 +325,42 @@ export const authApi = {
     return response.data;
   },
 
+  // Switch to a new email address from the link sent to it
+  confirmEmailChange: async (token: string) => {
+    const response = await apiClient.post<ApiResponse>('/auth/email-change/confirm', { token });
+    return response.data;
+  },
+
+  // Stop an email change from the link sent to the current address
+  cancelEmailChange: async (token: string) => {
+    const response = await apiClient.post<ApiResponse>('/auth/email-change/cancel', { token });
+    return response.data;
+  },
+
+  // Stop the signed-in user's pending email change
+  cancelPendingEmailChange: async () => {
+    const response = await apiClient.delete<ApiResponse>('/auth/email-change');
+    return response.data;
+  },
+
+  // Resend verification email
+  resendVerification: async (email: string) => {
+    const response = await apiClient.post<ApiResponse>('/auth/resend-verification', { email });
+    return response.data;
+  },
+
   // Forgot password
   forgotPassword: async (email: string) => {
     const response = await apiClient.post<ApiResponse>('/auth/forgot', { email });
     return response.data;
   },
 
+  // Rules new passwords must follow
+  getPasswordPolicy: async () => {
+    const response = await apiClient.get<ApiResponse<{ policy: PasswordPolicy }>>('/auth/password-policy');
+    return response.data;
+  },
+
   // Reset password
   resetPassword: async (token: string, newPassword: string) => {
     const response = await apiClient.post<ApiResponse>('/auth/reset', { token, newPassword });
@@ -115,7 +375,7 @@ export const authApi = {
 
   // Update user profile
   updateProfile: async (data: { name?: string; email?: string }) => {
-    const response = await apiClient.put<ApiResponse>('/auth/profile', data);
+    const response = await apiClient.put<ApiResponse<{ pendingEmailChange?: PendingEmailChange }>>('/auth/profile', data);
     return response.data;
   },
 
@@ -125,9 +385,65 @@ export const authApi = {
     return response.data;
   },
 
+  // Get two-factor status
+  getMfaStatus: async () => {
+    const response = await apiClient.get<ApiResponse<MfaStatus>>('/auth/mfa');
+    return response.data;
+  },
+
+  // Start authenticator app setup
+  setupTotp: async () => {
+    const response = await apiClient.post<ApiResponse<TotpSetupResponse>>('/auth/mfa/totp/setup');
+    return response.data;
+  },
+
+  // Confirm authenticator app setup
+  enableTotp: async (code: string) => {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/mfa/totp/enable', { code });
+    return response.data;
+  },
+
+  // Turn off two-factor authentication
+  disableTotp: async (data: { code?: string; recoveryCode?: string }) => {
+    const response = await apiClient.post<ApiResponse>('/auth/mfa/totp/disable', data);
+    return response.data;
+  },
+
+  // Replace recovery codes
+  regenerateRecoveryCodes: async (code: string) => {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/mfa/recovery-codes', { code });
+    return response.data;
+  },
+
+  // List passkeys
+  getPasskeys: async () => {
+    const response = await apiClient.get<ApiResponse<{ credentials: Passkey[] }>>('/auth/webauthn/credentials');
+    return response.data;
+  },
+
+  // Start passkey registration
+  passkeyRegistrationOptions: async () => {
+    const response = await apiClient.post<ApiResponse<WebAuthnOptions<PublicKeyCredentialCreationOptionsJSON>>>(
+      '/auth/webauthn/register/options'
+    );
+    return response.data;
+  },
+
+  // Finish passkey registration
+  passkeyRegistrationVerify: async (data: { challengeId: string; response: RegistrationResponseJSON; name?: string }) => {
+    const response = await apiClient.post<ApiResponse<{ credential: Passkey }>>('/auth/webauthn/register/verify', data);
+    return response.data;
+  },
+
+  // Remove a passkey
+  deletePasskey: async (credentialId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/auth/webauthn/credentials/${credentialId}`);
+    return response.data;
+  },
+
   // Get user sessions
   getSessions: async () => {
-    const response = await apiClient.get<ApiResponse<{ sessions: any[] }>>('/auth/sessions');
+    const response = await apiClient.get<ApiResponse<{ sessions: Session[] }>>('/auth/sessions');
     return response.data;
   },
 
@@ -143,6 +459,86 @@ export const authApi = {
     return response.data;
   },
 
+  // List linked provider accounts
+  getIdentities: async () => {
+    const response = await apiClient.get<ApiResponse<{ identities: LinkedIdentity[] }>>('/auth/identities');
+    return response.data;
+  },
+
+  // Start linking a provider account
+  startIdentityLink: async (provider: string) => {
+    const response = await apiClient.post<ApiResponse<OidcAuthorization>>(`/auth/identities/${provider}/authorize`);
+    return response.data;
+  },
+
+  // Finish linking a provider account
+  linkIdentity: async (provider: string, data: { code: string; state: string }) => {
+    const response = await apiClient.post<ApiResponse<{ identity: LinkedIdentity }>>(`/auth/identities/${provider}`, data);
+    return response.data;
+  },
+
+  // Unlink a provider account
+  unlinkIdentity: async (identityId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/auth/identities/${identityId}`);
+    return response.data;
+  },
+
+  // Check an authorization request from another app; params are the query it sent the user with
+  getOAuthAuthorization: async (params: Record<string, string>) => {
+    const response = await apiClient.get<ApiResponse<OAuthAuthorizationPrompt | OAuthAuthorizationRedirect>>(
+      '/auth/oauth/authorize',
+      { params }
+    );
+    return response.data;
+  },
+
+  // Approve or deny an authorization request; returns where to send the browser
+  answerOAuthAuthorization: async (params: Record<string, string>, approved: boolean) => {
+    const response = await apiClient.post<ApiResponse<OAuthAuthorizationRedirect>>('/auth/oauth/authorize', {
+      ...params,
+      approved,
+    });
+    return response.data;
+  },
+
+  // List the apps the user has let access their account
+  getOAuthConsents: async () => {
+    const response = await apiClient.get<ApiResponse<{ consents: OAuthConsent[] }>>('/auth/oauth/consents');
+    return response.data;
+  },
+
+  // Remove an app's access
+  revokeOAuthConsent: async (clientId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/auth/oauth/consents/${clientId}`);
+    return response.data;
+  },
+
+  // List personal access tokens
+  getTokens: async () => {
+    const response = await apiClient.get<ApiResponse<{ tokens: PersonalAccessToken[] }>>('/auth/tokens');
+    return response.data;
+  },
+
+  // Create a personal access token; the token itself is only returned here
+  createToken: async (data: { name: string; scopes: string[]; expiresAt?: string }) => {
+    const response = await apiClient.post<ApiResponse<CreatedPersonalAccessToken>>('/auth/tokens', data);
+    return response.data;
+  },
+
+  // Revoke a personal access token
+  revokeToken: async (tokenId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/auth/tokens/${tokenId}`);
+    return response.data;
+  },
+
+  // Get the signed-in user's security activity
+  getActivity: async (page = 1) => {
+    const response = await apiClient.get<ApiResponse<PaginatedResult<SecurityActivityEntry>>>('/auth/activity', {
+      params: { page },
+    });
+    return response.data;
+  },
+
   // Logout
   logout: async () => {
     const response = await apiClient.post<ApiResponse>('/auth/logout');
@@ -154,6 +550,243 @@ export const authApi = {
     const response = await apiClient.post<ApiResponse<RefreshResponse>>('/auth/refresh');
     return response.data;
   },
+
+  // Stop acting as another user; the administrator's own session is untouched
+  endImpersonation: async () => {
+    const response = await apiClient.post<ApiResponse>('/auth/impersonation/end');
+    return response.data;
+  },
+};
+
+// Admin API functions
+export const adminApi = {
+  // Search and page through users
+  listUsers: async (params: { search?: string; status?: AdminUserStatus; page?: number; pageSize?: number }) => {
+    const response = await apiClient.get<ApiResponse<PaginatedResult<AdminUserSummary>>>('/admin/users', { params });
+    return response.data;
+  },
+
+  // Get a single user's account details
+  getUser: async (userId: string) => {
+    const response = await apiClient.get<ApiResponse<{ user: AdminUserDetail }>>(`/admin/users/${userId}`);
+    return response.data;
+  },
+
+  // List a user's active sessions
+  getUserSessions: async (userId: string) => {
+    const response = await apiClient.get<ApiResponse<{ sessions: AdminSession[] }>>(`/admin/users/${userId}/sessions`);
+    return response.data;
+  },
+
+  // List a user's recent security events
+  getUserAudit: async (userId: string, limit?: number) => {
+    const response = await apiClient.get<ApiResponse<{ events: AuditEvent[] }>>(`/admin/users/${userId}/audit`, {
+      params: { limit },
+    });
+    return response.data;
+  },
+
+  // Lock an account, indefinitely when no end time is given
+  lockUser: async (userId: string, lockedUntil?: string) => {
+    const response = await apiClient.post<ApiResponse>(`/admin/users/${userId}/lock`, { lockedUntil });
+    return response.data;
+  },
+
+  // Unlock an account
+  unlockUser: async (userId: string) => {
+    const response = await apiClient.post<ApiResponse>(`/admin/users/${userId}/unlock`);
+    return response.data;
+  },
+
+  // Deactivate an account
+  deactivateUser: async (userId: string) => {
+    const response = await apiClient.post<ApiResponse>(`/admin/users/${userId}/deactivate`);
+    return response.data;
+  },
+
+  // Reactivate an account
+  reactivateUser: async (userId: string) => {
+    const response = await apiClient.post<ApiResponse>(`/admin/users/${userId}/reactivate`);
+    return response.data;
+  },
+
+  // Require a password reset and email a reset link
+  forcePasswordReset: async (userId: string) => {
+    const response = await apiClient.post<ApiResponse>(`/admin/users/${userId}/force-password-reset`);
+    return response.data;
+  },
+
+  // Revoke one of a user's sessions, or all of them
+  revokeUserSessions: async (userId: string, sessionId?: string) => {
+    const path = sessionId ? `/admin/users/${userId}/sessions/${sessionId}` : `/admin/users/${userId}/sessions`;
+    const response = await apiClient.delete<ApiResponse<{ revoked: number }>>(path);
+    return response.data;
+  },
+
+  // Sign in as a user for a limited time; the reason is kept in the audit log
+  impersonateUser: async (userId: string, reason: string) => {
+    const response = await apiClient.post<ApiResponse<ImpersonationStart>>(`/admin/users/${userId}/impersonate`, {
+      reason,
+    });
+    return response.data;
+  },
+};
+
+// Organization API functions
+export const organizationApi = {
+  // List the user's organizations and the one the session works in
+  list: async () => {
+    const response = await apiClient.get<ApiResponse<{
+      organizations: Organization[];
+      activeOrganizationId: string | null;
+    }>>('/organizations');
+    return response.data;
+  },
+
+  // Create an organization owned by the user
+  create: async (name: string) => {
+    const response = await apiClient.post<ApiResponse<{ organization: Organization }>>('/organizations', { name });
+    return response.data;
+  },
+
+  // Work in another organization; returns an access token scoped to it
+  switch: async (organizationId: string) => {
+    const response = await apiClient.post<ApiResponse<RefreshResponse>>(`/organizations/${organizationId}/switch`);
+    return response.data;
+  },
+
+  // List the members of the active organization
+  getMembers: async (organizationId: string) => {
+    const response = await apiClient.get<ApiResponse<{ members: OrganizationMember[] }>>(
+      `/organizations/${organizationId}/members`
+    );
+    return response.data;
+  },
+
+  // Change a member's role
+  updateMemberRole: async (organizationId: string, userId: string, role: OrganizationRole) => {
+    const response = await apiClient.patch<ApiResponse>(`/organizations/${organizationId}/members/${userId}`, { role });
+    return response.data;
+  },
+
+  // Remove a member, or leave when it is the user's own ID
+  removeMember: async (organizationId: string, userId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/organizations/${organizationId}/members/${userId}`);
+    return response.data;
+  },
+
+  // List pending invitations
+  getInvitations: async (organizationId: string) => {
+    const response = await apiClient.get<ApiResponse<{ invitations: OrganizationInvitation[] }>>(
+      `/organizations/${organizationId}/invitations`
+    );
+    return response.data;
+  },
+
+  // Invite someone by email
+  invite: async (organizationId: string, data: { email: string; role: OrganizationRole }) => {
+    const response = await apiClient.post<ApiResponse<{ invitation: OrganizationInvitation }>>(
+      `/organizations/${organizationId}/invitations`,
+      data
+    );
+    return response.data;
+  },
+
+  // Withdraw a pending invitation
+  revokeInvitation: async (organizationId: string, invitationId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/organizations/${organizationId}/invitations/${invitationId}`);
+    return response.data;
+  },
+
+  // Show an invitation sent to the user
+  previewInvitation: async (token: string) => {
+    const response = await apiClient.post<ApiResponse<{ invitation: OrganizationInvitationPreview }>>(
+      '/organizations/invitations/preview',
+      { token }
+    );
+    return response.data;
+  },
+
+  // Accept an invitation
+  acceptInvitation: async (token: string) => {
+    const response = await apiClient.post<ApiResponse<{ organization: Organization }>>(
+      '/organizations/invitations/accept',
+      { token }
+    );
+    return response.data;
+  },
+
+  // Decline an invitation
+  declineInvitation: async (token: string) => {
+    const response = await apiClient.post<ApiResponse>('/organizations/invitations/decline', { token });
+    return response.data;
+  },
+
+  // The organization's identity provider, if single sign-on is set up
+  getSamlConnection: async (organizationId: string) => {
+    const response = await apiClient.get<ApiResponse<{ connection: SamlConnection | null }>>(
+      `/organizations/${organizationId}/saml`
+    );
+    return response.data;
+  },
+
+  // Set up or change single sign-on
+  saveSamlConnection: async (organizationId: string, data: SamlConnectionInput) => {
+    const response = await apiClient.put<ApiResponse<{ connection: SamlConnection }>>(
+      `/organizations/${organizationId}/saml`,
+      data
+    );
+    return response.data;
+  },
+
+  // Check the DNS record proving the organization controls a single sign-on domain
+  verifySamlDomain: async (organizationId: string, domain: string) => {
+    const response = await apiClient.post<ApiResponse<{ connection: SamlConnection }>>(
+      `/organizations/${organizationId}/saml/domains/${encodeURIComponent(domain)}/verify`
+    );
+    return response.data;
+  },
+
+  // Turn off single sign-on
+  deleteSamlConnection: async (organizationId: string) => {
+    const response = await apiClient.delete<ApiResponse>(`/organizations/${organizationId}/saml`);
+    return response.data;
+  },
+};
+
+// Account API functions
+export const accountApi = {
+  // List recent copies of the user's data
+  listExports: async () => {
+    const response = await apiClient.get<ApiResponse<{ exports: DataExport[] }>>('/account/exports');
+    return response.data;
+  },
+
+  // Ask for a copy of the user's data; it is prepared in the background
+  requestExport: async () => {
+    const response = await apiClient.post<ApiResponse<{ export: DataExport }>>('/account/exports');
+    return response.data;
+  },
+
+  // Fetch a finished copy as a file
+  downloadExport: async (exportId: string) => {
+    const response = await apiClient.get<Blob>(`/account/exports/${exportId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Delete the account once the grace period is over
+  scheduleDeletion: async () => {
+    const response = await apiClient.post<ApiResponse<{ deletionScheduledAt: string }>>('/account/deletion');
+    return response.data;
+  },
+
+  // Keep the account after all
+  cancelDeletion: async () => {
+    const response = await apiClient.delete<ApiResponse>('/account/deletion');
+    return response.data;
+  },
 };
 
 export default apiClient;
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { accountApi } from '@/api/client';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+export function AccountDeletionSettings() {
+  const { user, refreshUser } = useAuth();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) {
+    return null;
+  }
+
+  const scheduleDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await accountApi.scheduleDeletion();
+      await refreshUser();
+      setIsConfirming(false);
+      setConfirmation('');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to delete your account');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await accountApi.cancelDeletion();
+      await refreshUser();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to cancel account deletion');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border-red-200">
+      <CardHeader>
+        <CardTitle>Delete account</CardTitle>
+        <CardDescription>
+          Permanently delete your account and everything tied to it. Download a copy of your data first if you want to keep it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {user.deletionScheduledAt ? (
+          <div className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm text-red-800 bg-red-50 border border-red-200 rounded-md">
+            <span>
+              Your account will be deleted on <span className="font-medium">{formatDateTime(user.deletionScheduledAt)}</span>.
+            </span>
+            <Button size="sm" variant="outline" loading={isLoading} onClick={cancelDeletion}>
+              Keep my account
+            </Button>
+          </div>
+        ) : isConfirming ? (
+          <div className="space-y-3">
+            <Input
+              label={`Type ${user.email} to confirm`}
+              type="email"
+              autoComplete="off"
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                loading={isLoading}
+                disabled={confirmation.trim().toLowerCase() !== user.email.toLowerCase()}
+                onClick={scheduleDeletion}
+              >
+                Delete my account
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setIsConfirming(false);
+                  setConfirmation('');
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="destructive" onClick={() => setIsConfirming(true)}>
+            Delete account
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { DataExport } from '@/lib/types';
+import { accountApi } from '@/api/client';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+// How often to check on an export that is still being prepared
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<DataExport['status'], string> = {
+  PENDING: 'Queued',
+  PROCESSING: 'Preparing',
+  READY: 'Ready',
+  FAILED: 'Failed',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DataExportSettings() {
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExports = useCallback(async () => {
+    try {
+      const response = await accountApi.listExports();
+      if (response.success && response.data) {
+        setExports(response.data.exports);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load data exports');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExports();
+  }, [loadExports]);
+
+  const inProgress = exports.some(item => item.status === 'PENDING' || item.status === 'PROCESSING');
+
+  useEffect(() => {
+    if (!inProgress) return;
+
+    const timer = setInterval(loadExports, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, loadExports]);
+
+  const requestExport = async () => {
+    setIsRequesting(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await accountApi.requestExport();
+      if (response.success && response.data) {
+        const created = response.data.export;
+        setExports(current => [created, ...current]);
+        setMessage(response.message || 'We are preparing a copy of your data');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to request a copy of your data');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const downloadExport = async (item: DataExport) => {
+    setPendingId(item.id);
+    setError(null);
+
+    try {
+      const archive = await accountApi.downloadExport(item.id);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smarttask-data-${item.createdAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('Failed to download your data. It may have expired; request a new copy.');
+      loadExports();
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your data</CardTitle>
+        <CardDescription>
+          Download a copy of your profile, sessions, security activity and everything else tied to your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
+            {message}
+          </div>
+        )}
+
+        <Button onClick={requestExport} loading={isRequesting} disabled={inProgress}>
+          Request a copy of my data
+        </Button>
+
+        {exports.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {exports.map(item => (
+              <li key={item.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    Requested {formatDateTime(item.createdAt)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {STATUS_LABELS[item.status]}
+                    {item.sizeBytes !== null && ` · ${formatSize(item.sizeBytes)}`}
+                    {item.downloadUrl && item.expiresAt && ` · Available until ${formatDateTime(item.expiresAt)}`}
+                    {item.status === 'READY' && !item.downloadUrl && ' · Expired'}
+                  </p>
+                </div>
+                {item.downloadUrl && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    loading={pendingId === item.id}
+                    onClick={() => downloadExport(item)}
+                  >
+                    Download
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AdminSession, AdminUserDetail, AuditEvent } from '@/lib/types';
+import { adminApi } from '@/api/client';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+interface AdminUserPanelProps {
+  userId: string;
+  canWrite: boolean;
+  canReadAudit: boolean;
+  // Given to administrators allowed to sign in as the user
+  onImpersonate?: (userId: string, reason: string) => Promise<void>;
+  // Called after an action so the user list can reflect the new status
+  onChange: () => void;
+}
+
+export function AdminUserPanel({ userId, canWrite, canReadAudit, onImpersonate, onChange }: AdminUserPanelProps) {
+  const [user, setUser] = useState<AdminUserDetail | null>(null);
+  const [sessions, setSessions] = useState<AdminSession[]>([]);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [impersonationReason, setImpersonationReason] = useState('');
+
+  const loadUser = useCallback(async () => {
+    try {
+      const [userResponse, sessionsResponse, auditResponse] = await Promise.all([
+        adminApi.getUser(userId),
+        adminApi.getUserSessions(userId),
+        canReadAudit ? adminApi.getUserAudit(userId, 25) : Promise.resolve(null),
+      ]);
+
+      if (userResponse.success && userResponse.data) {
+        setUser(userResponse.data.user);
+      }
+      if (sessionsResponse.success && sessionsResponse.data) {
+        setSessions(sessionsResponse.data.sessions);
+      }
+      if (auditResponse?.success && auditResponse.data) {
+        setEvents(auditResponse.data.events);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load user');
+    }
+  }, [userId, canReadAudit]);
+
+  useEffect(() => {
+    setUser(null);
+    setSessions([]);
+    setEvents([]);
+    setError(null);
+    setSuccess(null);
+    setImpersonationReason('');
+    loadUser();
+  }, [loadUser]);
+
+  const runAction = async (name: string, action: () => Promise<{ success: boolean; message?: string }>) => {
+    setPendingAction(name);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await action();
+      if (response.success) {
+        setSuccess(response.message || 'Done');
+        await loadUser();
+        onChange();
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Action failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const impersonate = async () => {
+    if (!onImpersonate) return;
+
+    setPendingAction('impersonate');
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await onImpersonate(userId, impersonationReason.trim());
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to impersonate user');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <p className="text-sm text-gray-600">Loading user...</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isLocked = user.isLocked && (!user.lockedUntil || new Date(user.lockedUntil) > new Date());
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{user.name || user.email}</CardTitle>
+          <CardDescription>{user.email}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <dl className="grid grid-cols-2 gap-2 text-sm">
+            <dt className="text-gray-500">Roles</dt>
+            <dd className="text-gray-900">{user.roles.join(', ')}</dd>
+            <dt className="text-gray-500">Status</dt>
+            <dd className="text-gray-900">
+              {!user.isActive ? 'Deactivated' : isLocked ? 'Locked' : 'Active'}
+              {isLocked && (user.lockedUntil ? ` until ${formatDateTime(user.lockedUntil)}` : ' until unlocked')}
+            </dd>
+            <dt className="text-gray-500">Email verified</dt>
+            <dd className="text-gray-900">{user.emailVerified ? formatDateTime(user.emailVerified) : 'No'}</dd>
+            <dt className="text-gray-500">Two-factor</dt>
+            <dd className="text-gray-900">{user.mfaEnabled ? 'Enabled' : 'Disabled'}</dd>
+            <dt className="text-gray-500">Passkeys</dt>
+            <dd className="text-gray-900">{user.passkeyCount}</dd>
+            <dt className="text-gray-500">Failed sign-ins</dt>
+            <dd className="text-gray-900">{user.failedLoginAttempts}</dd>
+            <dt className="text-gray-500">Password reset required</dt>
+            <dd className="text-gray-900">{user.passwordResetRequired ? 'Yes' : 'No'}</dd>
+            <dt className="text-gray-500">Member since</dt>
+            <dd className="text-gray-900">{formatDateTime(user.createdAt)}</dd>
+          </dl>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {success && <p className="text-sm text-green-600">{success}</p>}
+
+          {canWrite && (
+            <div className="flex flex-wrap gap-2">
+              {isLocked ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  loading={pendingAction === 'unlock'}
+                  onClick={() => runAction('unlock', () => adminApi.unlockUser(user.id))}
+                >
+                  Unlock
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  loading={pendingAction === 'lock'}
+                  onClick={() => runAction('lock', () => adminApi.lockUser(user.id))}
+                >
+                  Lock
+                </Button>
+              )}
+              {user.isActive ? (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  loading={pendingAction === 'deactivate'}
+                  onClick={() => runAction('deactivate', () => adminApi.deactivateUser(user.id))}
+                >
+                  Deactivate
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  loading={pendingAction === 'reactivate'}
+                  onClick={() => runAction('reactivate', () => adminApi.reactivateUser(user.id))}
+                >
+                  Reactivate
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!user.isActive}
+                loading={pendingAction === 'reset'}
+                onClick={() => runAction('reset', () => adminApi.forcePasswordReset(user.id))}
+              >
+                Force password reset
+              </Button>
+            </div>
+          )}
+
+          {onImpersonate && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[12rem]">
+                <Input
+                  label="Reason for impersonating"
+                  placeholder="Support ticket or request"
+                  value={impersonationReason}
+                  onChange={(event) => setImpersonationReason(event.target.value)}
+                />
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!user.isActive || isLocked || impersonationReason.trim().length < 3}
+                loading={pendingAction === 'impersonate'}
+                onClick={impersonate}
+              >
+                Impersonate
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active sessions</CardTitle>
+          <CardDescription>{sessions.length} signed-in session{sessions.length === 1 ? '' : 's'}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-600">No active sessions.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map((session) => (
+                <li key={session.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-700">
+                    Signed in {formatDateTime(session.createdAt)} · expires {formatDateTime(session.expiresAt)}
+                  </span>
+                  {canWrite && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      loading={pendingAction === session.id}
+                      onClick={() => runAction(session.id, () => adminApi.revokeUserSessions(user.id, session.id))}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canWrite && sessions.length > 0 && (
+            <Button
+              size="sm"
+              variant="destructive"
+              loading={pendingAction === 'revoke-all'}
+              onClick={() => runAction('revoke-all', () => adminApi.revokeUserSessions(user.id))}
+            >
+              Revoke all sessions
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {canReadAudit && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent activity</CardTitle>
+            <CardDescription>Latest security events for this account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-gray-600">No recorded activity.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {events.map((event) => (
+                  <li key={event.id} className="py-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-900">{event.event.replace(/_/g, ' ')}</span>
+                      <span className="text-gray-500">{formatDateTime(event.createdAt)}</span>
+                    </div>
+                    {event.ip && <p className="text-gray-500">{event.ip}</p>}
+                    {event.actorId === 'scim' ? (
+                      <p className="text-gray-500">By directory provisioning (SCIM)</p>
+                    ) : (
+                      event.actorId && <p className="text-amber-700">By an administrator impersonating this user</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+
+/**
+ * Shown on every page while an administrator is signed in as another user
+ */
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const [isStopping, setIsStopping] = useState(false);
+
+  // The server stops accepting the token at the deadline; return to the admin session with it
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const remaining = new Date(impersonation.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      stopImpersonation();
+    }, Math.max(0, remaining));
+
+    return () => clearTimeout(timer);
+  }, [impersonation, stopImpersonation]);
+
+  if (!impersonation || !user) {
+    return null;
+  }
+
+  const stop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div role="alert" className="bg-amber-100 border-b border-amber-300">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-amber-900">
+          You are signed in as <span className="font-medium">{user.email}</span> until{' '}
+          {formatDateTime(impersonation.expiresAt)}. Passwords, sessions and security settings are not available.
+        </p>
+        <Button size="sm" variant="outline" loading={isStopping} onClick={stop}>
+          Stop impersonating
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { loginVerificationSchema, type LoginVerificationFormData } from '@/lib/schemas';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+interface LoginVerificationFormProps {
+  isLoading: boolean;
+  error: string | null;
+  onSubmit: (code: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function LoginVerificationForm({ isLoading, error, onSubmit, onCancel }: LoginVerificationFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LoginVerificationFormData>({
+    resolver: zodResolver(loginVerificationSchema),
+  });
+
+  const submit = async (data: LoginVerificationFormData) => {
+    await onSubmit(data.code);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Input
+        label="Verification code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        helperText="We emailed a 6-digit code to the address on your account"
+        error={errors.code?.message}
+        {...register('code')}
+      />
+
+      <Button type="submit" className="w-full" loading={isLoading}>
+        Verify
+      </Button>
+
+      <div className="text-right text-sm">
+        <button type="button" className="text-gray-600 hover:text-gray-900" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { mfaCodeSchema, recoveryCodeSchema, type MfaCodeFormData } from '@/lib/schemas';
+import type { MfaMethod } from '@/lib/types';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+interface MfaChallengeFormProps {
+  isLoading: boolean;
+  error: string | null;
+  onSubmit: (code: string, method: MfaMethod) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function MfaChallengeForm({ isLoading, error, onSubmit, onCancel }: MfaChallengeFormProps) {
+  const [method, setMethod] = useState<MfaMethod>('totp');
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<MfaCodeFormData>({
+    resolver: zodResolver(method === 'totp' ? mfaCodeSchema : recoveryCodeSchema),
+  });
+
+  const toggleMethod = () => {
+    reset();
+    setMethod(method === 'totp' ? 'recovery' : 'totp');
+  };
+
+  const submit = async (data: MfaCodeFormData) => {
+    await onSubmit(data.code.trim(), method);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {method === 'totp' ? (
+        <Input
+          key="totp"
+          label="Authentication code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          helperText="Enter the 6-digit code from your authenticator app"
+          error={errors.code?.message}
+          {...register('code')}
+        />
+      ) : (
+        <Input
+          key="recovery"
+          label="Recovery code"
+          autoComplete="off"
+          helperText="Each recovery code can only be used once"
+          error={errors.code?.message}
+          {...register('code')}
+        />
+      )}
+
+      <Button type="submit" className="w-full" loading={isLoading}>
+        Verify
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" className="text-primary-600 hover:text-primary-500" onClick={toggleMethod}>
+          {method === 'totp' ? 'Use a recovery code' : 'Use your authenticator app'}
+        </button>
+        <button type="button" className="text-gray-600 hover:text-gray-900" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+}
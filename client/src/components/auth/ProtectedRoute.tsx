@@ -1,17 +1,20 @@
 import React, { useEffect } from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth';
+import { hasPermissions, hasRole } from '@/lib/utils';
 import type { UserRole } from '@/lib/types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRole?: UserRole;
+  requiredPermissions?: string[];
   fallbackPath?: string;
 }
 
 export function ProtectedRoute({ 
   children, 
   requiredRole = 'USER',
+  requiredPermissions = [],
   fallbackPath = '/login' 
 }: ProtectedRouteProps) {
   const location = useLocation();
@@ -38,13 +41,12 @@ export function ProtectedRoute({
     return <Navigate to={fallbackPath} state={{ from: location }} replace />;
   }
 
-  // Check role-based access
-  if (user && requiredRole) {
-    const roleHierarchy = { USER: 1, ADMIN: 2 };
-    const userRoleLevel = roleHierarchy[user.role];
-    const requiredRoleLevel = roleHierarchy[requiredRole];
+  // Check role- and permission-based access
+  if (user) {
+    const allowed = hasRole(user.roles, requiredRole) &&
+      hasPermissions(user.permissions, requiredPermissions);
 
-    if (userRoleLevel < requiredRoleLevel) {
+    if (!allowed) {
       // Redirect to unauthorized page or dashboard
       return <Navigate to="/unauthorized" replace />;
     }
@@ -0,0 +1,148 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { setReauthenticationPrompt } from '@/api/client';
+import type { ReauthenticationInput } from '@/lib/types';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+type ReauthenticationMethod = 'password' | 'totp' | 'recovery';
+
+interface PendingPrompt {
+  error: string | null;
+  resolve: (input: ReauthenticationInput | null) => void;
+}
+
+/**
+ * Asks the user to confirm who they are when the server wants a recent sign-in.
+ * The API client waits on the answer and repeats the request that needed it.
+ */
+export function ReauthenticationDialog() {
+  const [pending, setPending] = useState<PendingPrompt | null>(null);
+  const [method, setMethod] = useState<ReauthenticationMethod>('password');
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    setReauthenticationPrompt(error => new Promise(resolve => {
+      setValue('');
+      setPending({ error, resolve });
+    }));
+
+    return () => setReauthenticationPrompt(null);
+  }, []);
+
+  if (!pending) {
+    return null;
+  }
+
+  const answer = (input: ReauthenticationInput | null) => {
+    pending.resolve(input);
+    setPending(null);
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = method === 'password' ? value : value.trim();
+    if (!trimmed) return;
+
+    if (method === 'password') {
+      answer({ password: trimmed });
+    } else if (method === 'totp') {
+      answer({ code: trimmed });
+    } else {
+      answer({ recoveryCode: trimmed });
+    }
+  };
+
+  const choose = (next: ReauthenticationMethod) => {
+    setValue('');
+    setMethod(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/50 px-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reauthentication-title"
+        className="w-full max-w-sm rounded-lg border border-gray-200 bg-white p-6 shadow-lg"
+      >
+        <h2 id="reauthentication-title" className="text-lg font-semibold text-gray-900">
+          Confirm it's you
+        </h2>
+        <p className="mt-1 text-sm text-gray-600">
+          This change needs a recent sign-in. Confirm your identity to continue.
+        </p>
+
+        <form onSubmit={submit} className="mt-4 space-y-4">
+          {pending.error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {pending.error}
+            </div>
+          )}
+
+          {method === 'password' && (
+            <Input
+              key="password"
+              label="Password"
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+            />
+          )}
+          {method === 'totp' && (
+            <Input
+              key="totp"
+              label="Authentication code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              autoFocus
+              helperText="Enter the 6-digit code from your authenticator app"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+            />
+          )}
+          {method === 'recovery' && (
+            <Input
+              key="recovery"
+              label="Recovery code"
+              autoComplete="off"
+              autoFocus
+              helperText="Each recovery code can only be used once"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+            />
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              Confirm
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => answer(null)}>
+              Cancel
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {method !== 'password' && (
+              <button type="button" className="text-primary-600 hover:text-primary-500" onClick={() => choose('password')}>
+                Use your password
+              </button>
+            )}
+            {method !== 'totp' && (
+              <button type="button" className="text-primary-600 hover:text-primary-500" onClick={() => choose('totp')}>
+                Use your authenticator app
+              </button>
+            )}
+            {method !== 'recovery' && (
+              <button type="button" className="text-primary-600 hover:text-primary-500" onClick={() => choose('recovery')}>
+                Use a recovery code
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import type { OidcProvider } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { redirectToProvider } from '@/lib/oidc';
+import { Button } from '@/components/ui/Button';
+
+interface SocialLoginButtonsProps {
+  providers: OidcProvider[];
+  disabled?: boolean;
+}
+
+export function SocialLoginButtons({ providers, disabled = false }: SocialLoginButtonsProps) {
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const signInWith = async (provider: OidcProvider) => {
+    setPendingProvider(provider.id);
+    setError(null);
+
+    try {
+      const response = await authApi.startOidcLogin(provider.id);
+      if (response.success && response.data) {
+        // The page unloads here; the button stays busy until it does
+        redirectToProvider(
+          { provider: provider.id, state: response.data.state, intent: 'login' },
+          response.data.authorizationUrl
+        );
+        return;
+      }
+      setError(response.error?.message || `Sign-in with ${provider.name} failed`);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || `Sign-in with ${provider.name} failed`);
+    }
+
+    setPendingProvider(null);
+  };
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+      {providers.map(provider => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          disabled={disabled || (pendingProvider !== null && pendingProvider !== provider.id)}
+          loading={pendingProvider === provider.id}
+          onClick={() => signInWith(provider)}
+        >
+          Continue with {provider.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import type { OrganizationInvitation, OrganizationMember, OrganizationRole } from '@/lib/types';
+import { organizationApi } from '@/api/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrganizations } from '@/hooks/useOrganizations';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { SamlSettings } from '@/components/organization/SamlSettings';
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MEMBER: 'Member',
+};
+
+export function OrganizationSettings() {
+  const { user } = useAuth();
+  const { organizations, activeOrganization, error: loadError, reload, switchTo } = useOrganizations();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('MEMBER');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const organizationId = activeOrganization?.id;
+  const canManage = activeOrganization?.role === 'OWNER' || activeOrganization?.role === 'ADMIN';
+  // Only owners can hand out ownership
+  const assignableRoles = (Object.keys(ROLE_LABELS) as OrganizationRole[]).filter(
+    role => role !== 'OWNER' || activeOrganization?.role === 'OWNER'
+  );
+
+  const loadDetails = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      const membersResponse = await organizationApi.getMembers(organizationId);
+      if (membersResponse.success && membersResponse.data) {
+        setMembers(membersResponse.data.members);
+      }
+
+      if (canManage) {
+        const invitationsResponse = await organizationApi.getInvitations(organizationId);
+        if (invitationsResponse.success && invitationsResponse.data) {
+          setInvitations(invitationsResponse.data.invitations);
+        }
+      } else {
+        setInvitations([]);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load organization');
+    }
+  }, [organizationId, canManage]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  const createOrganization = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError('Give the organization a name');
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const response = await organizationApi.create(name.trim());
+      if (response.success && response.data) {
+        setName('');
+        await reload();
+        await switchTo(response.data.organization.id);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to create organization');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const invite = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!organizationId) return;
+    setError(null);
+    setIsInviting(true);
+
+    try {
+      const response = await organizationApi.invite(organizationId, { email: inviteEmail.trim(), role: inviteRole });
+      if (response.success && response.data) {
+        const created = response.data.invitation;
+        setInvitations(current => [created, ...current.filter(item => item.email !== created.email)]);
+        setInviteEmail('');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to send invitation');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const changeRole = async (member: OrganizationMember, role: OrganizationRole) => {
+    if (!organizationId) return;
+    setPendingId(member.userId);
+    setError(null);
+
+    try {
+      await organizationApi.updateMemberRole(organizationId, member.userId, role);
+      setMembers(current => current.map(item => (item.userId === member.userId ? { ...item, role } : item)));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to change role');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const removeMember = async (member: OrganizationMember) => {
+    if (!organizationId) return;
+    setPendingId(member.userId);
+    setError(null);
+
+    try {
+      await organizationApi.removeMember(organizationId, member.userId);
+
+      if (member.userId === user?.id) {
+        // The next organization is picked when the session is switched or refreshed
+        const next = organizations.find(organization => organization.id !== organizationId);
+        if (next) {
+          await switchTo(next.id);
+        }
+        await reload();
+      } else {
+        setMembers(current => current.filter(item => item.userId !== member.userId));
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to remove member');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const revokeInvitation = async (invitation: OrganizationInvitation) => {
+    if (!organizationId) return;
+    setPendingId(invitation.id);
+    setError(null);
+
+    try {
+      await organizationApi.revokeInvitation(organizationId, invitation.id);
+      setInvitations(current => current.filter(item => item.id !== invitation.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to revoke invitation');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const displayedError = error ?? loadError;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Organizations</CardTitle>
+        <CardDescription>
+          Work together with other people. Members and invitations below belong to the organization you are working in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {displayedError && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {displayedError}
+          </div>
+        )}
+
+        {organizations.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {organizations.map(organization => (
+              <li key={organization.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{organization.name}</p>
+                  <p className="text-xs text-gray-500">{ROLE_LABELS[organization.role]}</p>
+                </div>
+                {organization.id === organizationId ? (
+                  <span className="text-xs text-gray-500">Current</span>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => switchTo(organization.id)}>
+                    Switch
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={createOrganization} className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="New organization"
+              placeholder="e.g. Acme Inc."
+              maxLength={100}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <Button type="submit" loading={isCreating}>
+            Create
+          </Button>
+        </form>
+
+        {activeOrganization && (
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-gray-900">Members of {activeOrganization.name}</h3>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {members.map(member => (
+                <li key={member.userId} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{member.name || member.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {member.email} · Joined {formatDate(member.joinedAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canManage && member.userId !== user?.id ? (
+                      <select
+                        aria-label={`Role of ${member.email}`}
+                        className="h-9 rounded-md border border-gray-300 bg-white px-2 text-sm"
+                        value={member.role}
+                        disabled={pendingId === member.userId}
+                        onChange={(event) => changeRole(member, event.target.value as OrganizationRole)}
+                      >
+                        {assignableRoles.concat(assignableRoles.includes(member.role) ? [] : [member.role]).map(role => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                    )}
+                    {(canManage || member.userId === user?.id) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        loading={pendingId === member.userId}
+                        onClick={() => removeMember(member)}
+                      >
+                        {member.userId === user?.id ? 'Leave' : 'Remove'}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {canManage && (
+              <>
+                <form onSubmit={invite} className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Input
+                      label="Invite by email"
+                      type="email"
+                      placeholder="colleague@example.com"
+                      value={inviteEmail}
+                      onChange={(event) => setInviteEmail(event.target.value)}
+                    />
+                  </div>
+                  <select
+                    aria-label="Invitation role"
+                    className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                    value={inviteRole}
+                    onChange={(event) => setInviteRole(event.target.value as OrganizationRole)}
+                  >
+                    {assignableRoles.map(role => (
+                      <option key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button type="submit" loading={isInviting}>
+                    Invite
+                  </Button>
+                </form>
+
+                {invitations.length > 0 && (
+                  <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {invitations.map(invitation => (
+                      <li key={invitation.id} className="flex items-center justify-between p-3">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                          <p className="text-xs text-gray-500">
+                            {ROLE_LABELS[invitation.role]} · Expires {formatDate(invitation.expiresAt)}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          loading={pendingId === invitation.id}
+                          onClick={() => revokeInvitation(invitation)}
+                        >
+                          Revoke
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <SamlSettings organizationId={activeOrganization.id} />
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
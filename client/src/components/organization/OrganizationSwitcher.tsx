@@ -0,0 +1,36 @@
+import { Link } from 'react-router-dom';
+import { useOrganizations } from '@/hooks/useOrganizations';
+
+/**
+ * Header control for picking the organization to work in
+ */
+export function OrganizationSwitcher() {
+  const { organizations, activeOrganization, error, switchTo } = useOrganizations();
+
+  if (organizations.length === 0) {
+    return (
+      <Link to="/settings" className="text-sm text-primary-600 hover:text-primary-500">
+        Create an organization
+      </Link>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        aria-label="Organization"
+        className="h-9 rounded-md border border-gray-300 bg-white px-3 text-sm"
+        value={activeOrganization?.id ?? ''}
+        onChange={(event) => switchTo(event.target.value)}
+      >
+        {!activeOrganization && <option value="" disabled>Select organization</option>}
+        {organizations.map(organization => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import type { SamlBinding, SamlConnection, SamlConnectionInput } from '@/lib/types';
+import { organizationApi } from '@/api/client';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+const EMPTY_FORM: SamlConnectionInput = {
+  idpEntityId: '',
+  idpSsoUrl: '',
+  idpCertificate: '',
+  authnRequestBinding: 'HTTP-Redirect',
+  domains: [],
+  jitProvisioning: true,
+  defaultRole: 'MEMBER',
+  enabled: true,
+};
+
+interface SamlSettingsProps {
+  organizationId: string;
+}
+
+/**
+ * Single sign-on through the organization's SAML identity provider, for owners and admins
+ */
+export function SamlSettings({ organizationId }: SamlSettingsProps) {
+  const [connection, setConnection] = useState<SamlConnection | null>(null);
+  const [form, setForm] = useState<SamlConnectionInput>(EMPTY_FORM);
+  const [domains, setDomains] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [verifyingDomain, setVerifyingDomain] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showConnection = (current: SamlConnection | null) => {
+    setConnection(current);
+    setForm(current ? {
+      idpEntityId: current.idpEntityId,
+      idpSsoUrl: current.idpSsoUrl,
+      idpCertificate: current.idpCertificate,
+      authnRequestBinding: current.authnRequestBinding,
+      domains: current.domains,
+      jitProvisioning: current.jitProvisioning,
+      defaultRole: current.defaultRole,
+      enabled: current.enabled,
+    } : EMPTY_FORM);
+    setDomains(current ? current.domains.join(', ') : '');
+  };
+
+  useEffect(() => {
+    setError(null);
+    setSaved(false);
+
+    organizationApi
+      .getSamlConnection(organizationId)
+      .then(response => {
+        if (response.success && response.data) {
+          showConnection(response.data.connection);
+        }
+      })
+      .catch((err: any) => setError(err.response?.data?.error?.message || 'Failed to load single sign-on'));
+  }, [organizationId]);
+
+  const update = <K extends keyof SamlConnectionInput>(field: K, value: SamlConnectionInput[K]) => {
+    setSaved(false);
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSaved(false);
+    setIsSaving(true);
+
+    try {
+      const response = await organizationApi.saveSamlConnection(organizationId, {
+        ...form,
+        domains: domains.split(/[\s,]+/).filter(Boolean),
+      });
+      if (response.success && response.data) {
+        showConnection(response.data.connection);
+        setSaved(true);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to save single sign-on');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const verifyDomain = async (domain: string) => {
+    setError(null);
+    setSaved(false);
+    setVerifyingDomain(domain);
+
+    try {
+      const response = await organizationApi.verifySamlDomain(organizationId, domain);
+      if (response.success && response.data) {
+        setConnection(response.data.connection);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to verify domain');
+    } finally {
+      setVerifyingDomain(null);
+    }
+  };
+
+  const remove = async () => {
+    setError(null);
+    setSaved(false);
+    setIsRemoving(true);
+
+    try {
+      await organizationApi.deleteSamlConnection(organizationId);
+      showConnection(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to remove single sign-on');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-900">Single sign-on (SAML)</h3>
+        <p className="text-xs text-gray-500">
+          People with an address at these domains sign in through your identity provider, once you have
+          proven you control each domain with a DNS TXT record.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {saved && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+          Single sign-on saved.
+        </div>
+      )}
+
+      {connection && (
+        <dl className="space-y-2 text-xs text-gray-600 border border-gray-200 rounded-md p-3">
+          <div>
+            <dt className="font-medium text-gray-900">Entity ID and metadata URL</dt>
+            <dd className="break-all">{connection.metadataUrl}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-900">Assertion consumer service URL</dt>
+            <dd className="break-all">{connection.acsUrl}</dd>
+          </div>
+        </dl>
+      )}
+
+      {connection && connection.domainVerifications.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {connection.domainVerifications.map(verification => (
+            <li key={verification.domain} className="flex items-center justify-between gap-2 p-3">
+              <div className="min-w-0 text-xs text-gray-600">
+                <p className="text-sm font-medium text-gray-900">{verification.domain}</p>
+                {verification.verifiedAt ? (
+                  <p className="text-green-700">Verified</p>
+                ) : (
+                  <p className="break-all">
+                    Add a TXT record named <code>{verification.recordName}</code> with the value{' '}
+                    <code>{verification.recordValue}</code>
+                  </p>
+                )}
+              </div>
+              {!verification.verifiedAt && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  loading={verifyingDomain === verification.domain}
+                  onClick={() => verifyDomain(verification.domain)}
+                >
+                  Verify
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={save} className="space-y-4">
+        <Input
+          label="Identity provider entity ID"
+          value={form.idpEntityId}
+          onChange={(event) => update('idpEntityId', event.target.value)}
+        />
+        <Input
+          label="Identity provider sign-in URL"
+          type="url"
+          value={form.idpSsoUrl}
+          onChange={(event) => update('idpSsoUrl', event.target.value)}
+        />
+        <div className="space-y-2">
+          <label htmlFor="saml-certificate" className="block text-sm font-medium text-gray-700">
+            Identity provider signing certificate
+          </label>
+          <textarea
+            id="saml-certificate"
+            rows={5}
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 font-mono text-xs"
+            placeholder="-----BEGIN CERTIFICATE-----"
+            value={form.idpCertificate}
+            onChange={(event) => update('idpCertificate', event.target.value)}
+          />
+        </div>
+        <Input
+          label="Email domains"
+          placeholder="example.com, example.org"
+          value={domains}
+          onChange={(event) => {
+            setSaved(false);
+            setDomains(event.target.value);
+          }}
+        />
+
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            aria-label="Request binding"
+            className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+            value={form.authnRequestBinding}
+            onChange={(event) => update('authnRequestBinding', event.target.value as SamlBinding)}
+          >
+            <option value="HTTP-Redirect">Redirect binding</option>
+            <option value="HTTP-POST">POST binding</option>
+          </select>
+          <select
+            aria-label="Role for new members"
+            className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+            value={form.defaultRole}
+            onChange={(event) => update('defaultRole', event.target.value as SamlConnectionInput['defaultRole'])}
+          >
+            <option value="MEMBER">New members join as Member</option>
+            <option value="ADMIN">New members join as Admin</option>
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.jitProvisioning}
+            onChange={(event) => update('jitProvisioning', event.target.checked)}
+          />
+          Create accounts for new people on their first sign-in
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.enabled}
+            onChange={(event) => update('enabled', event.target.checked)}
+          />
+          Enabled
+        </label>
+
+        <div className="flex gap-2">
+          <Button type="submit" loading={isSaving}>
+            Save
+          </Button>
+          {connection && (
+            <Button type="button" variant="ghost" loading={isRemoving} onClick={remove}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { OAuthConsent } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+export function ConnectedAppsSettings() {
+  const [consents, setConsents] = useState<OAuthConsent[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConsents = useCallback(async () => {
+    try {
+      const response = await authApi.getOAuthConsents();
+      if (response.success && response.data) {
+        setConsents(response.data.consents);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load connected apps');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConsents();
+  }, [loadConsents]);
+
+  const revokeConsent = async (consent: OAuthConsent) => {
+    setRevokingId(consent.clientId);
+    setError(null);
+
+    try {
+      await authApi.revokeOAuthConsent(consent.clientId);
+      setConsents(current => current.filter(item => item.clientId !== consent.clientId));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to remove app access');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // Most users never sign in to another app with their account
+  if (consents.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected apps</CardTitle>
+        <CardDescription>
+          Apps you signed in to with your SmartTask account. Removing one signs you out of it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {consents.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {consents.map(consent => (
+              <li key={consent.clientId} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{consent.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {consent.scopes.join(', ')} · Last approved {formatDateTime(consent.updatedAt)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  loading={revokingId === consent.clientId}
+                  onClick={() => revokeConsent(consent)}
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { LinkedIdentity, OidcProvider } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { useOidcProviders } from '@/hooks/useOidcProviders';
+import { redirectToProvider } from '@/lib/oidc';
+import { followSamlRequest } from '@/lib/saml';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+export function LinkedAccountsSettings() {
+  const providers = useOidcProviders();
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadIdentities = useCallback(async () => {
+    try {
+      const response = await authApi.getIdentities();
+      if (response.success && response.data) {
+        setIdentities(response.data.identities);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load linked accounts');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIdentities();
+  }, [loadIdentities]);
+
+  const linkProvider = async (provider: OidcProvider) => {
+    setPendingId(provider.id);
+    setError(null);
+
+    try {
+      const response = await authApi.startIdentityLink(provider.id);
+      if (response.success && response.data) {
+        redirectToProvider(
+          { provider: provider.id, state: response.data.state, intent: 'link' },
+          response.data.authorizationUrl
+        );
+        return;
+      }
+      setError(response.error?.message || `Failed to link ${provider.name}`);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || `Failed to link ${provider.name}`);
+    }
+
+    setPendingId(null);
+  };
+
+  // Work accounts sign in through the identity provider of the organization that owns their email domain
+  const linkSingleSignOn = async () => {
+    setPendingId('saml');
+    setError(null);
+
+    try {
+      const response = await authApi.startSamlLink();
+      if (response.success && response.data) {
+        followSamlRequest(response.data, 'link');
+        return;
+      }
+      setError(response.error?.message || 'Failed to link single sign-on');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to link single sign-on');
+    }
+
+    setPendingId(null);
+  };
+
+  const unlinkIdentity = async (identity: LinkedIdentity) => {
+    setPendingId(identity.id);
+    setError(null);
+
+    try {
+      await authApi.unlinkIdentity(identity.id);
+      setIdentities(current => current.filter(item => item.id !== identity.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to unlink account');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const unlinkedProviders = providers.filter(
+    provider => !identities.some(identity => identity.provider === provider.id)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Linked accounts</CardTitle>
+        <CardDescription>
+          Sign in with an account you already have at another service, or through your organization's single sign-on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {identities.length > 0 && (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {identities.map(identity => (
+              <li key={identity.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {identity.providerName}
+                    {identity.email && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">{identity.email}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {identity.lastUsedAt
+                      ? `Last used ${formatDateTime(identity.lastUsedAt)}`
+                      : `Linked ${formatDateTime(identity.createdAt)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  loading={pendingId === identity.id}
+                  onClick={() => unlinkIdentity(identity)}
+                >
+                  Unlink
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {unlinkedProviders.map(provider => (
+            <Button
+              key={provider.id}
+              variant="outline"
+              loading={pendingId === provider.id}
+              onClick={() => linkProvider(provider)}
+            >
+              Link {provider.name}
+            </Button>
+          ))}
+          <Button variant="outline" loading={pendingId === 'saml'} onClick={linkSingleSignOn}>
+            Link single sign-on
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react';
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser';
+import type { Passkey } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+export function PasskeySettings() {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const supportsPasskeys = browserSupportsWebAuthn();
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      const response = await authApi.getPasskeys();
+      if (response.success && response.data) {
+        setPasskeys(response.data.credentials);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load passkeys');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const addPasskey = async () => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const optionsResponse = await authApi.passkeyRegistrationOptions();
+      if (!optionsResponse.success || !optionsResponse.data) {
+        setError(optionsResponse.error?.message || 'Failed to add passkey');
+        return;
+      }
+
+      const { challengeId, options } = optionsResponse.data;
+      const credential = await startRegistration({ optionsJSON: options });
+      const trimmedName = name.trim();
+
+      const response = await authApi.passkeyRegistrationVerify({
+        challengeId,
+        response: credential,
+        ...(trimmedName && { name: trimmedName }),
+      });
+
+      if (response.success) {
+        setName('');
+        setSuccess('Passkey added. You can now use it to sign in.');
+        await loadPasskeys();
+      } else {
+        setError(response.error?.message || 'Failed to add passkey');
+      }
+    } catch (err: any) {
+      setError(
+        err.name === 'NotAllowedError'
+          ? 'Passkey setup was cancelled'
+          : err.response?.data?.error?.message || 'Failed to add passkey'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removePasskey = async (passkey: Passkey) => {
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await authApi.deletePasskey(passkey.id);
+      setPasskeys(current => current.filter(item => item.id !== passkey.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to remove passkey');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device screen lock instead of a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
+            {success}
+          </div>
+        )}
+
+        {passkeys.length > 0 ? (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {passkeys.map(passkey => (
+              <li key={passkey.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{passkey.name || 'Passkey'}</p>
+                  <p className="text-xs text-gray-500">
+                    Added {formatDate(passkey.createdAt)}
+                    {passkey.lastUsedAt && ` · Last used ${formatDate(passkey.lastUsedAt)}`}
+                    {passkey.backedUp && ' · Synced'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removePasskey(passkey)}>
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">You haven't added any passkeys yet.</p>
+        )}
+
+        {supportsPasskeys ? (
+          <div className="space-y-4">
+            <Input
+              label="Passkey name (optional)"
+              placeholder="e.g. Work laptop"
+              maxLength={64}
+              value={name}
+              onChange={event => setName(event.target.value)}
+            />
+            <Button onClick={addPasskey} loading={isLoading}>
+              Add Passkey
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">This browser does not support passkeys.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import type { PersonalAccessToken } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDate, formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+const PROFILE_SCOPES = [
+  { value: 'profile:read', label: 'Read your profile and activity' },
+  { value: 'profile:write', label: 'Update your profile' },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Never' },
+];
+
+export function PersonalAccessTokenSettings() {
+  const { user } = useAuth();
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(['profile:read']);
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens can only carry permissions the user holds
+  const availableScopes = [
+    ...PROFILE_SCOPES,
+    ...(user?.permissions ?? []).map(permission => ({ value: permission, label: permission })),
+  ];
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await authApi.getTokens();
+      if (response.success && response.data) {
+        setTokens(response.data.tokens);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load access tokens');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: string) => {
+    setScopes(current =>
+      current.includes(scope) ? current.filter(item => item !== scope) : [...current, scope]
+    );
+  };
+
+  const createToken = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError('Give the token a name');
+      return;
+    }
+    if (scopes.length === 0) {
+      setError('Select at least one scope');
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const response = await authApi.createToken({
+        name: name.trim(),
+        scopes,
+        ...(expiryDays > 0 && {
+          expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+        }),
+      });
+
+      if (response.success && response.data) {
+        const created = response.data;
+        setNewToken(created.token);
+        setTokens(current => [created.personalAccessToken, ...current]);
+        setName('');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to create access token');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeToken = async (token: PersonalAccessToken) => {
+    setPendingId(token.id);
+    setError(null);
+
+    try {
+      await authApi.revokeToken(token.id);
+      setTokens(current => current.filter(item => item.id !== token.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to revoke access token');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal access tokens</CardTitle>
+        <CardDescription>
+          Tokens let scripts and command-line tools call the API as you. Treat them like passwords.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {newToken && (
+          <div className="p-3 space-y-2 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-sm text-green-800">
+              Copy your new token now. You won't be able to see it again.
+            </p>
+            <code className="block p-2 text-sm break-all bg-white border border-green-200 rounded">
+              {newToken}
+            </code>
+            <Button variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form onSubmit={createToken} className="space-y-4">
+          <Input
+            label="Token name"
+            placeholder="e.g. Deploy script"
+            maxLength={100}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium text-gray-700">Scopes</legend>
+            {availableScopes.map(scope => (
+              <label key={scope.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                />
+                {scope.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="flex items-end gap-2">
+            <select
+              aria-label="Expiration"
+              className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+              value={expiryDays}
+              onChange={(event) => setExpiryDays(Number(event.target.value))}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" loading={isCreating}>
+              Create token
+            </Button>
+          </div>
+        </form>
+
+        {tokens.length > 0 ? (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {token.name}
+                    <span className="ml-2 font-mono text-xs font-normal text-gray-500">{token.hint}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">{token.scopes.join(', ')}</p>
+                  <p className="text-xs text-gray-500">
+                    {token.lastUsedAt ? `Last used ${formatDateTime(token.lastUsedAt)}` : 'Never used'}
+                    {' · '}
+                    {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : 'Never expires'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  loading={pendingId === token.id}
+                  onClick={() => revokeToken(token)}
+                >
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">You have no personal access tokens.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SecurityActivityEntry } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+const EVENT_LABELS: Record<string, string> = {
+  user_login: 'Signed in',
+  user_logout: 'Signed out',
+  failed_login_attempt: 'Failed sign-in attempt',
+  new_device_login: 'Signed in from a new device',
+  login_verification_required: 'Sign-in confirmation code sent',
+  login_blocked: 'Suspicious sign-in blocked',
+  account_locked: 'Account locked',
+  account_unlocked: 'Account unlocked',
+  password_changed: 'Password changed',
+  password_reset_requested: 'Password reset requested',
+  password_reset: 'Password reset',
+  magic_link_requested: 'Sign-in link requested',
+  password_reset_forced: 'Password reset required by an administrator',
+  email_verified: 'Email address verified',
+  profile_updated: 'Profile updated',
+  email_change_requested: 'Email change requested',
+  email_change_cancelled: 'Email change cancelled',
+  email_changed: 'Email address changed',
+  other_sessions_revoked: 'Other devices signed out',
+  mfa_enabled: 'Two-factor authentication enabled',
+  mfa_disabled: 'Two-factor authentication disabled',
+  webauthn_credential_registered: 'Passkey added',
+  webauthn_credential_removed: 'Passkey removed',
+  identity_linked: 'Account linked',
+  identity_unlinked: 'Account unlinked',
+  oauth_authorization_granted: 'Signed in to an app',
+  oauth_consent_revoked: 'App access removed',
+  session_revoked: 'Session signed out',
+  all_sessions_revoked: 'Signed out everywhere',
+  token_reuse_detected: 'Suspicious sign-in blocked',
+  organization_created: 'Organization created',
+  organization_invitation_accepted: 'Joined an organization',
+  organization_invitation_declined: 'Declined an organization invitation',
+  organization_left: 'Left an organization',
+  organization_member_provisioned: 'Joined an organization through single sign-on',
+  saml_connection_updated: 'Single sign-on settings changed',
+  saml_connection_deleted: 'Single sign-on removed',
+  saml_domain_verified: 'Single sign-on domain verified',
+  impersonation_started: 'An administrator signed in as you',
+  impersonation_ended: 'Administrator sign-in ended',
+  data_export_requested: 'Copy of your data requested',
+  data_export_ready: 'Copy of your data ready',
+  data_export_downloaded: 'Copy of your data downloaded',
+  account_deletion_scheduled: 'Account deletion scheduled',
+  account_deletion_cancelled: 'Account deletion cancelled',
+};
+
+function describeEvent(event: string): string {
+  const label = EVENT_LABELS[event] ?? event.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function SecurityActivity() {
+  const [entries, setEntries] = useState<SecurityActivityEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadActivity = useCallback(async (nextPage: number) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authApi.getActivity(nextPage);
+      if (response.success && response.data) {
+        const { items, total, pageSize } = response.data;
+        setEntries(current => (nextPage === 1 ? items : [...current, ...items]));
+        setHasMore(nextPage * pageSize < total);
+        setPage(nextPage);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load security activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadActivity(1);
+  }, [loadActivity]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security activity</CardTitle>
+        <CardDescription>
+          Recent sign-ins and changes to your account. If something looks unfamiliar, change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {entries.length === 0 && !isLoading ? (
+          <p className="text-sm text-gray-600">No recorded activity yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <li key={entry.id} className="py-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium text-gray-900">{describeEvent(entry.event)}</span>
+                  <span className="text-gray-500">{formatDateTime(entry.createdAt)}</span>
+                </div>
+                {(entry.ip || entry.userAgent) && (
+                  <p className="truncate text-gray-500">
+                    {[entry.ip, entry.userAgent].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasMore && (
+          <Button variant="outline" size="sm" loading={isLoading} onClick={() => loadActivity(page + 1)}>
+            Show more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
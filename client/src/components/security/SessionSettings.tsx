@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Session } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+const DEVICE_LABELS: Record<string, string> = {
+  desktop: 'Computer',
+  mobile: 'Phone',
+  tablet: 'Tablet',
+};
+
+function describeDevice(session: Session): string {
+  const client = [session.browser, session.os && `on ${session.os}`].filter(Boolean).join(' ');
+  if (client) {
+    return client;
+  }
+  return (session.deviceType && DEVICE_LABELS[session.deviceType]) || 'Unknown device';
+}
+
+export function SessionSettings() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await authApi.getSessions();
+      if (response.success && response.data) {
+        setSessions(response.data.sessions);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load signed-in devices');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const revokeSession = async (session: Session) => {
+    setPendingId(session.id);
+    setError(null);
+
+    try {
+      await authApi.revokeSession(session.id);
+      setSessions(current => current.filter(item => item.id !== session.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to sign out device');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Revoking every session server-side would also sign out this device
+  const revokeOtherSessions = async () => {
+    setPendingId('others');
+    setError(null);
+
+    try {
+      await Promise.all(
+        sessions.filter(session => !session.current).map(session => authApi.revokeSession(session.id))
+      );
+      setSessions(current => current.filter(session => session.current));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to sign out other devices');
+      await loadSessions();
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const otherSessionCount = sessions.filter(session => !session.current).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Where you're signed in</CardTitle>
+        <CardDescription>
+          Devices that are signed in to your account. Sign out any you don't recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {sessions.length > 0 ? (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {describeDevice(session)}
+                    {session.current && (
+                      <span className="ml-2 text-xs font-normal text-green-700">This device</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[session.location, session.ip].filter(Boolean).join(' · ') || 'Unknown location'}
+                    {' · Last active '}
+                    {formatDateTime(session.lastUsedAt ?? session.createdAt)}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    loading={pendingId === session.id}
+                    onClick={() => revokeSession(session)}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">No signed-in devices found.</p>
+        )}
+
+        {otherSessionCount > 0 && (
+          <Button variant="outline" loading={pendingId === 'others'} onClick={revokeOtherSessions}>
+            Sign out all other devices
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  mfaCodeSchema,
+  disableTwoFactorSchema,
+  type MfaCodeFormData,
+  type DisableTwoFactorFormData,
+} from '@/lib/schemas';
+import type { MfaStatus, TotpSetupResponse } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+type View = 'status' | 'setup' | 'disable' | 'regenerate';
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [view, setView] = useState<View>('status');
+  const [setup, setSetup] = useState<TotpSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const codeForm = useForm<MfaCodeFormData>({
+    resolver: zodResolver(mfaCodeSchema),
+  });
+
+  const disableForm = useForm<DisableTwoFactorFormData>({
+    resolver: zodResolver(disableTwoFactorSchema),
+  });
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await authApi.getMfaStatus();
+      if (response.success && response.data) {
+        setStatus(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load two-factor status');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const showView = (next: View) => {
+    setError(null);
+    codeForm.reset();
+    disableForm.reset();
+    setView(next);
+  };
+
+  // Run an API call with shared loading/error handling
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      const response = await authApi.setupTotp();
+      if (response.success && response.data) {
+        setSetup(response.data);
+        setRecoveryCodes(null);
+        showView('setup');
+      }
+    }, 'Failed to start two-factor setup');
+
+  const onEnable = (data: MfaCodeFormData) =>
+    run(async () => {
+      const response = await authApi.enableTotp(data.code);
+      if (response.success && response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+        setSetup(null);
+        showView('status');
+        await loadStatus();
+      }
+    }, 'Failed to enable two-factor authentication');
+
+  const onDisable = (data: DisableTwoFactorFormData) =>
+    run(async () => {
+      const response = await authApi.disableTotp(data);
+      if (response.success) {
+        setRecoveryCodes(null);
+        showView('status');
+        await loadStatus();
+      }
+    }, 'Failed to disable two-factor authentication');
+
+  const onRegenerate = (data: MfaCodeFormData) =>
+    run(async () => {
+      const response = await authApi.regenerateRecoveryCodes(data.code);
+      if (response.success && response.data) {
+        setRecoveryCodes(response.data.recoveryCodes);
+        showView('status');
+        await loadStatus();
+      }
+    }, 'Failed to regenerate recovery codes');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {error}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md space-y-3">
+            <p className="text-sm text-yellow-800">
+              Save these recovery codes somewhere safe. Each one can be used once if you lose access
+              to your authenticator app. They will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+              {recoveryCodes.map(code => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+              I've saved my codes
+            </Button>
+          </div>
+        )}
+
+        {view === 'status' && status && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Status:{' '}
+              <span className={status.enabled ? 'font-medium text-green-600' : 'font-medium text-gray-900'}>
+                {status.enabled ? 'Enabled' : 'Disabled'}
+              </span>
+            </p>
+
+            {status.enabled ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  {status.recoveryCodesRemaining} recovery codes remaining
+                </p>
+                <div className="flex space-x-2">
+                  <Button variant="outline" onClick={() => showView('regenerate')}>
+                    Regenerate Recovery Codes
+                  </Button>
+                  <Button variant="destructive" onClick={() => showView('disable')}>
+                    Disable
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button onClick={startSetup} loading={isLoading}>
+                Set Up Authenticator App
+              </Button>
+            )}
+          </div>
+        )}
+
+        {view === 'setup' && setup && (
+          <form onSubmit={codeForm.handleSubmit(onEnable)} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="w-48 h-48" />
+            <p className="text-sm text-gray-600">
+              Can't scan it? Enter this key manually:{' '}
+              <code className="font-mono text-gray-900 break-all">{setup.secret}</code>
+            </p>
+
+            <Input
+              label="Authentication code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              error={codeForm.formState.errors.code?.message}
+              {...codeForm.register('code')}
+            />
+
+            <div className="flex space-x-2">
+              <Button type="submit" loading={isLoading}>
+                Enable
+              </Button>
+              <Button type="button" variant="outline" onClick={() => showView('status')}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {view === 'disable' && (
+          <form onSubmit={disableForm.handleSubmit(onDisable)} className="space-y-4">
+            <Input
+              label="Authentication code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              error={disableForm.formState.errors.code?.message}
+              {...disableForm.register('code')}
+            />
+
+            <div className="flex space-x-2">
+              <Button type="submit" variant="destructive" loading={isLoading}>
+                Disable Two-Factor
+              </Button>
+              <Button type="button" variant="outline" onClick={() => showView('status')}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {view === 'regenerate' && (
+          <form onSubmit={codeForm.handleSubmit(onRegenerate)} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Your existing recovery codes will stop working.
+            </p>
+
+            <Input
+              label="Authentication code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              error={codeForm.formState.errors.code?.message}
+              {...codeForm.register('code')}
+            />
+
+            <div className="flex space-x-2">
+              <Button type="submit" loading={isLoading}>
+                Regenerate
+              </Button>
+              <Button type="button" variant="outline" onClick={() => showView('status')}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
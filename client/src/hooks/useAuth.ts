@@ -2,6 +2,9 @@ import { useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth';
 import type { LoginFormData, SignupFormData } from '@/lib/schemas';
+import { hasRole, isAdmin } from '@/lib/utils';
+import { postSignInPath } from '@/lib/oauth';
+import type { MfaMethod, UserRole } from '@/lib/types';
 
 /**
  * Hook for authentication operations
@@ -13,7 +16,20 @@ export function useAuth() {
     isAuthenticated,
     isLoading,
     error,
+    mfaToken,
     login,
+    verifyMfa,
+    cancelMfa,
+    verificationToken,
+    impersonation,
+    verifyLogin,
+    cancelVerification,
+    loginWithPasskey,
+    loginWithProvider,
+    loginWithMagicLink,
+    loginWithSaml,
+    startImpersonation,
+    stopImpersonation,
     signup,
     logout,
     refreshUser,
@@ -24,17 +40,103 @@ export function useAuth() {
     async (data: LoginFormData) => {
       await login(data.email, data.password);
       if (useAuthStore.getState().isAuthenticated) {
-        navigate('/dashboard');
+        navigate(postSignInPath());
       }
     },
     [login, navigate]
   );
 
+  const handleVerifyMfa = useCallback(
+    async (code: string, method: MfaMethod) => {
+      await verifyMfa(code, method);
+      if (useAuthStore.getState().isAuthenticated) {
+        navigate(postSignInPath());
+      }
+    },
+    [verifyMfa, navigate]
+  );
+
+  const handleVerifyLogin = useCallback(
+    async (code: string) => {
+      await verifyLogin(code);
+      if (useAuthStore.getState().isAuthenticated) {
+        navigate(postSignInPath());
+      }
+    },
+    [verifyLogin, navigate]
+  );
+
+  const handleLoginWithPasskey = useCallback(async () => {
+    await loginWithPasskey();
+    if (useAuthStore.getState().isAuthenticated) {
+      navigate(postSignInPath());
+    }
+  }, [loginWithPasskey, navigate]);
+
+  // Challenges are answered on the login page, which picks them up from the store
+  const handleLoginWithProvider = useCallback(
+    async (provider: string, code: string, state: string) => {
+      await loginWithProvider(provider, code, state);
+      const { isAuthenticated: signedIn, mfaToken: pendingMfa, verificationToken: pendingVerification } =
+        useAuthStore.getState();
+      if (signedIn) {
+        navigate(postSignInPath(), { replace: true });
+      } else if (pendingMfa || pendingVerification) {
+        navigate('/login', { replace: true });
+      }
+    },
+    [loginWithProvider, navigate]
+  );
+
+  // A second factor is answered on the login page, like after a social login
+  const handleLoginWithMagicLink = useCallback(
+    async (token: string) => {
+      await loginWithMagicLink(token);
+      const { isAuthenticated: signedIn, mfaToken: pendingMfa } = useAuthStore.getState();
+      if (signedIn) {
+        navigate(postSignInPath(), { replace: true });
+      } else if (pendingMfa) {
+        navigate('/login', { replace: true });
+      }
+    },
+    [loginWithMagicLink, navigate]
+  );
+
+  const handleLoginWithSaml = useCallback(
+    async (code: string) => {
+      await loginWithSaml(code);
+      const { isAuthenticated: signedIn, mfaToken: pendingMfa, verificationToken: pendingVerification } =
+        useAuthStore.getState();
+      if (signedIn) {
+        navigate(postSignInPath(), { replace: true });
+      } else if (pendingMfa || pendingVerification) {
+        navigate('/login', { replace: true });
+      }
+    },
+    [loginWithSaml, navigate]
+  );
+
+  // The administrator lands where the user would after signing in
+  const handleStartImpersonation = useCallback(
+    async (userId: string, reason: string) => {
+      await startImpersonation(userId, reason);
+      if (useAuthStore.getState().impersonation) {
+        navigate('/dashboard');
+      }
+    },
+    [startImpersonation, navigate]
+  );
+
+  const handleStopImpersonation = useCallback(async () => {
+    await stopImpersonation();
+    navigate(useAuthStore.getState().isAuthenticated ? '/admin' : '/login');
+  }, [stopImpersonation, navigate]);
+
   const handleSignup = useCallback(
     async (data: SignupFormData) => {
       await signup(data.email, data.password, data.name);
       if (useAuthStore.getState().isAuthenticated) {
-        navigate('/dashboard');
+        navigate(postSignInPath());
       }
     },
     [signup, navigate]
@@ -50,7 +152,20 @@ export function useAuth() {
     isAuthenticated,
     isLoading,
     error,
+    mfaRequired: mfaToken !== null,
     login: handleLogin,
+    verifyMfa: handleVerifyMfa,
+    cancelMfa,
+    verificationRequired: verificationToken !== null,
+    verifyLogin: handleVerifyLogin,
+    cancelVerification,
+    loginWithPasskey: handleLoginWithPasskey,
+    loginWithProvider: handleLoginWithProvider,
+    loginWithMagicLink: handleLoginWithMagicLink,
+    loginWithSaml: handleLoginWithSaml,
+    impersonation,
+    startImpersonation: handleStartImpersonation,
+    stopImpersonation: handleStopImpersonation,
     signup: handleSignup,
     logout: handleLogout,
     refreshUser,
@@ -61,13 +176,12 @@ export function useAuth() {
 /**
  * Hook for checking if user has required role
  */
-export function useRole(requiredRole: 'USER' | 'ADMIN') {
+export function useRole(requiredRole: UserRole) {
   const { user } = useAuthStore();
   
   if (!user) return false;
   
-  const roleHierarchy = { USER: 1, ADMIN: 2 };
-  return roleHierarchy[user.role] >= roleHierarchy[requiredRole];
+  return hasRole(user.roles, requiredRole);
 }
 
 /**
@@ -75,5 +189,5 @@ export function useRole(requiredRole: 'USER' | 'ADMIN') {
  */
 export function useIsAdmin() {
   const { user } = useAuthStore();
-  return user?.role === 'ADMIN';
+  return user ? isAdmin(user.roles) : false;
 }
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { authApi } from '@/api/client';
+import type { OidcProvider } from '@/lib/types';
+
+/**
+ * Providers users can sign in with. Empty when none are configured or they cannot be loaded.
+ */
+export function useOidcProviders() {
+  const [providers, setProviders] = useState<OidcProvider[]>([]);
+
+  useEffect(() => {
+    let active = true;
+
+    authApi
+      .getOidcProviders()
+      .then(response => {
+        if (active && response.success && response.data) {
+          setProviders(response.data.providers);
+        }
+      })
+      .catch(() => {
+        // Social login is optional; the password form still works
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return providers;
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { organizationApi } from '@/api/client';
+import { useAuthStore } from '@/store/auth';
+import type { Organization } from '@/lib/types';
+
+/**
+ * The user's organizations and the one the session is working in
+ */
+export function useOrganizations() {
+  const { switchOrganization } = useAuthStore();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await organizationApi.list();
+      if (response.success && response.data) {
+        setOrganizations(response.data.organizations);
+        setActiveOrganizationId(response.data.activeOrganizationId);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load organizations');
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const switchTo = useCallback(async (organizationId: string) => {
+    setError(null);
+
+    try {
+      await switchOrganization(organizationId);
+      setActiveOrganizationId(organizationId);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to switch organization');
+    }
+  }, [switchOrganization]);
+
+  const activeOrganization = organizations.find(organization => organization.id === activeOrganizationId) ?? null;
+
+  return { organizations, activeOrganization, error, reload, switchTo };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { authApi } from '@/api/client';
+import { defaultPasswordPolicy } from '@/lib/schemas';
+import type { PasswordPolicy } from '@/lib/types';
+
+/**
+ * Rules for new passwords. The defaults apply until the server's policy loads or if it cannot be loaded.
+ */
+export function usePasswordPolicy() {
+  const [policy, setPolicy] = useState<PasswordPolicy>(defaultPasswordPolicy);
+
+  useEffect(() => {
+    let active = true;
+
+    authApi
+      .getPasswordPolicy()
+      .then(response => {
+        if (active && response.success && response.data) {
+          setPolicy(response.data.policy);
+        }
+      })
+      .catch(() => {
+        // The server checks every new password against its policy anyway
+      });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return policy;
+}
@@ -0,0 +1,25 @@
+// An app sending the user here to sign in must get them back once they have signed in,
+// whichever way that happens; the consent page is kept for this tab only. Emailed
+// organization invitations come back the same way.
+const STORAGE_KEY = 'oauth-authorize-path';
+
+/**
+ * Come back to this authorization request after signing in
+ */
+export function rememberAuthorizeRequest(path: string) {
+  sessionStorage.setItem(STORAGE_KEY, path);
+}
+
+/**
+ * Drop the remembered request once the consent page has picked it up again
+ */
+export function clearAuthorizeRequest() {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Where to go once signed in: a pending authorization request, otherwise the dashboard
+ */
+export function postSignInPath(): string {
+  return sessionStorage.getItem(STORAGE_KEY) ?? '/dashboard';
+}
@@ -0,0 +1,36 @@
+// Social sign-in leaves the app for the provider's site; the request being made is kept
+// for this tab only, so a callback the tab did not start is refused
+const STORAGE_KEY = 'oidc-request';
+
+export interface PendingOidcRequest {
+  provider: string;
+  state: string;
+  intent: 'login' | 'link';
+}
+
+/**
+ * Remember the request and send the browser to the provider
+ */
+export function redirectToProvider(request: PendingOidcRequest, authorizationUrl: string) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(request));
+  window.location.assign(authorizationUrl);
+}
+
+/**
+ * The request a callback belongs to. It can only be taken once.
+ */
+export function takePendingRequest(state: string | null): PendingOidcRequest | null {
+  const stored = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+
+  if (!stored || !state) {
+    return null;
+  }
+
+  try {
+    const request = JSON.parse(stored) as PendingOidcRequest;
+    return request.state === state ? request : null;
+  } catch {
+    return null;
+  }
+}
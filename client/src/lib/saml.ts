@@ -0,0 +1,44 @@
+import type { SamlAuthnRequestStart } from '@/lib/types';
+
+// Whether the tab is signing in or linking the signed-in account, kept for the callback
+const STORAGE_KEY = 'saml-intent';
+
+export type SamlIntent = 'login' | 'link';
+
+/**
+ * Send the browser to the identity provider. The POST binding needs a real form
+ * submission, since the request travels in the body rather than the URL.
+ */
+export function followSamlRequest(request: SamlAuthnRequestStart, intent: SamlIntent = 'login') {
+  sessionStorage.setItem(STORAGE_KEY, intent);
+
+  if (request.binding !== 'HTTP-POST') {
+    window.location.assign(request.url);
+    return;
+  }
+
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = request.url;
+  form.style.display = 'none';
+
+  for (const [name, value] of Object.entries(request.fields ?? {})) {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+
+  document.body.appendChild(form);
+  form.submit();
+}
+
+/**
+ * What the request the callback belongs to was for. It can only be taken once.
+ */
+export function takeSamlIntent(): SamlIntent {
+  const intent = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+  return intent === 'link' ? 'link' : 'login';
+}
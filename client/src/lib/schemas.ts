@@ -1,4 +1,57 @@
 import { z } from 'zod';
+import type { PasswordPolicy } from './types';
+
+// Used until the server's policy has loaded; matches the server defaults
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  minStrength: 2,
+  historyCount: 5,
+  maxAgeDays: 0,
+};
+
+// New password rules the browser can check. The server also rejects guessable,
+// breached and recently used passwords.
+export const createPasswordSchema = (policy: PasswordPolicy) => {
+  let schema = z
+    .string()
+    .min(policy.minLength, `Password must be at least ${policy.minLength} characters`)
+    .max(policy.maxLength, `Password must be at most ${policy.maxLength} characters`);
+
+  if (policy.requireLowercase) {
+    schema = schema.regex(/\p{Ll}/u, 'Password must contain a lowercase letter');
+  }
+  if (policy.requireUppercase) {
+    schema = schema.regex(/\p{Lu}/u, 'Password must contain an uppercase letter');
+  }
+  if (policy.requireNumber) {
+    schema = schema.regex(/\p{N}/u, 'Password must contain a number');
+  }
+  if (policy.requireSymbol) {
+    schema = schema.regex(/[^\p{L}\p{N}\s]/u, 'Password must contain a special character');
+  }
+
+  return schema;
+};
+
+// Helper text listing the policy's rules
+export const describePasswordPolicy = (policy: PasswordPolicy) => {
+  const classes = [
+    policy.requireUppercase && 'one uppercase letter',
+    policy.requireLowercase && 'one lowercase letter',
+    policy.requireNumber && 'one number',
+    policy.requireSymbol && 'one special character',
+  ].filter(Boolean);
+
+  const rules = [`at least ${policy.minLength} characters`, ...classes];
+  const list = rules.length > 1 ? `${rules.slice(0, -1).join(', ')}, and ${rules[rules.length - 1]}` : rules[0];
+
+  return `Must contain ${list}. Avoid common words and your name or email.`;
+};
 
 // Login form schema
 export const loginSchema = z.object({
@@ -13,18 +66,12 @@ export const loginSchema = z.object({
 });
 
 // Signup form schema
-export const signupSchema = z.object({
+export const createSignupSchema = (policy: PasswordPolicy) => z.object({
   email: z
     .string()
     .min(1, 'Email is required')
     .email('Please enter a valid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
-    ),
+  password: createPasswordSchema(policy),
   name: z
     .string()
     .min(1, 'Name is required')
@@ -32,6 +79,8 @@ export const signupSchema = z.object({
     .max(50, 'Name must be less than 50 characters'),
 });
 
+export const signupSchema = createSignupSchema(defaultPasswordPolicy);
+
 // Forgot password form schema
 export const forgotPasswordSchema = z.object({
   email: z
@@ -41,29 +90,21 @@ export const forgotPasswordSchema = z.object({
 });
 
 // Reset password form schema
-export const resetPasswordSchema = z.object({
+export const createResetPasswordSchema = (policy: PasswordPolicy) => z.object({
   token: z.string().min(1, 'Reset token is required'),
-  newPassword: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
-    ),
+  newPassword: createPasswordSchema(policy),
 });
 
+export const resetPasswordSchema = createResetPasswordSchema(defaultPasswordPolicy);
+
 // Change password form schema
-export const changePasswordSchema = z.object({
+export const createChangePasswordSchema = (policy: PasswordPolicy) => z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-      'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'
-    ),
+  newPassword: createPasswordSchema(policy),
 });
 
+export const changePasswordSchema = createChangePasswordSchema(defaultPasswordPolicy);
+
 // Update profile form schema
 export const updateProfileSchema = z.object({
   name: z
@@ -82,6 +123,38 @@ export const verifyEmailSchema = z.object({
   token: z.string().min(1, 'Verification token is required'),
 });
 
+// Authenticator app code schema
+export const loginVerificationSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Code is required')
+    .regex(/^\d{6}$/, 'Enter the 6-digit code from the email we sent you'),
+});
+
+export const mfaCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Code is required')
+    .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+// Recovery code schema
+export const recoveryCodeSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Recovery code is required')
+    .max(32, 'Recovery code is too long'),
+});
+
+// Disable two-factor schema
+export const disableTwoFactorSchema = z.object({
+  code: z
+    .string()
+    .min(1, 'Code is required')
+    .regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
 // Type exports for form data
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type SignupFormData = z.infer<typeof signupSchema>;
@@ -90,3 +163,6 @@ export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
 export type UpdateProfileFormData = z.infer<typeof updateProfileSchema>;
 export type VerifyEmailFormData = z.infer<typeof verifyEmailSchema>;
+export type MfaCodeFormData = z.infer<typeof mfaCodeSchema>;
+export type LoginVerificationFormData = z.infer<typeof loginVerificationSchema>;
+export type DisableTwoFactorFormData = z.infer<typeof disableTwoFactorSchema>;
@@ -1,17 +1,28 @@
-// User roles
-export type UserRole = 'USER' | 'ADMIN';
+// User roles. USER and ADMIN are built in; administrators can define custom roles.
+export type UserRole = 'USER' | 'ADMIN' | (string & {});
 
 // User profile data
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: UserRole;
+  roles: UserRole[];
+  permissions: string[];
   emailVerified: string | null;
+  mfaEnabled: boolean;
+  // A new address waiting to be confirmed from its mailbox
+  pendingEmailChange?: PendingEmailChange | null;
+  // Set once the user asks to delete their account; it is purged at this time
+  deletionScheduledAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface PendingEmailChange {
+  email: string;
+  expiresAt: string;
+}
+
 // Authentication state
 export interface AuthState {
   user: User | null;
@@ -19,7 +30,22 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  mfaToken: string | null;
+  verificationToken: string | null;
+  // Set while an administrator is signed in as the user
+  impersonation: Impersonation | null;
   login: (email: string, password: string) => Promise<void>;
+  verifyMfa: (code: string, method: MfaMethod) => Promise<void>;
+  cancelMfa: () => void;
+  verifyLogin: (code: string) => Promise<void>;
+  cancelVerification: () => void;
+  loginWithPasskey: () => Promise<void>;
+  loginWithProvider: (provider: string, code: string, state: string) => Promise<void>;
+  loginWithMagicLink: (token: string) => Promise<void>;
+  loginWithSaml: (code: string) => Promise<void>;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  startImpersonation: (userId: string, reason: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
   signup: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -31,6 +57,7 @@ export interface AuthState {
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
+  message?: string;
   error?: {
     code: string;
     message: string;
@@ -44,6 +71,17 @@ export interface LoginResponse {
   accessToken: string;
 }
 
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+// Sign-in held back by the risk checks until the emailed code is entered
+export interface LoginVerificationResponse {
+  verificationRequired: true;
+  verificationToken: string;
+}
+
 export interface SignupResponse {
   user: User;
   accessToken: string;
@@ -53,6 +91,13 @@ export interface RefreshResponse {
   accessToken: string;
 }
 
+// Proof of identity the server asks for again before sensitive actions; one field is set
+export interface ReauthenticationInput {
+  password?: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
 // Form data types
 export interface LoginFormData {
   email: string;
@@ -84,12 +129,276 @@ export interface UpdateProfileFormData {
   email?: string;
 }
 
+// Rules for new passwords, as configured on the server
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  minStrength: number;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+// Two-factor authentication
+export type MfaMethod = 'totp' | 'recovery';
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpSetupResponse {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+// WebAuthn passkeys
+export interface WebAuthnOptions<T> {
+  challengeId: string;
+  options: T;
+}
+
+export interface Passkey {
+  id: string;
+  name: string | null;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
 // Session data
 export interface Session {
   id: string;
-  userAgent: string | null;
   ip: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  location: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+// Personal access tokens for scripts and CLIs
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  hint: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export interface CreatedPersonalAccessToken {
+  token: string;
+  personalAccessToken: PersonalAccessToken;
+}
+
+// Copies of the user's data, built in the background
+export type DataExportStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED';
+
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null;
+}
+
+// OpenID Connect providers offered for sign-in
+export interface OidcProvider {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  state: string;
+}
+
+// Provider account linked to the user
+export interface LinkedIdentity {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// Authorization request from another app, as shown on the consent screen
+export interface OAuthAuthorizationPrompt {
+  client: { clientId: string; name: string };
+  scopes: string[];
+  consentRequired: boolean;
+}
+
+export interface OAuthAuthorizationRedirect {
+  redirectUrl: string;
+}
+
+// App the user has let access their account
+export interface OAuthConsent {
+  clientId: string;
+  name: string;
+  scopes: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Organizations the user belongs to
+export type OrganizationRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// Invitation as shown to the person invited
+export interface OrganizationInvitationPreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
   expiresAt: string;
+}
+
+// SAML single sign-on
+export type SamlBinding = 'HTTP-Redirect' | 'HTTP-POST';
+
+// Where to send the browser to sign in at the identity provider
+export interface SamlAuthnRequestStart {
+  binding: SamlBinding;
+  url: string;
+  // Present for the POST binding: the form fields to submit to the URL
+  fields?: Record<string, string>;
+}
+
+// An organization's identity provider, and the service provider details it needs
+export interface SamlConnection {
+  id: string;
+  organizationId: string;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificate: string;
+  authnRequestBinding: SamlBinding;
+  domains: string[];
+  // Domains only sign people in once their DNS record has been found
+  domainVerifications: SamlDomainVerification[];
+  jitProvisioning: boolean;
+  defaultRole: OrganizationRole;
+  enabled: boolean;
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
   createdAt: string;
-  revokedAt: string | null;
+  updatedAt: string;
+}
+
+export interface SamlDomainVerification {
+  domain: string;
+  verifiedAt: string | null;
+  recordName: string;
+  recordValue: string;
+}
+
+export type SamlConnectionInput = Pick<
+  SamlConnection,
+  'idpEntityId' | 'idpSsoUrl' | 'idpCertificate' | 'authnRequestBinding' | 'domains' | 'jitProvisioning' | 'defaultRole' | 'enabled'
+>;
+
+// Admin user management
+export type AdminUserStatus = 'active' | 'locked' | 'inactive';
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  name: string | null;
+  roles: UserRole[];
+  isActive: boolean;
+  isLocked: boolean;
+  lockedUntil: string | null;
+  passwordResetRequired: boolean;
+  emailVerified: string | null;
+  mfaEnabled: boolean;
+  createdAt: string;
+}
+
+export interface AdminUserDetail extends AdminUserSummary {
+  failedLoginAttempts: number;
+  permissions: string[];
+  activeSessionCount: number;
+  passkeyCount: number;
+  updatedAt: string;
+}
+
+export interface AdminSession {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A time-limited support session in which an administrator acts as the user
+export interface Impersonation {
+  id: string;
+  actorId: string;
+  targetUserId: string;
+  reason: string;
+  expiresAt: string;
+}
+
+export interface ImpersonationStart {
+  accessToken: string;
+  user: User;
+  impersonation: Impersonation;
+}
+
+export interface AuditEvent {
+  id: string;
+  event: string;
+  userId: string | null;
+  // The administrator who acted while impersonating the user, or 'scim' for directory provisioning
+  actorId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export type SecurityActivityEntry = Pick<AuditEvent, 'id' | 'event' | 'ip' | 'userAgent' | 'createdAt'>;
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
 }
@@ -49,15 +49,20 @@ export function getInitials(displayName: string | null | undefined): string {
 /**
  * Check if user has admin role
  */
-export function isAdmin(role: string): boolean {
-  return role === 'ADMIN';
+export function isAdmin(roles: string[]): boolean {
+  return roles.includes('ADMIN');
 }
 
 /**
- * Check if user has required role
+ * Check if user has required role. Every signed-in user holds USER.
  */
-export function hasRole(userRole: string, requiredRole: string): boolean {
-  const roleHierarchy = { USER: 1, ADMIN: 2 };
-  return roleHierarchy[userRole as keyof typeof roleHierarchy] >= 
-         roleHierarchy[requiredRole as keyof typeof roleHierarchy];
+export function hasRole(userRoles: string[], requiredRole: string): boolean {
+  return requiredRole === 'USER' || userRoles.includes(requiredRole);
+}
+
+/**
+ * Check if user has every required permission
+ */
+export function hasPermissions(userPermissions: string[], requiredPermissions: string[]): boolean {
+  return requiredPermissions.every((permission) => userPermissions.includes(permission));
 }
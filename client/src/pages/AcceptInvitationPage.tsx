@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import type { OrganizationInvitationPreview } from '@/lib/types';
+import { organizationApi } from '@/api/client';
+import { useAuthStore } from '@/store/auth';
+import { clearAuthorizeRequest, rememberAuthorizeRequest } from '@/lib/oauth';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+/**
+ * Where emailed organization invitations land
+ */
+export function AcceptInvitationPage() {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isAuthenticated, switchOrganization } = useAuthStore();
+  const [invitation, setInvitation] = useState<OrganizationInvitationPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [answer, setAnswer] = useState<'accept' | 'decline' | null>(null);
+  const loaded = useRef(false);
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (!isAuthenticated || loaded.current) return;
+    loaded.current = true;
+    clearAuthorizeRequest();
+
+    if (!token) {
+      setError('This invitation link is invalid or has expired.');
+      return;
+    }
+
+    organizationApi
+      .previewInvitation(token)
+      .then(response => {
+        if (response.success && response.data) {
+          setInvitation(response.data.invitation);
+        } else {
+          setError(response.error?.message || 'This invitation link is invalid or has expired.');
+        }
+      })
+      .catch((err: any) =>
+        setError(err.response?.data?.error?.message || 'This invitation link is invalid or has expired.')
+      );
+  }, [isAuthenticated, token]);
+
+  const accept = async () => {
+    if (!token) return;
+    setAnswer('accept');
+    setError(null);
+
+    try {
+      const response = await organizationApi.acceptInvitation(token);
+      if (response.success && response.data) {
+        await switchOrganization(response.data.organization.id);
+        navigate('/dashboard', { replace: true });
+        return;
+      }
+      setError(response.error?.message || 'Failed to accept invitation');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to accept invitation');
+    }
+
+    setAnswer(null);
+  };
+
+  const decline = async () => {
+    if (!token) return;
+    setAnswer('decline');
+    setError(null);
+
+    try {
+      await organizationApi.declineInvitation(token);
+      navigate('/dashboard', { replace: true });
+      return;
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to decline invitation');
+    }
+
+    setAnswer(null);
+  };
+
+  // Come back here once signed in, like an app's sign-in request
+  if (!isAuthenticated) {
+    rememberAuthorizeRequest(`${location.pathname}${location.search}`);
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!invitation && !error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        {invitation ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Join {invitation.organizationName}</CardTitle>
+              <CardDescription>
+                {invitation.invitedBy ?? 'Someone'} invited {invitation.email} to join as{' '}
+                {invitation.role.toLowerCase()}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {error && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button className="flex-1" loading={answer === 'accept'} disabled={answer !== null} onClick={accept}>
+                  Accept
+                </Button>
+                <Button
+                  className="flex-1"
+                  variant="outline"
+                  loading={answer === 'decline'}
+                  disabled={answer !== null}
+                  onClick={decline}
+                >
+                  Decline
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitation Unavailable</CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center">
+                <Link to="/dashboard" className="text-primary-600 hover:text-primary-500 font-medium">
+                  Go to Dashboard
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { adminApi } from '@/api/client';
+import type { AdminUserStatus, AdminUserSummary } from '@/lib/types';
+import { formatDate, getInitials, hasPermissions } from '@/lib/utils';
+import { AdminUserPanel } from '@/components/admin/AdminUserPanel';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+const PAGE_SIZE = 20;
+
+function statusLabel(user: AdminUserSummary): string {
+  if (!user.isActive) return 'Deactivated';
+  if (user.isLocked && (!user.lockedUntil || new Date(user.lockedUntil) > new Date())) return 'Locked';
+  return 'Active';
+}
+
+export function AdminPage() {
+  const { user, logout, startImpersonation } = useAuth();
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<AdminUserStatus | ''>('');
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await adminApi.listUsers({
+        page,
+        pageSize: PAGE_SIZE,
+        ...(search && { search }),
+        ...(status && { status }),
+      });
+      if (response.success && response.data) {
+        setUsers(response.data.items);
+        setTotal(response.data.total);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, search, status]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const onSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  if (!user) {
+    return <div>Loading...</div>;
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const canWrite = hasPermissions(user.permissions, ['users:write']);
+  const canReadAudit = hasPermissions(user.permissions, ['audit:read']);
+  const canImpersonate = hasPermissions(user.permissions, ['users:impersonate']);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link to="/dashboard" className="text-xl font-semibold text-gray-900">
+                SmartTask AI
+              </Link>
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                <div className="w-8 h-8 bg-primary-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                  {getInitials(user.name)}
+                </div>
+                <span className="text-sm text-gray-700">{user.name}</span>
+              </div>
+              <Button variant="outline" size="sm" onClick={logout}>
+                Sign Out
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900">Admin Dashboard</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Find accounts and manage their access
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Users</CardTitle>
+                <CardDescription>{total} account{total === 1 ? '' : 's'}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <form onSubmit={onSearch} className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <Input
+                      label="Search"
+                      placeholder="Email or name"
+                      value={searchInput}
+                      onChange={(event) => setSearchInput(event.target.value)}
+                    />
+                  </div>
+                  <select
+                    aria-label="Status"
+                    className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+                    value={status}
+                    onChange={(event) => {
+                      setPage(1);
+                      setStatus(event.target.value as AdminUserStatus | '');
+                    }}
+                  >
+                    <option value="">All</option>
+                    <option value="active">Active</option>
+                    <option value="locked">Locked</option>
+                    <option value="inactive">Deactivated</option>
+                  </select>
+                  <Button type="submit" loading={isLoading}>
+                    Search
+                  </Button>
+                </form>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                {users.length === 0 && !isLoading ? (
+                  <p className="text-sm text-gray-600">No users found.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {users.map((item) => (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedUserId(item.id)}
+                          className={`w-full px-2 py-3 text-left text-sm rounded-md ${
+                            selectedUserId === item.id ? 'bg-primary-50' : 'hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900">{item.email}</span>
+                            <span className="text-gray-500">{statusLabel(item)}</span>
+                          </div>
+                          <div className="flex justify-between text-gray-500">
+                            <span>{item.name || '—'} · {item.roles.join(', ')}</span>
+                            <span>Joined {formatDate(item.createdAt)}</span>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1 || isLoading}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-600">
+                    Page {page} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= pageCount || isLoading}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {selectedUserId ? (
+              <AdminUserPanel
+                userId={selectedUserId}
+                canWrite={canWrite}
+                canReadAudit={canReadAudit}
+                onImpersonate={canImpersonate ? startImpersonation : undefined}
+                onChange={loadUsers}
+              />
+            ) : (
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-gray-600">Select a user to see their details.</p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
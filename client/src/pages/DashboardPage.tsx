@@ -2,8 +2,9 @@
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/Button';
+import { OrganizationSwitcher } from '@/components/organization/OrganizationSwitcher';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
-import { getInitials } from '@/lib/utils';
+import { getInitials, hasPermissions } from '@/lib/utils';
 
 export function DashboardPage() {
   const { user, logout } = useAuth();
@@ -21,6 +22,7 @@ export function DashboardPage() {
               <h1 className="text-xl font-semibold text-gray-900">SmartTask AI</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <OrganizationSwitcher />
               <div className="flex items-center space-x-2">
                 <div className="w-8 h-8 bg-primary-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
                   {getInitials(user.name)}
@@ -47,7 +49,7 @@ export function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-gray-600">
-                  Role: {user.role}
+                  Roles: {user.roles.join(', ')}
                 </p>
                 <p className="text-sm text-gray-600">
                   Member since: {new Date(user.createdAt).toLocaleDateString()}
@@ -75,7 +77,7 @@ export function DashboardPage() {
                 >
                   Security Settings
                 </Link>
-                {user.role === 'ADMIN' && (
+                {hasPermissions(user.permissions, ['users:read']) && (
                   <Link
                     to="/admin"
                     className="block text-sm text-primary-600 hover:text-primary-500"
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/client';
+import { useAuthStore } from '@/store/auth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+interface EmailChangePageProps {
+  // Confirm links go to the new address, cancel links to the current one
+  action: 'confirm' | 'cancel';
+}
+
+const COPY = {
+  confirm: {
+    success: 'Email Address Changed',
+    successDescription: 'Your account now uses this address. Every other device has been signed out.',
+    failure: 'Email Change Failed',
+    fallbackError: 'Failed to change email',
+  },
+  cancel: {
+    success: 'Email Change Cancelled',
+    successDescription: 'Your email address stays the same. If you did not ask for the change, change your password now.',
+    failure: 'Could Not Cancel Email Change',
+    fallbackError: 'Failed to cancel email change',
+  },
+};
+
+/**
+ * Where the links emailed for an email change land
+ */
+export function EmailChangePage({ action }: EmailChangePageProps) {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuthStore();
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Links are single use; React may run the effect twice in development
+  const handled = useRef(false);
+
+  const token = searchParams.get('token');
+  const copy = COPY[action];
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    if (!token) {
+      setIsLoading(false);
+      setError('No email change token provided');
+      return;
+    }
+
+    const request = action === 'confirm' ? authApi.confirmEmailChange(token) : authApi.cancelEmailChange(token);
+
+    request
+      .then(async response => {
+        if (response.success) {
+          setIsDone(true);
+          // This browser may be the one that asked for the change and is still signed in
+          if (useAuthStore.getState().isAuthenticated) {
+            await refreshUser();
+          }
+        } else {
+          setError(response.error?.message || copy.fallbackError);
+        }
+      })
+      .catch((err: any) => setError(err.response?.data?.error?.message || copy.fallbackError))
+      .finally(() => setIsLoading(false));
+  }, [action, token, copy.fallbackError, refreshUser]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{isDone ? copy.success : copy.failure}</CardTitle>
+            <CardDescription>
+              {isDone ? copy.successDescription : error || 'The link is invalid or has expired.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center">
+              <Link
+                to={isAuthenticated ? '/settings' : '/login'}
+                className="text-primary-600 hover:text-primary-500 font-medium"
+              >
+                {isAuthenticated ? 'Back to Settings' : 'Sign In'}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,48 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { loginSchema, type LoginFormData } from '@/lib/schemas';
 import { useAuth } from '@/hooks/useAuth';
+import { MfaChallengeForm } from '@/components/auth/MfaChallengeForm';
+import { LoginVerificationForm } from '@/components/auth/LoginVerificationForm';
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
+import { useOidcProviders } from '@/hooks/useOidcProviders';
+import { authApi } from '@/api/client';
+import { followSamlRequest } from '@/lib/saml';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
 
 export function LoginPage() {
   const [searchParams] = useSearchParams();
-  const { login, isLoading, error, clearError } = useAuth();
+  const {
+    login,
+    mfaRequired,
+    verifyMfa,
+    cancelMfa,
+    verificationRequired,
+    verifyLogin,
+    cancelVerification,
+    loginWithPasskey,
+    isLoading,
+    error,
+    clearError,
+  } = useAuth();
+  const supportsPasskeys = browserSupportsWebAuthn();
+  const providers = useOidcProviders();
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const [magicLinkError, setMagicLinkError] = useState<string | null>(null);
+  const [isStartingSso, setIsStartingSso] = useState(false);
+  const [ssoError, setSsoError] = useState<string | null>(null);
   
   const {
     register,
     handleSubmit,
+    trigger,
+    getValues,
     formState: { errors },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -26,9 +54,57 @@ export function LoginPage() {
   }, [clearError]);
 
   const onSubmit = async (data: LoginFormData) => {
+    setMagicLinkSent(false);
     await login(data);
   };
 
+  // Passwordless sign-in for the address typed in the form; only the email field is needed
+  const sendMagicLink = async () => {
+    if (!(await trigger('email'))) return;
+
+    setIsSendingLink(true);
+    setMagicLinkError(null);
+    clearError();
+
+    try {
+      const response = await authApi.requestMagicLink(getValues('email'));
+
+      if (response.success) {
+        setMagicLinkSent(true);
+      } else {
+        setMagicLinkError(response.error?.message || 'Failed to send sign-in link');
+      }
+    } catch (err: any) {
+      setMagicLinkError(err.response?.data?.error?.message || 'Failed to send sign-in link');
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  // Single sign-on through the identity provider of the typed address's domain
+  const startSso = async () => {
+    if (!(await trigger('email'))) return;
+
+    setIsStartingSso(true);
+    setSsoError(null);
+    setMagicLinkSent(false);
+    clearError();
+
+    try {
+      const response = await authApi.startSamlLogin(getValues('email'));
+
+      if (response.success && response.data) {
+        // The browser leaves for the identity provider; keep the button busy until it does
+        followSamlRequest(response.data);
+        return;
+      }
+      setSsoError(response.error?.message || 'Failed to start single sign-on');
+    } catch (err: any) {
+      setSsoError(err.response?.data?.error?.message || 'Failed to start single sign-on');
+    }
+    setIsStartingSso(false);
+  };
+
   const errorFromUrl = searchParams.get('error');
   const errorMessage = errorFromUrl === 'security_violation' 
     ? 'Security violation detected. Please log in again.' 
@@ -46,65 +122,152 @@ export function LoginPage() {
           </p>
         </div>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Sign In</CardTitle>
-            <CardDescription>
-              Enter your credentials to access your account
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              {(error || errorMessage) && (
-                <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
-                  {errorMessage || error}
-                </div>
-              )}
-
-              <Input
-                label="Email"
-                type="email"
-                autoComplete="email"
-                error={errors.email?.message}
-                {...register('email')}
+        {mfaRequired ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Confirm it's you to finish signing in
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MfaChallengeForm
+                isLoading={isLoading}
+                error={error}
+                onSubmit={verifyMfa}
+                onCancel={cancelMfa}
               />
-
-              <Input
-                label="Password"
-                type="password"
-                autoComplete="current-password"
-                error={errors.password?.message}
-                {...register('password')}
+            </CardContent>
+          </Card>
+        ) : verificationRequired ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Confirm it's you</CardTitle>
+              <CardDescription>
+                This sign-in looks different from your usual ones, so we emailed you a code
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LoginVerificationForm
+                isLoading={isLoading}
+                error={error}
+                onSubmit={verifyLogin}
+                onCancel={cancelVerification}
               />
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign In</CardTitle>
+              <CardDescription>
+                Enter your credentials to access your account
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                {(error || errorMessage || magicLinkError || ssoError) && (
+                  <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                    {errorMessage || error || magicLinkError || ssoError}
+                  </div>
+                )}
+
+                {magicLinkSent && (
+                  <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+                    If an account exists for this email, we've sent it a sign-in link.
+                    Open it in this browser to sign in.
+                  </div>
+                )}
+
+                <Input
+                  label="Email"
+                  type="email"
+                  autoComplete="email"
+                  error={errors.email?.message}
+                  {...register('email')}
+                />
 
-              <Button
-                type="submit"
-                className="w-full"
-                loading={isLoading}
-              >
-                Sign In
-              </Button>
-            </form>
-
-            <div className="mt-6 text-center space-y-2">
-              <Link
-                to="/forgot-password"
-                className="text-sm text-primary-600 hover:text-primary-500"
-              >
-                Forgot your password?
-              </Link>
-              <div className="text-sm text-gray-600">
-                Don't have an account?{' '}
+                <Input
+                  label="Password"
+                  type="password"
+                  autoComplete="current-password"
+                  error={errors.password?.message}
+                  {...register('password')}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  loading={isLoading}
+                >
+                  Sign In
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  loading={isSendingLink}
+                  disabled={isLoading}
+                  onClick={sendMagicLink}
+                >
+                  Email me a link
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  loading={isStartingSso}
+                  disabled={isLoading}
+                  onClick={startSso}
+                >
+                  Use single sign-on
+                </Button>
+              </form>
+
+              {(supportsPasskeys || providers.length > 0) && (
+                <div className="mt-4 space-y-4">
+                  <div className="flex items-center text-xs uppercase text-gray-400">
+                    <div className="flex-1 border-t border-gray-200" />
+                    <span className="px-2">or</span>
+                    <div className="flex-1 border-t border-gray-200" />
+                  </div>
+                  {supportsPasskeys && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      disabled={isLoading}
+                      onClick={loginWithPasskey}
+                    >
+                      Use a passkey
+                    </Button>
+                  )}
+                  <SocialLoginButtons providers={providers} disabled={isLoading} />
+                </div>
+              )}
+
+              <div className="mt-6 text-center space-y-2">
                 <Link
-                  to="/signup"
-                  className="text-primary-600 hover:text-primary-500 font-medium"
+                  to="/forgot-password"
+                  className="text-sm text-primary-600 hover:text-primary-500"
                 >
-                  Sign up
+                  Forgot your password?
                 </Link>
+                <div className="text-sm text-gray-600">
+                  Don't have an account?{' '}
+                  <Link
+                    to="/signup"
+                    className="text-primary-600 hover:text-primary-500 font-medium"
+                  >
+                    Sign up
+                  </Link>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+/**
+ * Where emailed sign-in links land
+ */
+export function MagicLinkPage() {
+  const [searchParams] = useSearchParams();
+  const { loginWithMagicLink, error: loginError } = useAuth();
+  // Links are single use; React may run the effect twice in development
+  const handled = useRef(false);
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (handled.current || !token) return;
+    handled.current = true;
+
+    loginWithMagicLink(token);
+  }, [token, loginWithMagicLink]);
+
+  const message = token ? loginError : 'This sign-in link is invalid or has expired.';
+
+  if (!message) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sign-in Failed</CardTitle>
+            <CardDescription>{message}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center">
+              <Link to="/login" className="text-primary-600 hover:text-primary-500 font-medium">
+                Back to Sign In
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
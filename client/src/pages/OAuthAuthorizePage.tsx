@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, Navigate, useLocation, useSearchParams } from 'react-router-dom';
+import type { OAuthAuthorizationPrompt } from '@/lib/types';
+import { authApi } from '@/api/client';
+import { useAuthStore } from '@/store/auth';
+import { clearAuthorizeRequest, rememberAuthorizeRequest } from '@/lib/oauth';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  openid: 'Confirm who you are',
+  profile: 'See your name',
+  email: 'See your email address',
+};
+
+/**
+ * Authorization endpoint of the OpenID Connect provider: other apps send users here to sign in
+ */
+export function OAuthAuthorizePage() {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const { isAuthenticated } = useAuthStore();
+  const [prompt, setPrompt] = useState<OAuthAuthorizationPrompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAnswering, setIsAnswering] = useState(false);
+  // Approving issues a single-use code; React may run the effect twice in development
+  const started = useRef(false);
+
+  const params = useMemo(() => Object.fromEntries(searchParams.entries()), [searchParams]);
+
+  const answer = useCallback(async (approved: boolean) => {
+    setIsAnswering(true);
+    setError(null);
+
+    try {
+      const response = await authApi.answerOAuthAuthorization(params, approved);
+      if (response.success && response.data) {
+        // The browser leaves for the app; keep the buttons busy until it does
+        window.location.assign(response.data.redirectUrl);
+        return;
+      }
+      setError(response.error?.message || 'Failed to complete sign-in');
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to complete sign-in');
+    }
+
+    setIsAnswering(false);
+  }, [params]);
+
+  useEffect(() => {
+    if (!isAuthenticated || started.current) return;
+    started.current = true;
+    clearAuthorizeRequest();
+
+    authApi
+      .getOAuthAuthorization(params)
+      .then(response => {
+        if (!response.success || !response.data) {
+          setError(response.error?.message || 'This sign-in request is invalid');
+        } else if ('redirectUrl' in response.data) {
+          // The request was malformed in a way the app should hear about
+          window.location.assign(response.data.redirectUrl);
+        } else if (!response.data.consentRequired) {
+          answer(true);
+        } else {
+          setPrompt(response.data);
+        }
+      })
+      .catch((err: any) => setError(err.response?.data?.error?.message || 'This sign-in request is invalid'));
+  }, [isAuthenticated, params, answer]);
+
+  if (!isAuthenticated) {
+    rememberAuthorizeRequest(`${location.pathname}${location.search}`);
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!prompt && !error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        {error ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Sign-in Failed</CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center">
+                <Link to="/dashboard" className="text-primary-600 hover:text-primary-500 font-medium">
+                  Go to Dashboard
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          prompt && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Sign in to {prompt.client.name}</CardTitle>
+                <CardDescription>
+                  {prompt.client.name} wants to use your SmartTask account to:
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                  {prompt.scopes.map(scope => (
+                    <li key={scope}>{SCOPE_DESCRIPTIONS[scope] ?? `Use the ${scope} permission`}</li>
+                  ))}
+                </ul>
+
+                <div className="flex gap-2">
+                  <Button className="flex-1" loading={isAnswering} onClick={() => answer(true)}>
+                    Allow
+                  </Button>
+                  <Button className="flex-1" variant="outline" disabled={isAnswering} onClick={() => answer(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
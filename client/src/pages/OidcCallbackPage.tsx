@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/client';
+import { useAuth } from '@/hooks/useAuth';
+import { takePendingRequest, type PendingOidcRequest } from '@/lib/oidc';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+/**
+ * Where providers send the browser back to after social sign-in or account linking
+ */
+export function OidcCallbackPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { loginWithProvider, error: loginError } = useAuth();
+  const [request, setRequest] = useState<PendingOidcRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Codes are single use; React may run the effect twice in development
+  const handled = useRef(false);
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const pending = takePendingRequest(searchParams.get('state'));
+    const code = searchParams.get('code');
+    setRequest(pending);
+
+    // The user declined at the provider, or the provider refused the request
+    if (searchParams.get('error')) {
+      setError(searchParams.get('error_description') || 'Sign-in was cancelled');
+      return;
+    }
+
+    if (!pending || !code) {
+      setError('This sign-in link is invalid or has expired. Please try again.');
+      return;
+    }
+
+    if (pending.intent === 'link') {
+      authApi
+        .linkIdentity(pending.provider, { code, state: pending.state })
+        .then(() => navigate('/settings/security', { replace: true }))
+        .catch((err: any) => setError(err.response?.data?.error?.message || 'Failed to link account'));
+      return;
+    }
+
+    loginWithProvider(pending.provider, code, pending.state);
+  }, [searchParams, navigate, loginWithProvider]);
+
+  const message = error || loginError;
+
+  if (!message) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const isLink = request?.intent === 'link';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{isLink ? 'Linking Failed' : 'Sign-in Failed'}</CardTitle>
+            <CardDescription>{message}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center">
+              <Link
+                to={isLink ? '/settings/security' : '/login'}
+                className="text-primary-600 hover:text-primary-500 font-medium"
+              >
+                {isLink ? 'Back to Security Settings' : 'Back to Sign In'}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { resetPasswordSchema, type ResetPasswordFormData } from '@/lib/schemas';
+import { createResetPasswordSchema, describePasswordPolicy, type ResetPasswordFormData } from '@/lib/schemas';
 import { authApi } from '@/api/client';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
@@ -15,6 +16,8 @@ export function ResetPasswordPage() {
   const [isLoading, setIsLoading] = useState(false);
   
   const token = searchParams.get('token');
+  const policy = usePasswordPolicy();
+  const schema = useMemo(() => createResetPasswordSchema(policy), [policy]);
   
   const {
     register,
@@ -22,7 +25,7 @@ export function ResetPasswordPage() {
     formState: { errors },
     watch,
   } = useForm<ResetPasswordFormData>({
-    resolver: zodResolver(resetPasswordSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       token: token || '',
     },
@@ -53,11 +56,11 @@ export function ResetPasswordPage() {
     if (!password) return { strength: 0, color: 'gray' };
     
     let strength = 0;
-    if (password.length >= 8) strength++;
+    if (password.length >= policy.minLength) strength++;
     if (/[a-z]/.test(password)) strength++;
     if (/[A-Z]/.test(password)) strength++;
     if (/\d/.test(password)) strength++;
-    if (/[@$!%*?&]/.test(password)) strength++;
+    if (/[^\p{L}\p{N}\s]/u.test(password)) strength++;
     
     const colors = ['red', 'orange', 'yellow', 'lightgreen', 'green'];
     return { strength, color: colors[Math.min(strength - 1, 4)] };
@@ -157,7 +160,7 @@ export function ResetPasswordPage() {
                 type="password"
                 autoComplete="new-password"
                 error={errors.newPassword?.message}
-                helperText="Must contain at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character"
+                helperText={describePasswordPolicy(policy)}
                 {...register('newPassword')}
               />
 
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/client';
+import { useAuth } from '@/hooks/useAuth';
+import { takeSamlIntent, type SamlIntent } from '@/lib/saml';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+
+/**
+ * Where the server sends the browser once the identity provider has answered a single sign-on
+ * or an account link
+ */
+export function SamlCallbackPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { loginWithSaml, error: loginError } = useAuth();
+  const [intent, setIntent] = useState<SamlIntent>('login');
+  const [linkError, setLinkError] = useState<string | null>(null);
+  // Codes are single use; React may run the effect twice in development
+  const handled = useRef(false);
+
+  const code = searchParams.get('code');
+  // The server refused the identity provider's response
+  const refused = searchParams.get('error')
+    ? searchParams.get('error_description') || 'Single sign-on failed'
+    : null;
+
+  useEffect(() => {
+    if (handled.current) return;
+    handled.current = true;
+
+    const pending = takeSamlIntent();
+    setIntent(pending);
+    if (refused || !code) return;
+
+    if (pending === 'link') {
+      authApi
+        .linkSaml(code)
+        .then(() => navigate('/settings/security', { replace: true }))
+        .catch((err: any) => setLinkError(err.response?.data?.error?.message || 'Failed to link single sign-on'));
+      return;
+    }
+
+    loginWithSaml(code);
+  }, [code, refused, navigate, loginWithSaml]);
+
+  const isLink = intent === 'link';
+  const message =
+    refused ||
+    (code ? (isLink ? linkError : loginError) : 'This sign-in link is invalid or has expired. Please try again.');
+
+  if (!message) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">SmartTask AI</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{isLink ? 'Linking Failed' : 'Sign-in Failed'}</CardTitle>
+            <CardDescription>{message}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center">
+              <Link
+                to={isLink ? '/settings/security' : '/login'}
+                className="text-primary-600 hover:text-primary-500 font-medium"
+              >
+                {isLink ? 'Back to Security Settings' : 'Back to Sign In'}
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,44 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { updateProfileSchema, changePasswordSchema, type UpdateProfileFormData, type ChangePasswordFormData } from '@/lib/schemas';
+import {
+  updateProfileSchema,
+  createChangePasswordSchema,
+  describePasswordPolicy,
+  type UpdateProfileFormData,
+  type ChangePasswordFormData,
+} from '@/lib/schemas';
 import { useAuth } from '@/hooks/useAuth';
+import { useAuthStore } from '@/store/auth';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
 import { authApi } from '@/api/client';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { TwoFactorSettings } from '@/components/security/TwoFactorSettings';
+import { PasskeySettings } from '@/components/security/PasskeySettings';
+import { SecurityActivity } from '@/components/security/SecurityActivity';
+import { SessionSettings } from '@/components/security/SessionSettings';
+import { PersonalAccessTokenSettings } from '@/components/security/PersonalAccessTokenSettings';
+import { LinkedAccountsSettings } from '@/components/security/LinkedAccountsSettings';
+import { ConnectedAppsSettings } from '@/components/security/ConnectedAppsSettings';
+import { OrganizationSettings } from '@/components/organization/OrganizationSettings';
+import { DataExportSettings } from '@/components/account/DataExportSettings';
+import { AccountDeletionSettings } from '@/components/account/AccountDeletionSettings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
-import { getInitials } from '@/lib/utils';
+import { formatDateTime, getInitials } from '@/lib/utils';
 
 export function SettingsPage() {
   const location = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, refreshUser } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
+  const changePasswordSchema = useMemo(() => createChangePasswordSchema(passwordPolicy), [passwordPolicy]);
   const [isProfileLoading, setIsProfileLoading] = useState(false);
   const [isPasswordLoading, setIsPasswordLoading] = useState(false);
   const [profileError, setProfileError] = useState<string | null>(null);
   const [passwordError, setPasswordError] = useState<string | null>(null);
-  const [profileSuccess, setProfileSuccess] = useState(false);
+  const [profileSuccess, setProfileSuccess] = useState<string | null>(null);
+  const [isCancellingEmailChange, setIsCancellingEmailChange] = useState(false);
   const [passwordSuccess, setPasswordSuccess] = useState(false);
 
   const isSecurityPage = location.pathname === '/settings/security';
@@ -37,15 +58,17 @@ export function SettingsPage() {
   const onProfileSubmit = async (data: UpdateProfileFormData) => {
     setIsProfileLoading(true);
     setProfileError(null);
-    setProfileSuccess(false);
+    setProfileSuccess(null);
 
     try {
       const response = await authApi.updateProfile(data);
       
       if (response.success) {
-        setProfileSuccess(true);
-        // Refresh user data
-        window.location.reload();
+        setProfileSuccess(response.message || 'Profile updated successfully!');
+        // A new email only applies once confirmed, so the form goes back to the current one
+        await refreshUser();
+        const current = useAuthStore.getState().user;
+        profileForm.reset({ name: current?.name || '', email: current?.email || '' });
       } else {
         setProfileError(response.error?.message || 'Failed to update profile');
       }
@@ -56,6 +79,21 @@ export function SettingsPage() {
     }
   };
 
+  const cancelEmailChange = async () => {
+    setIsCancellingEmailChange(true);
+    setProfileError(null);
+    setProfileSuccess(null);
+
+    try {
+      await authApi.cancelPendingEmailChange();
+      await refreshUser();
+    } catch (err: any) {
+      setProfileError(err.response?.data?.error?.message || 'Failed to cancel email change');
+    } finally {
+      setIsCancellingEmailChange(false);
+    }
+  };
+
   const onPasswordSubmit = async (data: ChangePasswordFormData) => {
     setIsPasswordLoading(true);
     setPasswordError(null);
@@ -153,96 +191,137 @@ export function SettingsPage() {
             {/* Content */}
             <div className="lg:col-span-2">
               {!isSecurityPage ? (
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Profile Settings</CardTitle>
-                    <CardDescription>
-                      Update your profile information
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-4">
-                      {profileError && (
-                        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
-                          {profileError}
-                        </div>
-                      )}
-                      {profileSuccess && (
-                        <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
-                          Profile updated successfully!
-                        </div>
-                      )}
-
-                      <Input
-                        label="Name"
-                        type="text"
-                                        error={profileForm.formState.errors.name?.message}
-                {...profileForm.register('name')}
-                      />
-
-                      <Input
-                        label="Email"
-                        type="email"
-                        error={profileForm.formState.errors.email?.message}
-                        {...profileForm.register('email')}
-                      />
-
-                      <Button
-                        type="submit"
-                        loading={isProfileLoading}
-                      >
-                        Update Profile
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Profile Settings</CardTitle>
+                      <CardDescription>
+                        Update your profile information
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={profileForm.handleSubmit(onProfileSubmit)} className="space-y-4">
+                        {profileError && (
+                          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                            {profileError}
+                          </div>
+                        )}
+                        {profileSuccess && (
+                          <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
+                            {profileSuccess}
+                          </div>
+                        )}
+                        {user.pendingEmailChange && (
+                          <div className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm text-amber-900 bg-amber-50 border border-amber-200 rounded-md">
+                            <span>
+                              Waiting for you to confirm <span className="font-medium">{user.pendingEmailChange.email}</span> from
+                              the link we sent to it, before {formatDateTime(user.pendingEmailChange.expiresAt)}.
+                            </span>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              loading={isCancellingEmailChange}
+                              onClick={cancelEmailChange}
+                            >
+                              Cancel change
+                            </Button>
+                          </div>
+                        )}
+
+                        <Input
+                          label="Name"
+                          type="text"
+                                          error={profileForm.formState.errors.name?.message}
+                  {...profileForm.register('name')}
+                        />
+
+                        <Input
+                          label="Email"
+                          type="email"
+                          error={profileForm.formState.errors.email?.message}
+                          {...profileForm.register('email')}
+                        />
+
+                        <Button
+                          type="submit"
+                          loading={isProfileLoading}
+                        >
+                          Update Profile
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+
+                  <OrganizationSettings />
+
+                  <DataExportSettings />
+
+                  <AccountDeletionSettings />
+                </div>
               ) : (
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Security Settings</CardTitle>
-                    <CardDescription>
-                      Change your password and manage security settings
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
-                      {passwordError && (
-                        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
-                          {passwordError}
-                        </div>
-                      )}
-                      {passwordSuccess && (
-                        <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
-                          Password changed successfully! You will be logged out shortly.
-                        </div>
-                      )}
-
-                      <Input
-                        label="Current Password"
-                        type="password"
-                        autoComplete="current-password"
-                        error={passwordForm.formState.errors.currentPassword?.message}
-                        {...passwordForm.register('currentPassword')}
-                      />
-
-                      <Input
-                        label="New Password"
-                        type="password"
-                        autoComplete="new-password"
-                        error={passwordForm.formState.errors.newPassword?.message}
-                        helperText="Must contain at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character"
-                        {...passwordForm.register('newPassword')}
-                      />
-
-                      <Button
-                        type="submit"
-                        loading={isPasswordLoading}
-                      >
-                        Change Password
-                      </Button>
-                    </form>
-                  </CardContent>
-                </Card>
+                <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Security Settings</CardTitle>
+                      <CardDescription>
+                        Change your password and manage security settings
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
+                        {passwordError && (
+                          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                            {passwordError}
+                          </div>
+                        )}
+                        {passwordSuccess && (
+                          <div className="p-3 text-sm text-green-600 bg-green-50 border border-green-200 rounded-md">
+                            Password changed successfully! You will be logged out shortly.
+                          </div>
+                        )}
+
+                        <Input
+                          label="Current Password"
+                          type="password"
+                          autoComplete="current-password"
+                          error={passwordForm.formState.errors.currentPassword?.message}
+                          {...passwordForm.register('currentPassword')}
+                        />
+
+                        <Input
+                          label="New Password"
+                          type="password"
+                          autoComplete="new-password"
+                          error={passwordForm.formState.errors.newPassword?.message}
+                          helperText={describePasswordPolicy(passwordPolicy)}
+                          {...passwordForm.register('newPassword')}
+                        />
+
+                        <Button
+                          type="submit"
+                          loading={isPasswordLoading}
+                        >
+                          Change Password
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+
+                  <TwoFactorSettings />
+
+                  <PasskeySettings />
+
+                  <LinkedAccountsSettings />
+
+                  <ConnectedAppsSettings />
+
+                  <SessionSettings />
+
+                  <PersonalAccessTokenSettings />
+
+                  <SecurityActivity />
+                </div>
               )}
             </div>
           </div>
@@ -1,15 +1,21 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { signupSchema, type SignupFormData } from '@/lib/schemas';
+import { createSignupSchema, describePasswordPolicy, type SignupFormData } from '@/lib/schemas';
 import { useAuth } from '@/hooks/useAuth';
+import { useOidcProviders } from '@/hooks/useOidcProviders';
+import { usePasswordPolicy } from '@/hooks/usePasswordPolicy';
+import { SocialLoginButtons } from '@/components/auth/SocialLoginButtons';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
 
 export function SignupPage() {
   const { signup, isLoading, error, clearError } = useAuth();
+  const providers = useOidcProviders();
+  const policy = usePasswordPolicy();
+  const schema = useMemo(() => createSignupSchema(policy), [policy]);
   
   const {
     register,
@@ -17,7 +23,7 @@ export function SignupPage() {
     formState: { errors },
     watch,
   } = useForm<SignupFormData>({
-    resolver: zodResolver(signupSchema),
+    resolver: zodResolver(schema),
   });
 
   const password = watch('password');
@@ -35,11 +41,11 @@ export function SignupPage() {
     if (!password) return { strength: 0, color: 'gray' };
     
     let strength = 0;
-    if (password.length >= 8) strength++;
+    if (password.length >= policy.minLength) strength++;
     if (/[a-z]/.test(password)) strength++;
     if (/[A-Z]/.test(password)) strength++;
     if (/\d/.test(password)) strength++;
-    if (/[@$!%*?&]/.test(password)) strength++;
+    if (/[^\p{L}\p{N}\s]/u.test(password)) strength++;
     
     const colors = ['red', 'orange', 'yellow', 'lightgreen', 'green'];
     return { strength, color: colors[Math.min(strength - 1, 4)] };
@@ -93,7 +99,7 @@ export function SignupPage() {
                 type="password"
                 autoComplete="new-password"
                 error={errors.password?.message}
-                helperText="Must contain at least 8 characters, one uppercase letter, one lowercase letter, one number, and one special character"
+                helperText={describePasswordPolicy(policy)}
                 {...register('password')}
               />
 
@@ -126,6 +132,17 @@ export function SignupPage() {
               </Button>
             </form>
 
+            {providers.length > 0 && (
+              <div className="mt-4 space-y-4">
+                <div className="flex items-center text-xs uppercase text-gray-400">
+                  <div className="flex-1 border-t border-gray-200" />
+                  <span className="px-2">or</span>
+                  <div className="flex-1 border-t border-gray-200" />
+                </div>
+                <SocialLoginButtons providers={providers} disabled={isLoading} />
+              </div>
+            )}
+
             <div className="mt-6 text-center">
               <div className="text-sm text-gray-600">
                 Already have an account?{' '}
@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { authApi } from '@/api/client';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
 
 export function VerifyEmailPage() {
   const [searchParams] = useSearchParams();
   const [isVerified, setIsVerified] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+const [isLoading, setIsLoading] = useState(true);
+  const [resendEmail, setResendEmail] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
   
   const token = searchParams.get('token');
 
@@ -36,6 +41,21 @@ export function VerifyEmailPage() {
     }
   };
 
+  const resendVerification = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsResending(true);
+    setResendMessage(null);
+
+    try {
+      const response = await authApi.resendVerification(resendEmail);
+      setResendMessage(response.message || 'If an unverified account exists for this email, a new verification link has been sent.');
+    } catch (err: any) {
+      setResendMessage(err.response?.data?.error?.message || 'Failed to send verification email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -92,8 +112,26 @@ export function VerifyEmailPage() {
           <CardContent>
             <div className="text-center space-y-4">
               <p className="text-sm text-gray-600">
-                Please check your email for a new verification link or contact support.
+                Enter your email address to receive a new verification link.
               </p>
+              <form onSubmit={resendVerification} className="space-y-4 text-left">
+                {resendMessage && (
+                  <div className="p-3 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-md">
+                    {resendMessage}
+                  </div>
+                )}
+                <Input
+                  label="Email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={resendEmail}
+                  onChange={(event) => setResendEmail(event.target.value)}
+                />
+                <Button type="submit" className="w-full" loading={isResending}>
+                  Send New Link
+                </Button>
+              </form>
               <Link
                 to="/login"
                 className="text-primary-600 hover:text-primary-500 font-medium"
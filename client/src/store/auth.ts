@@ -1,9 +1,60 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AuthState } from '@/lib/types';
-import { authApi } from '@/api/client';
+import { startAuthentication } from '@simplewebauthn/browser';
+import type {
+  AuthState,
+  LoginResponse,
+  LoginVerificationResponse,
+  MfaChallengeResponse,
+  MfaMethod,
+} from '@/lib/types';
+import { adminApi, authApi, organizationApi, setImpersonationExpiredHandler } from '@/api/client';
 
+type SetAuthState = (partial: Partial<AuthState>) => void;
 
+// Store a freshly issued session
+function completeLogin(set: SetAuthState, data: LoginResponse) {
+  // Store access token in memory only (not localStorage for security)
+  (window as any).__authToken = data.accessToken;
+
+  set({
+    user: data.user,
+    accessToken: data.accessToken,
+    isAuthenticated: true,
+    isLoading: false,
+    error: null,
+    mfaToken: null,
+    verificationToken: null,
+  });
+}
+
+// Store the outcome of the first sign-in step: a session, or the step that must come next
+function handleLoginResult(
+  set: SetAuthState,
+  data: LoginResponse | MfaChallengeResponse | LoginVerificationResponse
+) {
+  // Credentials accepted - a second factor is still required
+  if ('mfaRequired' in data) {
+    set({
+      mfaToken: data.mfaToken,
+      isLoading: false,
+      error: null,
+    });
+    return;
+  }
+
+  // Unusual sign-in - the emailed code must be entered first
+  if ('verificationRequired' in data) {
+    set({
+      verificationToken: data.verificationToken,
+      isLoading: false,
+      error: null,
+    });
+    return;
+  }
+
+  completeLogin(set, data);
+}
 
 export const useAuthStore = create<AuthState>()(
   persist(
@@ -14,6 +65,9 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      mfaToken: null,
+      verificationToken: null,
+      impersonation: null,
 
       // Login action
       login: async (email: string, password: string) => {
@@ -23,30 +77,268 @@ export const useAuthStore = create<AuthState>()(
           const response = await authApi.login({ email, password });
           
           if (response.success && response.data) {
-            // Store access token in memory only (not localStorage for security)
-            (window as any).__authToken = response.data.accessToken;
-            
+            handleLoginResult(set, response.data);
+          } else {
             set({
-              user: response.data.user,
-              accessToken: response.data.accessToken,
-              isAuthenticated: true,
               isLoading: false,
-              error: null,
+              error: response.error?.message || 'Login failed',
             });
+          }
+        } catch (error: any) {
+          set({
+            isLoading: false,
+            error: error.response?.data?.error?.message || 'Login failed',
+          });
+        }
+      },
+
+      // Second factor step of login
+      verifyMfa: async (code: string, method: MfaMethod) => {
+        const { mfaToken } = get();
+
+        if (!mfaToken) {
+          set({ error: 'Sign-in challenge has expired. Please sign in again.' });
+          return;
+        }
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await authApi.loginMfa(
+            method === 'recovery' ? { mfaToken, recoveryCode: code } : { mfaToken, code }
+          );
+
+          if (response.success && response.data) {
+            completeLogin(set, response.data);
           } else {
             set({
               isLoading: false,
-              error: response.error?.message || 'Login failed',
+              error: response.error?.message || 'Verification failed',
             });
           }
         } catch (error: any) {
+          const errorCode = error.response?.data?.error?.code;
           set({
             isLoading: false,
-            error: error.response?.data?.error?.message || 'Login failed',
+            // An expired challenge cannot be retried - start over from the password step
+            ...(errorCode === 'INVALID_MFA_TOKEN' && { mfaToken: null }),
+            error: error.response?.data?.error?.message || 'Verification failed',
+          });
+        }
+      },
+
+      // Emailed code step of a login the risk checks held back
+      verifyLogin: async (code: string) => {
+        const { verificationToken } = get();
+
+        if (!verificationToken) {
+          set({ error: 'Sign-in verification has expired. Please sign in again.' });
+          return;
+        }
+
+        set({ isLoading: true, error: null });
+
+        try {
+          const response = await authApi.verifyLogin({ verificationToken, code });
+
+          if (response.success && response.data) {
+            completeLogin(set, response.data);
+          } else {
+            set({
+              isLoading: false,
+              error: response.error?.message || 'Verification failed',
+            });
+          }
+        } catch (error: any) {
+          const errorCode = error.response?.data?.error?.code;
+          set({
+            isLoading: false,
+            // Expired or exhausted codes cannot be retried - start over from the password step
+            ...(errorCode === 'INVALID_VERIFICATION_TOKEN' && { verificationToken: null }),
+            error: error.response?.data?.error?.message || 'Verification failed',
           });
         }
       },
 
+      // Passwordless login with a passkey
+      loginWithPasskey: async () => {
+        set({ isLoading: true, error: null, mfaToken: null, verificationToken: null });
+
+        try {
+          const optionsResponse = await authApi.passkeyLoginOptions();
+
+          if (!optionsResponse.success || !optionsResponse.data) {
+            set({
+              isLoading: false,
+              error: optionsResponse.error?.message || 'Passkey sign-in failed',
+            });
+            return;
+          }
+
+          const { challengeId, options } = optionsResponse.data;
+          const credential = await startAuthentication({ optionsJSON: options });
+          const response = await authApi.passkeyLoginVerify({ challengeId, response: credential });
+
+          if (response.success && response.data) {
+            completeLogin(set, response.data);
+          } else {
+            set({
+              isLoading: false,
+              error: response.error?.message || 'Passkey sign-in failed',
+            });
+          }
+        } catch (error: any) {
+          set({
+            isLoading: false,
+            // The browser rejects with NotAllowedError when the prompt is dismissed
+            error: error.name === 'NotAllowedError'
+              ? 'Passkey sign-in was cancelled'
+              : error.response?.data?.error?.message || 'Passkey sign-in failed',
+          });
+        }
+      },
+
+      // Social login, once the provider has redirected back with a code
+      loginWithProvider: async (provider: string, code: string, state: string) => {
+        set({ isLoading: true, error: null, mfaToken: null, verificationToken: null });
+
+        try {
+          const response = await authApi.oidcLogin(provider, { code, state });
+
+          if (response.success && response.data) {
+            handleLoginResult(set, response.data);
+          } else {
+            set({
+              isLoading: false,
+              error: response.error?.message || 'Sign-in failed',
+            });
+          }
+        } catch (error: any) {
+          set({
+            isLoading: false,
+            error: error.response?.data?.error?.message || 'Sign-in failed',
+          });
+        }
+      },
+
+      // Sign in with an emailed link, opened in the browser that requested it
+      loginWithMagicLink: async (token: string) => {
+        set({ isLoading: true, error: null, mfaToken: null, verificationToken: null });
+
+        try {
+          const response = await authApi.magicLinkLogin(token);
+
+          if (response.success && response.data) {
+            handleLoginResult(set, response.data);
+          } else {
+            set({
+              isLoading: false,
+              error: response.error?.message || 'Sign-in failed',
+            });
+          }
+        } catch (error: any) {
+          set({
+            isLoading: false,
+            error: error.response?.data?.error?.message || 'Sign-in failed',
+          });
+        }
+      },
+
+      // Single sign-on, once the server has accepted the identity provider's response
+      loginWithSaml: async (code: string) => {
+        set({ isLoading: true, error: null, mfaToken: null, verificationToken: null });
+
+        try {
+          const response = await authApi.samlLogin(code);
+
+          if (response.success && response.data) {
+            handleLoginResult(set, response.data);
+          } else {
+            set({
+              isLoading: false,
+              error: response.error?.message || 'Sign-in failed',
+            });
+          }
+        } catch (error: any) {
+          set({
+            isLoading: false,
+            error: error.response?.data?.error?.message || 'Sign-in failed',
+          });
+        }
+      },
+
+      // Work in another organization; the new access token carries it
+      switchOrganization: async (organizationId: string) => {
+        const response = await organizationApi.switch(organizationId);
+
+        if (response.success && response.data) {
+          (window as any).__authToken = response.data.accessToken;
+          set({ accessToken: response.data.accessToken });
+        }
+      },
+
+      // Act as another user until stopped or the impersonation runs out
+      startImpersonation: async (userId: string, reason: string) => {
+        const response = await adminApi.impersonateUser(userId, reason);
+
+        if (response.success && response.data) {
+          const { accessToken, user, impersonation } = response.data;
+          (window as any).__authToken = accessToken;
+          setImpersonationExpiredHandler(() => {
+            get().stopImpersonation();
+          });
+
+          set({ user, accessToken, impersonation, error: null });
+        }
+      },
+
+      // Return to the administrator's own session
+      stopImpersonation: async () => {
+        const { impersonation } = get();
+
+        if (!impersonation) {
+          return;
+        }
+
+        setImpersonationExpiredHandler(null);
+        set({ impersonation: null });
+
+        // Once expired, the server has already stopped accepting the token
+        if (new Date(impersonation.expiresAt) > new Date()) {
+          try {
+            await authApi.endImpersonation();
+          } catch (error) {
+            console.warn('Ending impersonation failed:', error);
+          }
+        }
+
+        try {
+          const response = await authApi.refresh();
+
+          if (response.success && response.data) {
+            (window as any).__authToken = response.data.accessToken;
+            set({ accessToken: response.data.accessToken });
+            await get().refreshUser();
+            return;
+          }
+        } catch (error) {
+          console.warn('Restoring the administrator session failed:', error);
+        }
+
+        (window as any).__authToken = null;
+        set({ user: null, accessToken: null, isAuthenticated: false });
+      },
+
+      // Abandon the second factor step
+      cancelMfa: () => {
+        set({ mfaToken: null, error: null });
+      },
+
+      // Abandon the emailed code step
+      cancelVerification: () => {
+        set({ verificationToken: null, error: null });
+      },
+
       // Signup action
       signup: async (email: string, password: string, name: string) => {
         set({ isLoading: true, error: null });
@@ -82,6 +374,16 @@ export const useAuthStore = create<AuthState>()(
       // Logout action
       logout: async () => {
         set({ isLoading: true });
+
+        // Signing out while impersonating ends the impersonation as well as the administrator's session
+        if (get().impersonation) {
+          setImpersonationExpiredHandler(null);
+          try {
+            await authApi.endImpersonation();
+          } catch (error) {
+            console.warn('Ending impersonation failed:', error);
+          }
+        }
         
         try {
           await authApi.logout();
@@ -98,6 +400,9 @@ export const useAuthStore = create<AuthState>()(
             isAuthenticated: false,
             isLoading: false,
             error: null,
+            mfaToken: null,
+            verificationToken: null,
+            impersonation: null,
           });
         }
       },
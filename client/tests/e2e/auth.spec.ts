@@ -76,7 +76,8 @@ test.describe('Authentication Flow', () => {
               id: '1',
               email: 'test@example.com',
               displayName: 'Test User',
-              role: 'USER',
+              roles: ['USER'],
+              permissions: [],
               emailVerified: null,
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
@@ -134,7 +135,8 @@ test.describe('Authentication Flow', () => {
               id: '1',
               email: 'newuser@example.com',
               displayName: 'New User',
-              role: 'USER',
+              roles: ['USER'],
+              permissions: [],
               emailVerified: null,
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
@@ -168,7 +170,8 @@ test.describe('Authentication Flow', () => {
               id: '1',
               email: 'test@example.com',
               displayName: 'Test User',
-              role: 'USER',
+              roles: ['USER'],
+              permissions: [],
               emailVerified: null,
               createdAt: new Date().toISOString(),
               updatedAt: new Date().toISOString(),
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { test, expect, type CDPSession, type Page } from '@playwright/test';
+
+const mockUser = {
+  id: '1',
+  email: 'test@example.com',
+  name: 'Test User',
+  roles: ['USER'],
+  permissions: [],
+  emailVerified: null,
+  mfaEnabled: false,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
+
+const challenge = crypto.randomBytes(32).toString('base64url');
+
+// Attach a software (virtual) platform authenticator through the Chrome DevTools Protocol
+async function addVirtualAuthenticator(page: Page): Promise<{ client: CDPSession; authenticatorId: string }> {
+  const client = await page.context().newCDPSession(page);
+  await client.send('WebAuthn.enable');
+
+  const { authenticatorId } = await client.send('WebAuthn.addVirtualAuthenticator', {
+    options: {
+      protocol: 'ctap2',
+      transport: 'internal',
+      hasResidentKey: true,
+      hasUserVerification: true,
+      isUserVerified: true,
+      automaticPresenceSimulation: true,
+    },
+  });
+
+  return { client, authenticatorId };
+}
+
+async function fulfillJson(page: Page, url: string, body: unknown, onRequest?: (data: any) => void) {
+  await page.route(url, async route => {
+    onRequest?.(route.request().postDataJSON());
+    await route.fulfill({
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify(body),
+    });
+  });
+}
+
+test.describe('Passkeys', () => {
+  test('should sign in with a passkey from the software authenticator', async ({ page }) => {
+    await page.goto('http://localhost:5173/login');
+    const { client, authenticatorId } = await addVirtualAuthenticator(page);
+
+    // Pre-provision a discoverable credential for this site
+    const credentialId = crypto.randomBytes(16);
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    await client.send('WebAuthn.addCredential', {
+      authenticatorId,
+      credential: {
+        credentialId: credentialId.toString('base64'),
+        isResidentCredential: true,
+        rpId: 'localhost',
+        privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64'),
+        userHandle: Buffer.from(mockUser.id).toString('base64'),
+        signCount: 0,
+      },
+    });
+
+    await fulfillJson(page, '**/api/auth/webauthn/login/options', {
+      success: true,
+      data: {
+        challengeId: 'challenge123',
+        options: { challenge, rpId: 'localhost', timeout: 60000, userVerification: 'required' },
+      },
+    });
+
+    let verifyBody: any;
+    await fulfillJson(
+      page,
+      '**/api/auth/webauthn/login/verify',
+      { success: true, data: { user: mockUser, accessToken: 'mock-access-token' } },
+      data => (verifyBody = data)
+    );
+
+    await page.click('text=Use a passkey');
+
+    await expect(page).toHaveURL(/.*dashboard/);
+    expect(verifyBody.challengeId).toBe('challenge123');
+    expect(verifyBody.response.id).toBe(credentialId.toString('base64url'));
+    expect(verifyBody.response.response.signature).toBeTruthy();
+  });
+
+  test('should register a passkey from the security settings', async ({ page }) => {
+    await page.goto('http://localhost:5173/login');
+    const { client, authenticatorId } = await addVirtualAuthenticator(page);
+
+    await fulfillJson(page, '**/api/auth/login', {
+      success: true,
+      data: { user: mockUser, accessToken: 'mock-access-token' },
+    });
+    await fulfillJson(page, '**/api/auth/profile', { success: true, data: { profile: mockUser } });
+    await fulfillJson(page, '**/api/auth/mfa', { success: true, data: { enabled: false, recoveryCodesRemaining: 0 } });
+    await fulfillJson(page, '**/api/auth/webauthn/credentials', { success: true, data: { credentials: [] } });
+    await fulfillJson(page, '**/api/auth/webauthn/register/options', {
+      success: true,
+      data: {
+        challengeId: 'challenge456',
+        options: {
+          challenge,
+          rp: { name: 'SmartTask AI', id: 'localhost' },
+          user: { id: Buffer.from(mockUser.id).toString('base64url'), name: mockUser.email, displayName: mockUser.name },
+          pubKeyCredParams: [{ alg: -7, type: 'public-key' }],
+          timeout: 60000,
+          attestation: 'none',
+          excludeCredentials: [],
+          authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+        },
+      },
+    });
+
+    let verifyBody: any;
+    await fulfillJson(
+      page,
+      '**/api/auth/webauthn/register/verify',
+      { success: true, message: 'Passkey registered', data: { credential: {} } },
+      data => (verifyBody = data)
+    );
+
+    await page.fill('input[type="email"]', 'test@example.com');
+    await page.fill('input[type="password"]', 'Password123!');
+    await page.click('button[type="submit"]');
+    await expect(page).toHaveURL(/.*dashboard/);
+
+    await page.goto('http://localhost:5173/settings/security');
+    await page.fill('input[placeholder="e.g. Work laptop"]', 'E2E authenticator');
+    await page.click('text=Add Passkey');
+
+    await expect(page.locator('text=Passkey added')).toBeVisible();
+    expect(verifyBody.challengeId).toBe('challenge456');
+    expect(verifyBody.name).toBe('E2E authenticator');
+    expect(verifyBody.response.response.attestationObject).toBeTruthy();
+
+    const { credentials } = await client.send('WebAuthn.getCredentials', { authenticatorId });
+    expect(credentials).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+/**
+ * Grant a role to an existing account, e.g. to create the first administrator:
+ *
+ *   node scripts/assign-role.js admin@example.com ADMIN
+ *
+ * Roles are created when the server starts. The user's next access token carries the role.
+ */
+async function assignRole() {
+  const [email, roleName = 'ADMIN'] = process.argv.slice(2);
+
+  if (!email) {
+    console.error('Usage: node scripts/assign-role.js <email> [ROLE]');
+    process.exit(1);
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+    if (!user) {
+      throw new Error(`No user with email ${email}`);
+    }
+
+    const role = await prisma.role.findUnique({ where: { name: roleName } });
+    if (!role) {
+      throw new Error(`Role ${roleName} does not exist - start the server once to create the built-in roles`);
+    }
+
+    await prisma.userRole.upsert({
+      where: { userId_roleId: { userId: user.id, roleId: role.id } },
+      create: { userId: user.id, roleId: role.id },
+      update: {},
+    });
+
+    console.log(`✅ ${user.email} now has the ${role.name} role`);
+  } catch (error) {
+    console.error('❌ Role assignment failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+assignRole();
@@ -0,0 +1,72 @@
+const fs = require('fs');
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Hash formats the server can verify; bcrypt hashes are upgraded to argon2id at first sign-in
+const SUPPORTED_HASH = /^(\$argon2(id|i|d)\$|\$2[aby]\$\d{2}\$)/;
+
+/**
+ * Create accounts for users moving over from another system, keeping their existing passwords:
+ *
+ *   node scripts/import-users.js users.json
+ *
+ * The file holds an array of { "email", "name"?, "passwordHash" } objects. Emails that already
+ * have an account are skipped. Imported users get the USER role and must verify their email.
+ */
+async function importUsers() {
+  const [file] = process.argv.slice(2);
+
+  if (!file) {
+    console.error('Usage: node scripts/import-users.js <users.json>');
+    process.exit(1);
+  }
+
+  try {
+    const users = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(users)) {
+      throw new Error('Expected an array of users');
+    }
+
+    const role = await prisma.role.findUnique({ where: { name: 'USER' } });
+    if (!role) {
+      throw new Error('Role USER does not exist - start the server once to create the built-in roles');
+    }
+
+    let imported = 0;
+    let skipped = 0;
+
+    for (const { email, name, passwordHash } of users) {
+      if (typeof email !== 'string' || typeof passwordHash !== 'string' || !SUPPORTED_HASH.test(passwordHash)) {
+        console.warn(`⚠️  Skipping ${email || '(no email)'}: missing email or unsupported password hash`);
+        skipped++;
+        continue;
+      }
+
+      const existing = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+      if (existing) {
+        skipped++;
+        continue;
+      }
+
+      await prisma.user.create({
+        data: {
+          email: email.toLowerCase(),
+          name: name || null,
+          password: passwordHash,
+          roles: { create: { roleId: role.id } },
+        },
+      });
+      imported++;
+    }
+
+    console.log(`✅ Imported ${imported} users, skipped ${skipped}`);
+  } catch (error) {
+    console.error('❌ User import failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+importUsers();
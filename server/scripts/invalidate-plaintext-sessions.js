@@ -0,0 +1,30 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+/**
+ * One-off migration for the switch to hashed refresh tokens.
+ *
+ * Sessions created before the change hold plaintext refresh tokens that cannot be
+ * looked up by hash, and the new required `refreshTokenHash` column cannot be added
+ * to a non-empty table. Run this before `prisma db push`: it deletes every stored
+ * session so users simply sign in again.
+ */
+async function invalidatePlaintextSessions() {
+  try {
+    console.log('🔧 Invalidating sessions with plaintext refresh tokens...');
+
+    await prisma.$connect();
+    const deleted = await prisma.$executeRawUnsafe('DELETE FROM sessions');
+
+    console.log(`✅ Removed ${deleted} session(s); users will need to sign in again`);
+    console.log('👉 Now run `npm run db:push` to apply the new schema');
+  } catch (error) {
+    console.error('❌ Session invalidation failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+invalidatePlaintextSessions();
@@ -0,0 +1,179 @@
+import { AccountDeletionService } from '../../modules/account/account-deletion.service';
+import { AuthError } from '../../types/auth.types';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    delete: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  userRole: {
+    count: jest.fn(),
+  },
+  organization: {
+    deleteMany: jest.fn(),
+  },
+  organizationMembership: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+// Mock MailService
+const mockMailService = {
+  sendAccountDeletionScheduled: jest.fn(),
+  sendAccountDeleted: jest.fn(),
+} as any;
+
+const user = {
+  id: 'user123',
+  email: 'test@example.com',
+  name: 'Test User',
+  deletionScheduledAt: null,
+};
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: (tx: any) => Promise<unknown>) => callback(mockPrisma));
+    // Not an administrator and owns no organizations unless a test says otherwise
+    mockPrisma.userRole.count.mockResolvedValue(0);
+    mockPrisma.organizationMembership.findMany.mockResolvedValue([]);
+    service = new AccountDeletionService(mockPrisma, mockMailService);
+  });
+
+  describe('scheduleDeletion', () => {
+    it('should schedule the deletion after the grace period and email the user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+
+      const scheduledFor = await service.scheduleDeletion('user123');
+
+      expect(scheduledFor.getTime()).toBeGreaterThan(Date.now());
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { deletionScheduledAt: scheduledFor },
+      });
+      expect(mockMailService.sendAccountDeletionScheduled).toHaveBeenCalledWith('test@example.com', scheduledFor, 'Test User');
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should keep the original date when asked again', async () => {
+      const deletionScheduledAt = new Date(Date.now() + 60000);
+      mockPrisma.user.findUnique.mockResolvedValue({ ...user, deletionScheduledAt });
+
+      await expect(service.scheduleDeletion('user123')).resolves.toBe(deletionScheduledAt);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the last administrator', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      mockPrisma.userRole.count.mockResolvedValue(1);
+
+      await expect(service.scheduleDeletion('user123')).rejects.toThrow(
+        new AuthError('LAST_ADMIN', 'At least one administrator is required')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the last owner of an organization others belong to', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      mockPrisma.organizationMembership.findMany.mockResolvedValue([
+        { organizationId: 'org123', organization: { name: 'Acme' } },
+      ]);
+      mockPrisma.organizationMembership.count
+        .mockResolvedValueOnce(1) // owners
+        .mockResolvedValueOnce(3); // members
+
+      await expect(service.scheduleDeletion('user123')).rejects.toThrow(
+        'Make someone else owner of Acme before deleting your account'
+      );
+    });
+
+    it('should allow the only member of an organization', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      mockPrisma.organizationMembership.findMany.mockResolvedValue([
+        { organizationId: 'org123', organization: { name: 'Acme' } },
+      ]);
+      mockPrisma.organizationMembership.count.mockResolvedValue(1);
+
+      await expect(service.scheduleDeletion('user123')).resolves.toEqual(expect.any(Date));
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('should clear the scheduled deletion', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.cancelDeletion('user123');
+
+      expect(mockPrisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user123', deletionScheduledAt: { not: null } },
+        data: { deletionScheduledAt: null },
+      });
+    });
+
+    it('should reject when no deletion is scheduled', async () => {
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelDeletion('user123')).rejects.toThrow(
+        new AuthError('DELETION_NOT_SCHEDULED', 'Your account is not scheduled for deletion')
+      );
+    });
+  });
+
+  describe('purgeDueAccounts', () => {
+    const now = new Date('2026-02-01T00:00:00Z');
+    const dueUser = { ...user, deletionScheduledAt: new Date('2026-01-31T00:00:00Z') };
+
+    it('should delete accounts whose grace period is over', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([dueUser]);
+
+      await expect(service.purgeDueAccounts(now)).resolves.toBe(1);
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith({
+        where: { deletionScheduledAt: { lte: now } },
+      });
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user123' } });
+      expect(mockMailService.sendAccountDeleted).toHaveBeenCalledWith('test@example.com', 'Test User');
+    });
+
+    it('should delete organizations nobody else belongs to', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([dueUser]);
+      mockPrisma.organizationMembership.findMany
+        .mockResolvedValueOnce([]) // owned organizations checked before purging
+        .mockResolvedValueOnce([
+          { organizationId: 'org1', organization: { _count: { memberships: 1 } } },
+          { organizationId: 'org2', organization: { _count: { memberships: 4 } } },
+        ]);
+
+      await service.purgeDueAccounts(now);
+
+      expect(mockPrisma.organization.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['org1'] } } });
+      expect(mockPrisma.user.delete).toHaveBeenCalled();
+    });
+
+    it('should postpone an account that can no longer be deleted', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([dueUser]);
+      mockPrisma.userRole.count.mockResolvedValue(1);
+
+      await expect(service.purgeDueAccounts(now)).resolves.toBe(0);
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it('should carry on with other accounts when one fails', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([dueUser, { ...dueUser, id: 'user456' }]);
+      mockPrisma.user.delete
+        .mockRejectedValueOnce(new Error('Database unavailable'))
+        .mockResolvedValueOnce({});
+
+      await expect(service.purgeDueAccounts(now)).resolves.toBe(1);
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user456' } });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { DataExportService } from '../../modules/account/data-export.service';
+import { AuthError } from '../../types/auth.types';
+
+// Mock Prisma
+const mockPrisma = {
+  dataExport: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  user: {
+    findUniqueOrThrow: jest.fn(),
+  },
+  session: { findMany: jest.fn() },
+  organizationMembership: { findMany: jest.fn() },
+  linkedIdentity: { findMany: jest.fn() },
+  webAuthnCredential: { findMany: jest.fn() },
+  personalAccessToken: { findMany: jest.fn() },
+  oAuthConsent: { findMany: jest.fn() },
+  knownDevice: { findMany: jest.fn() },
+} as any;
+
+// Mock AuditRepository
+const mockAuditRepository = {
+  findByUserId: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/audit.repository', () => ({
+  AuditRepository: jest.fn().mockImplementation(() => mockAuditRepository),
+}));
+
+// Mock RbacService
+const mockRbacService = {
+  getUserAuthorization: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/rbac.service', () => ({
+  RbacService: jest.fn().mockImplementation(() => mockRbacService),
+}));
+
+// Mock MailService
+const mockMailService = {
+  sendDataExportReady: jest.fn(),
+} as any;
+
+const readyExport = {
+  id: 'export123',
+  userId: 'user123',
+  status: 'READY',
+  archive: '{"profile":{}}',
+  sizeBytes: 14,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  completedAt: new Date('2026-01-01T00:01:00Z'),
+  expiresAt: new Date(Date.now() + 60000),
+};
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Claims made by the background run after requestExport find nothing to do
+    mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 0 });
+    service = new DataExportService(mockPrisma, mockMailService);
+  });
+
+  describe('requestExport', () => {
+    it('should queue an export', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(null);
+      mockPrisma.dataExport.create.mockResolvedValue({
+        id: 'export123',
+        userId: 'user123',
+        status: 'PENDING',
+        archive: null,
+        sizeBytes: null,
+        createdAt: new Date(),
+        completedAt: null,
+        expiresAt: null,
+      });
+
+      const summary = await service.requestExport('user123');
+
+      expect(mockPrisma.dataExport.create).toHaveBeenCalledWith({ data: { userId: 'user123' } });
+      expect(summary).toEqual(expect.objectContaining({ id: 'export123', status: 'PENDING', downloadUrl: null }));
+    });
+
+    it('should refuse while another export is being prepared', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue({ id: 'export122', status: 'PROCESSING' });
+
+      await expect(service.requestExport('user123')).rejects.toThrow(
+        new AuthError('EXPORT_IN_PROGRESS', 'A copy of your data is already being prepared')
+      );
+      expect(mockPrisma.dataExport.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processExport', () => {
+    beforeEach(() => {
+      mockPrisma.dataExport.findUnique.mockResolvedValue({
+        id: 'export123',
+        userId: 'user123',
+        user: { email: 'test@example.com', name: 'Test User' },
+      });
+      mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        name: 'Test User',
+        password: 'hashed-password',
+        mfaSecret: 'encrypted-secret',
+        emailVerified: null,
+        mfaEnabled: false,
+        passwordChangedAt: null,
+        deletionScheduledAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockRbacService.getUserAuthorization.mockResolvedValue({ roles: ['USER'], permissions: [] });
+      mockPrisma.session.findMany.mockResolvedValue([
+        { id: 'session123', ip: '203.0.113.7', refreshTokenHash: 'hash', isRevoked: false, createdAt: new Date() },
+      ]);
+      mockAuditRepository.findByUserId.mockResolvedValue([
+        { id: 'event1', event: 'user_login', ip: '203.0.113.7', userAgent: 'Firefox', actorId: null, details: null, createdAt: new Date() },
+      ]);
+      mockPrisma.organizationMembership.findMany.mockResolvedValue([
+        { organizationId: 'org123', role: 'OWNER', createdAt: new Date(), organization: { id: 'org123', name: 'Acme' } },
+      ]);
+      mockPrisma.linkedIdentity.findMany.mockResolvedValue([]);
+      mockPrisma.webAuthnCredential.findMany.mockResolvedValue([]);
+      mockPrisma.personalAccessToken.findMany.mockResolvedValue([
+        { name: 'CLI', hint: 'a1b2', tokenHash: 'secret-hash', scopes: 'profile:read', createdAt: new Date() },
+      ]);
+      mockPrisma.oAuthConsent.findMany.mockResolvedValue([]);
+      mockPrisma.knownDevice.findMany.mockResolvedValue([]);
+    });
+
+    it('should build the archive, mark the export ready and email the user', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.processExport('export123');
+
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: { id: 'export123', status: 'PENDING' },
+        data: { status: 'PROCESSING' },
+      });
+
+      const { data } = mockPrisma.dataExport.update.mock.calls[0][0];
+      const archive = JSON.parse(data.archive);
+      expect(data.status).toBe('READY');
+      expect(data.sizeBytes).toBe(Buffer.byteLength(data.archive));
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(archive.profile).toEqual(expect.objectContaining({ id: 'user123', email: 'test@example.com', roles: ['USER'] }));
+      expect(archive.sessions[0]).toEqual(expect.objectContaining({ id: 'session123', ip: '203.0.113.7' }));
+      expect(archive.auditHistory[0]).toEqual(expect.objectContaining({ event: 'user_login', byAdministrator: false }));
+      expect(archive.organizations).toEqual([expect.objectContaining({ name: 'Acme', role: 'OWNER' })]);
+      expect(archive.personalAccessTokens[0].scopes).toEqual(['profile:read']);
+      expect(mockMailService.sendDataExportReady).toHaveBeenCalledWith('test@example.com', data.expiresAt, 'Test User');
+    });
+
+    it('should leave secrets out of the archive', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.processExport('export123');
+
+      const { archive } = mockPrisma.dataExport.update.mock.calls[0][0].data;
+      expect(archive).not.toContain('hashed-password');
+      expect(archive).not.toContain('encrypted-secret');
+      expect(archive).not.toContain('secret-hash');
+    });
+
+    it('should do nothing when another worker claimed the export', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.processExport('export123');
+
+      expect(mockPrisma.dataExport.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the export failed when the archive cannot be built', async () => {
+      mockPrisma.dataExport.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.session.findMany.mockRejectedValue(new Error('Database unavailable'));
+
+      await service.processExport('export123');
+
+      expect(mockPrisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: 'export123' },
+        data: { status: 'FAILED', completedAt: expect.any(Date) },
+      });
+      expect(mockMailService.sendDataExportReady).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getArchive', () => {
+    it('should return a ready archive to its owner', async () => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(readyExport);
+
+      await expect(service.getArchive('user123', 'export123')).resolves.toEqual({
+        archive: readyExport.archive,
+        createdAt: readyExport.createdAt,
+      });
+      expect(mockPrisma.dataExport.findFirst).toHaveBeenCalledWith({
+        where: { id: 'export123', userId: 'user123' },
+      });
+    });
+
+    it.each([
+      ['someone else\'s', null],
+      ['unfinished', { ...readyExport, status: 'PROCESSING', archive: null }],
+      ['expired', { ...readyExport, expiresAt: new Date(Date.now() - 1000) }],
+    ])('should not return an %s export', async (_label, record) => {
+      mockPrisma.dataExport.findFirst.mockResolvedValue(record);
+
+      await expect(service.getArchive('user123', 'export123')).resolves.toBeNull();
+    });
+  });
+
+  describe('listExports', () => {
+    it('should only offer downloads for ready exports', async () => {
+      mockPrisma.dataExport.findMany.mockResolvedValue([
+        readyExport,
+        { ...readyExport, id: 'export122', expiresAt: new Date(Date.now() - 1000), archive: null },
+      ]);
+
+      const exports = await service.listExports('user123');
+
+      expect(exports[0]).toEqual(expect.objectContaining({ downloadUrl: '/api/account/exports/export123/download' }));
+      expect(exports[0]).not.toHaveProperty('archive');
+      expect(exports[1].downloadUrl).toBeNull();
+    });
+  });
+
+  describe('processPendingExports', () => {
+    it('should fail interrupted exports and drop expired archives', async () => {
+      const now = new Date('2026-01-01T12:00:00Z');
+      mockPrisma.dataExport.findMany.mockResolvedValue([]);
+
+      await service.processPendingExports(now);
+
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: { status: 'PROCESSING', createdAt: { lt: new Date('2026-01-01T11:00:00Z') } },
+        data: { status: 'FAILED', completedAt: now },
+      });
+      expect(mockPrisma.dataExport.updateMany).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: now }, archive: { not: null } },
+        data: { archive: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { AdminUserService } from '../../modules/auth/admin-user.service';
+import { AuthError } from '../../types/auth.types';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+  },
+  userRole: {
+    findMany: jest.fn(),
+  },
+  impersonation: {
+    updateMany: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+// Mock SessionRepository
+const mockSessionRepository = {
+  findActiveSessionsByUserId: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeAllSessionsByUserId: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/session.repository', () => ({
+  SessionRepository: jest.fn().mockImplementation(() => mockSessionRepository),
+}));
+
+// Mock AuditRepository
+const mockAuditRepository = {
+  findByUserId: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/audit.repository', () => ({
+  AuditRepository: jest.fn().mockImplementation(() => mockAuditRepository),
+}));
+
+// Mock AuthService
+const mockAuthService = {
+  requestPasswordReset: jest.fn(),
+  createImpersonationToken: jest.fn(),
+} as any;
+
+describe('AdminUserService', () => {
+  let adminUserService: AdminUserService;
+
+  const mockUser = {
+    id: 'user123',
+    email: 'test@example.com',
+    name: 'Test User',
+    isActive: true,
+    isLocked: false,
+    lockedUntil: null,
+    passwordResetRequired: false,
+    emailVerified: null,
+    mfaEnabled: false,
+    createdAt: new Date(),
+    roles: [{ role: { name: 'USER' } }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg: any) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    adminUserService = new AdminUserService(mockPrisma, mockAuthService);
+  });
+
+  describe('listUsers', () => {
+    it('should search by email or name and paginate', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([mockUser]);
+      mockPrisma.user.count.mockResolvedValue(21);
+
+      const result = await adminUserService.listUsers({ search: 'Test', page: 2, pageSize: 20 });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [{ OR: [{ email: { contains: 'test' } }, { name: { contains: 'Test' } }] }],
+          },
+          skip: 20,
+          take: 20,
+        })
+      );
+      expect(result).toEqual({
+        items: [expect.objectContaining({ id: 'user123', roles: ['USER'] })],
+        total: 21,
+        page: 2,
+        pageSize: 20,
+      });
+    });
+
+    it('should filter locked accounts, including administrator locks', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+      mockPrisma.user.count.mockResolvedValue(0);
+
+      await adminUserService.listUsers({ status: 'locked', page: 1, pageSize: 20 });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { isLocked: true },
+              { OR: [{ lockedUntil: null }, { lockedUntil: { gt: expect.any(Date) } }] },
+            ],
+          },
+        })
+      );
+    });
+  });
+
+  describe('lockUser', () => {
+    it('should lock until unlocked and sign the user out', async () => {
+      await adminUserService.lockUser('user123', 'admin123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { isLocked: true, lockedUntil: null },
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+
+    it('should not let administrators lock themselves out', async () => {
+      await expect(adminUserService.lockUser('admin123', 'admin123')).rejects.toThrow(
+        new AuthError('CANNOT_MODIFY_SELF', 'You cannot perform this action on your own account')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(adminUserService.lockUser('missing', 'admin123')).rejects.toThrow(
+        new AuthError('USER_NOT_FOUND', 'User not found')
+      );
+    });
+  });
+
+  describe('unlockUser', () => {
+    it('should clear the lock and failed attempts', async () => {
+      await adminUserService.unlockUser('user123', 'admin123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { isLocked: false, lockedUntil: null, failedLoginAttempts: 0 },
+      });
+    });
+  });
+
+  describe('deactivateUser', () => {
+    it('should deactivate the account and revoke its sessions', async () => {
+      await adminUserService.deactivateUser('user123', 'admin123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { isActive: false },
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('should require a reset, revoke sessions and send a reset email', async () => {
+      await adminUserService.forcePasswordReset('user123', 'admin123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { passwordResetRequired: true },
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+      expect(mockAuthService.requestPasswordReset).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('should reject deactivated accounts', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, isActive: false });
+
+      await expect(adminUserService.forcePasswordReset('user123', 'admin123')).rejects.toThrow(
+        new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated')
+      );
+      expect(mockAuthService.requestPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSessions', () => {
+    it('should revoke a single session belonging to the user', async () => {
+      mockSessionRepository.revokeSession.mockResolvedValue(true);
+
+      await expect(adminUserService.revokeSessions('user123', 'admin123', 'session123')).resolves.toBe(1);
+      expect(mockSessionRepository.revokeSession).toHaveBeenCalledWith('session123', 'user123');
+    });
+
+    it('should report sessions that do not belong to the user', async () => {
+      mockSessionRepository.revokeSession.mockResolvedValue(false);
+
+      await expect(adminUserService.revokeSessions('user123', 'admin123', 'other')).rejects.toThrow(
+        new AuthError('SESSION_NOT_FOUND', 'Session not found')
+      );
+    });
+
+    it('should revoke every session when no id is given', async () => {
+      mockSessionRepository.revokeAllSessionsByUserId.mockResolvedValue(3);
+
+      await expect(adminUserService.revokeSessions('user123', 'admin123')).resolves.toBe(3);
+    });
+  });
+
+  describe('startImpersonation', () => {
+    const userRole = { role: { name: 'USER', permissions: '' } };
+
+    beforeEach(() => {
+      mockPrisma.userRole.findMany.mockResolvedValue([userRole]);
+      mockPrisma.impersonation.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'imp123', endedAt: null, createdAt: new Date(), ...data })
+      );
+      mockAuthService.createImpersonationToken.mockResolvedValue({
+        accessToken: 'impersonation-token',
+        user: { id: 'user123', email: 'test@example.com' },
+      });
+    });
+
+    it('should issue a time-limited token for the user, ending any earlier impersonation', async () => {
+      const before = Date.now();
+
+      const result = await adminUserService.startImpersonation('user123', 'admin123', 'Ticket 42');
+
+      expect(mockPrisma.impersonation.updateMany).toHaveBeenCalledWith({
+        where: { actorId: 'admin123', endedAt: null },
+        data: { endedAt: expect.any(Date) },
+      });
+      const { data } = mockPrisma.impersonation.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({ actorId: 'admin123', targetUserId: 'user123', reason: 'Ticket 42' }));
+      expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+      expect(mockAuthService.createImpersonationToken).toHaveBeenCalledWith(
+        mockUser,
+        expect.objectContaining({ id: 'imp123', actorId: 'admin123' })
+      );
+      expect(result).toEqual({
+        accessToken: 'impersonation-token',
+        user: { id: 'user123', email: 'test@example.com' },
+        impersonation: {
+          id: 'imp123',
+          actorId: 'admin123',
+          targetUserId: 'user123',
+          reason: 'Ticket 42',
+          expiresAt: data.expiresAt,
+        },
+      });
+    });
+
+    it('should not let administrators impersonate themselves', async () => {
+      await expect(adminUserService.startImpersonation('admin123', 'admin123', 'Testing')).rejects.toThrow(
+        new AuthError('CANNOT_MODIFY_SELF', 'You cannot perform this action on your own account')
+      );
+      expect(mockPrisma.impersonation.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse accounts holding administrative permissions', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        { role: { name: 'ADMIN', permissions: 'users:read' } },
+      ]);
+
+      await expect(adminUserService.startImpersonation('user123', 'admin123', 'Ticket 42')).rejects.toThrow(
+        new AuthError('CANNOT_IMPERSONATE_ADMIN', 'Accounts with administrative permissions cannot be impersonated')
+      );
+      expect(mockPrisma.impersonation.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse locked accounts', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, isLocked: true });
+
+      await expect(adminUserService.startImpersonation('user123', 'admin123', 'Ticket 42')).rejects.toThrow(
+        new AuthError('USER_INVALID', 'Locked or deactivated accounts cannot be impersonated')
+      );
+    });
+  });
+
+  describe('getUserAuditHistory', () => {
+    it('should return the most recent events for the user', async () => {
+      mockAuditRepository.findByUserId.mockResolvedValue([{ id: 'event1', event: 'user_login' }]);
+
+      await expect(adminUserService.getUserAuditHistory('user123', 50)).resolves.toEqual([
+        { id: 'event1', event: 'user_login' },
+      ]);
+      expect(mockAuditRepository.findByUserId).toHaveBeenCalledWith('user123', 50);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { AuditService } from '../../modules/auth/audit.service';
+
+// Mock Prisma
+const mockPrisma = {
+  auditEvent: {
+    findMany: jest.fn(),
+    count: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+describe('AuditService', () => {
+  let auditService: AuditService;
+
+  const storedEvent = {
+    id: 'event1',
+    event: 'account_locked',
+    userId: 'user123',
+    ip: '203.0.113.7',
+    userAgent: 'test-agent',
+    requestId: 'req-1',
+    details: JSON.stringify({ reason: 'admin', actorId: 'admin123' }),
+    createdAt: new Date('2024-01-02T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg: any) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.auditEvent.findMany.mockResolvedValue([storedEvent]);
+    mockPrisma.auditEvent.count.mockResolvedValue(1);
+    auditService = new AuditService(mockPrisma, 90);
+  });
+
+  describe('queryEvents', () => {
+    it('should combine filters and paginate', async () => {
+      const from = new Date('2024-01-01T00:00:00.000Z');
+      const to = new Date('2024-01-08T00:00:00.000Z');
+
+      const result = await auditService.queryEvents({
+        event: 'user_login',
+        ip: '203.0.113.7',
+        from,
+        to,
+        page: 3,
+        pageSize: 10,
+      });
+
+      expect(mockPrisma.auditEvent.findMany).toHaveBeenCalledWith({
+        where: { event: 'user_login', ip: '203.0.113.7', createdAt: { gte: from, lte: to } },
+        orderBy: { createdAt: 'desc' },
+        skip: 20,
+        take: 10,
+      });
+      expect(result.total).toBe(1);
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({ requestId: 'req-1', details: { reason: 'admin', actorId: 'admin123' } })
+      );
+    });
+  });
+
+  describe('getUserActivity', () => {
+    it('should return only the user\'s events without internal details', async () => {
+      const result = await auditService.getUserActivity('user123', 1, 20);
+
+      expect(mockPrisma.auditEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user123', event: { notIn: ['token_refreshed', 'login_risk_assessed', 'impersonated_request'] } } })
+      );
+      expect(result.items).toEqual([
+        {
+          id: 'event1',
+          event: 'account_locked',
+          ip: '203.0.113.7',
+          userAgent: 'test-agent',
+          createdAt: storedEvent.createdAt,
+        },
+      ]);
+    });
+  });
+
+  describe('pruneExpiredEvents', () => {
+    it('should delete events older than the retention period', async () => {
+      mockPrisma.auditEvent.deleteMany.mockResolvedValue({ count: 4 });
+      const now = new Date('2024-04-01T00:00:00.000Z');
+
+      await expect(auditService.pruneExpiredEvents(now)).resolves.toBe(4);
+      expect(mockPrisma.auditEvent.deleteMany).toHaveBeenCalledWith({
+        where: { createdAt: { lt: new Date('2024-01-02T00:00:00.000Z') } },
+      });
+    });
+
+    it('should keep everything when retention is disabled', async () => {
+      auditService = new AuditService(mockPrisma, 0);
+
+      await expect(auditService.pruneExpiredEvents()).resolves.toBe(0);
+      expect(mockPrisma.auditEvent.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
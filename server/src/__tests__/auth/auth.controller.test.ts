@@ -15,6 +15,12 @@ const mockAuthService = {
   getUserSessions: jest.fn(),
   revokeSession: jest.fn(),
   revokeAllSessions: jest.fn(),
+  verifyEmail: jest.fn(),
+  resendVerificationEmail: jest.fn(),
+  requestPasswordReset: jest.fn(),
+  resetPassword: jest.fn(),
+  completeMfaLogin: jest.fn(),
+  loginWithPasskey: jest.fn(),
 } as any;
 
 // Mock Response object
@@ -67,11 +73,12 @@ describe('AuthController', () => {
       };
 
       mockReq.body = userData;
+      (mockReq.get as jest.Mock).mockReturnValue('test-agent');
       mockAuthService.register.mockResolvedValue(mockResult);
 
       await authController.register(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockAuthService.register).toHaveBeenCalledWith(userData);
+      expect(mockAuthService.register).toHaveBeenCalledWith(userData, '127.0.0.1', 'test-agent');
       expect(mockRes.cookie).toHaveBeenCalledWith('refreshToken', 'refresh123', expect.any(Object));
       expect(mockRes.status).toHaveBeenCalledWith(201);
       expect(mockRes.json).toHaveBeenCalledWith({
@@ -143,21 +150,99 @@ describe('AuthController', () => {
 
       expect(mockNext).toHaveBeenCalledWith(error);
     });
+
+    it('should return an MFA challenge without setting a cookie', async () => {
+      mockReq.body = { email: 'test@example.com', password: 'SecurePass123!' };
+      mockAuthService.login.mockResolvedValue({ mfaRequired: true, mfaToken: 'challenge123' });
+
+      await authController.login(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.cookie).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { mfaRequired: true, mfaToken: 'challenge123' },
+      });
+    });
+  });
+
+  describe('loginMfa', () => {
+    it('should complete the login and set the refresh cookie', async () => {
+      const mockResult = {
+        user: { id: 'user123', email: 'test@example.com' },
+        accessToken: 'access123',
+        refreshToken: 'refresh123',
+      };
+
+      mockReq.body = { mfaToken: 'challenge123', code: '123456' };
+      (mockReq.get as jest.Mock).mockReturnValue('test-agent');
+      mockAuthService.completeMfaLogin.mockResolvedValue(mockResult);
+
+      await authController.loginMfa(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.completeMfaLogin).toHaveBeenCalledWith(
+        'challenge123',
+        { code: '123456', recoveryCode: undefined },
+        '127.0.0.1',
+        'test-agent'
+      );
+      expect(mockRes.cookie).toHaveBeenCalledWith('refreshToken', 'refresh123', expect.any(Object));
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { user: mockResult.user, accessToken: 'access123' },
+      });
+    });
+
+    it('should pass second factor errors to next', async () => {
+      const error = new AuthError('INVALID_MFA_CODE', 'Invalid authentication code');
+      mockReq.body = { mfaToken: 'challenge123', code: '000000' };
+      mockAuthService.completeMfaLogin.mockRejectedValue(error);
+
+      await authController.loginMfa(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    it('should complete the login and set the refresh cookie', async () => {
+      const mockResult = {
+        user: { id: 'user123', email: 'test@example.com' },
+        accessToken: 'access123',
+        refreshToken: 'refresh123',
+      };
+      const response = { id: 'credential123' };
+
+      mockReq.body = { challengeId: 'challenge123', response };
+      (mockReq.get as jest.Mock).mockReturnValue('test-agent');
+      mockAuthService.loginWithPasskey.mockResolvedValue(mockResult);
+
+      await authController.loginWithPasskey(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.loginWithPasskey).toHaveBeenCalledWith('challenge123', response, '127.0.0.1', 'test-agent');
+      expect(mockRes.cookie).toHaveBeenCalledWith('refreshToken', 'refresh123', expect.any(Object));
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        data: { user: mockResult.user, accessToken: 'access123' },
+      });
+    });
   });
 
   describe('refreshToken', () => {
-    it('should refresh token successfully', async () => {
-      const mockResult = { accessToken: 'newAccess123' };
+    it('should refresh token successfully and set the rotated cookie', async () => {
+      const mockResult = { accessToken: 'newAccess123', refreshToken: 'refresh456' };
       mockReq.cookies = { refreshToken: 'refresh123' };
+      (mockReq.get as jest.Mock).mockReturnValue('test-agent');
       mockAuthService.refreshToken.mockResolvedValue(mockResult);
 
       await authController.refreshToken(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockAuthService.refreshToken).toHaveBeenCalledWith('refresh123');
+      expect(mockAuthService.refreshToken).toHaveBeenCalledWith('refresh123', '127.0.0.1', 'test-agent');
+      expect(mockRes.cookie).toHaveBeenCalledWith('refreshToken', 'refresh456', expect.any(Object));
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
-        data: mockResult,
+        data: { accessToken: 'newAccess123' },
       });
     });
 
@@ -213,6 +298,88 @@ describe('AuthController', () => {
     });
   });
 
+  describe('verifyEmail', () => {
+    it('should verify email successfully', async () => {
+      mockReq.body = { token: 'token123' };
+      mockAuthService.verifyEmail.mockResolvedValue(undefined);
+
+      await authController.verifyEmail(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.verifyEmail).toHaveBeenCalledWith('token123');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'Email verified successfully',
+      });
+    });
+
+    it('should handle invalid verification tokens', async () => {
+      mockReq.body = { token: 'expired' };
+      const error = new AuthError('INVALID_VERIFICATION_TOKEN', 'Verification link is invalid or has expired');
+      mockAuthService.verifyEmail.mockRejectedValue(error);
+
+      await authController.verifyEmail(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should respond the same way regardless of account existence', async () => {
+      mockReq.body = { email: 'unknown@example.com' };
+      mockAuthService.resendVerificationEmail.mockResolvedValue(undefined);
+
+      await authController.resendVerification(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.resendVerificationEmail).toHaveBeenCalledWith('unknown@example.com');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'If an unverified account exists for this email, a new verification link has been sent.',
+      });
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('should respond the same way regardless of account existence', async () => {
+      mockReq.body = { email: 'unknown@example.com' };
+      (mockReq.get as jest.Mock).mockReturnValue('test-agent');
+      mockAuthService.requestPasswordReset.mockResolvedValue(undefined);
+
+      await authController.forgotPassword(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.requestPasswordReset).toHaveBeenCalledWith('unknown@example.com', '127.0.0.1', 'test-agent');
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent.',
+      });
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reset password and clear the refresh token cookie', async () => {
+      mockReq.body = { token: 'token123', newPassword: 'NewPassword123!' };
+      mockAuthService.resetPassword.mockResolvedValue(undefined);
+
+      await authController.resetPassword(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.resetPassword).toHaveBeenCalledWith('token123', 'NewPassword123!', '127.0.0.1', undefined);
+      expect(mockRes.clearCookie).toHaveBeenCalledWith('refreshToken', expect.any(Object));
+      expect(mockRes.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should handle invalid reset tokens', async () => {
+      mockReq.body = { token: 'expired', newPassword: 'NewPassword123!' };
+      const error = new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired');
+      mockAuthService.resetPassword.mockRejectedValue(error);
+
+      await authController.resetPassword(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+    });
+  });
+
   describe('getProfile', () => {
     it('should return user profile', async () => {
       const mockProfile = {
@@ -277,7 +444,7 @@ describe('AuthController', () => {
 
       await authController.updateProfile(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockAuthService.updateUserProfile).toHaveBeenCalledWith('user123', updateData);
+      expect(mockAuthService.updateUserProfile).toHaveBeenCalledWith('user123', updateData, undefined);
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -285,6 +452,26 @@ describe('AuthController', () => {
       });
     });
 
+    it('should report a new email as waiting for confirmation', async () => {
+      const pendingEmailChange = { email: 'new@example.com', expiresAt: new Date() };
+      (mockReq as any).user = { userId: 'user123', email: 'test@example.com', sessionId: 'session123' };
+      mockReq.body = { name: 'Test User', email: 'new@example.com' };
+      mockAuthService.updateUserProfile.mockResolvedValue(pendingEmailChange);
+
+      await authController.updateProfile(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockAuthService.updateUserProfile).toHaveBeenCalledWith(
+        'user123',
+        { name: 'Test User', email: 'new@example.com' },
+        'session123'
+      );
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'Profile updated. Open the link we sent to new@example.com to start using it.',
+        data: { pendingEmailChange },
+      });
+    });
+
     it('should handle unauthorized access', async () => {
       (mockReq as any).user = undefined;
 
@@ -328,12 +515,12 @@ describe('AuthController', () => {
         { id: 'session2', createdAt: new Date(), expiresAt: new Date(), isRevoked: false },
       ];
 
-      (mockReq as any).user = { userId: 'user123', email: 'test@example.com' };
+      (mockReq as any).user = { userId: 'user123', email: 'test@example.com', sessionId: 'session1' };
       mockAuthService.getUserSessions.mockResolvedValue(mockSessions);
 
       await authController.getUserSessions(mockReq as Request, mockRes as Response, mockNext);
 
-      expect(mockAuthService.getUserSessions).toHaveBeenCalledWith('user123');
+      expect(mockAuthService.getUserSessions).toHaveBeenCalledWith('user123', 'session1');
       expect(mockRes.status).toHaveBeenCalledWith(200);
       expect(mockRes.json).toHaveBeenCalledWith({
         success: true,
@@ -1,5 +1,5 @@
 import { AuthService } from '../../modules/auth/auth.service';
-import { AuthError } from '../../types/auth.types';
+import { AuthError, AuthResponse } from '../../types/auth.types';
 
 // Mock Prisma for integration tests
 const mockPrisma = {
@@ -14,13 +14,18 @@ const mockPrisma = {
     updateMany: jest.fn(),
     deleteMany: jest.fn(),
   },
+  emailChange: {
+    findFirst: jest.fn(),
+  },
 } as any;
 
 // Mock SessionRepository
 const mockSessionRepository = {
   createSession: jest.fn(),
   findByRefreshToken: jest.fn(),
+  rotateSession: jest.fn(),
   revokeSession: jest.fn(),
+  revokeSessionFamily: jest.fn(),
   revokeAllSessionsByUserId: jest.fn(),
   findActiveSessionsByUserId: jest.fn(),
 } as any;
@@ -29,6 +34,17 @@ jest.mock('../../modules/auth/session.repository', () => ({
   SessionRepository: jest.fn().mockImplementation(() => mockSessionRepository),
 }));
 
+// Mock EmailVerificationService
+const mockEmailVerificationService = {
+  sendVerification: jest.fn(),
+  verifyEmail: jest.fn(),
+  resendVerification: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/email-verification.service', () => ({
+  EmailVerificationService: jest.fn().mockImplementation(() => mockEmailVerificationService),
+}));
+
 // Mock argon2
 jest.mock('argon2', () => ({
   hash: jest.fn(),
@@ -36,12 +52,68 @@ jest.mock('argon2', () => ({
   argon2id: 'argon2id',
 }));
 
+// Mock RbacService
+const mockRbacService = {
+  getUserAuthorization: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/rbac.service', () => ({
+  ...jest.requireActual('../../modules/auth/rbac.service'),
+  RbacService: jest.fn().mockImplementation(() => mockRbacService),
+}));
+
+// Mock LoginRiskService
+const mockLoginRiskService = {
+  assess: jest.fn(),
+  recordLogin: jest.fn(),
+  notifyBlockedLogin: jest.fn(),
+  describeSignIn: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/login-risk.service', () => ({
+  LoginRiskService: jest.fn().mockImplementation(() => mockLoginRiskService),
+}));
+
+// Mock LoginVerificationService
+const mockLoginVerificationService = {
+  issue: jest.fn(),
+  verify: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/login-verification.service', () => ({
+  LoginVerificationService: jest.fn().mockImplementation(() => mockLoginVerificationService),
+}));
+
+// Mock PasswordPolicyService
+const mockPasswordPolicyService = {
+  assertAcceptable: jest.fn(),
+  recordPassword: jest.fn(),
+  isExpired: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/password-policy.service', () => ({
+  ...jest.requireActual('../../modules/auth/password-policy.service'),
+  PasswordPolicyService: jest.fn().mockImplementation(() => mockPasswordPolicyService),
+}));
+
+// Mock OrganizationService
+const mockOrganizationService = {
+  getActiveMembership: jest.fn(),
+  setActiveOrganization: jest.fn(),
+} as any;
+
+jest.mock('../../modules/organization/organization.service', () => ({
+  OrganizationService: jest.fn().mockImplementation(() => mockOrganizationService),
+}));
+
 describe('Auth Integration Tests', () => {
   let authService: AuthService;
 
   beforeEach(async () => {
     // Reset mocks before each test
     jest.clearAllMocks();
+    mockRbacService.getUserAuthorization.mockResolvedValue({ roles: ['USER'], permissions: [] });
+    mockLoginRiskService.assess.mockResolvedValue({ decision: 'allow', score: 0, signals: [] });
     authService = new AuthService(mockPrisma as any);
   });
 
@@ -70,6 +142,7 @@ describe('Auth Integration Tests', () => {
       mockPrisma.user.create.mockResolvedValue(mockUser);
       mockSessionRepository.createSession.mockResolvedValue({ 
         id: 'session123',
+        authenticatedAt: new Date(),
         refreshToken: 'refresh123'
       });
 
@@ -86,7 +159,9 @@ describe('Auth Integration Tests', () => {
         data: {
           email: userData.email.toLowerCase(),
           password: hashedPassword,
+          passwordChangedAt: expect.any(Date),
           name: userData.name,
+          roles: { create: { role: { connect: { name: 'USER' } } } },
         },
       });
     });
@@ -129,13 +204,14 @@ describe('Auth Integration Tests', () => {
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
       mockSessionRepository.createSession.mockResolvedValue({ 
         id: 'session123',
+        authenticatedAt: new Date(),
         refreshToken: 'refresh123'
       });
 
       const { verify } = require('argon2');
       verify.mockResolvedValue(true);
 
-      const result = await authService.login(loginData, '127.0.0.1', 'test-agent');
+      const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
 
       expect(result.user.email).toBe(loginData.email);
       expect(result.accessToken).toBeDefined();
@@ -176,7 +252,7 @@ describe('Auth Integration Tests', () => {
       const mockSession = {
         id: 'session123',
         userId: 'user123',
-        refreshToken: 'refresh123',
+        refreshTokenHash: 'hash123',
         isRevoked: false,
         expiresAt: new Date(Date.now() + 86400000), // 24 hours from now
         createdAt: new Date(),
@@ -191,11 +267,13 @@ describe('Auth Integration Tests', () => {
       };
 
       mockSessionRepository.findByRefreshToken.mockResolvedValue(mockSession);
+      mockSessionRepository.rotateSession.mockResolvedValue({ id: 'session456', authenticatedAt: new Date(), refreshToken: 'refresh456' });
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
 
       const result = await authService.refreshToken('refresh123');
 
       expect(result.accessToken).toBeDefined();
+      expect(result.refreshToken).toBe('refresh456');
     });
 
     it('should reject refresh with invalid token', async () => {
@@ -242,7 +320,7 @@ describe('Auth Integration Tests', () => {
 
       expect(mockPrisma.user.update).toHaveBeenCalledWith({
         where: { id: 'user123' },
-        data: { password: 'newHashedPassword' },
+        data: { password: 'newHashedPassword', passwordChangedAt: expect.any(Date) },
       });
       expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
     });
@@ -262,7 +340,7 @@ describe('Auth Integration Tests', () => {
 
       const result = await authService.getUserProfile('user123');
 
-      expect(result).toEqual(mockProfile);
+      expect(result).toEqual({ ...mockProfile, roles: ['USER'], permissions: [], pendingEmailChange: null, deletionScheduledAt: null });
     });
 
     it('should update user profile successfully', async () => {
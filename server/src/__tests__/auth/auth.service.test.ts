@@ -1,6 +1,9 @@
 
 import { AuthService } from '../../modules/auth/auth.service';
-import { AuthError } from '../../types/auth.types';
+import { PasswordHasherService } from '../../modules/auth/password-hasher.service';
+import { AuthError, AuthResponse } from '../../types/auth.types';
+import { authConfig } from '../../config/auth.config';
+import { hashToken } from '../../utils/tokens';
 
 // Mock argon2 module
 jest.mock('argon2', () => ({
@@ -18,26 +21,183 @@ const mockPrisma = {
     create: jest.fn(),
     update: jest.fn(),
   },
+  passwordResetToken: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  impersonation: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
 } as any;
 
 // Mock SessionRepository
 const mockSessionRepository = {
   createSession: jest.fn(),
   findByRefreshToken: jest.fn(),
+  rotateSession: jest.fn(),
   revokeSession: jest.fn(),
+  revokeSessionFamily: jest.fn(),
   revokeAllSessionsByUserId: jest.fn(),
+  revokeOtherSessions: jest.fn(),
   findActiveSessionsByUserId: jest.fn(),
+  findById: jest.fn(),
+  markAuthenticated: jest.fn(),
 } as any;
 
 jest.mock('../../modules/auth/session.repository', () => ({
   SessionRepository: jest.fn().mockImplementation(() => mockSessionRepository),
 }));
 
+// Mock EmailVerificationService
+const mockEmailVerificationService = {
+  sendVerification: jest.fn(),
+  verifyEmail: jest.fn(),
+  resendVerification: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/email-verification.service', () => ({
+  EmailVerificationService: jest.fn().mockImplementation(() => mockEmailVerificationService),
+}));
+
+// Mock EmailChangeService
+const mockEmailChangeService = {
+  getPending: jest.fn(),
+  requestChange: jest.fn(),
+  confirmChange: jest.fn(),
+  cancelChange: jest.fn(),
+  cancelPending: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/email-change.service', () => ({
+  EmailChangeService: jest.fn().mockImplementation(() => mockEmailChangeService),
+}));
+
+// Mock MailService
+const mockMailService = {
+  sendPasswordReset: jest.fn(),
+} as any;
+
+jest.mock('../../modules/mail/mail.service', () => ({
+  MailService: jest.fn().mockImplementation(() => mockMailService),
+}));
+
+// Mock MfaService
+const mockMfaService = {
+  verifySecondFactor: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/mfa.service', () => ({
+  MfaService: jest.fn().mockImplementation(() => mockMfaService),
+}));
+
+// Mock WebAuthnService
+const mockWebAuthnService = {
+  verifyAuthentication: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/webauthn.service', () => ({
+  WebAuthnService: jest.fn().mockImplementation(() => mockWebAuthnService),
+}));
+
+// Mock RbacService
+const mockRbacService = {
+  getUserAuthorization: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/rbac.service', () => ({
+  ...jest.requireActual('../../modules/auth/rbac.service'),
+  RbacService: jest.fn().mockImplementation(() => mockRbacService),
+}));
+
+// Mock LoginRiskService
+const mockLoginRiskService = {
+  assess: jest.fn(),
+  recordLogin: jest.fn(),
+  notifyBlockedLogin: jest.fn(),
+  describeSignIn: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/login-risk.service', () => ({
+  LoginRiskService: jest.fn().mockImplementation(() => mockLoginRiskService),
+}));
+
+// Mock LoginVerificationService
+const mockLoginVerificationService = {
+  issue: jest.fn(),
+  verify: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/login-verification.service', () => ({
+  LoginVerificationService: jest.fn().mockImplementation(() => mockLoginVerificationService),
+}));
+
+// Mock OidcService
+const mockOidcService = {
+  completeAuthorization: jest.fn(),
+  findOrCreateUser: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/oidc.service', () => ({
+  OidcService: jest.fn().mockImplementation(() => mockOidcService),
+}));
+
+// Mock MagicLinkService
+const mockMagicLinkService = {
+  createBrowserToken: jest.fn(),
+  issue: jest.fn(),
+  consume: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/magic-link.service', () => ({
+  MagicLinkService: jest.fn().mockImplementation(() => mockMagicLinkService),
+}));
+
+// Mock SamlService
+const mockSamlService = {
+  completeSignIn: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/saml.service', () => ({
+  SamlService: jest.fn().mockImplementation(() => mockSamlService),
+}));
+
+// Mock PasswordPolicyService
+const mockPasswordPolicyService = {
+  assertAcceptable: jest.fn(),
+  recordPassword: jest.fn(),
+  isExpired: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/password-policy.service', () => ({
+  ...jest.requireActual('../../modules/auth/password-policy.service'),
+  PasswordPolicyService: jest.fn().mockImplementation(() => mockPasswordPolicyService),
+}));
+
+// Mock OrganizationService
+const mockOrganizationService = {
+  getActiveMembership: jest.fn(),
+  setActiveOrganization: jest.fn(),
+} as any;
+
+jest.mock('../../modules/organization/organization.service', () => ({
+  OrganizationService: jest.fn().mockImplementation(() => mockOrganizationService),
+}));
+
 describe('AuthService', () => {
   let authService: AuthService;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockRbacService.getUserAuthorization.mockResolvedValue({ roles: ['USER'], permissions: [] });
+    mockLoginRiskService.assess.mockResolvedValue({ decision: 'allow', score: 0, signals: [] });
+    mockPasswordPolicyService.assertAcceptable.mockResolvedValue(undefined);
+    mockPasswordPolicyService.isExpired.mockReturnValue(false);
+    mockOrganizationService.getActiveMembership.mockResolvedValue(null);
+    jest.spyOn(PasswordHasherService.prototype, 'needsRehash').mockReturnValue(false);
     authService = new AuthService(mockPrisma as any);
   });
 
@@ -64,7 +224,7 @@ describe('AuthService', () => {
 
       mockPrisma.user.findUnique.mockResolvedValue(null);
       mockPrisma.user.create.mockResolvedValue(mockUser);
-      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123' });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
 
       // Mock argon2.hash
       jest.spyOn(argon2, 'hash').mockResolvedValue(hashedPassword as never);
@@ -78,9 +238,36 @@ describe('AuthService', () => {
         data: {
           email: validUserData.email.toLowerCase(),
           password: hashedPassword,
+          passwordChangedAt: expect.any(Date),
           name: validUserData.name,
+          roles: { create: { role: { connect: { name: 'USER' } } } },
         },
       });
+      expect(result.user.roles).toEqual(['USER']);
+    });
+
+    it('should send a verification email after registration', async () => {
+      const mockUser = { id: 'user123', email: 'test@example.com', name: 'Test User' };
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'hash').mockResolvedValue('hashedPassword123' as never);
+
+      await authService.register(validUserData);
+
+      expect(mockEmailVerificationService.sendVerification).toHaveBeenCalledWith(mockUser);
+    });
+
+    it('should still register when the verification email fails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({ id: 'user123', email: 'test@example.com', name: null });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      mockEmailVerificationService.sendVerification.mockRejectedValue(new Error('SMTP down'));
+      jest.spyOn(argon2, 'hash').mockResolvedValue('hashedPassword123' as never);
+
+      const result = await authService.register(validUserData);
+
+      expect(result.user.id).toBe('user123');
     });
 
     it('should throw error if user already exists', async () => {
@@ -122,14 +309,55 @@ describe('AuthService', () => {
 
     it('should login user successfully with valid credentials', async () => {
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
-      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123' });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
       jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
 
-      const result = await authService.login(loginData, '127.0.0.1', 'test-agent');
+      const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
 
       expect(result.user.email).toBe(loginData.email);
       expect(result.accessToken).toBeDefined();
-      expect(mockSessionRepository.createSession).toHaveBeenCalledWith(mockUser.id, expect.any(Date));
+      expect(mockSessionRepository.createSession).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.any(Date),
+        expect.objectContaining({ ip: '127.0.0.1', userAgent: 'test-agent' })
+      );
+    });
+
+    it('should upgrade an outdated password hash after a successful login', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      jest.spyOn(argon2, 'hash').mockResolvedValue('upgradedHash' as never);
+      jest.spyOn(PasswordHasherService.prototype, 'needsRehash').mockReturnValue(true);
+
+      await authService.login(loginData, '127.0.0.1', 'test-agent');
+
+      expect(argon2.hash).toHaveBeenCalledWith(loginData.password, expect.objectContaining({ type: argon2.argon2id }));
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { password: 'upgradedHash' },
+      });
+    });
+
+    it('should still sign in when the hash upgrade fails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      jest.spyOn(argon2, 'hash').mockRejectedValueOnce(new Error('Out of memory') as never);
+      jest.spyOn(PasswordHasherService.prototype, 'needsRehash').mockReturnValue(true);
+
+      const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
+
+      expect(result.accessToken).toBeDefined();
+    });
+
+    it('should not touch the hash when the password is wrong', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      jest.spyOn(argon2, 'verify').mockResolvedValue(false as never);
+      jest.spyOn(PasswordHasherService.prototype, 'needsRehash').mockReturnValue(true);
+
+      await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(AuthError);
+      expect(argon2.hash).not.toHaveBeenCalled();
     });
 
     it('should throw error for invalid credentials', async () => {
@@ -163,6 +391,15 @@ describe('AuthService', () => {
       );
     });
 
+    it('should keep administrator locks without an end time', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, isLocked: true, lockedUntil: null });
+
+      await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(
+        new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
     it('should throw error if account is inactive', async () => {
       const inactiveUser = { ...mockUser, isActive: false };
       mockPrisma.user.findUnique.mockResolvedValue(inactiveUser);
@@ -172,6 +409,58 @@ describe('AuthService', () => {
       );
     });
 
+    it('should refuse password sign-in while a reset is required', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, passwordResetRequired: true });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(
+        new AuthError('PASSWORD_RESET_REQUIRED', 'Please reset your password before signing in')
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse password sign-in once the password has expired', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockPasswordPolicyService.isExpired.mockReturnValue(true);
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(
+        new AuthError('PASSWORD_EXPIRED', 'Your password has expired. Use "Forgot password" to choose a new one.')
+      );
+      expect(mockPasswordPolicyService.isExpired).toHaveBeenCalledWith(mockUser);
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    describe('when email verification is required', () => {
+      beforeEach(() => {
+        (authConfig.emailVerification as any).required = true;
+      });
+
+      afterEach(() => {
+        (authConfig.emailVerification as any).required = false;
+      });
+
+      it('should reject unverified accounts', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, emailVerified: null });
+        jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+        await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(
+          new AuthError('EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in')
+        );
+        expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+      });
+
+      it('should allow verified accounts', async () => {
+        mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, emailVerified: new Date() });
+        mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+        jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+        const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
+
+        expect(result.user.email).toBe(loginData.email);
+      });
+    });
+
     it('should unlock account if lockout period has expired', async () => {
       const lockedUser = {
         ...mockUser,
@@ -180,10 +469,10 @@ describe('AuthService', () => {
       };
 
       mockPrisma.user.findUnique.mockResolvedValue(lockedUser);
-      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123' });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
       jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
 
-      const result = await authService.login(loginData, '127.0.0.1', 'test-agent');
+      const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
 
       expect(result.user.email).toBe(loginData.email);
       expect(mockPrisma.user.update).toHaveBeenCalledWith({
@@ -195,14 +484,473 @@ describe('AuthService', () => {
         },
       });
     });
+
+    it('should return an MFA challenge instead of a session when two-factor is enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const result = (await authService.login(loginData, '127.0.0.1', 'test-agent')) as AuthResponse;
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should remember the device a sign-in came from', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      await authService.login(loginData, '127.0.0.1', 'test-agent');
+
+      expect(mockLoginRiskService.assess).toHaveBeenCalledWith(mockUser, '127.0.0.1', 'test-agent');
+      expect(mockLoginRiskService.recordLogin).toHaveBeenCalledWith(mockUser, '127.0.0.1', 'test-agent');
+    });
+
+    it('should hold back a risky sign-in until the emailed code is entered', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockLoginRiskService.assess.mockResolvedValue({
+        decision: 'challenge',
+        score: 60,
+        signals: ['new_device', 'repeated_failures'],
+      });
+      mockLoginVerificationService.issue.mockResolvedValue('verify123');
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const result = await authService.login(loginData, '127.0.0.1', 'test-agent');
+
+      expect(result).toEqual({ verificationRequired: true, verificationToken: 'verify123' });
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should let the second factor answer a risk challenge', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, mfaEnabled: true });
+      mockLoginRiskService.assess.mockResolvedValue({ decision: 'challenge', score: 60, signals: ['new_device'] });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const result = await authService.login(loginData, '127.0.0.1', 'test-agent');
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(mockLoginVerificationService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should block a sign-in the risk checks refuse and notify the user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockLoginRiskService.assess.mockResolvedValue({
+        decision: 'block',
+        score: 105,
+        signals: ['new_device', 'new_network', 'impossible_travel'],
+      });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      await expect(authService.login(loginData, '127.0.0.1', 'test-agent')).rejects.toThrow(
+        expect.objectContaining({ code: 'LOGIN_BLOCKED' })
+      );
+      expect(mockLoginRiskService.notifyBlockedLogin).toHaveBeenCalledWith(mockUser, '127.0.0.1', 'test-agent');
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeLoginVerification', () => {
+    const mockUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 2,
+      lockedUntil: null,
+    };
+
+    it('should sign the user in once the code checks out', async () => {
+      mockLoginVerificationService.verify.mockResolvedValue({ userId: 'user123', organizationId: null });
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const result = await authService.completeLoginVerification('verify123', '123456', '127.0.0.1', 'test-agent');
+
+      expect(mockLoginVerificationService.verify).toHaveBeenCalledWith('verify123', '123456');
+      expect(result.refreshToken).toBe('refresh123');
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { failedLoginAttempts: 0, isLocked: false, lockedUntil: null },
+      });
+    });
+
+    it('should start a single sign-on session in the identity provider\'s organization', async () => {
+      mockLoginVerificationService.verify.mockResolvedValue({ userId: 'user123', organizationId: 'org123' });
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      await authService.completeLoginVerification('verify123', '123456');
+
+      expect(mockOrganizationService.setActiveOrganization).toHaveBeenCalledWith('user123', 'session123', 'org123');
+    });
+
+    it('should not sign in a deactivated account', async () => {
+      mockLoginVerificationService.verify.mockResolvedValue({ userId: 'user123', organizationId: null });
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mockUser, isActive: false });
+
+      await expect(authService.completeLoginVerification('verify123', '123456')).rejects.toThrow(
+        expect.objectContaining({ code: 'INVALID_VERIFICATION_TOKEN' })
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeMfaLogin', () => {
+    const mfaUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      password: 'hashedPassword123',
+      name: 'Test User',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      mfaEnabled: true,
+    };
+
+    const startChallenge = async (): Promise<string> => {
+      mockPrisma.user.findUnique.mockResolvedValue(mfaUser);
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const challenge = await authService.login(
+        { email: mfaUser.email, password: 'SecurePass123!' },
+        '127.0.0.1',
+        'test-agent'
+      );
+
+      if (!('mfaRequired' in challenge)) {
+        throw new Error('Expected an MFA challenge');
+      }
+      return challenge.mfaToken;
+    };
+
+    it('should create a session after a valid second factor', async () => {
+      const mfaToken = await startChallenge();
+      mockMfaService.verifySecondFactor.mockResolvedValue(true);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const result = await authService.completeMfaLogin(mfaToken, { code: '123456' }, '127.0.0.1', 'test-agent');
+
+      expect(mockMfaService.verifySecondFactor).toHaveBeenCalledWith(mfaUser, { code: '123456' });
+      expect(result.accessToken).toBeDefined();
+      expect(result.refreshToken).toBe('refresh123');
+      expect(mockOrganizationService.setActiveOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid second factor and count the failure', async () => {
+      const mfaToken = await startChallenge();
+      mockMfaService.verifySecondFactor.mockResolvedValue(false);
+
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: '000000' }, '127.0.0.1', 'test-agent')
+      ).rejects.toThrow(new AuthError('INVALID_MFA_CODE', 'Invalid authentication code'));
+
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ failedLoginAttempts: 1 }) })
+      );
+    });
+
+    it('should reject an invalid challenge token', async () => {
+      await expect(
+        authService.completeMfaLogin('not-a-token', { code: '123456' })
+      ).rejects.toThrow(new AuthError('INVALID_MFA_TOKEN', 'Sign-in challenge is invalid or has expired'));
+    });
+
+    it('should not accept an access token as a challenge token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...mfaUser, mfaEnabled: false });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const session = await authService.login({ email: mfaUser.email, password: 'SecurePass123!' });
+      if (!('accessToken' in session)) {
+        throw new Error('Expected a session');
+      }
+
+      await expect(
+        authService.completeMfaLogin(session.accessToken, { code: '123456' })
+      ).rejects.toThrow(new AuthError('INVALID_MFA_TOKEN', 'Sign-in challenge is invalid or has expired'));
+    });
+  });
+
+  describe('loginWithPasskey', () => {
+    const passkeyUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      name: 'Test User',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      mfaEnabled: true,
+    };
+
+    const assertion = { id: 'credential123' } as any;
+
+    it('should create a session without an MFA challenge', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue(passkeyUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const result = await authService.loginWithPasskey('challenge123', assertion, '127.0.0.1', 'test-agent');
+
+      expect(mockWebAuthnService.verifyAuthentication).toHaveBeenCalledWith('challenge123', assertion);
+      expect(result.user.email).toBe(passkeyUser.email);
+      expect(result.refreshToken).toBe('refresh123');
+    });
+
+    it('should reject deactivated accounts', async () => {
+      mockWebAuthnService.verifyAuthentication.mockResolvedValue({ ...passkeyUser, isActive: false });
+
+      await expect(authService.loginWithPasskey('challenge123', assertion)).rejects.toThrow(
+        new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated')
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should propagate verification failures', async () => {
+      const error = new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+      mockWebAuthnService.verifyAuthentication.mockRejectedValue(error);
+
+      await expect(authService.loginWithPasskey('challenge123', assertion)).rejects.toThrow(error);
+    });
+  });
+
+  describe('loginWithOidc', () => {
+    const oidcUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      password: null,
+      name: 'Test User',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      emailVerified: new Date(),
+      mfaEnabled: false,
+    };
+
+    const profile = { subject: 'subject123', email: 'test@example.com', emailVerified: true, name: 'Test User' };
+
+    beforeEach(() => {
+      mockOidcService.completeAuthorization.mockResolvedValue(profile);
+    });
+
+    it('should create a session for the provider account', async () => {
+      mockOidcService.findOrCreateUser.mockResolvedValue({ user: oidcUser, created: false });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const result = await authService.loginWithOidc('google', 'code123', 'state123', '127.0.0.1', 'test-agent');
+
+      expect(mockOidcService.completeAuthorization).toHaveBeenCalledWith('google', 'code123', 'state123');
+      expect(mockOidcService.findOrCreateUser).toHaveBeenCalledWith('google', profile);
+      expect(result).toMatchObject({ refreshToken: 'refresh123', user: { email: 'test@example.com' } });
+      expect(mockLoginRiskService.recordLogin).toHaveBeenCalled();
+    });
+
+    it('should still ask for the second factor', async () => {
+      mockOidcService.findOrCreateUser.mockResolvedValue({ user: { ...oidcUser, mfaEnabled: true }, created: false });
+
+      const result = await authService.loginWithOidc('google', 'code123', 'state123');
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should send a verification email to new accounts the provider did not verify', async () => {
+      const newUser = { ...oidcUser, emailVerified: null };
+      mockOidcService.findOrCreateUser.mockResolvedValue({ user: newUser, created: true });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      await authService.loginWithOidc('google', 'code123', 'state123');
+
+      expect(mockEmailVerificationService.sendVerification).toHaveBeenCalledWith(newUser);
+    });
+  });
+
+  describe('loginWithSaml', () => {
+    const samlUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      password: null,
+      name: 'Test User',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      emailVerified: new Date(),
+      mfaEnabled: false,
+    };
+
+    beforeEach(() => {
+      mockSamlService.completeSignIn.mockResolvedValue({ userId: 'user123', organizationId: 'org123' });
+    });
+
+    it('should create a session in the identity provider\'s organization', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(samlUser);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const result = await authService.loginWithSaml('code123', 'browser123', '127.0.0.1', 'test-agent');
+
+      expect(mockSamlService.completeSignIn).toHaveBeenCalledWith('code123', 'browser123');
+      expect(mockOrganizationService.setActiveOrganization).toHaveBeenCalledWith('user123', 'session123', 'org123');
+      expect(result).toMatchObject({ refreshToken: 'refresh123', user: { email: 'test@example.com' } });
+      expect(mockLoginRiskService.recordLogin).toHaveBeenCalled();
+    });
+
+    it('should still ask for the second factor', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...samlUser, mfaEnabled: true });
+
+      const result = await authService.loginWithSaml('code123', 'browser123');
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should start the session in the organization once the second factor checks out', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...samlUser, mfaEnabled: true });
+      mockMfaService.verifySecondFactor.mockResolvedValue(true);
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+
+      const challenge = await authService.loginWithSaml('code123', 'browser123');
+      if (!('mfaRequired' in challenge)) {
+        throw new Error('Expected an MFA challenge');
+      }
+      await authService.completeMfaLogin(challenge.mfaToken, { code: '123456' });
+
+      expect(mockOrganizationService.setActiveOrganization).toHaveBeenCalledWith('user123', 'session123', 'org123');
+    });
+
+    it('should carry the organization through an emailed sign-in check', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(samlUser);
+      mockLoginRiskService.assess.mockResolvedValueOnce({ decision: 'challenge', score: 50, signals: ['new_device'] });
+      mockLoginVerificationService.issue.mockResolvedValue('verify123');
+
+      await expect(authService.loginWithSaml('code123', 'browser123')).resolves.toEqual({
+        verificationRequired: true,
+        verificationToken: 'verify123',
+      });
+      expect(mockLoginVerificationService.issue).toHaveBeenCalledWith(samlUser, undefined, 'org123');
+    });
+
+    it('should refuse deactivated accounts', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...samlUser, isActive: false });
+
+      await expect(authService.loginWithSaml('code123', 'browser123')).rejects.toThrow(
+        new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated')
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    beforeEach(() => {
+      mockMagicLinkService.createBrowserToken.mockReturnValue('browser123');
+    });
+
+    it('should email a link bound to the requesting browser', async () => {
+      const user = { id: 'user123', email: 'test@example.com', name: 'Test User', isActive: true };
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+
+      await expect(authService.requestMagicLink('Test@Example.com')).resolves.toBe('browser123');
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { email: 'test@example.com' } });
+      expect(mockMagicLinkService.issue).toHaveBeenCalledWith(user, 'browser123');
+    });
+
+    it('should answer the same way for unknown accounts', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(authService.requestMagicLink('nobody@example.com')).resolves.toBe('browser123');
+      expect(mockMagicLinkService.issue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    const linkUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      name: 'Test User',
+      isActive: true,
+      isLocked: false,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      emailVerified: new Date(),
+      mfaEnabled: false,
+    };
+
+    beforeEach(() => {
+      mockMagicLinkService.consume.mockResolvedValue('user123');
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date(), refreshToken: 'refresh123' });
+    });
+
+    it('should create a session for the link owner', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser);
+
+      const result = await authService.loginWithMagicLink('link123', 'browser123', '127.0.0.1', 'test-agent');
+
+      expect(mockMagicLinkService.consume).toHaveBeenCalledWith('link123', 'browser123');
+      expect(result).toMatchObject({ refreshToken: 'refresh123', user: { email: 'test@example.com' } });
+      expect(mockLoginRiskService.recordLogin).toHaveBeenCalledWith(linkUser, '127.0.0.1', 'test-agent');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should lift an automatic lockout', async () => {
+      const lockedUser = {
+        ...linkUser,
+        isLocked: true,
+        failedLoginAttempts: 5,
+        lockedUntil: new Date(Date.now() + 60000),
+      };
+      mockPrisma.user.findUnique.mockResolvedValue(lockedUser);
+      mockPrisma.user.update.mockResolvedValue(linkUser);
+
+      const result = await authService.loginWithMagicLink('link123', 'browser123');
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({ failedLoginAttempts: 0, isLocked: false, lockedUntil: null }),
+      });
+      expect(result).toHaveProperty('accessToken');
+    });
+
+    it('should not lift an administrator lock', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...linkUser, isLocked: true, lockedUntil: null });
+
+      await expect(authService.loginWithMagicLink('link123', 'browser123')).rejects.toThrow(
+        new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked')
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should still ask for the second factor', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...linkUser, mfaEnabled: true });
+
+      const result = await authService.loginWithMagicLink('link123', 'browser123');
+
+      expect(result).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse sign-ins the risk checks block', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(linkUser);
+      mockLoginRiskService.assess.mockResolvedValue({ decision: 'block', score: 120, signals: ['new_device'] });
+
+      await expect(authService.loginWithMagicLink('link123', 'browser123')).rejects.toThrow(
+        expect.objectContaining({ code: 'LOGIN_BLOCKED' })
+      );
+      expect(mockSessionRepository.createSession).not.toHaveBeenCalled();
+    });
   });
 
   describe('refreshToken', () => {
     const mockSession = {
       id: 'session123',
       userId: 'user123',
-      refreshToken: 'refresh123',
+      refreshTokenHash: 'hash123',
+      familyId: 'family123',
       isRevoked: false,
+      consumedAt: null,
       expiresAt: new Date(Date.now() + 86400000), // 24 hours from now
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -223,11 +971,44 @@ describe('AuthService', () => {
       };
       
       mockSessionRepository.findByRefreshToken.mockResolvedValue(mockSession);
+      mockSessionRepository.rotateSession.mockResolvedValue({ id: 'session456', authenticatedAt: new Date(), refreshToken: 'refresh456' });
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
 
-      const result = await authService.refreshToken('refresh123');
+      const result = await authService.refreshToken('refresh123', '127.0.0.1', 'test-agent');
 
       expect(result.accessToken).toBeDefined();
+      expect(result.refreshToken).toBe('refresh456');
+      expect(mockSessionRepository.rotateSession).toHaveBeenCalledWith(
+        mockSession,
+        expect.objectContaining({ ip: '127.0.0.1', userAgent: 'test-agent' })
+      );
+      await expect(authService.validateAccessToken(result.accessToken)).resolves.toEqual(
+        expect.objectContaining({ sessionId: 'session456' })
+      );
+    });
+
+    it('should revoke the token family when a consumed token is replayed', async () => {
+      const consumedSession = { ...mockSession, consumedAt: new Date() };
+      mockSessionRepository.findByRefreshToken.mockResolvedValue(consumedSession);
+      mockSessionRepository.revokeSessionFamily.mockResolvedValue(2);
+
+      await expect(authService.refreshToken('refresh123')).rejects.toThrow(
+        new AuthError('TOKEN_REUSE_DETECTED', 'Security violation detected')
+      );
+      expect(mockSessionRepository.revokeSessionFamily).toHaveBeenCalledWith(consumedSession);
+      expect(mockSessionRepository.rotateSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the token family when a concurrent refresh consumed the token first', async () => {
+      mockSessionRepository.findByRefreshToken.mockResolvedValue(mockSession);
+      mockSessionRepository.rotateSession.mockResolvedValue(null);
+      mockSessionRepository.revokeSessionFamily.mockResolvedValue(2);
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user123', isActive: true, isLocked: false });
+
+      await expect(authService.refreshToken('refresh123')).rejects.toThrow(
+        new AuthError('TOKEN_REUSE_DETECTED', 'Security violation detected')
+      );
+      expect(mockSessionRepository.revokeSessionFamily).toHaveBeenCalledWith(mockSession);
     });
 
     it('should throw error for invalid refresh token', async () => {
@@ -238,14 +1019,36 @@ describe('AuthService', () => {
       );
     });
 
+    it('should not accept refresh tokens issued to OAuth clients', async () => {
+      mockSessionRepository.findByRefreshToken.mockResolvedValue({ ...mockSession, oauthClientId: 'client1' });
+
+      await expect(authService.refreshToken('refresh123')).rejects.toThrow(
+        new AuthError('INVALID_REFRESH_TOKEN', 'Invalid refresh token')
+      );
+      expect(mockSessionRepository.rotateSession).not.toHaveBeenCalled();
+    });
+
     it('should throw error for revoked session', async () => {
       const revokedSession = { ...mockSession, isRevoked: true };
       mockSessionRepository.findByRefreshToken.mockResolvedValue(revokedSession);
-      mockSessionRepository.revokeAllSessionsByUserId.mockResolvedValue(1);
 
       await expect(authService.refreshToken('refresh123')).rejects.toThrow(
-        new AuthError('TOKEN_REUSE_DETECTED', 'Security violation detected')
+        new AuthError('INVALID_REFRESH_TOKEN', 'Invalid refresh token')
+      );
+      expect(mockSessionRepository.rotateSession).not.toHaveBeenCalled();
+    });
+
+    it('should leave other sessions alone when a device signed out elsewhere refreshes', async () => {
+      mockSessionRepository.revokeSession.mockResolvedValue(true);
+      await authService.revokeSession('user123', 'session123');
+
+      mockSessionRepository.findByRefreshToken.mockResolvedValue({ ...mockSession, isRevoked: true });
+
+      await expect(authService.refreshToken('refresh123')).rejects.toThrow(
+        new AuthError('INVALID_REFRESH_TOKEN', 'Invalid refresh token')
       );
+      expect(mockSessionRepository.revokeAllSessionsByUserId).not.toHaveBeenCalled();
+      expect(mockSessionRepository.revokeSessionFamily).not.toHaveBeenCalled();
     });
 
     it('should throw error for expired session', async () => {
@@ -322,11 +1125,28 @@ describe('AuthService', () => {
 
       expect(mockPrisma.user.update).toHaveBeenCalledWith({
         where: { id: 'user123' },
-        data: { password: 'newHashedPassword' },
+        data: { password: 'newHashedPassword', passwordChangedAt: expect.any(Date) },
       });
+      expect(mockPasswordPolicyService.recordPassword).toHaveBeenCalledWith('user123', 'newHashedPassword');
       expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
     });
 
+    it('should reject a new password that breaks the policy', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      mockPasswordPolicyService.assertAcceptable.mockRejectedValue(
+        new AuthError('PASSWORD_POLICY_VIOLATION', 'Password must differ from your last 5 passwords')
+      );
+
+      await expect(
+        authService.changePassword('user123', 'oldPassword', 'oldPassword')
+      ).rejects.toThrow(AuthError);
+
+      expect(mockPasswordPolicyService.assertAcceptable).toHaveBeenCalledWith('oldPassword', mockUser, mockUser);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+      expect(mockPasswordPolicyService.recordPassword).not.toHaveBeenCalled();
+    });
+
     it('should throw error for invalid current password', async () => {
       mockPrisma.user.findUnique.mockResolvedValue(mockUser);
       jest.spyOn(argon2, 'verify').mockResolvedValue(false as never);
@@ -349,11 +1169,359 @@ describe('AuthService', () => {
     });
   });
 
+  describe('requestPasswordReset', () => {
+    const mockUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      name: 'Test User',
+      isActive: true,
+    };
+
+    it('should store a hashed token and email the raw token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockMailService.sendPasswordReset.mockResolvedValue(undefined);
+
+      await authService.requestPasswordReset('Test@Example.com', '127.0.0.1', 'test-agent');
+
+      const storedHash = mockPrisma.passwordResetToken.create.mock.calls[0][0].data.tokenHash;
+      const sentToken = mockMailService.sendPasswordReset.mock.calls[0][1];
+
+      expect(hashToken(sentToken)).toBe(storedHash);
+      expect(mockPrisma.passwordResetToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', usedAt: null },
+      });
+    });
+
+    it('should resolve without sending anything for unknown emails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(authService.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(mockPrisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(mockMailService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when email delivery fails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockMailService.sendPasswordReset.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(authService.requestPasswordReset('test@example.com')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const validRecord = {
+      id: 'reset123',
+      userId: 'user123',
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      user: { id: 'user123', isActive: true },
+    };
+
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((callback: (tx: any) => Promise<unknown>) => callback(mockPrisma));
+    });
+
+    it('should update the password and revoke all sessions', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue(validRecord);
+      mockPrisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+      jest.spyOn(argon2, 'hash').mockResolvedValue('newHashedPassword' as never);
+
+      await authService.resetPassword('raw-token', 'NewPassword123!');
+
+      expect(mockPrisma.passwordResetToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('raw-token') },
+        include: { user: true },
+      });
+      expect(argon2.hash).toHaveBeenCalledWith('NewPassword123!', {
+        type: argon2.argon2id,
+        memoryCost: 2 ** 16,
+        timeCost: 3,
+        parallelism: 1,
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: {
+          password: 'newHashedPassword',
+          passwordChangedAt: expect.any(Date),
+          passwordResetRequired: false,
+          failedLoginAttempts: 0,
+          isLocked: false,
+          lockedUntil: null,
+        },
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue(null);
+
+      await expect(authService.resetPassword('unknown', 'NewPassword123!')).rejects.toThrow(
+        new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired')
+      );
+    });
+
+    it('should reject used tokens', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue({ ...validRecord, usedAt: new Date() });
+
+      await expect(authService.resetPassword('raw-token', 'NewPassword123!')).rejects.toThrow(
+        new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue({
+        ...validRecord,
+        expiresAt: new Date(Date.now() - 60000),
+      });
+
+      await expect(authService.resetPassword('raw-token', 'NewPassword123!')).rejects.toThrow(
+        new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired')
+      );
+    });
+
+    it('should reject a token consumed by a concurrent request', async () => {
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue(validRecord);
+      mockPrisma.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+      jest.spyOn(argon2, 'hash').mockResolvedValue('newHashedPassword' as never);
+
+      await expect(authService.resetPassword('raw-token', 'NewPassword123!')).rejects.toThrow(
+        new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired')
+      );
+      expect(mockSessionRepository.revokeAllSessionsByUserId).not.toHaveBeenCalled();
+    });
+  });
+
   describe('validateAccessToken', () => {
-    it('should validate valid access token', () => {
-      // This would require mocking JWT verification
-      // For now, we'll test the method exists
-      expect(typeof authService.validateAccessToken).toBe('function');
+    it('should validate valid access token', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        password: 'hashedPassword123',
+        isActive: true,
+        isLocked: false,
+      });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const { accessToken } = (await authService.login({
+        email: 'test@example.com',
+        password: 'SecurePass123!',
+      })) as AuthResponse;
+
+      await expect(authService.validateAccessToken(accessToken)).resolves.toEqual({
+        userId: 'user123',
+        email: 'test@example.com',
+        roles: ['USER'],
+        permissions: [],
+        sessionId: 'session123',
+        authTime: expect.any(Number),
+      });
+    });
+
+    it('should embed the user\'s roles and permissions', async () => {
+      mockRbacService.getUserAuthorization.mockResolvedValue({
+        roles: ['ADMIN', 'USER'],
+        permissions: ['roles:manage', 'users:read'],
+      });
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        password: 'hashedPassword123',
+        isActive: true,
+        isLocked: false,
+      });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const { accessToken } = (await authService.login({
+        email: 'test@example.com',
+        password: 'SecurePass123!',
+      })) as AuthResponse;
+
+      await expect(authService.validateAccessToken(accessToken)).resolves.toEqual(
+        expect.objectContaining({ roles: ['ADMIN', 'USER'], permissions: ['roles:manage', 'users:read'] })
+      );
+    });
+
+    it('should carry the session\'s active organization', async () => {
+      mockOrganizationService.getActiveMembership.mockResolvedValue({ organizationId: 'org123', role: 'ADMIN' });
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        password: 'hashedPassword123',
+        isActive: true,
+        isLocked: false,
+      });
+      mockSessionRepository.createSession.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+
+      const { accessToken } = (await authService.login({
+        email: 'test@example.com',
+        password: 'SecurePass123!',
+      })) as AuthResponse;
+
+      expect(mockOrganizationService.getActiveMembership).toHaveBeenCalledWith('user123', 'session123');
+      await expect(authService.validateAccessToken(accessToken)).resolves.toEqual(
+        expect.objectContaining({ organizationId: 'org123', organizationRole: 'ADMIN' })
+      );
+    });
+
+    it('should reject tampered tokens', async () => {
+      await expect(authService.validateAccessToken('not.a.token')).resolves.toBeNull();
+    });
+  });
+
+  describe('switchOrganization', () => {
+    const mockUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      isActive: true,
+      isLocked: false,
+    };
+
+    it('should scope a new access token to the organization', async () => {
+      mockOrganizationService.setActiveOrganization.mockResolvedValue({ organizationId: 'org456', role: 'MEMBER' });
+      mockOrganizationService.getActiveMembership.mockResolvedValue({ organizationId: 'org456', role: 'MEMBER' });
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockSessionRepository.findById.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+
+      const { accessToken } = await authService.switchOrganization('user123', 'session123', 'org456');
+
+      expect(mockOrganizationService.setActiveOrganization).toHaveBeenCalledWith('user123', 'session123', 'org456');
+      await expect(authService.validateAccessToken(accessToken)).resolves.toEqual(
+        expect.objectContaining({ sessionId: 'session123', organizationId: 'org456', organizationRole: 'MEMBER' })
+      );
+    });
+
+    it('should refuse organizations the user does not belong to', async () => {
+      mockOrganizationService.setActiveOrganization.mockRejectedValue(
+        new AuthError('NOT_A_MEMBER', 'You are not a member of this organization')
+      );
+
+      await expect(authService.switchOrganization('user123', 'session123', 'org789')).rejects.toThrow(
+        new AuthError('NOT_A_MEMBER', 'You are not a member of this organization')
+      );
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reauthenticate', () => {
+    const mockUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      password: 'hashedPassword123',
+      isActive: true,
+      isLocked: false,
+      lockedUntil: null,
+      failedLoginAttempts: 0,
+      mfaEnabled: true,
+    };
+
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    });
+
+    it('should refresh the session\'s authentication time after the password checks out', async () => {
+      const authenticatedAt = new Date();
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      mockSessionRepository.markAuthenticated.mockResolvedValue({ id: 'session123', authenticatedAt });
+
+      const { accessToken } = await authService.reauthenticate('user123', 'session123', { password: 'SecurePass123!' });
+
+      expect(mockSessionRepository.markAuthenticated).toHaveBeenCalledWith('session123', 'user123');
+      await expect(authService.validateAccessToken(accessToken)).resolves.toEqual(
+        expect.objectContaining({ sessionId: 'session123', authTime: Math.floor(authenticatedAt.getTime() / 1000) })
+      );
+    });
+
+    it('should accept a second factor instead of the password', async () => {
+      mockMfaService.verifySecondFactor.mockResolvedValue(true);
+      mockSessionRepository.markAuthenticated.mockResolvedValue({ id: 'session123', authenticatedAt: new Date() });
+
+      await authService.reauthenticate('user123', 'session123', { code: '123456' });
+
+      expect(mockMfaService.verifySecondFactor).toHaveBeenCalledWith(mockUser, { code: '123456' });
+    });
+
+    it('should count a wrong password as a failed sign-in', async () => {
+      jest.spyOn(argon2, 'verify').mockResolvedValue(false as never);
+
+      await expect(
+        authService.reauthenticate('user123', 'session123', { password: 'wrong' })
+      ).rejects.toThrow(new AuthError('INVALID_CREDENTIALS', 'Password or code is incorrect'));
+      expect(mockPrisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ failedLoginAttempts: 1 }) })
+      );
+      expect(mockSessionRepository.markAuthenticated).not.toHaveBeenCalled();
+    });
+
+    it('should refuse sessions that are no longer active', async () => {
+      jest.spyOn(argon2, 'verify').mockResolvedValue(true as never);
+      mockSessionRepository.markAuthenticated.mockResolvedValue(null);
+
+      await expect(
+        authService.reauthenticate('user123', 'session123', { password: 'SecurePass123!' })
+      ).rejects.toThrow(new AuthError('SESSION_NOT_FOUND', 'Session not found or already revoked'));
+    });
+  });
+
+  describe('impersonation', () => {
+    const mockUser = {
+      id: 'user123',
+      email: 'test@example.com',
+      name: 'Test User',
+      emailVerified: null,
+      isActive: true,
+      isLocked: false,
+    } as any;
+
+    const impersonation = {
+      id: 'imp123',
+      actorId: 'admin123',
+      targetUserId: 'user123',
+      reason: 'Ticket 42',
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+      endedAt: null,
+      createdAt: new Date(),
+    };
+
+    it('should issue a session-less token naming the administrator', async () => {
+      mockPrisma.impersonation.findUnique.mockResolvedValue(impersonation);
+
+      const { accessToken, user } = await authService.createImpersonationToken(mockUser, impersonation);
+
+      expect(user).toEqual(expect.objectContaining({ id: 'user123', email: 'test@example.com' }));
+      const validated = await authService.validateAccessToken(accessToken);
+      expect(validated).toEqual(
+        expect.objectContaining({ userId: 'user123', actorId: 'admin123', impersonationId: 'imp123' })
+      );
+      expect(validated?.sessionId).toBeUndefined();
+    });
+
+    it('should stop accepting the token once the impersonation has ended', async () => {
+      const { accessToken } = await authService.createImpersonationToken(mockUser, impersonation);
+      mockPrisma.impersonation.findUnique.mockResolvedValue({ ...impersonation, endedAt: new Date() });
+
+      await expect(authService.validateAccessToken(accessToken)).resolves.toBeNull();
+    });
+
+    it('should stop accepting the token once the administrator is deleted', async () => {
+      const { accessToken } = await authService.createImpersonationToken(mockUser, impersonation);
+      mockPrisma.impersonation.findUnique.mockResolvedValue({ ...impersonation, actorId: null });
+
+      await expect(authService.validateAccessToken(accessToken)).resolves.toBeNull();
+    });
+
+    it('should only end impersonations of the token\'s user', async () => {
+      mockPrisma.impersonation.updateMany.mockResolvedValue({ count: 1 });
+
+      await authService.endImpersonation('imp123', 'user123');
+
+      expect(mockPrisma.impersonation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'imp123', targetUserId: 'user123', endedAt: null },
+        data: { endedAt: expect.any(Date) },
+      });
     });
   });
 
@@ -367,11 +1535,13 @@ describe('AuthService', () => {
         createdAt: new Date(),
       };
 
+      const pendingEmailChange = { email: 'new@example.com', expiresAt: new Date() };
       mockPrisma.user.findUnique.mockResolvedValue(mockProfile);
+      mockEmailChangeService.getPending.mockResolvedValue(pendingEmailChange);
 
       const result = await authService.getUserProfile('user123');
 
-      expect(result).toEqual(mockProfile);
+      expect(result).toEqual({ ...mockProfile, roles: ['USER'], permissions: [], pendingEmailChange, deletionScheduledAt: null });
     });
 
     it('should return null for non-existent user', async () => {
@@ -399,9 +1569,38 @@ describe('AuthService', () => {
       });
     });
 
+    it('should store a new email as pending instead of changing it', async () => {
+      const user = { id: 'user123', email: 'test@example.com', name: 'Test User' };
+      const pendingEmailChange = { email: 'new@example.com', expiresAt: new Date() };
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+      mockSessionRepository.findById.mockResolvedValue({ id: 'session2', familyId: 'session1' });
+      mockEmailChangeService.requestChange.mockResolvedValue(pendingEmailChange);
+
+      const result = await authService.updateUserProfile('user123', { email: 'New@Example.com' }, 'session2');
+
+      expect(result).toBe(pendingEmailChange);
+      expect(mockEmailChangeService.requestChange).toHaveBeenCalledWith(user, 'New@Example.com', 'session1');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave an unchanged email alone', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user123', email: 'test@example.com' });
+      mockPrisma.user.update.mockResolvedValue({ id: 'user123' });
+
+      const result = await authService.updateUserProfile('user123', { name: 'Updated Name', email: 'Test@example.com' });
+
+      expect(result).toBeNull();
+      expect(mockEmailChangeService.requestChange).not.toHaveBeenCalled();
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { name: 'Updated Name' },
+      });
+    });
+
     it('should throw error for duplicate email', async () => {
       const updateData = { email: 'existing@example.com' };
-      mockPrisma.user.findUnique.mockResolvedValue({ id: 'other123' }); // Different user with same email
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user123', email: 'test@example.com' });
+      mockEmailChangeService.requestChange.mockRejectedValue(new AuthError('EMAIL_TAKEN', 'Email is already taken'));
 
       await expect(
         authService.updateUserProfile('user123', updateData)
@@ -411,6 +1610,36 @@ describe('AuthService', () => {
     });
   });
 
+  describe('confirmEmailChange', () => {
+    it('should sign out every login but the one that asked for the change', async () => {
+      mockEmailChangeService.confirmChange.mockResolvedValue({ userId: 'user123', sessionFamilyId: 'session1' });
+
+      await authService.confirmEmailChange('raw-token');
+
+      expect(mockSessionRepository.revokeOtherSessions).toHaveBeenCalledWith('user123', 'session1');
+      expect(mockSessionRepository.revokeAllSessionsByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should sign out everywhere when the change was not requested from a session', async () => {
+      mockEmailChangeService.confirmChange.mockResolvedValue({ userId: 'user123', sessionFamilyId: null });
+
+      await authService.confirmEmailChange('raw-token');
+
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+
+    it('should not sign anyone out when the link is invalid', async () => {
+      mockEmailChangeService.confirmChange.mockRejectedValue(
+        new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired')
+      );
+
+      await expect(authService.confirmEmailChange('raw-token')).rejects.toThrow('Email change link is invalid or has expired');
+
+      expect(mockSessionRepository.revokeOtherSessions).not.toHaveBeenCalled();
+      expect(mockSessionRepository.revokeAllSessionsByUserId).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getUserSessions', () => {
     it('should return user sessions', async () => {
       const mockSessions = [
@@ -425,6 +1654,18 @@ describe('AuthService', () => {
       expect(result).toHaveLength(2);
       expect(mockSessionRepository.findActiveSessionsByUserId).toHaveBeenCalledWith('user123');
     });
+
+    it('should flag the session the request was made from', async () => {
+      mockSessionRepository.findActiveSessionsByUserId.mockResolvedValue([
+        { id: 'session1', browser: 'Chrome 120', createdAt: new Date(), expiresAt: new Date() },
+        { id: 'session2', browser: 'Firefox 121', createdAt: new Date(), expiresAt: new Date() },
+      ]);
+
+      const result = await authService.getUserSessions('user123', 'session2');
+
+      expect(result.map(session => session.current)).toEqual([false, true]);
+      expect(result[0]).not.toHaveProperty('refreshTokenHash');
+    });
   });
 
   describe('revokeSession', () => {
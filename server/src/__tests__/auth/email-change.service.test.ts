@@ -0,0 +1,204 @@
+import { EmailChangeService } from '../../modules/auth/email-change.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  emailChange: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+// Mock MailService
+const mockMailService = {
+  sendEmailChangeConfirmation: jest.fn(),
+  sendEmailChangeNotice: jest.fn(),
+} as any;
+
+describe('EmailChangeService', () => {
+  let service: EmailChangeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: (tx: any) => Promise<unknown>) => callback(mockPrisma));
+    service = new EmailChangeService(mockPrisma, mockMailService);
+  });
+
+  describe('requestChange', () => {
+    const user = { id: 'user123', email: 'old@example.com', name: 'Test User' };
+
+    it('should store the new address without touching the account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const pending = await service.requestChange(user, 'New@Example.com', 'family123');
+
+      expect(pending.email).toBe('new@example.com');
+      expect(pending.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mockPrisma.emailChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user123',
+          newEmail: 'new@example.com',
+          sessionFamilyId: 'family123',
+        }),
+      });
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should send a confirm link to the new address and a cancel link to the old one', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await service.requestChange(user, 'new@example.com');
+
+      const { confirmTokenHash, cancelTokenHash } = mockPrisma.emailChange.create.mock.calls[0][0].data;
+      const confirmToken = mockMailService.sendEmailChangeConfirmation.mock.calls[0][1];
+      const cancelToken = mockMailService.sendEmailChangeNotice.mock.calls[0][2];
+
+      expect(mockMailService.sendEmailChangeConfirmation).toHaveBeenCalledWith(
+        'new@example.com', confirmToken, expect.any(Number), 'Test User'
+      );
+      expect(mockMailService.sendEmailChangeNotice).toHaveBeenCalledWith(
+        'old@example.com', 'new@example.com', cancelToken, 'Test User'
+      );
+      expect(hashToken(confirmToken)).toBe(confirmTokenHash);
+      expect(hashToken(cancelToken)).toBe(cancelTokenHash);
+      expect(confirmToken).not.toBe(cancelToken);
+    });
+
+    it('should replace a change that is still pending', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await service.requestChange(user, 'new@example.com');
+
+      expect(mockPrisma.emailChange.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', confirmedAt: null, cancelledAt: null },
+      });
+    });
+
+    it('should refuse an address that belongs to another account', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'other123' });
+
+      await expect(service.requestChange(user, 'taken@example.com')).rejects.toThrow(
+        new AuthError('EMAIL_TAKEN', 'Email is already taken')
+      );
+      expect(mockPrisma.emailChange.create).not.toHaveBeenCalled();
+      expect(mockMailService.sendEmailChangeConfirmation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmChange', () => {
+    const pendingChange = {
+      id: 'change123',
+      userId: 'user123',
+      newEmail: 'new@example.com',
+      sessionFamilyId: 'family123',
+      confirmedAt: null,
+      cancelledAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+    };
+
+    it('should move the account to the new, verified address', async () => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue(pendingChange);
+      mockPrisma.emailChange.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      const change = await service.confirmChange('raw-token');
+
+      expect(mockPrisma.emailChange.findUnique).toHaveBeenCalledWith({
+        where: { confirmTokenHash: hashToken('raw-token') },
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { email: 'new@example.com', emailVerified: expect.any(Date) },
+      });
+      expect(change.sessionFamilyId).toBe('family123');
+      expect(change.confirmedAt).toEqual(expect.any(Date));
+    });
+
+    it.each([
+      ['unknown', null],
+      ['confirmed', { ...pendingChange, confirmedAt: new Date() }],
+      ['cancelled', { ...pendingChange, cancelledAt: new Date() }],
+      ['expired', { ...pendingChange, expiresAt: new Date(Date.now() - 1000) }],
+    ])('should reject a %s link', async (_label, record) => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue(record);
+
+      await expect(service.confirmChange('raw-token')).rejects.toThrow(
+        new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link consumed or cancelled concurrently', async () => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue(pendingChange);
+      mockPrisma.emailChange.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.confirmChange('raw-token')).rejects.toThrow('Email change link is invalid or has expired');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an address taken since the change was requested', async () => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue(pendingChange);
+      mockPrisma.emailChange.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'other123' });
+
+      await expect(service.confirmChange('raw-token')).rejects.toThrow('Email is already taken');
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelChange', () => {
+    const pendingChange = {
+      id: 'change123',
+      userId: 'user123',
+      confirmedAt: null,
+      cancelledAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+    };
+
+    it('should cancel the change the link was sent for', async () => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue(pendingChange);
+      mockPrisma.emailChange.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.cancelChange('raw-token');
+
+      expect(mockPrisma.emailChange.findUnique).toHaveBeenCalledWith({
+        where: { cancelTokenHash: hashToken('raw-token') },
+      });
+      expect(mockPrisma.emailChange.updateMany).toHaveBeenCalledWith({
+        where: { id: 'change123', confirmedAt: null, cancelledAt: null },
+        data: { cancelledAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject a change that was already confirmed', async () => {
+      mockPrisma.emailChange.findUnique.mockResolvedValue({ ...pendingChange, confirmedAt: new Date() });
+
+      await expect(service.cancelChange('raw-token')).rejects.toThrow('Email change link is invalid or has expired');
+      expect(mockPrisma.emailChange.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPending', () => {
+    it('should return the new address and when the link expires', async () => {
+      const expiresAt = new Date(Date.now() + 60000);
+      mockPrisma.emailChange.findFirst.mockResolvedValue({ newEmail: 'new@example.com', expiresAt });
+
+      await expect(service.getPending('user123')).resolves.toEqual({ email: 'new@example.com', expiresAt });
+    });
+
+    it('should return null when nothing is pending', async () => {
+      mockPrisma.emailChange.findFirst.mockResolvedValue(null);
+
+      await expect(service.getPending('user123')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { EmailVerificationService } from '../../modules/auth/email-verification.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  emailVerificationToken: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+// Mock MailService
+const mockMailService = {
+  sendEmailVerification: jest.fn(),
+} as any;
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: (tx: any) => Promise<unknown>) => callback(mockPrisma));
+    service = new EmailVerificationService(mockPrisma, mockMailService);
+  });
+
+  describe('sendVerification', () => {
+    const user = { id: 'user123', email: 'test@example.com', name: 'Test User' };
+
+    it('should store only the token hash and email the raw token', async () => {
+      await service.sendVerification(user);
+
+      const storedHash = mockPrisma.emailVerificationToken.create.mock.calls[0][0].data.tokenHash;
+      const sentToken = mockMailService.sendEmailVerification.mock.calls[0][1];
+
+      expect(sentToken).not.toBe(storedHash);
+      expect(hashToken(sentToken)).toBe(storedHash);
+      expect(mockMailService.sendEmailVerification).toHaveBeenCalledWith(user.email, sentToken, user.name);
+    });
+
+    it('should invalidate previously issued tokens', async () => {
+      await service.sendVerification(user);
+
+      expect(mockPrisma.emailVerificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: user.id, usedAt: null },
+      });
+    });
+
+    it('should set an expiry in the future', async () => {
+      await service.sendVerification(user);
+
+      const { expiresAt } = mockPrisma.emailVerificationToken.create.mock.calls[0][0].data;
+      expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('verifyEmail', () => {
+    const validRecord = {
+      id: 'token123',
+      userId: 'user123',
+      tokenHash: hashToken('raw-token'),
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+    };
+
+    it('should mark the email as verified and consume the token', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue(validRecord);
+      mockPrisma.emailVerificationToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.verifyEmail('raw-token');
+
+      expect(mockPrisma.emailVerificationToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: hashToken('raw-token') },
+      });
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: { emailVerified: expect.any(Date) },
+      });
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue(null);
+
+      await expect(service.verifyEmail('unknown')).rejects.toThrow(
+        new AuthError('INVALID_VERIFICATION_TOKEN', 'Verification link is invalid or has expired')
+      );
+    });
+
+    it('should reject tokens that were already used', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue({ ...validRecord, usedAt: new Date() });
+
+      await expect(service.verifyEmail('raw-token')).rejects.toThrow(AuthError);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue({
+        ...validRecord,
+        expiresAt: new Date(Date.now() - 60000),
+      });
+
+      await expect(service.verifyEmail('raw-token')).rejects.toThrow(AuthError);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token consumed by a concurrent request', async () => {
+      mockPrisma.emailVerificationToken.findUnique.mockResolvedValue(validRecord);
+      mockPrisma.emailVerificationToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.verifyEmail('raw-token')).rejects.toThrow(AuthError);
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should send a new link to unverified users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        name: null,
+        isActive: true,
+        emailVerified: null,
+      });
+
+      await service.resendVerification('Test@Example.com');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({ where: { email: 'test@example.com' } });
+      expect(mockMailService.sendEmailVerification).toHaveBeenCalled();
+    });
+
+    it('should resolve the same way when delivery fails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        name: null,
+        isActive: true,
+        emailVerified: null,
+      });
+      mockMailService.sendEmailVerification.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      await expect(service.resendVerification('test@example.com')).resolves.toBeUndefined();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockMailService.sendEmailVerification).toHaveBeenCalled();
+    });
+
+    it('should do nothing for unknown emails', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.resendVerification('nobody@example.com')).resolves.toBeUndefined();
+      expect(mockMailService.sendEmailVerification).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing for already verified users', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 'user123',
+        email: 'test@example.com',
+        isActive: true,
+        emailVerified: new Date(),
+      });
+
+      await service.resendVerification('test@example.com');
+
+      expect(mockMailService.sendEmailVerification).not.toHaveBeenCalled();
+    });
+  });
+});
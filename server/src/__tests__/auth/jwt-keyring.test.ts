@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalJWKSet, decodeProtectedHeader, jwtVerify } from 'jose';
+import { JwtKeyring, JwtKeyringOptions, durationToMs } from '../../modules/auth/jwt-keyring';
+
+describe('JwtKeyring', () => {
+  let keysDir: string;
+
+  const tokenOptions = { expiresIn: '10m', issuer: 'smart-task-ai2', audience: 'smart-task-ai2-users' };
+  const verifyOptions = { issuer: 'smart-task-ai2', audience: 'smart-task-ai2-users' };
+  const DAY = 24 * 60 * 60 * 1000;
+  // Time between publishing a key and signing with it
+  const LEAD = 10 * 60 * 1000;
+
+  const createKeyring = (overrides: Partial<JwtKeyringOptions> = {}) =>
+    new JwtKeyring({
+      algorithm: 'ES256',
+      secret: 'test-jwt-secret-that-is-long-enough-32-chars',
+      keysDir,
+      rotationIntervalMs: 30 * DAY,
+      retentionMs: 10 * 60 * 1000,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  it.each(['RS256', 'ES256', 'EdDSA'] as const)('should sign and verify %s tokens with a kid', async algorithm => {
+    const keyring = createKeyring({ algorithm });
+
+    const token = await keyring.sign({ userId: 'user123', type: 'access' }, tokenOptions);
+    const header = decodeProtectedHeader(token);
+
+    expect(header.alg).toBe(algorithm);
+    expect(header.kid).toBe(keyring.getJwks().keys[0].kid);
+    await expect(keyring.verify(token, verifyOptions)).resolves.toEqual(
+      expect.objectContaining({ userId: 'user123', type: 'access' })
+    );
+  });
+
+  it('should publish keys other services can verify tokens with', async () => {
+    const keyring = createKeyring();
+    const token = await keyring.sign({ userId: 'user123' }, tokenOptions);
+
+    const jwks = keyring.getJwks();
+    const { payload } = await jwtVerify(token, createLocalJWKSet(jwks), verifyOptions);
+
+    expect(payload.userId).toBe('user123');
+    expect(jwks.keys[0]).toEqual(expect.objectContaining({ alg: 'ES256', use: 'sig', kty: 'EC' }));
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should use the shared secret for HS algorithms and publish no keys', async () => {
+    const keyring = createKeyring({ algorithm: 'HS256' });
+
+    const token = await keyring.sign({ userId: 'user123' }, tokenOptions);
+
+    expect(decodeProtectedHeader(token).kid).toBeUndefined();
+    await expect(keyring.verify(token, verifyOptions)).resolves.toEqual(expect.objectContaining({ userId: 'user123' }));
+    expect(keyring.getJwks()).toEqual({ keys: [] });
+    expect(fs.readdirSync(keysDir)).toHaveLength(0);
+  });
+
+  it('should reject tokens for another audience', async () => {
+    const keyring = createKeyring();
+    const token = await keyring.sign({ userId: 'user123' }, { ...tokenOptions, audience: 'smart-task-ai2-mfa' });
+
+    await expect(keyring.verify(token, verifyOptions)).rejects.toThrow();
+  });
+
+  it('should reject tokens signed by an unknown key', async () => {
+    const token = await createKeyring().sign({ userId: 'user123' }, tokenOptions);
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+
+    try {
+      const other = createKeyring({ keysDir: otherDir });
+      await expect(other.verify(token, verifyOptions)).rejects.toThrow();
+    } finally {
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should verify with previous keys loaded from public-only PEM files', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const previousDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+
+    try {
+      fs.writeFileSync(path.join(previousDir, 'old.pem'), privateKey.export({ format: 'pem', type: 'pkcs8' }));
+      const token = await createKeyring({ keysDir: previousDir }).sign({ userId: 'user123' }, tokenOptions);
+
+      fs.writeFileSync(path.join(keysDir, 'old.pem'), publicKey.export({ format: 'pem', type: 'spki' }));
+      const keyring = createKeyring();
+
+      await expect(keyring.verify(token, verifyOptions)).resolves.toEqual(expect.objectContaining({ userId: 'user123' }));
+      // A public-only key cannot sign, so a signing key was generated next to it
+      expect(keyring.getJwks().keys).toHaveLength(2);
+    } finally {
+      fs.rmSync(previousDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should pick up keys added by other instances, but not on every request', async () => {
+    const verifier = createKeyring();
+    const signer = createKeyring();
+    const rotatedAt = Date.now() + 31 * DAY;
+
+    signer.rotateIfDue(new Date(rotatedAt));
+    jest.spyOn(Date, 'now').mockReturnValue(rotatedAt + LEAD);
+    const token = await signer.sign({ userId: 'user123' }, tokenOptions);
+
+    await expect(verifier.verify(token, verifyOptions)).resolves.toEqual(expect.objectContaining({ userId: 'user123' }));
+
+    // Another unknown kid right after that reload is rejected without reading the directory again
+    const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+    try {
+      const forged = await createKeyring({ keysDir: otherDir }).sign({ userId: 'user123' }, tokenOptions);
+      const readdir = jest.spyOn(fs, 'readdirSync');
+
+      await expect(verifier.verify(forged, verifyOptions)).rejects.toThrow();
+      expect(readdir).not.toHaveBeenCalled();
+    } finally {
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('rotateIfDue', () => {
+    it('should keep the current key until the rotation interval has passed', () => {
+      const keyring = createKeyring();
+
+      keyring.rotateIfDue(new Date(Date.now() + DAY));
+
+      expect(keyring.getJwks().keys).toHaveLength(1);
+    });
+
+    it('should publish the next key before it signs', async () => {
+      const keyring = createKeyring();
+      const oldToken = await keyring.sign({ userId: 'user123' }, tokenOptions);
+      const rotatedAt = Date.now() + 31 * DAY;
+
+      keyring.rotateIfDue(new Date(rotatedAt));
+      jest.spyOn(Date, 'now').mockReturnValue(rotatedAt);
+
+      expect(keyring.getJwks().keys).toHaveLength(2);
+      expect(decodeProtectedHeader(await keyring.sign({ userId: 'user123' }, tokenOptions)).kid).toBe(
+        decodeProtectedHeader(oldToken).kid
+      );
+
+      jest.spyOn(Date, 'now').mockReturnValue(rotatedAt + LEAD);
+      const newToken = await keyring.sign({ userId: 'user123' }, tokenOptions);
+
+      expect(decodeProtectedHeader(newToken).kid).toBe(keyring.getJwks().keys[0].kid);
+      expect(decodeProtectedHeader(newToken).kid).not.toBe(decodeProtectedHeader(oldToken).kid);
+      await expect(keyring.verify(oldToken, verifyOptions)).resolves.toBeDefined();
+    });
+
+    it('should not publish another key while the next one is waiting', () => {
+      const keyring = createKeyring();
+      const rotatedAt = Date.now() + 31 * DAY;
+
+      keyring.rotateIfDue(new Date(rotatedAt));
+      keyring.rotateIfDue(new Date(rotatedAt + 60 * 1000));
+
+      expect(keyring.getJwks().keys).toHaveLength(2);
+    });
+
+    it('should remove retired keys once their tokens have expired', () => {
+      const keyring = createKeyring();
+      const rotatedAt = Date.now() + 31 * DAY;
+
+      keyring.rotateIfDue(new Date(rotatedAt));
+      keyring.rotateIfDue(new Date(rotatedAt + LEAD + 5 * 60 * 1000));
+      expect(keyring.getJwks().keys).toHaveLength(2);
+
+      keyring.rotateIfDue(new Date(rotatedAt + LEAD + 11 * 60 * 1000));
+      expect(keyring.getJwks().keys).toHaveLength(1);
+      expect(fs.readdirSync(keysDir)).toHaveLength(1);
+    });
+  });
+
+  describe('durationToMs', () => {
+    it('should convert token lifetimes', () => {
+      expect(durationToMs('10m')).toBe(10 * 60 * 1000);
+      expect(durationToMs('7d')).toBe(7 * DAY);
+      expect(durationToMs('30s')).toBe(30 * 1000);
+      expect(durationToMs('1.5h')).toBe(90 * 60 * 1000);
+      expect(durationToMs('10 minutes')).toBe(10 * 60 * 1000);
+      expect(durationToMs('2 Weeks')).toBe(14 * DAY);
+      expect(() => durationToMs('soon')).toThrow();
+      // jose cannot sign with a bare number of seconds
+      expect(() => durationToMs('30')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { LoginRiskService, networkOf } from '../../modules/auth/login-risk.service';
+
+// Mock Prisma
+const mockPrisma = {
+  knownDevice: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    upsert: jest.fn(),
+  },
+  auditEvent: {
+    count: jest.fn(),
+  },
+} as any;
+
+const mockMailService = {
+  sendNewSignInAlert: jest.fn(),
+  sendBlockedSignInAlert: jest.fn(),
+} as any;
+
+const mockGeoIp = {
+  locate: jest.fn(),
+} as any;
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const FIREFOX_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0';
+
+describe('LoginRiskService', () => {
+  let loginRiskService: LoginRiskService;
+
+  const user = { id: 'user123', email: 'test@example.com', name: 'Test User', failedLoginAttempts: 0 };
+  const now = new Date('2024-03-01T12:00:00.000Z');
+  const berlin = { label: 'Berlin, Germany', latitude: 52.52, longitude: 13.4 };
+  const sydney = { label: 'Sydney, Australia', latitude: -33.87, longitude: 151.21 };
+
+  // The device the user normally signs in from, as recorded by a previous sign-in
+  const knownDevice = async () => {
+    mockGeoIp.locate.mockReturnValue(berlin);
+    await loginRiskService.recordLogin(user, '203.0.113.7', CHROME_MAC, new Date('2024-03-01T10:00:00.000Z'));
+    const { create } = mockPrisma.knownDevice.upsert.mock.calls[0][0];
+    mockPrisma.knownDevice.findMany.mockResolvedValue([create]);
+    jest.clearAllMocks();
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrisma.knownDevice.findMany.mockResolvedValue([]);
+    mockPrisma.knownDevice.findUnique.mockResolvedValue(null);
+    mockPrisma.knownDevice.count.mockResolvedValue(0);
+    mockPrisma.auditEvent.count.mockResolvedValue(0);
+    mockGeoIp.locate.mockReturnValue(null);
+    loginRiskService = new LoginRiskService(mockPrisma, mockMailService, mockGeoIp);
+  });
+
+  describe('assess', () => {
+    it('should allow the first sign-in without history to compare against', async () => {
+      await expect(loginRiskService.assess(user, '203.0.113.7', CHROME_MAC, now)).resolves.toEqual({
+        decision: 'allow',
+        score: 0,
+        signals: [],
+      });
+    });
+
+    it('should allow a known device even after a browser update', async () => {
+      await knownDevice();
+      mockGeoIp.locate.mockReturnValue(berlin);
+
+      const result = await loginRiskService.assess(
+        user,
+        '203.0.113.99',
+        CHROME_MAC.replace('Chrome/120', 'Chrome/121'),
+        now
+      );
+
+      expect(result.decision).toBe('allow');
+    });
+
+    it('should notify about a new device on a new network', async () => {
+      await knownDevice();
+      mockGeoIp.locate.mockReturnValue(berlin);
+
+      const result = await loginRiskService.assess(user, '198.51.100.4', FIREFOX_WINDOWS, now);
+
+      expect(result).toEqual({ decision: 'notify', score: 45, signals: ['new_device', 'new_network'] });
+    });
+
+    it('should challenge a new device after repeated failed passwords', async () => {
+      await knownDevice();
+
+      const result = await loginRiskService.assess(
+        { ...user, failedLoginAttempts: 3 },
+        '203.0.113.7',
+        FIREFOX_WINDOWS,
+        now
+      );
+
+      expect(result.signals).toEqual(['new_device', 'repeated_failures']);
+      expect(result.decision).toBe('challenge');
+    });
+
+    it('should block impossible travel from an unknown device', async () => {
+      await knownDevice();
+      mockGeoIp.locate.mockReturnValue(sydney);
+
+      const result = await loginRiskService.assess(user, '198.51.100.4', FIREFOX_WINDOWS, now);
+
+      expect(result.signals).toContain('impossible_travel');
+      expect(result.decision).toBe('block');
+    });
+
+    it('should flag an IP that has failed many sign-ins recently', async () => {
+      mockPrisma.auditEvent.count.mockResolvedValue(12);
+
+      const result = await loginRiskService.assess(user, '198.51.100.4', CHROME_MAC, now);
+
+      expect(result.signals).toEqual(['ip_failure_burst']);
+      expect(mockPrisma.auditEvent.count).toHaveBeenCalledWith({
+        where: {
+          event: { in: ['failed_login_attempt', 'account_locked'] },
+          ip: '198.51.100.4',
+          createdAt: { gte: new Date('2024-03-01T11:45:00.000Z') },
+        },
+      });
+    });
+  });
+
+  describe('recordLogin', () => {
+    it('should not alert about the first device', async () => {
+      await loginRiskService.recordLogin(user, '203.0.113.7', CHROME_MAC, now);
+
+      expect(mockPrisma.knownDevice.upsert).toHaveBeenCalled();
+      expect(mockMailService.sendNewSignInAlert).not.toHaveBeenCalled();
+    });
+
+    it('should alert the user about an additional device', async () => {
+      mockPrisma.knownDevice.count.mockResolvedValue(1);
+      mockGeoIp.locate.mockReturnValue(berlin);
+
+      await loginRiskService.recordLogin(user, '203.0.113.7', CHROME_MAC, now);
+
+      expect(mockMailService.sendNewSignInAlert).toHaveBeenCalledWith(
+        'test@example.com',
+        { device: 'Chrome on Mac OS', location: 'Berlin, Germany', ip: '203.0.113.7', time: now },
+        'Test User'
+      );
+    });
+
+    it('should not fail the sign-in when the alert cannot be sent', async () => {
+      mockPrisma.knownDevice.count.mockResolvedValue(1);
+      mockMailService.sendNewSignInAlert.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(loginRiskService.recordLogin(user, '203.0.113.7', CHROME_MAC, now)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('networkOf', () => {
+    it('should group addresses by /24 and /48 networks', () => {
+      expect(networkOf('::ffff:203.0.113.7')).toBe('203.0.113.0/24');
+      expect(networkOf('2001:db8:abcd:12::1')).toBe('2001:db8:abcd::/48');
+      expect(networkOf('2001:db8::1')).toBe('2001:db8:0::/48');
+      expect(networkOf('not-an-ip')).toBeNull();
+    });
+  });
+});
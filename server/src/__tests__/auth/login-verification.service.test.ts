@@ -0,0 +1,109 @@
+import { LoginVerificationService } from '../../modules/auth/login-verification.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  loginVerification: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+} as any;
+
+const mockMailService = {
+  sendLoginVerificationCode: jest.fn(),
+} as any;
+
+describe('LoginVerificationService', () => {
+  let loginVerificationService: LoginVerificationService;
+
+  const user = { id: 'user123', email: 'test@example.com', name: 'Test User' };
+  const signIn = { device: 'Chrome on Mac OS', location: null, ip: '203.0.113.7', time: new Date() };
+
+  const pending = {
+    id: 'verification1',
+    userId: 'user123',
+    tokenHash: hashToken('verify123'),
+    codeHash: hashToken('123456'),
+    attempts: 0,
+    organizationId: null,
+    expiresAt: new Date(Date.now() + 600000),
+    usedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    loginVerificationService = new LoginVerificationService(mockPrisma, mockMailService);
+  });
+
+  describe('issue', () => {
+    it('should replace pending codes and email a new six-digit code', async () => {
+      const token = await loginVerificationService.issue(user, signIn);
+
+      expect(mockPrisma.loginVerification.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', usedAt: null },
+      });
+
+      const { data } = mockPrisma.loginVerification.create.mock.calls[0][0];
+      const code = mockMailService.sendLoginVerificationCode.mock.calls[0][1];
+
+      expect(code).toMatch(/^\d{6}$/);
+      expect(data.tokenHash).toBe(hashToken(token));
+      expect(data.codeHash).toBe(hashToken(code));
+      expect(mockMailService.sendLoginVerificationCode).toHaveBeenCalledWith(
+        'test@example.com',
+        code,
+        10,
+        signIn,
+        'Test User'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should consume a correct code', async () => {
+      mockPrisma.loginVerification.findUnique.mockResolvedValue(pending);
+      mockPrisma.loginVerification.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(loginVerificationService.verify('verify123', '123456')).resolves.toEqual({
+        userId: 'user123',
+        organizationId: null,
+      });
+      expect(mockPrisma.loginVerification.updateMany).toHaveBeenCalledWith({
+        where: { id: 'verification1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should count wrong codes', async () => {
+      mockPrisma.loginVerification.findUnique.mockResolvedValue(pending);
+
+      await expect(loginVerificationService.verify('verify123', '654321')).rejects.toThrow(
+        new AuthError('INVALID_VERIFICATION_CODE', 'Invalid verification code')
+      );
+      expect(mockPrisma.loginVerification.update).toHaveBeenCalledWith({
+        where: { id: 'verification1' },
+        data: { attempts: { increment: 1 } },
+      });
+    });
+
+    it('should stop accepting codes after too many attempts', async () => {
+      mockPrisma.loginVerification.findUnique.mockResolvedValue({ ...pending, attempts: 5 });
+
+      await expect(loginVerificationService.verify('verify123', '123456')).rejects.toThrow(
+        new AuthError('INVALID_VERIFICATION_TOKEN', 'Sign-in verification is invalid or has expired')
+      );
+    });
+
+    it('should reject expired verifications', async () => {
+      mockPrisma.loginVerification.findUnique.mockResolvedValue({ ...pending, expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(loginVerificationService.verify('verify123', '123456')).rejects.toThrow(
+        new AuthError('INVALID_VERIFICATION_TOKEN', 'Sign-in verification is invalid or has expired')
+      );
+    });
+  });
+});
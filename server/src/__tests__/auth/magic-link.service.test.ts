@@ -0,0 +1,108 @@
+import { MagicLinkService } from '../../modules/auth/magic-link.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  magicLinkToken: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+} as any;
+
+const mockMailService = {
+  sendMagicLink: jest.fn(),
+} as any;
+
+describe('MagicLinkService', () => {
+  let magicLinkService: MagicLinkService;
+
+  const user = { id: 'user123', email: 'test@example.com', name: 'Test User' };
+
+  const pending = {
+    id: 'link1',
+    userId: 'user123',
+    tokenHash: hashToken('link123'),
+    browserHash: hashToken('browser123'),
+    expiresAt: new Date(Date.now() + 900000),
+    usedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMailService.sendMagicLink.mockResolvedValue(undefined);
+    magicLinkService = new MagicLinkService(mockPrisma, mockMailService);
+  });
+
+  describe('issue', () => {
+    it('should replace pending links and email a new one bound to the browser', async () => {
+      await magicLinkService.issue(user, 'browser123');
+
+      expect(mockPrisma.magicLinkToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', usedAt: null },
+      });
+
+      const { data } = mockPrisma.magicLinkToken.create.mock.calls[0][0];
+      const token = mockMailService.sendMagicLink.mock.calls[0][1];
+
+      expect(data.tokenHash).toBe(hashToken(token));
+      expect(data.browserHash).toBe(hashToken('browser123'));
+      expect(data).not.toHaveProperty('token');
+      expect(mockMailService.sendMagicLink).toHaveBeenCalledWith('test@example.com', token, 15, 'Test User');
+    });
+
+    it('should not fail when the email cannot be delivered', async () => {
+      mockMailService.sendMagicLink.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(magicLinkService.issue(user, 'browser123')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('consume', () => {
+    it('should consume a link presented by the requesting browser', async () => {
+      mockPrisma.magicLinkToken.findUnique.mockResolvedValue(pending);
+      mockPrisma.magicLinkToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(magicLinkService.consume('link123', 'browser123')).resolves.toBe('user123');
+      expect(mockPrisma.magicLinkToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link1', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should refuse a link opened in another browser without using it up', async () => {
+      mockPrisma.magicLinkToken.findUnique.mockResolvedValue(pending);
+
+      await expect(magicLinkService.consume('link123', 'other-browser')).rejects.toThrow(
+        new AuthError('MAGIC_LINK_BROWSER_MISMATCH', 'Open the sign-in link in the same browser you requested it from')
+      );
+      await expect(magicLinkService.consume('link123', undefined)).rejects.toThrow(AuthError);
+      expect(mockPrisma.magicLinkToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject used and expired links', async () => {
+      mockPrisma.magicLinkToken.findUnique.mockResolvedValueOnce({ ...pending, usedAt: new Date() });
+      mockPrisma.magicLinkToken.findUnique.mockResolvedValueOnce({
+        ...pending,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await expect(magicLinkService.consume('link123', 'browser123')).rejects.toThrow(
+          new AuthError('INVALID_MAGIC_LINK', 'Sign-in link is invalid or has expired')
+        );
+      }
+    });
+
+    it('should reject a link consumed concurrently', async () => {
+      mockPrisma.magicLinkToken.findUnique.mockResolvedValue(pending);
+      mockPrisma.magicLinkToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(magicLinkService.consume('link123', 'browser123')).rejects.toThrow(
+        new AuthError('INVALID_MAGIC_LINK', 'Sign-in link is invalid or has expired')
+      );
+    });
+  });
+});
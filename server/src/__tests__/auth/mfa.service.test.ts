@@ -0,0 +1,206 @@
+import { MfaService } from '../../modules/auth/mfa.service';
+import { AuthError } from '../../types/auth.types';
+import { encryptSecret, decryptSecret } from '../../utils/encryption';
+import { generateTotp, generateTotpSecret } from '../../utils/totp';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  mfaRecoveryCode: {
+    count: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+describe('MfaService', () => {
+  let mfaService: MfaService;
+  const secret = generateTotpSecret();
+
+  const baseUser = {
+    id: 'user123',
+    email: 'test@example.com',
+    password: 'hashedPassword123',
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaPendingSecret: null,
+    mfaLastUsedStep: null,
+  };
+
+  const enabledUser = {
+    ...baseUser,
+    mfaEnabled: true,
+    mfaSecret: encryptSecret(secret),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg: any) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mfaService = new MfaService(mockPrisma);
+  });
+
+  describe('beginTotpSetup', () => {
+    it('should return the secret, otpauth URI and QR code and store the secret encrypted', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(baseUser);
+
+      const result = await mfaService.beginTotpSetup('user123');
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+      expect(result.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+
+      const storedSecret = mockPrisma.user.update.mock.calls[0][0].data.mfaPendingSecret;
+      expect(storedSecret).not.toContain(result.secret);
+      expect(decryptSecret(storedSecret)).toBe(result.secret);
+    });
+
+    it('should reject users who already have MFA enabled', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser);
+
+      await expect(mfaService.beginTotpSetup('user123')).rejects.toThrow(
+        new AuthError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled')
+      );
+    });
+  });
+
+  describe('enableTotp', () => {
+    const pendingUser = { ...baseUser, mfaPendingSecret: encryptSecret(secret) };
+
+    it('should enable MFA and return hashed-at-rest recovery codes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(pendingUser);
+
+      const recoveryCodes = await mfaService.enableTotp('user123', generateTotp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      recoveryCodes.forEach(code => expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/));
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({
+          mfaEnabled: true,
+          mfaSecret: pendingUser.mfaPendingSecret,
+          mfaPendingSecret: null,
+        }),
+      });
+
+      const stored = mockPrisma.mfaRecoveryCode.createMany.mock.calls[0][0].data;
+      expect(stored[0].codeHash).toBe(hashToken(recoveryCodes[0]!.replace('-', '')));
+    });
+
+    it('should reject an invalid confirmation code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(pendingUser);
+
+      await expect(mfaService.enableTotp('user123', '000000')).rejects.toThrow(
+        new AuthError('INVALID_MFA_CODE', 'Invalid authentication code')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should require setup to have been started', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(baseUser);
+
+      await expect(mfaService.enableTotp('user123', '123456')).rejects.toThrow(
+        new AuthError('MFA_SETUP_NOT_STARTED', 'Two-factor setup has not been started')
+      );
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current authenticator code once', async () => {
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 1 });
+
+      await expect(mfaService.verifySecondFactor(enabledUser as any, { code: generateTotp(secret) })).resolves.toBe(true);
+    });
+
+    it('should reject a replayed authenticator code', async () => {
+      mockPrisma.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(mfaService.verifySecondFactor(enabledUser as any, { code: generateTotp(secret) })).resolves.toBe(false);
+    });
+
+    it('should consume a valid recovery code', async () => {
+      mockPrisma.mfaRecoveryCode.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        mfaService.verifySecondFactor(enabledUser as any, { recoveryCode: 'ABCDE-FGHJK' })
+      ).resolves.toBe(true);
+
+      expect(mockPrisma.mfaRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', codeHash: hashToken('abcdefghjk'), usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject an unknown or used recovery code', async () => {
+      mockPrisma.mfaRecoveryCode.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        mfaService.verifySecondFactor(enabledUser as any, { recoveryCode: 'abcde-fghjk' })
+      ).resolves.toBe(false);
+    });
+
+    it('should reject users without MFA', async () => {
+      await expect(mfaService.verifySecondFactor(baseUser as any, { code: '123456' })).resolves.toBe(false);
+    });
+  });
+
+  describe('disableTotp', () => {
+    it('should clear MFA state after the code check', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser);
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await mfaService.disableTotp('user123', { code: generateTotp(secret) });
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaPendingSecret: null,
+          mfaLastUsedStep: null,
+        },
+      });
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user123' } });
+    });
+
+    it('should allow accounts without a password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...enabledUser, password: null });
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await mfaService.disableTotp('user123', { code: generateTotp(secret) });
+
+      expect(mockPrisma.user.update).toHaveBeenCalled();
+    });
+
+    it('should reject an incorrect code', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser);
+
+      await expect(mfaService.disableTotp('user123', { code: '000000' })).rejects.toThrow(
+        new AuthError('INVALID_MFA_CODE', 'Invalid authentication code')
+      );
+      expect(mockPrisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace existing recovery codes', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(enabledUser);
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const codes = await mfaService.regenerateRecoveryCodes('user123', generateTotp(secret));
+
+      expect(codes).toHaveLength(10);
+      expect(mockPrisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user123' } });
+      expect(mockPrisma.mfaRecoveryCode.createMany).toHaveBeenCalled();
+    });
+  });
+});
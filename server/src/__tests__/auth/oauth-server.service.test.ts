@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalJWKSet, jwtVerify } from 'jose';
+import { OAuthServerService, OAuthAuthorizationRequest } from '../../modules/auth/oauth-server.service';
+import { JwtKeyring } from '../../modules/auth/jwt-keyring';
+import { AuthError, OAuthAuthorizationRedirect, OAuthError } from '../../types/auth.types';
+import { authConfig } from '../../config/auth.config';
+import { hashToken, hmacToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  oAuthClient: {
+    findUnique: jest.fn(),
+  },
+  oAuthConsent: {
+    deleteMany: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  oAuthAuthorizationCode: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  session: {
+    updateMany: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+  },
+} as any;
+
+// Mock SessionRepository
+const mockSessionRepository = {
+  createSession: jest.fn(),
+  findById: jest.fn(),
+  findByRefreshToken: jest.fn(),
+  rotateSession: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeSessionFamily: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/session.repository', () => ({
+  SessionRepository: jest.fn().mockImplementation(() => mockSessionRepository),
+}));
+
+describe('OAuthServerService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const issuer = authConfig.oauth.issuer;
+  const clientSecret = 'internal-tool-secret';
+
+  let keysDir: string;
+  let keyring: JwtKeyring;
+  let oauthServerService: OAuthServerService;
+  let storedCode: Record<string, any> | null;
+
+  const user = {
+    id: 'user123',
+    email: 'test@example.com',
+    name: 'Test User',
+    emailVerified: new Date(),
+    isActive: true,
+    isLocked: false,
+    lockedUntil: null,
+  };
+
+  const confidentialClient = {
+    id: 'client1',
+    clientId: 'a'.repeat(32),
+    clientSecretHash: hmacToken(clientSecret, authConfig.security.refreshTokenSecret),
+    name: 'Internal Wiki',
+    redirectUris: 'https://wiki.example.com/callback',
+    scopes: 'openid,profile,email,wiki:sync',
+    grantTypes: 'authorization_code,refresh_token,client_credentials',
+  };
+
+  const publicClient = {
+    ...confidentialClient,
+    id: 'client2',
+    clientId: 'b'.repeat(32),
+    clientSecretHash: null,
+    name: 'Desktop App',
+    redirectUris: 'http://127.0.0.1:8400/callback',
+    grantTypes: 'authorization_code',
+  };
+
+  const codeVerifier = 'verifier-'.padEnd(64, 'x');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const request = (overrides: Partial<OAuthAuthorizationRequest> = {}): OAuthAuthorizationRequest => ({
+    clientId: confidentialClient.clientId,
+    redirectUri: confidentialClient.redirectUris,
+    responseType: 'code',
+    scope: 'openid email',
+    state: 'client-state',
+    nonce: 'client-nonce',
+    ...overrides,
+  });
+
+  const credentials = { clientId: confidentialClient.clientId, clientSecret };
+
+  // Approve a request and return the code the client would receive
+  const authorize = async (overrides: Partial<OAuthAuthorizationRequest> = {}) => {
+    const { redirectUrl } = await oauthServerService.completeAuthorization('user123', request(overrides), true);
+    return new URL(redirectUrl).searchParams.get('code')!;
+  };
+
+  const verifyToken = (token: string, audience: string) =>
+    jwtVerify(token, createLocalJWKSet(keyring.getJwks()), { issuer, audience });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-keys-'));
+    keyring = new JwtKeyring({
+      algorithm: 'ES256',
+      secret: authConfig.jwt.secret,
+      keysDir,
+      rotationIntervalMs: 30 * DAY,
+      retentionMs: 10 * 60 * 1000,
+    });
+    oauthServerService = new OAuthServerService(mockPrisma, keyring);
+    storedCode = null;
+
+    mockPrisma.oAuthClient.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve([confidentialClient, publicClient].find(client => client.clientId === where.clientId) ?? null)
+    );
+    mockPrisma.oAuthConsent.findUnique.mockResolvedValue(null);
+    mockPrisma.oAuthAuthorizationCode.deleteMany.mockResolvedValue({ count: 0 });
+    // Keep the issued code so the token endpoint can find it
+    mockPrisma.oAuthAuthorizationCode.create.mockImplementation(({ data }: any) => {
+      storedCode = { id: 'code1', usedAt: null, sessionId: null, ...data };
+      return Promise.resolve(storedCode);
+    });
+    mockPrisma.oAuthAuthorizationCode.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(storedCode?.codeHash === where.codeHash ? { ...storedCode, user } : null)
+    );
+    mockPrisma.oAuthAuthorizationCode.updateMany.mockImplementation(() => {
+      const claimed = storedCode && !storedCode.usedAt;
+      if (claimed) storedCode!.usedAt = new Date();
+      return Promise.resolve({ count: claimed ? 1 : 0 });
+    });
+    mockPrisma.oAuthAuthorizationCode.update.mockImplementation(({ data }: any) => {
+      Object.assign(storedCode!, data);
+      return Promise.resolve(storedCode);
+    });
+    mockSessionRepository.createSession.mockResolvedValue({ id: 'session1', refreshToken: 'refresh1' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  describe('prepareAuthorization', () => {
+    it('should describe the request for the consent screen', async () => {
+      await expect(oauthServerService.prepareAuthorization('user123', request())).resolves.toEqual({
+        client: { clientId: confidentialClient.clientId, name: 'Internal Wiki' },
+        scopes: ['openid', 'email'],
+        consentRequired: true,
+      });
+    });
+
+    it('should skip consent for scopes the user already agreed to', async () => {
+      mockPrisma.oAuthConsent.findUnique.mockResolvedValue({ scopes: 'openid,profile,email' });
+
+      await expect(oauthServerService.prepareAuthorization('user123', request())).resolves.toMatchObject({
+        consentRequired: false,
+      });
+    });
+
+    it('should not redirect to an unregistered redirect URI', async () => {
+      await expect(
+        oauthServerService.prepareAuthorization('user123', request({ redirectUri: 'https://evil.example.com/cb' }))
+      ).rejects.toThrow(
+        new AuthError('INVALID_REDIRECT_URI', 'The app sent you back to an address it is not registered for')
+      );
+    });
+
+    it('should send scope errors back to the client', async () => {
+      const result = (await oauthServerService.prepareAuthorization(
+        'user123',
+        request({ scope: 'openid admin' })
+      )) as OAuthAuthorizationRedirect;
+      const params = new URL(result.redirectUrl).searchParams;
+
+      expect(params.get('error')).toBe('invalid_scope');
+      expect(params.get('state')).toBe('client-state');
+      expect(params.get('iss')).toBe(issuer);
+    });
+
+    it('should require PKCE from public clients', async () => {
+      const result = (await oauthServerService.prepareAuthorization(
+        'user123',
+        request({ clientId: publicClient.clientId, redirectUri: publicClient.redirectUris })
+      )) as OAuthAuthorizationRedirect;
+
+      expect(new URL(result.redirectUrl).searchParams.get('error')).toBe('invalid_request');
+    });
+  });
+
+  describe('completeAuthorization', () => {
+    it('should remember consent and return a single-use code', async () => {
+      const { redirectUrl } = await oauthServerService.completeAuthorization('user123', request(), true);
+      const params = new URL(redirectUrl).searchParams;
+
+      expect(redirectUrl.startsWith('https://wiki.example.com/callback?')).toBe(true);
+      expect(params.get('state')).toBe('client-state');
+      expect(storedCode).toMatchObject({ codeHash: hashToken(params.get('code')!), scopes: 'openid,email' });
+      expect(mockPrisma.oAuthConsent.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ create: { userId: 'user123', clientId: 'client1', scopes: 'openid,email' } })
+      );
+    });
+
+    it('should tell the client when the user declines', async () => {
+      const { redirectUrl } = await oauthServerService.completeAuthorization('user123', request(), false);
+
+      expect(new URL(redirectUrl).searchParams.get('error')).toBe('access_denied');
+      expect(mockPrisma.oAuthAuthorizationCode.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exchangeToken', () => {
+    describe('authorization_code', () => {
+      it('should issue access, ID and refresh tokens', async () => {
+        const code = await authorize();
+
+        const tokens = await oauthServerService.exchangeToken(credentials, {
+          grantType: 'authorization_code',
+          code,
+          redirectUri: confidentialClient.redirectUris,
+        });
+
+        const { payload: idToken } = await verifyToken(tokens.id_token!, confidentialClient.clientId);
+        expect(idToken).toMatchObject({
+          sub: 'user123',
+          nonce: 'client-nonce',
+          email: 'test@example.com',
+          email_verified: true,
+        });
+        expect(idToken).not.toHaveProperty('name');
+
+        const { payload: accessToken } = await verifyToken(tokens.access_token, issuer);
+        expect(accessToken).toMatchObject({ sub: 'user123', scope: 'openid email', sid: 'session1' });
+
+        expect(tokens.refresh_token).toBe('refresh1');
+        expect(mockSessionRepository.createSession).toHaveBeenCalledWith('user123', expect.any(Date), undefined, {
+          oauthClientId: 'client1',
+          scopes: ['openid', 'email'],
+        });
+      });
+
+      it('should check the PKCE verifier', async () => {
+        const code = await authorize({
+          clientId: publicClient.clientId,
+          redirectUri: publicClient.redirectUris,
+          codeChallenge,
+          codeChallengeMethod: 'S256',
+        });
+        const exchange = (verifier: string) =>
+          oauthServerService.exchangeToken(
+            { clientId: publicClient.clientId },
+            { grantType: 'authorization_code', code, redirectUri: publicClient.redirectUris, codeVerifier: verifier }
+          );
+
+        await expect(exchange('wrong-verifier')).rejects.toMatchObject({ error: 'invalid_grant' });
+
+        const tokens = await exchange(codeVerifier);
+        expect(tokens.id_token).toBeDefined();
+        // The public client was not allowed refresh tokens
+        expect(tokens.refresh_token).toBeUndefined();
+      });
+
+      it('should revoke what a replayed code was redeemed for', async () => {
+        const code = await authorize();
+        const tokenRequest = { grantType: 'authorization_code', code, redirectUri: confidentialClient.redirectUris };
+        await oauthServerService.exchangeToken(credentials, tokenRequest);
+        const session = { id: 'session1', userId: 'user123', familyId: 'family1' };
+        mockSessionRepository.findById.mockResolvedValue(session);
+
+        await expect(oauthServerService.exchangeToken(credentials, tokenRequest)).rejects.toMatchObject({
+          error: 'invalid_grant',
+        });
+        expect(mockSessionRepository.revokeSessionFamily).toHaveBeenCalledWith(session);
+      });
+
+      it('should reject a wrong client secret', async () => {
+        const code = await authorize();
+
+        await expect(
+          oauthServerService.exchangeToken(
+            { clientId: confidentialClient.clientId, clientSecret: 'guess' },
+            { grantType: 'authorization_code', code, redirectUri: confidentialClient.redirectUris }
+          )
+        ).rejects.toThrow(new OAuthError('invalid_client', 'Client authentication failed', 401));
+      });
+    });
+
+    describe('refresh_token', () => {
+      const session = {
+        id: 'session1',
+        userId: 'user123',
+        familyId: 'family1',
+        oauthClientId: 'client1',
+        scopes: 'openid,email',
+        isRevoked: false,
+        consumedAt: null,
+        expiresAt: new Date(Date.now() + DAY),
+      };
+
+      it('should rotate the refresh token', async () => {
+        mockSessionRepository.findByRefreshToken.mockResolvedValue(session);
+        mockSessionRepository.rotateSession.mockResolvedValue({ id: 'session2', refreshToken: 'refresh2' });
+        mockPrisma.user.findUnique.mockResolvedValue(user);
+
+        const tokens = await oauthServerService.exchangeToken(credentials, {
+          grantType: 'refresh_token',
+          refreshToken: 'refresh1',
+        });
+
+        expect(tokens.refresh_token).toBe('refresh2');
+        expect(tokens.scope).toBe('openid email');
+        await expect(verifyToken(tokens.access_token, issuer)).resolves.toMatchObject({
+          payload: expect.objectContaining({ sid: 'session2' }),
+        });
+      });
+
+      it('should revoke the family when a consumed token is replayed', async () => {
+        mockSessionRepository.findByRefreshToken.mockResolvedValue({ ...session, consumedAt: new Date() });
+
+        await expect(
+          oauthServerService.exchangeToken(credentials, { grantType: 'refresh_token', refreshToken: 'refresh1' })
+        ).rejects.toMatchObject({ error: 'invalid_grant' });
+        expect(mockSessionRepository.revokeSessionFamily).toHaveBeenCalled();
+        expect(mockSessionRepository.rotateSession).not.toHaveBeenCalled();
+      });
+
+      it('should not accept refresh tokens issued to this app or another client', async () => {
+        mockSessionRepository.findByRefreshToken.mockResolvedValue({ ...session, oauthClientId: null });
+
+        await expect(
+          oauthServerService.exchangeToken(credentials, { grantType: 'refresh_token', refreshToken: 'refresh1' })
+        ).rejects.toMatchObject({ error: 'invalid_grant' });
+      });
+    });
+
+    describe('client_credentials', () => {
+      it('should issue a token for the client itself', async () => {
+        const tokens = await oauthServerService.exchangeToken(credentials, { grantType: 'client_credentials' });
+
+        expect(tokens.id_token).toBeUndefined();
+        expect(tokens.refresh_token).toBeUndefined();
+        await expect(verifyToken(tokens.access_token, issuer)).resolves.toMatchObject({
+          payload: expect.objectContaining({ sub: confidentialClient.clientId, scope: 'wiki:sync' }),
+        });
+      });
+
+      it('should refuse identity scopes', async () => {
+        await expect(
+          oauthServerService.exchangeToken(credentials, { grantType: 'client_credentials', scope: 'openid' })
+        ).rejects.toMatchObject({ error: 'invalid_scope' });
+      });
+
+      it('should refuse clients not registered for the grant', async () => {
+        await expect(
+          oauthServerService.exchangeToken({ clientId: publicClient.clientId }, { grantType: 'client_credentials' })
+        ).rejects.toMatchObject({ error: 'unauthorized_client' });
+      });
+    });
+
+    it('should be unavailable without published signing keys', async () => {
+      const sharedSecretKeyring = new JwtKeyring({
+        algorithm: 'HS256',
+        secret: authConfig.jwt.secret,
+        keysDir,
+        rotationIntervalMs: 30 * DAY,
+        retentionMs: 10 * 60 * 1000,
+      });
+      oauthServerService = new OAuthServerService(mockPrisma, sharedSecretKeyring);
+
+      await expect(
+        oauthServerService.exchangeToken(credentials, { grantType: 'client_credentials' })
+      ).rejects.toMatchObject({ error: 'temporarily_unavailable', statusCode: 503 });
+    });
+  });
+
+  describe('getUserInfo', () => {
+    it('should return the claims the token was granted', async () => {
+      const code = await authorize();
+      const tokens = await oauthServerService.exchangeToken(credentials, {
+        grantType: 'authorization_code',
+        code,
+        redirectUri: confidentialClient.redirectUris,
+      });
+      mockSessionRepository.findById.mockResolvedValue({ id: 'session1', isRevoked: false });
+      mockPrisma.user.findUnique.mockResolvedValue(user);
+
+      await expect(oauthServerService.getUserInfo(tokens.access_token)).resolves.toEqual({
+        sub: 'user123',
+        email: 'test@example.com',
+        email_verified: true,
+      });
+    });
+
+    it('should reject tokens whose session was revoked', async () => {
+      const code = await authorize();
+      const tokens = await oauthServerService.exchangeToken(credentials, {
+        grantType: 'authorization_code',
+        code,
+        redirectUri: confidentialClient.redirectUris,
+      });
+      mockSessionRepository.findById.mockResolvedValue({ id: 'session1', isRevoked: true });
+
+      await expect(oauthServerService.getUserInfo(tokens.access_token)).rejects.toMatchObject({
+        error: 'invalid_token',
+      });
+    });
+
+    it('should reject client tokens', async () => {
+      const tokens = await oauthServerService.exchangeToken(credentials, { grantType: 'client_credentials' });
+
+      await expect(oauthServerService.getUserInfo(tokens.access_token)).rejects.toMatchObject({
+        error: 'insufficient_scope',
+      });
+    });
+  });
+});
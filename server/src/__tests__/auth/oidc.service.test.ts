@@ -0,0 +1,265 @@
+import { OidcService } from '../../modules/auth/oidc.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+import { MockOidcProvider } from '../helpers/mockOidcProvider';
+
+// Mock Prisma
+const mockPrisma = {
+  oidcAuthorization: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  linkedIdentity: {
+    count: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  user: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
+} as any;
+
+describe('OidcService', () => {
+  let provider: MockOidcProvider;
+  let oidcService: OidcService;
+  let pendingRequest: Record<string, any> | null;
+
+  const user = {
+    id: 'user123',
+    email: 'oidc@example.com',
+    password: 'hashed-password',
+    emailVerified: new Date(),
+  };
+
+  beforeAll(async () => {
+    provider = await MockOidcProvider.start();
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pendingRequest = null;
+    provider.account = { sub: 'oidc-user-1', email: 'OIDC@example.com', email_verified: true, name: 'OIDC User' };
+    provider.omitEmailFromIdToken = false;
+    provider.idTokenClaims = {};
+
+    // Keep the stored authorization request so the callback can find it
+    mockPrisma.oidcAuthorization.create.mockImplementation(({ data }: any) => {
+      pendingRequest = { id: 'request1', ...data };
+      return Promise.resolve(pendingRequest);
+    });
+    mockPrisma.oidcAuthorization.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(pendingRequest?.stateHash === where.stateHash ? pendingRequest : null)
+    );
+    mockPrisma.oidcAuthorization.deleteMany.mockResolvedValue({ count: 1 });
+
+    oidcService = new OidcService(mockPrisma, [
+      {
+        id: 'mock',
+        name: 'Mock ID',
+        issuer: provider.issuer,
+        clientId: provider.clientId,
+        clientSecret: provider.clientSecret,
+        scopes: 'openid email profile',
+      },
+    ]);
+  });
+
+  // Start a request and come back from the provider the way the browser would
+  const signInAtProvider = async (userId?: string) => {
+    const { authorizationUrl, state } = await oidcService.startAuthorization('mock', userId);
+    const callback = provider.authorize(authorizationUrl);
+    expect(callback.state).toBe(state);
+    return callback;
+  };
+
+  describe('startAuthorization', () => {
+    it('should store a hashed state and request the code flow with PKCE', async () => {
+      const { authorizationUrl, state } = await oidcService.startAuthorization('mock');
+      const params = new URL(authorizationUrl).searchParams;
+
+      expect(pendingRequest).toMatchObject({ stateHash: hashToken(state), provider: 'mock', userId: null });
+      expect(params.get('client_id')).toBe('test-client');
+      expect(params.get('redirect_uri')).toBe('http://localhost:3000/auth/callback');
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).not.toBe(pendingRequest!.codeVerifier);
+      expect(params.get('nonce')).toBe(pendingRequest!.nonce);
+    });
+
+    it('should reject providers that are not configured', async () => {
+      await expect(oidcService.startAuthorization('other')).rejects.toThrow(
+        new AuthError('UNKNOWN_OIDC_PROVIDER', 'Sign-in provider is not configured')
+      );
+    });
+  });
+
+  describe('completeAuthorization', () => {
+    it('should exchange the code and return the verified profile', async () => {
+      const { code, state } = await signInAtProvider();
+
+      const profile = await oidcService.completeAuthorization('mock', code, state);
+
+      expect(profile).toEqual({
+        subject: 'oidc-user-1',
+        email: 'oidc@example.com',
+        emailVerified: true,
+        name: 'OIDC User',
+      });
+      expect(mockPrisma.oidcAuthorization.deleteMany).toHaveBeenCalledWith({ where: { id: 'request1' } });
+    });
+
+    it('should fall back to userinfo when the ID token has no email', async () => {
+      provider.omitEmailFromIdToken = true;
+      const { code, state } = await signInAtProvider();
+
+      const profile = await oidcService.completeAuthorization('mock', code, state);
+
+      expect(profile.email).toBe('oidc@example.com');
+      expect(profile.emailVerified).toBe(true);
+    });
+
+    it('should reject an unknown state', async () => {
+      const { code } = await signInAtProvider();
+
+      await expect(oidcService.completeAuthorization('mock', code, 'forged-state')).rejects.toThrow(
+        new AuthError('INVALID_OIDC_STATE', 'Sign-in request is invalid or has expired. Please try again.')
+      );
+    });
+
+    it('should not let a sign-in request complete a link', async () => {
+      const { code, state } = await signInAtProvider();
+
+      await expect(oidcService.completeAuthorization('mock', code, state, 'user123')).rejects.toMatchObject({
+        code: 'INVALID_OIDC_STATE',
+      });
+    });
+
+    it('should reject ID tokens issued for another nonce', async () => {
+      provider.idTokenClaims = { nonce: 'replayed-nonce' };
+      const { code, state } = await signInAtProvider();
+
+      await expect(oidcService.completeAuthorization('mock', code, state)).rejects.toMatchObject({
+        code: 'INVALID_ID_TOKEN',
+      });
+    });
+
+    it('should fail when the provider rejects the code', async () => {
+      const { state } = await signInAtProvider();
+
+      await expect(oidcService.completeAuthorization('mock', 'wrong-code', state)).rejects.toMatchObject({
+        code: 'OIDC_EXCHANGE_FAILED',
+      });
+    });
+  });
+
+  describe('findOrCreateUser', () => {
+    const profile = { subject: 'oidc-user-1', email: 'oidc@example.com', emailVerified: true, name: 'OIDC User' };
+
+    it('should sign in the user a provider account is linked to', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue({ id: 'identity1', user });
+
+      await expect(oidcService.findOrCreateUser('mock', profile)).resolves.toEqual({ user, created: false });
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a user without a password for a new account', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+      mockPrisma.user.create.mockResolvedValue({ ...user, password: null });
+
+      const result = await oidcService.findOrCreateUser('mock', profile);
+
+      expect(result.created).toBe(true);
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'oidc@example.com',
+          password: null,
+          emailVerified: expect.any(Date),
+          identities: { create: expect.objectContaining({ provider: 'mock', subject: 'oidc-user-1' }) },
+        }),
+      });
+    });
+
+    it('should link an existing account when both sides verified the email', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue({ ...user, identities: [] });
+
+      await expect(oidcService.findOrCreateUser('mock', profile)).resolves.toEqual({ user, created: false });
+      expect(mockPrisma.linkedIdentity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user123', provider: 'mock', subject: 'oidc-user-1' }),
+      });
+    });
+
+    it('should refuse to link an existing account on an unverified email', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue({ ...user, emailVerified: null, identities: [] });
+
+      await expect(oidcService.findOrCreateUser('mock', profile)).rejects.toMatchObject({ code: 'ACCOUNT_EXISTS' });
+      expect(mockPrisma.linkedIdentity.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('linkIdentity', () => {
+    const profile = { subject: 'oidc-user-1', email: 'oidc@example.com', emailVerified: true, name: null };
+
+    it('should refuse provider accounts linked to someone else', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue({ id: 'identity1', userId: 'other-user' });
+
+      await expect(oidcService.linkIdentity('user123', 'mock', profile)).rejects.toMatchObject({
+        code: 'IDENTITY_IN_USE',
+      });
+    });
+
+    it('should link a new provider account', async () => {
+      mockPrisma.linkedIdentity.findUnique.mockResolvedValue(null);
+      mockPrisma.linkedIdentity.count.mockResolvedValue(0);
+      mockPrisma.linkedIdentity.create.mockResolvedValue({
+        id: 'identity1',
+        provider: 'mock',
+        email: 'oidc@example.com',
+        lastUsedAt: null,
+        createdAt: new Date(),
+      });
+
+      const identity = await oidcService.linkIdentity('user123', 'mock', profile);
+
+      expect(identity).toMatchObject({ id: 'identity1', provider: 'mock', providerName: 'Mock ID' });
+    });
+  });
+
+  describe('unlinkIdentity', () => {
+    it('should keep the last way to sign in', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...user,
+        password: null,
+        identities: [{ id: 'identity1', provider: 'mock' }],
+        _count: { webAuthnCredentials: 0 },
+      });
+
+      await expect(oidcService.unlinkIdentity('user123', 'identity1')).rejects.toMatchObject({
+        code: 'LAST_SIGN_IN_METHOD',
+      });
+      expect(mockPrisma.linkedIdentity.delete).not.toHaveBeenCalled();
+    });
+
+    it('should unlink when the user has a password', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...user,
+        identities: [{ id: 'identity1', provider: 'mock' }],
+        _count: { webAuthnCredentials: 0 },
+      });
+
+      await oidcService.unlinkIdentity('user123', 'identity1');
+
+      expect(mockPrisma.linkedIdentity.delete).toHaveBeenCalledWith({ where: { id: 'identity1' } });
+    });
+  });
+});
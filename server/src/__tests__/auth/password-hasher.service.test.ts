@@ -0,0 +1,55 @@
+import * as argon2 from 'argon2';
+import * as bcrypt from 'bcryptjs';
+
+import { PasswordHasherService } from '../../modules/auth/password-hasher.service';
+
+// Cheap parameters keep the real hashing fast
+const options = { memoryCost: 1024, timeCost: 2, parallelism: 1 };
+
+describe('PasswordHasherService', () => {
+  const hasher = new PasswordHasherService(options);
+
+  describe('hash', () => {
+    it('should produce argon2id hashes with the configured parameters', async () => {
+      const hash = await hasher.hash('SecurePass123!');
+
+      expect(hash).toMatch(/^\$argon2id\$v=19\$m=1024,t=2,p=1\$/);
+      await expect(hasher.verify(hash, 'SecurePass123!')).resolves.toBe(true);
+      await expect(hasher.verify(hash, 'WrongPass123!')).resolves.toBe(false);
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify legacy bcrypt hashes', async () => {
+      const hash = bcrypt.hashSync('SecurePass123!', 4);
+
+      await expect(hasher.verify(hash, 'SecurePass123!')).resolves.toBe(true);
+      await expect(hasher.verify(hash, 'WrongPass123!')).resolves.toBe(false);
+      // $2y$ hashes from PHP use the same algorithm
+      await expect(hasher.verify(hash.replace(/^\$2b\$/, '$2y$'), 'SecurePass123!')).resolves.toBe(true);
+    });
+  });
+
+  describe('needsRehash', () => {
+    it('should keep hashes made with the current parameters', async () => {
+      expect(hasher.needsRehash(await hasher.hash('SecurePass123!'))).toBe(false);
+    });
+
+    it('should upgrade hashes made with older parameters', async () => {
+      const stronger = new PasswordHasherService({ ...options, memoryCost: 2048 });
+      const parallel = new PasswordHasherService({ ...options, parallelism: 2 });
+      const hash = await hasher.hash('SecurePass123!');
+
+      expect(stronger.needsRehash(hash)).toBe(true);
+      expect(new PasswordHasherService({ ...options, timeCost: 3 }).needsRehash(hash)).toBe(true);
+      expect(parallel.needsRehash(hash)).toBe(true);
+    });
+
+    it('should upgrade other argon2 variants and bcrypt hashes', async () => {
+      const argon2i = await argon2.hash('SecurePass123!', { ...options, type: argon2.argon2i });
+
+      expect(hasher.needsRehash(argon2i)).toBe(true);
+      expect(hasher.needsRehash(bcrypt.hashSync('SecurePass123!', 4))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { checkPasswordRules, PasswordPolicyConfig, PasswordPolicyService } from '../../modules/auth/password-policy.service';
+import { authConfig } from '../../config/auth.config';
+import { AuthError } from '../../types/auth.types';
+
+// Mock argon2 module
+jest.mock('argon2', () => ({
+  verify: jest.fn(),
+}));
+
+import * as argon2 from 'argon2';
+
+// Mock Prisma
+const mockPrisma = {
+  passwordHistory: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+} as any;
+
+const basePolicy: PasswordPolicyConfig = {
+  ...authConfig.passwordPolicy,
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  minStrength: 2,
+  bannedWords: ['smarttask'],
+  historyCount: 3,
+  maxAgeDays: 0,
+  breachListDir: undefined,
+};
+
+const owner = { email: 'jane.doe@example.com', name: 'Jane Doe' };
+const user = { id: 'user123', password: 'currentHash' };
+
+describe('PasswordPolicyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.passwordHistory.findMany.mockResolvedValue([]);
+  });
+
+  describe('checkPasswordRules', () => {
+    it('should list every rule a password breaks', () => {
+      expect(checkPasswordRules('abc', basePolicy)).toEqual([
+        'Password must be at least 8 characters',
+        'Password must contain an uppercase letter',
+        'Password must contain a number',
+        'Password must contain a special character',
+      ]);
+    });
+
+    it('should accept letters and digits outside ASCII', () => {
+      expect(checkPasswordRules('Ünïcödé٣!', basePolicy)).toEqual([]);
+    });
+
+    it('should only apply the enabled character classes', () => {
+      const relaxed = { ...basePolicy, requireUppercase: false, requireSymbol: false };
+
+      expect(checkPasswordRules('lowercase1', relaxed)).toEqual([]);
+    });
+  });
+
+  describe('check', () => {
+    it('should accept a strong unused password', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+      (argon2.verify as jest.Mock).mockResolvedValue(false);
+
+      await expect(service.check('Violet-Harbor-Lamp-92', owner, user)).resolves.toEqual([]);
+    });
+
+    it('should reject passwords containing personal details or banned words', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+
+      await expect(service.check('Jane.Doe-Lantern-92', owner)).resolves.toContain(
+        'Password must not contain your name or email address'
+      );
+      await expect(service.check('SmartTask-Lantern-92', owner)).resolves.toContain(
+        'Password must not contain the name of this app or other banned words'
+      );
+    });
+
+    it('should reject easily guessed passwords', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+
+      await expect(service.check('Password123!', owner)).resolves.toEqual([
+        'Password is too easy to guess. Try a longer phrase or less common words.',
+      ]);
+    });
+
+    it('should reject passwords on the breached password list', async () => {
+      const dir = mkdtempSync(path.join(os.tmpdir(), 'breach-'));
+      const hash = crypto.createHash('sha1').update('Violet-Harbor-Lamp-92').digest('hex').toUpperCase();
+      writeFileSync(path.join(dir, `${hash.slice(0, 5)}.txt`), `0000000000000000000000000000000000A:2\r\n${hash.slice(5)}:7\r\n`);
+
+      try {
+        const service = new PasswordPolicyService(mockPrisma, { ...basePolicy, breachListDir: dir });
+
+        await expect(service.check('Violet-Harbor-Lamp-92', owner)).resolves.toEqual([
+          'This password has appeared in a data breach. Choose a different one.',
+        ]);
+        // Ranges missing from the list have no breached passwords
+        await expect(service.check('Amber-Quarry-Tide-47', owner)).resolves.toEqual([]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject the current and recent passwords', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([{ passwordHash: 'oldHash' }]);
+      (argon2.verify as jest.Mock).mockImplementation(async (hash: string) => hash === 'oldHash');
+
+      await expect(service.check('Violet-Harbor-Lamp-92', owner, user)).resolves.toEqual([
+        'Password must differ from your last 3 passwords',
+      ]);
+      expect(mockPrisma.passwordHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user123' }, take: 3 })
+      );
+      expect(argon2.verify).toHaveBeenCalledWith('oldHash', 'Violet-Harbor-Lamp-92');
+    });
+  });
+
+  describe('assertAcceptable', () => {
+    it('should throw the first issue with all of them as details', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+
+      const error = await service.assertAcceptable('short', owner).catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.code).toBe('PASSWORD_POLICY_VIOLATION');
+      expect(error.message).toBe('Password must be at least 8 characters');
+      expect(error.details.issues.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('recordPassword', () => {
+    it('should keep only as many passwords as the policy checks', async () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+      mockPrisma.passwordHistory.findMany.mockResolvedValue([{ id: 'old1' }, { id: 'old2' }]);
+
+      await service.recordPassword('user123', 'newHash');
+
+      expect(mockPrisma.passwordHistory.create).toHaveBeenCalledWith({
+        data: { userId: 'user123', passwordHash: 'newHash' },
+      });
+      expect(mockPrisma.passwordHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user123' }, skip: 3 })
+      );
+      expect(mockPrisma.passwordHistory.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['old1', 'old2'] } },
+      });
+    });
+
+    it('should not keep history when reuse is allowed', async () => {
+      const service = new PasswordPolicyService(mockPrisma, { ...basePolicy, historyCount: 0 });
+
+      await service.recordPassword('user123', 'newHash');
+
+      expect(mockPrisma.passwordHistory.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isExpired', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    it('should never expire passwords without a maximum age', () => {
+      const service = new PasswordPolicyService(mockPrisma, basePolicy);
+
+      expect(service.isExpired({ passwordChangedAt: new Date(0), createdAt: new Date(0) })).toBe(false);
+    });
+
+    it('should expire passwords older than the maximum age', () => {
+      const service = new PasswordPolicyService(mockPrisma, { ...basePolicy, maxAgeDays: 90 });
+
+      expect(service.isExpired({ passwordChangedAt: new Date(Date.now() - 91 * day), createdAt: new Date() })).toBe(true);
+      expect(service.isExpired({ passwordChangedAt: new Date(Date.now() - 30 * day), createdAt: new Date(0) })).toBe(false);
+      // Accounts created before changes were tracked count from sign-up
+      expect(service.isExpired({ passwordChangedAt: null, createdAt: new Date(Date.now() - 91 * day) })).toBe(true);
+    });
+  });
+});
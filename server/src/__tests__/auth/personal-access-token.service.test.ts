@@ -0,0 +1,157 @@
+import { PersonalAccessTokenService } from '../../modules/auth/personal-access-token.service';
+import { AuthError } from '../../types/auth.types';
+import { hmacToken } from '../../utils/tokens';
+import { authConfig } from '../../config/auth.config';
+
+// Mock Prisma
+const mockPrisma = {
+  personalAccessToken: {
+    count: jest.fn(),
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+} as any;
+
+// Mock RbacService
+const mockRbacService = {
+  getUserAuthorization: jest.fn(),
+};
+
+jest.mock('../../modules/auth/rbac.service', () => ({
+  ...jest.requireActual('../../modules/auth/rbac.service'),
+  RbacService: jest.fn().mockImplementation(() => mockRbacService),
+}));
+
+describe('PersonalAccessTokenService', () => {
+  let personalAccessTokenService: PersonalAccessTokenService;
+
+  const user = {
+    id: 'user123',
+    email: 'test@example.com',
+    isActive: true,
+    isLocked: false,
+    lockedUntil: null,
+  };
+
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    id: 'token1',
+    userId: 'user123',
+    name: 'CI',
+    tokenHash: 'hash',
+    hint: 'abcd',
+    scopes: 'profile:read,users:read',
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    createdAt: new Date(),
+    user,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRbacService.getUserAuthorization.mockResolvedValue({
+      roles: ['SUPPORT'],
+      permissions: ['users:read', 'users:write'],
+    });
+    personalAccessTokenService = new PersonalAccessTokenService(mockPrisma);
+  });
+
+  describe('createToken', () => {
+    it('should store a keyed hash and return the prefixed token once', async () => {
+      mockPrisma.personalAccessToken.count.mockResolvedValue(0);
+      mockPrisma.personalAccessToken.create.mockImplementation(({ data }: any) =>
+        Promise.resolve(record({ ...data, user: undefined }))
+      );
+
+      const result = await personalAccessTokenService.createToken('user123', {
+        name: 'CI',
+        scopes: ['profile:read', 'users:read'],
+      });
+
+      const { data } = mockPrisma.personalAccessToken.create.mock.calls[0][0];
+
+      expect(result.token.startsWith(authConfig.personalAccessTokens.prefix)).toBe(true);
+      expect(data.tokenHash).toBe(hmacToken(result.token, authConfig.security.refreshTokenSecret));
+      expect(data.scopes).toBe('profile:read,users:read');
+      expect(result.personalAccessToken.hint).toBe(`stpat_…${result.token.slice(-4)}`);
+      expect(result.personalAccessToken).not.toHaveProperty('tokenHash');
+    });
+
+    it('should reject permissions the user does not hold', async () => {
+      mockPrisma.personalAccessToken.count.mockResolvedValue(0);
+
+      await expect(
+        personalAccessTokenService.createToken('user123', { name: 'CI', scopes: ['roles:manage'] })
+      ).rejects.toThrow(new AuthError('INVALID_SCOPE', 'You cannot grant permissions you do not hold'));
+      expect(mockPrisma.personalAccessToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-user limit', async () => {
+      mockPrisma.personalAccessToken.count.mockResolvedValue(authConfig.personalAccessTokens.maxPerUser);
+
+      await expect(
+        personalAccessTokenService.createToken('user123', { name: 'CI', scopes: ['profile:read'] })
+      ).rejects.toThrow(new AuthError('TOKEN_LIMIT_REACHED', 'Delete an existing token before creating another'));
+    });
+  });
+
+  describe('revokeToken', () => {
+    it('should only delete the user\'s own token', async () => {
+      mockPrisma.personalAccessToken.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(personalAccessTokenService.revokeToken('user123', 'token1')).rejects.toThrow(
+        new AuthError('TOKEN_NOT_FOUND', 'Personal access token not found')
+      );
+      expect(mockPrisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'token1', userId: 'user123' },
+      });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should narrow permissions to the token scopes and record use', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(record());
+
+      const result = await personalAccessTokenService.authenticate('stpat_token', '203.0.113.7');
+
+      expect(result).toEqual({
+        userId: 'user123',
+        email: 'test@example.com',
+        roles: ['SUPPORT'],
+        permissions: ['users:read'],
+        tokenId: 'token1',
+        scopes: ['profile:read', 'users:read'],
+      });
+      expect(mockPrisma.personalAccessToken.update).toHaveBeenCalledWith({
+        where: { id: 'token1' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '203.0.113.7' },
+      });
+    });
+
+    it('should not record use again within the update interval', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(record({ lastUsedAt: new Date() }));
+
+      await personalAccessTokenService.authenticate('stpat_token');
+
+      expect(mockPrisma.personalAccessToken.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse expired tokens', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(
+        record({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(personalAccessTokenService.authenticate('stpat_token')).resolves.toBeNull();
+    });
+
+    it('should refuse tokens of deactivated users', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(record({ user: { ...user, isActive: false } }));
+
+      await expect(personalAccessTokenService.authenticate('stpat_token')).resolves.toBeNull();
+    });
+  });
+});
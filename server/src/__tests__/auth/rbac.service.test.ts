@@ -0,0 +1,179 @@
+import { RbacService, ALL_PERMISSIONS } from '../../modules/auth/rbac.service';
+import { AuthError } from '../../types/auth.types';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  role: {
+    upsert: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  userRole: {
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+    createMany: jest.fn(),
+    count: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+describe('RbacService', () => {
+  let rbacService: RbacService;
+
+  const role = (name: string, permissions = '', isSystem = false) => ({
+    id: `role-${name}`,
+    name,
+    description: null,
+    permissions,
+    isSystem,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg: any) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    rbacService = new RbacService(mockPrisma);
+  });
+
+  describe('ensureSystemRoles', () => {
+    it('should give ADMIN every permission', async () => {
+      await rbacService.ensureSystemRoles();
+
+      expect(mockPrisma.role.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { name: 'ADMIN' },
+          update: expect.objectContaining({ permissions: ALL_PERMISSIONS.join(','), isSystem: true }),
+        })
+      );
+      expect(mockPrisma.role.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { name: 'USER' } }));
+    });
+  });
+
+  describe('getUserAuthorization', () => {
+    it('should merge the permissions of every role the user holds', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([
+        { role: role('USER') },
+        { role: role('SUPPORT', 'users:read') },
+        { role: role('AUDITOR', 'audit:read,users:read') },
+      ]);
+
+      await expect(rbacService.getUserAuthorization('user123')).resolves.toEqual({
+        roles: ['AUDITOR', 'SUPPORT', 'USER'],
+        permissions: ['audit:read', 'users:read'],
+      });
+    });
+
+    it('should fall back to the default role for users without assignments', async () => {
+      mockPrisma.userRole.findMany.mockResolvedValue([]);
+      mockPrisma.role.findMany.mockResolvedValue([role('USER', '', true)]);
+
+      await expect(rbacService.getUserAuthorization('user123')).resolves.toEqual({
+        roles: ['USER'],
+        permissions: [],
+      });
+      expect(mockPrisma.role.findMany).toHaveBeenCalledWith({ where: { name: 'USER' } });
+    });
+  });
+
+  describe('createRole', () => {
+    it('should store the permissions of a custom role', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue(null);
+      mockPrisma.role.create.mockImplementation(({ data }: any) => ({ ...role(data.name), ...data }));
+
+      const created = await rbacService.createRole({ name: 'SUPPORT', permissions: ['users:write', 'users:read'] });
+
+      expect(mockPrisma.role.create).toHaveBeenCalledWith({
+        data: { name: 'SUPPORT', description: null, permissions: 'users:read,users:write' },
+      });
+      expect(created.permissions).toEqual(['users:read', 'users:write']);
+    });
+
+    it('should reject unknown permissions', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue(null);
+
+      await expect(rbacService.createRole({ name: 'SUPPORT', permissions: ['everything'] })).rejects.toThrow(
+        new AuthError('INVALID_PERMISSION', 'Unknown permission')
+      );
+    });
+
+    it('should reject duplicate role names', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue(role('SUPPORT'));
+
+      await expect(rbacService.createRole({ name: 'SUPPORT', permissions: [] })).rejects.toThrow(
+        new AuthError('ROLE_EXISTS', 'A role with this name already exists')
+      );
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should not change built-in roles', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue(role('ADMIN', '', true));
+
+      await expect(rbacService.updateRole('role-ADMIN', { permissions: [] })).rejects.toThrow(
+        new AuthError('ROLE_IMMUTABLE', 'Built-in roles cannot be changed')
+      );
+      expect(mockPrisma.role.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteRole', () => {
+    it('should not delete built-in roles', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue(role('USER', '', true));
+
+      await expect(rbacService.deleteRole('role-USER')).rejects.toThrow(
+        new AuthError('ROLE_IMMUTABLE', 'Built-in roles cannot be changed')
+      );
+      expect(mockPrisma.role.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setUserRoles', () => {
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user123' });
+      mockPrisma.userRole.findMany.mockResolvedValue([]);
+      mockPrisma.role.findMany.mockImplementation(({ where }: any) =>
+        where.name.in ? where.name.in.map((name: string) => role(name)) : [role('USER')]
+      );
+    });
+
+    it('should always keep the default role', async () => {
+      mockPrisma.userRole.count.mockResolvedValue(1);
+
+      await rbacService.setUserRoles('user123', ['ADMIN'], 'admin123');
+
+      expect(mockPrisma.userRole.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user123' } });
+      expect(mockPrisma.userRole.createMany).toHaveBeenCalledWith({
+        data: [
+          { userId: 'user123', roleId: 'role-USER' },
+          { userId: 'user123', roleId: 'role-ADMIN' },
+        ],
+      });
+    });
+
+    it('should reject roles that do not exist', async () => {
+      mockPrisma.role.findMany.mockResolvedValue([role('USER')]);
+
+      await expect(rbacService.setUserRoles('user123', ['MISSING'])).rejects.toThrow(
+        new AuthError('ROLE_NOT_FOUND', 'Role not found')
+      );
+      expect(mockPrisma.userRole.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to remove the last administrator', async () => {
+      mockPrisma.userRole.count.mockResolvedValue(0);
+
+      await expect(rbacService.setUserRoles('user123', [])).rejects.toThrow(
+        new AuthError('LAST_ADMIN', 'At least one administrator is required')
+      );
+    });
+  });
+});
@@ -0,0 +1,587 @@
+import { SamlService } from '../../modules/auth/saml.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+import { MockSamlIdp, MockSamlRequest } from '../helpers/mockSamlIdp';
+
+jest.mock('dns/promises', () => ({
+  resolveTxt: jest.fn(),
+}));
+
+import { resolveTxt } from 'dns/promises';
+
+const mockResolveTxt = resolveTxt as jest.MockedFunction<typeof resolveTxt>;
+
+// Mock Prisma
+const mockPrisma = {
+  samlConnection: {
+    deleteMany: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  samlAuthnRequest: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  samlIdentity: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  organizationDomain: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    upsert: jest.fn(),
+  },
+  organizationMembership: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  user: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
+} as any;
+
+describe('SamlService', () => {
+  const idp = new MockSamlIdp();
+  let samlService: SamlService;
+  let connection: Record<string, any>;
+  let requests: Record<string, any>[];
+  let domains: Record<string, any>[];
+
+  const acsUrl = 'http://localhost:3000/api/auth/saml/conn1/acs';
+  const entityId = 'http://localhost:3000/api/auth/saml/conn1/metadata';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    requests = [];
+    domains = [
+      { id: 'domain1', organizationId: 'org1', domain: 'example.com', verificationToken: 'token1', verifiedAt: new Date() },
+      { id: 'domain2', organizationId: 'org1', domain: 'example.org', verificationToken: 'token2', verifiedAt: new Date() },
+    ];
+    connection = {
+      id: 'conn1',
+      organizationId: 'org1',
+      idpEntityId: idp.entityId,
+      idpSsoUrl: idp.ssoUrl,
+      idpCertificate: idp.certificate,
+      authnRequestBinding: 'HTTP-Redirect',
+      domains: 'example.com,example.org',
+      jitProvisioning: true,
+      defaultRole: 'MEMBER',
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    mockPrisma.samlConnection.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === connection.id || where.organizationId === connection.organizationId ? connection : null)
+    );
+
+    // Domain claims, matched the way the service queries them
+    const matchesDomain = (record: Record<string, any>, where: any) =>
+      (where.domain?.in ? where.domain.in.includes(record.domain) : record.domain === where.domain) &&
+      (where.organizationId === undefined ||
+        (where.organizationId.not !== undefined
+          ? record.organizationId !== where.organizationId.not
+          : record.organizationId === where.organizationId)) &&
+      (!where.verifiedAt || record.verifiedAt !== null);
+    mockPrisma.organizationDomain.findFirst.mockImplementation(({ where }: any) =>
+      Promise.resolve(domains.find(record => matchesDomain(record, where)) ?? null)
+    );
+    mockPrisma.organizationDomain.findMany.mockImplementation(({ where }: any) =>
+      Promise.resolve(domains.filter(record => matchesDomain(record, where)))
+    );
+    mockPrisma.organizationDomain.findUnique.mockImplementation(({ where }: any) => {
+      const { organizationId, domain } = where.organizationId_domain;
+      return Promise.resolve(domains.find(r => r.organizationId === organizationId && r.domain === domain) ?? null);
+    });
+
+    // Keep the AuthnRequests in memory so responses can be matched and claimed against them
+    mockPrisma.samlAuthnRequest.create.mockImplementation(({ data }: any) => {
+      const request = { id: `request${requests.length + 1}`, userId: null, codeHash: null, createdAt: new Date(), ...data };
+      requests.push(request);
+      return Promise.resolve(request);
+    });
+    mockPrisma.samlAuthnRequest.findUnique.mockImplementation(({ where, include }: any) => {
+      const request = requests.find(r =>
+        where.requestId ? r.requestId === where.requestId : r.codeHash === where.codeHash
+      );
+      return Promise.resolve(request && include?.connection ? { ...request, connection } : request ?? null);
+    });
+    mockPrisma.samlAuthnRequest.updateMany.mockImplementation(({ where, data }: any) => {
+      const matching = requests.filter(r =>
+        r.requestId === where.requestId &&
+        r.connectionId === where.connectionId &&
+        r.codeHash === null &&
+        r.expiresAt > where.expiresAt.gt
+      );
+      matching.forEach(r => Object.assign(r, data));
+      return Promise.resolve({ count: matching.length });
+    });
+    mockPrisma.samlAuthnRequest.update.mockImplementation(({ where, data }: any) => {
+      const request = requests.find(r => r.codeHash === where.codeHash);
+      Object.assign(request!, data);
+      return Promise.resolve(request);
+    });
+    mockPrisma.samlAuthnRequest.deleteMany.mockImplementation(({ where }: any) => {
+      const before = requests.length;
+      requests = requests.filter(r => (where.id ? r.id !== where.id : r.expiresAt >= where.expiresAt.lt));
+      return Promise.resolve({ count: before - requests.length });
+    });
+
+    mockPrisma.samlIdentity.findUnique.mockResolvedValue(null);
+    mockPrisma.organizationMembership.findUnique.mockResolvedValue(null);
+    mockPrisma.user.findUnique.mockResolvedValue(null);
+    mockPrisma.user.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'user123', ...data }));
+
+    samlService = new SamlService(mockPrisma);
+  });
+
+  // Start a sign-in and read the AuthnRequest the way the identity provider would
+  const startAtIdp = async (email = 'jane@example.com'): Promise<{ request: MockSamlRequest; browserToken: string }> => {
+    const { request, browserToken } = await samlService.startSignIn(email);
+    return { request: idp.readRequest(request.url), browserToken };
+  };
+
+  describe('getMetadata', () => {
+    it('should describe the service provider for the identity provider to import', async () => {
+      const metadata = await samlService.getMetadata('conn1');
+
+      expect(metadata).toContain(`entityID="${entityId}"`);
+      expect(metadata).toContain(`Location="${acsUrl}"`);
+      expect(metadata).toContain('WantAssertionsSigned="true"');
+    });
+
+    it('should not publish metadata for disabled connections', async () => {
+      connection.enabled = false;
+
+      await expect(samlService.getMetadata('conn1')).rejects.toThrow(
+        new AuthError('SAML_CONNECTION_NOT_FOUND', 'Single sign-on is not available for this organization')
+      );
+    });
+  });
+
+  describe('startSignIn', () => {
+    it('should redirect to the identity provider with a stored request', async () => {
+      const { request, browserToken } = await samlService.startSignIn('Jane@Example.com');
+
+      expect(request.binding).toBe('HTTP-Redirect');
+      expect(request.url.startsWith(`${idp.ssoUrl}?SAMLRequest=`)).toBe(true);
+
+      const authnRequest = idp.readRequest(request.url);
+      expect(authnRequest).toEqual({ id: requests[0]!.requestId, issuer: entityId, acsUrl });
+      expect(requests[0]).toMatchObject({ connectionId: 'conn1', browserHash: hashToken(browserToken) });
+    });
+
+    it('should hand back form fields for the POST binding', async () => {
+      connection.authnRequestBinding = 'HTTP-POST';
+
+      const { request } = await samlService.startSignIn('jane@example.com');
+
+      expect(request).toMatchObject({ binding: 'HTTP-POST', url: idp.ssoUrl });
+      expect(idp.readPostedRequest(request.fields!.SAMLRequest!).id).toBe(requests[0]!.requestId);
+    });
+
+    it('should refuse email domains without an identity provider', async () => {
+      await expect(samlService.startSignIn('jane@example.net')).rejects.toThrow(
+        new AuthError('SAML_NOT_CONFIGURED', 'Single sign-on is not set up for this email address')
+      );
+      expect(mockPrisma.samlAuthnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should not match a domain that merely contains the email domain', async () => {
+      connection.domains = 'notexample.com';
+
+      await expect(samlService.startSignIn('jane@example.com')).rejects.toThrow(AuthError);
+    });
+
+    it('should not sign in through a domain the organization has not verified', async () => {
+      domains[0]!.verifiedAt = null;
+
+      await expect(samlService.startSignIn('jane@example.com')).rejects.toThrow(
+        new AuthError('SAML_NOT_CONFIGURED', 'Single sign-on is not set up for this email address')
+      );
+    });
+  });
+
+  describe('acceptResponse', () => {
+    it('should provision unknown users into the organization', async () => {
+      const { request } = await startAtIdp();
+      const response = idp.respond(request, {
+        nameId: 'idp-user-1',
+        attributes: { email: 'Jane@Example.com', givenName: 'Jane', sn: 'Doe' },
+      });
+
+      const code = await samlService.acceptResponse('conn1', response);
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'jane@example.com',
+          password: null,
+          name: 'Jane Doe',
+          emailVerified: expect.any(Date),
+          samlIdentities: { create: expect.objectContaining({ connectionId: 'conn1', nameId: 'idp-user-1' }) },
+          organizationMemberships: { create: { organizationId: 'org1', role: 'MEMBER' } },
+        }),
+      });
+      expect(requests[0]).toMatchObject({ codeHash: hashToken(code), userId: 'user123' });
+    });
+
+    it('should sign in users it already knows by NameID', async () => {
+      mockPrisma.samlIdentity.findUnique.mockResolvedValue({ id: 'identity1', userId: 'user456', user: { id: 'user456' } });
+      mockPrisma.organizationMembership.findUnique.mockResolvedValue({ id: 'membership1' });
+      const { request } = await startAtIdp();
+
+      await samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'idp-user-1' }));
+
+      expect(mockPrisma.samlIdentity.update).toHaveBeenCalledWith({
+        where: { id: 'identity1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(requests[0]!.userId).toBe('user456');
+    });
+
+    it.each([
+      ['outside the organization', null],
+      ['even when they belong to the organization', { id: 'membership1' }],
+    ])('should not take over existing accounts by email %s', async (_description, membership) => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user456', email: 'jane@example.com' });
+      mockPrisma.organizationMembership.findUnique.mockResolvedValue(membership);
+      const { request } = await startAtIdp();
+
+      await expect(
+        samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@example.com' }))
+      ).rejects.toThrow(
+        new AuthError(
+          'ACCOUNT_EXISTS',
+          'An account with this email already exists. Sign in to it and link single sign-on from your security settings.'
+        )
+      );
+      expect(mockPrisma.samlIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it('should not provision users at a domain that is no longer verified', async () => {
+      const { request } = await startAtIdp();
+      domains[0]!.verifiedAt = null;
+
+      await expect(
+        samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@example.com' }))
+      ).rejects.toThrow(
+        new AuthError('SAML_DOMAIN_NOT_ALLOWED', 'This organization does not sign in users from your email domain')
+      );
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown users when provisioning is off', async () => {
+      connection.jitProvisioning = false;
+      const { request } = await startAtIdp();
+
+      await expect(
+        samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@example.com' }))
+      ).rejects.toThrow(
+        new AuthError('SAML_USER_NOT_PROVISIONED', 'Ask an organization admin to invite you before using single sign-on')
+      );
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse email addresses outside the organization\'s domains', async () => {
+      const { request } = await startAtIdp();
+
+      await expect(
+        samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@elsewhere.com' }))
+      ).rejects.toThrow(
+        new AuthError('SAML_DOMAIN_NOT_ALLOWED', 'This organization does not sign in users from your email domain')
+      );
+    });
+
+    describe('rejected responses', () => {
+      const invalidResponse = new AuthError(
+        'INVALID_SAML_RESPONSE',
+        'Sign-in response is invalid or has expired. Please try again.'
+      );
+
+      it.each<[string, Record<string, unknown>]>([
+        ['signed with another key', { signWithOtherKey: true }],
+        ['altered after signing', { tamperAttribute: ['email', 'admin@example.com'] }],
+        ['meant for another service provider', { audience: 'https://other-sp.example.test' }],
+        ['from another issuer', { issuer: 'https://evil-idp.example.test' }],
+        ['already expired', { expiresInMinutes: -5 }],
+        ['unsolicited', { inResponseTo: null }],
+        ['answering a request never made', { inResponseTo: '_forged' }],
+      ])('should reject a response %s', async (_description, options) => {
+        const { request } = await startAtIdp();
+        const response = idp.respond(request, {
+          nameId: 'jane@example.com',
+          attributes: { email: 'jane@example.com' },
+          ...options,
+        });
+
+        await expect(samlService.acceptResponse('conn1', response)).rejects.toThrow(invalidResponse);
+        expect(mockPrisma.user.create).not.toHaveBeenCalled();
+        expect(requests[0]!.codeHash).toBeNull();
+      });
+
+      it('should reject a replayed response', async () => {
+        const { request } = await startAtIdp();
+        const response = idp.respond(request, { nameId: 'jane@example.com' });
+        await samlService.acceptResponse('conn1', response);
+
+        await expect(samlService.acceptResponse('conn1', response)).rejects.toThrow(invalidResponse);
+        expect(mockPrisma.user.create).toHaveBeenCalledTimes(1);
+      });
+
+      it('should reject a response to a request that has expired', async () => {
+        const { request } = await startAtIdp();
+        requests[0]!.expiresAt = new Date(Date.now() - 1000);
+
+        await expect(
+          samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@example.com' }))
+        ).rejects.toThrow(invalidResponse);
+      });
+
+      it('should report a failed sign-in at the identity provider', async () => {
+        const { request } = await startAtIdp();
+        const response = idp.respond(request, {
+          nameId: 'jane@example.com',
+          status: 'urn:oasis:names:tc:SAML:2.0:status:Responder',
+        });
+
+        await expect(samlService.acceptResponse('conn1', response)).rejects.toThrow(
+          new AuthError('SAML_SIGN_IN_FAILED', 'Your identity provider could not sign you in')
+        );
+      });
+    });
+  });
+
+  describe('completeSignIn', () => {
+    const acceptedSignIn = async () => {
+      const { request, browserToken } = await startAtIdp();
+      const code = await samlService.acceptResponse('conn1', idp.respond(request, { nameId: 'jane@example.com' }));
+      return { code, browserToken };
+    };
+
+    it('should exchange the code once in the browser that started the sign-in', async () => {
+      const { code, browserToken } = await acceptedSignIn();
+
+      await expect(samlService.completeSignIn(code, browserToken)).resolves.toEqual({
+        userId: 'user123',
+        organizationId: 'org1',
+      });
+      await expect(samlService.completeSignIn(code, browserToken)).rejects.toThrow(
+        new AuthError('INVALID_SAML_CODE', 'Sign-in has expired. Please try again.')
+      );
+    });
+
+    it('should refuse the code in another browser', async () => {
+      const { code } = await acceptedSignIn();
+
+      await expect(samlService.completeSignIn(code, 'other-browser')).rejects.toThrow(
+        new AuthError('SAML_BROWSER_MISMATCH', 'Finish signing in from the browser you started in')
+      );
+      await expect(samlService.completeSignIn(code, undefined)).rejects.toThrow(AuthError);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should refuse expired codes', async () => {
+      const { code, browserToken } = await acceptedSignIn();
+      requests[0]!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(samlService.completeSignIn(code, browserToken)).rejects.toThrow(
+        new AuthError('INVALID_SAML_CODE', 'Sign-in has expired. Please try again.')
+      );
+    });
+  });
+
+  describe('linking', () => {
+    const acceptedLink = async (userId = 'user456') => {
+      const { request, browserToken } = await samlService.startLink(userId);
+      const code = await samlService.acceptResponse(
+        'conn1',
+        idp.respond(idp.readRequest(request.url), { nameId: 'idp-user-1' })
+      );
+      return { code, browserToken };
+    };
+
+    beforeEach(() => {
+      mockPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(where.id ? { id: where.id, email: 'jane@example.com' } : null)
+      );
+      mockPrisma.organizationMembership.findUnique.mockResolvedValue({ id: 'membership1' });
+    });
+
+    it('should link the identity to the account that started the link', async () => {
+      const { code, browserToken } = await acceptedLink();
+
+      expect(requests[0]).toMatchObject({ linkUserId: 'user456', userId: 'user456', nameId: 'idp-user-1' });
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+
+      await expect(samlService.completeLink('user456', code, browserToken)).resolves.toBe('org1');
+      expect(mockPrisma.samlIdentity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ connectionId: 'conn1', userId: 'user456', nameId: 'idp-user-1' }),
+      });
+    });
+
+    it('should not let anyone else finish the link', async () => {
+      const { code, browserToken } = await acceptedLink();
+
+      await expect(samlService.completeLink('user789', code, browserToken)).rejects.toThrow(
+        new AuthError('INVALID_SAML_CODE', 'Sign-in has expired. Please try again.')
+      );
+      expect(mockPrisma.samlIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it('should not sign in with a link code', async () => {
+      const { code, browserToken } = await acceptedLink();
+
+      await expect(samlService.completeSignIn(code, browserToken)).rejects.toThrow(
+        new AuthError('INVALID_SAML_CODE', 'Sign-in has expired. Please try again.')
+      );
+    });
+
+    it('should not link an identity that belongs to another user', async () => {
+      const { code, browserToken } = await acceptedLink();
+      mockPrisma.samlIdentity.findUnique.mockResolvedValue({ id: 'identity1', userId: 'user789' });
+
+      await expect(samlService.completeLink('user456', code, browserToken)).rejects.toThrow(
+        new AuthError('IDENTITY_ALREADY_LINKED', 'This single sign-on account is linked to another user')
+      );
+      expect(mockPrisma.samlIdentity.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse accounts whose domain has no verified identity provider', async () => {
+      domains = [];
+
+      await expect(samlService.startLink('user456')).rejects.toThrow(
+        new AuthError('SAML_NOT_CONFIGURED', 'Single sign-on is not set up for your email address')
+      );
+    });
+  });
+
+  describe('verifyDomain', () => {
+    beforeEach(() => {
+      domains[0]!.verifiedAt = null;
+    });
+
+    it('should verify a domain publishing the token', async () => {
+      mockResolveTxt.mockResolvedValue([['smarttask-verification=token1'], ['v=spf1 -all']]);
+
+      const summary = await samlService.verifyDomain('admin1', 'org1', 'Example.com');
+
+      expect(mockResolveTxt).toHaveBeenCalledWith('_smarttask-verification.example.com');
+      expect(mockPrisma.organizationDomain.update).toHaveBeenCalledWith({
+        where: { id: 'domain1' },
+        data: { verifiedAt: expect.any(Date) },
+      });
+      expect(summary.domainVerifications).toContainEqual({
+        domain: 'example.com',
+        verifiedAt: null,
+        recordName: '_smarttask-verification.example.com',
+        recordValue: 'smarttask-verification=token1',
+      });
+    });
+
+    it('should accept a record split into chunks', async () => {
+      mockResolveTxt.mockResolvedValue([['smarttask-verification=', 'token1']]);
+
+      await samlService.verifyDomain('admin1', 'org1', 'example.com');
+
+      expect(mockPrisma.organizationDomain.update).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a different token', async () => mockResolveTxt.mockResolvedValue([['smarttask-verification=other']])],
+      ['no record', async () => mockResolveTxt.mockRejectedValue(Object.assign(new Error('queryTxt ENOTFOUND'), { code: 'ENOTFOUND' }))],
+    ])('should not verify a domain publishing %s', async (_description, publish) => {
+      await publish();
+
+      await expect(samlService.verifyDomain('admin1', 'org1', 'example.com')).rejects.toThrow(
+        new AuthError(
+          'SAML_DOMAIN_NOT_VERIFIED',
+          'The TXT record for example.com was not found. DNS changes can take a while to appear.'
+        )
+      );
+      expect(mockPrisma.organizationDomain.update).not.toHaveBeenCalled();
+    });
+
+    it('should not verify a domain another organization has verified', async () => {
+      domains.push({ id: 'domain3', organizationId: 'org2', domain: 'example.com', verificationToken: 'token3', verifiedAt: new Date() });
+      mockResolveTxt.mockResolvedValue([['smarttask-verification=token1']]);
+
+      await expect(samlService.verifyDomain('admin1', 'org1', 'example.com')).rejects.toThrow(
+        new AuthError('SAML_DOMAIN_IN_USE', 'example.com already signs in through another organization')
+      );
+    });
+
+    it('should refuse domains the connection does not list', async () => {
+      await expect(samlService.verifyDomain('admin1', 'org1', 'example.net')).rejects.toThrow(
+        new AuthError('SAML_DOMAIN_NOT_FOUND', 'Add the domain to your single sign-on settings first')
+      );
+    });
+  });
+
+  describe('saveConnection', () => {
+    const input = {
+      idpEntityId: idp.entityId,
+      idpSsoUrl: idp.ssoUrl,
+      idpCertificate: idp.certificate,
+      authnRequestBinding: 'HTTP-Redirect' as const,
+      domains: ['Example.com', 'example.com'],
+      jitProvisioning: true,
+      defaultRole: 'MEMBER' as const,
+      enabled: true,
+    };
+
+    beforeEach(() => {
+      mockPrisma.samlConnection.upsert.mockImplementation(({ create }: any) =>
+        Promise.resolve({ ...connection, ...create })
+      );
+    });
+
+    it('should accept a bare base64 certificate and deduplicate domains', async () => {
+      const bare = idp.certificate.replace(/-----[A-Z ]+-----/g, '').replace(/\s+/g, '');
+
+      const summary = await samlService.saveConnection('admin1', 'org1', { ...input, idpCertificate: bare });
+
+      const saved = mockPrisma.samlConnection.upsert.mock.calls[0][0].create;
+      expect(saved.domains).toBe('example.com');
+      expect(saved.idpCertificate).toContain('-----BEGIN CERTIFICATE-----');
+      expect(summary).toMatchObject({ domains: ['example.com'], entityId, acsUrl });
+      expect(mockPrisma.organizationDomain.upsert).toHaveBeenCalledWith({
+        where: { organizationId_domain: { organizationId: 'org1', domain: 'example.com' } },
+        create: { organizationId: 'org1', domain: 'example.com', verificationToken: expect.any(String) },
+        update: {},
+      });
+    });
+
+    it('should reject certificates that do not parse', async () => {
+      await expect(
+        samlService.saveConnection('admin1', 'org1', { ...input, idpCertificate: 'not a certificate' })
+      ).rejects.toThrow(
+        new AuthError('INVALID_SAML_CERTIFICATE', 'Identity provider certificate is not a valid X.509 certificate')
+      );
+      expect(mockPrisma.samlConnection.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject domains another organization has verified', async () => {
+      domains[0]!.organizationId = 'org2';
+
+      await expect(samlService.saveConnection('admin1', 'org1', input)).rejects.toThrow(
+        new AuthError('SAML_DOMAIN_IN_USE', 'example.com already signs in through another organization')
+      );
+    });
+
+    it('should not let the identity provider create owners', async () => {
+      await expect(
+        samlService.saveConnection('admin1', 'org1', { ...input, defaultRole: 'OWNER' as any })
+      ).rejects.toThrow(AuthError);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describeClient, GeoIpLookup } from '../../modules/auth/session-metadata';
+
+describe('session metadata', () => {
+  describe('describeClient', () => {
+    it('should parse the browser, OS and device from the user agent', () => {
+      const client = describeClient(
+        '203.0.113.7',
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      );
+
+      expect(client).toEqual(
+        expect.objectContaining({
+          ip: '203.0.113.7',
+          deviceType: 'desktop',
+          browser: 'Chrome 120',
+          os: 'Mac OS 10.15.7',
+        })
+      );
+    });
+
+    it('should report phones as mobile devices', () => {
+      const client = describeClient(
+        undefined,
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+      );
+
+      expect(client.deviceType).toBe('mobile');
+      expect(client.os).toBe('iOS 17.2');
+    });
+
+    it('should truncate oversized user agents', () => {
+      expect(describeClient(undefined, 'x'.repeat(2000)).userAgent).toHaveLength(512);
+    });
+
+    it('should leave everything empty for an unknown client', () => {
+      expect(describeClient()).toEqual({
+        ip: null,
+        userAgent: null,
+        deviceType: null,
+        browser: null,
+        os: null,
+        location: null,
+      });
+    });
+  });
+
+  describe('GeoIpLookup', () => {
+    it('should not resolve locations without a database', () => {
+      expect(new GeoIpLookup().lookup('203.0.113.7')).toBeNull();
+    });
+
+    it('should keep working when the database cannot be read', () => {
+      expect(new GeoIpLookup('/nonexistent/GeoLite2-City.mmdb').lookup('203.0.113.7')).toBeNull();
+    });
+  });
+});
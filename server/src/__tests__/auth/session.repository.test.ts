@@ -0,0 +1,245 @@
+import { SessionRepository } from '../../modules/auth/session.repository';
+import { authConfig } from '../../config/auth.config';
+import { hmacToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  session: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+describe('SessionRepository', () => {
+  let sessionRepository: SessionRepository;
+
+  const mockSession = {
+    id: 'session123',
+    userId: 'user123',
+    refreshTokenHash: 'hash123',
+    familyId: 'family123',
+    isRevoked: false,
+    consumedAt: null,
+    ip: '203.0.113.7',
+    userAgent: 'test-agent',
+    deviceType: 'desktop',
+    browser: 'Chrome 120',
+    os: 'macOS 10.15.7',
+    location: 'Berlin, Germany',
+    lastUsedAt: new Date(),
+    authenticatedAt: new Date(Date.now() - 3600000),
+    oauthClientId: null,
+    scopes: null,
+    activeOrganizationId: 'org123',
+    expiresAt: new Date(Date.now() + 86400000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const client = {
+    ip: '198.51.100.4',
+    userAgent: 'other-agent',
+    deviceType: 'mobile',
+    browser: 'Mobile Safari 17',
+    os: 'iOS 17.2',
+    location: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((arg: any) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+    );
+    mockPrisma.session.create.mockImplementation(({ data }: any) => ({ id: 'session456', ...data }));
+    sessionRepository = new SessionRepository(mockPrisma);
+  });
+
+  describe('createSession', () => {
+    it('should start a new token family', async () => {
+      await sessionRepository.createSession('user123', mockSession.expiresAt);
+
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user123',
+          familyId: expect.any(String),
+        }),
+      });
+    });
+
+    it('should store only a keyed hash of the refresh token', async () => {
+      const session = await sessionRepository.createSession('user123', mockSession.expiresAt);
+      const { data } = mockPrisma.session.create.mock.calls[0][0];
+
+      expect(session.refreshToken.length).toBeGreaterThanOrEqual(43);
+      expect(data.refreshTokenHash).toBe(hmacToken(session.refreshToken, authConfig.security.refreshTokenSecret));
+      expect(data).not.toHaveProperty('refreshToken');
+    });
+
+    it('should record the client the session was issued to', async () => {
+      await sessionRepository.createSession('user123', mockSession.expiresAt, client);
+
+      expect(mockPrisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ...client, lastUsedAt: expect.any(Date) }),
+      });
+    });
+  });
+
+  describe('findByRefreshToken', () => {
+    it('should look the session up by hash', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(mockSession);
+
+      await sessionRepository.findByRefreshToken('refresh123');
+
+      expect(mockPrisma.session.findUnique).toHaveBeenCalledWith({
+        where: { refreshTokenHash: hmacToken('refresh123', authConfig.security.refreshTokenSecret) },
+        include: { user: true },
+      });
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should consume the old token and issue a new one in the same family', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+      const rotated = await sessionRepository.rotateSession(mockSession);
+
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session123', consumedAt: null, isRevoked: false },
+        data: { consumedAt: expect.any(Date) },
+      });
+      expect(rotated).toEqual(
+        expect.objectContaining({
+          userId: 'user123',
+          familyId: 'family123',
+          activeOrganizationId: 'org123',
+          authenticatedAt: mockSession.authenticatedAt,
+          expiresAt: mockSession.expiresAt,
+        })
+      );
+      expect(rotated?.refreshTokenHash).toBe(
+        hmacToken(rotated!.refreshToken, authConfig.security.refreshTokenSecret)
+      );
+    });
+
+    it('should refresh the client details and keep those the refresh did not send', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+      const rotated = await sessionRepository.rotateSession(mockSession, client);
+
+      expect(rotated).toEqual(
+        expect.objectContaining({ ...client, location: 'Berlin, Germany', lastUsedAt: expect.any(Date) })
+      );
+    });
+
+    it('should adopt the session id as family for sessions created before rotation', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+      const rotated = await sessionRepository.rotateSession({ ...mockSession, familyId: null });
+
+      expect(rotated?.familyId).toBe('session123');
+    });
+
+    it('should return null when the token was already consumed', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionRepository.rotateSession(mockSession)).resolves.toBeNull();
+      expect(mockPrisma.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markAuthenticated', () => {
+    it('should record a fresh authentication on the user\'s live session', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.session.findUnique.mockResolvedValue(mockSession);
+
+      await expect(sessionRepository.markAuthenticated('session123', 'user123')).resolves.toBe(mockSession);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session123', userId: 'user123', isRevoked: false, consumedAt: null },
+        data: { authenticatedAt: expect.any(Date) },
+      });
+    });
+
+    it('should return null for sessions that are revoked, rotated or someone else\'s', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionRepository.markAuthenticated('session123', 'other')).resolves.toBeNull();
+      expect(mockPrisma.session.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke the session with the rest of its family', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue(mockSession);
+
+      await expect(sessionRepository.revokeSession('session123', 'user123')).resolves.toBe(true);
+      expect(mockPrisma.session.findFirst).toHaveBeenCalledWith({
+        where: { id: 'session123', userId: 'user123' },
+      });
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', OR: [{ id: 'family123' }, { familyId: 'family123' }] },
+        data: { isRevoked: true },
+      });
+    });
+
+    it('should revoke the live token when the listed session was rotated since', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+      const rotated = await sessionRepository.rotateSession(mockSession);
+      mockPrisma.session.findFirst.mockResolvedValue({ ...mockSession, consumedAt: new Date() });
+
+      await expect(sessionRepository.revokeSession('session123', 'user123')).resolves.toBe(true);
+
+      const { where } = mockPrisma.session.updateMany.mock.calls[1][0];
+      expect(where.OR).toContainEqual({ familyId: rotated!.familyId });
+    });
+
+    it('should cover sessions created before rotation', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue({ ...mockSession, familyId: null });
+
+      await sessionRepository.revokeSession('session123');
+
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', OR: [{ id: 'session123' }, { familyId: 'session123' }] },
+        data: { isRevoked: true },
+      });
+    });
+
+    it('should not revoke someone else\'s session', async () => {
+      mockPrisma.session.findFirst.mockResolvedValue(null);
+
+      await expect(sessionRepository.revokeSession('session123', 'other')).resolves.toBe(false);
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSessionFamily', () => {
+    it('should revoke every session in the family', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 3 });
+
+      await expect(sessionRepository.revokeSessionFamily(mockSession)).resolves.toBe(3);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family123', isRevoked: false },
+        data: { isRevoked: true },
+      });
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should revoke every session outside the kept family', async () => {
+      mockPrisma.session.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(sessionRepository.revokeOtherSessions('user123', 'family123')).resolves.toBe(2);
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user123',
+          isRevoked: false,
+          id: { not: 'family123' },
+          OR: [{ familyId: null }, { familyId: { not: 'family123' } }],
+        },
+        data: { isRevoked: true },
+      });
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { WebAuthnService } from '../../modules/auth/webauthn.service';
+import { AuthError } from '../../types/auth.types';
+import { authConfig } from '../../config/auth.config';
+import { SoftwareAuthenticator } from '../helpers/softwareAuthenticator';
+
+// Mock Prisma with in-memory challenge storage
+const challenges = new Map<string, any>();
+
+const mockPrisma = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  webAuthnCredential: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  webAuthnChallenge: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+} as any;
+
+describe('WebAuthnService', () => {
+  let webAuthnService: WebAuthnService;
+  let authenticator: SoftwareAuthenticator;
+
+  const mockUser = {
+    id: 'user123',
+    email: 'test@example.com',
+    name: 'Test User',
+    webAuthnCredentials: [],
+  };
+
+  const storedCredential = (counter: number) => ({
+    id: 'cred123',
+    userId: mockUser.id,
+    credentialId: authenticator.id,
+    publicKey: Buffer.alloc(0),
+    counter,
+    transports: 'internal',
+    deviceType: 'singleDevice',
+    backedUp: false,
+    name: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+    user: mockUser,
+  });
+
+  // Register the software authenticator and return what would be stored
+  const register = async () => {
+    mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+    mockPrisma.webAuthnCredential.findUnique.mockResolvedValue(null);
+    mockPrisma.webAuthnCredential.create.mockImplementation(({ data }: any) => ({
+      id: 'cred123',
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...data,
+    }));
+
+    const { challengeId, options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+    await webAuthnService.verifyRegistration(
+      mockUser.id,
+      challengeId,
+      authenticator.createCredential(options.challenge),
+      'Laptop'
+    );
+
+    return mockPrisma.webAuthnCredential.create.mock.calls[0][0].data;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    challenges.clear();
+
+    mockPrisma.webAuthnChallenge.create.mockImplementation(({ data }: any) => {
+      const record = { id: `challenge${challenges.size + 1}`, createdAt: new Date(), ...data };
+      challenges.set(record.id, record);
+      return record;
+    });
+    mockPrisma.webAuthnChallenge.findUnique.mockImplementation(({ where }: any) => challenges.get(where.id) ?? null);
+    mockPrisma.webAuthnChallenge.deleteMany.mockImplementation(({ where }: any) => ({
+      count: where.id && challenges.delete(where.id) ? 1 : 0,
+    }));
+
+    webAuthnService = new WebAuthnService(mockPrisma);
+    authenticator = new SoftwareAuthenticator(authConfig.webauthn.rpId, authConfig.webauthn.origin);
+  });
+
+  describe('registration', () => {
+    it('should register a passkey from a valid attestation', async () => {
+      const stored = await register();
+
+      expect(stored).toEqual(
+        expect.objectContaining({
+          userId: mockUser.id,
+          credentialId: authenticator.id,
+          counter: 0,
+          transports: 'internal',
+          name: 'Laptop',
+        })
+      );
+      expect(Buffer.isBuffer(stored.publicKey)).toBe(true);
+    });
+
+    it('should request discoverable, user-verified credentials', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      const { options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+
+      expect(options.rp.id).toBe(authConfig.webauthn.rpId);
+      expect(options.authenticatorSelection).toEqual(
+        expect.objectContaining({ residentKey: 'required', userVerification: 'required' })
+      );
+    });
+
+    it('should not accept a challenge twice', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+      mockPrisma.webAuthnCredential.findUnique.mockResolvedValue(null);
+      mockPrisma.webAuthnCredential.create.mockImplementation(({ data }: any) => ({ id: 'cred123', ...data }));
+
+      const { challengeId, options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+      const response = authenticator.createCredential(options.challenge);
+      await webAuthnService.verifyRegistration(mockUser.id, challengeId, response);
+
+      await expect(webAuthnService.verifyRegistration(mockUser.id, challengeId, response)).rejects.toThrow(
+        new AuthError('INVALID_WEBAUTHN_CHALLENGE', 'Passkey request is invalid or has expired')
+      );
+    });
+
+    it('should not accept a challenge issued to another user', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      const { challengeId, options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+
+      await expect(
+        webAuthnService.verifyRegistration('otherUser', challengeId, authenticator.createCredential(options.challenge))
+      ).rejects.toThrow(new AuthError('INVALID_WEBAUTHN_CHALLENGE', 'Passkey request is invalid or has expired'));
+    });
+
+    it('should reject an attestation from another origin', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      const { challengeId, options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+
+      await expect(
+        webAuthnService.verifyRegistration(
+          mockUser.id,
+          challengeId,
+          authenticator.createCredential(options.challenge, 'https://evil.example.com')
+        )
+      ).rejects.toThrow(new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified'));
+      expect(mockPrisma.webAuthnCredential.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authentication', () => {
+    it('should verify an assertion and advance the sign counter', async () => {
+      const stored = await register();
+      mockPrisma.webAuthnCredential.findUnique.mockResolvedValue({ ...storedCredential(0), ...stored });
+      mockPrisma.webAuthnCredential.updateMany.mockResolvedValue({ count: 1 });
+
+      authenticator.counter = 1;
+      const { challengeId, options } = await webAuthnService.generateAuthenticationOptions();
+      const user = await webAuthnService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge));
+
+      expect(user).toBe(mockUser);
+      expect(mockPrisma.webAuthnCredential.updateMany).toHaveBeenCalledWith({
+        where: { id: 'cred123', counter: 0 },
+        data: expect.objectContaining({ counter: 1, lastUsedAt: expect.any(Date) }),
+      });
+    });
+
+    it('should reject a sign counter that went backwards', async () => {
+      const stored = await register();
+      mockPrisma.webAuthnCredential.findUnique.mockResolvedValue({ ...storedCredential(5), ...stored, counter: 5 });
+
+      authenticator.counter = 3;
+      const { challengeId, options } = await webAuthnService.generateAuthenticationOptions();
+
+      await expect(
+        webAuthnService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge))
+      ).rejects.toThrow(new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified'));
+      expect(mockPrisma.webAuthnCredential.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assertion signed by a different key', async () => {
+      const stored = await register();
+      mockPrisma.webAuthnCredential.findUnique.mockResolvedValue({ ...storedCredential(0), ...stored });
+
+      const impostor = new SoftwareAuthenticator(authConfig.webauthn.rpId, authConfig.webauthn.origin);
+      const { challengeId, options } = await webAuthnService.generateAuthenticationOptions();
+      const assertion = { ...impostor.getAssertion(options.challenge), id: authenticator.id, rawId: authenticator.id };
+
+      await expect(webAuthnService.verifyAuthentication(challengeId, assertion)).rejects.toThrow(
+        new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified')
+      );
+    });
+
+    it('should reject unknown credentials', async () => {
+      mockPrisma.webAuthnCredential.findUnique.mockResolvedValue(null);
+
+      const { challengeId, options } = await webAuthnService.generateAuthenticationOptions();
+
+      await expect(
+        webAuthnService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge))
+      ).rejects.toThrow(new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified'));
+    });
+
+    it('should not accept a registration challenge for sign-in', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      const { challengeId, options } = await webAuthnService.generateRegistrationOptions(mockUser.id);
+
+      await expect(
+        webAuthnService.verifyAuthentication(challengeId, authenticator.getAssertion(options.challenge))
+      ).rejects.toThrow(new AuthError('INVALID_WEBAUTHN_CHALLENGE', 'Passkey request is invalid or has expired'));
+    });
+  });
+
+  describe('deleteCredential', () => {
+    it('should only delete the user\'s own passkeys', async () => {
+      mockPrisma.webAuthnCredential.deleteMany.mockResolvedValue({ count: 0 });
+
+      await expect(webAuthnService.deleteCredential(mockUser.id, 'cred999')).rejects.toThrow(
+        new AuthError('WEBAUTHN_CREDENTIAL_NOT_FOUND', 'Passkey not found')
+      );
+      expect(mockPrisma.webAuthnCredential.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'cred999', userId: mockUser.id },
+      });
+    });
+  });
+});
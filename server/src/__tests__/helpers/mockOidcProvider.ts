@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SignJWT, exportJWK, generateKeyPair, type JWK, type JWTPayload, type KeyLike } from 'jose';
+
+/**
+ * Minimal OpenID Connect provider on localhost for exercising the authorization code flow in tests.
+ * Serves discovery, JWKS, token and userinfo endpoints; `authorize()` stands in for the browser
+ * visiting the authorization endpoint and the user consenting.
+ */
+
+export interface MockOidcAccount {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  account: MockOidcAccount;
+}
+
+export class MockOidcProvider {
+  readonly clientId = 'test-client';
+  readonly clientSecret = 'test-client-secret';
+  issuer = '';
+
+  // The account that "signs in" on the next authorize() call
+  account: MockOidcAccount = { sub: 'oidc-user-1', email: 'oidc@example.com', email_verified: true, name: 'OIDC User' };
+  // Leave the email out of the ID token so clients must call userinfo
+  omitEmailFromIdToken = false;
+  // Extra or replacement claims for issued ID tokens
+  idTokenClaims: JWTPayload = {};
+
+  private server: http.Server;
+  private privateKey!: KeyLike;
+  private publicJwk!: JWK;
+  private codes = new Map<string, IssuedCode>();
+  private accessTokens = new Map<string, MockOidcAccount>();
+
+  private constructor() {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500).end(String(error));
+      });
+    });
+  }
+
+  static async start(): Promise<MockOidcProvider> {
+    const provider = new MockOidcProvider();
+    const { privateKey, publicKey } = await generateKeyPair('RS256');
+    provider.privateKey = privateKey;
+    provider.publicJwk = { ...(await exportJWK(publicKey)), kid: 'test-key', alg: 'RS256', use: 'sig' };
+
+    await new Promise<void>(resolve => provider.server.listen(0, '127.0.0.1', resolve));
+    const { port } = provider.server.address() as AddressInfo;
+    provider.issuer = `http://127.0.0.1:${port}`;
+
+    return provider;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Follow an authorization URL as a consenting user would; returns what the provider redirects back with
+   */
+  authorize(authorizationUrl: string): { code: string; state: string; redirectUri: string } {
+    const url = new URL(authorizationUrl);
+    const params = url.searchParams;
+
+    if (url.origin !== this.issuer || url.pathname !== '/authorize') {
+      throw new Error(`Unexpected authorization endpoint ${url.origin}${url.pathname}`);
+    }
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      throw new Error('Authorization request must use the code flow with S256 PKCE');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      clientId: params.get('client_id')!,
+      redirectUri: params.get('redirect_uri')!,
+      nonce: params.get('nonce')!,
+      codeChallenge: params.get('code_challenge')!,
+      account: { ...this.account },
+    });
+
+    return { code, state: params.get('state')!, redirectUri: params.get('redirect_uri')! };
+  }
+
+  // Private helper methods
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url!, this.issuer);
+
+    if (req.method === 'GET' && pathname === '/.well-known/openid-configuration') {
+      return this.json(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        userinfo_endpoint: `${this.issuer}/userinfo`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (req.method === 'GET' && pathname === '/jwks') {
+      return this.json(res, 200, { keys: [this.publicJwk] });
+    }
+
+    if (req.method === 'POST' && pathname === '/token') {
+      return this.token(new URLSearchParams(await readBody(req)), res);
+    }
+
+    if (req.method === 'GET' && pathname === '/userinfo') {
+      const account = this.accessTokens.get((req.headers.authorization ?? '').replace(/^Bearer /, ''));
+      return account ? this.json(res, 200, account) : this.json(res, 401, { error: 'invalid_token' });
+    }
+
+    this.json(res, 404, { error: 'not_found' });
+  }
+
+  private async token(params: URLSearchParams, res: http.ServerResponse): Promise<void> {
+    const code = params.get('code') ?? '';
+    const issued = this.codes.get(code);
+    // Codes are single use
+    this.codes.delete(code);
+
+    const verifier = params.get('code_verifier') ?? '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !issued ||
+      params.get('client_id') !== this.clientId ||
+      params.get('client_secret') !== this.clientSecret ||
+      params.get('redirect_uri') !== issued.redirectUri ||
+      challenge !== issued.codeChallenge
+    ) {
+      return this.json(res, 400, { error: 'invalid_grant' });
+    }
+
+    const { account } = issued;
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    this.accessTokens.set(accessToken, account);
+
+    const idToken = await new SignJWT({
+      nonce: issued.nonce,
+      name: account.name,
+      ...(!this.omitEmailFromIdToken && { email: account.email, email_verified: account.email_verified }),
+      ...this.idTokenClaims,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+      .setIssuer(this.issuer)
+      .setAudience(issued.clientId)
+      .setSubject(account.sub)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(this.privateKey);
+
+    this.json(res, 200, { access_token: accessToken, token_type: 'Bearer', id_token: idToken });
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
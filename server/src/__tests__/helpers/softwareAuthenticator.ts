@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+
+/**
+ * Minimal ES256 platform authenticator for exercising WebAuthn ceremonies in tests.
+ * Produces "none" attestations and signed assertions the way a browser would
+ * serialize them (base64url JSON).
+ */
+
+type CborValue = number | string | Buffer | Map<CborValue, CborValue> | Record<string, unknown>;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+function cborHeader(majorType: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(majorType << 5) | length]);
+  if (length < 256) return Buffer.from([(majorType << 5) | 24, length]);
+
+  const header = Buffer.alloc(3);
+  header[0] = (majorType << 5) | 25;
+  header.writeUInt16BE(length, 1);
+  return header;
+}
+
+function cborEncode(value: CborValue): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHeader(0, value) : cborHeader(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHeader(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHeader(2, value.length), value]);
+  }
+
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Buffer.concat([
+    cborHeader(5, entries.length),
+    ...entries.flatMap(([key, entry]) => [cborEncode(key as CborValue), cborEncode(entry as CborValue)]),
+  ]);
+}
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+export class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  private rpId: string;
+  private origin: string;
+
+  /** Signature counter reported with the next assertion */
+  counter = 0;
+
+  constructor(rpId: string, origin: string) {
+    this.rpId = rpId;
+    this.origin = origin;
+  }
+
+  get id(): string {
+    return toBase64Url(this.credentialId);
+  }
+
+  /**
+   * Respond to navigator.credentials.create()
+   */
+  createCredential(challenge: string, origin: string = this.origin): RegistrationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.create', challenge, origin);
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authenticatorDataHeader(FLAG_USER_PRESENT | FLAG_USER_VERIFIED | FLAG_ATTESTED_CREDENTIAL_DATA),
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      this.cosePublicKey(),
+    ]);
+
+    const attestationObject = cborEncode({ fmt: 'none', attStmt: {}, authData });
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(clientDataJSON),
+        attestationObject: toBase64Url(attestationObject),
+        transports: ['internal'],
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    };
+  }
+
+  /**
+   * Respond to navigator.credentials.get()
+   */
+  getAssertion(challenge: string, origin: string = this.origin): AuthenticationResponseJSON {
+    const clientDataJSON = this.clientData('webauthn.get', challenge, origin);
+    const authData = this.authenticatorDataHeader(FLAG_USER_PRESENT | FLAG_USER_VERIFIED);
+    const clientDataHash = crypto.createHash('sha256').update(clientDataJSON).digest();
+    const signature = crypto.sign('sha256', Buffer.concat([authData, clientDataHash]), this.keyPair.privateKey);
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(clientDataJSON),
+        authenticatorData: toBase64Url(authData),
+        signature: toBase64Url(signature),
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform',
+    };
+  }
+
+  private clientData(type: string, challenge: string, origin: string): Buffer {
+    return Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+  }
+
+  private authenticatorDataHeader(flags: number): Buffer {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(this.counter);
+
+    return Buffer.concat([
+      crypto.createHash('sha256').update(this.rpId).digest(),
+      Buffer.from([flags]),
+      signCount,
+    ]);
+  }
+
+  private cosePublicKey(): Buffer {
+    const jwk = this.keyPair.publicKey.export({ format: 'jwk' });
+
+    return cborEncode(
+      new Map<CborValue, CborValue>([
+        [1, 2], // kty: EC2
+        [3, -7], // alg: ES256
+        [-1, 1], // crv: P-256
+        [-2, Buffer.from(jwk.x as string, 'base64url')],
+        [-3, Buffer.from(jwk.y as string, 'base64url')],
+      ])
+    );
+  }
+}
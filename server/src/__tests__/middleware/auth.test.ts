@@ -0,0 +1,295 @@
+import { Request, Response } from 'express';
+import {
+  createAuthenticateToken,
+  forbidImpersonation,
+  requireInteractiveSession,
+  requireOrganization,
+  requireRecentAuth,
+  requirePermission,
+  requireRole,
+  requireScope,
+} from '../../middleware/auth';
+import { authConfig } from '../../config/auth.config';
+import { PersonalAccessTokenService } from '../../modules/auth/personal-access-token.service';
+import { AuthenticatedUser } from '../../types/auth.types';
+
+// Mock PersonalAccessTokenService
+const mockPersonalAccessTokenService = {
+  authenticate: jest.fn(),
+};
+
+jest.mock('../../modules/auth/personal-access-token.service', () => ({
+  PersonalAccessTokenService: jest.fn().mockImplementation(() => mockPersonalAccessTokenService),
+}));
+
+describe('Authorization middleware', () => {
+  let mockReq: Partial<Request> & { user?: AuthenticatedUser };
+  let mockRes: Partial<Response>;
+  let mockNext: jest.Mock;
+
+  const user = (roles: string[], permissions: string[] = []): AuthenticatedUser => ({
+    userId: 'user123',
+    email: 'test@example.com',
+    roles,
+    permissions,
+  });
+
+  beforeEach(() => {
+    mockReq = {};
+    mockRes = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    mockNext = jest.fn();
+  });
+
+  describe('requireRole', () => {
+    it('should pass users holding one of the roles', () => {
+      mockReq.user = user(['USER', 'ADMIN']);
+
+      requireRole(['ADMIN'])(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject users without the role', () => {
+      mockReq.user = user(['USER']);
+
+      requireRole(['ADMIN'])(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should require authentication', () => {
+      requireRole(['ADMIN'])(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should pass users holding every permission', () => {
+      mockReq.user = user(['SUPPORT'], ['users:read', 'users:write']);
+
+      requirePermission('users:read', 'users:write')(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject users missing any permission', () => {
+      mockReq.user = user(['SUPPORT'], ['users:read']);
+
+      requirePermission('users:read', 'users:write')(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_PERMISSIONS',
+          message: 'Insufficient permissions to access this resource',
+        },
+      });
+    });
+  });
+
+  describe('requireScope', () => {
+    it('should pass signed-in users, who are not limited by scopes', () => {
+      mockReq.user = user(['USER']);
+
+      requireScope('profile:read')(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject personal access tokens without the scope', () => {
+      mockReq.user = { ...user(['USER']), tokenId: 'token1', scopes: ['profile:read'] };
+
+      requireScope('profile:write')(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('requireInteractiveSession', () => {
+    it('should reject personal access tokens', () => {
+      mockReq.user = { ...user(['USER']), tokenId: 'token1', scopes: ['profile:read'] };
+
+      requireInteractiveSession(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should pass signed-in users', () => {
+      mockReq.user = user(['USER']);
+
+      requireInteractiveSession(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+  });
+
+  describe('requireRecentAuth', () => {
+    const secondsAgo = (seconds: number) => Math.floor(Date.now() / 1000) - seconds;
+
+    it('should pass users who signed in within the window', () => {
+      mockReq.user = { ...user(['USER']), authTime: secondsAgo(60) };
+
+      requireRecentAuth()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should ask users who signed in long ago to re-authenticate', () => {
+      mockReq.user = { ...user(['USER']), authTime: secondsAgo(60 * 60) };
+
+      requireRecentAuth()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.objectContaining({ code: 'REAUTHENTICATION_REQUIRED' }) })
+      );
+    });
+
+    it('should treat tokens without an authentication time as stale', () => {
+      mockReq.user = { ...user(['USER']), tokenId: 'token1', scopes: ['profile:write'] };
+
+      requireRecentAuth()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should skip requests the condition does not cover', () => {
+      mockReq.user = { ...user(['USER']), authTime: secondsAgo(60 * 60) };
+
+      requireRecentAuth(() => false)(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+  });
+
+  describe('forbidImpersonation', () => {
+    it('should reject administrators impersonating the user', () => {
+      mockReq.user = { ...user(['USER']), actorId: 'admin123', impersonationId: 'imp123' };
+
+      forbidImpersonation(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.objectContaining({ code: 'IMPERSONATION_FORBIDDEN' }) })
+      );
+    });
+
+    it('should pass the account owner', () => {
+      mockReq.user = user(['USER']);
+
+      forbidImpersonation(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+  });
+
+  describe('requireOrganization', () => {
+    const member = (organizationRole: 'OWNER' | 'ADMIN' | 'MEMBER'): AuthenticatedUser => ({
+      ...user(['USER']),
+      organizationId: 'org123',
+      organizationRole,
+    });
+
+    it('should pass requests for the active organization', () => {
+      mockReq.user = member('MEMBER');
+      mockReq.params = { organizationId: 'org123' };
+
+      requireOrganization()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject requests for another organization', () => {
+      mockReq.user = member('OWNER');
+      mockReq.params = { organizationId: 'org456' };
+
+      requireOrganization()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.objectContaining({ code: 'ORGANIZATION_MISMATCH' }) })
+      );
+    });
+
+    it('should reject users without an active organization', () => {
+      mockReq.user = user(['USER']);
+      mockReq.params = {};
+
+      requireOrganization()(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.objectContaining({ code: 'ORGANIZATION_REQUIRED' }) })
+      );
+    });
+
+    it('should check the role in the organization', () => {
+      mockReq.user = member('MEMBER');
+      mockReq.params = { organizationId: 'org123' };
+
+      requireOrganization('OWNER', 'ADMIN')(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('createAuthenticateToken', () => {
+    const mockPrisma = {} as any;
+    const mockAuthService = { validateAccessToken: jest.fn() } as any;
+
+    const withToken = (token: string) =>
+      ({ headers: { authorization: `Bearer ${token}` }, ip: '203.0.113.7' }) as unknown as Request;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should build its services once and reuse them for every request', async () => {
+      mockAuthService.validateAccessToken.mockResolvedValue(user(['USER']));
+      const authenticateToken = createAuthenticateToken(mockPrisma, mockAuthService);
+
+      await authenticateToken(withToken('jwt-one'), mockRes as Response, mockNext);
+      await authenticateToken(withToken('jwt-two'), mockRes as Response, mockNext);
+
+      expect(PersonalAccessTokenService).toHaveBeenCalledTimes(1);
+      expect(PersonalAccessTokenService).toHaveBeenCalledWith(mockPrisma);
+      expect(mockAuthService.validateAccessToken).toHaveBeenCalledTimes(2);
+      expect(mockNext).toHaveBeenCalledTimes(2);
+    });
+
+    it('should check personal access tokens against the database', async () => {
+      const token = `${authConfig.personalAccessTokens.prefix}secret`;
+      const tokenUser = { ...user(['USER']), tokenId: 'token123', scopes: ['profile:read'] };
+      mockPersonalAccessTokenService.authenticate.mockResolvedValue(tokenUser);
+      const req = withToken(token);
+
+      await createAuthenticateToken(mockPrisma, mockAuthService)(req, mockRes as Response, mockNext);
+
+      expect(mockPersonalAccessTokenService.authenticate).toHaveBeenCalledWith(token, '203.0.113.7');
+      expect(mockAuthService.validateAccessToken).not.toHaveBeenCalled();
+      expect((req as any).user).toBe(tokenUser);
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject invalid tokens', async () => {
+      mockAuthService.validateAccessToken.mockResolvedValue(null);
+
+      await createAuthenticateToken(mockPrisma, mockAuthService)(withToken('expired'), mockRes as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { OrganizationService } from '../../modules/organization/organization.service';
+import { AuthError } from '../../types/auth.types';
+import { hashToken } from '../../utils/tokens';
+
+// Mock Prisma
+const mockPrisma = {
+  organization: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  organizationMembership: {
+    count: jest.fn(),
+    delete: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    upsert: jest.fn(),
+  },
+  organizationInvitation: {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  session: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+const mockMailService = {
+  sendOrganizationInvitation: jest.fn(),
+} as any;
+
+// Memberships keyed by user id, all in org123
+const withMembers = (roles: Record<string, string>) => {
+  mockPrisma.organizationMembership.findUnique.mockImplementation(
+    async ({ where }: any) => {
+      const role = roles[where.organizationId_userId.userId];
+      return role ? { organizationId: 'org123', userId: where.organizationId_userId.userId, role } : null;
+    }
+  );
+};
+
+describe('OrganizationService', () => {
+  let organizationService: OrganizationService;
+
+  const pendingInvitation = {
+    id: 'invite1',
+    organizationId: 'org123',
+    email: 'invitee@example.com',
+    role: 'ADMIN',
+    tokenHash: hashToken('invite-token'),
+    expiresAt: new Date(Date.now() + 60000),
+    acceptedAt: null,
+    declinedAt: null,
+    organization: { id: 'org123', name: 'Acme', createdAt: new Date() },
+    invitedBy: { email: 'owner@example.com', name: 'Olivia Owner' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMailService.sendOrganizationInvitation.mockResolvedValue(undefined);
+    mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+    organizationService = new OrganizationService(mockPrisma, mockMailService);
+  });
+
+  describe('create', () => {
+    it('should make the creator the owner', async () => {
+      mockPrisma.organization.create.mockResolvedValue({ id: 'org123', name: 'Acme', createdAt: new Date() });
+
+      const organization = await organizationService.create('user1', 'Acme');
+
+      expect(organization).toEqual(expect.objectContaining({ id: 'org123', role: 'OWNER' }));
+      expect(mockPrisma.organization.create).toHaveBeenCalledWith({
+        data: { name: 'Acme', memberships: { create: { userId: 'user1', role: 'OWNER' } } },
+      });
+    });
+  });
+
+  describe('getActiveMembership', () => {
+    it('should use the organization the session switched to', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({ activeOrganizationId: 'org123' });
+      withMembers({ user1: 'ADMIN' });
+
+      await expect(organizationService.getActiveMembership('user1', 'session1')).resolves.toEqual({
+        organizationId: 'org123',
+        role: 'ADMIN',
+      });
+    });
+
+    it('should fall back to the first organization after leaving the active one', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({ activeOrganizationId: 'org123' });
+      withMembers({});
+      mockPrisma.organizationMembership.findFirst.mockResolvedValue({ organizationId: 'org456', role: 'MEMBER' });
+
+      await expect(organizationService.getActiveMembership('user1', 'session1')).resolves.toEqual({
+        organizationId: 'org456',
+        role: 'MEMBER',
+      });
+    });
+
+    it('should return null for users without organizations', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({ activeOrganizationId: null });
+      mockPrisma.organizationMembership.findFirst.mockResolvedValue(null);
+
+      await expect(organizationService.getActiveMembership('user1', 'session1')).resolves.toBeNull();
+    });
+  });
+
+  describe('setActiveOrganization', () => {
+    it('should refuse organizations the user does not belong to', async () => {
+      withMembers({});
+
+      await expect(organizationService.setActiveOrganization('user1', 'session1', 'org123')).rejects.toThrow(
+        new AuthError('NOT_A_MEMBER', 'You are not a member of this organization')
+      );
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should only update the user\'s own session', async () => {
+      withMembers({ user1: 'MEMBER' });
+
+      await organizationService.setActiveOrganization('user1', 'session1', 'org123');
+
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session1', userId: 'user1' },
+        data: { activeOrganizationId: 'org123' },
+      });
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should let admins promote members to admin', async () => {
+      withMembers({ admin: 'ADMIN', member: 'MEMBER' });
+
+      await organizationService.updateMemberRole('admin', 'org123', 'member', 'ADMIN');
+
+      expect(mockPrisma.organizationMembership.update).toHaveBeenCalledWith({
+        where: { organizationId_userId: { organizationId: 'org123', userId: 'member' } },
+        data: { role: 'ADMIN' },
+      });
+    });
+
+    it('should keep ownership changes to owners', async () => {
+      withMembers({ admin: 'ADMIN', member: 'MEMBER', owner: 'OWNER' });
+
+      await expect(organizationService.updateMemberRole('admin', 'org123', 'member', 'OWNER')).rejects.toThrow(
+        expect.objectContaining({ code: 'INSUFFICIENT_ORGANIZATION_ROLE' })
+      );
+      await expect(organizationService.updateMemberRole('admin', 'org123', 'owner', 'MEMBER')).rejects.toThrow(
+        expect.objectContaining({ code: 'INSUFFICIENT_ORGANIZATION_ROLE' })
+      );
+    });
+
+    it('should not demote the last owner', async () => {
+      withMembers({ owner: 'OWNER' });
+      mockPrisma.organizationMembership.count.mockResolvedValue(1);
+
+      await expect(organizationService.updateMemberRole('owner', 'org123', 'owner', 'ADMIN')).rejects.toThrow(
+        expect.objectContaining({ code: 'LAST_OWNER' })
+      );
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should let members leave and clear the organization from their sessions', async () => {
+      withMembers({ member: 'MEMBER' });
+
+      await organizationService.removeMember('member', 'org123', 'member');
+
+      expect(mockPrisma.organizationMembership.delete).toHaveBeenCalled();
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'member', activeOrganizationId: 'org123' },
+        data: { activeOrganizationId: null },
+      });
+    });
+
+    it('should not let members remove others', async () => {
+      withMembers({ member: 'MEMBER', other: 'MEMBER' });
+
+      await expect(organizationService.removeMember('member', 'org123', 'other')).rejects.toThrow(
+        expect.objectContaining({ code: 'INSUFFICIENT_ORGANIZATION_ROLE' })
+      );
+      expect(mockPrisma.organizationMembership.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invite', () => {
+    beforeEach(() => {
+      mockPrisma.organizationMembership.findFirst.mockResolvedValue(null);
+      mockPrisma.organization.findUnique.mockResolvedValue({ id: 'org123', name: 'Acme' });
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'owner@example.com', name: 'Olivia Owner' });
+      mockPrisma.organizationInvitation.create.mockImplementation(async ({ data }: any) => ({
+        id: 'invite1',
+        createdAt: new Date(),
+        ...data,
+      }));
+    });
+
+    it('should replace pending invitations and email a new token', async () => {
+      withMembers({ owner: 'OWNER' });
+
+      const invitation = await organizationService.invite('owner', 'org123', 'Invitee@Example.com', 'ADMIN');
+
+      expect(mockPrisma.organizationInvitation.deleteMany).toHaveBeenCalledWith({
+        where: { organizationId: 'org123', email: 'invitee@example.com', acceptedAt: null, declinedAt: null },
+      });
+
+      const { data } = mockPrisma.organizationInvitation.create.mock.calls[0][0];
+      const token = mockMailService.sendOrganizationInvitation.mock.calls[0][1];
+
+      expect(data.tokenHash).toBe(hashToken(token));
+      expect(data).not.toHaveProperty('token');
+      expect(mockMailService.sendOrganizationInvitation).toHaveBeenCalledWith(
+        'invitee@example.com', token, 'Acme', 7, 'Olivia Owner'
+      );
+      expect(invitation).toEqual(expect.objectContaining({ email: 'invitee@example.com', role: 'ADMIN' }));
+    });
+
+    it('should not let admins invite owners', async () => {
+      withMembers({ admin: 'ADMIN' });
+
+      await expect(organizationService.invite('admin', 'org123', 'invitee@example.com', 'OWNER')).rejects.toThrow(
+        expect.objectContaining({ code: 'INSUFFICIENT_ORGANIZATION_ROLE' })
+      );
+    });
+
+    it('should reject people who are already members', async () => {
+      withMembers({ owner: 'OWNER' });
+      mockPrisma.organizationMembership.findFirst.mockResolvedValue({ userId: 'member' });
+
+      await expect(organizationService.invite('owner', 'org123', 'member@example.com', 'MEMBER')).rejects.toThrow(
+        expect.objectContaining({ code: 'ALREADY_A_MEMBER' })
+      );
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add the invited user with the invited role', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'Invitee@example.com' });
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(pendingInvitation);
+      mockPrisma.organizationInvitation.updateMany.mockResolvedValue({ count: 1 });
+      withMembers({ invitee: 'ADMIN' });
+
+      const organization = await organizationService.acceptInvitation('invite-token', 'invitee');
+
+      expect(mockPrisma.organizationMembership.upsert).toHaveBeenCalledWith({
+        where: { organizationId_userId: { organizationId: 'org123', userId: 'invitee' } },
+        create: { organizationId: 'org123', userId: 'invitee', role: 'ADMIN' },
+        update: {},
+      });
+      expect(organization).toEqual(expect.objectContaining({ id: 'org123', name: 'Acme', role: 'ADMIN' }));
+    });
+
+    it('should only accept invitations for the signed-in address', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'someone-else@example.com' });
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(pendingInvitation);
+
+      await expect(organizationService.acceptInvitation('invite-token', 'other')).rejects.toThrow(
+        expect.objectContaining({ code: 'INVITATION_EMAIL_MISMATCH' })
+      );
+      expect(mockPrisma.organizationMembership.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject answered and expired invitations', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'invitee@example.com' });
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValueOnce({ ...pendingInvitation, declinedAt: new Date() });
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValueOnce({
+        ...pendingInvitation,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      for (let i = 0; i < 2; i++) {
+        await expect(organizationService.acceptInvitation('invite-token', 'invitee')).rejects.toThrow(
+          new AuthError('INVALID_INVITATION', 'Invitation is invalid or has expired')
+        );
+      }
+    });
+  });
+
+  describe('declineInvitation', () => {
+    it('should mark the invitation declined', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'invitee@example.com' });
+      mockPrisma.organizationInvitation.findUnique.mockResolvedValue(pendingInvitation);
+
+      await organizationService.declineInvitation('invite-token', 'invitee');
+
+      expect(mockPrisma.organizationInvitation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite1', acceptedAt: null, declinedAt: null },
+        data: { declinedAt: expect.any(Date) },
+      });
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { parseScimFilter } from '../../modules/scim/scim.filter';
+import { ScimError } from '../../types/auth.types';
+
+describe('parseScimFilter', () => {
+  it('should parse equality on an attribute', () => {
+    expect(parseScimFilter('userName eq "jane@example.com"')).toEqual([
+      { attribute: 'username', value: 'jane@example.com' },
+    ]);
+  });
+
+  it('should parse conditions joined by and', () => {
+    expect(parseScimFilter('externalId eq "00u1" and active eq true')).toEqual([
+      { attribute: 'externalid', value: '00u1' },
+      { attribute: 'active', value: true },
+    ]);
+  });
+
+  it('should unescape quoted values', () => {
+    expect(parseScimFilter('displayName eq "Sales \\"EMEA\\""')).toEqual([
+      { attribute: 'displayname', value: 'Sales "EMEA"' },
+    ]);
+  });
+
+  it.each([
+    'userName sw "jane"',
+    'userName eq "jane@example.com" or userName eq "john@example.com"',
+    'userName eq "jane@example.com" and',
+    'userName eq jane',
+    '',
+  ])('should reject %p', (filter) => {
+    expect(() => parseScimFilter(filter)).toThrow(ScimError);
+  });
+});
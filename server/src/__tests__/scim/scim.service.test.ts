@@ -0,0 +1,361 @@
+import { ScimService } from '../../modules/scim/scim.service';
+import { ScimError } from '../../types/auth.types';
+import { authConfig } from '../../config/auth.config';
+
+// Mock Prisma
+const mockPrisma = {
+  user: {
+    count: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  role: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  userRole: {
+    count: jest.fn(),
+    deleteMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+  $transaction: jest.fn(),
+} as any;
+
+// Mock SessionRepository
+const mockSessionRepository = {
+  revokeAllSessionsByUserId: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/session.repository', () => ({
+  SessionRepository: jest.fn().mockImplementation(() => mockSessionRepository),
+}));
+
+// Mock RbacService
+const mockRbacService = {
+  setUserRoles: jest.fn(),
+  createRole: jest.fn(),
+  deleteRole: jest.fn(),
+} as any;
+
+jest.mock('../../modules/auth/rbac.service', () => ({
+  ...jest.requireActual('../../modules/auth/rbac.service'),
+  RbacService: jest.fn().mockImplementation(() => mockRbacService),
+}));
+
+const role = (id: string, name: string, isSystem = false) => ({
+  id,
+  name,
+  isSystem,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+});
+
+describe('ScimService', () => {
+  let scimService: ScimService;
+
+  const mockUser = {
+    id: 'user123',
+    email: 'jane@example.com',
+    name: 'Jane Doe',
+    externalId: 'ext-1',
+    isActive: true,
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02'),
+    roles: [{ role: role('role-user', 'USER', true) }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.user.findUnique.mockImplementation(async ({ where }: any) => (where.id === 'user123' ? mockUser : null));
+    mockPrisma.role.findMany.mockImplementation(async ({ where }: any) =>
+      where.name.in.map((name: string) => role(`role-${name.toLowerCase()}`, name))
+    );
+    mockPrisma.$transaction.mockImplementation(async (callback: any) => callback(mockPrisma));
+    mockSessionRepository.revokeAllSessionsByUserId.mockResolvedValue(2);
+    scimService = new ScimService(mockPrisma);
+  });
+
+  describe('listUsers', () => {
+    it('should look users up by userName and return a list response', async () => {
+      mockPrisma.user.count.mockResolvedValue(1);
+      mockPrisma.user.findMany.mockResolvedValue([mockUser]);
+
+      const result = await scimService.listUsers({ filter: 'userName eq "Jane@Example.com"' });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { AND: [{ email: 'jane@example.com' }] },
+        skip: 0,
+        take: authConfig.scim.defaultPageSize,
+      }));
+      expect(result).toEqual(expect.objectContaining({
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+        totalResults: 1,
+        startIndex: 1,
+        itemsPerPage: 1,
+      }));
+      expect(result.Resources[0]).toEqual(expect.objectContaining({
+        id: 'user123',
+        userName: 'jane@example.com',
+        externalId: 'ext-1',
+        name: { formatted: 'Jane Doe', givenName: 'Jane', familyName: 'Doe' },
+        active: true,
+        roles: [{ value: 'USER' }],
+      }));
+    });
+
+    it('should page with a 1-based startIndex and cap the page size', async () => {
+      mockPrisma.user.count.mockResolvedValue(0);
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await scimService.listUsers({ startIndex: 11, count: 10000 });
+
+      expect(mockPrisma.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        skip: 10,
+        take: authConfig.scim.maxPageSize,
+      }));
+    });
+
+    it('should reject filters on attributes it cannot search', async () => {
+      await expect(scimService.listUsers({ filter: 'title eq "CEO"' })).rejects.toThrow(
+        expect.objectContaining({ status: 400, scimType: 'invalidFilter' })
+      );
+    });
+  });
+
+  describe('createUser', () => {
+    it('should create a verified account without a password and assign roles', async () => {
+      mockPrisma.user.create.mockResolvedValue({ ...mockUser });
+
+      const user = await scimService.createUser({
+        userName: 'jane@example.com',
+        externalId: 'ext-1',
+        name: { givenName: 'Jane', familyName: 'Doe' },
+        active: true,
+        roles: [{ value: 'SUPPORT' }],
+      });
+
+      expect(mockPrisma.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'jane@example.com',
+          name: 'Jane Doe',
+          externalId: 'ext-1',
+          isActive: true,
+          emailVerified: expect.any(Date),
+        },
+      });
+      expect(mockRbacService.setUserRoles).toHaveBeenCalledWith('user123', ['SUPPORT']);
+      expect(user.id).toBe('user123');
+    });
+
+    it('should report existing users as a uniqueness conflict', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(mockUser);
+
+      await expect(scimService.createUser({ userName: 'jane@example.com', active: true })).rejects.toThrow(
+        expect.objectContaining({ status: 409, scimType: 'uniqueness' })
+      );
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject roles that do not exist', async () => {
+      mockPrisma.role.findMany.mockResolvedValue([]);
+
+      await expect(
+        scimService.createUser({ userName: 'new@example.com', active: true, roles: [{ value: 'MISSING' }] })
+      ).rejects.toThrow(expect.objectContaining({ status: 400, scimType: 'invalidValue' }));
+    });
+  });
+
+  describe('patchUser', () => {
+    it('should deactivate the user and revoke every session', async () => {
+      await scimService.patchUser('user123', [{ op: 'replace', value: { active: 'False' } }]);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({ isActive: false }),
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+
+    it('should not revoke sessions when the user stays active', async () => {
+      await scimService.patchUser('user123', [{ op: 'replace', path: 'name.familyName', value: 'Smith' }]);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({ name: 'Jane Smith', isActive: true }),
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should change the email address through the emails attribute', async () => {
+      await scimService.patchUser('user123', [
+        { op: 'replace', path: 'emails[type eq "work"].value', value: 'Jane.Doe@example.com' },
+      ]);
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({ email: 'jane.doe@example.com', emailVerified: expect.any(Date) }),
+      });
+    });
+
+    it('should add and remove roles', async () => {
+      await scimService.patchUser('user123', [
+        { op: 'add', path: 'roles', value: [{ value: 'SUPPORT' }, { value: 'BILLING' }] },
+        { op: 'remove', path: 'roles[value eq "BILLING"]' },
+      ]);
+
+      expect(mockRbacService.setUserRoles).toHaveBeenCalledWith('user123', ['USER', 'SUPPORT']);
+    });
+
+    it('should ignore attributes it does not store', async () => {
+      await scimService.patchUser('user123', [{ op: 'replace', path: 'title', value: 'Engineer' }]);
+
+      expect(mockPrisma.user.update).toHaveBeenCalled();
+      expect(mockRbacService.setUserRoles).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown users', async () => {
+      await expect(
+        scimService.patchUser('missing', [{ op: 'replace', path: 'active', value: false }])
+      ).rejects.toThrow(new ScimError(404, 'User missing not found'));
+    });
+  });
+
+  describe('replaceUser', () => {
+    it('should keep roles the directory does not send', async () => {
+      await scimService.replaceUser('user123', { userName: 'jane@example.com', active: false });
+
+      expect(mockRbacService.setUserRoles).not.toHaveBeenCalled();
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user123' },
+        data: expect.objectContaining({ name: null, externalId: null, isActive: false }),
+      });
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should revoke sessions before deleting the user', async () => {
+      await scimService.deleteUser('user123');
+
+      expect(mockSessionRepository.revokeAllSessionsByUserId).toHaveBeenCalledWith('user123');
+      expect(mockPrisma.user.delete).toHaveBeenCalledWith({ where: { id: 'user123' } });
+    });
+
+    it('should not delete the last administrator', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        roles: [{ role: role('role-admin', 'ADMIN', true) }],
+      });
+      mockPrisma.userRole.count.mockResolvedValue(1);
+
+      await expect(scimService.deleteUser('user123')).rejects.toThrow(
+        expect.objectContaining({ status: 400, scimType: 'mutability' })
+      );
+      expect(mockPrisma.user.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('groups', () => {
+    const supportGroup = {
+      ...role('role-support', 'SUPPORT'),
+      users: [{ userId: 'user123', user: { id: 'user123', email: 'jane@example.com' } }],
+    };
+
+    beforeEach(() => {
+      mockPrisma.role.findUnique.mockImplementation(async ({ where }: any) => {
+        if (where.id === 'role-support') return supportGroup;
+        if (where.name === 'USER') return role('role-user', 'USER', true);
+        return null;
+      });
+      mockPrisma.user.findMany.mockImplementation(async ({ where }: any) =>
+        where.id.in.map((id: string) => ({ id }))
+      );
+    });
+
+    it('should create a role named after the group', async () => {
+      mockRbacService.createRole.mockResolvedValue({ id: 'role-support' });
+
+      await scimService.createGroup({ displayName: 'Support', members: [] });
+
+      expect(mockRbacService.createRole).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'SUPPORT',
+        permissions: [],
+      }));
+    });
+
+    it('should turn display names into role names', async () => {
+      mockRbacService.createRole.mockResolvedValue({ id: 'role-support' });
+
+      await scimService.createGroup({ displayName: 'Engineering Leads', members: [] });
+
+      expect(mockRbacService.createRole).toHaveBeenCalledWith(expect.objectContaining({ name: 'ENGINEERING_LEADS' }));
+    });
+
+    it('should find groups by display name', async () => {
+      mockPrisma.role.count.mockResolvedValue(1);
+      mockPrisma.role.findMany.mockResolvedValue([supportGroup]);
+
+      const result = await scimService.listGroups({ filter: 'displayName eq "support"' }, true);
+
+      expect(mockPrisma.role.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { AND: [{ name: 'SUPPORT' }] },
+      }));
+      expect(result.Resources[0]).toEqual(expect.objectContaining({ displayName: 'SUPPORT', members: undefined }));
+    });
+
+    it('should add and remove members', async () => {
+      await scimService.patchGroup('role-support', [
+        { op: 'add', path: 'members', value: [{ value: 'user456' }] },
+        { op: 'remove', path: 'members[value eq "user123"]' },
+      ]);
+
+      expect(mockPrisma.userRole.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId_roleId: { userId: 'user456', roleId: 'role-support' } },
+      }));
+      // The default role is kept explicitly once the user holds another role
+      expect(mockPrisma.userRole.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId_roleId: { userId: 'user456', roleId: 'role-user' } },
+      }));
+      expect(mockPrisma.userRole.deleteMany).toHaveBeenCalledWith({
+        where: { roleId: 'role-support', userId: { in: ['user123'] } },
+      });
+    });
+
+    it('should reject members that do not exist', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([]);
+
+      await expect(
+        scimService.patchGroup('role-support', [{ op: 'add', path: 'members', value: [{ value: 'ghost' }] }])
+      ).rejects.toThrow(expect.objectContaining({ status: 400, scimType: 'invalidValue' }));
+    });
+
+    it('should not remove the last administrator', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue({
+        ...role('role-admin', 'ADMIN', true),
+        users: [{ userId: 'user123', user: { id: 'user123', email: 'jane@example.com' } }],
+      });
+      mockPrisma.userRole.count.mockResolvedValue(0);
+
+      await expect(
+        scimService.patchGroup('role-admin', [{ op: 'remove', path: 'members' }])
+      ).rejects.toThrow(expect.objectContaining({ status: 400, scimType: 'mutability' }));
+    });
+
+    it('should not rename or delete built-in roles', async () => {
+      mockPrisma.role.findUnique.mockResolvedValue({ ...role('role-admin', 'ADMIN', true), users: [] });
+
+      await expect(
+        scimService.patchGroup('role-admin', [{ op: 'replace', path: 'displayName', value: 'Admins' }])
+      ).rejects.toThrow(expect.objectContaining({ scimType: 'mutability' }));
+      await expect(scimService.deleteGroup('role-admin')).rejects.toThrow(
+        expect.objectContaining({ scimType: 'mutability' })
+      );
+      expect(mockRbacService.deleteRole).not.toHaveBeenCalled();
+    });
+  });
+});
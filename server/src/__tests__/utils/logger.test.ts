@@ -0,0 +1,99 @@
+import { Request } from 'express';
+import { auditContextMiddleware, auditLog, auditLogger, setAuditActor, setAuditEventStore } from '../../utils/logger';
+
+describe('auditLog', () => {
+  const store = { record: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(auditLogger, 'info').mockImplementation(() => auditLogger);
+    store.record.mockResolvedValue(undefined);
+    setAuditEventStore(store);
+  });
+
+  afterEach(() => {
+    setAuditEventStore(null);
+  });
+
+  it('should persist events to the registered store', () => {
+    auditLog('user_login', 'user123', '203.0.113.7', 'test-agent', { method: 'password' });
+
+    expect(store.record).toHaveBeenCalledWith({
+      event: 'user_login',
+      userId: 'user123',
+      ip: '203.0.113.7',
+      userAgent: 'test-agent',
+      requestId: undefined,
+      details: { method: 'password' },
+    });
+  });
+
+  it('should attribute events to the current request', (done) => {
+    const req = {
+      id: 'req-1',
+      ip: '198.51.100.4',
+      get: () => 'browser-agent',
+    } as unknown as Request;
+
+    auditContextMiddleware(req, {}, () => {
+      setImmediate(() => {
+        auditLog('session_revoked', 'user123');
+
+        expect(store.record).toHaveBeenCalledWith(
+          expect.objectContaining({ requestId: 'req-1', ip: '198.51.100.4', userAgent: 'browser-agent' })
+        );
+        done();
+      });
+    });
+  });
+
+  it('should tag events with the administrator impersonating the user', (done) => {
+    const req = { id: 'req-2', ip: '198.51.100.4', get: () => 'browser-agent' } as unknown as Request;
+
+    auditContextMiddleware(req, {}, () => {
+      setAuditActor('admin123', 'imp123');
+
+      setImmediate(() => {
+        auditLog('profile_updated', 'user123', undefined, undefined, { fields: ['name'] });
+
+        expect(store.record).toHaveBeenCalledWith(
+          expect.objectContaining({
+            userId: 'user123',
+            actorId: 'admin123',
+            details: { fields: ['name'], impersonationId: 'imp123' },
+          })
+        );
+        done();
+      });
+    });
+  });
+
+  it('should tag events with the SCIM directory acting on the user', (done) => {
+    const req = { id: 'req-3', ip: '198.51.100.4', get: () => 'directory-agent' } as unknown as Request;
+
+    auditContextMiddleware(req, {}, () => {
+      setAuditActor('scim');
+
+      setImmediate(() => {
+        auditLog('scim_user_updated', 'user123', undefined, undefined, { externalId: 'ext123' });
+
+        expect(store.record).toHaveBeenCalledWith(
+          expect.objectContaining({
+            userId: 'user123',
+            actorId: 'scim',
+            requestId: 'req-3',
+            details: { externalId: 'ext123' },
+          })
+        );
+        done();
+      });
+    });
+  });
+
+  it('should not throw when persistence fails', async () => {
+    store.record.mockRejectedValue(new Error('database unavailable'));
+
+    expect(() => auditLog('user_logout', 'user123')).not.toThrow();
+    await new Promise(resolve => setImmediate(resolve));
+  });
+});
@@ -0,0 +1,43 @@
+import { estimatePasswordStrength, userInputWords } from '../../utils/password-strength';
+
+describe('password-strength', () => {
+  describe('estimatePasswordStrength', () => {
+    it('should score common passwords and their variations as weak', () => {
+      expect(estimatePasswordStrength('password').score).toBe(0);
+      expect(estimatePasswordStrength('P@ssw0rd').score).toBe(0);
+      expect(estimatePasswordStrength('drowssap').score).toBe(0);
+    });
+
+    it('should score sequences, keyboard runs and repeats as weak', () => {
+      expect(estimatePasswordStrength('abcdefgh').score).toBe(0);
+      expect(estimatePasswordStrength('qwertyuiop').score).toBe(0);
+      expect(estimatePasswordStrength('aaaaaaaaaa').score).toBe(0);
+      expect(estimatePasswordStrength('abcabcabc').score).toBe(0);
+    });
+
+    it('should score long unpredictable passwords as strong', () => {
+      expect(estimatePasswordStrength('NewSecurePass456!').score).toBeGreaterThanOrEqual(3);
+      expect(estimatePasswordStrength('correct-horse-battery-staple').score).toBe(4);
+    });
+
+    it('should treat user inputs as easily guessed', () => {
+      const without = estimatePasswordStrength('Zebulon1987');
+      const withName = estimatePasswordStrength('Zebulon1987', ['zebulon']);
+
+      expect(withName.guesses).toBeLessThan(without.guesses);
+      expect(withName.score).toBeLessThan(without.score);
+    });
+  });
+
+  describe('userInputWords', () => {
+    it('should split emails and names into lowercase words', () => {
+      expect(userInputWords('Jane.Doe@example.com', 'Jane Q Doe')).toEqual([
+        'jane', 'doe', 'example', 'com', 'jane', 'doe',
+      ]);
+    });
+
+    it('should ignore missing inputs', () => {
+      expect(userInputWords('ab@cd.io', null, undefined)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+  buildOtpAuthUri,
+} from '../../utils/totp';
+
+// RFC 6238 Appendix B test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should encode the RFC test secret', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('INVALID1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+
+    it('should return the matched step for a valid code', () => {
+      expect(verifyTotp(RFC_SECRET, '005924', 1, now)).toBe(getTotpStep(now));
+    });
+
+    it('should accept codes from the adjacent step', () => {
+      const previousCode = generateTotp(RFC_SECRET, getTotpStep(now) - 1);
+
+      expect(verifyTotp(RFC_SECRET, previousCode, 1, now)).toBe(getTotpStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const oldCode = generateTotp(RFC_SECRET, getTotpStep(now) - 3);
+
+      expect(verifyTotp(RFC_SECRET, oldCode, 1, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should build an otpauth URI with issuer and account', () => {
+      const uri = buildOtpAuthUri('SECRET', 'test@example.com', 'SmartTask AI');
+
+      expect(uri).toBe(
+        'otpauth://totp/SmartTask%20AI%3Atest%40example.com?secret=SECRET&issuer=SmartTask+AI&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
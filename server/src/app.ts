@@ -6,17 +6,36 @@ import requestId from 'express-request-id';
 import path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { createAuthRoutes } from './modules/auth/auth.routes';
-import { logger, loggerMiddleware } from './utils/logger';
+import { createAdminRoutes } from './modules/auth/admin.routes';
+import { createOrganizationRoutes } from './modules/organization/organization.routes';
+import { createAccountRoutes } from './modules/account/account.routes';
+import { createScimRoutes } from './modules/scim/scim.routes';
+import { createJwksRoutes } from './modules/auth/jwks.routes';
+import { createOAuthRoutes } from './modules/auth/oauth.routes';
+import { getJwtKeyring } from './modules/auth/jwt-keyring';
+import { RbacService } from './modules/auth/rbac.service';
+import { AuditRepository } from './modules/auth/audit.repository';
+import { AuditService } from './modules/auth/audit.service';
+import { DataExportService } from './modules/account/data-export.service';
+import { AccountDeletionService } from './modules/account/account-deletion.service';
+import { auditContextMiddleware, logger, loggerMiddleware, setAuditEventStore } from './utils/logger';
 import { authConfig, validateAuthConfig } from './config/auth.config';
 import { errorHandler } from './middleware/errorHandler';
+import { createAuthenticateToken } from './middleware/auth';
 
 export class App {
   public app: express.Application;
   public prisma: PrismaClient;
+  private auditService: AuditService;
+  private dataExportService: DataExportService;
+  private accountDeletionService: AccountDeletionService;
 
   constructor() {
     this.app = express();
     this.prisma = new PrismaClient();
+    this.auditService = new AuditService(this.prisma);
+    this.dataExportService = new DataExportService(this.prisma);
+    this.accountDeletionService = new AccountDeletionService(this.prisma);
     
     // --- BEGIN guaranteed health endpoints (mounted first) ---
     this.app.get('/health', (_req, res) => {
@@ -68,7 +87,7 @@ export class App {
     this.app.use(cors({
       origin: authConfig.cors.origin,
       credentials: true,
-      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization', 'X-CSRF-Token'],
     }));
 
@@ -78,20 +97,32 @@ export class App {
     // Logger middleware
     this.app.use(loggerMiddleware);
 
-    // Body parsing middleware
-    this.app.use(express.json({ limit: '10mb' }));
+    // Body parsing middleware; SCIM directories send application/scim+json
+    this.app.use(express.json({ limit: '10mb', type: ['application/json', 'application/scim+json'] }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Cookie parsing middleware
     this.app.use(cookieParser(authConfig.security.cookieSecret));
 
+    // Attribute audit events to the request that raised them
+    this.app.use(auditContextMiddleware);
+
     // Trust proxy for proper IP address handling
     this.app.set('trust proxy', 1);
   }
 
   private initializeRoutes(): void {
+    // Shared by every router so token checks reuse the app's database client
+    const authenticateToken = createAuthenticateToken(this.prisma);
+
     // API routes
-    this.app.use('/api/auth', createAuthRoutes(this.prisma));
+    this.app.use('/api/auth', createAuthRoutes(this.prisma, authenticateToken));
+    this.app.use('/api/admin', createAdminRoutes(this.prisma, authenticateToken));
+    this.app.use('/api/organizations', createOrganizationRoutes(this.prisma, authenticateToken));
+    this.app.use('/api/account', createAccountRoutes(this.prisma, authenticateToken));
+    this.app.use('/scim/v2', createScimRoutes(this.prisma));
+    this.app.use(createJwksRoutes());
+    this.app.use(createOAuthRoutes(this.prisma));
 
     // Serve static files from client dist directory
     const clientDistPath = path.join(__dirname, '../../client/dist');
@@ -113,6 +144,7 @@ export class App {
     this.app.get('*', (req, res) => {
       // Skip API routes and health endpoints
       if (req.path.startsWith('/api') || 
+          req.path.startsWith('/scim') ||
           req.path === '/health' || 
           req.path === '/api/health' || 
           req.path === '/healthz' || 
@@ -139,12 +171,26 @@ export class App {
       validateAuthConfig();
       console.log('Auth config validated');
 
+      // Load JWT signing keys and schedule their rotation
+      getJwtKeyring().startRotation();
+
       // Test database connection
       console.log('Connecting to database...');
       await this.prisma.$connect();
       console.log('Database connection established');
       logger.info('Database connection established');
 
+      // Keep audit events queryable for the admin API and prune them past retention
+      setAuditEventStore(new AuditRepository(this.prisma));
+      this.auditService.startRetention();
+
+      // Build queued data exports and purge accounts whose deletion grace period is over
+      this.dataExportService.startProcessing();
+      this.accountDeletionService.startPurging();
+
+      // Make sure the built-in USER and ADMIN roles exist before anyone signs up
+      await new RbacService(this.prisma).ensureSystemRoles();
+
       // Start server
       const port = process.env.PORT || 3000;
       console.log(`Starting server on port ${port}...`);
@@ -169,6 +215,10 @@ export class App {
 
   public async stop(): Promise<void> {
     try {
+      getJwtKeyring().stopRotation();
+      this.auditService.stopRetention();
+      this.dataExportService.stopProcessing();
+      this.accountDeletionService.stopPurging();
       await this.prisma.$disconnect();
       logger.info('Database connection closed');
       logger.info('Application stopped gracefully');
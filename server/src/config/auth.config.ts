@@ -29,6 +29,44 @@ try {
     JWT_ALGORITHM: 'HS256',
     JWT_ACCESS_TOKEN_EXPIRY: '10m',
     JWT_REFRESH_TOKEN_EXPIRY: '7d',
+    JWT_KEYS_DIR: 'keys/jwt',
+    JWT_KEY_ROTATION_INTERVAL_MS: 2592000000,
+    MAIL_TRANSPORT: 'console',
+    MAIL_FROM: 'SmartTask AI <no-reply@smarttask.local>',
+    MAIL_FILE_DIR: 'tmp/mail',
+    EMAIL_VERIFICATION_REQUIRED: false,
+    EMAIL_VERIFICATION_TOKEN_TTL_MS: 86400000,
+    VERIFICATION_RESEND_MAX_ATTEMPTS: 3,
+    EMAIL_CHANGE_TOKEN_TTL_MS: 86400000,
+    PASSWORD_RESET_TOKEN_TTL_MS: 1800000,
+    PASSWORD_RESET_MAX_ATTEMPTS: 5,
+    PASSWORD_MIN_LENGTH: 8,
+    PASSWORD_REQUIRE_LOWERCASE: true,
+    PASSWORD_REQUIRE_UPPERCASE: true,
+    PASSWORD_REQUIRE_NUMBER: true,
+    PASSWORD_REQUIRE_SYMBOL: true,
+    PASSWORD_MIN_STRENGTH: 2,
+    PASSWORD_BANNED_WORDS: [],
+    PASSWORD_HISTORY_COUNT: 5,
+    PASSWORD_MAX_AGE_DAYS: 0,
+    ARGON2_MEMORY_COST_KIB: 65536,
+    ARGON2_TIME_COST: 3,
+    ARGON2_PARALLELISM: 1,
+    MAGIC_LINK_TOKEN_TTL_MS: 900000,
+    MAGIC_LINK_MAX_ATTEMPTS: 5,
+    DATA_EXPORT_TTL_MS: 604800000,
+    ACCOUNT_DELETION_GRACE_PERIOD_MS: 2592000000,
+    ORGANIZATION_INVITATION_TTL_MS: 604800000,
+    MFA_ISSUER: 'SmartTask AI',
+    MFA_CHALLENGE_EXPIRY: '5m',
+    WEBAUTHN_RP_ID: 'localhost',
+    WEBAUTHN_RP_NAME: 'SmartTask AI',
+    WEBAUTHN_CHALLENGE_TTL_MS: 300000,
+    LOGIN_RISK_CHALLENGE_SCORE: 50,
+    LOGIN_RISK_BLOCK_SCORE: 100,
+    LOGIN_VERIFICATION_CODE_TTL_MS: 600000,
+    OIDC_PROVIDERS: [],
+    AUDIT_LOG_RETENTION_DAYS: 365,
   } as ServerEnv;
 }
 
@@ -38,11 +76,14 @@ export const authConfig = {
     algorithm: env.JWT_ALGORITHM,
     accessTokenExpiry: env.JWT_ACCESS_TOKEN_EXPIRY,
     refreshTokenExpiry: env.JWT_REFRESH_TOKEN_EXPIRY,
+    keysDir: env.JWT_KEYS_DIR,
+    keyRotationIntervalMs: env.JWT_KEY_ROTATION_INTERVAL_MS,
   },
   security: {
     cookieSecret: env.COOKIE_SECRET,
     csrfSecret: env.CSRF_SECRET,
-    passwordMinLength: 8,
+    // Falls back to the JWT secret so existing deployments keep working
+    refreshTokenSecret: env.REFRESH_TOKEN_SECRET ?? env.JWT_SECRET,
     maxFailedLoginAttempts: env.LOGIN_RATE_LIMIT_MAX_ATTEMPTS,
     accountLockoutDuration: env.LOGIN_RATE_LIMIT_WINDOW_MS,
   },
@@ -51,6 +92,138 @@ export const authConfig = {
     maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
     loginWindowMs: env.LOGIN_RATE_LIMIT_WINDOW_MS,
     maxLoginAttempts: env.LOGIN_RATE_LIMIT_MAX_ATTEMPTS,
+    maxVerificationResends: env.VERIFICATION_RESEND_MAX_ATTEMPTS,
+    maxPasswordResetRequests: env.PASSWORD_RESET_MAX_ATTEMPTS,
+    maxMagicLinkRequests: env.MAGIC_LINK_MAX_ATTEMPTS,
+  },
+  app: {
+    url: env.APP_URL ?? env.CORS_ORIGIN,
+  },
+  mail: {
+    transport: env.MAIL_TRANSPORT,
+    from: env.MAIL_FROM,
+    fileDir: env.MAIL_FILE_DIR,
+    smtpUrl: env.SMTP_URL,
+  },
+  emailVerification: {
+    required: env.EMAIL_VERIFICATION_REQUIRED,
+    tokenTtlMs: env.EMAIL_VERIFICATION_TOKEN_TTL_MS,
+  },
+  emailChange: {
+    tokenTtlMs: env.EMAIL_CHANGE_TOKEN_TTL_MS,
+  },
+  passwordReset: {
+    tokenTtlMs: env.PASSWORD_RESET_TOKEN_TTL_MS,
+  },
+  passwordPolicy: {
+    minLength: env.PASSWORD_MIN_LENGTH,
+    maxLength: 128,
+    requireLowercase: env.PASSWORD_REQUIRE_LOWERCASE,
+    requireUppercase: env.PASSWORD_REQUIRE_UPPERCASE,
+    requireNumber: env.PASSWORD_REQUIRE_NUMBER,
+    requireSymbol: env.PASSWORD_REQUIRE_SYMBOL,
+    minStrength: env.PASSWORD_MIN_STRENGTH,
+    bannedWords: ['smarttask', ...env.PASSWORD_BANNED_WORDS],
+    historyCount: env.PASSWORD_HISTORY_COUNT,
+    maxAgeDays: env.PASSWORD_MAX_AGE_DAYS,
+    breachListDir: env.PASSWORD_BREACH_LIST_DIR,
+  },
+  passwordHashing: {
+    memoryCost: env.ARGON2_MEMORY_COST_KIB,
+    timeCost: env.ARGON2_TIME_COST,
+    parallelism: env.ARGON2_PARALLELISM,
+  },
+  magicLink: {
+    tokenTtlMs: env.MAGIC_LINK_TOKEN_TTL_MS,
+    // Holds the secret tying a link to the browser that requested it
+    cookieName: 'magicLinkBrowser',
+  },
+  dataExport: {
+    ttlMs: env.DATA_EXPORT_TTL_MS,
+  },
+  accountDeletion: {
+    gracePeriodMs: env.ACCOUNT_DELETION_GRACE_PERIOD_MS,
+  },
+  organizations: {
+    invitationTtlMs: env.ORGANIZATION_INVITATION_TTL_MS,
+  },
+  mfa: {
+    issuer: env.MFA_ISSUER,
+    // Falls back to the JWT secret so existing deployments keep working
+    encryptionKey: env.MFA_ENCRYPTION_KEY ?? env.JWT_SECRET,
+    challengeExpiry: env.MFA_CHALLENGE_EXPIRY,
+    recoveryCodeCount: 10,
+  },
+  webauthn: {
+    rpId: env.WEBAUTHN_RP_ID,
+    rpName: env.WEBAUTHN_RP_NAME,
+    // Passkeys are bound to the origin the browser is on, i.e. the client app
+    origin: env.WEBAUTHN_ORIGIN ?? env.APP_URL ?? env.CORS_ORIGIN,
+    challengeTtlMs: env.WEBAUTHN_CHALLENGE_TTL_MS,
+  },
+  risk: {
+    challengeScore: env.LOGIN_RISK_CHALLENGE_SCORE,
+    blockScore: env.LOGIN_RISK_BLOCK_SCORE,
+    verificationCodeTtlMs: env.LOGIN_VERIFICATION_CODE_TTL_MS,
+    maxVerificationAttempts: 5,
+    // Failed password attempts since the last successful sign-in
+    failedAttemptsThreshold: 3,
+    // Failed sign-ins from one IP, across all accounts, within the window
+    ipFailureThreshold: 10,
+    ipFailureWindowMs: 15 * 60 * 1000,
+    // Faster than a commercial flight between two sign-ins
+    maxTravelSpeedKmh: 1000,
+  },
+  personalAccessTokens: {
+    // Lets the auth middleware tell these apart from JWTs and secret scanners spot leaked ones
+    prefix: 'stpat_',
+    maxPerUser: 50,
+    // Last-used tracking is written at most this often per token
+    lastUsedUpdateIntervalMs: 60 * 1000,
+  },
+  oidc: {
+    providers: env.OIDC_PROVIDERS,
+    // A page of the client app that hands the code and state back to the API
+    redirectUri: env.OIDC_REDIRECT_URI ?? `${env.APP_URL ?? env.CORS_ORIGIN}/auth/callback`,
+    // Time allowed between starting a sign-in and returning from the provider
+    authorizationTtlMs: 10 * 60 * 1000,
+  },
+  oauth: {
+    // Other apps find the provider at <issuer>/.well-known/openid-configuration
+    issuer: (env.OAUTH_ISSUER ?? env.APP_URL ?? env.CORS_ORIGIN).replace(/\/+$/, ''),
+    authorizationCodeTtlMs: 60 * 1000,
+    refreshTokenTtlMs: 30 * 24 * 60 * 60 * 1000,
+  },
+  saml: {
+    // A page of the client app that exchanges the sign-in code for a session
+    callbackUrl: `${env.APP_URL ?? env.CORS_ORIGIN}/sso/callback`,
+    // Holds the secret tying a SAML sign-in to the browser that started it
+    cookieName: 'samlBrowser',
+    // Time allowed between starting a sign-in and the IdP posting its response
+    requestTtlMs: 10 * 60 * 1000,
+    // Time the client has to exchange the sign-in code once the response is accepted
+    codeTtlMs: 60 * 1000,
+    // Clock difference tolerated when checking assertion validity windows
+    acceptedClockSkewMs: 60 * 1000,
+  },
+  stepUp: {
+    // How recently the user must have signed in or re-authenticated for sensitive actions
+    maxAuthAgeMs: 5 * 60 * 1000,
+  },
+  impersonation: {
+    // Hard limit on a support session; its token cannot be refreshed
+    maxDurationMs: 30 * 60 * 1000,
+  },
+  scim: {
+    bearerToken: env.SCIM_BEARER_TOKEN,
+    defaultPageSize: 100,
+    maxPageSize: 200,
+  },
+  audit: {
+    retentionDays: env.AUDIT_LOG_RETENTION_DAYS,
+  },
+  sessions: {
+    geoIpDatabasePath: env.GEOIP_DATABASE_PATH,
   },
   cors: {
     origin: env.CORS_ORIGIN,
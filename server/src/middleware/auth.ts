@@ -1,115 +1,143 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, RequestHandler, Response, NextFunction } from 'express';
 import { AuthService } from '../modules/auth/auth.service';
+import { PersonalAccessTokenService } from '../modules/auth/personal-access-token.service';
 import { PrismaClient } from '@prisma/client';
-import { logger } from '../utils/logger';
-import { AuthenticatedRequest } from '../types/auth.types';
+import { authConfig } from '../config/auth.config';
+import { auditLog, logger, setAuditActor } from '../utils/logger';
+import { AuthenticatedRequest, AuthenticatedUser, OrganizationRole } from '../types/auth.types';
+
+type BearerTokenResolver = (token: string, ip?: string) => Promise<AuthenticatedUser | null>;
+
+// Personal access tokens carry a fixed prefix; everything else is a JWT access token
+function createBearerTokenResolver(prisma: PrismaClient, authService: AuthService): BearerTokenResolver {
+  const personalAccessTokenService = new PersonalAccessTokenService(prisma);
+
+  return (token, ip) => {
+    if (token.startsWith(authConfig.personalAccessTokens.prefix)) {
+      return personalAccessTokenService.authenticate(token, ip);
+    }
+
+    return authService.validateAccessToken(token);
+  };
+}
 
 /**
- * Middleware to authenticate JWT access tokens
+ * Middleware to authenticate JWT access tokens and personal access tokens. Build it once
+ * with the app's client and share it between routers.
  */
-export function authenticateToken(req: Request, res: Response, next: NextFunction): void {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+export function createAuthenticateToken(
+  prisma: PrismaClient,
+  authService: AuthService = new AuthService(prisma)
+): RequestHandler {
+  const resolveBearerToken = createBearerTokenResolver(prisma, authService);
 
-    if (!token) {
-      res.status(401).json({
-        success: false,
-        error: {
-          code: 'TOKEN_MISSING',
-          message: 'Access token is required',
-        },
+  return async function authenticateToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+      if (!token) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'TOKEN_MISSING',
+            message: 'Access token is required',
+          },
+        });
+        return;
+      }
+
+      const decoded = await resolveBearerToken(token, req.ip);
+
+      if (!decoded) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: 'Invalid or expired access token',
+          },
+        });
+        return;
+      }
+
+      // Add user information to the request object
+      (req as AuthenticatedRequest).user = decoded;
+
+      // Every request made while impersonating is recorded against the administrator behind it
+      if (decoded.actorId && decoded.impersonationId) {
+        setAuditActor(decoded.actorId, decoded.impersonationId);
+        auditLog('impersonated_request', decoded.userId, undefined, undefined, {
+          method: req.method,
+          path: req.originalUrl,
+        });
+      }
+
+      logger.debug('Token authenticated successfully', {
+        requestId: req.id,
+        userId: decoded.userId,
+        email: decoded.email,
+      });
+
+      next();
+    } catch (error) {
+      logger.error('Token authentication failed', {
+        requestId: req.id,
+        path: req.path,
+        method: req.method,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
-      return;
-    }
 
-    // Create a temporary auth service instance to validate the token
-    const prisma = new PrismaClient();
-    const authService = new AuthService(prisma);
-    
-    const decoded = authService.validateAccessToken(token);
-    
-    if (!decoded) {
       res.status(401).json({
         success: false,
         error: {
-          code: 'INVALID_TOKEN',
-          message: 'Invalid or expired access token',
+          code: 'AUTHENTICATION_FAILED',
+          message: 'Authentication failed',
         },
       });
-      return;
     }
-
-    // Add user information to the request object
-    (req as AuthenticatedRequest).user = {
-      userId: decoded.userId,
-      email: decoded.email,
-    };
-
-    logger.debug('Token authenticated successfully', {
-      requestId: req.id,
-      userId: decoded.userId,
-      email: decoded.email,
-    });
-
-    next();
-  } catch (error) {
-    logger.error('Token authentication failed', {
-      requestId: req.id,
-      path: req.path,
-      method: req.method,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-
-    res.status(401).json({
-      success: false,
-      error: {
-        code: 'AUTHENTICATION_FAILED',
-        message: 'Authentication failed',
-      },
-    });
-  }
+  };
 }
 
 /**
  * Optional authentication middleware - doesn't fail if no token is provided
  */
-export function optionalAuth(req: Request, _res: Response, next: NextFunction): void {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (token) {
-      const prisma = new PrismaClient();
-      const authService = new AuthService(prisma);
-      
-      const decoded = authService.validateAccessToken(token);
-      
-      if (decoded) {
-        (req as AuthenticatedRequest).user = {
-          userId: decoded.userId,
-          email: decoded.email,
-        };
-
-        logger.debug('Optional auth successful', {
-          requestId: req.id,
-          userId: decoded.userId,
-        });
+export function createOptionalAuth(
+  prisma: PrismaClient,
+  authService: AuthService = new AuthService(prisma)
+): RequestHandler {
+  const resolveBearerToken = createBearerTokenResolver(prisma, authService);
+
+  return async function optionalAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authHeader = req.headers.authorization;
+      const token = authHeader && authHeader.split(' ')[1];
+
+      if (token) {
+        const decoded = await resolveBearerToken(token, req.ip);
+
+        if (decoded) {
+          (req as AuthenticatedRequest).user = decoded;
+
+          logger.debug('Optional auth successful', {
+            requestId: req.id,
+            userId: decoded.userId,
+          });
+        }
       }
-    }
 
-    next();
-  } catch (error) {
-    logger.debug('Optional auth failed, continuing without authentication', {
-      requestId: req.id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-    next();
-  }
+      next();
+    } catch (error) {
+      logger.debug('Optional auth failed, continuing without authentication', {
+        requestId: req.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      next();
+    }
+  };
 }
 
 /**
- * Role-based access control middleware
+ * Role-based access control middleware - passes if the user holds any of the roles
  */
 export function requireRole(allowedRoles: string[]) {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -127,12 +155,8 @@ export function requireRole(allowedRoles: string[]) {
         return;
       }
 
-      // For now, we'll implement a simple role check
-      // In a real application, you'd fetch user roles from the database
-      // This is a placeholder implementation
-      const userRole = 'user'; // This should come from user data or token
-
-      if (!allowedRoles.includes(userRole)) {
+      // Roles are embedded in the access token when it is issued
+      if (!user.roles.some(role => allowedRoles.includes(role))) {
         res.status(403).json({
           success: false,
           error: {
@@ -147,7 +171,7 @@ export function requireRole(allowedRoles: string[]) {
         requestId: req.id,
         userId: user.userId,
         requiredRoles: allowedRoles,
-        userRole,
+        userRoles: user.roles,
       });
 
       next();
@@ -170,6 +194,229 @@ export function requireRole(allowedRoles: string[]) {
   };
 }
 
+/**
+ * Permission-based access control middleware - passes only if the user holds every permission
+ */
+export function requirePermission(...requiredPermissions: string[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    const missing = requiredPermissions.filter(permission => !user.permissions.includes(permission));
+
+    if (missing.length > 0) {
+      logger.warn('Permission check failed', {
+        requestId: req.id,
+        userId: user.userId,
+        path: req.path,
+        missingPermissions: missing,
+      });
+
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_PERMISSIONS',
+          message: 'Insufficient permissions to access this resource',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Scope check for routes open to every signed-in user. Browser sessions always pass;
+ * personal access tokens must have been granted the scope.
+ */
+export function requireScope(scope: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    if (user.scopes && !user.scopes.includes(scope)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_SCOPE',
+          message: `This token does not have the ${scope} scope`,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Tenant scoping for organization routes. The access token's active organization must be the
+ * one in the :organizationId route parameter, and the user's role in it one of the given roles
+ * (any role when none are given).
+ */
+export function requireOrganization(...allowedRoles: OrganizationRole[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    if (!user.organizationId || !user.organizationRole) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'ORGANIZATION_REQUIRED',
+          message: 'Switch to an organization to access this resource',
+        },
+      });
+      return;
+    }
+
+    const requested = req.params.organizationId;
+    if (requested && requested !== user.organizationId) {
+      logger.warn('Cross-organization access refused', {
+        requestId: req.id,
+        userId: user.userId,
+        path: req.path,
+        activeOrganizationId: user.organizationId,
+      });
+
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'ORGANIZATION_MISMATCH',
+          message: 'Switch to this organization to access its resources',
+        },
+      });
+      return;
+    }
+
+    if (allowedRoles.length > 0 && !allowedRoles.includes(user.organizationRole)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_ORGANIZATION_ROLE',
+          message: 'Your role in this organization does not allow this',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Keep personal access tokens away from passwords, second factors, sessions and other tokens
+ */
+export function requireInteractiveSession(req: Request, res: Response, next: NextFunction): void {
+  const user = (req as AuthenticatedRequest).user;
+
+  if (user?.tokenId) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'SESSION_REQUIRED',
+        message: 'This action requires signing in; personal access tokens cannot be used',
+      },
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Step-up check for sensitive actions: the user must have signed in or re-authenticated within
+ * the configured window. Pass a condition to require it only for some requests to a route.
+ */
+export function requireRecentAuth(appliesTo?: (req: Request) => boolean) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    if (appliesTo && !appliesTo(req)) {
+      next();
+      return;
+    }
+
+    const authAgeMs = user.authTime === undefined ? Infinity : Date.now() - user.authTime * 1000;
+
+    if (authAgeMs > authConfig.stepUp.maxAuthAgeMs) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'REAUTHENTICATION_REQUIRED',
+          message: 'Confirm your identity to continue',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Keep impersonating administrators away from credentials, sessions and anything else only the
+ * account owner should change
+ */
+export function forbidImpersonation(req: Request, res: Response, next: NextFunction): void {
+  const user = (req as AuthenticatedRequest).user;
+
+  if (user?.impersonationId) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'IMPERSONATION_FORBIDDEN',
+        message: 'This action is not available while impersonating a user',
+      },
+    });
+    return;
+  }
+
+  next();
+}
+
 /**
  * CSRF protection middleware using double-submit cookie pattern
  */
@@ -26,17 +26,131 @@ export function notFoundHandler(req: Request, res: Response): void {
         availableEndpoints: {
           root: 'GET /',
           health: 'GET /health',
+          jwks: 'GET /.well-known/jwks.json',
+          'openid-configuration': 'GET /.well-known/openid-configuration',
+          'oauth-token': 'POST /oauth/token',
+          'oauth-userinfo': 'GET /oauth/userinfo',
           auth: {
             register: 'POST /api/auth/register',
             login: 'POST /api/auth/login',
+            'login-mfa': 'POST /api/auth/login/mfa',
+            'login-verify': 'POST /api/auth/login/verify',
+            'webauthn-login-options': 'POST /api/auth/webauthn/login/options',
+            'webauthn-login-verify': 'POST /api/auth/webauthn/login/verify',
+            'oidc-providers': 'GET /api/auth/oidc/providers',
+            'oidc-authorize': 'POST /api/auth/oidc/:provider/authorize',
+            'oidc-callback': 'POST /api/auth/oidc/:provider/callback',
+            'saml-start': 'POST /api/auth/saml/start',
+            'saml-metadata': 'GET /api/auth/saml/:connectionId/metadata',
+            'saml-acs': 'POST /api/auth/saml/:connectionId/acs',
+            'saml-callback': 'POST /api/auth/saml/callback',
             refresh: 'POST /api/auth/refresh',
             logout: 'POST /api/auth/logout',
+            'verify-email': 'POST /api/auth/verify-email',
+            'resend-verification': 'POST /api/auth/resend-verification',
+            'confirm-email-change': 'POST /api/auth/email-change/confirm',
+            'cancel-email-change': 'POST /api/auth/email-change/cancel',
+            'forgot-password': 'POST /api/auth/forgot',
+            'reset-password': 'POST /api/auth/reset',
+            'password-policy': 'GET /api/auth/password-policy',
+            'magic-link': 'POST /api/auth/magic-link',
+            'magic-link-login': 'POST /api/auth/magic-link/verify',
             profile: 'GET /api/auth/profile',
             'update-profile': 'PUT /api/auth/profile',
+            'cancel-pending-email-change': 'DELETE /api/auth/email-change',
             'change-password': 'PUT /api/auth/change-password',
             sessions: 'GET /api/auth/sessions',
             'revoke-session': 'DELETE /api/auth/sessions/:sessionId',
             'revoke-all-sessions': 'DELETE /api/auth/sessions',
+            'end-impersonation': 'POST /api/auth/impersonation/end',
+            reauthenticate: 'POST /api/auth/reauthenticate',
+            identities: 'GET /api/auth/identities',
+            'link-identity-authorize': 'POST /api/auth/identities/:provider/authorize',
+            'link-identity': 'POST /api/auth/identities/:provider',
+            'unlink-identity': 'DELETE /api/auth/identities/:identityId',
+            'saml-link-start': 'POST /api/auth/saml/link/start',
+            'saml-link': 'POST /api/auth/saml/link',
+            'oauth-authorize': 'GET /api/auth/oauth/authorize',
+            'oauth-consent': 'POST /api/auth/oauth/authorize',
+            'oauth-consents': 'GET /api/auth/oauth/consents',
+            'revoke-oauth-consent': 'DELETE /api/auth/oauth/consents/:clientId',
+            tokens: 'GET /api/auth/tokens',
+            'create-token': 'POST /api/auth/tokens',
+            'revoke-token': 'DELETE /api/auth/tokens/:tokenId',
+            activity: 'GET /api/auth/activity',
+            'mfa-status': 'GET /api/auth/mfa',
+            'mfa-totp-setup': 'POST /api/auth/mfa/totp/setup',
+            'mfa-totp-enable': 'POST /api/auth/mfa/totp/enable',
+            'mfa-totp-disable': 'POST /api/auth/mfa/totp/disable',
+            'mfa-recovery-codes': 'POST /api/auth/mfa/recovery-codes',
+            'webauthn-credentials': 'GET /api/auth/webauthn/credentials',
+            'webauthn-register-options': 'POST /api/auth/webauthn/register/options',
+            'webauthn-register-verify': 'POST /api/auth/webauthn/register/verify',
+            'webauthn-delete-credential': 'DELETE /api/auth/webauthn/credentials/:credentialId',
+          },
+          admin: {
+            roles: 'GET /api/admin/roles',
+            'create-role': 'POST /api/admin/roles',
+            'update-role': 'PUT /api/admin/roles/:roleId',
+            'delete-role': 'DELETE /api/admin/roles/:roleId',
+            'set-user-roles': 'PUT /api/admin/users/:userId/roles',
+            users: 'GET /api/admin/users?search=&status=&page=&pageSize=',
+            user: 'GET /api/admin/users/:userId',
+            'user-sessions': 'GET /api/admin/users/:userId/sessions',
+            'user-audit': 'GET /api/admin/users/:userId/audit',
+            'lock-user': 'POST /api/admin/users/:userId/lock',
+            'unlock-user': 'POST /api/admin/users/:userId/unlock',
+            'deactivate-user': 'POST /api/admin/users/:userId/deactivate',
+            'reactivate-user': 'POST /api/admin/users/:userId/reactivate',
+            'force-password-reset': 'POST /api/admin/users/:userId/force-password-reset',
+            'revoke-user-sessions': 'DELETE /api/admin/users/:userId/sessions[/:sessionId]',
+            'impersonate-user': 'POST /api/admin/users/:userId/impersonate',
+            audit: 'GET /api/admin/audit?event=&userId=&actorId=&ip=&requestId=&from=&to=&page=&pageSize=',
+            'oauth-clients': 'GET /api/admin/oauth-clients',
+            'create-oauth-client': 'POST /api/admin/oauth-clients',
+            'update-oauth-client': 'PUT /api/admin/oauth-clients/:clientId',
+            'rotate-oauth-client-secret': 'POST /api/admin/oauth-clients/:clientId/secret',
+            'delete-oauth-client': 'DELETE /api/admin/oauth-clients/:clientId',
+          },
+          organizations: {
+            list: 'GET /api/organizations',
+            create: 'POST /api/organizations',
+            switch: 'POST /api/organizations/:organizationId/switch',
+            members: 'GET /api/organizations/:organizationId/members',
+            'update-member-role': 'PATCH /api/organizations/:organizationId/members/:userId',
+            'remove-member': 'DELETE /api/organizations/:organizationId/members/:userId',
+            invitations: 'GET /api/organizations/:organizationId/invitations',
+            invite: 'POST /api/organizations/:organizationId/invitations',
+            'revoke-invitation': 'DELETE /api/organizations/:organizationId/invitations/:invitationId',
+            'preview-invitation': 'POST /api/organizations/invitations/preview',
+            'accept-invitation': 'POST /api/organizations/invitations/accept',
+            'decline-invitation': 'POST /api/organizations/invitations/decline',
+            saml: 'GET /api/organizations/:organizationId/saml',
+            'save-saml': 'PUT /api/organizations/:organizationId/saml',
+            'verify-saml-domain': 'POST /api/organizations/:organizationId/saml/domains/:domain/verify',
+            'delete-saml': 'DELETE /api/organizations/:organizationId/saml',
+          },
+          account: {
+            exports: 'GET /api/account/exports',
+            'request-export': 'POST /api/account/exports',
+            'download-export': 'GET /api/account/exports/:exportId/download',
+            'schedule-deletion': 'POST /api/account/deletion',
+            'cancel-deletion': 'DELETE /api/account/deletion',
+          },
+          scim: {
+            'service-provider-config': 'GET /scim/v2/ServiceProviderConfig',
+            users: 'GET /scim/v2/Users',
+            'create-user': 'POST /scim/v2/Users',
+            user: 'GET /scim/v2/Users/:userId',
+            'replace-user': 'PUT /scim/v2/Users/:userId',
+            'patch-user': 'PATCH /scim/v2/Users/:userId',
+            'delete-user': 'DELETE /scim/v2/Users/:userId',
+            groups: 'GET /scim/v2/Groups',
+            'create-group': 'POST /scim/v2/Groups',
+            group: 'GET /scim/v2/Groups/:groupId',
+            'replace-group': 'PUT /scim/v2/Groups/:groupId',
+            'patch-group': 'PATCH /scim/v2/Groups/:groupId',
+            'delete-group': 'DELETE /scim/v2/Groups/:groupId',
           },
         },
       },
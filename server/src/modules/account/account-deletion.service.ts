@@ -0,0 +1,219 @@
+import { PrismaClient, User } from '@prisma/client';
+
+import { ADMIN_ROLE } from '../auth/rbac.service';
+import { MailService } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { AuthError } from '../../types/auth.types';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Self-service account deletion. A request only schedules the deletion; the
+ * account keeps working through the grace period so the user can change
+ * their mind, and is then purged along with everything that references it.
+ */
+export class AccountDeletionService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * Schedule the user's account for deletion once the grace period is over.
+   * Asking again keeps the original date.
+   */
+  async scheduleDeletion(userId: string): Promise<Date> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    if (user.deletionScheduledAt) {
+      return user.deletionScheduledAt;
+    }
+
+    await this.assertDeletable(userId);
+
+    const scheduledFor = new Date(Date.now() + authConfig.accountDeletion.gracePeriodMs);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledAt: scheduledFor },
+    });
+
+    logger.info('Account deletion scheduled', { userId, scheduledFor: scheduledFor.toISOString() });
+    auditLog('account_deletion_scheduled', userId, undefined, undefined, { scheduledFor: scheduledFor.toISOString() });
+
+    try {
+      await this.mailService.sendAccountDeletionScheduled(user.email, scheduledFor, user.name);
+    } catch (error) {
+      logger.error('Failed to send account deletion email', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return scheduledFor;
+  }
+
+  /**
+   * Keep the account after all
+   */
+  async cancelDeletion(userId: string): Promise<void> {
+    const cancelled = await this.prisma.user.updateMany({
+      where: { id: userId, deletionScheduledAt: { not: null } },
+      data: { deletionScheduledAt: null },
+    });
+
+    if (cancelled.count === 0) {
+      throw new AuthError('DELETION_NOT_SCHEDULED', 'Your account is not scheduled for deletion');
+    }
+
+    logger.info('Account deletion cancelled', { userId });
+    auditLog('account_deletion_cancelled', userId);
+  }
+
+  /**
+   * Purge every account whose grace period is over. Returns how many were deleted.
+   */
+  async purgeDueAccounts(now: Date = new Date()): Promise<number> {
+    const users = await this.prisma.user.findMany({
+      where: { deletionScheduledAt: { lte: now } },
+    });
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        if (await this.purgeAccount(user)) {
+          purged++;
+        }
+      } catch (error) {
+        logger.error('Account purge failed', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return purged;
+  }
+
+  /**
+   * Purge due accounts now and then every hour
+   */
+  startPurging(): void {
+    if (this.purgeTimer) {
+      return;
+    }
+
+    const purge = () => {
+      this.purgeDueAccounts().catch(error => {
+        logger.error('Account purge failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    };
+
+    purge();
+    this.purgeTimer = setInterval(purge, PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Stop the scheduled purging
+   */
+  stopPurging(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+
+  // Private helper methods
+
+  // Deleting the user cascades to sessions and every other relation; audit events are kept
+  private async purgeAccount(user: User): Promise<boolean> {
+    try {
+      await this.assertDeletable(user.id);
+    } catch (error) {
+      // Someone made the user indispensable during the grace period; try again next run
+      logger.warn('Account purge postponed', {
+        userId: user.id,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      // Organizations nobody else belongs to would be left without an owner
+      const memberships = await tx.organizationMembership.findMany({
+        where: { userId: user.id },
+        include: { organization: { include: { _count: { select: { memberships: true } } } } },
+      });
+      const soleOrganizationIds = memberships
+        .filter(membership => membership.organization._count.memberships === 1)
+        .map(membership => membership.organizationId);
+
+      if (soleOrganizationIds.length > 0) {
+        await tx.organization.deleteMany({ where: { id: { in: soleOrganizationIds } } });
+      }
+
+      await tx.user.delete({ where: { id: user.id } });
+    });
+
+    logger.info('Account purged', { userId: user.id });
+    auditLog('account_deleted', user.id);
+
+    try {
+      await this.mailService.sendAccountDeleted(user.email, user.name);
+    } catch (error) {
+      logger.error('Failed to send account deleted email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return true;
+  }
+
+  // The last administrator, or the last owner of an organization others still belong to, must hand over first
+  private async assertDeletable(userId: string): Promise<void> {
+    const isAdmin = await this.prisma.userRole.count({
+      where: { userId, role: { name: ADMIN_ROLE } },
+    });
+
+    if (isAdmin > 0) {
+      const admins = await this.prisma.userRole.count({ where: { role: { name: ADMIN_ROLE } } });
+      if (admins <= 1) {
+        throw new AuthError('LAST_ADMIN', 'At least one administrator is required');
+      }
+    }
+
+    const ownerships = await this.prisma.organizationMembership.findMany({
+      where: { userId, role: 'OWNER' },
+      include: { organization: true },
+    });
+
+    for (const ownership of ownerships) {
+      const [owners, members] = await Promise.all([
+        this.prisma.organizationMembership.count({ where: { organizationId: ownership.organizationId, role: 'OWNER' } }),
+        this.prisma.organizationMembership.count({ where: { organizationId: ownership.organizationId } }),
+      ]);
+
+      if (owners <= 1 && members > 1) {
+        throw new AuthError(
+          'LAST_OWNER',
+          `Make someone else owner of ${ownership.organization.name} before deleting your account`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from 'express';
+import { DataExportService } from './data-export.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest, AuthenticatedUser } from '../../types/auth.types';
+
+export class AccountController {
+  private dataExportService: DataExportService;
+  private accountDeletionService: AccountDeletionService;
+
+  constructor(dataExportService: DataExportService, accountDeletionService: AccountDeletionService) {
+    this.dataExportService = dataExportService;
+    this.accountDeletionService = accountDeletionService;
+  }
+
+  /**
+   * List the user's recent data exports
+   */
+  async listExports(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const exports = await this.dataExportService.listExports(user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { exports },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Queue a copy of the user's data; it is built in the background
+   */
+  async requestExport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const dataExport = await this.dataExportService.requestExport(user.userId);
+
+      res.status(202).json({
+        success: true,
+        message: 'We are preparing a copy of your data and will email you when it is ready',
+        data: { export: dataExport },
+      });
+
+      logger.info('Data export queued', { requestId: req.id, userId: user.userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a finished export as a JSON file
+   */
+  async downloadExport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const result = await this.dataExportService.getArchive(user.userId, req.params.exportId!);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'EXPORT_NOT_FOUND',
+            message: 'Export not found, not ready yet or expired',
+          },
+        });
+        return;
+      }
+
+      const date = result.createdAt.toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="smarttask-data-${date}.json"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).send(result.archive);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period
+   */
+  async scheduleDeletion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const deletionScheduledAt = await this.accountDeletionService.scheduleDeletion(user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Your account will be deleted. You can cancel until then.',
+        data: { deletionScheduledAt },
+      });
+
+      logger.info('Account deletion requested', { requestId: req.id, userId: user.userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a scheduled account deletion
+   */
+  async cancelDeletion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      await this.accountDeletionService.cancelDeletion(user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Your account will not be deleted',
+      });
+
+      logger.info('Account deletion cancelled', { requestId: req.id, userId: user.userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUser(req: Request, res: Response): AuthenticatedUser | null {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,53 @@
+import { RequestHandler, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { AccountController } from './account.controller';
+import { DataExportService } from './data-export.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { validateRequest } from '../../middleware/validation';
+import {
+  forbidImpersonation,
+  requireInteractiveSession,
+  requireRecentAuth,
+} from '../../middleware/auth';
+import { dataExportSchema } from './account.validators';
+
+export function createAccountRoutes(prisma: PrismaClient, authenticateToken: RequestHandler): Router {
+  const router = Router();
+  const accountController = new AccountController(
+    new DataExportService(prisma),
+    new AccountDeletionService(prisma)
+  );
+
+  // Only the account holder, signed in themselves, can take their data or delete it
+  router.use(authenticateToken, requireInteractiveSession, forbidImpersonation);
+
+  router.get(
+    '/exports',
+    accountController.listExports.bind(accountController)
+  );
+
+  router.post(
+    '/exports',
+    requireRecentAuth(),
+    accountController.requestExport.bind(accountController)
+  );
+
+  router.get(
+    '/exports/:exportId/download',
+    validateRequest(dataExportSchema),
+    accountController.downloadExport.bind(accountController)
+  );
+
+  router.post(
+    '/deletion',
+    requireRecentAuth(),
+    accountController.scheduleDeletion.bind(accountController)
+  );
+
+  router.delete(
+    '/deletion',
+    accountController.cancelDeletion.bind(accountController)
+  );
+
+  return router;
+}
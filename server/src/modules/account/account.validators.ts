@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const dataExportSchema = z.object({
+  params: z.object({
+    exportId: z.string().cuid('Invalid export ID'),
+  }),
+});
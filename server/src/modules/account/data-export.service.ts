@@ -0,0 +1,348 @@
+import { DataExport, PrismaClient } from '@prisma/client';
+
+import { AuditRepository } from '../auth/audit.repository';
+import { RbacService } from '../auth/rbac.service';
+import { MailService } from '../mail/mail.service';
+import { SCIM_AUDIT_ACTOR } from '../scim/scim.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { AuthError, DataExportStatus, DataExportSummary } from '../../types/auth.types';
+
+const PROCESS_INTERVAL_MS = 60 * 1000;
+// An export still processing after this long was interrupted, e.g. by a restart
+const STALE_PROCESSING_MS = 60 * 60 * 1000;
+const PROCESS_BATCH_SIZE = 5;
+const LIST_LIMIT = 10;
+// Audit retention keeps a user's history well below this
+const AUDIT_HISTORY_LIMIT = 10000;
+
+/**
+ * Machine-readable copies of everything stored about a user. Exports are
+ * queued on request and built in the background, then kept for download
+ * until they expire.
+ */
+export class DataExportService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+  private auditRepository: AuditRepository;
+  private rbacService: RbacService;
+  private processTimer: NodeJS.Timeout | null = null;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+    this.auditRepository = new AuditRepository(prisma);
+    this.rbacService = new RbacService(prisma);
+  }
+
+  /**
+   * Queue an export and start building it. Only one can be in progress at a time.
+   */
+  async requestExport(userId: string): Promise<DataExportSummary> {
+    const inProgress = await this.prisma.dataExport.findFirst({
+      where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+    });
+
+    if (inProgress) {
+      throw new AuthError('EXPORT_IN_PROGRESS', 'A copy of your data is already being prepared');
+    }
+
+    const dataExport = await this.prisma.dataExport.create({
+      data: { userId },
+    });
+
+    logger.info('Data export requested', { userId, exportId: dataExport.id });
+    auditLog('data_export_requested', userId, undefined, undefined, { exportId: dataExport.id });
+
+    // Don't make the user wait for the next scheduled run
+    setImmediate(() => {
+      this.processExport(dataExport.id).catch(error => {
+        logger.error('Data export failed', {
+          exportId: dataExport.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }).unref();
+
+    return this.toSummary(dataExport);
+  }
+
+  /**
+   * The user's most recent exports, newest first
+   */
+  async listExports(userId: string): Promise<DataExportSummary[]> {
+    const exports = await this.prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: LIST_LIMIT,
+    });
+
+    return exports.map(dataExport => this.toSummary(dataExport));
+  }
+
+  /**
+   * The archive of a finished export, or null if it is not the user's, not ready or expired
+   */
+  async getArchive(userId: string, exportId: string): Promise<{ archive: string; createdAt: Date } | null> {
+    const dataExport = await this.prisma.dataExport.findFirst({
+      where: { id: exportId, userId },
+    });
+
+    if (!dataExport || !this.isDownloadable(dataExport)) {
+      return null;
+    }
+
+    auditLog('data_export_downloaded', userId, undefined, undefined, { exportId });
+
+    return { archive: dataExport.archive!, createdAt: dataExport.createdAt };
+  }
+
+  /**
+   * Build a queued export. Does nothing if another worker already claimed it.
+   */
+  async processExport(exportId: string): Promise<void> {
+    const claimed = await this.prisma.dataExport.updateMany({
+      where: { id: exportId, status: 'PENDING' },
+      data: { status: 'PROCESSING' },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const dataExport = await this.prisma.dataExport.findUnique({
+      where: { id: exportId },
+      include: { user: { select: { email: true, name: true } } },
+    });
+
+    if (!dataExport) {
+      return;
+    }
+
+    try {
+      const archive = JSON.stringify(await this.buildArchive(dataExport.userId), null, 2);
+      const completedAt = new Date();
+      const expiresAt = new Date(completedAt.getTime() + authConfig.dataExport.ttlMs);
+
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'READY',
+          archive,
+          sizeBytes: Buffer.byteLength(archive),
+          completedAt,
+          expiresAt,
+        },
+      });
+
+      logger.info('Data export ready', { userId: dataExport.userId, exportId });
+      auditLog('data_export_ready', dataExport.userId, undefined, undefined, { exportId });
+
+      try {
+        await this.mailService.sendDataExportReady(dataExport.user.email, expiresAt, dataExport.user.name);
+      } catch (error) {
+        // The export is listed in settings either way
+        logger.error('Failed to send data export email', {
+          exportId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    } catch (error) {
+      await this.prisma.dataExport.update({
+        where: { id: exportId },
+        data: { status: 'FAILED', completedAt: new Date() },
+      });
+
+      logger.error('Data export failed', {
+        userId: dataExport.userId,
+        exportId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Build queued exports, fail interrupted ones and drop archives past their expiry
+   */
+  async processPendingExports(now: Date = new Date()): Promise<void> {
+    await this.prisma.dataExport.updateMany({
+      where: { status: 'PROCESSING', createdAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+      data: { status: 'FAILED', completedAt: now },
+    });
+
+    await this.prisma.dataExport.updateMany({
+      where: { expiresAt: { lt: now }, archive: { not: null } },
+      data: { archive: null },
+    });
+
+    const pending = await this.prisma.dataExport.findMany({
+      where: { status: 'PENDING' },
+      orderBy: { createdAt: 'asc' },
+      take: PROCESS_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const { id } of pending) {
+      await this.processExport(id);
+    }
+  }
+
+  /**
+   * Process the queue now and then every minute
+   */
+  startProcessing(): void {
+    if (this.processTimer) {
+      return;
+    }
+
+    const processQueue = () => {
+      this.processPendingExports().catch(error => {
+        logger.error('Data export processing failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    };
+
+    processQueue();
+    this.processTimer = setInterval(processQueue, PROCESS_INTERVAL_MS);
+    this.processTimer.unref();
+  }
+
+  /**
+   * Stop the scheduled processing
+   */
+  stopProcessing(): void {
+    if (this.processTimer) {
+      clearInterval(this.processTimer);
+      this.processTimer = null;
+    }
+  }
+
+  // Private helper methods
+
+  // Everything stored about the user, without secrets such as password or token hashes
+  private async buildArchive(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+
+    const [
+      authorization,
+      sessions,
+      auditHistory,
+      memberships,
+      identities,
+      passkeys,
+      personalAccessTokens,
+      consents,
+      knownDevices,
+    ] = await Promise.all([
+      this.rbacService.getUserAuthorization(userId),
+      this.prisma.session.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } }),
+      this.auditRepository.findByUserId(userId, AUDIT_HISTORY_LIMIT),
+      this.prisma.organizationMembership.findMany({ where: { userId }, include: { organization: true } }),
+      this.prisma.linkedIdentity.findMany({ where: { userId } }),
+      this.prisma.webAuthnCredential.findMany({ where: { userId } }),
+      this.prisma.personalAccessToken.findMany({ where: { userId } }),
+      this.prisma.oAuthConsent.findMany({ where: { userId }, include: { client: true } }),
+      this.prisma.knownDevice.findMany({ where: { userId } }),
+    ]);
+
+    return {
+      format: 'smarttask-ai-account-export',
+      version: 1,
+      exportedAt: new Date(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+        mfaEnabled: user.mfaEnabled,
+        roles: authorization.roles,
+        passwordChangedAt: user.passwordChangedAt,
+        deletionScheduledAt: user.deletionScheduledAt,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      sessions: sessions.map(session => ({
+        id: session.id,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        deviceType: session.deviceType,
+        browser: session.browser,
+        os: session.os,
+        location: session.location,
+        revoked: session.isRevoked,
+        lastUsedAt: session.lastUsedAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+      })),
+      auditHistory: auditHistory.map(event => ({
+        event: event.event,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        details: event.details,
+        byAdministrator: event.actorId !== null && event.actorId !== SCIM_AUDIT_ACTOR,
+        createdAt: event.createdAt,
+      })),
+      organizations: memberships.map(membership => ({
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+      linkedAccounts: identities.map(identity => ({
+        provider: identity.provider,
+        email: identity.email,
+        lastUsedAt: identity.lastUsedAt,
+        createdAt: identity.createdAt,
+      })),
+      passkeys: passkeys.map(passkey => ({
+        name: passkey.name,
+        deviceType: passkey.deviceType,
+        backedUp: passkey.backedUp,
+        lastUsedAt: passkey.lastUsedAt,
+        createdAt: passkey.createdAt,
+      })),
+      personalAccessTokens: personalAccessTokens.map(token => ({
+        name: token.name,
+        hint: token.hint,
+        scopes: token.scopes ? token.scopes.split(',') : [],
+        expiresAt: token.expiresAt,
+        lastUsedAt: token.lastUsedAt,
+        lastUsedIp: token.lastUsedIp,
+        createdAt: token.createdAt,
+      })),
+      connectedApps: consents.map(consent => ({
+        name: consent.client.name,
+        scopes: consent.scopes.split(','),
+        createdAt: consent.createdAt,
+        updatedAt: consent.updatedAt,
+      })),
+      knownDevices: knownDevices.map(device => ({
+        network: device.network,
+        location: device.location,
+        firstSeenAt: device.firstSeenAt,
+        lastSeenAt: device.lastSeenAt,
+      })),
+    };
+  }
+
+  private isDownloadable(dataExport: DataExport): boolean {
+    return dataExport.status === 'READY'
+      && dataExport.archive !== null
+      && (!dataExport.expiresAt || dataExport.expiresAt > new Date());
+  }
+
+  private toSummary(dataExport: DataExport): DataExportSummary {
+    return {
+      id: dataExport.id,
+      status: dataExport.status as DataExportStatus,
+      sizeBytes: dataExport.sizeBytes,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+      downloadUrl: this.isDownloadable(dataExport) ? `/api/account/exports/${dataExport.id}/download` : null,
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { Request, Response, NextFunction } from 'express';
+import { AdminUserService } from './admin-user.service';
+import {
+  adminAuditHistoryQuerySchema,
+  adminListUsersQuerySchema,
+  AdminImpersonateUserRequest,
+  AdminLockUserRequest,
+} from './auth.validators';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class AdminUserController {
+  private adminUserService: AdminUserService;
+
+  constructor(adminUserService: AdminUserService) {
+    this.adminUserService = adminUserService;
+  }
+
+  /**
+   * List users with optional search and status filter
+   */
+  async listUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.adminUserService.listUsers(adminListUsersQuerySchema.parse(req.query));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a single user's account details
+   */
+  async getUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await this.adminUserService.getUser(req.params.userId as string);
+
+      res.status(200).json({
+        success: true,
+        data: { user },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a user's active sessions
+   */
+  async getUserSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const sessions = await this.adminUserService.getUserSessions(req.params.userId as string);
+
+      res.status(200).json({
+        success: true,
+        data: { sessions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a user's recent security events
+   */
+  async getUserAuditHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { limit } = adminAuditHistoryQuerySchema.parse(req.query);
+      const events = await this.adminUserService.getUserAuditHistory(req.params.userId as string, limit);
+
+      res.status(200).json({
+        success: true,
+        data: { events },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lock an account
+   */
+  async lockUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      const { lockedUntil }: AdminLockUserRequest = req.body;
+      const { userId } = req.params;
+      await this.adminUserService.lockUser(
+        userId as string,
+        actorId,
+        lockedUntil ? new Date(lockedUntil) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Account locked',
+      });
+
+      logger.info('Admin locked account', { requestId: req.id, actorId, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unlock an account
+   */
+  async unlockUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      await this.adminUserService.unlockUser(req.params.userId as string, actorId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account unlocked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deactivate an account
+   */
+  async deactivateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      await this.adminUserService.deactivateUser(req.params.userId as string, actorId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account deactivated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reactivate an account
+   */
+  async reactivateUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      await this.adminUserService.reactivateUser(req.params.userId as string, actorId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account reactivated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Require a password reset and email the user a reset link
+   */
+  async forcePasswordReset(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      await this.adminUserService.forcePasswordReset(req.params.userId as string, actorId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset required and reset email sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke all of a user's sessions, or a single one
+   */
+  async revokeSessions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      const { userId, sessionId } = req.params;
+      const revoked = await this.adminUserService.revokeSessions(userId as string, actorId, sessionId);
+
+      res.status(200).json({
+        success: true,
+        message: sessionId ? 'Session revoked' : 'All sessions revoked',
+        data: { revoked },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start a time-limited session as the user
+   */
+  async startImpersonation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const actorId = this.requireUserId(req, res);
+      if (!actorId) return;
+
+      const { reason }: AdminImpersonateUserRequest = req.body;
+      const { userId } = req.params;
+      const result = await this.adminUserService.startImpersonation(userId as string, actorId, reason);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+
+      logger.info('Admin started impersonation', { requestId: req.id, actorId, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,355 @@
+import { Prisma, PrismaClient, Session } from '@prisma/client';
+
+import { AuthService } from './auth.service';
+import { AuditRepository } from './audit.repository';
+import { RbacService } from './rbac.service';
+import { SessionRepository } from './session.repository';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import {
+  AuthError,
+  AdminUserDetail,
+  AdminUserListQuery,
+  AdminUserSummary,
+  AuditEventData,
+  ImpersonationStart,
+  PaginatedResult,
+} from '../../types/auth.types';
+
+const userSummarySelect = {
+  id: true,
+  email: true,
+  name: true,
+  isActive: true,
+  isLocked: true,
+  lockedUntil: true,
+  passwordResetRequired: true,
+  emailVerified: true,
+  mfaEnabled: true,
+  createdAt: true,
+  roles: { select: { role: { select: { name: true } } } },
+} satisfies Prisma.UserSelect;
+
+type UserSummaryRecord = Prisma.UserGetPayload<{ select: typeof userSummarySelect }>;
+
+/**
+ * Account administration: look users up and act on their accounts.
+ * Every action is audited with the acting administrator's id.
+ */
+export class AdminUserService {
+  private prisma: PrismaClient;
+  private authService: AuthService;
+  private sessionRepository: SessionRepository;
+  private auditRepository: AuditRepository;
+  private rbacService: RbacService;
+
+  constructor(prisma: PrismaClient, authService: AuthService) {
+    this.prisma = prisma;
+    this.authService = authService;
+    this.sessionRepository = new SessionRepository(prisma);
+    this.auditRepository = new AuditRepository(prisma);
+    this.rbacService = new RbacService(prisma);
+  }
+
+  /**
+   * Search users by email or name, newest first
+   */
+  async listUsers(query: AdminUserListQuery): Promise<PaginatedResult<AdminUserSummary>> {
+    const now = new Date();
+    const filters: Prisma.UserWhereInput[] = [];
+
+    if (query.search) {
+      filters.push({
+        OR: [
+          { email: { contains: query.search.toLowerCase() } },
+          { name: { contains: query.search } },
+        ],
+      });
+    }
+
+    // Expired automatic lockouts count as unlocked, matching the login check
+    if (query.status === 'active') {
+      filters.push({ isActive: true }, { OR: [{ isLocked: false }, { lockedUntil: { lte: now } }] });
+    } else if (query.status === 'locked') {
+      filters.push({ isLocked: true }, { OR: [{ lockedUntil: null }, { lockedUntil: { gt: now } }] });
+    } else if (query.status === 'inactive') {
+      filters.push({ isActive: false });
+    }
+
+    const where: Prisma.UserWhereInput = { AND: filters };
+
+    const [users, total] = await this.prisma.$transaction([
+      this.prisma.user.findMany({
+        where,
+        select: userSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return {
+      items: users.map(user => this.toSummary(user)),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  /**
+   * Full account details for a single user
+   */
+  async getUser(userId: string): Promise<AdminUserDetail> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...userSummarySelect,
+        failedLoginAttempts: true,
+        updatedAt: true,
+        _count: { select: { webAuthnCredentials: true } },
+      },
+    });
+
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    const [authorization, sessions] = await Promise.all([
+      this.rbacService.getUserAuthorization(userId),
+      this.sessionRepository.findActiveSessionsByUserId(userId),
+    ]);
+
+    return {
+      ...this.toSummary(user),
+      roles: authorization.roles,
+      permissions: authorization.permissions,
+      failedLoginAttempts: user.failedLoginAttempts,
+      activeSessionCount: sessions.length,
+      passkeyCount: user._count.webAuthnCredentials,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  /**
+   * Sessions that can still be refreshed
+   */
+  async getUserSessions(userId: string): Promise<Array<Pick<Session, 'id' | 'createdAt' | 'expiresAt'>>> {
+    await this.findUser(userId);
+
+    const sessions = await this.sessionRepository.findActiveSessionsByUserId(userId);
+    return sessions.map(session => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+    }));
+  }
+
+  /**
+   * Recent security events for a user
+   */
+  async getUserAuditHistory(userId: string, limit: number): Promise<AuditEventData[]> {
+    await this.findUser(userId);
+    return this.auditRepository.findByUserId(userId, limit);
+  }
+
+  /**
+   * Lock an account, either until a given time or until an administrator unlocks it
+   */
+  async lockUser(userId: string, actorId: string, lockedUntil?: Date): Promise<void> {
+    await this.findUser(userId, actorId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { isLocked: true, lockedUntil: lockedUntil ?? null },
+    });
+    await this.sessionRepository.revokeAllSessionsByUserId(userId);
+
+    logger.info('Account locked by administrator', { userId, actorId, lockedUntil });
+    auditLog('account_locked', userId, undefined, undefined, {
+      reason: 'admin',
+      actorId,
+      lockedUntil: lockedUntil?.toISOString() ?? null,
+    });
+  }
+
+  /**
+   * Lift a lock and clear failed login attempts
+   */
+  async unlockUser(userId: string, actorId: string): Promise<void> {
+    await this.findUser(userId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { isLocked: false, lockedUntil: null, failedLoginAttempts: 0 },
+    });
+
+    logger.info('Account unlocked by administrator', { userId, actorId });
+    auditLog('account_unlocked', userId, undefined, undefined, { actorId });
+  }
+
+  /**
+   * Deactivate an account and sign it out everywhere
+   */
+  async deactivateUser(userId: string, actorId: string): Promise<void> {
+    await this.findUser(userId, actorId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { isActive: false },
+    });
+    await this.sessionRepository.revokeAllSessionsByUserId(userId);
+
+    logger.info('Account deactivated', { userId, actorId });
+    auditLog('account_deactivated', userId, undefined, undefined, { actorId });
+  }
+
+  /**
+   * Allow a deactivated account to sign in again
+   */
+  async reactivateUser(userId: string, actorId: string): Promise<void> {
+    await this.findUser(userId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { isActive: true },
+    });
+
+    logger.info('Account reactivated', { userId, actorId });
+    auditLog('account_reactivated', userId, undefined, undefined, { actorId });
+  }
+
+  /**
+   * Refuse password sign-in until the user resets their password, sign them out
+   * everywhere and email them a reset link
+   */
+  async forcePasswordReset(userId: string, actorId: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.isActive) {
+      throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordResetRequired: true },
+    });
+    await this.sessionRepository.revokeAllSessionsByUserId(userId);
+    await this.authService.requestPasswordReset(user.email);
+
+    logger.info('Password reset forced', { userId, actorId });
+    auditLog('password_reset_forced', userId, undefined, undefined, { actorId });
+  }
+
+  /**
+   * Revoke one session, or every session when no id is given
+   */
+  async revokeSessions(userId: string, actorId: string, sessionId?: string): Promise<number> {
+    await this.findUser(userId);
+
+    let revoked: number;
+    if (sessionId) {
+      const found = await this.sessionRepository.revokeSession(sessionId, userId);
+      if (!found) {
+        throw new AuthError('SESSION_NOT_FOUND', 'Session not found');
+      }
+      revoked = 1;
+    } else {
+      revoked = await this.sessionRepository.revokeAllSessionsByUserId(userId);
+    }
+
+    logger.info('Sessions revoked by administrator', { userId, actorId, sessionId, revoked });
+    auditLog('sessions_revoked_by_admin', userId, undefined, undefined, { actorId, sessionId, revoked });
+
+    return revoked;
+  }
+
+  /**
+   * Sign in as the user for a limited time to see what they see. Administrators cannot be
+   * impersonated, so a support session never reaches beyond one ordinary account.
+   */
+  async startImpersonation(userId: string, actorId: string, reason: string): Promise<ImpersonationStart> {
+    const user = await this.findUser(userId, actorId);
+
+    if (!user.isActive || user.isLocked) {
+      throw new AuthError('USER_INVALID', 'Locked or deactivated accounts cannot be impersonated');
+    }
+
+    const authorization = await this.rbacService.getUserAuthorization(userId);
+    if (authorization.permissions.length > 0) {
+      throw new AuthError('CANNOT_IMPERSONATE_ADMIN', 'Accounts with administrative permissions cannot be impersonated');
+    }
+
+    // One support session per administrator at a time
+    await this.prisma.impersonation.updateMany({
+      where: { actorId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    const impersonation = await this.prisma.impersonation.create({
+      data: {
+        actorId,
+        targetUserId: userId,
+        reason,
+        expiresAt: new Date(Date.now() + authConfig.impersonation.maxDurationMs),
+      },
+    });
+
+    const { accessToken, user: authUser } = await this.authService.createImpersonationToken(user, impersonation);
+
+    logger.info('Impersonation started', { userId, actorId, impersonationId: impersonation.id });
+    auditLog('impersonation_started', userId, undefined, undefined, {
+      actorId,
+      impersonationId: impersonation.id,
+      reason,
+      expiresAt: impersonation.expiresAt.toISOString(),
+    });
+
+    return {
+      accessToken,
+      user: authUser,
+      impersonation: {
+        id: impersonation.id,
+        actorId,
+        targetUserId: userId,
+        reason,
+        expiresAt: impersonation.expiresAt,
+      },
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Load the target account. When an actor is given, refuse to act on their own
+   * account so an administrator cannot lock themselves out.
+   */
+  private async findUser(userId: string, actorId?: string) {
+    if (actorId && userId === actorId) {
+      throw new AuthError('CANNOT_MODIFY_SELF', 'You cannot perform this action on your own account');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    return user;
+  }
+
+  private toSummary(user: UserSummaryRecord): AdminUserSummary {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      roles: user.roles.map(assignment => assignment.role.name).sort(),
+      isActive: user.isActive,
+      isLocked: user.isLocked,
+      lockedUntil: user.lockedUntil,
+      passwordResetRequired: user.passwordResetRequired,
+      emailVerified: user.emailVerified,
+      mfaEnabled: user.mfaEnabled,
+      createdAt: user.createdAt,
+    };
+  }
+}
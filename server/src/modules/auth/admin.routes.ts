@@ -0,0 +1,207 @@
+import { RequestHandler, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { RoleController } from './role.controller';
+import { AdminUserController } from './admin-user.controller';
+import { AdminUserService } from './admin-user.service';
+import { AuthService } from './auth.service';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { OAuthClientController } from './oauth-client.controller';
+import { OAuthClientService } from './oauth-client.service';
+import { RbacService, PERMISSIONS } from './rbac.service';
+import { validateRequest } from '../../middleware/validation';
+import { requirePermission } from '../../middleware/auth';
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  deleteRoleSchema,
+  setUserRolesSchema,
+  adminListUsersSchema,
+  adminUserSchema,
+  adminAuditHistorySchema,
+  adminLockUserSchema,
+  adminImpersonateUserSchema,
+  adminRevokeSessionSchema,
+  auditEventsSchema,
+  createOAuthClientSchema,
+  updateOAuthClientSchema,
+  oauthClientSchema,
+} from './auth.validators';
+
+export function createAdminRoutes(prisma: PrismaClient, authenticateToken: RequestHandler): Router {
+  const router = Router();
+  const roleController = new RoleController(new RbacService(prisma));
+  const adminUserController = new AdminUserController(
+    new AdminUserService(prisma, new AuthService(prisma))
+  );
+  const auditController = new AuditController(new AuditService(prisma));
+  const oauthClientController = new OAuthClientController(new OAuthClientService(prisma));
+
+  // Every admin route requires a signed-in user; each route checks its own permission
+  router.use(authenticateToken);
+
+  // Role management
+  router.get(
+    '/roles',
+    requirePermission(PERMISSIONS.ROLES_MANAGE),
+    roleController.listRoles.bind(roleController)
+  );
+
+  router.post(
+    '/roles',
+    requirePermission(PERMISSIONS.ROLES_MANAGE),
+    validateRequest(createRoleSchema),
+    roleController.createRole.bind(roleController)
+  );
+
+  router.put(
+    '/roles/:roleId',
+    requirePermission(PERMISSIONS.ROLES_MANAGE),
+    validateRequest(updateRoleSchema),
+    roleController.updateRole.bind(roleController)
+  );
+
+  router.delete(
+    '/roles/:roleId',
+    requirePermission(PERMISSIONS.ROLES_MANAGE),
+    validateRequest(deleteRoleSchema),
+    roleController.deleteRole.bind(roleController)
+  );
+
+  router.put(
+    '/users/:userId/roles',
+    requirePermission(PERMISSIONS.ROLES_MANAGE),
+    validateRequest(setUserRolesSchema),
+    roleController.setUserRoles.bind(roleController)
+  );
+
+  // User management
+  router.get(
+    '/users',
+    requirePermission(PERMISSIONS.USERS_READ),
+    validateRequest(adminListUsersSchema),
+    adminUserController.listUsers.bind(adminUserController)
+  );
+
+  router.get(
+    '/users/:userId',
+    requirePermission(PERMISSIONS.USERS_READ),
+    validateRequest(adminUserSchema),
+    adminUserController.getUser.bind(adminUserController)
+  );
+
+  router.get(
+    '/users/:userId/sessions',
+    requirePermission(PERMISSIONS.USERS_READ),
+    validateRequest(adminUserSchema),
+    adminUserController.getUserSessions.bind(adminUserController)
+  );
+
+  router.get(
+    '/users/:userId/audit',
+    requirePermission(PERMISSIONS.AUDIT_READ),
+    validateRequest(adminAuditHistorySchema),
+    adminUserController.getUserAuditHistory.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/lock',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminLockUserSchema),
+    adminUserController.lockUser.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/unlock',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminUserSchema),
+    adminUserController.unlockUser.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/deactivate',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminUserSchema),
+    adminUserController.deactivateUser.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/reactivate',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminUserSchema),
+    adminUserController.reactivateUser.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/force-password-reset',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminUserSchema),
+    adminUserController.forcePasswordReset.bind(adminUserController)
+  );
+
+  router.delete(
+    '/users/:userId/sessions',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminUserSchema),
+    adminUserController.revokeSessions.bind(adminUserController)
+  );
+
+  router.delete(
+    '/users/:userId/sessions/:sessionId',
+    requirePermission(PERMISSIONS.USERS_WRITE),
+    validateRequest(adminRevokeSessionSchema),
+    adminUserController.revokeSessions.bind(adminUserController)
+  );
+
+  router.post(
+    '/users/:userId/impersonate',
+    requirePermission(PERMISSIONS.USERS_IMPERSONATE),
+    validateRequest(adminImpersonateUserSchema),
+    adminUserController.startImpersonation.bind(adminUserController)
+  );
+
+  // Audit log
+  router.get(
+    '/audit',
+    requirePermission(PERMISSIONS.AUDIT_READ),
+    validateRequest(auditEventsSchema),
+    auditController.listEvents.bind(auditController)
+  );
+
+  // Apps signing users in through the OpenID Connect provider
+  router.get(
+    '/oauth-clients',
+    requirePermission(PERMISSIONS.OAUTH_CLIENTS_MANAGE),
+    oauthClientController.listClients.bind(oauthClientController)
+  );
+
+  router.post(
+    '/oauth-clients',
+    requirePermission(PERMISSIONS.OAUTH_CLIENTS_MANAGE),
+    validateRequest(createOAuthClientSchema),
+    oauthClientController.createClient.bind(oauthClientController)
+  );
+
+  router.put(
+    '/oauth-clients/:clientId',
+    requirePermission(PERMISSIONS.OAUTH_CLIENTS_MANAGE),
+    validateRequest(updateOAuthClientSchema),
+    oauthClientController.updateClient.bind(oauthClientController)
+  );
+
+  router.post(
+    '/oauth-clients/:clientId/secret',
+    requirePermission(PERMISSIONS.OAUTH_CLIENTS_MANAGE),
+    validateRequest(oauthClientSchema),
+    oauthClientController.rotateSecret.bind(oauthClientController)
+  );
+
+  router.delete(
+    '/oauth-clients/:clientId',
+    requirePermission(PERMISSIONS.OAUTH_CLIENTS_MANAGE),
+    validateRequest(oauthClientSchema),
+    oauthClientController.deleteClient.bind(oauthClientController)
+  );
+
+  return router;
+}
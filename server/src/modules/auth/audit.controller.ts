@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditService } from './audit.service';
+import { auditEventsQuerySchema, securityActivityQuerySchema } from './auth.validators';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor(auditService: AuditService) {
+    this.auditService = auditService;
+  }
+
+  /**
+   * Search the audit log
+   */
+  async listEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.auditService.queryEvents(auditEventsQuerySchema.parse(req.query));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * The signed-in user's own security activity
+   */
+  async getMyActivity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { page, pageSize } = securityActivityQuerySchema.parse(req.query);
+      const result = await this.auditService.getUserActivity(userId, page, pageSize);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { AuditEvent, Prisma, PrismaClient } from '@prisma/client';
+import { AuditEventEntry, AuditEventStore } from '../../utils/logger';
+import { AuditEventData, AuditEventQuery, PaginatedResult } from '../../types/auth.types';
+
+export class AuditRepository implements AuditEventStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Persist a security event raised through auditLog()
+   */
+  async record(entry: AuditEventEntry): Promise<void> {
+    await this.prisma.auditEvent.create({
+      data: {
+        event: entry.event,
+        userId: entry.userId ?? null,
+        actorId: entry.actorId ?? null,
+        ip: entry.ip ?? null,
+        userAgent: entry.userAgent ?? null,
+        requestId: entry.requestId ?? null,
+        details: entry.details ? JSON.stringify(entry.details) : null,
+      },
+    });
+  }
+
+  /**
+   * Most recent events for a user, newest first
+   */
+  async findByUserId(userId: string, limit: number): Promise<AuditEventData[]> {
+    const events = await this.prisma.auditEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return events.map(event => this.toData(event));
+  }
+
+  /**
+   * Page through events matching every given filter, newest first
+   */
+  async findMany(query: AuditEventQuery): Promise<PaginatedResult<AuditEventData>> {
+    const where: Prisma.AuditEventWhereInput = {
+      ...(query.event
+        ? { event: query.event }
+        : query.excludeEvents && { event: { notIn: query.excludeEvents } }),
+      ...(query.userId && { userId: query.userId }),
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.ip && { ip: query.ip }),
+      ...(query.requestId && { requestId: query.requestId }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const [events, total] = await this.prisma.$transaction([
+      this.prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      this.prisma.auditEvent.count({ where }),
+    ]);
+
+    return {
+      items: events.map(event => this.toData(event)),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  /**
+   * Count events of the given types from an IP since a point in time
+   */
+  async countByIpSince(events: string[], ip: string, since: Date): Promise<number> {
+    return this.prisma.auditEvent.count({
+      where: { event: { in: events }, ip, createdAt: { gte: since } },
+    });
+  }
+
+  /**
+   * Delete events recorded before the cutoff
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const result = await this.prisma.auditEvent.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+
+    return result.count;
+  }
+
+  // Private helper methods
+
+  private toData(event: AuditEvent): AuditEventData {
+    return {
+      id: event.id,
+      event: event.event,
+      userId: event.userId,
+      actorId: event.actorId,
+      ip: event.ip,
+      userAgent: event.userAgent,
+      requestId: event.requestId,
+      details: event.details ? JSON.parse(event.details) : null,
+      createdAt: event.createdAt,
+    };
+  }
+}
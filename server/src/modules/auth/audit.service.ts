@@ -0,0 +1,111 @@
+import { PrismaClient } from '@prisma/client';
+
+import { AuditRepository } from './audit.repository';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+import {
+  AuditEventData,
+  AuditEventQuery,
+  PaginatedResult,
+  SecurityActivityEntry,
+} from '../../types/auth.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_CHECK_INTERVAL_MS = DAY_MS;
+
+// Raised on every token refresh, sign-in or impersonated request; too frequent to be useful in a user's activity feed
+const HIDDEN_ACTIVITY_EVENTS = ['token_refreshed', 'login_risk_assessed', 'impersonated_request'];
+
+export class AuditService {
+  private auditRepository: AuditRepository;
+  private retentionDays: number;
+  private retentionTimer: NodeJS.Timeout | null = null;
+
+  constructor(prisma: PrismaClient, retentionDays: number = authConfig.audit.retentionDays) {
+    this.auditRepository = new AuditRepository(prisma);
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Search the audit log
+   */
+  async queryEvents(query: AuditEventQuery): Promise<PaginatedResult<AuditEventData>> {
+    return this.auditRepository.findMany(query);
+  }
+
+  /**
+   * A user's own security activity, without the internal event details
+   */
+  async getUserActivity(
+    userId: string,
+    page: number,
+    pageSize: number
+  ): Promise<PaginatedResult<SecurityActivityEntry>> {
+    const result = await this.auditRepository.findMany({
+      userId,
+      excludeEvents: HIDDEN_ACTIVITY_EVENTS,
+      page,
+      pageSize,
+    });
+
+    return {
+      ...result,
+      items: result.items.map(event => ({
+        id: event.id,
+        event: event.event,
+        ip: event.ip,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Delete events older than the retention period. Returns how many were removed.
+   */
+  async pruneExpiredEvents(now: Date = new Date()): Promise<number> {
+    if (this.retentionDays === 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - this.retentionDays * DAY_MS);
+    const deleted = await this.auditRepository.deleteOlderThan(cutoff);
+
+    if (deleted > 0) {
+      logger.info('Pruned expired audit events', { deleted, cutoff: cutoff.toISOString() });
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Prune now and then once a day
+   */
+  startRetention(): void {
+    if (this.retentionDays === 0 || this.retentionTimer) {
+      return;
+    }
+
+    const prune = () => {
+      this.pruneExpiredEvents().catch(error => {
+        logger.error('Audit log retention failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    };
+
+    prune();
+    this.retentionTimer = setInterval(prune, RETENTION_CHECK_INTERVAL_MS);
+    this.retentionTimer.unref();
+  }
+
+  /**
+   * Stop the scheduled pruning
+   */
+  stopRetention(): void {
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = null;
+    }
+  }
+}
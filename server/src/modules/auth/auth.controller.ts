@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthService } from './auth.service';
 import { logger } from '../../utils/logger';
 import { authConfig } from '../../config/auth.config';
+import { ReauthenticateRequest } from './auth.validators';
 
 export class AuthController {
   private authService: AuthService;
@@ -16,8 +17,10 @@ export class AuthController {
   async register(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { email, password, name } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
 
-      const result = await this.authService.register({ email, password, name });
+      const result = await this.authService.register({ email, password, name }, ip, userAgent);
 
       // Set refresh token as HttpOnly cookie
       res.cookie('refreshToken', result.refreshToken, {
@@ -55,6 +58,34 @@ export class AuthController {
 
       const result = await this.authService.login({ email, password }, ip, userAgent);
 
+      // Password accepted but a second factor is still required - no session yet
+      if ('mfaRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+
+        logger.info('User login requires second factor', { requestId: req.id });
+        return;
+      }
+
+      // Password accepted but the sign-in looked unusual - confirm it with the emailed code
+      if ('verificationRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            verificationRequired: true,
+            verificationToken: result.verificationToken,
+          },
+        });
+
+        logger.info('User login requires email verification', { requestId: req.id });
+        return;
+      }
+
       // Set refresh token as HttpOnly cookie
       res.cookie('refreshToken', result.refreshToken, {
         httpOnly: authConfig.cookies.httpOnly,
@@ -80,6 +111,114 @@ export class AuthController {
     }
   }
 
+  /**
+   * Complete a login held back by the risk checks with the emailed code
+   */
+  async verifyLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { verificationToken, code } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.completeLoginVerification(verificationToken, code, ip, userAgent);
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User verified login successful', { 
+        requestId: req.id, 
+        email: result.user.email 
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Complete login with a second factor
+   */
+  async loginMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfaToken, code, recoveryCode } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.completeMfaLogin(mfaToken, { code, recoveryCode }, ip, userAgent);
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User MFA login successful', { 
+        requestId: req.id, 
+        email: result.user.email 
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Passwordless login with a passkey
+   */
+  async loginWithPasskey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { challengeId, response } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.loginWithPasskey(challengeId, response, ip, userAgent);
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User passkey login successful', { 
+        requestId: req.id, 
+        email: result.user.email 
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Refresh access token
    */
@@ -98,7 +237,17 @@ export class AuthController {
         return;
       }
 
-      const result = await this.authService.refreshToken(refreshToken);
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+      const result = await this.authService.refreshToken(refreshToken, ip, userAgent);
+
+      // The presented refresh token is now consumed; hand out its replacement
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
 
       res.status(200).json({
         success: true,
@@ -142,6 +291,231 @@ export class AuthController {
     }
   }
 
+  /**
+   * Verify email address
+   */
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      await this.authService.verifyEmail(token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+      });
+
+      logger.info('Email verification successful', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply an email change from the link sent to the new address
+   */
+  async confirmEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      await this.authService.confirmEmailChange(token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email address changed. Other devices have been signed out.',
+      });
+
+      logger.info('Email change confirmed', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stop an email change from the link sent to the current address
+   */
+  async cancelEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      await this.authService.cancelEmailChange(token);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email change cancelled',
+      });
+
+      logger.info('Email change cancelled', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Re-send verification email
+   */
+  async resendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      await this.authService.resendVerificationEmail(email);
+
+      // Same response whether or not the account exists
+      res.status(200).json({
+        success: true,
+        message: 'If an unverified account exists for this email, a new verification link has been sent.',
+      });
+
+      logger.info('Verification resend processed', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request a password reset email
+   */
+  async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      await this.authService.requestPasswordReset(email, ip, userAgent);
+
+      // Same response whether or not the account exists
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent.',
+      });
+
+      logger.info('Password reset request processed', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Email a passwordless sign-in link, tied to this browser by a cookie
+   */
+  async requestMagicLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const browserToken = await this.authService.requestMagicLink(email, ip, userAgent);
+
+      res.cookie(authConfig.magicLink.cookieName, browserToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.magicLink.tokenTtlMs,
+      });
+
+      // Same response whether or not the account exists
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a sign-in link has been sent.',
+      });
+
+      logger.info('Sign-in link request processed', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign in with an emailed link
+   */
+  async loginWithMagicLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.loginWithMagicLink(
+        token,
+        req.cookies?.[authConfig.magicLink.cookieName],
+        ip,
+        userAgent
+      );
+
+      // The link has been used up, and with it the browser secret
+      res.clearCookie(authConfig.magicLink.cookieName, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+      });
+
+      // Link accepted but a second factor is still required - no session yet
+      if ('mfaRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+
+        logger.info('User login requires second factor', { requestId: req.id });
+        return;
+      }
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User magic link login successful', { 
+        requestId: req.id, 
+        email: result.user.email 
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reset password using a reset token
+   */
+  async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      await this.authService.resetPassword(token, newPassword, ip, userAgent);
+
+      // Any session on this device is no longer valid
+      res.clearCookie('refreshToken', {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset successfully. Please log in with your new password.',
+      });
+
+      logger.info('Password reset successful', { requestId: req.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get current user profile
    */
@@ -206,14 +580,60 @@ export class AuthController {
         return;
       }
 
-      await this.authService.updateUserProfile(userId, { name, email });
+      const pendingEmailChange = await this.authService.updateUserProfile(
+        userId,
+        { name, email },
+        (req as any).user?.sessionId
+      );
+
+      if (pendingEmailChange) {
+        res.status(200).json({
+          success: true,
+          message: `Profile updated. Open the link we sent to ${pendingEmailChange.email} to start using it.`,
+          data: { pendingEmailChange },
+        });
+      } else {
+        res.status(200).json({
+          success: true,
+          message: 'Profile updated successfully',
+        });
+      }
+
+      logger.info('Profile updated successfully', { 
+        requestId: req.id, 
+        userId 
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stop the signed-in user's pending email change
+   */
+  async cancelPendingEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      await this.authService.cancelPendingEmailChange(userId);
 
       res.status(200).json({
         success: true,
-        message: 'Profile updated successfully',
+        message: 'Email change cancelled',
       });
 
-      logger.info('Profile updated successfully', { 
+      logger.info('Pending email change cancelled', { 
         requestId: req.id, 
         userId 
       });
@@ -282,7 +702,7 @@ export class AuthController {
         return;
       }
 
-      const sessions = await this.authService.getUserSessions(userId);
+      const sessions = await this.authService.getUserSessions(userId, (req as any).user?.sessionId);
 
       res.status(200).json({
         success: true,
@@ -389,6 +809,89 @@ export class AuthController {
     }
   }
 
+  /**
+   * Confirm the user's identity before a sensitive action
+   */
+  async reauthenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user?.sessionId) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'SESSION_REQUIRED',
+            message: 'Confirming your identity requires signing in',
+          },
+        });
+        return;
+      }
+
+      const { password, code, recoveryCode }: ReauthenticateRequest = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+      const result = await this.authService.reauthenticate(
+        user.userId,
+        user.sessionId,
+        { password, code, recoveryCode },
+        ip,
+        userAgent
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { accessToken: result.accessToken },
+      });
+
+      logger.info('Re-authentication successful', { requestId: req.id, userId: user.userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * End the impersonation the request's access token belongs to
+   */
+  async endImpersonation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user?.impersonationId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'NOT_IMPERSONATING',
+            message: 'This access token is not impersonating a user',
+          },
+        });
+        return;
+      }
+
+      await this.authService.endImpersonation(user.impersonationId, user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Impersonation ended',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Password rules forms check before submitting
+   */
+  async getPasswordPolicy(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: { policy: this.authService.getPasswordPolicy() },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Health check endpoint
    */
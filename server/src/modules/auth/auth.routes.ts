@@ -1,11 +1,31 @@
-import { Router } from 'express';
+import { Request, RequestHandler, Router } from 'express';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { MfaController } from './mfa.controller';
+import { MfaService } from './mfa.service';
+import { WebAuthnController } from './webauthn.controller';
+import { WebAuthnService } from './webauthn.service';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { PersonalAccessTokenController } from './personal-access-token.controller';
+import { PersonalAccessTokenService, TOKEN_SCOPES } from './personal-access-token.service';
+import { OidcController } from './oidc.controller';
+import { OidcService } from './oidc.service';
+import { SamlController } from './saml.controller';
+import { SamlService } from './saml.service';
+import { OAuthServerController } from './oauth-server.controller';
+import { OAuthServerService } from './oauth-server.service';
 import { PrismaClient } from '@prisma/client';
 import { validateRequest } from '../../middleware/validation';
-import { authenticateToken } from '../../middleware/auth';
+import {
+  forbidImpersonation,
+  requireInteractiveSession,
+  requireRecentAuth,
+  requireScope,
+} from '../../middleware/auth';
 import { rateLimit } from 'express-rate-limit';
 import { authConfig } from '../../config/auth.config';
+import { AuthenticatedRequest } from '../../types/auth.types';
 import {
   loginSchema,
   registerSchema,
@@ -13,12 +33,54 @@ import {
   logoutSchema,
   changePasswordSchema,
   updateProfileSchema,
+  reauthenticateSchema,
+  verifyEmailSchema,
+  emailChangeTokenSchema,
+  resendVerificationSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  magicLinkRequestSchema,
+  magicLinkLoginSchema,
+  mfaLoginSchema,
+  loginVerificationSchema,
+  enableTotpSchema,
+  disableTotpSchema,
+  regenerateRecoveryCodesSchema,
+  webAuthnRegistrationSchema,
+  webAuthnLoginSchema,
+  webAuthnCredentialParamsSchema,
+  securityActivitySchema,
+  createPersonalAccessTokenSchema,
+  personalAccessTokenParamsSchema,
+  oidcAuthorizeSchema,
+  oidcCallbackSchema,
+  samlStartSchema,
+  samlMetadataSchema,
+  samlAcsSchema,
+  samlCallbackSchema,
+  linkedIdentityParamsSchema,
+  oauthAuthorizationSchema,
+  oauthConsentSchema,
+  oauthConsentParamsSchema,
 } from './auth.validators';
 
-export function createAuthRoutes(prisma: PrismaClient): Router {
+// The profile form always sends the current address; only a different one needs a recent sign-in
+function changesEmail(req: Request): boolean {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim().toLowerCase() !== (req as AuthenticatedRequest).user?.email;
+}
+
+export function createAuthRoutes(prisma: PrismaClient, authenticateToken: RequestHandler): Router {
   const router = Router();
   const authService = new AuthService(prisma);
   const authController = new AuthController(authService);
+  const mfaController = new MfaController(new MfaService(prisma));
+  const webAuthnController = new WebAuthnController(new WebAuthnService(prisma));
+  const auditController = new AuditController(new AuditService(prisma));
+  const personalAccessTokenController = new PersonalAccessTokenController(new PersonalAccessTokenService(prisma));
+  const oidcController = new OidcController(authService, new OidcService(prisma));
+  const samlController = new SamlController(authService, new SamlService(prisma));
+  const oauthServerController = new OAuthServerController(new OAuthServerService(prisma));
 
   // Rate limiting for general auth endpoints
   const generalRateLimit = rateLimit({
@@ -66,6 +128,51 @@ export function createAuthRoutes(prisma: PrismaClient): Router {
     legacyHeaders: false,
   });
 
+  // Separate limit for verification emails so they cannot be used to spam an inbox
+  const verificationResendRateLimit = rateLimit({
+    windowMs: authConfig.rateLimiting.loginWindowMs,
+    max: authConfig.rateLimiting.maxVerificationResends,
+    message: {
+      success: false,
+      error: {
+        code: 'VERIFICATION_RATE_LIMIT_EXCEEDED',
+        message: 'Too many verification emails requested, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Stricter rate limiting for password reset requests and attempts
+  const passwordResetRateLimit = rateLimit({
+    windowMs: authConfig.rateLimiting.loginWindowMs,
+    max: authConfig.rateLimiting.maxPasswordResetRequests,
+    message: {
+      success: false,
+      error: {
+        code: 'PASSWORD_RESET_RATE_LIMIT_EXCEEDED',
+        message: 'Too many password reset attempts, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  // Sign-in links are emailed, so requests are limited like password resets
+  const magicLinkRateLimit = rateLimit({
+    windowMs: authConfig.rateLimiting.loginWindowMs,
+    max: authConfig.rateLimiting.maxMagicLinkRequests,
+    message: {
+      success: false,
+      error: {
+        code: 'MAGIC_LINK_RATE_LIMIT_EXCEEDED',
+        message: 'Too many sign-in link requests, please try again later.',
+      },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
   // Apply general rate limiting to all auth routes
   router.use(generalRateLimit);
 
@@ -84,6 +191,77 @@ export function createAuthRoutes(prisma: PrismaClient): Router {
     authController.login.bind(authController)
   );
 
+  router.post(
+    '/login/mfa',
+    loginRateLimit,
+    validateRequest(mfaLoginSchema),
+    authController.loginMfa.bind(authController)
+  );
+
+  router.post(
+    '/login/verify',
+    loginRateLimit,
+    validateRequest(loginVerificationSchema),
+    authController.verifyLogin.bind(authController)
+  );
+
+  router.post(
+    '/webauthn/login/options',
+    loginRateLimit,
+    webAuthnController.authenticationOptions.bind(webAuthnController)
+  );
+
+  router.post(
+    '/webauthn/login/verify',
+    loginRateLimit,
+    validateRequest(webAuthnLoginSchema),
+    authController.loginWithPasskey.bind(authController)
+  );
+
+  router.get('/oidc/providers', oidcController.listProviders.bind(oidcController));
+
+  router.post(
+    '/oidc/:provider/authorize',
+    loginRateLimit,
+    validateRequest(oidcAuthorizeSchema),
+    oidcController.authorize.bind(oidcController)
+  );
+
+  router.post(
+    '/oidc/:provider/callback',
+    loginRateLimit,
+    validateRequest(oidcCallbackSchema),
+    oidcController.callback.bind(oidcController)
+  );
+
+  // SAML single sign-on; identity providers post their responses straight to the API
+  router.post(
+    '/saml/start',
+    loginRateLimit,
+    validateRequest(samlStartSchema),
+    samlController.start.bind(samlController)
+  );
+
+  router.post(
+    '/saml/callback',
+    loginRateLimit,
+    validateRequest(samlCallbackSchema),
+    samlController.callback.bind(samlController)
+  );
+
+  router.get(
+    '/saml/:connectionId/metadata',
+    validateRequest(samlMetadataSchema),
+    samlController.metadata.bind(samlController)
+  );
+
+  router.post(
+    '/saml/:connectionId/acs',
+    loginRateLimit,
+    validateRequest(samlAcsSchema),
+    samlController.acs.bind(samlController)
+  );
+
   router.post(
     '/refresh',
     validateRequest(refreshTokenSchema),
@@ -96,20 +274,107 @@ export function createAuthRoutes(prisma: PrismaClient): Router {
     authController.logout.bind(authController)
   );
 
+  router.post(
+    '/verify-email',
+    validateRequest(verifyEmailSchema),
+    authController.verifyEmail.bind(authController)
+  );
+
+  router.post(
+    '/email-change/confirm',
+    validateRequest(emailChangeTokenSchema),
+    authController.confirmEmailChange.bind(authController)
+  );
+
+  router.post(
+    '/email-change/cancel',
+    validateRequest(emailChangeTokenSchema),
+    authController.cancelEmailChange.bind(authController)
+  );
+
+  router.post(
+    '/resend-verification',
+    verificationResendRateLimit,
+    validateRequest(resendVerificationSchema),
+    authController.resendVerification.bind(authController)
+  );
+
+  router.post(
+    '/forgot',
+    passwordResetRateLimit,
+    validateRequest(forgotPasswordSchema),
+    authController.forgotPassword.bind(authController)
+  );
+
+  router.post(
+    '/magic-link',
+    magicLinkRateLimit,
+    validateRequest(magicLinkRequestSchema),
+    authController.requestMagicLink.bind(authController)
+  );
+
+  router.post(
+    '/magic-link/verify',
+    magicLinkRateLimit,
+    validateRequest(magicLinkLoginSchema),
+    authController.loginWithMagicLink.bind(authController)
+  );
+
+  router.post(
+    '/reset',
+    passwordResetRateLimit,
+    validateRequest(resetPasswordSchema),
+    authController.resetPassword.bind(authController)
+  );
+
+  router.get('/password-policy', authController.getPasswordPolicy.bind(authController));
+
   // Health check endpoint
   router.get('/health', authController.healthCheck.bind(authController));
 
   // Protected routes (authentication required)
   router.use(authenticateToken);
 
-  router.get('/profile', authController.getProfile.bind(authController));
+  router.get(
+    '/profile',
+    requireScope(TOKEN_SCOPES.PROFILE_READ),
+    authController.getProfile.bind(authController)
+  );
   
   router.put(
     '/profile',
+    requireScope(TOKEN_SCOPES.PROFILE_WRITE),
     validateRequest(updateProfileSchema),
+    requireRecentAuth(changesEmail),
     authController.updateProfile.bind(authController)
   );
 
+  router.delete(
+    '/email-change',
+    requireScope(TOKEN_SCOPES.PROFILE_WRITE),
+    authController.cancelPendingEmailChange.bind(authController)
+  );
+
+  router.get(
+    '/activity',
+    requireScope(TOKEN_SCOPES.PROFILE_READ),
+    validateRequest(securityActivitySchema),
+    auditController.getMyActivity.bind(auditController)
+  );
+
+  router.post('/impersonation/end', authController.endImpersonation.bind(authController));
+
+  // Credentials, sessions and tokens are only managed from a signed-in browser, by the account owner
+  router.use(requireInteractiveSession);
+  router.use(forbidImpersonation);
+
+  router.post(
+    '/reauthenticate',
+    loginRateLimit,
+    validateRequest(reauthenticateSchema),
+    authController.reauthenticate.bind(authController)
+  );
+
   router.put(
     '/change-password',
     validateRequest(changePasswordSchema),
@@ -120,7 +385,126 @@ export function createAuthRoutes(prisma: PrismaClient): Router {
   
   router.delete('/sessions/:sessionId', authController.revokeSession.bind(authController));
   
-  router.delete('/sessions', authController.revokeAllSessions.bind(authController));
+  router.delete('/sessions', requireRecentAuth(), authController.revokeAllSessions.bind(authController));
+
+  // Linked provider accounts
+  router.get('/identities', oidcController.listIdentities.bind(oidcController));
+
+  router.post(
+    '/identities/:provider/authorize',
+    requireRecentAuth(),
+    validateRequest(oidcAuthorizeSchema),
+    oidcController.authorizeLink.bind(oidcController)
+  );
+
+  router.post(
+    '/identities/:provider',
+    validateRequest(oidcCallbackSchema),
+    oidcController.linkIdentity.bind(oidcController)
+  );
+
+  router.delete(
+    '/identities/:identityId',
+    requireRecentAuth(),
+    validateRequest(linkedIdentityParamsSchema),
+    oidcController.unlinkIdentity.bind(oidcController)
+  );
+
+  // Linking an existing account to its organization's single sign-on
+  router.post(
+    '/saml/link/start',
+    requireRecentAuth(),
+    samlController.startLink.bind(samlController)
+  );
+
+  router.post(
+    '/saml/link',
+    validateRequest(samlCallbackSchema),
+    samlController.link.bind(samlController)
+  );
+
+  // Consent for apps signing in through the OpenID Connect provider
+  router.get(
+    '/oauth/authorize',
+    validateRequest(oauthAuthorizationSchema),
+    oauthServerController.getAuthorization.bind(oauthServerController)
+  );
+
+  router.post(
+    '/oauth/authorize',
+    validateRequest(oauthConsentSchema),
+    oauthServerController.completeAuthorization.bind(oauthServerController)
+  );
+
+  router.get('/oauth/consents', oauthServerController.listConsents.bind(oauthServerController));
+
+  router.delete(
+    '/oauth/consents/:clientId',
+    validateRequest(oauthConsentParamsSchema),
+    oauthServerController.revokeConsent.bind(oauthServerController)
+  );
+
+  // Personal access tokens
+  router.get('/tokens', personalAccessTokenController.listTokens.bind(personalAccessTokenController));
+
+  router.post(
+    '/tokens',
+    requireRecentAuth(),
+    validateRequest(createPersonalAccessTokenSchema),
+    personalAccessTokenController.createToken.bind(personalAccessTokenController)
+  );
+
+  router.delete(
+    '/tokens/:tokenId',
+    validateRequest(personalAccessTokenParamsSchema),
+    personalAccessTokenController.revokeToken.bind(personalAccessTokenController)
+  );
+
+  // Two-factor authentication management
+  router.get('/mfa', mfaController.getStatus.bind(mfaController));
+
+  router.post('/mfa/totp/setup', requireRecentAuth(), mfaController.setupTotp.bind(mfaController));
+
+  router.post(
+    '/mfa/totp/enable',
+    validateRequest(enableTotpSchema),
+    mfaController.enableTotp.bind(mfaController)
+  );
+
+  router.post(
+    '/mfa/totp/disable',
+    requireRecentAuth(),
+    validateRequest(disableTotpSchema),
+    mfaController.disableTotp.bind(mfaController)
+  );
+
+  router.post(
+    '/mfa/recovery-codes',
+    validateRequest(regenerateRecoveryCodesSchema),
+    mfaController.regenerateRecoveryCodes.bind(mfaController)
+  );
+
+  // Passkey management
+  router.get('/webauthn/credentials', webAuthnController.listCredentials.bind(webAuthnController));
+
+  router.post(
+    '/webauthn/register/options',
+    requireRecentAuth(),
+    webAuthnController.registrationOptions.bind(webAuthnController)
+  );
+
+  router.post(
+    '/webauthn/register/verify',
+    validateRequest(webAuthnRegistrationSchema),
+    webAuthnController.verifyRegistration.bind(webAuthnController)
+  );
+
+  router.delete(
+    '/webauthn/credentials/:credentialId',
+    requireRecentAuth(),
+    validateRequest(webAuthnCredentialParamsSchema),
+    webAuthnController.deleteCredential.bind(webAuthnController)
+  );
 
   return router;
 }
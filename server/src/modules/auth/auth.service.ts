@@ -1,31 +1,94 @@
-import { PrismaClient, User } from '@prisma/client';
-import * as argon2 from 'argon2';
-import jwt from 'jsonwebtoken';
+import { Impersonation, PrismaClient, Session, User } from '@prisma/client';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
 
-import { SessionRepository } from './session.repository';
+import { SessionRepository, IssuedSession } from './session.repository';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailChangeService } from './email-change.service';
+import { MfaService } from './mfa.service';
+import { WebAuthnService } from './webauthn.service';
+import { JwtKeyring, getJwtKeyring } from './jwt-keyring';
+import { RbacService, DEFAULT_ROLE } from './rbac.service';
+import { describeClient } from './session-metadata';
+import { LoginRiskService } from './login-risk.service';
+import { LoginVerificationService } from './login-verification.service';
+import { OidcService } from './oidc.service';
+import { MagicLinkService } from './magic-link.service';
+import { SamlService } from './saml.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHasherService } from './password-hasher.service';
+import { MailService } from '../mail/mail.service';
+import { OrganizationService } from '../organization/organization.service';
 import { authConfig } from '../../config/auth.config';
 import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
 import {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
+  LoginResult,
+  MfaChallengeResponse,
   RefreshResponse,
+  SecondFactorInput,
+  ReauthenticationInput,
+  UserAuthorization,
+  AuthenticatedUser,
+  SessionSummary,
+  PendingEmailChange,
+  PasswordPolicySummary,
+  OrganizationRole,
   AuthError,
 } from '../../types/auth.types';
 
 export class AuthService {
   private prisma: PrismaClient;
   private sessionRepository: SessionRepository;
+  private emailVerificationService: EmailVerificationService;
+  private emailChangeService: EmailChangeService;
+  private mailService: MailService;
+  private mfaService: MfaService;
+  private webAuthnService: WebAuthnService;
+  private jwtKeyring: JwtKeyring;
+  private rbacService: RbacService;
+  private loginRiskService: LoginRiskService;
+  private loginVerificationService: LoginVerificationService;
+  private oidcService: OidcService;
+  private magicLinkService: MagicLinkService;
+  private samlService: SamlService;
+  private passwordPolicyService: PasswordPolicyService;
+  private passwordHasher: PasswordHasherService;
+  private organizationService: OrganizationService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
     this.sessionRepository = new SessionRepository(prisma);
+    this.mailService = new MailService();
+    this.emailVerificationService = new EmailVerificationService(prisma, this.mailService);
+    this.emailChangeService = new EmailChangeService(prisma, this.mailService);
+    this.mfaService = new MfaService(prisma);
+    this.webAuthnService = new WebAuthnService(prisma);
+    this.jwtKeyring = getJwtKeyring();
+    this.rbacService = new RbacService(prisma);
+    this.loginRiskService = new LoginRiskService(prisma, this.mailService);
+    this.loginVerificationService = new LoginVerificationService(prisma, this.mailService);
+    this.oidcService = new OidcService(prisma);
+    this.magicLinkService = new MagicLinkService(prisma, this.mailService);
+    this.samlService = new SamlService(prisma);
+    this.passwordPolicyService = new PasswordPolicyService(prisma);
+    this.passwordHasher = new PasswordHasherService();
+    this.organizationService = new OrganizationService(prisma, this.mailService);
+  }
+
+  /**
+   * Password rules for the client to show and check
+   */
+  getPasswordPolicy(): PasswordPolicySummary {
+    return this.passwordPolicyService.getPolicy();
   }
 
   /**
    * Register a new user
    */
-  async register(data: RegisterRequest): Promise<AuthResponse> {
+  async register(data: RegisterRequest, ip?: string, userAgent?: string): Promise<AuthResponse> {
     try {
       // Check if user already exists
       const existingUser = await this.prisma.user.findUnique({
@@ -36,38 +99,46 @@ export class AuthService {
         throw new AuthError('USER_EXISTS', 'User with this email already exists');
       }
 
-      // Hash password with Argon2id
-      const hashedPassword = await argon2.hash(data.password, {
-        type: argon2.argon2id,
-        memoryCost: 2 ** 16, // 64MB
-        timeCost: 3, // 3 iterations
-        parallelism: 1,
-      });
+      await this.passwordPolicyService.assertAcceptable(data.password, data);
+
+      const hashedPassword = await this.passwordHasher.hash(data.password);
 
       // Create user
       const user = await this.prisma.user.create({
         data: {
           email: data.email.toLowerCase(),
           password: hashedPassword,
+          passwordChangedAt: new Date(),
           name: data.name || null,
+          roles: {
+            create: { role: { connect: { name: DEFAULT_ROLE } } },
+          },
         },
       });
+      await this.passwordPolicyService.recordPassword(user.id, hashedPassword);
 
       // Create initial session
-      const session = await this.createUserSession(user.id);
+      const session = await this.createUserSession(user, ip, userAgent);
 
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
       // Generate access token
-      const accessToken = this.generateAccessToken(user);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
 
       logger.info('User registered successfully', { userId: user.id, email: user.email });
-      auditLog('user_registered', user.id, undefined, undefined, { email: user.email });
+      auditLog('user_registered', user.id, ip, userAgent, { email: user.email });
+
+      // A delivery failure must not fail the registration - the user can request a new link
+      try {
+        await this.emailVerificationService.sendVerification(user);
+      } catch (error) {
+        logger.error('Failed to send verification email', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
 
       return {
-        user: {
-          id: user.id,
-          email: user.email,
-          ...(user.name && { name: user.name }),
-        },
+        user: this.toAuthUser(user, authorization),
         accessToken,
         refreshToken: session.refreshToken,
       };
@@ -86,7 +157,7 @@ export class AuthService {
   /**
    * Authenticate user login
    */
-  async login(data: LoginRequest, ip?: string, userAgent?: string): Promise<AuthResponse> {
+  async login(data: LoginRequest, ip?: string, userAgent?: string): Promise<LoginResult> {
     try {
       // Find user by email
       const user = await this.prisma.user.findUnique({
@@ -100,7 +171,7 @@ export class AuthService {
 
       // Check if account is locked
       if (user.isLocked) {
-        if (user.lockedUntil && user.lockedUntil > new Date()) {
+        if (this.isAccountLocked(user)) {
           throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
         } else {
           // Unlock account if lockout period has expired
@@ -108,38 +179,555 @@ export class AuthService {
         }
       }
 
-      // Check if account is active
-      if (!user.isActive) {
-        throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+      // Check if account is active
+      if (!user.isActive) {
+        throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+      }
+
+      // Verify password. Accounts created through a social login have none until they reset it.
+      const isValidPassword = user.password !== null && await this.passwordHasher.verify(user.password, data.password);
+      if (!isValidPassword) {
+        await this.handleFailedLogin(data.email, ip, userAgent);
+        throw new AuthError('INVALID_CREDENTIALS', 'Invalid email or password');
+      }
+
+      await this.upgradePasswordHash(user, data.password);
+
+      // An administrator invalidated the password; only the emailed reset link gets the user back in
+      if (user.passwordResetRequired) {
+        throw new AuthError('PASSWORD_RESET_REQUIRED', 'Please reset your password before signing in');
+      }
+
+      // Expired passwords are replaced through the emailed reset link, like invalidated ones
+      if (this.passwordPolicyService.isExpired(user)) {
+        throw new AuthError('PASSWORD_EXPIRED', 'Your password has expired. Use "Forgot password" to choose a new one.');
+      }
+
+      // Block unverified accounts when email verification is enforced
+      if (authConfig.emailVerification.required && !user.emailVerified) {
+        throw new AuthError('EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in');
+      }
+
+      const risk = await this.loginRiskService.assess(user, ip, userAgent);
+      if (risk.decision === 'block') {
+        auditLog('login_blocked', user.id, ip, userAgent, { score: risk.score, signals: risk.signals });
+        await this.loginRiskService.notifyBlockedLogin(user, ip, userAgent);
+        throw new AuthError('LOGIN_BLOCKED', 'This sign-in looked suspicious and was blocked. Check your email for details.');
+      }
+
+      // Second factor required - failed attempts are only reset once it is verified.
+      // The second factor also answers a risk challenge, so no emailed code is needed on top.
+      if (user.mfaEnabled) {
+        logger.info('MFA challenge issued', { userId: user.id });
+        auditLog('mfa_challenge_issued', user.id, ip, userAgent);
+
+        return {
+          mfaRequired: true,
+          mfaToken: await this.generateMfaChallengeToken(user),
+        };
+      }
+
+      if (risk.decision === 'challenge') {
+        const verificationToken = await this.loginVerificationService.issue(
+          user,
+          this.loginRiskService.describeSignIn(ip, userAgent)
+        );
+
+        logger.info('Sign-in verification required', { userId: user.id });
+        auditLog('login_verification_required', user.id, ip, userAgent, { signals: risk.signals });
+
+        return { verificationRequired: true, verificationToken };
+      }
+
+      // Reset failed login attempts on successful login
+      if (user.failedLoginAttempts > 0) {
+        await this.resetFailedLoginAttempts(user.id);
+      }
+
+      // Create new session
+      const session = await this.createUserSession(user, ip, userAgent);
+
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      // Generate access token
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, { email: user.email });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Login failed', { 
+        email: data.email, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Complete a login that was challenged for a second factor
+   */
+  async completeMfaLogin(
+    mfaToken: string,
+    secondFactor: SecondFactorInput,
+    ip?: string,
+    userAgent?: string
+  ): Promise<AuthResponse> {
+    try {
+      const challenge = await this.validateMfaChallengeToken(mfaToken);
+      if (!challenge) {
+        throw new AuthError('INVALID_MFA_TOKEN', 'Sign-in challenge is invalid or has expired');
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: challenge.userId },
+      });
+
+      if (!user || !user.isActive) {
+        throw new AuthError('INVALID_MFA_TOKEN', 'Sign-in challenge is invalid or has expired');
+      }
+
+      if (this.isAccountLocked(user)) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
+      }
+
+      const isValidSecondFactor = await this.mfaService.verifySecondFactor(user, secondFactor);
+      if (!isValidSecondFactor) {
+        await this.handleFailedLogin(user.email, ip, userAgent);
+        throw new AuthError('INVALID_MFA_CODE', 'Invalid authentication code');
+      }
+
+      if (user.failedLoginAttempts > 0) {
+        await this.resetFailedLoginAttempts(user.id);
+      }
+
+      const session = await this.createUserSession(user, ip, userAgent);
+      if (challenge.organizationId) {
+        await this.organizationService.setActiveOrganization(user.id, session.id, challenge.organizationId);
+      }
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, {
+        email: user.email,
+        mfaMethod: secondFactor.recoveryCode ? 'recovery_code' : 'totp',
+        ...(challenge.organizationId && { organizationId: challenge.organizationId }),
+      });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('MFA login failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Passwordless login with a passkey. A user-verified passkey satisfies
+   * both factors, so no TOTP challenge follows.
+   */
+  async loginWithPasskey(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    ip?: string,
+    userAgent?: string
+  ): Promise<AuthResponse> {
+    try {
+      const user = await this.webAuthnService.verifyAuthentication(challengeId, response);
+
+      if (this.isAccountLocked(user)) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
+      }
+
+      if (!user.isActive) {
+        throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+      }
+
+      if (authConfig.emailVerification.required && !user.emailVerified) {
+        throw new AuthError('EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in');
+      }
+
+      if (user.failedLoginAttempts > 0 || user.isLocked) {
+        await this.resetFailedLoginAttempts(user.id);
+      }
+
+      const session = await this.createUserSession(user, ip, userAgent);
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, { email: user.email, method: 'passkey' });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Passkey login failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Sign in, or sign up, with an OpenID Connect provider once it has redirected back with a code.
+   * The provider replaces the password; two-factor and the risk checks still apply.
+   */
+  async loginWithOidc(
+    providerId: string,
+    code: string,
+    state: string,
+    ip?: string,
+    userAgent?: string
+  ): Promise<LoginResult> {
+    try {
+      const profile = await this.oidcService.completeAuthorization(providerId, code, state);
+      const { user, created } = await this.oidcService.findOrCreateUser(providerId, profile);
+
+      if (this.isAccountLocked(user)) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
+      }
+
+      if (!user.isActive) {
+        throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+      }
+
+      // Providers that do not vouch for the address get the same verification email as a signup
+      if (created && !user.emailVerified) {
+        try {
+          await this.emailVerificationService.sendVerification(user);
+        } catch (error) {
+          logger.error('Failed to send verification email', {
+            userId: user.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      if (authConfig.emailVerification.required && !user.emailVerified) {
+        throw new AuthError('EMAIL_NOT_VERIFIED', 'Please verify your email address before signing in');
+      }
+
+      const risk = await this.loginRiskService.assess(user, ip, userAgent);
+      if (risk.decision === 'block') {
+        auditLog('login_blocked', user.id, ip, userAgent, { score: risk.score, signals: risk.signals });
+        await this.loginRiskService.notifyBlockedLogin(user, ip, userAgent);
+        throw new AuthError('LOGIN_BLOCKED', 'This sign-in looked suspicious and was blocked. Check your email for details.');
+      }
+
+      if (user.mfaEnabled) {
+        logger.info('MFA challenge issued', { userId: user.id });
+        auditLog('mfa_challenge_issued', user.id, ip, userAgent);
+
+        return {
+          mfaRequired: true,
+          mfaToken: await this.generateMfaChallengeToken(user),
+        };
+      }
+
+      if (risk.decision === 'challenge') {
+        const verificationToken = await this.loginVerificationService.issue(
+          user,
+          this.loginRiskService.describeSignIn(ip, userAgent)
+        );
+
+        logger.info('Sign-in verification required', { userId: user.id });
+        auditLog('login_verification_required', user.id, ip, userAgent, { signals: risk.signals });
+
+        return { verificationRequired: true, verificationToken };
+      }
+
+      if (user.failedLoginAttempts > 0 || user.isLocked) {
+        await this.resetFailedLoginAttempts(user.id);
+      }
+
+      const session = await this.createUserSession(user, ip, userAgent);
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, { email: user.email, method: 'oidc', provider: providerId });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('OIDC login failed', { 
+        provider: providerId,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Sign in with a SAML response the API has already accepted, exchanging its code from the browser
+   * that started the sign-in. The session starts in the identity provider's organization.
+   * The identity provider replaces the password; two-factor and the risk checks still apply.
+   */
+  async loginWithSaml(
+    code: string,
+    browserToken: string | undefined,
+    ip?: string,
+    userAgent?: string
+  ): Promise<LoginResult> {
+    try {
+      const { userId, organizationId } = await this.samlService.completeSignIn(code, browserToken);
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user) {
+        throw new AuthError('INVALID_SAML_CODE', 'Sign-in has expired. Please try again.');
+      }
+
+      if (this.isAccountLocked(user)) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
+      }
+
+      if (!user.isActive) {
+        throw new AuthError('ACCOUNT_INACTIVE', 'Account is deactivated');
+      }
+
+      const risk = await this.loginRiskService.assess(user, ip, userAgent);
+      if (risk.decision === 'block') {
+        auditLog('login_blocked', user.id, ip, userAgent, { score: risk.score, signals: risk.signals });
+        await this.loginRiskService.notifyBlockedLogin(user, ip, userAgent);
+        throw new AuthError('LOGIN_BLOCKED', 'This sign-in looked suspicious and was blocked. Check your email for details.');
+      }
+
+      if (user.mfaEnabled) {
+        logger.info('MFA challenge issued', { userId: user.id });
+        auditLog('mfa_challenge_issued', user.id, ip, userAgent);
+
+        // The session still starts in the identity provider's organization once the second factor checks out
+        return {
+          mfaRequired: true,
+          mfaToken: await this.generateMfaChallengeToken(user, organizationId),
+        };
+      }
+
+      if (risk.decision === 'challenge') {
+        const verificationToken = await this.loginVerificationService.issue(
+          user,
+          this.loginRiskService.describeSignIn(ip, userAgent),
+          organizationId
+        );
+
+        logger.info('Sign-in verification required', { userId: user.id });
+        auditLog('login_verification_required', user.id, ip, userAgent, { signals: risk.signals });
+
+        return { verificationRequired: true, verificationToken };
+      }
+
+      if (user.failedLoginAttempts > 0 || user.isLocked) {
+        await this.resetFailedLoginAttempts(user.id);
+      }
+
+      const session = await this.createUserSession(user, ip, userAgent);
+      await this.organizationService.setActiveOrganization(user.id, session.id, organizationId);
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, { email: user.email, method: 'saml', organizationId });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('SAML login failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Email a passwordless sign-in link. Resolves the same way whether or not the account exists
+   * and returns the secret the requesting browser must present along with the link.
+   */
+  async requestMagicLink(email: string, ip?: string, userAgent?: string): Promise<string> {
+    const browserToken = this.magicLinkService.createBrowserToken();
+
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+
+      if (!user || !user.isActive) {
+        logger.debug('Sign-in link requested for unknown or inactive account', { email });
+        return browserToken;
+      }
+
+      await this.magicLinkService.issue(user, browserToken);
+      auditLog('magic_link_requested', user.id, ip, userAgent);
+
+      return browserToken;
+    } catch (error) {
+      logger.error('Sign-in link request failed', { 
+        email, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('MAGIC_LINK_REQUEST_FAILED', 'Failed to process sign-in link request');
+    }
+  }
+
+  /**
+   * Sign in with an emailed link from the browser that requested it. The link proves control of
+   * the inbox like a reset link does, so it lifts an automatic lockout and answers a risk challenge;
+   * two-factor authentication still applies.
+   */
+  async loginWithMagicLink(
+    token: string,
+    browserToken: string | undefined,
+    ip?: string,
+    userAgent?: string
+  ): Promise<AuthResponse | MfaChallengeResponse> {
+    try {
+      const userId = await this.magicLinkService.consume(token, browserToken);
+
+      let user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user || !user.isActive) {
+        throw new AuthError('INVALID_MAGIC_LINK', 'Sign-in link is invalid or has expired');
+      }
+
+      // Administrator locks have no end and are not the user's to lift
+      if (user.isLocked && !user.lockedUntil) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
+      }
+
+      const risk = await this.loginRiskService.assess(user, ip, userAgent);
+      if (risk.decision === 'block') {
+        auditLog('login_blocked', user.id, ip, userAgent, { score: risk.score, signals: risk.signals });
+        await this.loginRiskService.notifyBlockedLogin(user, ip, userAgent);
+        throw new AuthError('LOGIN_BLOCKED', 'This sign-in looked suspicious and was blocked. Check your email for details.');
+      }
+
+      if (user.failedLoginAttempts > 0 || user.isLocked || !user.emailVerified) {
+        user = await this.prisma.user.update({
+          where: { id: user.id },
+          data: {
+            failedLoginAttempts: 0,
+            isLocked: false,
+            lockedUntil: null,
+            emailVerified: user.emailVerified ?? new Date(),
+          },
+        });
+      }
+
+      if (user.mfaEnabled) {
+        logger.info('MFA challenge issued', { userId: user.id });
+        auditLog('mfa_challenge_issued', user.id, ip, userAgent);
+
+        return {
+          mfaRequired: true,
+          mfaToken: await this.generateMfaChallengeToken(user),
+        };
+      }
+
+      const session = await this.createUserSession(user, ip, userAgent);
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
+
+      logger.info('User logged in successfully', { userId: user.id, email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, { email: user.email, method: 'magic_link' });
+
+      return {
+        user: this.toAuthUser(user, authorization),
+        accessToken,
+        refreshToken: session.refreshToken,
+      };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Magic link login failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
+    }
+  }
+
+  /**
+   * Complete a login the risk checks held back, using the emailed code
+   */
+  async completeLoginVerification(
+    verificationToken: string,
+    code: string,
+    ip?: string,
+    userAgent?: string
+  ): Promise<AuthResponse> {
+    try {
+      const { userId, organizationId } = await this.loginVerificationService.verify(verificationToken, code);
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!user || !user.isActive) {
+        throw new AuthError('INVALID_VERIFICATION_TOKEN', 'Sign-in verification is invalid or has expired');
       }
 
-      // Verify password
-      const isValidPassword = await argon2.verify(user.password, data.password);
-      if (!isValidPassword) {
-        await this.handleFailedLogin(data.email, ip, userAgent);
-        throw new AuthError('INVALID_CREDENTIALS', 'Invalid email or password');
+      if (this.isAccountLocked(user)) {
+        throw new AuthError('ACCOUNT_LOCKED', 'Account is temporarily locked');
       }
 
-      // Reset failed login attempts on successful login
       if (user.failedLoginAttempts > 0) {
         await this.resetFailedLoginAttempts(user.id);
       }
 
-      // Create new session
-      const session = await this.createUserSession(user.id);
-
-      // Generate access token
-      const accessToken = this.generateAccessToken(user);
+      const session = await this.createUserSession(user, ip, userAgent);
+      if (organizationId) {
+        await this.organizationService.setActiveOrganization(user.id, session.id, organizationId);
+      }
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
+      const accessToken = await this.generateAccessToken(user, authorization, session);
 
       logger.info('User logged in successfully', { userId: user.id, email: user.email });
-      auditLog('user_login', user.id, ip, userAgent, { email: user.email });
+      auditLog('user_login', user.id, ip, userAgent, {
+        email: user.email,
+        method: 'email_verification',
+        ...(organizationId && { organizationId }),
+      });
 
       return {
-        user: {
-          id: user.id,
-          email: user.email,
-          ...(user.name && { name: user.name }),
-        },
+        user: this.toAuthUser(user, authorization),
         accessToken,
         refreshToken: session.refreshToken,
       };
@@ -147,8 +735,7 @@ export class AuthService {
       if (error instanceof AuthError) {
         throw error;
       }
-      logger.error('Login failed', { 
-        email: data.email, 
+      logger.error('Sign-in verification failed', { 
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
       throw new AuthError('LOGIN_FAILED', 'Failed to authenticate user');
@@ -156,25 +743,25 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Refresh access token, exchanging the refresh token for a new one in the same family
    */
-  async refreshToken(refreshToken: string): Promise<RefreshResponse> {
+  async refreshToken(refreshToken: string, ip?: string, userAgent?: string): Promise<RefreshResponse> {
     try {
       // Find session by refresh token
       const session = await this.sessionRepository.findByRefreshToken(refreshToken);
-      if (!session) {
+      // Refresh tokens issued to OAuth clients are only redeemable at the token endpoint
+      if (!session || session.oauthClientId) {
         throw new AuthError('INVALID_REFRESH_TOKEN', 'Invalid refresh token');
       }
 
-      // Check if session is revoked
+      // A consumed token being presented again means it was stolen or replayed
+      if (session.consumedAt) {
+        await this.revokeReplayedFamily(session);
+      }
+
+      // Signed out or revoked from another device; the user's other sessions are unaffected
       if (session.isRevoked) {
-        // This indicates potential token reuse - revoke all sessions for the user
-        await this.sessionRepository.revokeAllSessionsByUserId(session.userId);
-        auditLog('token_reuse_detected', session.userId, undefined, undefined, { 
-          sessionId: session.id,
-          action: 'all_sessions_revoked' 
-        });
-        throw new AuthError('TOKEN_REUSE_DETECTED', 'Security violation detected');
+        throw new AuthError('INVALID_REFRESH_TOKEN', 'Invalid refresh token');
       }
 
       // Check if session has expired
@@ -193,13 +780,23 @@ export class AuthService {
         throw new AuthError('USER_INVALID', 'User account is invalid or locked');
       }
 
+      const rotated = await this.sessionRepository.rotateSession(session, describeClient(ip, userAgent));
+      if (!rotated) {
+        // Another request consumed this token first
+        return await this.revokeReplayedFamily(session);
+      }
+
+      const authorization = await this.rbacService.getUserAuthorization(user.id);
       // Generate new access token
-      const accessToken = this.generateAccessToken(user);
+      const accessToken = await this.generateAccessToken(user, authorization, rotated);
 
-      logger.info('Access token refreshed', { userId: user.id, sessionId: session.id });
-      auditLog('token_refreshed', user.id, undefined, undefined, { sessionId: session.id });
+      logger.info('Access token refreshed', { userId: user.id, sessionId: rotated.id });
+      auditLog('token_refreshed', user.id, undefined, undefined, {
+        sessionId: rotated.id,
+        previousSessionId: session.id,
+      });
 
-      return { accessToken };
+      return { accessToken, refreshToken: rotated.refreshToken };
     } catch (error) {
       if (error instanceof AuthError) {
         throw error;
@@ -211,6 +808,122 @@ export class AuthService {
     }
   }
 
+  /**
+   * Work in another organization for the rest of the session. Returns an access token
+   * carrying the new organization.
+   */
+  async switchOrganization(userId: string, sessionId: string, organizationId: string): Promise<{ accessToken: string }> {
+    await this.organizationService.setActiveOrganization(userId, sessionId, organizationId);
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.isActive || user.isLocked) {
+      throw new AuthError('USER_INVALID', 'User account is invalid or locked');
+    }
+
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session) {
+      throw new AuthError('SESSION_NOT_FOUND', 'Session not found or already revoked');
+    }
+
+    const authorization = await this.rbacService.getUserAuthorization(user.id);
+    const accessToken = await this.generateAccessToken(user, authorization, session);
+
+    auditLog('organization_switched', user.id, undefined, undefined, { sessionId, organizationId });
+
+    return { accessToken };
+  }
+
+  /**
+   * Confirm the user's identity with their password or a second factor before a sensitive
+   * action. Returns an access token carrying the new authentication time.
+   */
+  async reauthenticate(
+    userId: string,
+    sessionId: string,
+    input: ReauthenticationInput,
+    ip?: string,
+    userAgent?: string
+  ): Promise<{ accessToken: string }> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user || !user.isActive || this.isAccountLocked(user)) {
+      throw new AuthError('USER_INVALID', 'User account is invalid or locked');
+    }
+
+    const method = input.password !== undefined ? 'password' : input.recoveryCode ? 'recovery_code' : 'totp';
+    const verified = input.password !== undefined
+      ? user.password !== null && await this.passwordHasher.verify(user.password, input.password)
+      : await this.mfaService.verifySecondFactor(user, input);
+
+    // Counted like failed sign-ins so a stolen access token cannot be used to guess the password
+    if (!verified) {
+      await this.handleFailedLogin(user.email, ip, userAgent);
+      throw new AuthError('INVALID_CREDENTIALS', 'Password or code is incorrect');
+    }
+
+    const session = await this.sessionRepository.markAuthenticated(sessionId, userId);
+    if (!session) {
+      throw new AuthError('SESSION_NOT_FOUND', 'Session not found or already revoked');
+    }
+
+    const authorization = await this.rbacService.getUserAuthorization(user.id);
+    const accessToken = await this.generateAccessToken(user, authorization, session);
+
+    logger.info('User re-authenticated', { userId, sessionId, method });
+    auditLog('reauthenticated', userId, ip, userAgent, { sessionId, method });
+
+    return { accessToken };
+  }
+
+  /**
+   * Access token for an administrator acting as the user. It belongs to no session, so it
+   * cannot be refreshed and lasts only as long as the impersonation.
+   */
+  async createImpersonationToken(
+    user: User,
+    impersonation: Impersonation
+  ): Promise<{ accessToken: string; user: AuthResponse['user'] }> {
+    const authorization = await this.rbacService.getUserAuthorization(user.id);
+    const organization = await this.organizationService.getActiveMembership(user.id, undefined);
+    const lifetimeSeconds = Math.max(1, Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000));
+
+    const payload = {
+      userId: user.id,
+      email: user.email,
+      roles: authorization.roles,
+      permissions: authorization.permissions,
+      ...(organization && {
+        organizationId: organization.organizationId,
+        organizationRole: organization.role,
+      }),
+      actorId: impersonation.actorId,
+      impersonationId: impersonation.id,
+      type: 'access' as const,
+    };
+
+    const accessToken = await this.jwtKeyring.sign(payload, {
+      expiresIn: `${lifetimeSeconds}s`,
+      issuer: 'smart-task-ai2',
+      audience: 'smart-task-ai2-users',
+    });
+
+    return { accessToken, user: this.toAuthUser(user, authorization) };
+  }
+
+  /**
+   * End a support session early. The administrator's own session is untouched.
+   */
+  async endImpersonation(impersonationId: string, userId: string): Promise<void> {
+    const ended = await this.prisma.impersonation.updateMany({
+      where: { id: impersonationId, targetUserId: userId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    if (ended.count > 0) {
+      logger.info('Impersonation ended', { userId, impersonationId });
+      auditLog('impersonation_ended', userId, undefined, undefined, { impersonationId });
+    }
+  }
+
   /**
    * Logout user by revoking session
    */
@@ -230,6 +943,99 @@ export class AuthService {
     }
   }
 
+  /**
+   * Verify email address using a token from the verification email
+   */
+  async verifyEmail(token: string): Promise<void> {
+    try {
+      await this.emailVerificationService.verifyEmail(token);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Email verification failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('EMAIL_VERIFICATION_FAILED', 'Failed to verify email');
+    }
+  }
+
+  /**
+   * Switch the account to a new email address from the confirmation link,
+   * then sign out every login but the one that asked for the change
+   */
+  async confirmEmailChange(token: string): Promise<void> {
+    try {
+      const change = await this.emailChangeService.confirmChange(token);
+
+      if (change.sessionFamilyId) {
+        await this.sessionRepository.revokeOtherSessions(change.userId, change.sessionFamilyId);
+      } else {
+        await this.sessionRepository.revokeAllSessionsByUserId(change.userId);
+      }
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Email change confirmation failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('EMAIL_CHANGE_FAILED', 'Failed to change email');
+    }
+  }
+
+  /**
+   * Stop a pending email change from the link sent to the current address
+   */
+  async cancelEmailChange(token: string): Promise<void> {
+    try {
+      await this.emailChangeService.cancelChange(token);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Email change cancellation failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('EMAIL_CHANGE_CANCEL_FAILED', 'Failed to cancel email change');
+    }
+  }
+
+  /**
+   * Stop the signed-in user's pending email change
+   */
+  async cancelPendingEmailChange(userId: string): Promise<void> {
+    let cancelled: boolean;
+    try {
+      cancelled = await this.emailChangeService.cancelPending(userId);
+    } catch (error) {
+      logger.error('Email change cancellation failed', { 
+        userId, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('EMAIL_CHANGE_CANCEL_FAILED', 'Failed to cancel email change');
+    }
+
+    if (!cancelled) {
+      throw new AuthError('NO_PENDING_EMAIL_CHANGE', 'There is no email change to cancel');
+    }
+  }
+
+  /**
+   * Re-send the verification email for an unverified account
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    try {
+      await this.emailVerificationService.resendVerification(email);
+    } catch (error) {
+      logger.error('Verification resend failed', { 
+        email, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('VERIFICATION_RESEND_FAILED', 'Failed to send verification email');
+    }
+  }
+
   /**
    * Change user password
    */
@@ -243,25 +1049,27 @@ export class AuthService {
         throw new AuthError('USER_NOT_FOUND', 'User not found');
       }
 
+      if (user.password === null) {
+        throw new AuthError('PASSWORD_NOT_SET', 'Your account has no password yet. Use "Forgot password" to set one.');
+      }
+
       // Verify current password
-      const isValidPassword = await argon2.verify(user.password, currentPassword);
+      const isValidPassword = await this.passwordHasher.verify(user.password, currentPassword);
       if (!isValidPassword) {
         throw new AuthError('INVALID_PASSWORD', 'Current password is incorrect');
       }
 
+      await this.passwordPolicyService.assertAcceptable(newPassword, user, user);
+
       // Hash new password
-      const hashedNewPassword = await argon2.hash(newPassword, {
-        type: argon2.argon2id,
-        memoryCost: 2 ** 16,
-        timeCost: 3,
-        parallelism: 1,
-      });
+      const hashedNewPassword = await this.passwordHasher.hash(newPassword);
 
       // Update password
       await this.prisma.user.update({
         where: { id: userId },
-        data: { password: hashedNewPassword },
+        data: { password: hashedNewPassword, passwordChangedAt: new Date() },
       });
+      await this.passwordPolicyService.recordPassword(userId, hashedNewPassword);
 
       // Revoke all sessions to force re-authentication
       await this.sessionRepository.revokeAllSessionsByUserId(userId);
@@ -280,22 +1088,158 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start a password reset. Always resolves the same way whether or not the
+   * account exists so the endpoint cannot be used to enumerate emails.
+   */
+  async requestPasswordReset(email: string, ip?: string, userAgent?: string): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { email: email.toLowerCase() },
+      });
+
+      if (!user || !user.isActive) {
+        logger.debug('Password reset requested for unknown or inactive account', { email });
+        return;
+      }
+
+      const token = generateSecureToken();
+
+      // Only the most recent reset link stays valid
+      await this.prisma.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      });
+
+      await this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + authConfig.passwordReset.tokenTtlMs),
+        },
+      });
+
+      // Don't await delivery so response timing does not reveal whether the account exists
+      this.mailService
+        .sendPasswordReset(user.email, token, Math.round(authConfig.passwordReset.tokenTtlMs / 60000), user.name)
+        .catch(error => {
+          logger.error('Failed to send password reset email', {
+            userId: user.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+
+      logger.info('Password reset requested', { userId: user.id });
+      auditLog('password_reset_requested', user.id, ip, userAgent);
+    } catch (error) {
+      logger.error('Password reset request failed', { 
+        email, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('PASSWORD_RESET_REQUEST_FAILED', 'Failed to process password reset request');
+    }
+  }
+
+  /**
+   * Complete a password reset using a token from the reset email
+   */
+  async resetPassword(token: string, newPassword: string, ip?: string, userAgent?: string): Promise<void> {
+    try {
+      const record = await this.prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { user: true },
+      });
+
+      if (!record || record.usedAt || record.expiresAt < new Date() || !record.user.isActive) {
+        throw new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired');
+      }
+
+      await this.passwordPolicyService.assertAcceptable(newPassword, record.user, record.user);
+
+      const hashedNewPassword = await this.passwordHasher.hash(newPassword);
+
+      await this.prisma.$transaction(async (tx) => {
+        // Guard against concurrent use of the same token
+        const consumed = await tx.passwordResetToken.updateMany({
+          where: { id: record.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (consumed.count === 0) {
+          throw new AuthError('INVALID_RESET_TOKEN', 'Reset link is invalid or has expired');
+        }
+
+        // Proving control of the inbox also clears any lockout
+        await tx.user.update({
+          where: { id: record.userId },
+          data: {
+            password: hashedNewPassword,
+            passwordChangedAt: new Date(),
+            passwordResetRequired: false,
+            failedLoginAttempts: 0,
+            isLocked: false,
+            lockedUntil: null,
+          },
+        });
+      });
+
+      await this.passwordPolicyService.recordPassword(record.userId, hashedNewPassword);
+
+      // Revoke all sessions to force re-authentication with the new password
+      await this.sessionRepository.revokeAllSessionsByUserId(record.userId);
+
+      logger.info('Password reset completed', { userId: record.userId });
+      auditLog('password_reset', record.userId, ip, userAgent, { action: 'password_reset' });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        throw error;
+      }
+      logger.error('Password reset failed', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new AuthError('PASSWORD_RESET_FAILED', 'Failed to reset password');
+    }
+  }
+
   /**
    * Validate access token
    */
-  validateAccessToken(token: string): { userId: string; email: string } | null {
+  async validateAccessToken(token: string): Promise<AuthenticatedUser | null> {
     try {
-      const decoded = jwt.verify(token, authConfig.jwt.secret, {
-        algorithms: [authConfig.jwt.algorithm],
-      }) as jwt.JwtPayload;
+      const decoded = await this.jwtKeyring.verify(token, {
+        issuer: 'smart-task-ai2',
+        audience: 'smart-task-ai2-users',
+      });
 
       if (decoded.type !== 'access') {
         return null;
       }
 
+      // Support sessions stop working the moment they are ended, not when the token expires
+      if (decoded.impersonationId) {
+        const impersonation = await this.prisma.impersonation.findUnique({
+          where: { id: decoded.impersonationId as string },
+        });
+        if (
+          !impersonation ||
+          !impersonation.actorId ||
+          impersonation.endedAt ||
+          impersonation.expiresAt < new Date()
+        ) {
+          return null;
+        }
+      }
+
       return {
-        userId: decoded.userId,
-        email: decoded.email,
+        userId: decoded.userId as string,
+        email: decoded.email as string,
+        roles: (decoded.roles as string[] | undefined) ?? [],
+        permissions: (decoded.permissions as string[] | undefined) ?? [],
+        sessionId: decoded.sessionId as string | undefined,
+        organizationId: decoded.organizationId as string | undefined,
+        organizationRole: decoded.organizationRole as OrganizationRole | undefined,
+        authTime: decoded.authTime as number | undefined,
+        actorId: decoded.actorId as string | undefined,
+        impersonationId: decoded.impersonationId as string | undefined,
       };
     } catch (error) {
       return null;
@@ -310,6 +1254,12 @@ export class AuthService {
     email: string;
     name?: string;
     isActive: boolean;
+    emailVerified: Date | null;
+    mfaEnabled: boolean;
+    roles: string[];
+    permissions: string[];
+    pendingEmailChange: PendingEmailChange | null;
+    deletionScheduledAt: Date | null;
     createdAt: Date;
   } | null> {
     try {
@@ -320,17 +1270,33 @@ export class AuthService {
           email: true,
           name: true,
           isActive: true,
+          emailVerified: true,
+          mfaEnabled: true,
+          deletionScheduledAt: true,
           createdAt: true,
         },
       });
 
-      return user ? {
+      if (!user) {
+        return null;
+      }
+
+      const { roles, permissions } = await this.rbacService.getUserAuthorization(user.id);
+      const pendingEmailChange = await this.emailChangeService.getPending(user.id);
+
+      return {
         id: user.id,
         email: user.email,
         ...(user.name && { name: user.name }),
         isActive: user.isActive,
+        emailVerified: user.emailVerified,
+        mfaEnabled: user.mfaEnabled,
+        roles,
+        permissions,
+        pendingEmailChange,
+        deletionScheduledAt: user.deletionScheduledAt ?? null,
         createdAt: user.createdAt,
-      } : null;
+      };
     } catch (error) {
       logger.error('Failed to get user profile', { 
         userId, 
@@ -341,36 +1307,53 @@ export class AuthService {
   }
 
   /**
-   * Update user profile
+   * Update user profile. A new email address only takes effect once it is
+   * confirmed from that mailbox; the pending change is returned meanwhile.
    */
-  async updateUserProfile(userId: string, data: { name?: string; email?: string }): Promise<void> {
+  async updateUserProfile(
+    userId: string,
+    data: { name?: string; email?: string },
+    sessionId?: string
+  ): Promise<PendingEmailChange | null> {
     try {
       const updateData: any = {};
+      let pendingEmailChange: PendingEmailChange | null = null;
       
       if (data.name !== undefined) {
         updateData.name = data.name;
       }
       
       if (data.email !== undefined) {
-        // Check if email is already taken
-        const existingUser = await this.prisma.user.findUnique({
-          where: { email: data.email.toLowerCase() },
+        const user = await this.prisma.user.findUnique({
+          where: { id: userId },
         });
-        
-        if (existingUser && existingUser.id !== userId) {
-          throw new AuthError('EMAIL_TAKEN', 'Email is already taken');
+
+        if (!user) {
+          throw new AuthError('USER_NOT_FOUND', 'User not found');
+        }
+
+        if (data.email.toLowerCase() !== user.email) {
+          // The login that asked for the change stays signed in once it is confirmed
+          const session = sessionId ? await this.sessionRepository.findById(sessionId) : null;
+          pendingEmailChange = await this.emailChangeService.requestChange(
+            user,
+            data.email,
+            session ? session.familyId ?? session.id : null
+          );
         }
-        
-        updateData.email = data.email.toLowerCase();
       }
 
-      await this.prisma.user.update({
-        where: { id: userId },
-        data: updateData,
-      });
+      if (Object.keys(updateData).length > 0) {
+        await this.prisma.user.update({
+          where: { id: userId },
+          data: updateData,
+        });
+
+        logger.info('User profile updated', { userId, updates: Object.keys(updateData) });
+        auditLog('profile_updated', userId, undefined, undefined, { updates: Object.keys(updateData) });
+      }
 
-      logger.info('User profile updated', { userId, updates: Object.keys(updateData) });
-      auditLog('profile_updated', userId, undefined, undefined, { updates: Object.keys(updateData) });
+      return pendingEmailChange;
     } catch (error) {
       if (error instanceof AuthError) {
         throw error;
@@ -384,21 +1367,22 @@ export class AuthService {
   }
 
   /**
-   * Get user sessions
+   * Get user sessions, flagging the one the request was made from
    */
-  async getUserSessions(userId: string): Promise<Array<{
-    id: string;
-    createdAt: Date;
-    expiresAt: Date;
-    isRevoked: boolean;
-  }>> {
+  async getUserSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
     try {
       const sessions = await this.sessionRepository.findActiveSessionsByUserId(userId);
       return sessions.map(session => ({
         id: session.id,
+        ip: session.ip,
+        deviceType: session.deviceType,
+        browser: session.browser,
+        os: session.os,
+        location: session.location,
+        lastUsedAt: session.lastUsedAt,
         createdAt: session.createdAt,
         expiresAt: session.expiresAt,
-        isRevoked: session.isRevoked,
+        current: session.id === currentSessionId,
       }));
     } catch (error) {
       logger.error('Failed to get user sessions', { 
@@ -442,27 +1426,121 @@ export class AuthService {
 
   // Private helper methods
 
-  private async createUserSession(userId: string): Promise<any> {
+  private async revokeReplayedFamily(session: Session): Promise<never> {
+    await this.sessionRepository.revokeSessionFamily(session);
+    auditLog('token_reuse_detected', session.userId, undefined, undefined, {
+      sessionId: session.id,
+      familyId: session.familyId,
+      action: 'session_family_revoked',
+    });
+    throw new AuthError('TOKEN_REUSE_DETECTED', 'Security violation detected');
+  }
+
+  private async createUserSession(user: User, ip?: string, userAgent?: string): Promise<IssuedSession> {
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
     
-    return await this.sessionRepository.createSession(userId, expiresAt);
+    const session = await this.sessionRepository.createSession(user.id, expiresAt, describeClient(ip, userAgent));
+    await this.loginRiskService.recordLogin(user, ip, userAgent);
+
+    return session;
+  }
+
+  // Only a successful sign-in has the plaintext needed to replace an outdated hash. The old hash
+  // still works, so a failed upgrade is retried next time rather than failing the sign-in.
+  private async upgradePasswordHash(user: User, password: string): Promise<void> {
+    if (!user.password || !this.passwordHasher.needsRehash(user.password)) return;
+
+    try {
+      const upgraded = await this.passwordHasher.hash(password);
+
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { password: upgraded },
+      });
+
+      logger.info('Password hash upgraded', { userId: user.id });
+    } catch (error) {
+      logger.error('Failed to upgrade password hash', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private toAuthUser(user: User, authorization: UserAuthorization): AuthResponse['user'] {
+    return {
+      id: user.id,
+      email: user.email,
+      ...(user.name && { name: user.name }),
+      roles: authorization.roles,
+    };
   }
 
-  private generateAccessToken(user: User): string {
+  private async generateAccessToken(
+    user: User,
+    authorization: UserAuthorization,
+    session: Pick<Session, 'id' | 'authenticatedAt'>
+  ): Promise<string> {
+    const organization = await this.organizationService.getActiveMembership(user.id, session.id);
+
     const payload = {
       userId: user.id,
       email: user.email,
+      roles: authorization.roles,
+      permissions: authorization.permissions,
+      sessionId: session.id,
+      authTime: Math.floor(session.authenticatedAt.getTime() / 1000),
+      ...(organization && {
+        organizationId: organization.organizationId,
+        organizationRole: organization.role,
+      }),
       type: 'access' as const,
     };
 
-    return (jwt as any).sign(payload, authConfig.jwt.secret, {
+    return await this.jwtKeyring.sign(payload, {
       expiresIn: authConfig.jwt.accessTokenExpiry,
       issuer: 'smart-task-ai2',
       audience: 'smart-task-ai2-users',
     });
   }
 
+  private async generateMfaChallengeToken(user: User, organizationId?: string): Promise<string> {
+    const payload = {
+      userId: user.id,
+      type: 'mfa_challenge' as const,
+      ...(organizationId && { organizationId }),
+    };
+
+    return await this.jwtKeyring.sign(payload, {
+      expiresIn: authConfig.mfa.challengeExpiry,
+      issuer: 'smart-task-ai2',
+      audience: 'smart-task-ai2-mfa',
+    });
+  }
+
+  private async validateMfaChallengeToken(
+    token: string
+  ): Promise<{ userId: string; organizationId: string | null } | null> {
+    try {
+      const decoded = await this.jwtKeyring.verify(token, {
+        issuer: 'smart-task-ai2',
+        audience: 'smart-task-ai2-mfa',
+      });
+
+      if (decoded.type !== 'mfa_challenge') {
+        return null;
+      }
+
+      return {
+        userId: decoded.userId as string,
+        organizationId: (decoded.organizationId as string | undefined) ?? null,
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
   private async handleFailedLogin(email: string, ip?: string, userAgent?: string): Promise<void> {
     try {
       const user = await this.prisma.user.findUnique({
@@ -503,6 +1581,11 @@ export class AuthService {
     }
   }
 
+  // Automatic lockouts expire at lockedUntil; administrator locks have none and last until unlocked
+  private isAccountLocked(user: User): boolean {
+    return user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date());
+  }
+
   private async unlockAccount(userId: string): Promise<void> {
     await this.prisma.user.update({
       where: { id: userId },
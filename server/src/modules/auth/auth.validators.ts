@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import { authConfig } from '../../config/auth.config';
+import { checkPasswordRules } from './password-policy.service';
+import { ALL_PERMISSIONS, Permission } from './rbac.service';
+import { ALL_TOKEN_SCOPES, TokenScope } from './personal-access-token.service';
+import { OAUTH_GRANT_TYPES } from './oauth-client.service';
 
 // Email validation with proper format checking
 const emailSchema = z
@@ -10,13 +13,45 @@ const emailSchema = z
   .toLowerCase()
   .trim();
 
-// Password validation with security requirements
+// Password validation against the configured rules; strength, history and breaches are checked on use
 const passwordSchema = z
   .string()
-  .min(authConfig.security.passwordMinLength, `Password must be at least ${authConfig.security.passwordMinLength} characters`)
-  .max(128, 'Password too long')
-  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number')
-  .regex(/^(?=.*[!@#$%^&*(),.?":{}|<>])/, 'Password must contain at least one special character');
+  .superRefine((password, ctx) => {
+    for (const message of checkPasswordRules(password)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
+// Authenticator app code
+const mfaCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+// One-time recovery code (xxxxx-xxxxx)
+const recoveryCodeSchema = z
+  .string()
+  .trim()
+  .min(10, 'Invalid recovery code')
+  .max(20, 'Invalid recovery code');
+
+// Base64url-encoded value produced by the browser WebAuthn API
+const base64UrlSchema = z
+  .string()
+  .min(1, 'Value is required')
+  .regex(/^[A-Za-z0-9_-]+$/, 'Value must be base64url encoded');
+
+// Serialized PublicKeyCredential (the inner response is checked by the WebAuthn verifier)
+const webAuthnCredentialSchema = z.object({
+  id: base64UrlSchema,
+  rawId: base64UrlSchema,
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64UrlSchema,
+  }).passthrough(),
+  clientExtensionResults: z.record(z.unknown()),
+  authenticatorAttachment: z.enum(['platform', 'cross-platform']).optional(),
+});
 
 // Name validation (optional)
 const nameSchema = z
@@ -33,6 +68,25 @@ export const loginSchema = z.object({
   }),
 });
 
+// Second-step login validation (authenticator code or recovery code)
+export const mfaLoginSchema = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'MFA token is required'),
+    code: mfaCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  }).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  }),
+});
+
+export const loginVerificationSchema = z.object({
+  body: z.object({
+    verificationToken: z.string().min(1, 'Verification token is required'),
+    code: z.string().trim().regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+  }),
+});
+
 // Register request validation
 export const registerSchema = z.object({
   body: z.object({
@@ -79,6 +133,40 @@ export const resetPasswordSchema = z.object({
   }),
 });
 
+// Email verification validation
+export const verifyEmailSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Verification token is required'),
+  }),
+});
+
+// Confirm or cancel link from an email change
+export const emailChangeTokenSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Email change token is required'),
+  }),
+});
+
+// Magic-link sign-in validation
+export const magicLinkRequestSchema = z.object({
+  body: z.object({
+    email: emailSchema,
+  }),
+});
+
+export const magicLinkLoginSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Sign-in link token is required'),
+  }),
+});
+
+// Resend verification email validation
+export const resendVerificationSchema = z.object({
+  body: z.object({
+    email: emailSchema,
+  }),
+});
+
 // Update profile validation
 export const updateProfileSchema = z.object({
   body: z.object({
@@ -87,6 +175,74 @@ export const updateProfileSchema = z.object({
   }),
 });
 
+// Step-up confirmation before a sensitive action
+export const reauthenticateSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required').optional(),
+    code: mfaCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  }).refine(data => [data.password, data.code, data.recoveryCode].filter(Boolean).length === 1, {
+    message: 'Provide your password, an authentication code or a recovery code',
+    path: ['password'],
+  }),
+});
+
+// Two-factor management validation
+export const enableTotpSchema = z.object({
+  body: z.object({
+    code: mfaCodeSchema,
+  }),
+});
+
+export const disableTotpSchema = z.object({
+  body: z.object({
+    code: mfaCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  }).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authentication code or a recovery code',
+    path: ['code'],
+  }),
+});
+
+export const regenerateRecoveryCodesSchema = z.object({
+  body: z.object({
+    code: mfaCodeSchema,
+  }),
+});
+
+// WebAuthn passkey validation
+export const webAuthnRegistrationSchema = z.object({
+  body: z.object({
+    challengeId: z.string().min(1, 'Challenge ID is required'),
+    response: webAuthnCredentialSchema.extend({
+      response: z.object({
+        clientDataJSON: base64UrlSchema,
+        attestationObject: base64UrlSchema,
+      }).passthrough(),
+    }),
+    name: z.string().trim().min(1, 'Name cannot be empty').max(64, 'Name too long').optional(),
+  }),
+});
+
+export const webAuthnLoginSchema = z.object({
+  body: z.object({
+    challengeId: z.string().min(1, 'Challenge ID is required'),
+    response: webAuthnCredentialSchema.extend({
+      response: z.object({
+        clientDataJSON: base64UrlSchema,
+        authenticatorData: base64UrlSchema,
+        signature: base64UrlSchema,
+      }).passthrough(),
+    }),
+  }),
+});
+
+export const webAuthnCredentialParamsSchema = z.object({
+  params: z.object({
+    credentialId: z.string().cuid('Invalid credential ID'),
+  }),
+});
+
 // Admin user management schemas
 export const adminUpdateUserSchema = z.object({
   params: z.object({
@@ -106,6 +262,267 @@ export const adminDeleteUserSchema = z.object({
   }),
 });
 
+const adminUserParamsSchema = z.object({
+  userId: z.string().cuid('Invalid user ID'),
+});
+
+// Query strings arrive as text; controllers parse with these to get typed values
+export const adminListUsersQuerySchema = z.object({
+  search: z.string().trim().max(100, 'Search term too long').optional(),
+  status: z.enum(['active', 'locked', 'inactive']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const adminAuditHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const adminListUsersSchema = z.object({
+  query: adminListUsersQuerySchema,
+});
+
+export const adminUserSchema = z.object({
+  params: adminUserParamsSchema,
+});
+
+export const adminAuditHistorySchema = z.object({
+  params: adminUserParamsSchema,
+  query: adminAuditHistoryQuerySchema,
+});
+
+export const adminLockUserSchema = z.object({
+  params: adminUserParamsSchema,
+  body: z.object({
+    // Omit to lock until an administrator unlocks the account
+    lockedUntil: z
+      .string()
+      .datetime('Invalid date')
+      .refine(value => new Date(value) > new Date(), 'Lock must end in the future')
+      .optional(),
+  }),
+});
+
+export const adminImpersonateUserSchema = z.object({
+  params: adminUserParamsSchema,
+  body: z.object({
+    reason: z.string().trim().min(3, 'Give a reason for impersonating this user').max(500, 'Reason too long'),
+  }),
+});
+
+// Personal access token schemas
+export const createPersonalAccessTokenSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Token name is required').max(100, 'Token name too long'),
+    scopes: z
+      .array(z.enum(ALL_TOKEN_SCOPES as [TokenScope, ...TokenScope[]]))
+      .min(1, 'Select at least one scope'),
+    // Omit for a token that never expires
+    expiresAt: z
+      .string()
+      .datetime('Invalid date')
+      .refine(value => new Date(value) > new Date(), 'Expiry must be in the future')
+      .optional(),
+  }),
+});
+
+export const personalAccessTokenParamsSchema = z.object({
+  params: z.object({
+    tokenId: z.string().cuid('Invalid token ID'),
+  }),
+});
+
+// OpenID Connect schemas
+const oidcProviderParamsSchema = z.object({
+  provider: z.string().regex(/^[a-z0-9-]+$/, 'Invalid provider'),
+});
+
+export const oidcAuthorizeSchema = z.object({
+  params: oidcProviderParamsSchema,
+});
+
+export const oidcCallbackSchema = z.object({
+  params: oidcProviderParamsSchema,
+  body: z.object({
+    code: z.string().min(1, 'Authorization code is required').max(2048),
+    state: z.string().min(1, 'State is required').max(512),
+  }),
+});
+
+export const samlStartSchema = z.object({
+  body: z.object({
+    email: emailSchema,
+  }),
+});
+
+const samlConnectionParamsSchema = z.object({
+  connectionId: z.string().cuid('Invalid connection ID'),
+});
+
+export const samlMetadataSchema = z.object({
+  params: samlConnectionParamsSchema,
+});
+
+export const samlAcsSchema = z.object({
+  params: samlConnectionParamsSchema,
+  body: z.object({
+    SAMLResponse: z.string().min(1, 'SAML response is required'),
+    RelayState: z.string().optional(),
+  }),
+});
+
+export const samlCallbackSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, 'Sign-in code is required').max(512),
+  }),
+});
+
+export const linkedIdentityParamsSchema = z.object({
+  params: z.object({
+    identityId: z.string().cuid('Invalid identity ID'),
+  }),
+});
+
+// OpenID Connect provider schemas. Authorization requests keep the OAuth parameter names
+// so the consent page can pass the query string it was opened with straight through.
+const oauthAuthorizationParamsSchema = z.object({
+  client_id: z.string().min(1, 'client_id is required').max(255),
+  redirect_uri: z.string().url('redirect_uri must be a valid URL').max(2048),
+  response_type: z.string().min(1, 'response_type is required').max(50),
+  scope: z.string().max(1024).optional(),
+  state: z.string().max(1024).optional(),
+  nonce: z.string().max(1024).optional(),
+  code_challenge: z.string().regex(/^[A-Za-z0-9_-]{43,128}$/, 'Invalid code_challenge').optional(),
+  code_challenge_method: z.string().max(10).optional(),
+});
+
+export const oauthAuthorizationSchema = z.object({
+  query: oauthAuthorizationParamsSchema,
+});
+
+export const oauthConsentSchema = z.object({
+  body: oauthAuthorizationParamsSchema.extend({
+    approved: z.boolean(),
+  }),
+});
+
+const oauthClientParamsSchema = z.object({
+  clientId: z.string().regex(/^[a-f0-9]{32}$/, 'Invalid client ID'),
+});
+
+export const oauthConsentParamsSchema = z.object({
+  params: oauthClientParamsSchema,
+});
+
+// Redirect URIs are matched exactly; plain http is only trusted on the loopback interface
+const oauthRedirectUriSchema = z
+  .string()
+  .url('Invalid redirect URI')
+  .max(2048)
+  .refine(uri => !uri.includes(',') && !uri.includes('#'), 'Redirect URIs cannot contain commas or fragments')
+  .refine(uri => {
+    const url = new URL(uri);
+    return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname));
+  }, 'Redirect URIs must use https, except on localhost');
+
+const oauthClientBodySchema = z.object({
+  name: z.string().trim().min(1, 'Client name is required').max(100, 'Client name too long'),
+  redirectUris: z.array(oauthRedirectUriSchema).max(20, 'Too many redirect URIs'),
+  scopes: z
+    .array(z.string().regex(/^[a-z][a-z0-9:._-]*$/, 'Invalid scope').max(100))
+    .min(1, 'Select at least one scope')
+    .max(50, 'Too many scopes'),
+  grantTypes: z.array(z.enum(OAUTH_GRANT_TYPES)).min(1, 'Select at least one grant type'),
+});
+
+export const createOAuthClientSchema = z.object({
+  body: oauthClientBodySchema.extend({
+    // Public clients (SPAs, CLIs, mobile apps) get no secret and must use PKCE
+    confidential: z.boolean(),
+  }),
+});
+
+export const updateOAuthClientSchema = z.object({
+  params: oauthClientParamsSchema,
+  body: oauthClientBodySchema.partial(),
+});
+
+export const oauthClientSchema = z.object({
+  params: oauthClientParamsSchema,
+});
+
+// Audit log schemas
+export const auditEventsQuerySchema = z.object({
+  event: z.string().trim().max(100).optional(),
+  userId: z.string().cuid('Invalid user ID').optional(),
+  actorId: z.string().cuid('Invalid user ID').optional(),
+  ip: z.string().trim().max(64).optional(),
+  requestId: z.string().trim().max(100).optional(),
+  from: z.coerce.date({ invalid_type_error: 'Invalid date' }).optional(),
+  to: z.coerce.date({ invalid_type_error: 'Invalid date' }).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const securityActivityQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const auditEventsSchema = z.object({
+  query: auditEventsQuerySchema,
+});
+
+export const securityActivitySchema = z.object({
+  query: securityActivityQuerySchema,
+});
+
+export const adminRevokeSessionSchema = z.object({
+  params: adminUserParamsSchema.extend({
+    sessionId: z.string().cuid('Invalid session ID'),
+  }),
+});
+
+// Role management schemas
+const roleNameSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]{1,31}$/, 'Role names use 2-32 upper-case letters, digits and underscores');
+
+const permissionsSchema = z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]));
+
+const roleParamsSchema = z.object({
+  roleId: z.string().cuid('Invalid role ID'),
+});
+
+export const createRoleSchema = z.object({
+  body: z.object({
+    name: roleNameSchema,
+    description: z.string().trim().max(200, 'Description too long').optional(),
+    permissions: permissionsSchema,
+  }),
+});
+
+export const updateRoleSchema = z.object({
+  params: roleParamsSchema,
+  body: z.object({
+    description: z.string().trim().max(200, 'Description too long').optional(),
+    permissions: permissionsSchema.optional(),
+  }),
+});
+
+export const deleteRoleSchema = z.object({
+  params: roleParamsSchema,
+});
+
+export const setUserRolesSchema = z.object({
+  params: z.object({
+    userId: z.string().cuid('Invalid user ID'),
+  }),
+  body: z.object({
+    roles: z.array(roleNameSchema).max(20, 'Too many roles'),
+  }),
+});
+
 // Session management schemas
 export const revokeSessionSchema = z.object({
   params: z.object({
@@ -121,15 +538,40 @@ export const revokeAllSessionsSchema = z.object({
 
 // Type exports for use in controllers
 export type LoginRequest = z.infer<typeof loginSchema>['body'];
+export type MfaLoginRequest = z.infer<typeof mfaLoginSchema>['body'];
+export type LoginVerificationRequest = z.infer<typeof loginVerificationSchema>['body'];
+export type OidcCallbackRequest = z.infer<typeof oidcCallbackSchema>['body'];
+export type SamlStartRequest = z.infer<typeof samlStartSchema>['body'];
+export type SamlAcsRequest = z.infer<typeof samlAcsSchema>['body'];
+export type SamlCallbackRequest = z.infer<typeof samlCallbackSchema>['body'];
+export type EnableTotpRequest = z.infer<typeof enableTotpSchema>['body'];
+export type DisableTotpRequest = z.infer<typeof disableTotpSchema>['body'];
+export type WebAuthnRegistrationRequest = z.infer<typeof webAuthnRegistrationSchema>['body'];
+export type WebAuthnLoginRequest = z.infer<typeof webAuthnLoginSchema>['body'];
 export type RegisterRequest = z.infer<typeof registerSchema>['body'];
 export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>['cookies'];
 export type LogoutRequest = z.infer<typeof logoutSchema>['cookies'];
 export type ChangePasswordRequest = z.infer<typeof changePasswordSchema>['body'];
 export type ForgotPasswordRequest = z.infer<typeof forgotPasswordSchema>['body'];
 export type ResetPasswordRequest = z.infer<typeof resetPasswordSchema>['body'];
+export type VerifyEmailRequest = z.infer<typeof verifyEmailSchema>['body'];
+export type ResendVerificationRequest = z.infer<typeof resendVerificationSchema>['body'];
+export type EmailChangeTokenRequest = z.infer<typeof emailChangeTokenSchema>['body'];
+export type MagicLinkRequest = z.infer<typeof magicLinkRequestSchema>['body'];
+export type MagicLinkLoginRequest = z.infer<typeof magicLinkLoginSchema>['body'];
 export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>['body'];
+export type ReauthenticateRequest = z.infer<typeof reauthenticateSchema>['body'];
 export type AdminUpdateUserRequest = z.infer<typeof adminUpdateUserSchema>['body'];
 export type AdminUpdateUserParams = z.infer<typeof adminUpdateUserSchema>['params'];
 export type AdminDeleteUserParams = z.infer<typeof adminDeleteUserSchema>['params'];
+export type AdminLockUserRequest = z.infer<typeof adminLockUserSchema>['body'];
+export type AdminImpersonateUserRequest = z.infer<typeof adminImpersonateUserSchema>['body'];
+export type CreatePersonalAccessTokenRequest = z.infer<typeof createPersonalAccessTokenSchema>['body'];
+export type OAuthConsentRequest = z.infer<typeof oauthConsentSchema>['body'];
+export type CreateOAuthClientRequest = z.infer<typeof createOAuthClientSchema>['body'];
+export type UpdateOAuthClientRequest = z.infer<typeof updateOAuthClientSchema>['body'];
+export type CreateRoleRequest = z.infer<typeof createRoleSchema>['body'];
+export type UpdateRoleRequest = z.infer<typeof updateRoleSchema>['body'];
+export type SetUserRolesRequest = z.infer<typeof setUserRolesSchema>['body'];
 export type RevokeSessionParams = z.infer<typeof revokeSessionSchema>['params'];
 export type RevokeAllSessionsParams = z.infer<typeof revokeAllSessionsSchema>['params'];
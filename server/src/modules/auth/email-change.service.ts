@@ -0,0 +1,168 @@
+import { EmailChange, PrismaClient, User } from '@prisma/client';
+
+import { MailService } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import { AuthError, PendingEmailChange } from '../../types/auth.types';
+
+export class EmailChangeService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * The change waiting for the new address to confirm it, if any
+   */
+  async getPending(userId: string): Promise<PendingEmailChange | null> {
+    const change = await this.prisma.emailChange.findFirst({
+      where: { userId, confirmedAt: null, cancelledAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return change ? { email: change.newEmail, expiresAt: change.expiresAt } : null;
+  }
+
+  /**
+   * Store a new address for the user and email both addresses: a confirmation
+   * link to the new one and a cancel link to the current one. Replaces any
+   * change still pending.
+   */
+  async requestChange(
+    user: Pick<User, 'id' | 'email' | 'name'>,
+    newEmail: string,
+    sessionFamilyId?: string | null
+  ): Promise<PendingEmailChange> {
+    const email = newEmail.toLowerCase();
+
+    const existingUser = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existingUser && existingUser.id !== user.id) {
+      throw new AuthError('EMAIL_TAKEN', 'Email is already taken');
+    }
+
+    const confirmToken = generateSecureToken();
+    const cancelToken = generateSecureToken();
+    const expiresAt = new Date(Date.now() + authConfig.emailChange.tokenTtlMs);
+
+    await this.prisma.emailChange.deleteMany({
+      where: { userId: user.id, confirmedAt: null, cancelledAt: null },
+    });
+
+    await this.prisma.emailChange.create({
+      data: {
+        userId: user.id,
+        newEmail: email,
+        confirmTokenHash: hashToken(confirmToken),
+        cancelTokenHash: hashToken(cancelToken),
+        sessionFamilyId: sessionFamilyId ?? null,
+        expiresAt,
+      },
+    });
+
+    const expiresInHours = Math.round(authConfig.emailChange.tokenTtlMs / (60 * 60 * 1000));
+    await this.mailService.sendEmailChangeConfirmation(email, confirmToken, expiresInHours, user.name);
+    await this.mailService.sendEmailChangeNotice(user.email, email, cancelToken, user.name);
+
+    logger.info('Email change requested', { userId: user.id });
+    auditLog('email_change_requested', user.id);
+
+    return { email, expiresAt };
+  }
+
+  /**
+   * Consume a confirmation link and move the user to the new address, which
+   * counts as verified since the link was delivered there
+   */
+  async confirmChange(token: string): Promise<EmailChange> {
+    const change = await this.prisma.emailChange.findUnique({
+      where: { confirmTokenHash: hashToken(token) },
+    });
+
+    if (!change || change.confirmedAt || change.cancelledAt || change.expiresAt < new Date()) {
+      throw new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired');
+    }
+
+    const confirmedAt = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guard against concurrent use and against a cancel landing first
+      const consumed = await tx.emailChange.updateMany({
+        where: { id: change.id, confirmedAt: null, cancelledAt: null },
+        data: { confirmedAt },
+      });
+
+      if (consumed.count === 0) {
+        throw new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired');
+      }
+
+      // Someone may have registered the address since the change was requested
+      const existingUser = await tx.user.findUnique({
+        where: { email: change.newEmail },
+      });
+
+      if (existingUser && existingUser.id !== change.userId) {
+        throw new AuthError('EMAIL_TAKEN', 'Email is already taken');
+      }
+
+      await tx.user.update({
+        where: { id: change.userId },
+        data: { email: change.newEmail, emailVerified: confirmedAt },
+      });
+    });
+
+    logger.info('Email changed', { userId: change.userId });
+    auditLog('email_changed', change.userId);
+
+    return { ...change, confirmedAt };
+  }
+
+  /**
+   * Stop a pending change from the link sent to the current address
+   */
+  async cancelChange(token: string): Promise<void> {
+    const change = await this.prisma.emailChange.findUnique({
+      where: { cancelTokenHash: hashToken(token) },
+    });
+
+    if (!change || change.confirmedAt || change.cancelledAt || change.expiresAt < new Date()) {
+      throw new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired');
+    }
+
+    const cancelled = await this.prisma.emailChange.updateMany({
+      where: { id: change.id, confirmedAt: null, cancelledAt: null },
+      data: { cancelledAt: new Date() },
+    });
+
+    if (cancelled.count === 0) {
+      throw new AuthError('INVALID_EMAIL_CHANGE_TOKEN', 'Email change link is invalid or has expired');
+    }
+
+    logger.info('Email change cancelled', { userId: change.userId });
+    auditLog('email_change_cancelled', change.userId, undefined, undefined, { via: 'email' });
+  }
+
+  /**
+   * Stop the user's pending change from their settings
+   */
+  async cancelPending(userId: string): Promise<boolean> {
+    const cancelled = await this.prisma.emailChange.updateMany({
+      where: { userId, confirmedAt: null, cancelledAt: null },
+      data: { cancelledAt: new Date() },
+    });
+
+    if (cancelled.count === 0) {
+      return false;
+    }
+
+    logger.info('Email change cancelled', { userId });
+    auditLog('email_change_cancelled', userId, undefined, undefined, { via: 'settings' });
+    return true;
+  }
+}
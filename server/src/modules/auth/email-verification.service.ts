@@ -0,0 +1,101 @@
+import { PrismaClient, User } from '@prisma/client';
+
+import { MailService } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import { AuthError } from '../../types/auth.types';
+
+export class EmailVerificationService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * Issue a new verification token and email it to the user.
+   * Any previously issued, unused tokens are invalidated.
+   */
+  async sendVerification(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    const token = generateSecureToken();
+
+    await this.prisma.emailVerificationToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    await this.prisma.emailVerificationToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + authConfig.emailVerification.tokenTtlMs),
+      },
+    });
+
+    await this.mailService.sendEmailVerification(user.email, token, user.name);
+
+    logger.info('Verification email sent', { userId: user.id });
+    auditLog('email_verification_sent', user.id);
+  }
+
+  /**
+   * Consume a verification token and mark the user's email as verified
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const record = await this.prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!record || record.usedAt || record.expiresAt < new Date()) {
+      throw new AuthError('INVALID_VERIFICATION_TOKEN', 'Verification link is invalid or has expired');
+    }
+
+    const verifiedAt = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guard against concurrent use of the same token
+      const consumed = await tx.emailVerificationToken.updateMany({
+        where: { id: record.id, usedAt: null },
+        data: { usedAt: verifiedAt },
+      });
+
+      if (consumed.count === 0) {
+        throw new AuthError('INVALID_VERIFICATION_TOKEN', 'Verification link is invalid or has expired');
+      }
+
+      await tx.user.update({
+        where: { id: record.userId },
+        data: { emailVerified: verifiedAt },
+      });
+    });
+
+    logger.info('Email verified', { userId: record.userId });
+    auditLog('email_verified', record.userId);
+  }
+
+  /**
+   * Re-send the verification email. Silently does nothing for unknown,
+   * inactive or already verified accounts so the response cannot be used
+   * to enumerate registered emails.
+   */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+    });
+
+    if (!user || !user.isActive || user.emailVerified) {
+      logger.debug('Verification resend skipped', { email });
+      return;
+    }
+
+    // Don't await issuing or delivery so neither errors nor timing reveal an unverified account
+    this.sendVerification(user).catch(error => {
+      logger.error('Failed to resend verification email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { JWKS_MAX_AGE_SECONDS, getJwtKeyring } from './jwt-keyring';
+
+/**
+ * Public verification keys for the access tokens this server issues
+ */
+export function createJwksRoutes(): Router {
+  const router = Router();
+
+  router.get('/.well-known/jwks.json', (_req, res) => {
+    // Short cache so consumers pick up new keys before they start signing
+    res.setHeader('Cache-Control', `public, max-age=${JWKS_MAX_AGE_SECONDS}`);
+    res.status(200).json(getJwtKeyring().getJwks());
+  });
+
+  return router;
+}
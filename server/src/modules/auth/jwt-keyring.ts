@@ -0,0 +1,398 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SignJWT, jwtVerify, type JWK, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'ES256' | 'EdDSA';
+
+export interface JwtKeyringOptions {
+  algorithm: JwtAlgorithm;
+  /** Shared secret for the HS* algorithms */
+  secret: string;
+  /** Directory of PEM files for the asymmetric algorithms */
+  keysDir: string;
+  /** Age at which the current signing key is replaced */
+  rotationIntervalMs: number;
+  /** How long a replaced key keeps verifying, i.e. the longest lifetime of any token it signs */
+  retentionMs: number;
+}
+
+export interface SignOptions {
+  expiresIn: string;
+  issuer: string;
+  audience: string;
+}
+
+export interface VerifyOptions {
+  issuer: string;
+  audience: string;
+}
+
+interface KeyringEntry {
+  kid: string;
+  file: string;
+  privateKey: KeyObject | null;
+  publicKey: KeyObject;
+  /** When the key starts signing, kept as the file's modification time */
+  activatesAt: Date;
+}
+
+// Key type each asymmetric algorithm has to be paired with
+const KEY_TYPES: Record<string, { type: string; namedCurve?: string }> = {
+  RS256: { type: 'rsa' },
+  ES256: { type: 'ec', namedCurve: 'prime256v1' },
+  EdDSA: { type: 'ed25519' },
+};
+
+// How often the scheduler checks whether the current key is due for rotation
+const ROTATION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// How long consumers may cache the published key set
+export const JWKS_MAX_AGE_SECONDS = 300;
+
+// A new key is published this long before it signs, so cached key sets already hold it
+const KEY_PUBLICATION_LEAD_MS = 2 * JWKS_MAX_AGE_SECONDS * 1000;
+
+// Minimum time between reloads of the key directory caused by tokens with an unknown kid
+const KEY_RELOAD_INTERVAL_MS = 30 * 1000;
+
+// Seconds per unit, keyed by the unit's first letter ("m", "min" and "minutes" are all minutes)
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+  y: 365.25 * 24 * 60 * 60,
+};
+
+// The lifetimes jose's setExpirationTime accepts, such as "10m", "1.5h" or "7 days"
+const DURATION_PATTERN = /^(\d+|\d+\.\d+) ?(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w|years?|yrs?|y)$/i;
+
+/**
+ * Convert a token lifetime to milliseconds, rounded to whole seconds as in the signed token
+ */
+export function durationToMs(duration: string): number {
+  const match = DURATION_PATTERN.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Unsupported duration "${duration}"`);
+  }
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2][0].toLowerCase()]) * 1000;
+}
+
+/**
+ * Signs and verifies the JWTs issued by this server.
+ *
+ * HS* algorithms use the shared JWT secret. RS256, ES256 and EdDSA use the PEM
+ * private keys in `keysDir`: the newest active one signs, older ones keep verifying
+ * until every token they signed has expired, and all of them are published as a
+ * JWKS so other services can check our tokens without the secret. A replacement
+ * key is published ahead of time and only starts signing once cached key sets
+ * have had time to pick it up.
+ */
+export class JwtKeyring {
+  private options: JwtKeyringOptions;
+  private keys: KeyringEntry[] = [];
+  private lastLoadedAt = 0;
+  private rotationTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: JwtKeyringOptions) {
+    this.options = options;
+
+    if (this.isAsymmetric) {
+      this.load();
+      if (!this.keys.some(entry => entry.privateKey)) {
+        logger.warn('No JWT signing key found, generating one', { keysDir: options.keysDir });
+        this.generateKey();
+      }
+    }
+  }
+
+  get algorithm(): JwtAlgorithm {
+    return this.options.algorithm;
+  }
+
+  /** Whether tokens are signed with a key pair whose public half is published */
+  get isAsymmetric(): boolean {
+    return this.algorithm in KEY_TYPES;
+  }
+
+  /**
+   * Sign a payload with the current key
+   */
+  async sign(payload: JWTPayload, options: SignOptions): Promise<string> {
+    const jwt = new SignJWT(payload)
+      .setIssuedAt()
+      .setIssuer(options.issuer)
+      .setAudience(options.audience)
+      .setExpirationTime(options.expiresIn);
+
+    if (!this.isAsymmetric) {
+      return jwt.setProtectedHeader({ alg: this.algorithm, typ: 'JWT' }).sign(this.secretKey);
+    }
+
+    const current = this.signingKey();
+    if (!current) {
+      throw new Error('No JWT signing key available');
+    }
+
+    return jwt
+      .setProtectedHeader({ alg: this.algorithm, typ: 'JWT', kid: current.kid })
+      .sign(current.privateKey as KeyObject);
+  }
+
+  /**
+   * Verify a token's signature, expiry, issuer and audience and return its payload
+   */
+  async verify(token: string, options: VerifyOptions): Promise<JWTPayload> {
+    const verifyOptions = {
+      algorithms: [this.algorithm],
+      issuer: options.issuer,
+      audience: options.audience,
+    };
+
+    if (!this.isAsymmetric) {
+      const { payload } = await jwtVerify(token, this.secretKey, verifyOptions);
+      return payload;
+    }
+
+    const getKey: JWTVerifyGetKey = header => {
+      let entry = this.keys.find(key => key.kid === header.kid);
+
+      // Another instance may have added the key; forged kids must not make us read the disk on every request
+      if (!entry && Date.now() - this.lastLoadedAt >= KEY_RELOAD_INTERVAL_MS) {
+        this.load();
+        entry = this.keys.find(key => key.kid === header.kid);
+      }
+
+      if (!entry) {
+        throw new Error('Unknown signing key');
+      }
+      return entry.publicKey;
+    };
+
+    const { payload } = await jwtVerify(token, getKey, verifyOptions);
+    return payload;
+  }
+
+  /**
+   * Public keys that currently verify tokens, as a JSON Web Key Set
+   */
+  getJwks(): { keys: JWK[] } {
+    return {
+      keys: this.keys.map(entry => ({
+        ...(entry.publicKey.export({ format: 'jwk' }) as JWK),
+        kid: entry.kid,
+        alg: this.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  /**
+   * Pick up keys added by other instances, publish the next key shortly before the
+   * current one reaches the rotation interval and drop keys nothing valid can be
+   * signed with anymore
+   */
+  rotateIfDue(now: Date = new Date()): void {
+    if (!this.isAsymmetric) {
+      return;
+    }
+
+    this.load();
+
+    const current = this.signingKey(now.getTime());
+    const next = this.keys.find(
+      entry => entry !== current && entry.privateKey && entry.activatesAt.getTime() > now.getTime()
+    );
+
+    if (!current) {
+      this.generateKey(now);
+    } else if (
+      !next &&
+      now.getTime() - current.activatesAt.getTime() >= this.options.rotationIntervalMs - KEY_PUBLICATION_LEAD_MS
+    ) {
+      this.generateKey(new Date(now.getTime() + KEY_PUBLICATION_LEAD_MS));
+    }
+
+    this.pruneRetiredKeys(now);
+  }
+
+  /**
+   * Start the background rotation check
+   */
+  startRotation(): void {
+    if (!this.isAsymmetric || this.rotationTimer) {
+      return;
+    }
+
+    this.rotateIfDue();
+    this.rotationTimer = setInterval(() => {
+      try {
+        this.rotateIfDue();
+      } catch (error) {
+        logger.error('JWT key rotation failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }, Math.min(ROTATION_CHECK_INTERVAL_MS, this.options.rotationIntervalMs));
+    this.rotationTimer.unref();
+  }
+
+  /**
+   * Stop the background rotation check
+   */
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+
+  // Private helper methods
+
+  private get secretKey(): Uint8Array {
+    return new TextEncoder().encode(this.options.secret);
+  }
+
+  /**
+   * Newest key that can sign and has been published long enough. Until one has,
+   * the key that activates first is used.
+   */
+  private signingKey(now: number = Date.now()): KeyringEntry | undefined {
+    const signing = this.keys.filter(entry => entry.privateKey);
+    return signing.find(entry => entry.activatesAt.getTime() <= now) ?? signing[signing.length - 1];
+  }
+
+  private load(): void {
+    this.lastLoadedAt = Date.now();
+
+    if (!fs.existsSync(this.options.keysDir)) {
+      this.keys = [];
+      return;
+    }
+
+    const entries: KeyringEntry[] = [];
+
+    for (const name of fs.readdirSync(this.options.keysDir)) {
+      if (!name.endsWith('.pem')) continue;
+
+      const file = path.join(this.options.keysDir, name);
+      try {
+        const entry = this.readKey(file);
+        if (entry) entries.push(entry);
+      } catch (error) {
+        logger.warn('Skipping unreadable JWT key file', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.keys = entries.sort((a, b) => b.activatesAt.getTime() - a.activatesAt.getTime());
+  }
+
+  private readKey(file: string): KeyringEntry | null {
+    const pem = fs.readFileSync(file, 'utf8');
+    // Public-only PEM files can verify tokens but never become the signing key
+    const privateKey = pem.includes('PRIVATE KEY') ? crypto.createPrivateKey(pem) : null;
+    const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+    const expected = KEY_TYPES[this.algorithm];
+    if (
+      publicKey.asymmetricKeyType !== expected.type ||
+      (expected.namedCurve && publicKey.asymmetricKeyDetails?.namedCurve !== expected.namedCurve)
+    ) {
+      logger.warn('Skipping JWT key that does not match JWT_ALGORITHM', { file, algorithm: this.algorithm });
+      return null;
+    }
+
+    return {
+      kid: this.thumbprint(publicKey),
+      file,
+      privateKey,
+      publicKey,
+      activatesAt: fs.statSync(file).mtime,
+    };
+  }
+
+  private generateKey(activatesAt: Date = new Date()): void {
+    const { privateKey } = this.generateKeyPair();
+    const publicKey = crypto.createPublicKey(privateKey);
+    const kid = this.thumbprint(publicKey);
+    const file = path.join(this.options.keysDir, `${kid}.pem`);
+
+    fs.mkdirSync(this.options.keysDir, { recursive: true });
+    fs.writeFileSync(file, privateKey.export({ format: 'pem', type: 'pkcs8' }), { mode: 0o600 });
+    fs.utimesSync(file, activatesAt, activatesAt);
+
+    this.keys.unshift({ kid, file, privateKey, publicKey, activatesAt });
+    logger.info('JWT signing key published', { kid, algorithm: this.algorithm, activatesAt });
+  }
+
+  private generateKeyPair(): crypto.KeyPairKeyObjectResult {
+    switch (this.algorithm) {
+      case 'RS256':
+        return crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      case 'ES256':
+        return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      default:
+        return crypto.generateKeyPairSync('ed25519');
+    }
+  }
+
+  /**
+   * A key stops signing when a newer one activates; once every token it could have
+   * signed has expired it is removed from the keyring
+   */
+  private pruneRetiredKeys(now: Date): void {
+    const current = this.signingKey(now.getTime());
+
+    this.keys = this.keys.filter((entry, index) => {
+      if (entry === current || index === 0) return true;
+
+      const retiredAt = this.keys[index - 1].activatesAt.getTime();
+      if (now.getTime() - retiredAt < this.options.retentionMs) return true;
+
+      fs.rmSync(entry.file, { force: true });
+      logger.info('Retired JWT signing key removed', { kid: entry.kid });
+      return false;
+    });
+  }
+
+  /** RFC 7638 JWK thumbprint, used as the key id */
+  private thumbprint(publicKey: KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const members = ['crv', 'e', 'kty', 'n', 'x', 'y'].filter(name => jwk[name] !== undefined);
+    const canonical = JSON.stringify(Object.fromEntries(members.map(name => [name, jwk[name]])));
+
+    return crypto.createHash('sha256').update(canonical).digest('base64url');
+  }
+}
+
+let keyring: JwtKeyring | null = null;
+
+/**
+ * Shared keyring built from the auth configuration
+ */
+export function getJwtKeyring(): JwtKeyring {
+  if (!keyring) {
+    keyring = new JwtKeyring({
+      algorithm: authConfig.jwt.algorithm,
+      secret: authConfig.jwt.secret,
+      keysDir: authConfig.jwt.keysDir,
+      rotationIntervalMs: authConfig.jwt.keyRotationIntervalMs,
+      // Access tokens, including those issued to OAuth clients and ID tokens, MFA
+      // challenges and impersonation tokens are all signed by the keyring
+      retentionMs: Math.max(
+        durationToMs(authConfig.jwt.accessTokenExpiry),
+        durationToMs(authConfig.mfa.challengeExpiry),
+        authConfig.impersonation.maxDurationMs
+      ),
+    });
+  }
+  return keyring;
+}
@@ -0,0 +1,269 @@
+import net from 'net';
+import { KnownDevice, PrismaClient, User } from '@prisma/client';
+import { UAParser } from 'ua-parser-js';
+
+import { AuditRepository } from './audit.repository';
+import { GeoIpLookup, GeoLocation, getGeoIpLookup } from './session-metadata';
+import { MailService, SignInDetails } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { hashToken } from '../../utils/tokens';
+import { LoginRiskAssessment, LoginRiskDecision, LoginRiskSignal } from '../../types/auth.types';
+
+const SIGNAL_WEIGHTS: Record<LoginRiskSignal, number> = {
+  new_device: 30,
+  new_network: 15,
+  impossible_travel: 60,
+  repeated_failures: 30,
+  ip_failure_burst: 40,
+};
+
+// Audit events raised for a wrong password on an existing account
+const FAILED_LOGIN_EVENTS = ['failed_login_attempt', 'account_locked'];
+
+// GeoIP positions are approximate; shorter hops are never treated as travel
+const MIN_TRAVEL_DISTANCE_KM = 200;
+const EARTH_RADIUS_KM = 6371;
+
+interface LoginContext {
+  fingerprint: string;
+  device: string | null;
+  network: string | null;
+  location: GeoLocation | null;
+  ip: string | null;
+}
+
+/**
+ * Scores sign-ins against the devices, networks and places a user has signed in from before
+ */
+export class LoginRiskService {
+  private prisma: PrismaClient;
+  private auditRepository: AuditRepository;
+  private mailService: MailService;
+  private geoIp: GeoIpLookup;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService(), geoIp: GeoIpLookup = getGeoIpLookup()) {
+    this.prisma = prisma;
+    this.auditRepository = new AuditRepository(prisma);
+    this.mailService = mailService;
+    this.geoIp = geoIp;
+  }
+
+  /**
+   * Decide whether a sign-in with a correct password may go ahead
+   */
+  async assess(
+    user: Pick<User, 'id' | 'failedLoginAttempts'>,
+    ip?: string,
+    userAgent?: string,
+    now: Date = new Date()
+  ): Promise<LoginRiskAssessment> {
+    const context = this.describeLogin(ip, userAgent);
+    const signals: LoginRiskSignal[] = [];
+
+    const devices = await this.prisma.knownDevice.findMany({
+      where: { userId: user.id },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    // Without any history there is nothing to compare against; the first sign-in sets the baseline
+    if (devices.length > 0) {
+      if (!devices.some(device => device.fingerprint === context.fingerprint)) {
+        signals.push('new_device');
+      }
+      if (context.network && !devices.some(device => device.network === context.network)) {
+        signals.push('new_network');
+      }
+      if (this.isImpossibleTravel(devices[0]!, context.location, now)) {
+        signals.push('impossible_travel');
+      }
+    }
+
+    if (user.failedLoginAttempts >= authConfig.risk.failedAttemptsThreshold) {
+      signals.push('repeated_failures');
+    }
+
+    if (ip) {
+      const since = new Date(now.getTime() - authConfig.risk.ipFailureWindowMs);
+      const failures = await this.auditRepository.countByIpSince(FAILED_LOGIN_EVENTS, ip, since);
+      if (failures >= authConfig.risk.ipFailureThreshold) {
+        signals.push('ip_failure_burst');
+      }
+    }
+
+    const score = signals.reduce((total, signal) => total + SIGNAL_WEIGHTS[signal], 0);
+    const assessment: LoginRiskAssessment = {
+      decision: this.decide(score, signals),
+      score,
+      signals,
+    };
+
+    auditLog('login_risk_assessed', user.id, ip, userAgent, { ...assessment });
+
+    return assessment;
+  }
+
+  /**
+   * Remember the device behind a completed sign-in, alerting the user when it is new
+   */
+  async recordLogin(
+    user: Pick<User, 'id' | 'email' | 'name'>,
+    ip?: string,
+    userAgent?: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const context = this.describeLogin(ip, userAgent);
+    const where = { userId_fingerprint: { userId: user.id, fingerprint: context.fingerprint } };
+
+    const [existing, deviceCount] = await Promise.all([
+      this.prisma.knownDevice.findUnique({ where }),
+      this.prisma.knownDevice.count({ where: { userId: user.id } }),
+    ]);
+
+    const position = {
+      network: context.network,
+      location: context.location?.label ?? null,
+      latitude: context.location?.latitude ?? null,
+      longitude: context.location?.longitude ?? null,
+      lastSeenAt: now,
+    };
+
+    await this.prisma.knownDevice.upsert({
+      where,
+      create: { userId: user.id, fingerprint: context.fingerprint, firstSeenAt: now, ...position },
+      update: position,
+    });
+
+    if (!existing && deviceCount > 0) {
+      auditLog('new_device_login', user.id, ip, userAgent, { device: context.device });
+      await this.sendAlert(user.id, () =>
+        this.mailService.sendNewSignInAlert(user.email, this.toSignInDetails(context, now), user.name)
+      );
+    }
+  }
+
+  /**
+   * Tell the user a sign-in with their password was refused
+   */
+  async notifyBlockedLogin(
+    user: Pick<User, 'id' | 'email' | 'name'>,
+    ip?: string,
+    userAgent?: string,
+    now: Date = new Date()
+  ): Promise<void> {
+    const context = this.describeLogin(ip, userAgent);
+    await this.sendAlert(user.id, () =>
+      this.mailService.sendBlockedSignInAlert(user.email, this.toSignInDetails(context, now), user.name)
+    );
+  }
+
+  /**
+   * How a sign-in is described in security emails
+   */
+  describeSignIn(ip?: string, userAgent?: string, now: Date = new Date()): SignInDetails {
+    return this.toSignInDetails(this.describeLogin(ip, userAgent), now);
+  }
+
+  // Private helper methods
+
+  private decide(score: number, signals: LoginRiskSignal[]): LoginRiskDecision {
+    if (score >= authConfig.risk.blockScore) {
+      return 'block';
+    }
+    if (score >= authConfig.risk.challengeScore) {
+      return 'challenge';
+    }
+    return signals.includes('new_device') ? 'notify' : 'allow';
+  }
+
+  private describeLogin(ip?: string, userAgent?: string): LoginContext {
+    const parsed = userAgent ? new UAParser(userAgent).getResult() : null;
+    const browser = parsed?.browser.name ?? null;
+    const os = parsed?.os.name ?? null;
+    const deviceType = parsed ? parsed.device.type ?? 'desktop' : null;
+
+    return {
+      // Versions are left out so browser and OS updates do not look like a new device
+      fingerprint: hashToken([browser, os, deviceType].map(part => part ?? 'unknown').join('|')),
+      device: [browser, os && `on ${os}`].filter(Boolean).join(' ') || null,
+      network: ip ? networkOf(ip) : null,
+      location: ip ? this.geoIp.locate(ip) : null,
+      ip: ip ?? null,
+    };
+  }
+
+  private isImpossibleTravel(lastDevice: KnownDevice, location: GeoLocation | null, now: Date): boolean {
+    if (
+      lastDevice.latitude === null ||
+      lastDevice.longitude === null ||
+      location?.latitude == null ||
+      location.longitude == null
+    ) {
+      return false;
+    }
+
+    const distanceKm = haversineKm(lastDevice.latitude, lastDevice.longitude, location.latitude, location.longitude);
+    if (distanceKm < MIN_TRAVEL_DISTANCE_KM) {
+      return false;
+    }
+
+    const hours = Math.max(now.getTime() - lastDevice.lastSeenAt.getTime(), 0) / (60 * 60 * 1000);
+    return distanceKm / hours > authConfig.risk.maxTravelSpeedKmh;
+  }
+
+  private toSignInDetails(context: LoginContext, now: Date): SignInDetails {
+    return {
+      device: context.device,
+      location: context.location?.label ?? null,
+      ip: context.ip,
+      time: now,
+    };
+  }
+
+  // A delivery failure must not decide the outcome of the sign-in
+  private async sendAlert(userId: string, send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      logger.error('Failed to send sign-in alert', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * The /24 (IPv4) or /48 (IPv6) network an address belongs to
+ */
+export function networkOf(ip: string): string | null {
+  const address = ip.replace(/^::ffff:/, '');
+
+  if (net.isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (net.isIPv6(address)) {
+    const [head = '', tail] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+      ? headGroups
+      : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+
+    return `${groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`;
+  }
+
+  return null;
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { PrismaClient, User } from '@prisma/client';
+
+import { MailService, SignInDetails } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import { AuthError } from '../../types/auth.types';
+
+/**
+ * Emailed one-time codes confirming sign-ins the risk checks flagged.
+ * The client holds an opaque token for the pending sign-in; the code proves access to the inbox.
+ */
+export class LoginVerificationService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * Email a new code and return the token identifying the pending sign-in.
+   * Codes issued earlier for the same user stop working. A single sign-on passes the
+   * organization its session starts in.
+   */
+  async issue(
+    user: Pick<User, 'id' | 'email' | 'name'>,
+    signIn: SignInDetails,
+    organizationId?: string
+  ): Promise<string> {
+    const token = generateSecureToken();
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+    await this.prisma.loginVerification.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    await this.prisma.loginVerification.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        codeHash: hashToken(code),
+        organizationId: organizationId ?? null,
+        expiresAt: new Date(Date.now() + authConfig.risk.verificationCodeTtlMs),
+      },
+    });
+
+    await this.mailService.sendLoginVerificationCode(
+      user.email,
+      code,
+      Math.round(authConfig.risk.verificationCodeTtlMs / 60000),
+      signIn,
+      user.name
+    );
+
+    logger.info('Sign-in verification code sent', { userId: user.id });
+
+    return token;
+  }
+
+  /**
+   * Check a code against the pending sign-in and consume it. Returns the user it belongs to
+   * and, for a single sign-on, the organization to start the session in.
+   */
+  async verify(token: string, code: string): Promise<{ userId: string; organizationId: string | null }> {
+    const record = await this.prisma.loginVerification.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (
+      !record ||
+      record.usedAt ||
+      record.expiresAt < new Date() ||
+      record.attempts >= authConfig.risk.maxVerificationAttempts
+    ) {
+      throw new AuthError('INVALID_VERIFICATION_TOKEN', 'Sign-in verification is invalid or has expired');
+    }
+
+    const expected = Buffer.from(record.codeHash, 'hex');
+    const actual = Buffer.from(hashToken(code.trim()), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      await this.prisma.loginVerification.update({
+        where: { id: record.id },
+        data: { attempts: { increment: 1 } },
+      });
+      throw new AuthError('INVALID_VERIFICATION_CODE', 'Invalid verification code');
+    }
+
+    // Guard against concurrent use of the same code
+    const consumed = await this.prisma.loginVerification.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new AuthError('INVALID_VERIFICATION_TOKEN', 'Sign-in verification is invalid or has expired');
+    }
+
+    return { userId: record.userId, organizationId: record.organizationId };
+  }
+}
@@ -0,0 +1,95 @@
+import { PrismaClient, User } from '@prisma/client';
+
+import { MailService } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import { AuthError } from '../../types/auth.types';
+
+/**
+ * Emailed sign-in links. Each link is paired with a secret kept by the browser that asked for it,
+ * so a link forwarded or intercepted on its way to the inbox does not sign anyone else in.
+ */
+export class MagicLinkService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * Secret for the requesting browser. Issued whether or not a link is sent,
+   * so the response does not reveal whether the account exists.
+   */
+  createBrowserToken(): string {
+    return generateSecureToken();
+  }
+
+  /**
+   * Email a sign-in link usable only alongside the browser token.
+   * Links issued earlier for the same user stop working.
+   */
+  async issue(user: Pick<User, 'id' | 'email' | 'name'>, browserToken: string): Promise<void> {
+    const token = generateSecureToken();
+
+    await this.prisma.magicLinkToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    await this.prisma.magicLinkToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        browserHash: hashToken(browserToken),
+        expiresAt: new Date(Date.now() + authConfig.magicLink.tokenTtlMs),
+      },
+    });
+
+    // Don't await delivery so response timing does not reveal whether the account exists
+    this.mailService
+      .sendMagicLink(user.email, token, Math.round(authConfig.magicLink.tokenTtlMs / 60000), user.name)
+      .catch(error => {
+        logger.error('Failed to send sign-in link email', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+
+    logger.info('Sign-in link sent', { userId: user.id });
+  }
+
+  /**
+   * Check a link against the browser presenting it and consume it. Returns the user it belongs to.
+   */
+  async consume(token: string, browserToken: string | undefined): Promise<string> {
+    const record = await this.prisma.magicLinkToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!record || record.usedAt || record.expiresAt < new Date()) {
+      throw new AuthError('INVALID_MAGIC_LINK', 'Sign-in link is invalid or has expired');
+    }
+
+    // Left unconsumed so the user can still open it in the right browser
+    if (!browserToken || hashToken(browserToken) !== record.browserHash) {
+      throw new AuthError(
+        'MAGIC_LINK_BROWSER_MISMATCH',
+        'Open the sign-in link in the same browser you requested it from'
+      );
+    }
+
+    // Guard against concurrent use of the same link
+    const consumed = await this.prisma.magicLinkToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new AuthError('INVALID_MAGIC_LINK', 'Sign-in link is invalid or has expired');
+    }
+
+    return record.userId;
+  }
+}
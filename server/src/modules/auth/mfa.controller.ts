@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import { MfaService } from './mfa.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class MfaController {
+  private mfaService: MfaService;
+
+  constructor(mfaService: MfaService) {
+    this.mfaService = mfaService;
+  }
+
+  /**
+   * Get two-factor status
+   */
+  async getStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const status = await this.mfaService.getStatus(userId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start TOTP enrollment
+   */
+  async setupTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const setup = await this.mfaService.beginTotpSetup(userId);
+
+      res.status(200).json({
+        success: true,
+        data: setup,
+      });
+
+      logger.info('TOTP setup started', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm TOTP enrollment
+   */
+  async enableTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const recoveryCodes = await this.mfaService.enableTotp(userId, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: { recoveryCodes },
+      });
+
+      logger.info('TOTP enabled', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Disable TOTP
+   */
+  async disableTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { code, recoveryCode } = req.body;
+
+      await this.mfaService.disableTotp(userId, { code, recoveryCode });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+
+      logger.info('TOTP disabled', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Regenerate recovery codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(userId, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        data: { recoveryCodes },
+      });
+
+      logger.info('Recovery codes regenerated', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
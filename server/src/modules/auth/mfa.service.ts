@@ -0,0 +1,236 @@
+import { PrismaClient, User } from '@prisma/client';
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { hashToken } from '../../utils/tokens';
+import { encryptSecret, decryptSecret } from '../../utils/encryption';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../../utils/totp';
+import { AuthError, SecondFactorInput, TotpSetupResponse } from '../../types/auth.types';
+
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export class MfaService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Get two-factor status for a user
+   */
+  async getStatus(userId: string): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> {
+    const user = await this.findUser(userId);
+    const recoveryCodesRemaining = user.mfaEnabled
+      ? await this.prisma.mfaRecoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return { enabled: user.mfaEnabled, recoveryCodesRemaining };
+  }
+
+  /**
+   * Start TOTP enrollment. The secret stays pending until confirmed with a valid code.
+   */
+  async beginTotpSetup(userId: string): Promise<TotpSetupResponse> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new AuthError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUri = buildOtpAuthUri(secret, user.email, authConfig.mfa.issuer);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { mfaPendingSecret: encryptSecret(secret) },
+    });
+
+    logger.info('TOTP setup started', { userId });
+    auditLog('mfa_setup_started', userId);
+
+    return { secret, otpauthUri, qrCodeDataUrl };
+  }
+
+  /**
+   * Confirm TOTP enrollment and issue the initial recovery codes
+   */
+  async enableTotp(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.mfaEnabled) {
+      throw new AuthError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+    }
+
+    if (!user.mfaPendingSecret) {
+      throw new AuthError('MFA_SETUP_NOT_STARTED', 'Two-factor setup has not been started');
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaPendingSecret), code);
+    if (step === null) {
+      throw new AuthError('INVALID_MFA_CODE', 'Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: true,
+          mfaSecret: user.mfaPendingSecret,
+          mfaPendingSecret: null,
+          mfaLastUsedStep: step,
+        },
+      });
+
+      await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+      await tx.mfaRecoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) })),
+      });
+    });
+
+    logger.info('TOTP enabled', { userId });
+    auditLog('mfa_enabled', userId, undefined, undefined, { method: 'totp' });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off two-factor authentication. Requires a current second factor; the route also
+   * requires a recent sign-in, so accounts without a password can do this too.
+   */
+  async disableTotp(userId: string, secondFactor: SecondFactorInput): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new AuthError('MFA_NOT_ENABLED', 'Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifySecondFactor(user, secondFactor))) {
+      throw new AuthError('INVALID_MFA_CODE', 'Invalid authentication code');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaPendingSecret: null,
+          mfaLastUsedStep: null,
+        },
+      }),
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    logger.info('TOTP disabled', { userId });
+    auditLog('mfa_disabled', userId);
+  }
+
+  /**
+   * Replace all recovery codes. Requires a current authenticator code.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (!user.mfaEnabled) {
+      throw new AuthError('MFA_NOT_ENABLED', 'Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifySecondFactor(user, { code }))) {
+      throw new AuthError('INVALID_MFA_CODE', 'Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: recoveryCodes.map(recoveryCode => ({ userId, codeHash: this.hashRecoveryCode(recoveryCode) })),
+      }),
+    ]);
+
+    logger.info('Recovery codes regenerated', { userId });
+    auditLog('mfa_recovery_codes_regenerated', userId);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check an authenticator code or a one-time recovery code.
+   * Authenticator codes cannot be replayed and recovery codes are consumed on use.
+   */
+  async verifySecondFactor(user: User, input: SecondFactorInput): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    if (input.code) {
+      const step = verifyTotp(decryptSecret(user.mfaSecret), input.code);
+      if (step === null) {
+        return false;
+      }
+
+      // Only accept a time step newer than the last one used
+      const accepted = await this.prisma.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+        },
+        data: { mfaLastUsedStep: step },
+      });
+
+      return accepted.count > 0;
+    }
+
+    if (input.recoveryCode) {
+      const consumed = await this.prisma.mfaRecoveryCode.updateMany({
+        where: {
+          userId: user.id,
+          codeHash: this.hashRecoveryCode(input.recoveryCode),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+
+      if (consumed.count > 0) {
+        auditLog('mfa_recovery_code_used', user.id);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Private helper methods
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    return user;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: authConfig.mfa.recoveryCodeCount }, () => {
+      const characters = Array.from(
+        { length: 10 },
+        () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+      ).join('');
+      return `${characters.slice(0, 5)}-${characters.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.toLowerCase().replace(/[\s-]/g, ''));
+  }
+}
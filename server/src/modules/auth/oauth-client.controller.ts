@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { OAuthClientService } from './oauth-client.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class OAuthClientController {
+  private oauthClientService: OAuthClientService;
+
+  constructor(oauthClientService: OAuthClientService) {
+    this.oauthClientService = oauthClientService;
+  }
+
+  /**
+   * List the apps registered with the OpenID Connect provider
+   */
+  async listClients(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const clients = await this.oauthClientService.listClients();
+
+      res.status(200).json({
+        success: true,
+        data: { clients },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Register an app. The client secret is only ever returned in this response.
+   */
+  async createClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.oauthClientService.createClient(req.body, this.actorId(req));
+
+      res.status(201).json({
+        success: true,
+        message: 'OAuth client registered',
+        data: result,
+      });
+
+      logger.info('OAuth client registered', {
+        requestId: req.id,
+        actorId: this.actorId(req),
+        clientId: result.client.clientId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update an app's registration
+   */
+  async updateClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const client = await this.oauthClientService.updateClient(
+        req.params.clientId as string,
+        req.body,
+        this.actorId(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'OAuth client updated',
+        data: { client },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Issue a new client secret, invalidating the old one
+   */
+  async rotateSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.oauthClientService.rotateSecret(req.params.clientId as string, this.actorId(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Client secret rotated',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an app; users signed in to it lose access
+   */
+  async deleteClient(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { clientId } = req.params;
+      await this.oauthClientService.deleteClient(clientId as string, this.actorId(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'OAuth client deleted',
+      });
+
+      logger.info('OAuth client deleted', { requestId: req.id, actorId: this.actorId(req), clientId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private actorId(req: Request): string | undefined {
+    return (req as AuthenticatedRequest).user?.userId;
+  }
+}
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { OAuthClient, PrismaClient } from '@prisma/client';
+
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hmacToken } from '../../utils/tokens';
+import { AuthError, CreatedOAuthClient, OAuthClientSummary, OAuthError } from '../../types/auth.types';
+
+/**
+ * Scopes with a meaning to the OpenID Connect provider. Clients may also be allowed their own
+ * API scopes, which are passed through in access tokens for other services to enforce.
+ */
+export const OIDC_SCOPES = {
+  OPENID: 'openid',
+  PROFILE: 'profile',
+  EMAIL: 'email',
+} as const;
+
+export const OAUTH_GRANT_TYPES = ['authorization_code', 'refresh_token', 'client_credentials'] as const;
+
+export type OAuthGrantType = (typeof OAUTH_GRANT_TYPES)[number];
+
+export interface CreateOAuthClientInput {
+  name: string;
+  confidential: boolean;
+  redirectUris: string[];
+  scopes: string[];
+  grantTypes: OAuthGrantType[];
+}
+
+export type UpdateOAuthClientInput = Partial<Omit<CreateOAuthClientInput, 'confidential'>>;
+
+export class OAuthClientService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Registered clients, newest first
+   */
+  async listClients(): Promise<OAuthClientSummary[]> {
+    const clients = await this.prisma.oAuthClient.findMany({ orderBy: { createdAt: 'desc' } });
+    return clients.map(client => this.toSummary(client));
+  }
+
+  /**
+   * Register a client. A confidential client's secret is returned here and never again.
+   */
+  async createClient(input: CreateOAuthClientInput, actorId?: string): Promise<CreatedOAuthClient> {
+    this.assertValidConfiguration(input.grantTypes, input.redirectUris, input.confidential);
+
+    const clientSecret = input.confidential ? generateSecureToken() : null;
+
+    const client = await this.prisma.oAuthClient.create({
+      data: {
+        clientId: crypto.randomBytes(16).toString('hex'),
+        clientSecretHash: clientSecret ? this.hashSecret(clientSecret) : null,
+        name: input.name,
+        redirectUris: [...new Set(input.redirectUris)].join(','),
+        scopes: [...new Set(input.scopes)].join(','),
+        grantTypes: [...new Set(input.grantTypes)].join(','),
+        createdById: actorId ?? null,
+      },
+    });
+
+    logger.info('OAuth client registered', { clientId: client.clientId, actorId });
+    auditLog('oauth_client_created', actorId, undefined, undefined, {
+      clientId: client.clientId,
+      name: client.name,
+      grantTypes: input.grantTypes,
+    });
+
+    return { client: this.toSummary(client), clientSecret };
+  }
+
+  /**
+   * Change a client's name, redirect URIs, scopes or grant types
+   */
+  async updateClient(clientId: string, input: UpdateOAuthClientInput, actorId?: string): Promise<OAuthClientSummary> {
+    const existing = await this.getClient(clientId);
+
+    const grantTypes = input.grantTypes ?? (this.parseList(existing.grantTypes) as OAuthGrantType[]);
+    const redirectUris = input.redirectUris ?? this.parseList(existing.redirectUris);
+    this.assertValidConfiguration(grantTypes, redirectUris, existing.clientSecretHash !== null);
+
+    const client = await this.prisma.oAuthClient.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.redirectUris && { redirectUris: [...new Set(input.redirectUris)].join(',') }),
+        ...(input.scopes && { scopes: [...new Set(input.scopes)].join(',') }),
+        ...(input.grantTypes && { grantTypes: [...new Set(input.grantTypes)].join(',') }),
+      },
+    });
+
+    logger.info('OAuth client updated', { clientId, actorId });
+    auditLog('oauth_client_updated', actorId, undefined, undefined, { clientId });
+
+    return this.toSummary(client);
+  }
+
+  /**
+   * Replace a confidential client's secret; the old one stops working immediately
+   */
+  async rotateSecret(clientId: string, actorId?: string): Promise<CreatedOAuthClient> {
+    const existing = await this.getClient(clientId);
+    if (existing.clientSecretHash === null) {
+      throw new AuthError('PUBLIC_CLIENT', 'Public clients do not have a secret');
+    }
+
+    const clientSecret = generateSecureToken();
+    const client = await this.prisma.oAuthClient.update({
+      where: { id: existing.id },
+      data: { clientSecretHash: this.hashSecret(clientSecret) },
+    });
+
+    logger.info('OAuth client secret rotated', { clientId, actorId });
+    auditLog('oauth_client_secret_rotated', actorId, undefined, undefined, { clientId });
+
+    return { client: this.toSummary(client), clientSecret };
+  }
+
+  /**
+   * Delete a client together with its consents and the refresh tokens issued to it
+   */
+  async deleteClient(clientId: string, actorId?: string): Promise<void> {
+    const result = await this.prisma.oAuthClient.deleteMany({ where: { clientId } });
+    if (result.count === 0) {
+      throw new AuthError('OAUTH_CLIENT_NOT_FOUND', 'OAuth client not found');
+    }
+
+    logger.info('OAuth client deleted', { clientId, actorId });
+    auditLog('oauth_client_deleted', actorId, undefined, undefined, { clientId });
+  }
+
+  /**
+   * Look up a client by its public identifier
+   */
+  async findClient(clientId: string): Promise<OAuthClient | null> {
+    return this.prisma.oAuthClient.findUnique({ where: { clientId } });
+  }
+
+  /**
+   * Identify the client calling the token endpoint. Confidential clients must present their
+   * secret; public clients are identified by client_id alone and rely on PKCE instead.
+   */
+  async authenticateClient(clientId: string, clientSecret?: string): Promise<OAuthClient> {
+    const client = await this.findClient(clientId);
+
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    if (client.clientSecretHash !== null) {
+      const presented = Buffer.from(this.hashSecret(clientSecret ?? ''));
+      const expected = Buffer.from(client.clientSecretHash);
+      if (!clientSecret || !crypto.timingSafeEqual(presented, expected)) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+    }
+
+    return client;
+  }
+
+  // Private helper methods
+
+  private async getClient(clientId: string): Promise<OAuthClient> {
+    const client = await this.findClient(clientId);
+    if (!client) {
+      throw new AuthError('OAUTH_CLIENT_NOT_FOUND', 'OAuth client not found');
+    }
+    return client;
+  }
+
+  private assertValidConfiguration(grantTypes: OAuthGrantType[], redirectUris: string[], confidential: boolean): void {
+    if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+      throw new AuthError('INVALID_CLIENT_CONFIG', 'Clients using authorization_code need at least one redirect URI');
+    }
+
+    if (grantTypes.includes('refresh_token') && !grantTypes.includes('authorization_code')) {
+      throw new AuthError('INVALID_CLIENT_CONFIG', 'refresh_token requires the authorization_code grant');
+    }
+
+    // A public client cannot keep a secret, so it has no way to prove it is itself without a user
+    if (grantTypes.includes('client_credentials') && !confidential) {
+      throw new AuthError('INVALID_CLIENT_CONFIG', 'client_credentials is only available to confidential clients');
+    }
+  }
+
+  private hashSecret(secret: string): string {
+    return hmacToken(secret, authConfig.security.refreshTokenSecret);
+  }
+
+  private parseList(value: string): string[] {
+    return value ? value.split(',') : [];
+  }
+
+  private toSummary(client: OAuthClient): OAuthClientSummary {
+    return {
+      id: client.id,
+      clientId: client.clientId,
+      name: client.name,
+      confidential: client.clientSecretHash !== null,
+      redirectUris: this.parseList(client.redirectUris),
+      scopes: this.parseList(client.scopes),
+      grantTypes: this.parseList(client.grantTypes),
+      createdAt: client.createdAt,
+      updatedAt: client.updatedAt,
+    };
+  }
+}
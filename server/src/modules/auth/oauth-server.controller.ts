@@ -0,0 +1,241 @@
+import { Request, Response, NextFunction } from 'express';
+import { OAuthServerService, OAuthAuthorizationRequest, OAuthClientCredentials } from './oauth-server.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest, OAuthError } from '../../types/auth.types';
+
+export class OAuthServerController {
+  private oauthServerService: OAuthServerService;
+
+  constructor(oauthServerService: OAuthServerService) {
+    this.oauthServerService = oauthServerService;
+  }
+
+  /**
+   * OpenID Connect discovery metadata
+   */
+  async discovery(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!this.oauthServerService.isEnabled) {
+        res.status(404).json({ error: 'Not found' });
+        return;
+      }
+
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.status(200).json(this.oauthServerService.getDiscoveryDocument());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Token endpoint. Clients authenticate with HTTP Basic or client_id/client_secret in the form body.
+   */
+  async token(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const credentials = this.clientCredentials(req);
+      if (!credentials) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+
+      const body = req.body ?? {};
+      const tokens = await this.oauthServerService.exchangeToken(credentials, {
+        grantType: this.stringParam(body.grant_type) ?? '',
+        code: this.stringParam(body.code),
+        redirectUri: this.stringParam(body.redirect_uri),
+        codeVerifier: this.stringParam(body.code_verifier),
+        refreshToken: this.stringParam(body.refresh_token),
+        scope: this.stringParam(body.scope),
+      });
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Pragma', 'no-cache');
+      res.status(200).json(tokens);
+    } catch (error) {
+      this.sendOAuthError(req, res, next, error);
+    }
+  }
+
+  /**
+   * Claims about the user the bearer token was issued for
+   */
+  async userInfo(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authHeader = req.headers.authorization;
+      const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : undefined;
+      if (!accessToken) {
+        throw new OAuthError('invalid_token', 'Access token is required', 401);
+      }
+
+      const claims = await this.oauthServerService.getUserInfo(accessToken);
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).json(claims);
+    } catch (error) {
+      this.sendOAuthError(req, res, next, error);
+    }
+  }
+
+  /**
+   * Validate an authorization request and describe it for the consent screen
+   */
+  async getAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const result = await this.oauthServerService.prepareAuthorization(userId, this.authorizationRequest(req.query));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve or deny an authorization request; returns where to send the browser next
+   */
+  async completeAuthorization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const result = await this.oauthServerService.completeAuthorization(
+        userId,
+        this.authorizationRequest(req.body),
+        req.body.approved
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+
+      logger.info('OAuth authorization answered', {
+        requestId: req.id,
+        userId,
+        clientId: req.body.client_id,
+        approved: req.body.approved,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the apps the signed-in user has let access their account
+   */
+  async listConsents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const consents = await this.oauthServerService.listConsents(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { consents },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw an app's access to the signed-in user's account
+   */
+  async revokeConsent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      await this.oauthServerService.revokeConsent(userId, req.params.clientId!);
+
+      res.status(200).json({
+        success: true,
+        message: 'App access revoked',
+      });
+
+      logger.info('OAuth consent revoked', { requestId: req.id, userId, clientId: req.params.clientId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private authorizationRequest(params: Record<string, unknown>): OAuthAuthorizationRequest {
+    return {
+      clientId: this.stringParam(params.client_id) ?? '',
+      redirectUri: this.stringParam(params.redirect_uri) ?? '',
+      responseType: this.stringParam(params.response_type) ?? '',
+      scope: this.stringParam(params.scope) ?? '',
+      state: this.stringParam(params.state),
+      nonce: this.stringParam(params.nonce),
+      codeChallenge: this.stringParam(params.code_challenge),
+      codeChallengeMethod: this.stringParam(params.code_challenge_method),
+    };
+  }
+
+  private clientCredentials(req: Request): OAuthClientCredentials | null {
+    const authHeader = req.headers.authorization;
+
+    if (authHeader?.startsWith('Basic ')) {
+      const decoded = Buffer.from(authHeader.slice('Basic '.length), 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator === -1) {
+        return null;
+      }
+      // Both halves are form-encoded before being joined (RFC 6749 section 2.3.1)
+      try {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, separator)),
+          clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        };
+      } catch {
+        return null;
+      }
+    }
+
+    const clientId = this.stringParam(req.body?.client_id);
+    return clientId ? { clientId, clientSecret: this.stringParam(req.body?.client_secret) } : null;
+  }
+
+  private stringParam(value: unknown): string | undefined {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  private sendOAuthError(req: Request, res: Response, next: NextFunction, error: unknown): void {
+    if (!(error instanceof OAuthError)) {
+      next(error);
+      return;
+    }
+
+    if (error.statusCode === 401) {
+      const scheme = error.error === 'invalid_client' ? 'Basic' : 'Bearer';
+      res.setHeader('WWW-Authenticate', `${scheme} error="${error.error}"`);
+    }
+
+    logger.warn('OAuth request rejected', { requestId: req.id, path: req.path, error: error.error });
+    res.status(error.statusCode).json({ error: error.error, error_description: error.message });
+  }
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,578 @@
+import crypto from 'crypto';
+import { OAuthClient, PrismaClient, Session, User } from '@prisma/client';
+
+import { OAuthClientService, OIDC_SCOPES, OAuthGrantType } from './oauth-client.service';
+import { SessionRepository } from './session.repository';
+import { JwtKeyring, durationToMs, getJwtKeyring } from './jwt-keyring';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import {
+  AuthError,
+  OAuthAuthorizationPrompt,
+  OAuthAuthorizationRedirect,
+  OAuthConsentSummary,
+  OAuthError,
+  OAuthTokenResponse,
+} from '../../types/auth.types';
+
+/** Parameters of a request to the authorization endpoint */
+export interface OAuthAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  responseType: string;
+  scope: string;
+  state?: string | undefined;
+  nonce?: string | undefined;
+  codeChallenge?: string | undefined;
+  codeChallengeMethod?: string | undefined;
+}
+
+/** Parameters of a request to the token endpoint, as sent by the client */
+export interface OAuthTokenRequest {
+  grantType: string;
+  code?: string | undefined;
+  redirectUri?: string | undefined;
+  codeVerifier?: string | undefined;
+  refreshToken?: string | undefined;
+  scope?: string | undefined;
+}
+
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret?: string | undefined;
+}
+
+// Identity scopes describe a user, so they make no sense for client_credentials tokens
+const IDENTITY_SCOPES: string[] = Object.values(OIDC_SCOPES);
+
+interface ResolvedAuthorizationRequest {
+  client: OAuthClient;
+  scopes: string[];
+}
+
+/**
+ * OpenID Connect provider that lets other apps sign users in with their SmartTask account.
+ * Authorization codes are redeemed for access tokens, ID tokens signed with the JWT keyring and,
+ * where the client is allowed them, refresh tokens backed by the same rotating sessions as this app.
+ */
+export class OAuthServerService {
+  private prisma: PrismaClient;
+  private keyring: JwtKeyring;
+  private clientService: OAuthClientService;
+  private sessionRepository: SessionRepository;
+
+  constructor(prisma: PrismaClient, keyring: JwtKeyring = getJwtKeyring()) {
+    this.prisma = prisma;
+    this.keyring = keyring;
+    this.clientService = new OAuthClientService(prisma);
+    this.sessionRepository = new SessionRepository(prisma);
+  }
+
+  get issuer(): string {
+    return authConfig.oauth.issuer;
+  }
+
+  /**
+   * ID tokens must be verifiable with the published keys, which the shared-secret algorithms have none of
+   */
+  get isEnabled(): boolean {
+    return this.keyring.isAsymmetric;
+  }
+
+  /**
+   * OpenID Connect discovery metadata
+   */
+  getDiscoveryDocument(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      // A page of the client app, which shows the consent screen
+      authorization_endpoint: `${this.issuer}/oauth/authorize`,
+      token_endpoint: `${this.issuer}/oauth/token`,
+      userinfo_endpoint: `${this.issuer}/oauth/userinfo`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      scopes_supported: IDENTITY_SCOPES,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [this.keyring.algorithm],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'nonce', 'email', 'email_verified', 'name'],
+      authorization_response_iss_parameter_supported: true,
+    };
+  }
+
+  /**
+   * Check an authorization request for the consent screen. Problems with the client or redirect URI
+   * are shown to the user; anything else is reported back to the client through the redirect.
+   */
+  async prepareAuthorization(
+    userId: string,
+    request: OAuthAuthorizationRequest
+  ): Promise<OAuthAuthorizationPrompt | OAuthAuthorizationRedirect> {
+    const resolved = await this.resolveAuthorizationRequest(request);
+    if ('redirectUrl' in resolved) {
+      return resolved;
+    }
+
+    const { client, scopes } = resolved;
+    const consent = await this.prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId: client.id } },
+    });
+    const consented = this.parseList(consent?.scopes ?? null);
+
+    return {
+      client: { clientId: client.clientId, name: client.name },
+      scopes,
+      consentRequired: !scopes.every(scope => consented.includes(scope)),
+    };
+  }
+
+  /**
+   * Record the user's answer on the consent screen and send them back to the client with a code
+   */
+  async completeAuthorization(
+    userId: string,
+    request: OAuthAuthorizationRequest,
+    approved: boolean
+  ): Promise<OAuthAuthorizationRedirect> {
+    const resolved = await this.resolveAuthorizationRequest(request);
+    if ('redirectUrl' in resolved) {
+      return resolved;
+    }
+
+    const { client, scopes } = resolved;
+
+    if (!approved) {
+      auditLog('oauth_consent_denied', userId, undefined, undefined, { clientId: client.clientId });
+      return this.errorRedirect(request, 'access_denied', 'The user declined to sign in');
+    }
+
+    // Remember every scope agreed to so far, so the user is only asked about new ones
+    const consent = await this.prisma.oAuthConsent.findUnique({
+      where: { userId_clientId: { userId, clientId: client.id } },
+    });
+    const consented = [...new Set([...this.parseList(consent?.scopes ?? null), ...scopes])].join(',');
+    await this.prisma.oAuthConsent.upsert({
+      where: { userId_clientId: { userId, clientId: client.id } },
+      create: { userId, clientId: client.id, scopes: consented },
+      update: { scopes: consented },
+    });
+
+    // Unredeemed codes are cleared as new ones are issued
+    await this.prisma.oAuthAuthorizationCode.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    const code = generateSecureToken();
+    await this.prisma.oAuthAuthorizationCode.create({
+      data: {
+        codeHash: hashToken(code),
+        clientId: client.id,
+        userId,
+        redirectUri: request.redirectUri,
+        scopes: scopes.join(','),
+        nonce: request.nonce ?? null,
+        codeChallenge: request.codeChallenge ?? null,
+        expiresAt: new Date(Date.now() + authConfig.oauth.authorizationCodeTtlMs),
+      },
+    });
+
+    logger.info('OAuth authorization granted', { userId, clientId: client.clientId });
+    auditLog('oauth_authorization_granted', userId, undefined, undefined, {
+      clientId: client.clientId,
+      scopes,
+    });
+
+    return this.redirect(request, { code });
+  }
+
+  /**
+   * Token endpoint: redeem an authorization code or refresh token, or issue a token to the client itself
+   */
+  async exchangeToken(credentials: OAuthClientCredentials, request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    this.assertEnabled();
+
+    const client = await this.clientService.authenticateClient(credentials.clientId, credentials.clientSecret);
+
+    if (!(['authorization_code', 'refresh_token', 'client_credentials'] as string[]).includes(request.grantType)) {
+      throw new OAuthError('unsupported_grant_type', `Grant type ${request.grantType} is not supported`);
+    }
+
+    if (!this.parseList(client.grantTypes).includes(request.grantType)) {
+      throw new OAuthError('unauthorized_client', `This client may not use the ${request.grantType} grant`);
+    }
+
+    switch (request.grantType as OAuthGrantType) {
+      case 'authorization_code':
+        return this.redeemAuthorizationCode(client, request);
+      case 'refresh_token':
+        return this.redeemRefreshToken(client, request);
+      case 'client_credentials':
+        return this.issueClientToken(client, request);
+    }
+  }
+
+  /**
+   * Claims about the user an access token was issued for, limited to the scopes it carries
+   */
+  async getUserInfo(accessToken: string): Promise<Record<string, unknown>> {
+    this.assertEnabled();
+
+    let payload;
+    try {
+      payload = await this.keyring.verify(accessToken, { issuer: this.issuer, audience: this.issuer });
+    } catch {
+      throw new OAuthError('invalid_token', 'Access token is invalid or has expired', 401);
+    }
+
+    const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ') : [];
+    if (payload.type !== 'oauth_access' || !payload.sub) {
+      throw new OAuthError('invalid_token', 'Access token is invalid or has expired', 401);
+    }
+    if (!scopes.includes(OIDC_SCOPES.OPENID)) {
+      throw new OAuthError('insufficient_scope', 'The access token was not granted the openid scope', 403);
+    }
+
+    // Signing out of the client's session, or the user revoking its access, ends userinfo access too
+    if (typeof payload.sid === 'string') {
+      const session = await this.sessionRepository.findById(payload.sid);
+      if (!session || session.isRevoked) {
+        throw new OAuthError('invalid_token', 'Access token has been revoked', 401);
+      }
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: payload.sub } });
+    if (!user || !this.canSignIn(user)) {
+      throw new OAuthError('invalid_token', 'Access token is invalid or has expired', 401);
+    }
+
+    return { sub: user.id, ...this.identityClaims(user, scopes) };
+  }
+
+  /**
+   * Apps the user has let access their account
+   */
+  async listConsents(userId: string): Promise<OAuthConsentSummary[]> {
+    const consents = await this.prisma.oAuthConsent.findMany({
+      where: { userId },
+      include: { client: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return consents.map(consent => ({
+      clientId: consent.client.clientId,
+      name: consent.client.name,
+      scopes: this.parseList(consent.scopes),
+      createdAt: consent.createdAt,
+      updatedAt: consent.updatedAt,
+    }));
+  }
+
+  /**
+   * Withdraw an app's access: forget the consent and revoke the refresh tokens it holds for the user
+   */
+  async revokeConsent(userId: string, clientId: string): Promise<void> {
+    const client = await this.clientService.findClient(clientId);
+    const deleted = client
+      ? await this.prisma.oAuthConsent.deleteMany({ where: { userId, clientId: client.id } })
+      : { count: 0 };
+
+    if (!client || deleted.count === 0) {
+      throw new AuthError('OAUTH_CONSENT_NOT_FOUND', 'This app does not have access to your account');
+    }
+
+    const revoked = await this.prisma.session.updateMany({
+      where: { userId, oauthClientId: client.id, isRevoked: false },
+      data: { isRevoked: true },
+    });
+
+    logger.info('OAuth consent revoked', { userId, clientId, sessionCount: revoked.count });
+    auditLog('oauth_consent_revoked', userId, undefined, undefined, { clientId, sessionCount: revoked.count });
+  }
+
+  // Private helper methods
+
+  private async resolveAuthorizationRequest(
+    request: OAuthAuthorizationRequest
+  ): Promise<ResolvedAuthorizationRequest | OAuthAuthorizationRedirect> {
+    if (!this.isEnabled) {
+      throw new AuthError('OAUTH_UNAVAILABLE', 'Signing in to other apps is not enabled on this server');
+    }
+
+    const client = await this.clientService.findClient(request.clientId);
+    if (!client || !this.parseList(client.grantTypes).includes('authorization_code')) {
+      throw new AuthError('INVALID_OAUTH_CLIENT', 'The app you are signing in to is not registered');
+    }
+
+    // Until the redirect URI is known to belong to the client, nothing may be sent to it
+    if (!this.parseList(client.redirectUris).includes(request.redirectUri)) {
+      throw new AuthError('INVALID_REDIRECT_URI', 'The app sent you back to an address it is not registered for');
+    }
+
+    if (request.responseType !== 'code') {
+      return this.errorRedirect(request, 'unsupported_response_type', 'Only the code response type is supported');
+    }
+
+    const scopes = [...new Set(request.scope.split(' ').filter(Boolean))];
+    const allowed = this.parseList(client.scopes);
+    if (scopes.length === 0 || scopes.some(scope => !allowed.includes(scope))) {
+      return this.errorRedirect(request, 'invalid_scope', 'The requested scope is invalid or not allowed');
+    }
+
+    if (request.codeChallenge && request.codeChallengeMethod !== 'S256') {
+      return this.errorRedirect(request, 'invalid_request', 'code_challenge_method must be S256');
+    }
+
+    // Public clients have no secret, so PKCE is what stops an intercepted code being redeemed
+    if (!request.codeChallenge && client.clientSecretHash === null) {
+      return this.errorRedirect(request, 'invalid_request', 'PKCE is required for public clients');
+    }
+
+    return { client, scopes };
+  }
+
+  private async redeemAuthorizationCode(client: OAuthClient, request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    if (!request.code || !request.redirectUri) {
+      throw new OAuthError('invalid_request', 'code and redirect_uri are required');
+    }
+
+    const record = await this.prisma.oAuthAuthorizationCode.findUnique({
+      where: { codeHash: hashToken(request.code) },
+      include: { user: true },
+    });
+
+    if (!record || record.clientId !== client.id) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or has expired');
+    }
+
+    // A code presented twice was intercepted; whatever it was redeemed for can no longer be trusted
+    if (record.usedAt) {
+      const session = record.sessionId ? await this.sessionRepository.findById(record.sessionId) : null;
+      if (session) {
+        await this.sessionRepository.revokeSessionFamily(session);
+      }
+      auditLog('oauth_code_reuse_detected', record.userId, undefined, undefined, {
+        clientId: client.clientId,
+        sessionId: record.sessionId,
+      });
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or has expired');
+    }
+
+    if (record.expiresAt < new Date() || record.redirectUri !== request.redirectUri) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or has expired');
+    }
+
+    if (record.codeChallenge) {
+      const challenge = crypto.createHash('sha256').update(request.codeVerifier ?? '').digest('base64url');
+      if (!request.codeVerifier || challenge !== record.codeChallenge) {
+        throw new OAuthError('invalid_grant', 'PKCE verification failed');
+      }
+    }
+
+    // Another request redeeming the same code first counts as a replay next time round
+    const claimed = await this.prisma.oAuthAuthorizationCode.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new OAuthError('invalid_grant', 'Authorization code is invalid or has expired');
+    }
+
+    const { user } = record;
+    if (!this.canSignIn(user)) {
+      throw new OAuthError('invalid_grant', 'User account is invalid or locked');
+    }
+
+    const scopes = this.parseList(record.scopes);
+    let session: (Session & { refreshToken: string }) | null = null;
+
+    if (this.parseList(client.grantTypes).includes('refresh_token')) {
+      session = await this.sessionRepository.createSession(
+        user.id,
+        new Date(Date.now() + authConfig.oauth.refreshTokenTtlMs),
+        undefined,
+        { oauthClientId: client.id, scopes }
+      );
+      await this.prisma.oAuthAuthorizationCode.update({
+        where: { id: record.id },
+        data: { sessionId: session.id },
+      });
+    }
+
+    logger.info('OAuth authorization code redeemed', { userId: user.id, clientId: client.clientId });
+    auditLog('oauth_token_issued', user.id, undefined, undefined, {
+      clientId: client.clientId,
+      grantType: 'authorization_code',
+      sessionId: session?.id,
+    });
+
+    return this.tokenResponse(client, scopes, user, {
+      sessionId: session?.id,
+      refreshToken: session?.refreshToken,
+      nonce: record.nonce,
+    });
+  }
+
+  private async redeemRefreshToken(client: OAuthClient, request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    if (!request.refreshToken) {
+      throw new OAuthError('invalid_request', 'refresh_token is required');
+    }
+
+    const session = await this.sessionRepository.findByRefreshToken(request.refreshToken);
+    if (!session || session.oauthClientId !== client.id) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or has expired');
+    }
+
+    // A consumed token being presented again means it was stolen or replayed
+    if (session.consumedAt) {
+      await this.sessionRepository.revokeSessionFamily(session);
+      auditLog('token_reuse_detected', session.userId, undefined, undefined, {
+        sessionId: session.id,
+        familyId: session.familyId,
+        clientId: client.clientId,
+        action: 'session_family_revoked',
+      });
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or has expired');
+    }
+
+    if (session.isRevoked || session.expiresAt < new Date()) {
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or has expired');
+    }
+
+    // Clients may ask for fewer scopes than were granted, never more
+    const granted = this.parseList(session.scopes);
+    const scopes = request.scope ? [...new Set(request.scope.split(' ').filter(Boolean))] : granted;
+    if (scopes.some(scope => !granted.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'The requested scope exceeds what was granted');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: session.userId } });
+    if (!user || !this.canSignIn(user)) {
+      await this.sessionRepository.revokeSession(session.id);
+      throw new OAuthError('invalid_grant', 'User account is invalid or locked');
+    }
+
+    const rotated = await this.sessionRepository.rotateSession(session);
+    if (!rotated) {
+      // Another request consumed this token first
+      await this.sessionRepository.revokeSessionFamily(session);
+      throw new OAuthError('invalid_grant', 'Refresh token is invalid or has expired');
+    }
+
+    auditLog('token_refreshed', user.id, undefined, undefined, {
+      clientId: client.clientId,
+      sessionId: rotated.id,
+      previousSessionId: session.id,
+    });
+
+    return this.tokenResponse(client, scopes, user, {
+      sessionId: rotated.id,
+      refreshToken: rotated.refreshToken,
+      nonce: null,
+    });
+  }
+
+  private async issueClientToken(client: OAuthClient, request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    const allowed = this.parseList(client.scopes).filter(scope => !IDENTITY_SCOPES.includes(scope));
+    const scopes = request.scope ? [...new Set(request.scope.split(' ').filter(Boolean))] : allowed;
+    if (scopes.some(scope => !allowed.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'The requested scope is invalid or not allowed');
+    }
+
+    logger.info('OAuth client token issued', { clientId: client.clientId });
+    auditLog('oauth_token_issued', undefined, undefined, undefined, {
+      clientId: client.clientId,
+      grantType: 'client_credentials',
+    });
+
+    // The client acts as itself, so there is no user, ID token or refresh token
+    return this.tokenResponse(client, scopes, null, { sessionId: undefined, refreshToken: undefined, nonce: null });
+  }
+
+  private async tokenResponse(
+    client: OAuthClient,
+    scopes: string[],
+    user: User | null,
+    issued: { sessionId: string | undefined; refreshToken: string | undefined; nonce: string | null }
+  ): Promise<OAuthTokenResponse> {
+    const accessToken = await this.keyring.sign(
+      {
+        sub: user?.id ?? client.clientId,
+        client_id: client.clientId,
+        scope: scopes.join(' '),
+        ...(issued.sessionId && { sid: issued.sessionId }),
+        type: 'oauth_access',
+      },
+      { expiresIn: authConfig.jwt.accessTokenExpiry, issuer: this.issuer, audience: this.issuer }
+    );
+
+    const response: OAuthTokenResponse = {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: Math.floor(durationToMs(authConfig.jwt.accessTokenExpiry) / 1000),
+      scope: scopes.join(' '),
+    };
+
+    if (issued.refreshToken) {
+      response.refresh_token = issued.refreshToken;
+    }
+
+    if (user && scopes.includes(OIDC_SCOPES.OPENID)) {
+      response.id_token = await this.keyring.sign(
+        {
+          sub: user.id,
+          ...(issued.nonce && { nonce: issued.nonce }),
+          ...this.identityClaims(user, scopes),
+        },
+        { expiresIn: authConfig.jwt.accessTokenExpiry, issuer: this.issuer, audience: client.clientId }
+      );
+    }
+
+    return response;
+  }
+
+  private identityClaims(user: User, scopes: string[]): Record<string, unknown> {
+    return {
+      ...(scopes.includes(OIDC_SCOPES.EMAIL) && { email: user.email, email_verified: user.emailVerified !== null }),
+      ...(scopes.includes(OIDC_SCOPES.PROFILE) && { name: user.name }),
+    };
+  }
+
+  private redirect(request: OAuthAuthorizationRequest, params: Record<string, string>): OAuthAuthorizationRedirect {
+    const url = new URL(request.redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    if (request.state) {
+      url.searchParams.set('state', request.state);
+    }
+    // Lets the client check the response came from the server it sent the user to (RFC 9207)
+    url.searchParams.set('iss', this.issuer);
+
+    return { redirectUrl: url.toString() };
+  }
+
+  private errorRedirect(
+    request: OAuthAuthorizationRequest,
+    error: string,
+    description: string
+  ): OAuthAuthorizationRedirect {
+    return this.redirect(request, { error, error_description: description });
+  }
+
+  private assertEnabled(): void {
+    if (!this.isEnabled) {
+      throw new OAuthError('temporarily_unavailable', 'The OpenID Connect provider is not enabled', 503);
+    }
+  }
+
+  private canSignIn(user: User): boolean {
+    return user.isActive && !(user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date()));
+  }
+
+  private parseList(value: string | null): string[] {
+    return value ? value.split(',') : [];
+  }
+}
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { rateLimit } from 'express-rate-limit';
+import { OAuthServerController } from './oauth-server.controller';
+import { OAuthServerService } from './oauth-server.service';
+import { authConfig } from '../../config/auth.config';
+
+/**
+ * OpenID Connect provider endpoints called by other apps. The authorization endpoint is a page of
+ * the client app; it talks to the consent routes under /api/auth/oauth.
+ */
+export function createOAuthRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const oauthServerController = new OAuthServerController(new OAuthServerService(prisma));
+
+  // Errors use the OAuth format so client libraries can read them
+  const tokenRateLimit = rateLimit({
+    windowMs: authConfig.rateLimiting.windowMs,
+    max: authConfig.rateLimiting.maxRequests,
+    message: {
+      error: 'slow_down',
+      error_description: 'Too many requests, please try again later.',
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
+  router.get(
+    '/.well-known/openid-configuration',
+    oauthServerController.discovery.bind(oauthServerController)
+  );
+
+  router.post(
+    '/oauth/token',
+    tokenRateLimit,
+    oauthServerController.token.bind(oauthServerController)
+  );
+
+  router.get('/oauth/userinfo', oauthServerController.userInfo.bind(oauthServerController));
+  router.post('/oauth/userinfo', oauthServerController.userInfo.bind(oauthServerController));
+
+  return router;
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+
+import type { OidcProviderConfig } from '../../../../tools/env-schema';
+import { logger } from '../../utils/logger';
+import { AuthError } from '../../types/auth.types';
+
+/**
+ * The parts of a provider's account we rely on
+ */
+export interface OidcProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface TokenResponse {
+  id_token?: string;
+  access_token?: string;
+}
+
+// Providers' clocks drift; a little leeway avoids rejecting fresh ID tokens
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+/**
+ * Authorization code flow with PKCE against one OpenID Connect provider.
+ * Endpoints and signing keys come from the provider's discovery document.
+ */
+export class OidcClient {
+  readonly provider: OidcProviderConfig;
+  private metadata: Promise<ProviderMetadata> | null = null;
+  private jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+  constructor(provider: OidcProviderConfig) {
+    this.provider = provider;
+  }
+
+  /**
+   * URL to send the browser to
+   */
+  async authorizationUrl(params: {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectUri: string;
+  }): Promise<string> {
+    const metadata = await this.discover();
+    const url = new URL(metadata.authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.provider.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', this.provider.scopes);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', codeChallengeFor(params.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Exchange the code the provider returned for the user's verified profile
+   */
+  async exchangeCode(params: {
+    code: string;
+    codeVerifier: string;
+    nonce: string;
+    redirectUri: string;
+  }): Promise<OidcProfile> {
+    const metadata = await this.discover();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.provider.clientId,
+      code_verifier: params.codeVerifier,
+    });
+    if (this.provider.clientSecret) {
+      body.set('client_secret', this.provider.clientSecret);
+    }
+
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    });
+
+    if (!response.ok) {
+      logger.warn('OIDC token exchange failed', { provider: this.provider.id, status: response.status });
+      throw new AuthError('OIDC_EXCHANGE_FAILED', `Sign-in with ${this.provider.name} failed. Please try again.`);
+    }
+
+    const tokens = (await response.json()) as TokenResponse;
+    if (!tokens.id_token) {
+      throw new AuthError('OIDC_EXCHANGE_FAILED', `Sign-in with ${this.provider.name} failed. Please try again.`);
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, params.nonce);
+
+    // Some providers leave the email out of the ID token and only return it from userinfo
+    const userInfo = !claims.email && tokens.access_token && metadata.userinfo_endpoint
+      ? await this.fetchUserInfo(metadata.userinfo_endpoint, tokens.access_token, claims.sub!)
+      : {};
+
+    const email = stringClaim(userInfo.email) ?? stringClaim(claims.email);
+
+    return {
+      subject: claims.sub!,
+      email: email ? email.toLowerCase() : null,
+      emailVerified: booleanClaim(userInfo.email_verified ?? claims.email_verified),
+      name: stringClaim(userInfo.name) ?? stringClaim(claims.name),
+    };
+  }
+
+  // Private helper methods
+
+  private discover(): Promise<ProviderMetadata> {
+    if (!this.metadata) {
+      this.metadata = this.fetchMetadata().catch(error => {
+        // Retry discovery on the next sign-in rather than caching the failure
+        this.metadata = null;
+        throw error;
+      });
+    }
+    return this.metadata;
+  }
+
+  private async fetchMetadata(): Promise<ProviderMetadata> {
+    const url = `${this.provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+
+    if (!response.ok) {
+      logger.error('OIDC discovery failed', { provider: this.provider.id, status: response.status });
+      throw new AuthError('OIDC_PROVIDER_UNAVAILABLE', `${this.provider.name} sign-in is unavailable right now`);
+    }
+
+    const metadata = (await response.json()) as ProviderMetadata;
+
+    // The discovery document must describe the issuer we were configured with
+    if (metadata.issuer.replace(/\/$/, '') !== this.provider.issuer.replace(/\/$/, '')) {
+      logger.error('OIDC issuer mismatch', { provider: this.provider.id, issuer: metadata.issuer });
+      throw new AuthError('OIDC_PROVIDER_UNAVAILABLE', `${this.provider.name} sign-in is unavailable right now`);
+    }
+
+    return metadata;
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string): Promise<JWTPayload> {
+    const metadata = await this.discover();
+    if (!this.jwks) {
+      this.jwks = createRemoteJWKSet(new URL(metadata.jwks_uri));
+    }
+
+    try {
+      const { payload } = await jwtVerify(idToken, this.jwks, {
+        issuer: metadata.issuer,
+        audience: this.provider.clientId,
+        clockTolerance: CLOCK_TOLERANCE_SECONDS,
+      });
+
+      if (!payload.sub || payload.nonce !== nonce) {
+        throw new Error('Missing subject or nonce mismatch');
+      }
+
+      return payload;
+    } catch (error) {
+      logger.warn('OIDC ID token rejected', {
+        provider: this.provider.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AuthError('INVALID_ID_TOKEN', `Sign-in with ${this.provider.name} could not be verified`);
+    }
+  }
+
+  private async fetchUserInfo(endpoint: string, accessToken: string, subject: string): Promise<Record<string, unknown>> {
+    const response = await fetch(endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      return {};
+    }
+
+    const userInfo = (await response.json()) as Record<string, unknown>;
+
+    // Userinfo for a different subject must be ignored (OIDC Core 5.3.2)
+    return userInfo.sub === subject ? userInfo : {};
+  }
+}
+
+/**
+ * Random PKCE code verifier (RFC 7636)
+ */
+export function generateCodeVerifier(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function codeChallengeFor(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+function stringClaim(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+// Some providers send email_verified as the string "true"
+function booleanClaim(value: unknown): boolean {
+  return value === true || value === 'true';
+}
@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from './auth.service';
+import { OidcService } from './oidc.service';
+import { logger } from '../../utils/logger';
+import { authConfig } from '../../config/auth.config';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class OidcController {
+  private authService: AuthService;
+  private oidcService: OidcService;
+
+  constructor(authService: AuthService, oidcService: OidcService) {
+    this.authService = authService;
+    this.oidcService = oidcService;
+  }
+
+  /**
+   * List the providers users can sign in with
+   */
+  async listProviders(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: { providers: this.oidcService.listProviders() },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start signing in with a provider
+   */
+  async authorize(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.oidcService.startAuthorization(req.params.provider!);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finish signing in with the code the provider sent the browser back with
+   */
+  async callback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code, state } = req.body;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.loginWithOidc(req.params.provider!, code, state, ip, userAgent);
+
+      // Provider accepted but a second factor is still required - no session yet
+      if ('mfaRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+        return;
+      }
+
+      // Provider accepted but the sign-in looked unusual - confirm it with the emailed code
+      if ('verificationRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            verificationRequired: true,
+            verificationToken: result.verificationToken,
+          },
+        });
+        return;
+      }
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User OIDC login successful', {
+        requestId: req.id,
+        provider: req.params.provider,
+        email: result.user.email,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the provider accounts linked to the signed-in user
+   */
+  async listIdentities(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const identities = await this.oidcService.listIdentities(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { identities },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start linking a provider account to the signed-in user
+   */
+  async authorizeLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const result = await this.oidcService.startAuthorization(req.params.provider!, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finish linking a provider account
+   */
+  async linkIdentity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { provider } = req.params;
+      const { code, state } = req.body;
+
+      const profile = await this.oidcService.completeAuthorization(provider!, code, state, userId);
+      const identity = await this.oidcService.linkIdentity(userId, provider!, profile);
+
+      res.status(201).json({
+        success: true,
+        message: 'Account linked',
+        data: { identity },
+      });
+
+      logger.info('Identity linked', { requestId: req.id, userId, provider });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unlink a provider account
+   */
+  async unlinkIdentity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      await this.oidcService.unlinkIdentity(userId, req.params.identityId!);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account unlinked',
+      });
+
+      logger.info('Identity unlinked', { requestId: req.id, userId, identityId: req.params.identityId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,296 @@
+import { LinkedIdentity, PrismaClient, User } from '@prisma/client';
+
+import { OidcClient, OidcProfile, generateCodeVerifier } from './oidc-client';
+import { DEFAULT_ROLE } from './rbac.service';
+import type { OidcProviderConfig } from '../../../../tools/env-schema';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import {
+  AuthError,
+  LinkedIdentitySummary,
+  OidcAuthorizationStart,
+  OidcProviderSummary,
+} from '../../types/auth.types';
+
+/**
+ * Social login through the OpenID Connect providers in OIDC_PROVIDERS,
+ * and the provider accounts linked to each user
+ */
+export class OidcService {
+  private prisma: PrismaClient;
+  private clients: Map<string, OidcClient>;
+
+  constructor(prisma: PrismaClient, providers: readonly OidcProviderConfig[] = authConfig.oidc.providers) {
+    this.prisma = prisma;
+    this.clients = new Map(providers.map(provider => [provider.id, new OidcClient(provider)]));
+  }
+
+  /**
+   * Providers offered on the sign-in page
+   */
+  listProviders(): OidcProviderSummary[] {
+    return [...this.clients.values()].map(({ provider }) => ({ id: provider.id, name: provider.name }));
+  }
+
+  /**
+   * Begin an authorization request. Pass the user id when a signed-in user is linking the provider.
+   */
+  async startAuthorization(providerId: string, userId?: string): Promise<OidcAuthorizationStart> {
+    const client = this.getClient(providerId);
+
+    const state = generateSecureToken();
+    const nonce = generateSecureToken();
+    const codeVerifier = generateCodeVerifier();
+
+    // Abandoned requests are cleared as new ones come in
+    await this.prisma.oidcAuthorization.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    await this.prisma.oidcAuthorization.create({
+      data: {
+        stateHash: hashToken(state),
+        provider: providerId,
+        nonce,
+        codeVerifier,
+        userId: userId ?? null,
+        expiresAt: new Date(Date.now() + authConfig.oidc.authorizationTtlMs),
+      },
+    });
+
+    const authorizationUrl = await client.authorizationUrl({
+      state,
+      nonce,
+      codeVerifier,
+      redirectUri: authConfig.oidc.redirectUri,
+    });
+
+    return { authorizationUrl, state };
+  }
+
+  /**
+   * Finish an authorization request with the code the provider returned.
+   * The request is consumed whether or not the exchange succeeds.
+   */
+  async completeAuthorization(providerId: string, code: string, state: string, userId?: string): Promise<OidcProfile> {
+    const client = this.getClient(providerId);
+
+    const request = await this.prisma.oidcAuthorization.findUnique({
+      where: { stateHash: hashToken(state) },
+    });
+
+    if (!request) {
+      throw new AuthError('INVALID_OIDC_STATE', 'Sign-in request is invalid or has expired. Please try again.');
+    }
+
+    // Guard against the same callback being replayed concurrently
+    const consumed = await this.prisma.oidcAuthorization.deleteMany({ where: { id: request.id } });
+
+    if (
+      consumed.count === 0 ||
+      request.provider !== providerId ||
+      request.expiresAt < new Date() ||
+      // A sign-in request cannot finish a link and vice versa, nor a link started by someone else
+      (request.userId ?? undefined) !== userId
+    ) {
+      throw new AuthError('INVALID_OIDC_STATE', 'Sign-in request is invalid or has expired. Please try again.');
+    }
+
+    return client.exchangeCode({
+      code,
+      codeVerifier: request.codeVerifier,
+      nonce: request.nonce,
+      redirectUri: authConfig.oidc.redirectUri,
+    });
+  }
+
+  /**
+   * The user a provider account signs in as. Unknown accounts get a new user, or are linked to
+   * an existing one when both the provider and our records have verified the email address.
+   */
+  async findOrCreateUser(providerId: string, profile: OidcProfile): Promise<{ user: User; created: boolean }> {
+    const identity = await this.prisma.linkedIdentity.findUnique({
+      where: { provider_subject: { provider: providerId, subject: profile.subject } },
+      include: { user: true },
+    });
+
+    if (identity) {
+      await this.prisma.linkedIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: profile.email },
+      });
+      return { user: identity.user, created: false };
+    }
+
+    if (!profile.email) {
+      throw new AuthError('OIDC_EMAIL_REQUIRED', `${this.providerName(providerId)} did not share an email address`);
+    }
+
+    const existing = await this.prisma.user.findUnique({
+      where: { email: profile.email },
+      include: { identities: { where: { provider: providerId } } },
+    });
+
+    if (existing) {
+      // Linking on an unverified address would let whoever registered it first take over the account
+      if (!profile.emailVerified || !existing.emailVerified || existing.identities.length > 0) {
+        throw new AuthError(
+          'ACCOUNT_EXISTS',
+          `An account with this email already exists. Sign in to it and link ${this.providerName(providerId)} from your security settings.`
+        );
+      }
+
+      const { identities: _identities, ...user } = existing;
+      await this.prisma.linkedIdentity.create({
+        data: {
+          userId: user.id,
+          provider: providerId,
+          subject: profile.subject,
+          email: profile.email,
+          lastUsedAt: new Date(),
+        },
+      });
+
+      logger.info('Identity linked by verified email', { userId: user.id, provider: providerId });
+      auditLog('identity_linked', user.id, undefined, undefined, { provider: providerId, automatic: true });
+
+      return { user, created: false };
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: profile.email,
+        password: null,
+        name: profile.name,
+        emailVerified: profile.emailVerified ? new Date() : null,
+        roles: {
+          create: { role: { connect: { name: DEFAULT_ROLE } } },
+        },
+        identities: {
+          create: {
+            provider: providerId,
+            subject: profile.subject,
+            email: profile.email,
+            lastUsedAt: new Date(),
+          },
+        },
+      },
+    });
+
+    logger.info('User registered with OIDC provider', { userId: user.id, provider: providerId });
+    auditLog('user_registered', user.id, undefined, undefined, { email: user.email, provider: providerId });
+
+    return { user, created: true };
+  }
+
+  /**
+   * Link a provider account to a signed-in user
+   */
+  async linkIdentity(userId: string, providerId: string, profile: OidcProfile): Promise<LinkedIdentitySummary> {
+    const owner = await this.prisma.linkedIdentity.findUnique({
+      where: { provider_subject: { provider: providerId, subject: profile.subject } },
+    });
+
+    if (owner) {
+      throw new AuthError(
+        owner.userId === userId ? 'IDENTITY_ALREADY_LINKED' : 'IDENTITY_IN_USE',
+        owner.userId === userId
+          ? 'This account is already linked'
+          : `This ${this.providerName(providerId)} account is linked to another user`
+      );
+    }
+
+    const linkedToProvider = await this.prisma.linkedIdentity.count({
+      where: { userId, provider: providerId },
+    });
+    if (linkedToProvider > 0) {
+      throw new AuthError(
+        'PROVIDER_ALREADY_LINKED',
+        `Unlink your current ${this.providerName(providerId)} account first`
+      );
+    }
+
+    const identity = await this.prisma.linkedIdentity.create({
+      data: {
+        userId,
+        provider: providerId,
+        subject: profile.subject,
+        email: profile.email,
+      },
+    });
+
+    logger.info('Identity linked', { userId, provider: providerId });
+    auditLog('identity_linked', userId, undefined, undefined, { provider: providerId });
+
+    return this.toSummary(identity);
+  }
+
+  /**
+   * A user's linked provider accounts
+   */
+  async listIdentities(userId: string): Promise<LinkedIdentitySummary[]> {
+    const identities = await this.prisma.linkedIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return identities.map(identity => this.toSummary(identity));
+  }
+
+  /**
+   * Unlink a provider account, keeping at least one way to sign in
+   */
+  async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        identities: true,
+        _count: { select: { webAuthnCredentials: true } },
+      },
+    });
+
+    const identity = user?.identities.find(item => item.id === identityId);
+    if (!user || !identity) {
+      throw new AuthError('IDENTITY_NOT_FOUND', 'Linked account not found');
+    }
+
+    if (user.password === null && user.identities.length === 1 && user._count.webAuthnCredentials === 0) {
+      throw new AuthError(
+        'LAST_SIGN_IN_METHOD',
+        'Set a password or add a passkey before unlinking your only way to sign in'
+      );
+    }
+
+    await this.prisma.linkedIdentity.delete({ where: { id: identity.id } });
+
+    logger.info('Identity unlinked', { userId, provider: identity.provider });
+    auditLog('identity_unlinked', userId, undefined, undefined, { provider: identity.provider });
+  }
+
+  // Private helper methods
+
+  private getClient(providerId: string): OidcClient {
+    const client = this.clients.get(providerId);
+    if (!client) {
+      throw new AuthError('UNKNOWN_OIDC_PROVIDER', 'Sign-in provider is not configured');
+    }
+    return client;
+  }
+
+  // Identities of providers removed from the configuration keep their id as the name
+  private providerName(providerId: string): string {
+    return this.clients.get(providerId)?.provider.name ?? providerId;
+  }
+
+  private toSummary(identity: LinkedIdentity): LinkedIdentitySummary {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      providerName: this.providerName(identity.provider),
+      email: identity.email,
+      lastUsedAt: identity.lastUsedAt,
+      createdAt: identity.createdAt,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import * as argon2 from 'argon2';
+import * as bcrypt from 'bcryptjs';
+
+import { authConfig } from '../../config/auth.config';
+
+export type PasswordHashingConfig = typeof authConfig.passwordHashing;
+
+// Hashes imported from systems that used bcrypt ($2a$, $2b$ or $2y$)
+const BCRYPT_HASH = /^\$2[aby]\$\d{2}\$/;
+
+/**
+ * The one place passwords are hashed and checked. New hashes use argon2id with the configured
+ * cost; hashes made with older parameters or imported as bcrypt still verify and are reported
+ * as needing a rehash so sign-in can upgrade them.
+ */
+export class PasswordHasherService {
+  private options: PasswordHashingConfig;
+
+  constructor(options: PasswordHashingConfig = authConfig.passwordHashing) {
+    this.options = options;
+  }
+
+  async hash(password: string): Promise<string> {
+    return await argon2.hash(password, {
+      type: argon2.argon2id,
+      memoryCost: this.options.memoryCost,
+      timeCost: this.options.timeCost,
+      parallelism: this.options.parallelism,
+    });
+  }
+
+  /**
+   * Whether the password matches an argon2 or bcrypt hash
+   */
+  async verify(hash: string, password: string): Promise<boolean> {
+    if (BCRYPT_HASH.test(hash)) {
+      return await bcrypt.compare(password, hash);
+    }
+
+    return await argon2.verify(hash, password);
+  }
+
+  /**
+   * Whether a verified hash is weaker than what hash() would produce now
+   */
+  needsRehash(hash: string): boolean {
+    if (!hash.startsWith('$argon2id$')) return true;
+
+    // argon2.needsRehash compares the version, memory and time cost but not parallelism
+    const parallelism = /[$,]p=(\d+)/.exec(hash)?.[1];
+
+    return (
+      argon2.needsRehash(hash, { memoryCost: this.options.memoryCost, timeCost: this.options.timeCost }) ||
+      Number(parallelism) !== this.options.parallelism
+    );
+  }
+}
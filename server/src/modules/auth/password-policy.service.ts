@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PrismaClient, User } from '@prisma/client';
+
+import { PasswordHasherService } from './password-hasher.service';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+import { estimatePasswordStrength, userInputWords } from '../../utils/password-strength';
+import { AuthError, PasswordPolicySummary } from '../../types/auth.types';
+
+export type PasswordPolicyConfig = typeof authConfig.passwordPolicy;
+
+/** Who the password is for; their details may not appear in it */
+export interface PasswordOwner {
+  email: string;
+  name?: string | null | undefined;
+}
+
+/**
+ * Length and character-class rules, which need nothing but the password.
+ * Request validation runs these too so forms get field errors early.
+ */
+export function checkPasswordRules(password: string, policy: PasswordPolicyConfig = authConfig.passwordPolicy): string[] {
+  const issues: string[] = [];
+
+  if (password.length < policy.minLength) {
+    issues.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (password.length > policy.maxLength) {
+    issues.push(`Password must be at most ${policy.maxLength} characters`);
+  }
+  if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+    issues.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+    issues.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireNumber && !/\p{N}/u.test(password)) {
+    issues.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^\p{L}\p{N}\s]/u.test(password)) {
+    issues.push('Password must contain a special character');
+  }
+
+  return issues;
+}
+
+/**
+ * The password policy applied whenever a password is set: the configured rules, a minimum
+ * estimated strength, banned words, a local breached-password list and the user's recent passwords
+ */
+export class PasswordPolicyService {
+  private prisma: PrismaClient;
+  private policy: PasswordPolicyConfig;
+  private passwordHasher: PasswordHasherService;
+
+  constructor(
+    prisma: PrismaClient,
+    policy: PasswordPolicyConfig = authConfig.passwordPolicy,
+    passwordHasher: PasswordHasherService = new PasswordHasherService()
+  ) {
+    this.prisma = prisma;
+    this.policy = policy;
+    this.passwordHasher = passwordHasher;
+  }
+
+  /**
+   * The rules the client shows and checks before submitting
+   */
+  getPolicy(): PasswordPolicySummary {
+    return {
+      minLength: this.policy.minLength,
+      maxLength: this.policy.maxLength,
+      requireLowercase: this.policy.requireLowercase,
+      requireUppercase: this.policy.requireUppercase,
+      requireNumber: this.policy.requireNumber,
+      requireSymbol: this.policy.requireSymbol,
+      minStrength: this.policy.minStrength,
+      historyCount: this.policy.historyCount,
+      maxAgeDays: this.policy.maxAgeDays,
+    };
+  }
+
+  /**
+   * Everything wrong with a new password. Pass the user when they already have an account
+   * so their recent passwords are checked too.
+   */
+  async check(
+    password: string,
+    owner: PasswordOwner,
+    user?: Pick<User, 'id' | 'password'> | undefined
+  ): Promise<string[]> {
+    const issues = checkPasswordRules(password, this.policy);
+
+    const personalWords = userInputWords(owner.email, owner.name);
+    const lower = password.toLowerCase();
+    // Three-letter words such as "com" or "ann" would ban too many unrelated passwords
+    if (personalWords.some(word => word.length >= 4 && lower.includes(word))) {
+      issues.push('Password must not contain your name or email address');
+    } else if (this.policy.bannedWords.some(word => lower.includes(word))) {
+      issues.push('Password must not contain the name of this app or other banned words');
+    }
+
+    const strength = estimatePasswordStrength(password, [...personalWords, ...this.policy.bannedWords]);
+    if (strength.score < this.policy.minStrength) {
+      issues.push('Password is too easy to guess. Try a longer phrase or less common words.');
+    }
+
+    if (await this.isBreached(password)) {
+      issues.push('This password has appeared in a data breach. Choose a different one.');
+    }
+
+    if (user && await this.isRecentPassword(user, password)) {
+      issues.push(
+        this.policy.historyCount === 1
+          ? 'Password must differ from your current password'
+          : `Password must differ from your last ${this.policy.historyCount} passwords`
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reject a new password that breaks the policy
+   */
+  async assertAcceptable(
+    password: string,
+    owner: PasswordOwner,
+    user?: Pick<User, 'id' | 'password'> | undefined
+  ): Promise<void> {
+    const issues = await this.check(password, owner, user);
+
+    if (issues.length > 0) {
+      throw new AuthError('PASSWORD_POLICY_VIOLATION', issues[0]!, { issues });
+    }
+  }
+
+  /**
+   * Remember a password just set so it cannot be reused, keeping only as many as the policy checks
+   */
+  async recordPassword(userId: string, passwordHash: string): Promise<void> {
+    if (this.policy.historyCount === 0) return;
+
+    await this.prisma.passwordHistory.create({
+      data: { userId, passwordHash },
+    });
+
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: this.policy.historyCount,
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map(entry => entry.id) } },
+      });
+    }
+  }
+
+  /**
+   * Whether the password is older than the policy allows
+   */
+  isExpired(user: Pick<User, 'passwordChangedAt' | 'createdAt'>): boolean {
+    if (this.policy.maxAgeDays === 0) return false;
+
+    const changedAt = user.passwordChangedAt ?? user.createdAt;
+    return Date.now() - changedAt.getTime() > this.policy.maxAgeDays * 24 * 60 * 60 * 1000;
+  }
+
+  // Private helper methods
+
+  // The list is split by the first five hex characters of the SHA-1, as for the k-anonymity API,
+  // so only one small file is read per check
+  private async isBreached(password: string): Promise<boolean> {
+    if (!this.policy.breachListDir) return false;
+
+    const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    const prefix = hash.slice(0, 5);
+    const suffix = hash.slice(5);
+
+    try {
+      const range = await fs.readFile(path.join(this.policy.breachListDir, `${prefix}.txt`), 'utf8');
+
+      return range.split('\n').some(line => {
+        const [candidate, count] = line.trim().split(':');
+        return candidate === suffix && Number(count ?? 1) > 0;
+      });
+    } catch (error) {
+      // Ranges without any breached password may be left out of the list
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to read breached password list', {
+          prefix,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      return false;
+    }
+  }
+
+  private async isRecentPassword(user: Pick<User, 'id' | 'password'>, password: string): Promise<boolean> {
+    if (this.policy.historyCount === 0) return false;
+
+    const history = await this.prisma.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: this.policy.historyCount,
+      select: { passwordHash: true },
+    });
+
+    // Passwords set before history was kept are only known from the account itself
+    const hashes = new Set(history.map(entry => entry.passwordHash));
+    if (user.password) {
+      hashes.add(user.password);
+    }
+
+    for (const hash of hashes) {
+      if (await this.passwordHasher.verify(hash, password)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
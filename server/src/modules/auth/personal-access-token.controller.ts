@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { CreatePersonalAccessTokenRequest } from './auth.validators';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class PersonalAccessTokenController {
+  private personalAccessTokenService: PersonalAccessTokenService;
+
+  constructor(personalAccessTokenService: PersonalAccessTokenService) {
+    this.personalAccessTokenService = personalAccessTokenService;
+  }
+
+  /**
+   * List the user's personal access tokens
+   */
+  async listTokens(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const tokens = await this.personalAccessTokenService.listTokens(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { tokens },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a personal access token; the response is the only time the token is shown
+   */
+  async createToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { name, scopes, expiresAt } = req.body as CreatePersonalAccessTokenRequest;
+
+      const result = await this.personalAccessTokenService.createToken(userId, {
+        name,
+        scopes,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+
+      logger.info('Personal access token created successfully', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a personal access token
+   */
+  async revokeToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      await this.personalAccessTokenService.revokeToken(userId, req.params.tokenId as string);
+
+      res.status(200).json({
+        success: true,
+        message: 'Personal access token revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,224 @@
+import { PrismaClient, Role } from '@prisma/client';
+
+import { logger, auditLog } from '../../utils/logger';
+import { AuthError, RoleSummary, UserAuthorization } from '../../types/auth.types';
+
+/**
+ * Every permission the API checks. Custom roles may only grant these.
+ */
+export const PERMISSIONS = {
+  USERS_READ: 'users:read',
+  USERS_WRITE: 'users:write',
+  ROLES_MANAGE: 'roles:manage',
+  AUDIT_READ: 'audit:read',
+  OAUTH_CLIENTS_MANAGE: 'oauth-clients:manage',
+  USERS_IMPERSONATE: 'users:impersonate',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+export const DEFAULT_ROLE = 'USER';
+export const ADMIN_ROLE = 'ADMIN';
+
+// Built-in roles, re-synced on every start so new permissions reach ADMIN automatically
+const SYSTEM_ROLES: Array<{ name: string; description: string; permissions: Permission[] }> = [
+  { name: DEFAULT_ROLE, description: 'Every signed-up account', permissions: [] },
+  { name: ADMIN_ROLE, description: 'Full administrative access', permissions: ALL_PERMISSIONS },
+];
+
+export class RbacService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Create or update the built-in roles
+   */
+  async ensureSystemRoles(): Promise<void> {
+    for (const role of SYSTEM_ROLES) {
+      const data = {
+        description: role.description,
+        permissions: role.permissions.join(','),
+        isSystem: true,
+      };
+
+      await this.prisma.role.upsert({
+        where: { name: role.name },
+        create: { name: role.name, ...data },
+        update: data,
+      });
+    }
+  }
+
+  /**
+   * Roles held by a user and the union of the permissions they grant
+   */
+  async getUserAuthorization(userId: string): Promise<UserAuthorization> {
+    const assignments = await this.prisma.userRole.findMany({
+      where: { userId },
+      include: { role: true },
+    });
+
+    // Accounts created before roles existed implicitly hold the default role
+    const roles = assignments.length > 0
+      ? assignments.map(assignment => assignment.role)
+      : await this.prisma.role.findMany({ where: { name: DEFAULT_ROLE } });
+
+    return {
+      roles: roles.map(role => role.name).sort(),
+      permissions: [...new Set(roles.flatMap(role => this.parsePermissions(role.permissions)))].sort(),
+    };
+  }
+
+  /**
+   * List all roles with how many users hold each
+   */
+  async listRoles(): Promise<RoleSummary[]> {
+    const roles = await this.prisma.role.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+    });
+
+    return roles.map(role => this.toSummary(role, role._count.users));
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(data: { name: string; description?: string; permissions: string[] }): Promise<RoleSummary> {
+    const existing = await this.prisma.role.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new AuthError('ROLE_EXISTS', 'A role with this name already exists');
+    }
+
+    const role = await this.prisma.role.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        permissions: this.serializePermissions(data.permissions),
+      },
+    });
+
+    logger.info('Role created', { roleId: role.id, name: role.name });
+    auditLog('role_created', undefined, undefined, undefined, { roleId: role.id, name: role.name });
+
+    return this.toSummary(role, 0);
+  }
+
+  /**
+   * Change a custom role's description or permissions
+   */
+  async updateRole(
+    roleId: string,
+    data: { description?: string; permissions?: string[] }
+  ): Promise<RoleSummary> {
+    await this.findEditableRole(roleId);
+
+    const role = await this.prisma.role.update({
+      where: { id: roleId },
+      data: {
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.permissions && { permissions: this.serializePermissions(data.permissions) }),
+      },
+      include: { _count: { select: { users: true } } },
+    });
+
+    logger.info('Role updated', { roleId });
+    auditLog('role_updated', undefined, undefined, undefined, { roleId, permissions: data.permissions });
+
+    return this.toSummary(role, role._count.users);
+  }
+
+  /**
+   * Delete a custom role, removing it from every user that held it
+   */
+  async deleteRole(roleId: string): Promise<void> {
+    const role = await this.findEditableRole(roleId);
+
+    await this.prisma.role.delete({ where: { id: roleId } });
+
+    logger.info('Role deleted', { roleId, name: role.name });
+    auditLog('role_deleted', undefined, undefined, undefined, { roleId, name: role.name });
+  }
+
+  /**
+   * Replace the set of roles a user holds
+   */
+  async setUserRoles(userId: string, roleNames: string[], actorId?: string): Promise<UserAuthorization> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    const names = [...new Set([DEFAULT_ROLE, ...roleNames])];
+    const roles = await this.prisma.role.findMany({ where: { name: { in: names } } });
+
+    if (roles.length !== names.length) {
+      const missing = names.filter(name => !roles.some(role => role.name === name));
+      throw new AuthError('ROLE_NOT_FOUND', 'Role not found', { roles: missing });
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.userRole.deleteMany({ where: { userId } });
+      await tx.userRole.createMany({
+        data: roles.map(role => ({ userId, roleId: role.id })),
+      });
+
+      // Never leave the system without an administrator
+      const admins = await tx.userRole.count({ where: { role: { name: ADMIN_ROLE } } });
+      if (admins === 0) {
+        throw new AuthError('LAST_ADMIN', 'At least one administrator is required');
+      }
+    });
+
+    logger.info('User roles updated', { userId, roles: names, actorId });
+    auditLog('user_roles_updated', userId, undefined, undefined, { roles: names, actorId });
+
+    return this.getUserAuthorization(userId);
+  }
+
+  // Private helper methods
+
+  private async findEditableRole(roleId: string): Promise<Role> {
+    const role = await this.prisma.role.findUnique({ where: { id: roleId } });
+
+    if (!role) {
+      throw new AuthError('ROLE_NOT_FOUND', 'Role not found');
+    }
+
+    if (role.isSystem) {
+      throw new AuthError('ROLE_IMMUTABLE', 'Built-in roles cannot be changed');
+    }
+
+    return role;
+  }
+
+  private serializePermissions(permissions: string[]): string {
+    const unknown = permissions.filter(permission => !ALL_PERMISSIONS.includes(permission as Permission));
+    if (unknown.length > 0) {
+      throw new AuthError('INVALID_PERMISSION', 'Unknown permission', { permissions: unknown });
+    }
+
+    return [...new Set(permissions)].sort().join(',');
+  }
+
+  private parsePermissions(permissions: string): string[] {
+    return permissions ? permissions.split(',') : [];
+  }
+
+  private toSummary(role: Role, userCount: number): RoleSummary {
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      permissions: this.parsePermissions(role.permissions),
+      isSystem: role.isSystem,
+      userCount,
+      createdAt: role.createdAt,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { RbacService, ALL_PERMISSIONS } from './rbac.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class RoleController {
+  private rbacService: RbacService;
+
+  constructor(rbacService: RbacService) {
+    this.rbacService = rbacService;
+  }
+
+  /**
+   * List roles and the permissions that can be granted
+   */
+  async listRoles(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = await this.rbacService.listRoles();
+
+      res.status(200).json({
+        success: true,
+        data: { roles, permissions: ALL_PERMISSIONS },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await this.rbacService.createRole(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created',
+        data: { role },
+      });
+
+      logger.info('Role created', { requestId: req.id, actorId: this.actorId(req), roleId: role.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a custom role
+   */
+  async updateRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await this.rbacService.updateRole(req.params.roleId as string, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated',
+        data: { role },
+      });
+
+      logger.info('Role updated', { requestId: req.id, actorId: this.actorId(req), roleId: role.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a custom role
+   */
+  async deleteRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { roleId } = req.params;
+      await this.rbacService.deleteRole(roleId as string);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role deleted',
+      });
+
+      logger.info('Role deleted', { requestId: req.id, actorId: this.actorId(req), roleId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the roles a user holds. Takes effect when their access token is next refreshed.
+   */
+  async setUserRoles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const authorization = await this.rbacService.setUserRoles(
+        userId as string,
+        req.body.roles,
+        this.actorId(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'User roles updated',
+        data: authorization,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private actorId(req: Request): string | undefined {
+    return (req as AuthenticatedRequest).user?.userId;
+  }
+}
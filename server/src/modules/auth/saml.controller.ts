@@ -0,0 +1,317 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from './auth.service';
+import { SamlService } from './saml.service';
+import { SamlAcsRequest, SamlCallbackRequest, SamlStartRequest } from './auth.validators';
+import { SamlConnectionRequest } from '../organization/organization.validators';
+import { logger } from '../../utils/logger';
+import { authConfig } from '../../config/auth.config';
+import { AuthError, AuthenticatedRequest } from '../../types/auth.types';
+
+export class SamlController {
+  private authService: AuthService;
+  private samlService: SamlService;
+
+  constructor(authService: AuthService, samlService: SamlService) {
+    this.authService = authService;
+    this.samlService = samlService;
+  }
+
+  /**
+   * Start signing in through the identity provider for the email's domain
+   */
+  async start(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body as SamlStartRequest;
+      const { request, browserToken } = await this.samlService.startSignIn(email);
+
+      res.cookie(authConfig.saml.cookieName, browserToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.saml.requestTtlMs,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start linking the signed-in account to the identity provider for its email's domain
+   */
+  async startLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { request, browserToken } = await this.samlService.startLink(userId);
+
+      res.cookie(authConfig.saml.cookieName, browserToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.saml.requestTtlMs,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: request,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finish linking with the code the client app was redirected back with
+   */
+  async link(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { code } = req.body as SamlCallbackRequest;
+      const organizationId = await this.samlService.completeLink(
+        userId,
+        code,
+        req.cookies?.[authConfig.saml.cookieName]
+      );
+
+      res.clearCookie(authConfig.saml.cookieName, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Single sign-on linked',
+        data: { organizationId },
+      });
+
+      logger.info('SAML identity linked', { requestId: req.id, userId, organizationId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Service provider metadata for the organization's identity provider
+   */
+  async metadata(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const metadata = await this.samlService.getMetadata(req.params.connectionId!);
+      res.status(200).type('application/samlmetadata+xml').send(metadata);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Assertion consumer service: the identity provider's response arrives as a browser form post,
+   * so the outcome is handed to the client app on a redirect
+   */
+  async acs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { SAMLResponse } = req.body as SamlAcsRequest;
+      const code = await this.samlService.acceptResponse(req.params.connectionId!, SAMLResponse);
+
+      res.redirect(303, `${authConfig.saml.callbackUrl}?${new URLSearchParams({ code })}`);
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        next(error);
+        return;
+      }
+
+      logger.warn('SAML sign-in refused', {
+        requestId: req.id,
+        connectionId: req.params.connectionId,
+        code: error.code,
+      });
+
+      const params = new URLSearchParams({ error: error.code, error_description: error.message });
+      res.redirect(303, `${authConfig.saml.callbackUrl}?${params}`);
+    }
+  }
+
+  /**
+   * Finish signing in with the code the client app was redirected back with
+   */
+  async callback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.body as SamlCallbackRequest;
+      const ip = req.ip || req.connection.remoteAddress;
+      const userAgent = req.get('User-Agent');
+
+      const result = await this.authService.loginWithSaml(
+        code,
+        req.cookies?.[authConfig.saml.cookieName],
+        ip,
+        userAgent
+      );
+
+      // The sign-in has been exchanged, and with it the browser secret
+      res.clearCookie(authConfig.saml.cookieName, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+      });
+
+      // Identity provider accepted but a second factor is still required - no session yet
+      if ('mfaRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            mfaRequired: true,
+            mfaToken: result.mfaToken,
+          },
+        });
+        return;
+      }
+
+      // Identity provider accepted but the sign-in looked unusual - confirm it with the emailed code
+      if ('verificationRequired' in result) {
+        res.status(200).json({
+          success: true,
+          data: {
+            verificationRequired: true,
+            verificationToken: result.verificationToken,
+          },
+        });
+        return;
+      }
+
+      // Set refresh token as HttpOnly cookie
+      res.cookie('refreshToken', result.refreshToken, {
+        httpOnly: authConfig.cookies.httpOnly,
+        secure: authConfig.cookies.secure,
+        sameSite: authConfig.cookies.sameSite,
+        maxAge: authConfig.cookies.maxAge,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          accessToken: result.accessToken,
+        },
+      });
+
+      logger.info('User SAML login successful', {
+        requestId: req.id,
+        email: result.user.email,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * The organization's identity provider
+   */
+  async getConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const connection = await this.samlService.getConnection(req.params.organizationId as string);
+
+      res.status(200).json({
+        success: true,
+        data: { connection },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Configure the organization's identity provider
+   */
+  async saveConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const connection = await this.samlService.saveConnection(
+        userId,
+        req.params.organizationId as string,
+        req.body as SamlConnectionRequest
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { connection },
+      });
+
+      logger.info('SAML connection saved', { requestId: req.id, userId, organizationId: req.params.organizationId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check the DNS record proving the organization controls a single sign-on domain
+   */
+  async verifyDomain(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const connection = await this.samlService.verifyDomain(
+        userId,
+        req.params.organizationId as string,
+        req.params.domain as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Domain verified',
+        data: { connection },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stop signing in through the organization's identity provider
+   */
+  async deleteConnection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      await this.samlService.deleteConnection(userId, req.params.organizationId as string);
+
+      res.status(200).json({
+        success: true,
+        message: 'Single sign-on removed',
+      });
+
+      logger.info('SAML connection deleted', { requestId: req.id, userId, organizationId: req.params.organizationId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import { CityResponse, Reader } from 'maxmind';
+import { UAParser } from 'ua-parser-js';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+
+// Upper bound on stored user agents; anything longer is junk or an attack
+const MAX_USER_AGENT_LENGTH = 512;
+
+/** What a session records about the client it was issued to */
+export interface SessionClientInfo {
+  ip: string | null;
+  userAgent: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  location: string | null;
+}
+
+export interface GeoLocation {
+  label: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * City/country lookups against a local MaxMind database. Nothing leaves the server.
+ */
+export class GeoIpLookup {
+  private reader: Reader<CityResponse> | null = null;
+
+  constructor(databasePath?: string) {
+    if (!databasePath) {
+      return;
+    }
+
+    try {
+      this.reader = new Reader<CityResponse>(fs.readFileSync(databasePath));
+      logger.info('GeoIP database loaded', { databasePath });
+    } catch (error) {
+      logger.warn('GeoIP database could not be loaded; session locations are disabled', {
+        databasePath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * "City, Country" for public addresses, null when unknown
+   */
+  lookup(ip: string): string | null {
+    return this.locate(ip)?.label ?? null;
+  }
+
+  /**
+   * Label and approximate coordinates for public addresses, null when unknown
+   */
+  locate(ip: string): GeoLocation | null {
+    if (!this.reader) {
+      return null;
+    }
+
+    try {
+      const result = this.reader.get(ip.replace(/^::ffff:/, ''));
+      const parts = [result?.city?.names.en, result?.country?.names.en].filter(Boolean);
+      if (parts.length === 0) {
+        return null;
+      }
+
+      return {
+        label: parts.join(', '),
+        latitude: result?.location?.latitude ?? null,
+        longitude: result?.location?.longitude ?? null,
+      };
+    } catch {
+      // Malformed addresses simply have no location
+      return null;
+    }
+  }
+}
+
+let geoIpLookup: GeoIpLookup | null = null;
+
+export function getGeoIpLookup(): GeoIpLookup {
+  if (!geoIpLookup) {
+    geoIpLookup = new GeoIpLookup(authConfig.sessions.geoIpDatabasePath);
+  }
+  return geoIpLookup;
+}
+
+/**
+ * Parse the device, browser, OS and location of a client
+ */
+export function describeClient(ip?: string, userAgent?: string): SessionClientInfo {
+  const ua = userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null;
+  const parsed = ua ? new UAParser(ua).getResult() : null;
+
+  const browser = parsed?.browser.name
+    ? [parsed.browser.name, parsed.browser.major].filter(Boolean).join(' ')
+    : null;
+  const os = parsed?.os.name
+    ? [parsed.os.name, parsed.os.version].filter(Boolean).join(' ')
+    : null;
+
+  return {
+    ip: ip ?? null,
+    userAgent: ua,
+    // ua-parser only reports a device type for non-desktop devices
+    deviceType: parsed ? parsed.device.type ?? 'desktop' : null,
+    browser,
+    os,
+    location: ip ? getGeoIpLookup().lookup(ip) : null,
+  };
+}
@@ -1,7 +1,18 @@
 import { PrismaClient, Session, User } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
+import { authConfig } from '../../config/auth.config';
 import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hmacToken } from '../../utils/tokens';
+import { SessionClientInfo } from './session-metadata';
 
+/** A freshly issued session together with its raw refresh token, which is never stored */
+export type IssuedSession = Session & { refreshToken: string };
+
+/** OAuth client a session's refresh tokens are issued to, and what the user let it access */
+export interface OAuthSessionGrant {
+  oauthClientId: string;
+  scopes: string[];
+}
 
 export class SessionRepository {
   private prisma: PrismaClient;
@@ -11,40 +22,100 @@ export class SessionRepository {
   }
 
   /**
-   * Create a new session for a user
+   * Create a new session for a user, starting a new refresh token family
    */
-  async createSession(userId: string, expiresAt: Date): Promise<Session> {
+  async createSession(
+    userId: string,
+    expiresAt: Date,
+    client?: SessionClientInfo,
+    grant?: OAuthSessionGrant
+  ): Promise<IssuedSession> {
     try {
-      const refreshToken = uuidv4();
+      const refreshToken = generateSecureToken();
       
       const session = await this.prisma.session.create({
         data: {
           userId,
-          refreshToken,
+          refreshTokenHash: this.hashRefreshToken(refreshToken),
+          familyId: uuidv4(),
+          ...client,
+          ...(grant && { oauthClientId: grant.oauthClientId, scopes: grant.scopes.join(',') }),
+          lastUsedAt: new Date(),
           expiresAt,
         },
       });
 
       logger.info('Session created', { userId, sessionId: session.id });
-      return session;
+      return { ...session, refreshToken };
     } catch (error) {
       logger.error('Failed to create session', { userId, error: error instanceof Error ? error.message : 'Unknown error' });
       throw new Error('Failed to create session');
     }
   }
 
+  /**
+   * Exchange a refresh token for a new one in the same family.
+   * The old token is marked consumed; returns null if it was already consumed or revoked.
+   * Client details not sent with the refresh are carried over from the old session.
+   */
+  async rotateSession(session: Session, client?: SessionClientInfo): Promise<IssuedSession | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const consumed = await tx.session.updateMany({
+          where: { id: session.id, consumedAt: null, isRevoked: false },
+          data: { consumedAt: new Date() },
+        });
+
+        // Lost a race with another refresh using the same token
+        if (consumed.count === 0) {
+          return null;
+        }
+
+        const refreshToken = generateSecureToken();
+        const rotated = await tx.session.create({
+          data: {
+            userId: session.userId,
+            refreshTokenHash: this.hashRefreshToken(refreshToken),
+            familyId: session.familyId ?? session.id,
+            ip: client?.ip ?? session.ip,
+            userAgent: client?.userAgent ?? session.userAgent,
+            deviceType: client?.deviceType ?? session.deviceType,
+            browser: client?.browser ?? session.browser,
+            os: client?.os ?? session.os,
+            location: client?.location ?? session.location,
+            oauthClientId: session.oauthClientId,
+            scopes: session.scopes,
+            activeOrganizationId: session.activeOrganizationId,
+            authenticatedAt: session.authenticatedAt,
+            lastUsedAt: new Date(),
+            // Rotation does not extend the lifetime of the original login
+            expiresAt: session.expiresAt,
+          },
+        });
+
+        logger.info('Refresh token rotated', { userId: session.userId, sessionId: rotated.id });
+        return { ...rotated, refreshToken };
+      });
+    } catch (error) {
+      logger.error('Failed to rotate session', { 
+        sessionId: session.id, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new Error('Failed to rotate session');
+    }
+  }
+
   /**
    * Find session by refresh token
    */
   async findByRefreshToken(refreshToken: string): Promise<Session | null> {
     try {
       return await this.prisma.session.findUnique({
-        where: { refreshToken },
+        where: { refreshTokenHash: this.hashRefreshToken(refreshToken) },
         include: { user: true },
       });
     } catch (error) {
       logger.error('Failed to find session by refresh token', { 
-        refreshToken: refreshToken.substring(0, 8) + '...',
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
       throw new Error('Failed to find session');
@@ -70,14 +141,36 @@ export class SessionRepository {
   }
 
   /**
-   * Get all active sessions for a user
+   * Record that the user has just proved who they are in one of their active sessions
+   */
+  async markAuthenticated(sessionId: string, userId: string): Promise<Session | null> {
+    try {
+      const updated = await this.prisma.session.updateMany({
+        where: { id: sessionId, userId, isRevoked: false, consumedAt: null },
+        data: { authenticatedAt: new Date() },
+      });
+
+      return updated.count > 0 ? await this.prisma.session.findUnique({ where: { id: sessionId } }) : null;
+    } catch (error) {
+      logger.error('Failed to mark session authenticated', {
+        sessionId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Failed to update session');
+    }
+  }
+
+  /**
+   * Get all active sessions a user signed in to this app with; OAuth client sessions are left out
    */
   async findActiveSessionsByUserId(userId: string): Promise<Session[]> {
     try {
       return await this.prisma.session.findMany({
         where: {
           userId,
+          oauthClientId: null,
           isRevoked: false,
+          consumedAt: null,
           expiresAt: { gt: new Date() },
         },
         orderBy: { createdAt: 'desc' },
@@ -92,25 +185,35 @@ export class SessionRepository {
   }
 
   /**
-   * Revoke a specific session
+   * Revoke a specific session. Every refresh replaces the row, so a listed id may already
+   * be consumed; the rows issued after it for the same login are revoked with it.
    */
   async revokeSession(sessionId: string, userId?: string): Promise<boolean> {
     try {
-      const result = await this.prisma.session.updateMany({
+      const session = await this.prisma.session.findFirst({
         where: {
           id: sessionId,
           ...(userId && { userId }), // Only revoke if it belongs to the user
         },
-        data: { isRevoked: true },
       });
 
-      if (result.count > 0) {
-        logger.info('Session revoked', { sessionId, userId });
-        auditLog('session_revoked', userId, undefined, undefined, { sessionId });
-        return true;
+      if (!session) {
+        return false;
       }
 
-      return false;
+      // Sessions created before rotation have no family; their successors use their id
+      const familyId = session.familyId ?? session.id;
+      await this.prisma.session.updateMany({
+        where: {
+          userId: session.userId,
+          OR: [{ id: familyId }, { familyId }],
+        },
+        data: { isRevoked: true },
+      });
+
+      logger.info('Session revoked', { sessionId, userId, familyId });
+      auditLog('session_revoked', userId, undefined, undefined, { sessionId });
+      return true;
     } catch (error) {
       logger.error('Failed to revoke session', { 
         sessionId, 
@@ -121,6 +224,34 @@ export class SessionRepository {
     }
   }
 
+  /**
+   * Revoke every refresh token issued from the same login
+   */
+  async revokeSessionFamily(session: Session): Promise<number> {
+    try {
+      const result = await this.prisma.session.updateMany({
+        where: session.familyId
+          ? { familyId: session.familyId, isRevoked: false }
+          : { id: session.id, isRevoked: false },
+        data: { isRevoked: true },
+      });
+
+      logger.info('Session family revoked', { userId: session.userId, familyId: session.familyId, count: result.count });
+      auditLog('session_family_revoked', session.userId, undefined, undefined, {
+        familyId: session.familyId,
+        sessionCount: result.count,
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('Failed to revoke session family', { 
+        sessionId: session.id, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new Error('Failed to revoke session family');
+    }
+  }
+
   /**
    * Revoke all sessions for a user
    */
@@ -147,6 +278,34 @@ export class SessionRepository {
     }
   }
 
+  /**
+   * Revoke every session of a user except those issued from one login
+   */
+  async revokeOtherSessions(userId: string, keepFamilyId: string): Promise<number> {
+    try {
+      const result = await this.prisma.session.updateMany({
+        where: {
+          userId,
+          isRevoked: false,
+          id: { not: keepFamilyId },
+          OR: [{ familyId: null }, { familyId: { not: keepFamilyId } }],
+        },
+        data: { isRevoked: true },
+      });
+
+      logger.info('Other sessions revoked for user', { userId, count: result.count });
+      auditLog('other_sessions_revoked', userId, undefined, undefined, { sessionCount: result.count });
+
+      return result.count;
+    } catch (error) {
+      logger.error('Failed to revoke other sessions', { 
+        userId, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      });
+      throw new Error('Failed to revoke sessions');
+    }
+  }
+
   /**
    * Clean up expired sessions
    */
@@ -177,14 +336,13 @@ export class SessionRepository {
   async isRefreshTokenReused(refreshToken: string): Promise<boolean> {
     try {
       const session = await this.prisma.session.findUnique({
-        where: { refreshToken },
-        select: { isRevoked: true },
+        where: { refreshTokenHash: this.hashRefreshToken(refreshToken) },
+        select: { isRevoked: true, consumedAt: true },
       });
 
-      return session?.isRevoked ?? false;
+      return Boolean(session?.isRevoked || session?.consumedAt);
     } catch (error) {
       logger.error('Failed to check refresh token reuse', { 
-        refreshToken: refreshToken.substring(0, 8) + '...',
         error: error instanceof Error ? error.message : 'Unknown error' 
       });
       throw new Error('Failed to check token reuse');
@@ -206,6 +364,7 @@ export class SessionRepository {
           where: {
             userId,
             isRevoked: false,
+            consumedAt: null,
             expiresAt: { gt: new Date() },
           },
         }),
@@ -271,4 +430,10 @@ export class SessionRepository {
       throw new Error('Failed to get user from session');
     }
   }
+
+  // Private helper methods
+
+  private hashRefreshToken(refreshToken: string): string {
+    return hmacToken(refreshToken, authConfig.security.refreshTokenSecret);
+  }
 }
@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { WebAuthnService } from './webauthn.service';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest } from '../../types/auth.types';
+
+export class WebAuthnController {
+  private webAuthnService: WebAuthnService;
+
+  constructor(webAuthnService: WebAuthnService) {
+    this.webAuthnService = webAuthnService;
+  }
+
+  /**
+   * List registered passkeys
+   */
+  async listCredentials(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const credentials = await this.webAuthnService.listCredentials(userId);
+
+      res.status(200).json({
+        success: true,
+        data: { credentials },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start passkey registration
+   */
+  async registrationOptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const result = await this.webAuthnService.generateRegistrationOptions(userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finish passkey registration
+   */
+  async verifyRegistration(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { challengeId, response, name } = req.body;
+
+      const credential = await this.webAuthnService.verifyRegistration(userId, challengeId, response, name);
+
+      res.status(201).json({
+        success: true,
+        message: 'Passkey registered',
+        data: { credential },
+      });
+
+      logger.info('Passkey registered', { requestId: req.id, userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start passwordless sign-in
+   */
+  async authenticationOptions(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.webAuthnService.generateAuthenticationOptions();
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a passkey
+   */
+  async deleteCredential(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = this.requireUserId(req, res);
+      if (!userId) return;
+
+      const { credentialId } = req.params;
+
+      if (!credentialId) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CREDENTIAL_ID',
+            message: 'Credential ID is required',
+          },
+        });
+        return;
+      }
+
+      await this.webAuthnService.deleteCredential(userId, credentialId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Passkey removed',
+      });
+
+      logger.info('Passkey removed', { requestId: req.id, userId, credentialId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireUserId(req: Request, res: Response): string | null {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return userId;
+  }
+}
@@ -0,0 +1,298 @@
+import { PrismaClient, User, WebAuthnCredential } from '@prisma/client';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import {
+  AuthError,
+  WebAuthnCredentialSummary,
+  WebAuthnOptionsResponse,
+} from '../../types/auth.types';
+
+type ChallengeType = 'registration' | 'authentication';
+
+export class WebAuthnService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * List a user's registered passkeys
+   */
+  async listCredentials(userId: string): Promise<WebAuthnCredentialSummary[]> {
+    const credentials = await this.prisma.webAuthnCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return credentials.map(credential => this.toSummary(credential));
+  }
+
+  /**
+   * Start passkey registration for a signed-in user
+   */
+  async generateRegistrationOptions(
+    userId: string
+  ): Promise<WebAuthnOptionsResponse<PublicKeyCredentialCreationOptionsJSON>> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { webAuthnCredentials: true },
+    });
+
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: authConfig.webauthn.rpName,
+      rpID: authConfig.webauthn.rpId,
+      userID: new Uint8Array(Buffer.from(user.id, 'utf8')),
+      userName: user.email,
+      userDisplayName: user.name ?? user.email,
+      timeout: authConfig.webauthn.challengeTtlMs,
+      attestationType: 'none',
+      // Stop the same authenticator from being registered twice
+      excludeCredentials: user.webAuthnCredentials.map(credential => ({
+        id: credential.credentialId,
+        ...(credential.transports && { transports: this.parseTransports(credential.transports) }),
+      })),
+      // Discoverable credentials with user verification allow passwordless sign-in
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+    });
+
+    const challengeId = await this.storeChallenge(options.challenge, 'registration', userId);
+
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify the attestation returned by the browser and store the new credential
+   */
+  async verifyRegistration(
+    userId: string,
+    challengeId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<WebAuthnCredentialSummary> {
+    const expectedChallenge = await this.consumeChallenge(challengeId, 'registration', userId);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: authConfig.webauthn.origin,
+        expectedRPID: authConfig.webauthn.rpId,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      logger.warn('Passkey registration verification failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    if (!verification.verified) {
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const existing = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: credential.id },
+    });
+
+    if (existing) {
+      throw new AuthError('WEBAUTHN_CREDENTIAL_EXISTS', 'This passkey is already registered');
+    }
+
+    const created = await this.prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports?.join(',') ?? null,
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+        name: name ?? null,
+      },
+    });
+
+    logger.info('Passkey registered', { userId, credentialId: created.id });
+    auditLog('webauthn_credential_registered', userId, undefined, undefined, { credentialId: created.id });
+
+    return this.toSummary(created);
+  }
+
+  /**
+   * Start a passwordless sign-in. No account hint is taken so the response
+   * does not reveal whether an email address has passkeys.
+   */
+  async generateAuthenticationOptions(): Promise<WebAuthnOptionsResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    const options = await generateAuthenticationOptions({
+      rpID: authConfig.webauthn.rpId,
+      timeout: authConfig.webauthn.challengeTtlMs,
+      userVerification: 'required',
+    });
+
+    const challengeId = await this.storeChallenge(options.challenge, 'authentication');
+
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify an assertion and return the user it belongs to
+   */
+  async verifyAuthentication(challengeId: string, response: AuthenticationResponseJSON): Promise<User> {
+    const expectedChallenge = await this.consumeChallenge(challengeId, 'authentication', null);
+
+    const credential = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: response.id },
+      include: { user: true },
+    });
+
+    if (!credential) {
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    let verification;
+    try {
+      // Also rejects sign counters that did not increase, a sign of a cloned authenticator
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: authConfig.webauthn.origin,
+        expectedRPID: authConfig.webauthn.rpId,
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(credential.publicKey),
+          counter: credential.counter,
+          ...(credential.transports && { transports: this.parseTransports(credential.transports) }),
+        },
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      logger.warn('Passkey authentication verification failed', {
+        userId: credential.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      auditLog('webauthn_authentication_failed', credential.userId, undefined, undefined, {
+        credentialId: credential.id,
+      });
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    if (!verification.verified) {
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    // Guard against two assertions racing with the same counter value
+    const updated = await this.prisma.webAuthnCredential.updateMany({
+      where: { id: credential.id, counter: credential.counter },
+      data: {
+        counter: verification.authenticationInfo.newCounter,
+        backedUp: verification.authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new AuthError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey could not be verified');
+    }
+
+    return credential.user;
+  }
+
+  /**
+   * Remove one of the user's passkeys
+   */
+  async deleteCredential(userId: string, credentialId: string): Promise<void> {
+    const deleted = await this.prisma.webAuthnCredential.deleteMany({
+      where: { id: credentialId, userId },
+    });
+
+    if (deleted.count === 0) {
+      throw new AuthError('WEBAUTHN_CREDENTIAL_NOT_FOUND', 'Passkey not found');
+    }
+
+    logger.info('Passkey removed', { userId, credentialId });
+    auditLog('webauthn_credential_removed', userId, undefined, undefined, { credentialId });
+  }
+
+  // Private helper methods
+
+  private async storeChallenge(challenge: string, type: ChallengeType, userId?: string): Promise<string> {
+    // Opportunistically clear abandoned ceremonies
+    await this.prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    const stored = await this.prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        type,
+        userId: userId ?? null,
+        expiresAt: new Date(Date.now() + authConfig.webauthn.challengeTtlMs),
+      },
+    });
+
+    return stored.id;
+  }
+
+  /**
+   * Load and delete a challenge so every ceremony can be completed at most once
+   */
+  private async consumeChallenge(challengeId: string, type: ChallengeType, userId: string | null): Promise<string> {
+    const stored = await this.prisma.webAuthnChallenge.findUnique({
+      where: { id: challengeId },
+    });
+
+    const deleted = stored
+      ? await this.prisma.webAuthnChallenge.deleteMany({ where: { id: stored.id } })
+      : { count: 0 };
+
+    if (
+      !stored ||
+      deleted.count === 0 ||
+      stored.type !== type ||
+      stored.userId !== userId ||
+      stored.expiresAt < new Date()
+    ) {
+      throw new AuthError('INVALID_WEBAUTHN_CHALLENGE', 'Passkey request is invalid or has expired');
+    }
+
+    return stored.challenge;
+  }
+
+  private parseTransports(transports: string): AuthenticatorTransportFuture[] {
+    return transports.split(',') as AuthenticatorTransportFuture[];
+  }
+
+  private toSummary(credential: WebAuthnCredential): WebAuthnCredentialSummary {
+    return {
+      id: credential.id,
+      name: credential.name,
+      deviceType: credential.deviceType,
+      backedUp: credential.backedUp,
+      lastUsedAt: credential.lastUsedAt,
+      createdAt: credential.createdAt,
+    };
+  }
+}
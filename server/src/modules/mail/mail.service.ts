@@ -0,0 +1,262 @@
+import { MailTransport, createMailTransport } from './mail.transport';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+
+/** Where a sign-in came from, as shown in security emails */
+export interface SignInDetails {
+  device: string | null;
+  location: string | null;
+  ip: string | null;
+  time: Date;
+}
+
+export class MailService {
+  private transport: MailTransport;
+
+  constructor(transport: MailTransport = createMailTransport()) {
+    this.transport = transport;
+  }
+
+  /**
+   * Send the email address verification link
+   */
+  async sendEmailVerification(to: string, token: string, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/verify-email', token);
+
+    await this.send(to, 'Verify your email address', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Please confirm your email address for SmartTask AI by opening the link below:',
+      link,
+      '',
+      'If you did not create an account, you can ignore this email.',
+    ], link);
+  }
+
+  /**
+   * Ask the new address to confirm it should replace the current one
+   */
+  async sendEmailChangeConfirmation(to: string, token: string, expiresInHours: number, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/email-change/confirm', token);
+
+    await this.send(to, 'Confirm your new email address', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Open the link below to start using this address for your SmartTask AI account:',
+      link,
+      '',
+      `This link expires in ${expiresInHours} hours and can only be used once.`,
+      'If you did not ask to change your email address, you can ignore this email.',
+    ], link);
+  }
+
+  /**
+   * Tell the current address about a requested change, with a link to stop it
+   */
+  async sendEmailChangeNotice(to: string, newEmail: string, cancelToken: string, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/email-change/cancel', cancelToken);
+
+    await this.send(to, 'Your email address is about to change', [
+      `Hi ${name || 'there'},`,
+      '',
+      `Someone asked to change the email address of your SmartTask AI account to ${newEmail}.`,
+      'Nothing changes until the new address is confirmed.',
+      '',
+      'If this was not you, open the link below to cancel the change, then change your password:',
+      link,
+    ], link);
+  }
+
+  /**
+   * Send the password reset link
+   */
+  async sendPasswordReset(to: string, token: string, expiresInMinutes: number, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/reset-password', token);
+
+    await this.send(to, 'Reset your password', [
+      `Hi ${name || 'there'},`,
+      '',
+      'We received a request to reset your SmartTask AI password. Open the link below to choose a new one:',
+      link,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once.`,
+      'If you did not request a password reset, you can ignore this email - your password will not change.',
+    ], link);
+  }
+
+  /**
+   * Send a passwordless sign-in link
+   */
+  async sendMagicLink(to: string, token: string, expiresInMinutes: number, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/magic-link', token);
+
+    await this.send(to, 'Your sign-in link', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Open the link below to sign in to SmartTask AI. Use the same browser you requested it from:',
+      link,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once.`,
+      'If you did not ask to sign in, you can ignore this email.',
+    ], link);
+  }
+
+  /**
+   * Invite someone to join an organization
+   */
+  async sendOrganizationInvitation(
+    to: string,
+    token: string,
+    organizationName: string,
+    expiresInDays: number,
+    invitedBy?: string | null
+  ): Promise<void> {
+    const link = this.buildAppLink('/invitations', token);
+
+    await this.send(to, `Join ${organizationName} on SmartTask AI`, [
+      'Hi there,',
+      '',
+      `${invitedBy || 'A team member'} invited you to join ${organizationName} on SmartTask AI.`,
+      'Open the link below to accept or decline. You will be asked to sign in or create an account with this email address:',
+      link,
+      '',
+      `This invitation expires in ${expiresInDays} days.`,
+      'If you were not expecting it, you can ignore this email.',
+    ], link);
+  }
+
+  /**
+   * Send the one-time code that confirms a sign-in flagged by the risk checks
+   */
+  async sendLoginVerificationCode(
+    to: string,
+    code: string,
+    expiresInMinutes: number,
+    signIn: SignInDetails,
+    name?: string | null
+  ): Promise<void> {
+    await this.send(to, 'Confirm your sign-in', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Someone signed in to your SmartTask AI account with your password:',
+      ...describeSignIn(signIn),
+      '',
+      `If this was you, enter this code to finish signing in: ${code}`,
+      `The code expires in ${expiresInMinutes} minutes.`,
+      'If this was not you, change your password now - whoever signed in knows it.',
+    ]);
+  }
+
+  /**
+   * Tell the user the copy of their data they asked for can be downloaded
+   */
+  async sendDataExportReady(to: string, expiresAt: Date, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/settings');
+
+    await this.send(to, 'Your data export is ready', [
+      `Hi ${name || 'there'},`,
+      '',
+      'The copy of your SmartTask AI data you asked for is ready. Download it from your settings:',
+      link,
+      '',
+      `It can be downloaded until ${expiresAt.toUTCString()}.`,
+      'If you did not ask for a copy of your data, change your password now.',
+    ], link);
+  }
+
+  /**
+   * Confirm an account deletion request and say how to stop it
+   */
+  async sendAccountDeletionScheduled(to: string, scheduledFor: Date, name?: string | null): Promise<void> {
+    const link = this.buildAppLink('/settings');
+
+    await this.send(to, 'Your account will be deleted', [
+      `Hi ${name || 'there'},`,
+      '',
+      `Your SmartTask AI account and all its data will be permanently deleted on ${scheduledFor.toUTCString()}.`,
+      'To keep your account, sign in before then and cancel the deletion from your settings:',
+      link,
+      '',
+      'If you did not ask to delete your account, sign in and cancel it, then change your password.',
+    ], link);
+  }
+
+  /**
+   * Last message to a purged account
+   */
+  async sendAccountDeleted(to: string, name?: string | null): Promise<void> {
+    await this.send(to, 'Your account has been deleted', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Your SmartTask AI account and its data have been permanently deleted, as you asked.',
+      'You will not receive any more emails from us.',
+    ]);
+  }
+
+  /**
+   * Tell the user their account was signed in to from a device it has not seen before
+   */
+  async sendNewSignInAlert(to: string, signIn: SignInDetails, name?: string | null): Promise<void> {
+    await this.send(to, 'New sign-in to your account', [
+      `Hi ${name || 'there'},`,
+      '',
+      'Your SmartTask AI account was just signed in to from a new device:',
+      ...describeSignIn(signIn),
+      '',
+      'If this was you, there is nothing else to do.',
+      'If not, change your password and sign out the device from your security settings.',
+    ]);
+  }
+
+  /**
+   * Tell the user a sign-in with their password was refused as suspicious
+   */
+  async sendBlockedSignInAlert(to: string, signIn: SignInDetails, name?: string | null): Promise<void> {
+    await this.send(to, 'We blocked a suspicious sign-in', [
+      `Hi ${name || 'there'},`,
+      '',
+      'We blocked a sign-in to your SmartTask AI account that used your correct password:',
+      ...describeSignIn(signIn),
+      '',
+      'If this was you, try again from a device you have used before.',
+      'If not, change your password now - whoever tried to sign in knows it.',
+    ]);
+  }
+
+  // Private helper methods
+
+  private buildAppLink(pathname: string, token?: string): string {
+    const url = new URL(pathname, authConfig.app.url);
+    if (token) {
+      url.searchParams.set('token', token);
+    }
+    return url.toString();
+  }
+
+  private async send(to: string, subject: string, lines: string[], link?: string): Promise<void> {
+    const text = lines.join('\n');
+    const html = lines
+      .map(line => (line === link ? `<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>` : `<p>${escapeHtml(line)}</p>`))
+      .join('\n');
+
+    await this.transport.send({ to, subject, text, html });
+    logger.info('Email sent', { to, subject });
+  }
+}
+
+function describeSignIn(signIn: SignInDetails): string[] {
+  return [
+    `Device: ${signIn.device || 'Unknown device'}`,
+    `Location: ${signIn.location || 'Unknown location'}${signIn.ip ? ` (${signIn.ip})` : ''}`,
+    `Time: ${signIn.time.toUTCString()}`,
+  ];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
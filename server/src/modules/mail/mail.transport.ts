@@ -0,0 +1,97 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { authConfig } from '../../config/auth.config';
+import { logger } from '../../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivery backend for outgoing email
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Prints emails to the log instead of delivering them (local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Email (console transport)', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Writes each email as a JSON file so local tooling and E2E tests can read it
+ */
+export class FileMailTransport implements MailTransport {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${Math.random().toString(36).slice(2, 10)}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ from: authConfig.mail.from, ...message, sentAt: sentAt.toISOString() }, null, 2)
+    );
+
+    logger.debug('Email written to file', { to: message.to, filePath });
+  }
+}
+
+/**
+ * Delivers emails through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(smtpUrl: string) {
+    this.transporter = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: authConfig.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      ...(message.html && { html: message.html }),
+    });
+  }
+}
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ */
+export function createMailTransport(): MailTransport {
+  switch (authConfig.mail.transport) {
+    case 'file':
+      return new FileMailTransport(authConfig.mail.fileDir);
+    case 'smtp':
+      if (!authConfig.mail.smtpUrl) {
+        throw new Error('SMTP_URL is required when MAIL_TRANSPORT is "smtp"');
+      }
+      return new SmtpMailTransport(authConfig.mail.smtpUrl);
+    case 'console':
+    default:
+      return new ConsoleMailTransport();
+  }
+}
@@ -0,0 +1,307 @@
+import { Request, Response, NextFunction } from 'express';
+import { OrganizationService } from './organization.service';
+import { AuthService } from '../auth/auth.service';
+import {
+  CreateOrganizationRequest,
+  UpdateMemberRoleRequest,
+  CreateInvitationRequest,
+  InvitationTokenRequest,
+} from './organization.validators';
+import { logger } from '../../utils/logger';
+import { AuthenticatedRequest, AuthenticatedUser } from '../../types/auth.types';
+
+export class OrganizationController {
+  private organizationService: OrganizationService;
+  private authService: AuthService;
+
+  constructor(organizationService: OrganizationService, authService: AuthService) {
+    this.organizationService = organizationService;
+    this.authService = authService;
+  }
+
+  /**
+   * List the user's organizations and the one the session is working in
+   */
+  async listOrganizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const organizations = await this.organizationService.listForUser(user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          organizations,
+          activeOrganizationId: user.organizationId ?? null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create an organization owned by the user
+   */
+  async createOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { name } = req.body as CreateOrganizationRequest;
+      const organization = await this.organizationService.create(user.userId, name);
+
+      res.status(201).json({
+        success: true,
+        data: { organization },
+      });
+
+      logger.info('Organization created successfully', { requestId: req.id, userId: user.userId });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Switch the session to another organization and issue an access token for it
+   */
+  async switchOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      if (!user.sessionId) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'SESSION_REQUIRED',
+            message: 'Switching organizations requires signing in',
+          },
+        });
+        return;
+      }
+
+      const result = await this.authService.switchOrganization(
+        user.userId,
+        user.sessionId,
+        req.params.organizationId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the members of the active organization
+   */
+  async listMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const members = await this.organizationService.listMembers(req.params.organizationId as string);
+
+      res.status(200).json({
+        success: true,
+        data: { members },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a member's role
+   */
+  async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { role } = req.body as UpdateMemberRoleRequest;
+
+      await this.organizationService.updateMemberRole(
+        user.userId,
+        req.params.organizationId as string,
+        req.params.userId as string,
+        role
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Member role updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a member, or leave the organization
+   */
+  async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      await this.organizationService.removeMember(
+        user.userId,
+        req.params.organizationId as string,
+        req.params.userId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: user.userId === req.params.userId ? 'You left the organization' : 'Member removed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List pending invitations
+   */
+  async listInvitations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const invitations = await this.organizationService.listInvitations(req.params.organizationId as string);
+
+      res.status(200).json({
+        success: true,
+        data: { invitations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Invite someone by email
+   */
+  async createInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { email, role } = req.body as CreateInvitationRequest;
+      const invitation = await this.organizationService.invite(
+        user.userId,
+        req.params.organizationId as string,
+        email,
+        role
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async revokeInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      await this.organizationService.revokeInvitation(
+        user.userId,
+        req.params.organizationId as string,
+        req.params.invitationId as string
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Show an invitation sent to the user
+   */
+  async previewInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { token } = req.body as InvitationTokenRequest;
+      const invitation = await this.organizationService.getInvitation(token, user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept an invitation and join the organization
+   */
+  async acceptInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { token } = req.body as InvitationTokenRequest;
+      const organization = await this.organizationService.acceptInvitation(token, user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { organization },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Decline an invitation
+   */
+  async declineInvitation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.requireUser(req, res);
+      if (!user) return;
+
+      const { token } = req.body as InvitationTokenRequest;
+      await this.organizationService.declineInvitation(token, user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation declined',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Private helper methods
+
+  private requireUser(req: Request, res: Response): AuthenticatedUser | null {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return null;
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,149 @@
+import { RequestHandler, Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { OrganizationController } from './organization.controller';
+import { OrganizationService } from './organization.service';
+import { AuthService } from '../auth/auth.service';
+import { SamlController } from '../auth/saml.controller';
+import { SamlService } from '../auth/saml.service';
+import { validateRequest } from '../../middleware/validation';
+import {
+  forbidImpersonation,
+  requireInteractiveSession,
+  requireOrganization,
+} from '../../middleware/auth';
+import {
+  createOrganizationSchema,
+  organizationSchema,
+  updateMemberRoleSchema,
+  organizationMemberSchema,
+  createInvitationSchema,
+  organizationInvitationSchema,
+  invitationTokenSchema,
+  samlConnectionSchema,
+  samlDomainSchema,
+} from './organization.validators';
+
+export function createOrganizationRoutes(prisma: PrismaClient, authenticateToken: RequestHandler): Router {
+  const router = Router();
+  const authService = new AuthService(prisma);
+  const organizationController = new OrganizationController(new OrganizationService(prisma), authService);
+  const samlController = new SamlController(authService, new SamlService(prisma));
+
+  // Organizations belong to signed-in users; personal access tokens carry no organization
+  router.use(authenticateToken, requireInteractiveSession);
+
+  router.get(
+    '/',
+    organizationController.listOrganizations.bind(organizationController)
+  );
+
+  router.post(
+    '/',
+    validateRequest(createOrganizationSchema),
+    organizationController.createOrganization.bind(organizationController)
+  );
+
+  // Invitations sent to the signed-in user
+  router.post(
+    '/invitations/preview',
+    validateRequest(invitationTokenSchema),
+    organizationController.previewInvitation.bind(organizationController)
+  );
+
+  router.post(
+    '/invitations/accept',
+    validateRequest(invitationTokenSchema),
+    organizationController.acceptInvitation.bind(organizationController)
+  );
+
+  router.post(
+    '/invitations/decline',
+    validateRequest(invitationTokenSchema),
+    organizationController.declineInvitation.bind(organizationController)
+  );
+
+  router.post(
+    '/:organizationId/switch',
+    forbidImpersonation,
+    validateRequest(organizationSchema),
+    organizationController.switchOrganization.bind(organizationController)
+  );
+
+  // Routes below only work for the organization the access token is scoped to
+  router.get(
+    '/:organizationId/members',
+    validateRequest(organizationSchema),
+    requireOrganization(),
+    organizationController.listMembers.bind(organizationController)
+  );
+
+  router.patch(
+    '/:organizationId/members/:userId',
+    validateRequest(updateMemberRoleSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    organizationController.updateMemberRole.bind(organizationController)
+  );
+
+  // Members may remove themselves; the service checks who else they may remove
+  router.delete(
+    '/:organizationId/members/:userId',
+    validateRequest(organizationMemberSchema),
+    requireOrganization(),
+    organizationController.removeMember.bind(organizationController)
+  );
+
+  router.get(
+    '/:organizationId/invitations',
+    validateRequest(organizationSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    organizationController.listInvitations.bind(organizationController)
+  );
+
+  router.post(
+    '/:organizationId/invitations',
+    validateRequest(createInvitationSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    organizationController.createInvitation.bind(organizationController)
+  );
+
+  router.delete(
+    '/:organizationId/invitations/:invitationId',
+    validateRequest(organizationInvitationSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    organizationController.revokeInvitation.bind(organizationController)
+  );
+
+  // Single sign-on through the organization's SAML identity provider
+  router.get(
+    '/:organizationId/saml',
+    validateRequest(organizationSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    samlController.getConnection.bind(samlController)
+  );
+
+  router.put(
+    '/:organizationId/saml',
+    forbidImpersonation,
+    validateRequest(samlConnectionSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    samlController.saveConnection.bind(samlController)
+  );
+
+  router.post(
+    '/:organizationId/saml/domains/:domain/verify',
+    forbidImpersonation,
+    validateRequest(samlDomainSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    samlController.verifyDomain.bind(samlController)
+  );
+
+  router.delete(
+    '/:organizationId/saml',
+    forbidImpersonation,
+    validateRequest(organizationSchema),
+    requireOrganization('OWNER', 'ADMIN'),
+    samlController.deleteConnection.bind(samlController)
+  );
+
+  return router;
+}
@@ -0,0 +1,438 @@
+import { PrismaClient } from '@prisma/client';
+
+import { MailService } from '../mail/mail.service';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { generateSecureToken, hashToken } from '../../utils/tokens';
+import {
+  ActiveOrganization,
+  AuthError,
+  OrganizationInvitationPreview,
+  OrganizationInvitationSummary,
+  OrganizationMemberSummary,
+  OrganizationRole,
+  OrganizationSummary,
+} from '../../types/auth.types';
+
+// Higher ranks can manage lower ones
+const ROLE_RANK: Record<OrganizationRole, number> = { MEMBER: 0, ADMIN: 1, OWNER: 2 };
+
+/**
+ * Organizations, their members and invitations. Owners manage everything, admins manage
+ * members and invitations below owner, and members can only see who else belongs.
+ */
+export class OrganizationService {
+  private prisma: PrismaClient;
+  private mailService: MailService;
+
+  constructor(prisma: PrismaClient, mailService: MailService = new MailService()) {
+    this.prisma = prisma;
+    this.mailService = mailService;
+  }
+
+  /**
+   * Organizations the user belongs to, oldest membership first
+   */
+  async listForUser(userId: string): Promise<OrganizationSummary[]> {
+    const memberships = await this.prisma.organizationMembership.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(membership => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      role: membership.role as OrganizationRole,
+      createdAt: membership.organization.createdAt,
+    }));
+  }
+
+  /**
+   * Create an organization owned by the user
+   */
+  async create(userId: string, name: string): Promise<OrganizationSummary> {
+    const organization = await this.prisma.organization.create({
+      data: {
+        name,
+        memberships: { create: { userId, role: 'OWNER' } },
+      },
+    });
+
+    logger.info('Organization created', { userId, organizationId: organization.id });
+    auditLog('organization_created', userId, undefined, undefined, { organizationId: organization.id });
+
+    return { id: organization.id, name: organization.name, role: 'OWNER', createdAt: organization.createdAt };
+  }
+
+  /**
+   * The user's role in an organization, or null when they do not belong to it
+   */
+  async getMembership(organizationId: string, userId: string): Promise<ActiveOrganization | null> {
+    const membership = await this.prisma.organizationMembership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    return membership ? { organizationId, role: membership.role as OrganizationRole } : null;
+  }
+
+  /**
+   * The organization a session works in: the one last switched to while the user still
+   * belongs to it, otherwise the user's first organization
+   */
+  async getActiveMembership(userId: string, sessionId: string | undefined): Promise<ActiveOrganization | null> {
+    const session = sessionId
+      ? await this.prisma.session.findUnique({
+          where: { id: sessionId },
+          select: { activeOrganizationId: true },
+        })
+      : null;
+
+    if (session?.activeOrganizationId) {
+      const active = await this.getMembership(session.activeOrganizationId, userId);
+      if (active) return active;
+    }
+
+    const first = await this.prisma.organizationMembership.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return first ? { organizationId: first.organizationId, role: first.role as OrganizationRole } : null;
+  }
+
+  /**
+   * Make an organization the one a session works in. Rotated sessions inherit it.
+   */
+  async setActiveOrganization(userId: string, sessionId: string, organizationId: string): Promise<ActiveOrganization> {
+    const membership = await this.requireMembership(organizationId, userId);
+
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, userId },
+      data: { activeOrganizationId: organizationId },
+    });
+
+    return membership;
+  }
+
+  /**
+   * Everyone in the organization
+   */
+  async listMembers(organizationId: string): Promise<OrganizationMemberSummary[]> {
+    const memberships = await this.prisma.organizationMembership.findMany({
+      where: { organizationId },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(membership => ({
+      userId: membership.user.id,
+      email: membership.user.email,
+      name: membership.user.name,
+      role: membership.role as OrganizationRole,
+      joinedAt: membership.createdAt,
+    }));
+  }
+
+  /**
+   * Change a member's role. Only owners grant or take away ownership, and the last owner stays.
+   */
+  async updateMemberRole(
+    actorId: string,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<void> {
+    const actor = await this.requireMembership(organizationId, actorId);
+    const target = await this.requireMembership(organizationId, userId);
+
+    this.assertCanManage(actor.role, target.role);
+    this.assertCanManage(actor.role, role);
+
+    if (target.role === 'OWNER' && role !== 'OWNER') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.prisma.organizationMembership.update({
+      where: { organizationId_userId: { organizationId, userId } },
+      data: { role },
+    });
+
+    auditLog('organization_member_role_changed', actorId, undefined, undefined, {
+      organizationId,
+      memberId: userId,
+      from: target.role,
+      to: role,
+    });
+  }
+
+  /**
+   * Remove a member, or leave when removing yourself
+   */
+  async removeMember(actorId: string, organizationId: string, userId: string): Promise<void> {
+    const actor = await this.requireMembership(organizationId, actorId);
+    const target = await this.requireMembership(organizationId, userId);
+
+    if (actorId !== userId) {
+      this.assertCanManage(actor.role, target.role);
+    }
+
+    if (target.role === 'OWNER') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.prisma.organizationMembership.delete({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    // Their sessions fall back to another organization at the next refresh
+    await this.prisma.session.updateMany({
+      where: { userId, activeOrganizationId: organizationId },
+      data: { activeOrganizationId: null },
+    });
+
+    auditLog(actorId === userId ? 'organization_left' : 'organization_member_removed', actorId, undefined, undefined, {
+      organizationId,
+      memberId: userId,
+    });
+  }
+
+  /**
+   * Invitations that have not been answered and have not expired
+   */
+  async listInvitations(organizationId: string): Promise<OrganizationInvitationSummary[]> {
+    const invitations = await this.prisma.organizationInvitation.findMany({
+      where: { organizationId, acceptedAt: null, declinedAt: null, expiresAt: { gt: new Date() } },
+      include: { invitedBy: { select: { email: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(invitation => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role as OrganizationRole,
+      invitedBy: invitation.invitedBy ? invitation.invitedBy.name || invitation.invitedBy.email : null,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    }));
+  }
+
+  /**
+   * Email an invitation. A new invitation to the same address replaces any pending one.
+   */
+  async invite(
+    actorId: string,
+    organizationId: string,
+    email: string,
+    role: OrganizationRole
+  ): Promise<OrganizationInvitationSummary> {
+    const actor = await this.requireMembership(organizationId, actorId);
+    this.assertCanManage(actor.role, role);
+
+    const normalizedEmail = email.toLowerCase();
+    const existingMember = await this.prisma.organizationMembership.findFirst({
+      where: { organizationId, user: { email: normalizedEmail } },
+    });
+
+    if (existingMember) {
+      throw new AuthError('ALREADY_A_MEMBER', 'This person is already a member of the organization');
+    }
+
+    const [organization, inviter] = await Promise.all([
+      this.prisma.organization.findUnique({ where: { id: organizationId } }),
+      this.prisma.user.findUnique({ where: { id: actorId }, select: { email: true, name: true } }),
+    ]);
+
+    if (!organization) {
+      throw new AuthError('ORGANIZATION_NOT_FOUND', 'Organization not found');
+    }
+
+    await this.prisma.organizationInvitation.deleteMany({
+      where: { organizationId, email: normalizedEmail, acceptedAt: null, declinedAt: null },
+    });
+
+    const token = generateSecureToken();
+    const invitation = await this.prisma.organizationInvitation.create({
+      data: {
+        organizationId,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashToken(token),
+        invitedById: actorId,
+        expiresAt: new Date(Date.now() + authConfig.organizations.invitationTtlMs),
+      },
+    });
+
+    const invitedBy = inviter ? inviter.name || inviter.email : null;
+    const expiresInDays = Math.round(authConfig.organizations.invitationTtlMs / (24 * 60 * 60 * 1000));
+
+    this.mailService
+      .sendOrganizationInvitation(normalizedEmail, token, organization.name, expiresInDays, invitedBy)
+      .catch(error => {
+        logger.error('Failed to send organization invitation email', {
+          organizationId,
+          invitationId: invitation.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+
+    auditLog('organization_member_invited', actorId, undefined, undefined, {
+      organizationId,
+      invitationId: invitation.id,
+      role,
+    });
+
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role,
+      invitedBy,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async revokeInvitation(actorId: string, organizationId: string, invitationId: string): Promise<void> {
+    const result = await this.prisma.organizationInvitation.deleteMany({
+      where: { id: invitationId, organizationId, acceptedAt: null, declinedAt: null },
+    });
+
+    if (result.count === 0) {
+      throw new AuthError('INVITATION_NOT_FOUND', 'Invitation not found');
+    }
+
+    auditLog('organization_invitation_revoked', actorId, undefined, undefined, { organizationId, invitationId });
+  }
+
+  /**
+   * Show the signed-in user an invitation sent to their address
+   */
+  async getInvitation(token: string, userId: string): Promise<OrganizationInvitationPreview> {
+    const invitation = await this.findPendingInvitation(token, userId);
+
+    return {
+      organizationName: invitation.organization.name,
+      email: invitation.email,
+      role: invitation.role as OrganizationRole,
+      invitedBy: invitation.invitedBy ? invitation.invitedBy.name || invitation.invitedBy.email : null,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Join the organization an invitation is for
+   */
+  async acceptInvitation(token: string, userId: string): Promise<OrganizationSummary> {
+    const invitation = await this.findPendingInvitation(token, userId);
+
+    await this.prisma.$transaction(async (tx) => {
+      // Guard against the invitation being answered concurrently
+      const answered = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, declinedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (answered.count === 0) {
+        throw new AuthError('INVALID_INVITATION', 'Invitation is invalid or has expired');
+      }
+
+      await tx.organizationMembership.upsert({
+        where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+        create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+        update: {},
+      });
+    });
+
+    auditLog('organization_invitation_accepted', userId, undefined, undefined, {
+      organizationId: invitation.organizationId,
+      invitationId: invitation.id,
+    });
+
+    const membership = await this.requireMembership(invitation.organizationId, userId);
+
+    return {
+      id: invitation.organization.id,
+      name: invitation.organization.name,
+      role: membership.role,
+      createdAt: invitation.organization.createdAt,
+    };
+  }
+
+  /**
+   * Turn an invitation down; it cannot be used afterwards
+   */
+  async declineInvitation(token: string, userId: string): Promise<void> {
+    const invitation = await this.findPendingInvitation(token, userId);
+
+    await this.prisma.organizationInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, declinedAt: null },
+      data: { declinedAt: new Date() },
+    });
+
+    auditLog('organization_invitation_declined', userId, undefined, undefined, {
+      organizationId: invitation.organizationId,
+      invitationId: invitation.id,
+    });
+  }
+
+  // Private helper methods
+
+  private async requireMembership(organizationId: string, userId: string): Promise<ActiveOrganization> {
+    const membership = await this.getMembership(organizationId, userId);
+
+    if (!membership) {
+      throw new AuthError('NOT_A_MEMBER', 'You are not a member of this organization');
+    }
+
+    return membership;
+  }
+
+  // Owners manage anyone; admins manage admins and members; members manage no one
+  private assertCanManage(actorRole: OrganizationRole, role: OrganizationRole): void {
+    if (actorRole === 'MEMBER' || ROLE_RANK[role] > ROLE_RANK[actorRole]) {
+      throw new AuthError('INSUFFICIENT_ORGANIZATION_ROLE', 'Your role in this organization does not allow this');
+    }
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await this.prisma.organizationMembership.count({
+      where: { organizationId, role: 'OWNER' },
+    });
+
+    if (owners <= 1) {
+      throw new AuthError('LAST_OWNER', 'An organization needs at least one owner; make someone else owner first');
+    }
+  }
+
+  // Invitations are only for the address they were sent to, so a forwarded link is useless
+  private async findPendingInvitation(token: string, userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user) {
+      throw new AuthError('USER_NOT_FOUND', 'User not found');
+    }
+
+    const invitation = await this.prisma.organizationInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: {
+        organization: true,
+        invitedBy: { select: { email: true, name: true } },
+      },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.declinedAt || invitation.expiresAt < new Date()) {
+      throw new AuthError('INVALID_INVITATION', 'Invitation is invalid or has expired');
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new AuthError(
+        'INVITATION_EMAIL_MISMATCH',
+        `This invitation was sent to ${invitation.email}. Sign in with that address to answer it.`
+      );
+    }
+
+    return invitation;
+  }
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { ORGANIZATION_ROLES, OrganizationRole, SAML_BINDINGS, SamlBinding } from '../../types/auth.types';
+
+const organizationRoleSchema = z.enum(ORGANIZATION_ROLES as [OrganizationRole, ...OrganizationRole[]]);
+
+const organizationParamsSchema = z.object({
+  organizationId: z.string().cuid('Invalid organization ID'),
+});
+
+export const createOrganizationSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Organization name is required').max(100, 'Organization name too long'),
+  }),
+});
+
+export const organizationSchema = z.object({
+  params: organizationParamsSchema,
+});
+
+export const updateMemberRoleSchema = z.object({
+  params: organizationParamsSchema.extend({
+    userId: z.string().cuid('Invalid user ID'),
+  }),
+  body: z.object({
+    role: organizationRoleSchema,
+  }),
+});
+
+export const organizationMemberSchema = z.object({
+  params: organizationParamsSchema.extend({
+    userId: z.string().cuid('Invalid user ID'),
+  }),
+});
+
+export const createInvitationSchema = z.object({
+  params: organizationParamsSchema,
+  body: z.object({
+    email: z
+      .string()
+      .email('Invalid email format')
+      .max(255, 'Email too long')
+      .toLowerCase()
+      .trim(),
+    role: organizationRoleSchema.default('MEMBER'),
+  }),
+});
+
+export const organizationInvitationSchema = z.object({
+  params: organizationParamsSchema.extend({
+    invitationId: z.string().cuid('Invalid invitation ID'),
+  }),
+});
+
+export const invitationTokenSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Invitation token is required'),
+  }),
+});
+
+export const samlConnectionSchema = z.object({
+  params: organizationParamsSchema,
+  body: z.object({
+    idpEntityId: z.string().trim().min(1, 'Identity provider entity ID is required').max(1024, 'Entity ID too long'),
+    idpSsoUrl: z.string().url('Identity provider sign-in URL must be a valid URL').max(2048, 'URL too long'),
+    idpCertificate: z.string().trim().min(1, 'Identity provider certificate is required').max(16384, 'Certificate too long'),
+    authnRequestBinding: z.enum(SAML_BINDINGS as [SamlBinding, ...SamlBinding[]]),
+    domains: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(/^(?!-)[a-z0-9-]{1,63}(?:\.(?!-)[a-z0-9-]{1,63})+$/i, 'Invalid email domain')
+      )
+      .min(1, 'At least one email domain is required')
+      .max(20, 'Too many email domains'),
+    jitProvisioning: z.boolean(),
+    // An identity provider never makes anyone an owner
+    defaultRole: z.enum(['ADMIN', 'MEMBER']),
+    enabled: z.boolean(),
+  }),
+});
+
+export const samlDomainSchema = z.object({
+  params: organizationParamsSchema.extend({
+    domain: z
+      .string()
+      .toLowerCase()
+      .regex(/^(?!-)[a-z0-9-]{1,63}(?:\.(?!-)[a-z0-9-]{1,63})+$/, 'Invalid email domain'),
+  }),
+});
+
+// Type exports
+export type CreateOrganizationRequest = z.infer<typeof createOrganizationSchema>['body'];
+export type UpdateMemberRoleRequest = z.infer<typeof updateMemberRoleSchema>['body'];
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>['body'];
+export type InvitationTokenRequest = z.infer<typeof invitationTokenSchema>['body'];
+export type SamlConnectionRequest = z.infer<typeof samlConnectionSchema>['body'];
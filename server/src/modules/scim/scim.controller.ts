@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z, ZodTypeAny } from 'zod';
+import { ScimService, SCIM_AUDIT_ACTOR, SCIM_SCHEMAS } from './scim.service';
+import { scimGroupSchema, scimListQuerySchema, scimPatchSchema, scimUserSchema } from './scim.validators';
+import { authConfig } from '../../config/auth.config';
+import { logger, setAuditActor } from '../../utils/logger';
+import { AuthError, ScimError } from '../../types/auth.types';
+
+const SCIM_CONTENT_TYPE = 'application/scim+json; charset=utf-8';
+
+export class ScimController {
+  private scimService: ScimService;
+
+  constructor(scimService: ScimService) {
+    this.scimService = scimService;
+  }
+
+  /**
+   * Accept only the configured bearer token; SCIM answers as missing while none is configured
+   */
+  authenticate(req: Request, res: Response, next: NextFunction): void {
+    try {
+      if (!this.scimService.isEnabled) {
+        throw new ScimError(404, 'SCIM provisioning is not enabled');
+      }
+
+      const authHeader = req.headers.authorization;
+      const token = authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+
+      // Compare digests so the comparison takes the same time whatever the token's length
+      const expected = createHash('sha256').update(authConfig.scim.bearerToken!).digest();
+      const actual = createHash('sha256').update(token).digest();
+
+      if (!timingSafeEqual(expected, actual)) {
+        logger.warn('SCIM request with invalid token', { requestId: req.id, ip: req.ip, path: req.path });
+        res.setHeader('WWW-Authenticate', 'Bearer realm="SCIM"');
+        throw new ScimError(401, 'Authentication required');
+      }
+
+      setAuditActor(SCIM_AUDIT_ACTOR);
+      next();
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async serviceProviderConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.send(res, 200, this.scimService.getServiceProviderConfig());
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async listUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = this.parse(scimListQuerySchema, req.query);
+      this.send(res, 200, await this.scimService.listUsers(query));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async getUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.send(res, 200, await this.scimService.getUser(req.params.userId as string));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async createUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await this.scimService.createUser(this.parse(scimUserSchema, req.body));
+      res.setHeader('Location', user.meta.location);
+      this.send(res, 201, user);
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async replaceUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = this.parse(scimUserSchema, req.body);
+      this.send(res, 200, await this.scimService.replaceUser(req.params.userId as string, data));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async patchUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { Operations } = this.parse(scimPatchSchema, req.body);
+      this.send(res, 200, await this.scimService.patchUser(req.params.userId as string, Operations));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async deleteUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.scimService.deleteUser(req.params.userId as string);
+      res.status(204).end();
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async listGroups(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = this.parse(scimListQuerySchema, req.query);
+      this.send(res, 200, await this.scimService.listGroups(query, this.excludesMembers(query.excludedAttributes)));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async getGroup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { excludedAttributes } = this.parse(scimListQuerySchema, req.query);
+      this.send(
+        res,
+        200,
+        await this.scimService.getGroup(req.params.groupId as string, this.excludesMembers(excludedAttributes))
+      );
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async createGroup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const group = await this.scimService.createGroup(this.parse(scimGroupSchema, req.body));
+      res.setHeader('Location', group.meta.location);
+      this.send(res, 201, group);
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async replaceGroup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = this.parse(scimGroupSchema, req.body);
+      this.send(res, 200, await this.scimService.replaceGroup(req.params.groupId as string, data));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async patchGroup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { Operations } = this.parse(scimPatchSchema, req.body);
+      this.send(res, 200, await this.scimService.patchGroup(req.params.groupId as string, Operations));
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  async deleteGroup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.scimService.deleteGroup(req.params.groupId as string);
+      res.status(204).end();
+    } catch (error) {
+      this.sendScimError(req, res, next, error);
+    }
+  }
+
+  // Private helper methods
+
+  private parse<S extends ZodTypeAny>(schema: S, value: unknown): z.infer<S> {
+    const result = schema.safeParse(value);
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const detail = issue ? `${issue.path.join('.') || 'request'}: ${issue.message}` : 'Invalid request';
+      throw new ScimError(400, detail, 'invalidValue');
+    }
+
+    return result.data;
+  }
+
+  private excludesMembers(excludedAttributes: string | undefined): boolean {
+    return (excludedAttributes ?? '').split(',').some(attribute => attribute.trim().toLowerCase() === 'members');
+  }
+
+  private send(res: Response, status: number, body: unknown): void {
+    res.setHeader('Content-Type', SCIM_CONTENT_TYPE);
+    res.status(status).json(body);
+  }
+
+  private sendScimError(req: Request, res: Response, next: NextFunction, error: unknown): void {
+    // Role rules enforced by the RBAC service, such as keeping an administrator
+    if (error instanceof AuthError) {
+      error = new ScimError(400, error.message, 'invalidValue');
+    }
+
+    if (!(error instanceof ScimError)) {
+      next(error);
+      return;
+    }
+
+    logger.warn('SCIM request rejected', { requestId: req.id, path: req.path, status: error.status });
+    this.send(res, error.status, {
+      schemas: [SCIM_SCHEMAS.ERROR],
+      status: String(error.status),
+      ...(error.scimType && { scimType: error.scimType }),
+      detail: error.message,
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { ScimError } from '../../types/auth.types';
+
+export interface ScimFilterCondition {
+  // Lower-cased, e.g. "username" or "emails.value"
+  attribute: string;
+  value: string | boolean | null;
+}
+
+// One `attribute eq value` comparison, followed by `and` or the end of the filter
+const CONDITION = /\s*([A-Za-z][\w.]*)\s+eq\s+("(?:[^"\\]|\\.)*"|true|false|null)\s*(and\s+|$)/iy;
+
+/**
+ * Parse the filters directories send to look users and groups up, such as
+ * `userName eq "jane@example.com"`. Only equality joined by `and` is supported.
+ */
+export function parseScimFilter(filter: string): ScimFilterCondition[] {
+  const conditions: ScimFilterCondition[] = [];
+  CONDITION.lastIndex = 0;
+
+  for (;;) {
+    const match = CONDITION.exec(filter);
+    if (!match) {
+      throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+    }
+
+    const [, attribute, rawValue, conjunction] = match;
+    conditions.push({ attribute: attribute!.toLowerCase(), value: parseValue(rawValue!) });
+
+    if (!conjunction) break;
+  }
+
+  if (CONDITION.lastIndex < filter.length) {
+    throw new ScimError(400, `Unsupported filter: ${filter}`, 'invalidFilter');
+  }
+
+  return conditions;
+}
+
+function parseValue(rawValue: string): string | boolean | null {
+  const lower = rawValue.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  if (lower === 'null') return null;
+  return JSON.parse(rawValue) as string;
+}
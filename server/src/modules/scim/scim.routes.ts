@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ScimController } from './scim.controller';
+import { ScimService } from './scim.service';
+
+/**
+ * SCIM 2.0 provisioning endpoints called by the company directory (RFC 7644)
+ */
+export function createScimRoutes(prisma: PrismaClient): Router {
+  const router = Router();
+  const scimController = new ScimController(new ScimService(prisma));
+
+  router.use(scimController.authenticate.bind(scimController));
+
+  router.get(
+    '/ServiceProviderConfig',
+    scimController.serviceProviderConfig.bind(scimController)
+  );
+
+  // Users
+  router.get('/Users', scimController.listUsers.bind(scimController));
+  router.post('/Users', scimController.createUser.bind(scimController));
+  router.get('/Users/:userId', scimController.getUser.bind(scimController));
+  router.put('/Users/:userId', scimController.replaceUser.bind(scimController));
+  router.patch('/Users/:userId', scimController.patchUser.bind(scimController));
+  router.delete('/Users/:userId', scimController.deleteUser.bind(scimController));
+
+  // Groups are roles
+  router.get('/Groups', scimController.listGroups.bind(scimController));
+  router.post('/Groups', scimController.createGroup.bind(scimController));
+  router.get('/Groups/:groupId', scimController.getGroup.bind(scimController));
+  router.put('/Groups/:groupId', scimController.replaceGroup.bind(scimController));
+  router.patch('/Groups/:groupId', scimController.patchGroup.bind(scimController));
+  router.delete('/Groups/:groupId', scimController.deleteGroup.bind(scimController));
+
+  return router;
+}
@@ -0,0 +1,726 @@
+import { Prisma, PrismaClient, Role } from '@prisma/client';
+
+import { RbacService, DEFAULT_ROLE, ADMIN_ROLE } from '../auth/rbac.service';
+import { SessionRepository } from '../auth/session.repository';
+import { authConfig } from '../../config/auth.config';
+import { logger, auditLog } from '../../utils/logger';
+import { ScimError, ScimGroup, ScimListResponse, ScimUser } from '../../types/auth.types';
+import { parseScimFilter } from './scim.filter';
+import {
+  scimBooleanSchema,
+  scimMembersSchema,
+  scimUserSchema,
+  ScimGroupRequest,
+  ScimPatchOperation,
+  ScimUserRequest,
+} from './scim.validators';
+
+// Recorded as the actor of audit events raised by provisioning requests
+export const SCIM_AUDIT_ACTOR = 'scim';
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+} as const;
+
+const userInclude = {
+  roles: { include: { role: true }, orderBy: { role: { name: 'asc' } } },
+} satisfies Prisma.UserInclude;
+
+type ScimUserRecord = Prisma.UserGetPayload<{ include: typeof userInclude }>;
+
+const groupInclude = {
+  users: { include: { user: { select: { id: true, email: true } } } },
+} satisfies Prisma.RoleInclude;
+
+type ScimGroupRecord = Prisma.RoleGetPayload<{ include: typeof groupInclude }>;
+
+// What provisioning can change on a user
+interface UserAttributes {
+  email: string;
+  externalId: string | null;
+  name: string | null;
+  active: boolean;
+  roles: string[];
+}
+
+export interface ScimListOptions {
+  filter?: string | undefined;
+  startIndex?: number | undefined;
+  count?: number | undefined;
+}
+
+const ROLE_NAME = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+/**
+ * Users and groups as a company directory provisions them over SCIM 2.0. Groups are roles:
+ * group membership is role assignment, and permissions are still granted in SmartTask.
+ */
+export class ScimService {
+  private prisma: PrismaClient;
+  private rbacService: RbacService;
+  private sessionRepository: SessionRepository;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.rbacService = new RbacService(prisma);
+    this.sessionRepository = new SessionRepository(prisma);
+  }
+
+  get isEnabled(): boolean {
+    return Boolean(authConfig.scim.bearerToken);
+  }
+
+  /**
+   * What this provider supports, for directories that discover it
+   */
+  getServiceProviderConfig() {
+    return {
+      schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: authConfig.scim.maxPageSize },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer token',
+          description: 'The SCIM bearer token configured in SmartTask',
+          primary: true,
+        },
+      ],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${this.baseUrl}/ServiceProviderConfig` },
+    };
+  }
+
+  // Users
+
+  async listUsers(options: ScimListOptions): Promise<ScimListResponse<ScimUser>> {
+    const where: Prisma.UserWhereInput = {
+      AND: (options.filter ? parseScimFilter(options.filter) : []).map(({ attribute, value }) => {
+        switch (attribute) {
+          case 'username':
+          case 'emails.value':
+            return { email: String(value).toLowerCase() };
+          case 'externalid':
+            return { externalId: value === null ? null : String(value) };
+          case 'id':
+            return { id: String(value) };
+          case 'active':
+            return { isActive: value === true };
+          default:
+            throw new ScimError(400, `Filtering users by ${attribute} is not supported`, 'invalidFilter');
+        }
+      }),
+    };
+
+    const { skip, take, startIndex } = this.page(options);
+    const [totalResults, users] = await Promise.all([
+      this.prisma.user.count({ where }),
+      this.prisma.user.findMany({ where, include: userInclude, orderBy: { createdAt: 'asc' }, skip, take }),
+    ]);
+
+    return this.listResponse(users.map(user => this.toScimUser(user)), totalResults, startIndex);
+  }
+
+  async getUser(userId: string): Promise<ScimUser> {
+    return this.toScimUser(await this.findUser(userId));
+  }
+
+  /**
+   * Create an account for someone who joined the directory. They sign in through single
+   * sign-on or a magic link; the email address is trusted because the directory manages it.
+   */
+  async createUser(data: ScimUserRequest): Promise<ScimUser> {
+    await this.assertUniqueUser(data.userName, data.externalId ?? null);
+    const roles = await this.resolveRoleNames((data.roles ?? []).map(role => role.value));
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: data.userName,
+        name: this.nameFrom(data),
+        externalId: data.externalId ?? null,
+        isActive: data.active,
+        emailVerified: new Date(),
+      },
+    });
+
+    await this.rbacService.setUserRoles(user.id, roles);
+
+    logger.info('User provisioned through SCIM', { userId: user.id });
+    auditLog('scim_user_provisioned', user.id, undefined, undefined, { externalId: user.externalId, roles });
+
+    return this.getUser(user.id);
+  }
+
+  /**
+   * Replace a user's attributes. Roles are kept when the directory does not send any.
+   */
+  async replaceUser(userId: string, data: ScimUserRequest): Promise<ScimUser> {
+    const user = await this.findUser(userId);
+
+    return this.saveUser(user, {
+      email: data.userName,
+      externalId: data.externalId ?? null,
+      name: this.nameFrom(data),
+      active: data.active,
+      roles: data.roles ? data.roles.map(role => role.value) : this.userAttributes(user).roles,
+    });
+  }
+
+  async patchUser(userId: string, operations: ScimPatchOperation[]): Promise<ScimUser> {
+    const user = await this.findUser(userId);
+    const attributes = this.userAttributes(user);
+
+    for (const operation of operations) {
+      if (operation.path) {
+        this.applyUserOperation(attributes, operation.op, operation.path, operation.value);
+      } else if (this.isObject(operation.value) && operation.op !== 'remove') {
+        // Without a path the value holds the attributes to change, e.g. { "active": false }
+        for (const [path, value] of Object.entries(operation.value)) {
+          this.applyUserOperation(attributes, operation.op, path, value);
+        }
+      } else {
+        throw new ScimError(400, 'Operation requires a path', 'noTarget');
+      }
+    }
+
+    return this.saveUser(user, attributes);
+  }
+
+  /**
+   * Remove someone who left the directory, signing them out everywhere first
+   */
+  async deleteUser(userId: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (user.roles.some(({ role }) => role.name === ADMIN_ROLE)) {
+      const admins = await this.prisma.userRole.count({ where: { role: { name: ADMIN_ROLE } } });
+      if (admins <= 1) {
+        throw new ScimError(400, 'At least one administrator is required', 'mutability');
+      }
+    }
+
+    await this.sessionRepository.revokeAllSessionsByUserId(user.id);
+    await this.prisma.user.delete({ where: { id: user.id } });
+
+    logger.info('User deprovisioned through SCIM', { userId: user.id });
+    auditLog('scim_user_deleted', user.id, undefined, undefined, { externalId: user.externalId });
+  }
+
+  // Groups
+
+  async listGroups(options: ScimListOptions, excludeMembers = false): Promise<ScimListResponse<ScimGroup>> {
+    const where: Prisma.RoleWhereInput = {
+      AND: (options.filter ? parseScimFilter(options.filter) : []).map(({ attribute, value }) => {
+        switch (attribute) {
+          case 'displayname':
+            // A name that cannot become a role name matches no role
+            return { name: this.roleNameFor(String(value)) ?? '' };
+          case 'id':
+            return { id: String(value) };
+          case 'members.value':
+            return { users: { some: { userId: String(value) } } };
+          default:
+            throw new ScimError(400, `Filtering groups by ${attribute} is not supported`, 'invalidFilter');
+        }
+      }),
+    };
+
+    const { skip, take, startIndex } = this.page(options);
+    const [totalResults, roles] = await Promise.all([
+      this.prisma.role.count({ where }),
+      this.prisma.role.findMany({ where, include: groupInclude, orderBy: { name: 'asc' }, skip, take }),
+    ]);
+
+    return this.listResponse(roles.map(role => this.toScimGroup(role, excludeMembers)), totalResults, startIndex);
+  }
+
+  async getGroup(groupId: string, excludeMembers = false): Promise<ScimGroup> {
+    return this.toScimGroup(await this.findGroup(groupId), excludeMembers);
+  }
+
+  /**
+   * Create a role without permissions; administrators grant those in SmartTask
+   */
+  async createGroup(data: ScimGroupRequest): Promise<ScimGroup> {
+    const name = this.toRoleName(data.displayName);
+
+    const existing = await this.prisma.role.findUnique({ where: { name } });
+    if (existing) {
+      throw new ScimError(409, `A group named ${name} already exists`, 'uniqueness');
+    }
+
+    const members = (data.members ?? []).map(member => member.value);
+    await this.resolveUserIds(members);
+
+    const role = await this.rbacService.createRole({
+      name,
+      description: 'Provisioned from the company directory',
+      permissions: [],
+    });
+
+    await this.updateMembers(await this.findGroup(role.id), members, []);
+
+    return this.getGroup(role.id);
+  }
+
+  /**
+   * Rename a group and replace its members. Members are kept when the directory does not send any.
+   */
+  async replaceGroup(groupId: string, data: ScimGroupRequest): Promise<ScimGroup> {
+    const role = await this.findGroup(groupId);
+
+    await this.renameGroup(role, data.displayName);
+
+    if (data.members) {
+      const desired = data.members.map(member => member.value);
+      const current = role.users.map(assignment => assignment.userId);
+      await this.updateMembers(
+        role,
+        desired.filter(userId => !current.includes(userId)),
+        current.filter(userId => !desired.includes(userId))
+      );
+    }
+
+    return this.getGroup(groupId);
+  }
+
+  async patchGroup(groupId: string, operations: ScimPatchOperation[]): Promise<ScimGroup> {
+    const role = await this.findGroup(groupId);
+    const current = role.users.map(assignment => assignment.userId);
+    const members = new Set(current);
+    let displayName: string | undefined;
+
+    for (const operation of operations) {
+      const changes: Array<[string, unknown]> = operation.path
+        ? [[operation.path, operation.value]]
+        : this.isObject(operation.value) && operation.op !== 'remove'
+          ? Object.entries(operation.value)
+          : [];
+
+      if (changes.length === 0) {
+        throw new ScimError(400, 'Operation requires a path', 'noTarget');
+      }
+
+      for (const [path, value] of changes) {
+        const attribute = path.toLowerCase();
+        const memberFilter = /^members\[value eq "([^"]+)"\]$/i.exec(path);
+
+        if (attribute === 'displayname') {
+          if (operation.op === 'remove') {
+            throw new ScimError(400, 'displayName cannot be removed', 'mutability');
+          }
+          displayName = this.requireString(value, path);
+        } else if (memberFilter && operation.op === 'remove') {
+          members.delete(memberFilter[1]!);
+        } else if (attribute === 'members') {
+          const userIds = value === undefined ? [] : this.memberIds(value);
+
+          if (operation.op === 'replace') {
+            members.clear();
+          }
+          if (operation.op === 'remove') {
+            // Without a value every member is removed
+            (value === undefined ? [...members] : userIds).forEach(userId => members.delete(userId));
+          } else {
+            userIds.forEach(userId => members.add(userId));
+          }
+        }
+        // Other attributes are not stored and are ignored
+      }
+    }
+
+    if (displayName !== undefined) {
+      await this.renameGroup(role, displayName);
+    }
+
+    await this.updateMembers(
+      role,
+      [...members].filter(userId => !current.includes(userId)),
+      current.filter(userId => !members.has(userId))
+    );
+
+    return this.getGroup(groupId);
+  }
+
+  async deleteGroup(groupId: string): Promise<void> {
+    const role = await this.findGroup(groupId);
+
+    if (role.isSystem) {
+      throw new ScimError(400, 'Built-in roles cannot be deleted', 'mutability');
+    }
+
+    await this.rbacService.deleteRole(role.id);
+  }
+
+  // Private helper methods
+
+  private get baseUrl(): string {
+    return `${authConfig.oauth.issuer}/scim/v2`;
+  }
+
+  private page(options: ScimListOptions) {
+    // startIndex is 1-based; values below 1 are read as 1
+    const startIndex = Math.max(1, options.startIndex ?? 1);
+    const count = Math.min(Math.max(0, options.count ?? authConfig.scim.defaultPageSize), authConfig.scim.maxPageSize);
+
+    return { skip: startIndex - 1, take: count, startIndex };
+  }
+
+  private listResponse<T>(resources: T[], totalResults: number, startIndex: number): ScimListResponse<T> {
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources,
+    };
+  }
+
+  private async findUser(userId: string): Promise<ScimUserRecord> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, include: userInclude });
+
+    if (!user) {
+      throw new ScimError(404, `User ${userId} not found`);
+    }
+
+    return user;
+  }
+
+  private async findGroup(groupId: string): Promise<ScimGroupRecord> {
+    const role = await this.prisma.role.findUnique({ where: { id: groupId }, include: groupInclude });
+
+    if (!role) {
+      throw new ScimError(404, `Group ${groupId} not found`);
+    }
+
+    return role;
+  }
+
+  private async assertUniqueUser(email: string, externalId: string | null, userId?: string): Promise<void> {
+    const byEmail = await this.prisma.user.findUnique({ where: { email } });
+    if (byEmail && byEmail.id !== userId) {
+      throw new ScimError(409, 'A user with this userName already exists', 'uniqueness');
+    }
+
+    if (externalId) {
+      const byExternalId = await this.prisma.user.findUnique({ where: { externalId } });
+      if (byExternalId && byExternalId.id !== userId) {
+        throw new ScimError(409, 'A user with this externalId already exists', 'uniqueness');
+      }
+    }
+  }
+
+  private userAttributes(user: ScimUserRecord): UserAttributes {
+    return {
+      email: user.email,
+      externalId: user.externalId,
+      name: user.name,
+      active: user.isActive,
+      roles: user.roles.map(({ role }) => role.name),
+    };
+  }
+
+  private applyUserOperation(attributes: UserAttributes, op: string, path: string, value: unknown): void {
+    // Core attributes may be sent fully qualified, e.g. "urn:...:core:2.0:User:active"
+    const attribute = path.replace(new RegExp(`^${SCIM_SCHEMAS.USER}:`, 'i'), '').toLowerCase();
+    const remove = op === 'remove';
+
+    if (attribute === 'active') {
+      if (remove) {
+        throw new ScimError(400, 'active cannot be removed', 'mutability');
+      }
+      const active = scimBooleanSchema.safeParse(value);
+      if (!active.success) {
+        throw new ScimError(400, 'active must be a boolean', 'invalidValue');
+      }
+      attributes.active = active.data;
+    } else if (attribute === 'username' || attribute.startsWith('emails')) {
+      if (remove) {
+        throw new ScimError(400, `${path} cannot be removed`, 'mutability');
+      }
+      attributes.email = this.emailFrom(value, path);
+    } else if (attribute === 'externalid') {
+      attributes.externalId = remove ? null : this.requireString(value, path);
+    } else if (attribute === 'displayname' || attribute === 'name.formatted') {
+      attributes.name = remove ? null : this.requireString(value, path) || null;
+    } else if (attribute === 'name') {
+      const name = scimUserSchema.shape.name.safeParse(value);
+      if (!remove && !name.success) {
+        throw new ScimError(400, 'name must be an object', 'invalidValue');
+      }
+      attributes.name = remove ? null : this.nameFrom(name.success && name.data ? { name: name.data } : {});
+    } else if (attribute === 'name.givenname' || attribute === 'name.familyname') {
+      const [givenName = '', ...familyName] = (attributes.name ?? '').split(' ');
+      const part = remove ? '' : this.requireString(value, path);
+      attributes.name = attribute === 'name.givenname'
+        ? this.joinName(part, familyName.join(' '))
+        : this.joinName(givenName, part);
+    } else if (attribute === 'roles' || attribute.startsWith('roles[')) {
+      attributes.roles = this.applyRoleOperation(attributes.roles, op, path, value);
+    }
+    // Other attributes are not stored and are ignored
+  }
+
+  private applyRoleOperation(roles: string[], op: string, path: string, value: unknown): string[] {
+    const roleFilter = /^roles\[value eq "([^"]+)"\]$/i.exec(path);
+    if (roleFilter && op === 'remove') {
+      return roles.filter(role => role !== roleFilter[1]);
+    }
+
+    const values = value === undefined ? [] : this.memberIds(value);
+
+    switch (op) {
+      case 'add':
+        return [...new Set([...roles, ...values])];
+      case 'replace':
+        return values;
+      default:
+        // Without a value every role is removed
+        return value === undefined ? [] : roles.filter(role => !values.includes(role));
+    }
+  }
+
+  private async saveUser(user: ScimUserRecord, attributes: UserAttributes): Promise<ScimUser> {
+    await this.assertUniqueUser(attributes.email, attributes.externalId, user.id);
+
+    const currentRoles = new Set([DEFAULT_ROLE, ...this.userAttributes(user).roles]);
+    const roles = new Set([DEFAULT_ROLE, ...attributes.roles]);
+    const rolesChanged = roles.size !== currentRoles.size || [...roles].some(role => !currentRoles.has(role));
+
+    if (rolesChanged) {
+      await this.rbacService.setUserRoles(user.id, await this.resolveRoleNames([...roles]));
+    }
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: attributes.email,
+        name: attributes.name,
+        externalId: attributes.externalId,
+        isActive: attributes.active,
+        ...(attributes.email !== user.email && { emailVerified: new Date() }),
+      },
+    });
+
+    if (user.isActive && !attributes.active) {
+      // Deprovisioned: end every session now rather than when the access token expires
+      const revoked = await this.sessionRepository.revokeAllSessionsByUserId(user.id);
+      logger.info('User deactivated through SCIM', { userId: user.id, revoked });
+      auditLog('scim_user_deactivated', user.id, undefined, undefined, { externalId: attributes.externalId });
+    } else if (!user.isActive && attributes.active) {
+      logger.info('User reactivated through SCIM', { userId: user.id });
+      auditLog('scim_user_reactivated', user.id, undefined, undefined, { externalId: attributes.externalId });
+    }
+
+    auditLog('scim_user_updated', user.id, undefined, undefined, {
+      emailChanged: attributes.email !== user.email,
+      rolesChanged,
+    });
+
+    return this.getUser(user.id);
+  }
+
+  private async resolveRoleNames(names: string[]): Promise<string[]> {
+    const unique = [...new Set(names)];
+    const roles = await this.prisma.role.findMany({ where: { name: { in: unique } } });
+
+    const missing = unique.filter(name => !roles.some(role => role.name === name));
+    if (missing.length > 0) {
+      throw new ScimError(400, `Unknown roles: ${missing.join(', ')}`, 'invalidValue');
+    }
+
+    return unique;
+  }
+
+  private async resolveUserIds(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const users = await this.prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true } });
+
+    const missing = userIds.filter(userId => !users.some(user => user.id === userId));
+    if (missing.length > 0) {
+      throw new ScimError(400, `Unknown members: ${missing.join(', ')}`, 'invalidValue');
+    }
+  }
+
+  private async renameGroup(role: ScimGroupRecord, displayName: string): Promise<void> {
+    const name = this.toRoleName(displayName);
+    if (name === role.name) return;
+
+    if (role.isSystem) {
+      throw new ScimError(400, 'Built-in roles cannot be renamed', 'mutability');
+    }
+
+    const existing = await this.prisma.role.findUnique({ where: { name } });
+    if (existing) {
+      throw new ScimError(409, `A group named ${name} already exists`, 'uniqueness');
+    }
+
+    await this.prisma.role.update({ where: { id: role.id }, data: { name } });
+
+    logger.info('Role renamed through SCIM', { roleId: role.id, name });
+    auditLog('scim_group_renamed', undefined, undefined, undefined, { roleId: role.id, from: role.name, to: name });
+  }
+
+  private async updateMembers(role: Role, add: string[], remove: string[]): Promise<void> {
+    // Every account holds the default role; only its explicit assignments change
+    const removed = role.name === DEFAULT_ROLE ? [] : remove;
+    if (add.length === 0 && removed.length === 0) return;
+
+    await this.resolveUserIds(add);
+    const defaultRole = await this.prisma.role.findUnique({ where: { name: DEFAULT_ROLE } });
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const userId of add) {
+        // Accounts without assignments hold the default role implicitly; keep it explicitly
+        for (const roleId of new Set([role.id, defaultRole?.id ?? role.id])) {
+          await tx.userRole.upsert({
+            where: { userId_roleId: { userId, roleId } },
+            create: { userId, roleId },
+            update: {},
+          });
+        }
+      }
+
+      if (removed.length > 0) {
+        await tx.userRole.deleteMany({ where: { roleId: role.id, userId: { in: removed } } });
+      }
+
+      // Never leave the system without an administrator
+      if (role.name === ADMIN_ROLE && removed.length > 0) {
+        const admins = await tx.userRole.count({ where: { roleId: role.id } });
+        if (admins === 0) {
+          throw new ScimError(400, 'At least one administrator is required', 'mutability');
+        }
+      }
+    });
+
+    logger.info('Group members updated through SCIM', { roleId: role.id, added: add.length, removed: removed.length });
+    auditLog('scim_group_members_updated', undefined, undefined, undefined, {
+      roleId: role.id,
+      added: add,
+      removed,
+    });
+  }
+
+  private toScimUser(user: ScimUserRecord): ScimUser {
+    const [givenName, ...familyName] = (user.name ?? '').split(' ');
+
+    return {
+      schemas: [SCIM_SCHEMAS.USER],
+      id: user.id,
+      externalId: user.externalId ?? undefined,
+      userName: user.email,
+      name: user.name
+        ? { formatted: user.name, givenName, familyName: familyName.join(' ') || undefined }
+        : {},
+      displayName: user.name ?? undefined,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      active: user.isActive,
+      roles: user.roles.map(({ role }) => ({ value: role.name })),
+      groups: user.roles.map(({ role }) => ({
+        value: role.id,
+        display: role.name,
+        $ref: `${this.baseUrl}/Groups/${role.id}`,
+      })),
+      meta: {
+        resourceType: 'User',
+        created: user.createdAt.toISOString(),
+        lastModified: user.updatedAt.toISOString(),
+        location: `${this.baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+
+  private toScimGroup(role: ScimGroupRecord, excludeMembers: boolean): ScimGroup {
+    return {
+      schemas: [SCIM_SCHEMAS.GROUP],
+      id: role.id,
+      displayName: role.name,
+      members: excludeMembers
+        ? undefined
+        : role.users.map(({ user }) => ({
+          value: user.id,
+          display: user.email,
+          $ref: `${this.baseUrl}/Users/${user.id}`,
+        })),
+      meta: {
+        resourceType: 'Group',
+        created: role.createdAt.toISOString(),
+        lastModified: role.updatedAt.toISOString(),
+        location: `${this.baseUrl}/Groups/${role.id}`,
+      },
+    };
+  }
+
+  /**
+   * Role names are upper-case identifiers, so "Engineering Leads" becomes ENGINEERING_LEADS
+   */
+  private roleNameFor(displayName: string): string | null {
+    const name = displayName.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return ROLE_NAME.test(name) ? name : null;
+  }
+
+  private toRoleName(displayName: string): string {
+    const name = this.roleNameFor(displayName);
+
+    if (!name) {
+      throw new ScimError(400, `"${displayName}" cannot be used as a role name`, 'invalidValue');
+    }
+
+    return name;
+  }
+
+  private nameFrom(data: Pick<ScimUserRequest, 'name' | 'displayName'>): string | null {
+    return data.name?.formatted
+      || this.joinName(data.name?.givenName ?? '', data.name?.familyName ?? '')
+      || data.displayName
+      || null;
+  }
+
+  private joinName(givenName: string, familyName: string): string | null {
+    return [givenName, familyName].filter(Boolean).join(' ') || null;
+  }
+
+  private emailFrom(value: unknown, path: string): string {
+    // "emails" carries a list; the primary address, or the first, is the user name
+    const email = Array.isArray(value)
+      ? (value.find(item => this.isObject(item) && item.primary === true) ?? value[0])?.value
+      : this.isObject(value) ? value.value : value;
+
+    const parsed = scimUserSchema.shape.userName.safeParse(email);
+    if (!parsed.success) {
+      throw new ScimError(400, `${path} must be an email address`, 'invalidValue');
+    }
+
+    return parsed.data;
+  }
+
+  private memberIds(value: unknown): string[] {
+    const members = scimMembersSchema.safeParse(Array.isArray(value) ? value : [value]);
+    if (!members.success) {
+      throw new ScimError(400, 'Values must be objects with a value attribute', 'invalidValue');
+    }
+
+    return members.data.map(member => member.value);
+  }
+
+  private requireString(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+      throw new ScimError(400, `${path} must be a string`, 'invalidValue');
+    }
+
+    return value.trim();
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
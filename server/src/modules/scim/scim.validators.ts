@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+// Directories send attributes SmartTask does not store (titles, phone numbers, extension
+// schemas); those are accepted and ignored rather than failing the sync
+
+const scimNameSchema = z
+  .object({
+    formatted: z.string().trim().max(100).optional(),
+    givenName: z.string().trim().max(100).optional(),
+    familyName: z.string().trim().max(100).optional(),
+  })
+  .passthrough();
+
+// Some directories send booleans as "True"/"False"
+export const scimBooleanSchema = z.union([
+  z.boolean(),
+  z.enum(['true', 'false', 'True', 'False']).transform(value => value.toLowerCase() === 'true'),
+]);
+
+export const scimUserSchema = z
+  .object({
+    userName: z.string().trim().toLowerCase().email('userName must be an email address').max(255),
+    externalId: z.string().min(1).max(255).optional(),
+    name: scimNameSchema.optional(),
+    displayName: z.string().trim().max(100).optional(),
+    active: scimBooleanSchema.default(true),
+    roles: z.array(z.object({ value: z.string().min(1) }).passthrough()).optional(),
+  })
+  .passthrough();
+
+const scimMemberSchema = z.object({ value: z.string().min(1) }).passthrough();
+
+export const scimMembersSchema = z.array(scimMemberSchema);
+
+export const scimGroupSchema = z
+  .object({
+    displayName: z.string().trim().min(1, 'displayName is required').max(100),
+    members: scimMembersSchema.optional(),
+  })
+  .passthrough();
+
+export const scimPatchSchema = z
+  .object({
+    Operations: z
+      .array(
+        z
+          .object({
+            op: z
+              .string()
+              .transform(value => value.toLowerCase())
+              .pipe(z.enum(['add', 'replace', 'remove'])),
+            path: z.string().min(1).optional(),
+            value: z.unknown().optional(),
+          })
+          .passthrough()
+      )
+      .min(1, 'At least one operation is required'),
+  })
+  .passthrough();
+
+export const scimListQuerySchema = z
+  .object({
+    filter: z.string().optional(),
+    startIndex: z.coerce.number().int().optional(),
+    count: z.coerce.number().int().optional(),
+    excludedAttributes: z.string().optional(),
+  })
+  .passthrough();
+
+// Type exports
+export type ScimUserRequest = z.infer<typeof scimUserSchema>;
+export type ScimGroupRequest = z.infer<typeof scimGroupSchema>;
+export type ScimPatchOperation = z.infer<typeof scimPatchSchema>['Operations'][number];
+export type ScimListQuery = z.infer<typeof scimListQuerySchema>;
@@ -4,6 +4,15 @@ import { Request } from 'express';
 export interface JWTAccessPayload {
   userId: string;
   email: string;
+  roles: string[];
+  permissions: string[];
+  organizationId?: string | undefined;
+  organizationRole?: OrganizationRole | undefined;
+  // When the user last signed in or re-authenticated in the session, in seconds since the epoch
+  authTime?: number | undefined;
+  // Present on tokens issued to an administrator impersonating userId
+  actorId?: string | undefined;
+  impersonationId?: string | undefined;
   type: 'access';
   iat: number;
   exp: number;
@@ -18,11 +27,27 @@ export interface JWTRefreshPayload {
 }
 
 // Request types with user context
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  roles: string[];
+  permissions: string[];
+  sessionId?: string | undefined;
+  // Set when the request was authenticated with a personal access token
+  tokenId?: string | undefined;
+  scopes?: string[] | undefined;
+  // Organization the session is working in, if the user belongs to any
+  organizationId?: string | undefined;
+  organizationRole?: OrganizationRole | undefined;
+  // Seconds since the epoch; absent for personal access tokens and impersonation
+  authTime?: number | undefined;
+  // Set when an administrator is acting as this user
+  actorId?: string | undefined;
+  impersonationId?: string | undefined;
+}
+
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    userId: string;
-    email: string;
-  };
+  user?: AuthenticatedUser;
   id?: string; // Add request ID property
 }
 
@@ -43,26 +68,461 @@ export interface AuthResponse {
     id: string;
     email: string;
     name?: string;
+    roles: string[];
   };
   accessToken: string;
   refreshToken: string; // Add missing refreshToken property
 }
 
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+// Sign-in the risk checks want confirmed with an emailed code
+export interface LoginVerificationResponse {
+  verificationRequired: true;
+  verificationToken: string;
+}
+
+export type LoginResult = AuthResponse | MfaChallengeResponse | LoginVerificationResponse;
+
+// Login risk assessment
+export type LoginRiskSignal =
+  | 'new_device'
+  | 'new_network'
+  | 'impossible_travel'
+  | 'repeated_failures'
+  | 'ip_failure_burst';
+
+export type LoginRiskDecision = 'allow' | 'notify' | 'challenge' | 'block';
+
+export interface LoginRiskAssessment {
+  decision: LoginRiskDecision;
+  score: number;
+  signals: LoginRiskSignal[];
+}
+
+export interface JWTMfaChallengePayload {
+  userId: string;
+  type: 'mfa_challenge';
+  iat: number;
+  exp: number;
+}
+
+// Second factor submitted after a password challenge
+export interface SecondFactorInput {
+  code?: string | undefined;
+  recoveryCode?: string | undefined;
+}
+
+// Proof of identity before a sensitive action: the password or a second factor
+export interface ReauthenticationInput extends SecondFactorInput {
+  password?: string | undefined;
+}
+
+export interface TotpSetupResponse {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+// WebAuthn ceremony options paired with the stored challenge they belong to
+export interface WebAuthnOptionsResponse<T> {
+  challengeId: string;
+  options: T;
+}
+
+export interface WebAuthnCredentialSummary {
+  id: string;
+  name: string | null;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// Roles and the permissions they grant, as embedded in access tokens
+export interface UserAuthorization {
+  roles: string[];
+  permissions: string[];
+}
+
+export interface RoleSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  isSystem: boolean;
+  userCount: number;
+  createdAt: Date;
+}
+
+// Admin user management types
+export type AdminUserStatus = 'active' | 'locked' | 'inactive';
+
+export interface AdminUserListQuery {
+  search?: string | undefined;
+  status?: AdminUserStatus | undefined;
+  page: number;
+  pageSize: number;
+}
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  name: string | null;
+  roles: string[];
+  isActive: boolean;
+  isLocked: boolean;
+  lockedUntil: Date | null;
+  passwordResetRequired: boolean;
+  emailVerified: Date | null;
+  mfaEnabled: boolean;
+  createdAt: Date;
+}
+
+export interface AdminUserDetail extends AdminUserSummary {
+  failedLoginAttempts: number;
+  permissions: string[];
+  activeSessionCount: number;
+  passkeyCount: number;
+  updatedAt: Date;
+}
+
+// A support session in which an administrator sees the app as another user
+export interface ImpersonationSummary {
+  id: string;
+  actorId: string;
+  targetUserId: string;
+  reason: string;
+  expiresAt: Date;
+}
+
+export interface ImpersonationStart {
+  accessToken: string;
+  user: AuthResponse['user'];
+  impersonation: ImpersonationSummary;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditEventData {
+  id: string;
+  event: string;
+  userId: string | null;
+  actorId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface AuditEventQuery {
+  event?: string | undefined;
+  excludeEvents?: string[] | undefined;
+  userId?: string | undefined;
+  actorId?: string | undefined;
+  ip?: string | undefined;
+  requestId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  page: number;
+  pageSize: number;
+}
+
+// What a user sees of their own audit trail; details stay admin-only
+export type SecurityActivityEntry = Pick<AuditEventData, 'id' | 'event' | 'ip' | 'userAgent' | 'createdAt'>;
+
 export interface RefreshResponse {
   accessToken: string;
+  refreshToken: string;
 }
 
 // Session types
 export interface SessionData {
   id: string;
   userId: string;
-  refreshToken: string;
+  refreshTokenHash: string;
+  familyId: string | null;
   isRevoked: boolean;
+  consumedAt: Date | null;
+  ip: string | null;
+  userAgent: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  location: string | null;
+  lastUsedAt: Date | null;
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** A new email address waiting for the user to confirm it from that mailbox */
+export interface PendingEmailChange {
+  email: string;
+  expiresAt: Date;
+}
+
+/** A signed-in device as shown to its owner */
+export interface SessionSummary {
+  id: string;
+  ip: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  location: string | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// Personal access token as listed to its owner; the token itself is only returned on creation
+export interface PersonalAccessTokenSummary {
+  id: string;
+  name: string;
+  hint: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+}
+
+export interface CreatedPersonalAccessToken {
+  token: string;
+  personalAccessToken: PersonalAccessTokenSummary;
+}
+
+// OpenID Connect provider offered on the sign-in page
+export interface OidcProviderSummary {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorizationStart {
+  authorizationUrl: string;
+  // Echoed back by the provider; the client keeps it to check the callback is one it started
+  state: string;
+}
+
+// Provider account linked to a user
+export interface LinkedIdentitySummary {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// Application registered with the OpenID Connect provider; the secret is only returned on creation
+export interface OAuthClientSummary {
+  id: string;
+  clientId: string;
+  name: string;
+  confidential: boolean;
+  redirectUris: string[];
+  scopes: string[];
+  grantTypes: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatedOAuthClient {
+  client: OAuthClientSummary;
+  // Null for public clients
+  clientSecret: string | null;
+}
+
+// What the consent screen shows for a validated authorization request
+export interface OAuthAuthorizationPrompt {
+  client: { clientId: string; name: string };
+  scopes: string[];
+  // False when the user already agreed to every requested scope
+  consentRequired: boolean;
+}
+
+// Where to send the browser back to the client, with a code or an error
+export interface OAuthAuthorizationRedirect {
+  redirectUrl: string;
+}
+
+// App a user has let access their account
+export interface OAuthConsentSummary {
+  clientId: string;
+  name: string;
+  scopes: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+// Password rules published to the client; breached and banned words are only checked server-side
+export interface PasswordPolicySummary {
+  minLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  minStrength: number;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+// Organizations
+export type DataExportStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED';
+
+/** A requested copy of the user's data, without the archive itself */
+export interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  // Set once the archive is ready and until it expires
+  downloadUrl: string | null;
+}
+
+export type OrganizationRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['OWNER', 'ADMIN', 'MEMBER'];
+
+export interface ActiveOrganization {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationSummary {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+export interface OrganizationMemberSummary {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitationSummary {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// What the invited user sees before accepting or declining
+export interface OrganizationInvitationPreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
+  expiresAt: Date;
+}
+
+// SAML single sign-on
+export type SamlBinding = 'HTTP-Redirect' | 'HTTP-POST';
+
+export const SAML_BINDINGS: SamlBinding[] = ['HTTP-Redirect', 'HTTP-POST'];
+
+// An organization's identity provider, and the service provider details to register with it
+export interface SamlConnectionSummary {
+  id: string;
+  organizationId: string;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificate: string;
+  authnRequestBinding: SamlBinding;
+  domains: string[];
+  // Domains only sign users in once the TXT record proving the organization controls them is found
+  domainVerifications: SamlDomainVerification[];
+  jitProvisioning: boolean;
+  defaultRole: OrganizationRole;
+  enabled: boolean;
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SamlDomainVerification {
+  domain: string;
+  verifiedAt: Date | null;
+  // The DNS TXT record to publish
+  recordName: string;
+  recordValue: string;
+}
+
+// Redirect bindings are followed; POST bindings have the browser post the fields to the URL
+export interface SamlAuthnRequestStart {
+  binding: SamlBinding;
+  url: string;
+  fields?: Record<string, string> | undefined;
+}
+
+// SCIM provisioning resources (RFC 7643)
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string | undefined;
+  userName: string;
+  name: { formatted?: string | undefined; givenName?: string | undefined; familyName?: string | undefined };
+  displayName?: string | undefined;
+  emails: Array<{ value: string; type: string; primary: boolean }>;
+  active: boolean;
+  roles: Array<{ value: string }>;
+  groups: Array<{ value: string; display: string; $ref: string }>;
+  meta: ScimMeta;
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: Array<{ value: string; display: string; $ref: string }> | undefined;
+  meta: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
 // User types
 export interface UserData {
   id: string;
@@ -89,6 +549,32 @@ export class AuthError extends Error {
   }
 }
 
+// Error returned to OAuth clients in the format RFC 6749 prescribes, e.g. invalid_grant
+export class OAuthError extends Error {
+  public error: string;
+  public statusCode: number;
+
+  constructor(error: string, description: string, statusCode = 400) {
+    super(description);
+    this.name = 'OAuthError';
+    this.error = error;
+    this.statusCode = statusCode;
+  }
+}
+
+// Error returned to directories in the SCIM format (RFC 7644 section 3.12), e.g. uniqueness
+export class ScimError extends Error {
+  public status: number;
+  public scimType?: string | undefined;
+
+  constructor(status: number, detail: string, scimType?: string | undefined) {
+    super(detail);
+    this.name = 'ScimError';
+    this.status = status;
+    this.scimType = scimType;
+  }
+}
+
 // Rate limiting types
 export interface RateLimitInfo {
   limit: number;
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { authConfig } from '../config/auth.config';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const FORMAT_VERSION = 'v1';
+
+function getKey(): Buffer {
+  return crypto.createHash('sha256').update(authConfig.mfa.encryptionKey).digest();
+}
+
+/**
+ * Encrypt a secret that has to be recoverable (e.g. a TOTP seed) before storing it
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Request } from 'express';
 
 // Custom format for request ID
@@ -72,6 +73,54 @@ export const auditLogger = winston.createLogger({
   ]
 });
 
+export interface AuditEventEntry {
+  event: string;
+  userId?: string | undefined;
+  actorId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  requestId?: string | undefined;
+  details?: Record<string, unknown> | undefined;
+}
+
+// Request metadata for audit events raised deep inside services
+interface AuditContext {
+  requestId?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  // The administrator behind a request made while impersonating, or the SCIM directory
+  actorId?: string | undefined;
+  impersonationId?: string | undefined;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+// Mount after body parsing: parsers resume the request stream outside this context
+export const auditContextMiddleware = (req: Request, _res: any, next: any) => {
+  auditContext.run({ requestId: req.id, ip: req.ip, userAgent: req.get('User-Agent') }, next);
+};
+
+// Attribute every event for the rest of the request to whoever acts on the user's behalf:
+// an impersonating administrator, or the directory calling SCIM
+export function setAuditActor(actorId: string, impersonationId?: string): void {
+  const context = auditContext.getStore();
+  if (context) {
+    context.actorId = actorId;
+    context.impersonationId = impersonationId;
+  }
+}
+
+// Persists audit events for later querying, registered once the database is connected
+export interface AuditEventStore {
+  record(entry: AuditEventEntry): Promise<void>;
+}
+
+let auditEventStore: AuditEventStore | null = null;
+
+export function setAuditEventStore(store: AuditEventStore | null): void {
+  auditEventStore = store;
+}
+
 // Audit log function for security events
 export function auditLog(
   event: string,
@@ -80,12 +129,34 @@ export function auditLog(
   userAgent?: string,
   details?: Record<string, unknown>
 ): void {
+  // Callers without request access still get attributed to the current request
+  const context = auditContext.getStore();
+  const entry: AuditEventEntry = {
+    event,
+    userId,
+    actorId: context?.actorId,
+    ip: ip ?? context?.ip,
+    userAgent: userAgent ?? context?.userAgent,
+    requestId: context?.requestId,
+    details: context?.impersonationId ? { ...details, impersonationId: context.impersonationId } : details,
+  };
+
   auditLogger.info('Security event', {
     event,
     userId,
-    ip,
-    userAgent,
+    actorId: entry.actorId,
+    ip: entry.ip,
+    userAgent: entry.userAgent,
+    requestId: entry.requestId,
     timestamp: new Date().toISOString(),
-    ...details
+    ...entry.details
+  });
+
+  // Persistence must never break the request that raised the event
+  auditEventStore?.record(entry).catch(error => {
+    logger.error('Failed to persist audit event', {
+      event,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
   });
 }
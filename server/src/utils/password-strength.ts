@@ -0,0 +1,223 @@
+/**
+ * Password strength estimation in the style of zxcvbn: the password is split into the cheapest
+ * combination of guessable patterns (common passwords, personal details, sequences, keyboard runs,
+ * repeats, years) and brute-forced characters, and the estimated number of guesses is mapped to a
+ * score from 0 (guessable in a handful of tries) to 4 (very unguessable).
+ */
+
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  guesses: number;
+}
+
+// Most common passwords and password fragments, most common first
+const COMMON_PASSWORDS = [
+  'password', '123456', 'qwerty', 'letmein', 'welcome', 'admin', 'abc123', 'iloveyou', 'monkey',
+  'dragon', 'football', 'baseball', 'master', 'login', 'sunshine', 'princess', 'shadow', 'superman',
+  'trustno1', 'passw0rd', 'starwars', 'whatever', 'freedom', 'hello', 'secret', 'charlie', 'michael',
+  'jordan', 'hunter', 'ranger', 'buster', 'soccer', 'hockey', 'killer', 'george', 'pepper', 'summer',
+  'winter', 'spring', 'autumn', 'ginger', 'cookie', 'cheese', 'flower', 'orange', 'banana', 'matrix',
+  'computer', 'internet', 'access', 'pass', 'test', 'guest', 'user', 'root', 'changeme', 'default',
+  'love', 'lovely', 'angel', 'baby', 'family', 'friend', 'mother', 'father', 'secure', 'security',
+  'company', 'office', 'work', 'qazwsx', 'zaq12wsx', 'asdfgh', 'zxcvbn', 'google', 'apple', 'samsung',
+  'microsoft', 'london', 'paris', 'berlin', 'america', 'canada', 'monday', 'friday', 'january',
+  'december', 'smarttask', 'task', 'tasks', 'todo', 'project',
+];
+
+const COMMON_RANKS = new Map(COMMON_PASSWORDS.map((word, index) => [word, index + 1]));
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a', '4': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i',
+  '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+// Guesses per character for stretches not covered by any pattern
+const BRUTEFORCE_CARDINALITY = 10;
+// Floors so that every recognised pattern still costs something
+const MIN_SINGLE_CHAR_GUESSES = 10;
+const MIN_MULTI_CHAR_GUESSES = 50;
+
+const SCORE_THRESHOLDS = [1e3, 1e6, 1e8, 1e10];
+
+interface PatternMatch {
+  start: number;
+  end: number;
+  guesses: number;
+}
+
+/**
+ * Estimate how hard a password is to guess. User inputs such as the email address and name
+ * count as the most guessable words of all.
+ */
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  const guesses = estimateGuesses(password, normalizeUserInputs(userInputs));
+  const below = SCORE_THRESHOLDS.findIndex(threshold => guesses < threshold);
+
+  return {
+    score: (below === -1 ? 4 : below) as PasswordStrengthScore,
+    guesses,
+  };
+}
+
+/**
+ * Words derived from personal details: the email local part and domain, and each part of the name
+ */
+export function userInputWords(...inputs: Array<string | null | undefined>): string[] {
+  return inputs
+    .flatMap(input => (input ?? '').toLowerCase().split(/[^a-z0-9]+/))
+    .filter(word => word.length >= 3);
+}
+
+function normalizeUserInputs(userInputs: string[]): Map<string, number> {
+  return new Map(userInputs.map(word => [word.toLowerCase(), 1]));
+}
+
+function estimateGuesses(password: string, userWords: Map<string, number>): number {
+  const matches = [
+    ...dictionaryMatches(password, userWords),
+    ...sequenceMatches(password),
+    ...keyboardMatches(password),
+    ...repeatMatches(password, userWords),
+    ...yearMatches(password),
+  ];
+
+  // Cheapest way to build each prefix of the password from matches and brute-forced characters
+  const best = new Array<number>(password.length + 1).fill(Infinity);
+  best[0] = 1;
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = best[end - 1]! * BRUTEFORCE_CARDINALITY;
+
+    for (const match of matches) {
+      if (match.end !== end) continue;
+      const floor = end - match.start === 1 ? MIN_SINGLE_CHAR_GUESSES : MIN_MULTI_CHAR_GUESSES;
+      best[end] = Math.min(best[end]!, best[match.start]! * Math.max(match.guesses, floor));
+    }
+  }
+
+  return best[password.length]!;
+}
+
+function dictionaryMatches(password: string, userWords: Map<string, number>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const unleeted = [...lower].map(char => LEET_SUBSTITUTIONS[char] ?? char).join('');
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + 3; end <= password.length; end++) {
+      const original = password.slice(start, end);
+      const candidates: Array<[string, number]> = [
+        [lower.slice(start, end), 1],
+        [unleeted.slice(start, end), 2],
+        [[...lower.slice(start, end)].reverse().join(''), 2],
+      ];
+
+      for (const [word, multiplier] of candidates) {
+        const rank = userWords.get(word) ?? COMMON_RANKS.get(word);
+        if (rank !== undefined) {
+          matches.push({ start, end, guesses: rank * multiplier * uppercaseVariations(original) });
+          break;
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+// Capitalising the first letter or the whole word are the usual variations
+function uppercaseVariations(word: string): number {
+  if (word === word.toLowerCase()) return 1;
+  if (/^[A-Z][^A-Z]*$/.test(word) || word === word.toUpperCase()) return 2;
+  const upper = [...word].filter(char => /[A-Z]/.test(char)).length;
+  return 2 ** Math.min(upper, word.length - upper) * 4;
+}
+
+// Runs such as abc, 9876 or 2468
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+
+  while (start < password.length - 2) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 1;
+
+    while (
+      end < password.length &&
+      Math.abs(delta) >= 1 &&
+      Math.abs(delta) <= 2 &&
+      password.charCodeAt(end) - password.charCodeAt(end - 1) === delta
+    ) {
+      end++;
+    }
+
+    if (end - start >= 3) {
+      const first = password[start]!;
+      // Runs starting at either end of the alphabet or digits are tried first
+      const base = 'aAzZ019'.includes(first) ? 4 : /\d/.test(first) ? 10 : 26;
+      matches.push({ start, end, guesses: base * (end - start) * (delta < 0 ? 2 : 1) });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+
+  return matches;
+}
+
+// Straight runs along a keyboard row, such as qwerty or lkjh
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = lower.length; end >= start + 4; end--) {
+      const run = lower.slice(start, end);
+      const reversed = [...run].reverse().join('');
+      const row = KEYBOARD_ROWS.find(keys => keys.includes(run) || keys.includes(reversed));
+
+      if (row) {
+        matches.push({ start, end, guesses: row.length * run.length * (row.includes(run) ? 1 : 2) });
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+// Repeated characters or blocks, such as aaaa or abcabc
+function repeatMatches(password: string, userWords: Map<string, number>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const repeated = /(.+?)\1+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = repeated.exec(password)) !== null) {
+    const base = match[1]!;
+    const count = match[0].length / base.length;
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      guesses: estimateGuesses(base, userWords) * count,
+    });
+  }
+
+  return matches;
+}
+
+function yearMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const years = /(?:19|20)\d\d/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = years.exec(password)) !== null) {
+    const distance = Math.abs(Number(match[0]) - new Date().getFullYear());
+    matches.push({ start: match.index, end: match.index + 4, guesses: Math.max(distance, 20) });
+  }
+
+  return matches;
+}
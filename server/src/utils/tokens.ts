@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a URL-safe random token for links sent to users
+ */
+export function generateSecureToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash a token for storage so a database leak does not expose usable tokens
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Keyed hash for long-lived tokens: a leaked table cannot be checked against
+ * guessed tokens without also holding the server secret
+ */
+export function hmacToken(token: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(token).digest('hex');
+}
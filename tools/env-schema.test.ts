@@ -77,6 +77,23 @@ describe('Environment Schema Validation', () => {
       expect(() => validateServerEnv()).toThrow('JWT_SECRET');
     });
 
+    it('should reject token lifetimes that cannot be signed', () => {
+      process.env = {
+        DATABASE_URL: 'file:./test.db',
+        JWT_SECRET: 'test-jwt-secret-that-is-long-enough-32-chars',
+        COOKIE_SECRET: 'test-cookie-secret-16-chars',
+        CSRF_SECRET: 'test-csrf-secret-16-chars',
+        CORS_ORIGIN: 'http://localhost:3000',
+        JWT_ACCESS_TOKEN_EXPIRY: 'soon',
+      };
+
+      expect(() => validateServerEnv()).toThrow('JWT_ACCESS_TOKEN_EXPIRY');
+
+      process.env.JWT_ACCESS_TOKEN_EXPIRY = '1.5h';
+      process.env.MFA_CHALLENGE_EXPIRY = '10 minutes';
+      expect(validateServerEnv().JWT_ACCESS_TOKEN_EXPIRY).toBe('1.5h');
+    });
+
     it('should use default values for optional variables', () => {
       process.env = {
         DATABASE_URL: 'file:./test.db',
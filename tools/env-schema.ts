@@ -1,5 +1,49 @@
 import { z } from 'zod';
 
+// One OpenID Connect provider users can sign in with
+export const oidcProviderSchema = z.object({
+  // Short identifier used in URLs and stored on linked identities, e.g. "google"
+  id: z.string().regex(/^[a-z0-9-]+$/, 'OIDC provider id must be lowercase letters, digits or dashes'),
+  // Shown on the sign-in buttons
+  name: z.string().min(1),
+  // Issuer URL; endpoints are discovered from <issuer>/.well-known/openid-configuration
+  issuer: z.string().url('OIDC provider issuer must be a valid URL'),
+  clientId: z.string().min(1),
+  // Omit for public clients that rely on PKCE alone
+  clientSecret: z.string().min(1).optional(),
+  scopes: z.string().min(1).default('openid email profile'),
+});
+
+export type OidcProviderConfig = z.infer<typeof oidcProviderSchema>;
+
+// Token lifetimes such as "10m", "1.5h" or "7 days", in the format jose's setExpirationTime accepts
+const tokenLifetimeSchema = (name: string, fallback: string) =>
+  z
+    .string()
+    .regex(
+      /^(\d+|\d+\.\d+) ?(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w|years?|yrs?|y)$/i,
+      `${name} must be a number followed by a unit, e.g. "10m" or "7 days"`
+    )
+    .default(fallback);
+
+// OIDC_PROVIDERS holds a JSON array of providers
+const oidcProvidersSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OIDC_PROVIDERS must be a JSON array' });
+      return z.NEVER;
+    }
+  })
+  .pipe(
+    z.array(oidcProviderSchema).refine(
+      providers => new Set(providers.map(provider => provider.id)).size === providers.length,
+      'OIDC provider ids must be unique'
+    )
+  );
+
 // Base environment schema for server
 export const serverEnvSchema = z.object({
   // Database
@@ -9,6 +53,7 @@ export const serverEnvSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   COOKIE_SECRET: z.string().min(16, 'COOKIE_SECRET must be at least 16 characters'),
   CSRF_SECRET: z.string().min(16, 'CSRF_SECRET must be at least 16 characters'),
+  REFRESH_TOKEN_SECRET: z.string().min(32, 'REFRESH_TOKEN_SECRET must be at least 32 characters').optional(),
   
   // Optional for cookie rotation
   COOKIE_SECRET_OLD: z.string().min(16, 'COOKIE_SECRET_OLD must be at least 16 characters').optional(),
@@ -27,9 +72,101 @@ export const serverEnvSchema = z.object({
   LOGIN_RATE_LIMIT_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().positive()).default('5'),
   
   // JWT Configuration
-  JWT_ALGORITHM: z.enum(['HS256', 'HS384', 'HS512']).default('HS256'),
-  JWT_ACCESS_TOKEN_EXPIRY: z.string().default('10m'),
-  JWT_REFRESH_TOKEN_EXPIRY: z.string().default('7d'),
+  JWT_ALGORITHM: z.enum(['HS256', 'HS384', 'HS512', 'RS256', 'ES256', 'EdDSA']).default('HS256'),
+  JWT_ACCESS_TOKEN_EXPIRY: tokenLifetimeSchema('JWT_ACCESS_TOKEN_EXPIRY', '10m'),
+  JWT_REFRESH_TOKEN_EXPIRY: tokenLifetimeSchema('JWT_REFRESH_TOKEN_EXPIRY', '7d'),
+  // PEM keys for RS256/ES256/EdDSA; the newest private key signs
+  JWT_KEYS_DIR: z.string().min(1).default('keys/jwt'),
+  JWT_KEY_ROTATION_INTERVAL_MS: z.string().transform(Number).pipe(z.number().positive()).default('2592000000'),
+
+  // Public URL of the client app, used for links in outgoing emails (defaults to CORS_ORIGIN)
+  APP_URL: z.string().url('APP_URL must be a valid URL').optional(),
+
+  // Email delivery
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).default('console'),
+  MAIL_FROM: z.string().min(1).default('SmartTask AI <no-reply@smarttask.local>'),
+  MAIL_FILE_DIR: z.string().min(1).default('tmp/mail'),
+  SMTP_URL: z.string().url('SMTP_URL must be a valid URL').optional(),
+
+  // Email verification
+  EMAIL_VERIFICATION_REQUIRED: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+  EMAIL_VERIFICATION_TOKEN_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('86400000'),
+  VERIFICATION_RESEND_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().positive()).default('3'),
+  EMAIL_CHANGE_TOKEN_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('86400000'),
+
+  // Password reset
+  PASSWORD_RESET_TOKEN_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('1800000'),
+  PASSWORD_RESET_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().positive()).default('5'),
+
+  // Password policy, shared with the client through GET /api/auth/password-policy
+  PASSWORD_MIN_LENGTH: z.string().transform(Number).pipe(z.number().int().min(8).max(128)).default('8'),
+  PASSWORD_REQUIRE_LOWERCASE: z.enum(['true', 'false']).transform(value => value === 'true').default('true'),
+  PASSWORD_REQUIRE_UPPERCASE: z.enum(['true', 'false']).transform(value => value === 'true').default('true'),
+  PASSWORD_REQUIRE_NUMBER: z.enum(['true', 'false']).transform(value => value === 'true').default('true'),
+  PASSWORD_REQUIRE_SYMBOL: z.enum(['true', 'false']).transform(value => value === 'true').default('true'),
+  // Estimated strength from 0 (guessable in a few attempts) to 4 (very unguessable)
+  PASSWORD_MIN_STRENGTH: z.string().transform(Number).pipe(z.number().int().min(0).max(4)).default('2'),
+  // Comma-separated words passwords may not contain, on top of the user's own name and email
+  PASSWORD_BANNED_WORDS: z
+    .string()
+    .transform(value => value.split(',').map(word => word.trim().toLowerCase()).filter(Boolean))
+    .default(''),
+  // Previous passwords that cannot be reused (0 allows reuse)
+  PASSWORD_HISTORY_COUNT: z.string().transform(Number).pipe(z.number().int().nonnegative()).default('5'),
+  // Days before a password must be changed (0 never expires)
+  PASSWORD_MAX_AGE_DAYS: z.string().transform(Number).pipe(z.number().int().nonnegative()).default('0'),
+  // Directory of breached-password hash ranges, one <first 5 SHA-1 hex chars>.txt file per prefix
+  PASSWORD_BREACH_LIST_DIR: z.string().min(1).optional(),
+
+  // Argon2id parameters for new password hashes; older hashes are upgraded at sign-in
+  ARGON2_MEMORY_COST_KIB: z.string().transform(Number).pipe(z.number().int().min(1024)).default('65536'),
+  ARGON2_TIME_COST: z.string().transform(Number).pipe(z.number().int().min(2)).default('3'),
+  ARGON2_PARALLELISM: z.string().transform(Number).pipe(z.number().int().min(1)).default('1'),
+
+  // Magic-link sign-in
+  MAGIC_LINK_TOKEN_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('900000'),
+  MAGIC_LINK_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().positive()).default('5'),
+
+  // Account data export and deletion
+  DATA_EXPORT_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('604800000'),
+  ACCOUNT_DELETION_GRACE_PERIOD_MS: z.string().transform(Number).pipe(z.number().nonnegative()).default('2592000000'),
+
+  // Organizations
+  ORGANIZATION_INVITATION_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('604800000'),
+
+  // Two-factor authentication
+  MFA_ISSUER: z.string().min(1).default('SmartTask AI'),
+  MFA_ENCRYPTION_KEY: z.string().min(32, 'MFA_ENCRYPTION_KEY must be at least 32 characters').optional(),
+  MFA_CHALLENGE_EXPIRY: tokenLifetimeSchema('MFA_CHALLENGE_EXPIRY', '5m'),
+
+  // WebAuthn passkeys
+  WEBAUTHN_RP_ID: z.string().min(1).default('localhost'),
+  WEBAUTHN_RP_NAME: z.string().min(1).default('SmartTask AI'),
+  WEBAUTHN_ORIGIN: z.string().url('WEBAUTHN_ORIGIN must be a valid URL').optional(),
+  WEBAUTHN_CHALLENGE_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('300000'),
+
+  // Offline GeoIP database (MaxMind GeoLite2/GeoIP2 City .mmdb) for session locations
+  GEOIP_DATABASE_PATH: z.string().min(1).optional(),
+
+  // Login risk checks: sign-ins scoring at least the challenge score must confirm an emailed code
+  // (or their second factor); at the block score they are refused
+  LOGIN_RISK_CHALLENGE_SCORE: z.string().transform(Number).pipe(z.number().int().positive()).default('50'),
+  LOGIN_RISK_BLOCK_SCORE: z.string().transform(Number).pipe(z.number().int().positive()).default('100'),
+  LOGIN_VERIFICATION_CODE_TTL_MS: z.string().transform(Number).pipe(z.number().positive()).default('600000'),
+
+  // Social login through OpenID Connect providers (JSON array, see oidcProviderSchema)
+  OIDC_PROVIDERS: oidcProvidersSchema.default('[]'),
+  // Where providers send users back to; defaults to <APP_URL>/auth/callback
+  OIDC_REDIRECT_URI: z.string().url('OIDC_REDIRECT_URI must be a valid URL').optional(),
+
+  // OpenID Connect provider for other apps; the URL this server is reached at, defaults to APP_URL
+  OAUTH_ISSUER: z.string().url('OAUTH_ISSUER must be a valid URL').optional(),
+
+  // SCIM 2.0 provisioning from a company directory; the endpoints are off while unset
+  SCIM_BEARER_TOKEN: z.string().min(32, 'SCIM_BEARER_TOKEN must be at least 32 characters').optional(),
+
+  // Audit log (0 keeps events forever)
+  AUDIT_LOG_RETENTION_DAYS: z.string().transform(Number).pipe(z.number().int().nonnegative()).default('365'),
 });
 
 // Client environment schema